@@ -1,15 +1,20 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatLabel, formatMeasureValue, measureMaxLabelWidth } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatLabel, measureMaxLabelWidth, localize, getDisplayUnitReference, includeReferenceLines, ALL_GROUP } from "@pbi-visuals/shared";
 import { IBollingerVisualSettings } from "./settings";
 import { BollingerChartData, BollingerDataPoint } from "./BollingerTransformer";
 
+interface BollingerSeries {
+    key: string;
+    points: BollingerDataPoint[];
+}
+
 export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IBollingerVisualSettings): void {
+    protected draw(data: ChartData, settings: IBollingerVisualSettings): void {
         this.settings = settings;
         const bollingerData = data as BollingerChartData;
 
@@ -18,7 +23,8 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
             return;
         }
 
-        const { xValues, groups, bollingerPoints, minValue, maxValue } = bollingerData;
+        const { xValues, groups, bollingerPoints } = bollingerData;
+        const [minValue, maxValue] = includeReferenceLines([bollingerData.minValue, bollingerData.maxValue], this.getReferenceLines(bollingerData, []));
         const bollinger = settings.bollinger;
 
         const hasLegendRoleData = bollingerData.hasLegendRoleData;
@@ -33,7 +39,7 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -74,6 +80,7 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
         const xDisplayLabels = xValues.map(formatXLabel);
         const xValueOrder = new Map(xValues.map((x, idx) => [x, idx]));
 
+        const crosshair = this.createCrosshairSync(groups.length);
         let currentY = margin.top;
 
         groups.forEach((groupName, groupIndex) => {
@@ -105,12 +112,10 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 (xValueOrder.get(String(a.date)) ?? 0) - (xValueOrder.get(String(b.date)) ?? 0)
             );
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "bollinger-panel")
-                .attr("transform", `translate(${margin.left}, ${currentY})`);
+            const panelGroup = this.getPanel(groupName, margin.left, currentY, "bollinger-panel");
 
             // Panel title
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleFontSize = this.getEffectiveFontSize(
                     settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize,
@@ -127,7 +132,7 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -144,7 +149,7 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 .range([groupHeight, 0]);
 
             const seriesColorScale = hasLegendRoleData
-                ? this.getCategoryColors(seriesKeys, bollingerData.categoryColorMap)
+                ? this.getCategoryColors(seriesKeys, this.withRuleColors(bollingerData, bollingerData.categoryColorMap))
                 : null;
 
             // Line generators
@@ -174,32 +179,28 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 .y0(d => yScale(d.lower!))
                 .y1(d => yScale(d.upper!));
 
+            // One line set per series; without a Legend field the group is a single series.
+            const isMultiSeries = Boolean(hasLegendRoleData && seriesColorScale);
+            const series: BollingerSeries[] = isMultiSeries
+                ? seriesKeys
+                    .map(seriesKey => ({ key: seriesKey, points: pointsBySeries.get(seriesKey) ?? [] }))
+                    .filter(s => s.points.length > 0)
+                : [{ key: "", points: groupPoints }];
+            const seriesColor = (fallback: string) => (s: BollingerSeries): string =>
+                isMultiSeries ? seriesColorScale!(s.key) : fallback;
+
             // Render order (back to front):
             // 1. Band fill area
             if (bollinger.showBandFill && bollinger.showBands) {
-                if (hasLegendRoleData && seriesColorScale) {
-                    seriesKeys.forEach(seriesKey => {
-                        const pts = pointsBySeries.get(seriesKey) ?? [];
-                        if (!pts.length) return;
-                        const baseOpacity = Math.max(0, Math.min(0.22, bollinger.bandFillOpacity * 0.35));
-                        panelGroup.append("path")
-                            .datum(pts)
-                            .attr("class", "band-fill")
-                            .attr("data-selection-key", seriesKey)
-                            .attr("d", areaGenerator)
-                            .attr("fill", seriesColorScale(seriesKey))
-                            .attr("opacity", baseOpacity)
-                            .attr("stroke", "none");
-                    });
-                } else {
-                    panelGroup.append("path")
-                        .datum(groupPoints)
-                        .attr("class", "band-fill")
-                        .attr("d", areaGenerator)
-                        .attr("fill", bollinger.bandFillColor)
-                        .attr("opacity", bollinger.bandFillOpacity)
-                        .attr("stroke", "none");
-                }
+                const bandFillOpacity = isMultiSeries
+                    ? Math.max(0, Math.min(0.22, bollinger.bandFillOpacity * 0.35))
+                    : bollinger.bandFillOpacity;
+                this.joinMarks<SVGPathElement, BollingerSeries>(panelGroup, "path.band-fill", series, s => s.key, path => path
+                    .attr("d", s => areaGenerator(s.points))
+                    .attr("fill", seriesColor(bollinger.bandFillColor))
+                    .attr("opacity", bandFillOpacity))
+                    .attr("data-selection-key", s => isMultiSeries ? s.key : null)
+                    .attr("stroke", "none");
             }
 
             // 2. Grid lines (horizontal)
@@ -217,108 +218,50 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 .attr("stroke-width", 1)
                 .attr("stroke-dasharray", "3,3");
 
-            const renderSeries = (pts: BollingerDataPoint[], stroke: string, seriesKey?: string) => {
-                // 3. Lower band line
-                if (bollinger.showBands) {
-                    const lower = panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "lower-band")
-                        .attr("d", lowerLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", stroke)
-                        .attr("opacity", hasLegendRoleData ? 0.35 : 1)
-                        .attr("stroke-width", bollinger.lineWidth);
-                    if (seriesKey) lower.attr("data-selection-key", seriesKey);
-                }
-
-                // 4. Upper band line
-                if (bollinger.showBands) {
-                    const upper = panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "upper-band")
-                        .attr("d", upperLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", stroke)
-                        .attr("opacity", hasLegendRoleData ? 0.35 : 1)
-                        .attr("stroke-width", bollinger.lineWidth);
-                    if (seriesKey) upper.attr("data-selection-key", seriesKey);
-                }
-
-                // 5. Middle band / SMA line
-                if (bollinger.showMiddleBand) {
-                    const middle = panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "middle-band")
-                        .attr("d", smaLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", stroke)
-                        .attr("opacity", hasLegendRoleData ? 0.7 : 1)
-                        .attr("stroke-dasharray", hasLegendRoleData ? "3,2" : null)
-                        .attr("stroke-width", bollinger.lineWidth);
-                    if (seriesKey) middle.attr("data-selection-key", seriesKey);
-                }
-
-                // 6. Price line
-                if (bollinger.showPriceLine) {
-                    const price = panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "price-line")
-                        .attr("d", priceLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", stroke)
-                        .attr("stroke-width", bollinger.lineWidth + 0.5);
-                    if (seriesKey) price.attr("data-selection-key", seriesKey);
-                }
+            const drawLines = (
+                className: string,
+                generator: d3.Line<BollingerDataPoint>,
+                color: string,
+                opacity: number,
+                strokeWidth: number,
+                dashArray: string | null = null
+            ): void => {
+                this.joinMarks<SVGPathElement, BollingerSeries>(panelGroup, "path." + className, series, s => s.key, path => path
+                    .attr("d", s => generator(s.points))
+                    .attr("stroke", seriesColor(color))
+                    .attr("opacity", opacity)
+                    .attr("stroke-width", strokeWidth))
+                    .attr("data-selection-key", s => isMultiSeries ? s.key : null)
+                    .attr("fill", "none")
+                    .attr("stroke-dasharray", dashArray);
             };
 
-            if (hasLegendRoleData && seriesColorScale) {
-                seriesKeys.forEach(seriesKey => {
-                    const pts = pointsBySeries.get(seriesKey) ?? [];
-                    if (!pts.length) return;
-                    renderSeries(pts, seriesColorScale(seriesKey), seriesKey);
-                });
-            } else {
-                // Single-series defaults
-                if (bollinger.showBands) {
-                    panelGroup.append("path")
-                        .datum(groupPoints)
-                        .attr("class", "lower-band")
-                        .attr("d", lowerLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", bollinger.lowerBandColor)
-                        .attr("stroke-width", bollinger.lineWidth);
-
-                    panelGroup.append("path")
-                        .datum(groupPoints)
-                        .attr("class", "upper-band")
-                        .attr("d", upperLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", bollinger.upperBandColor)
-                        .attr("stroke-width", bollinger.lineWidth);
-                }
+            // 3-4. Lower and upper band lines
+            if (bollinger.showBands) {
+                drawLines("lower-band", lowerLineGenerator, bollinger.lowerBandColor, isMultiSeries ? 0.35 : 1, bollinger.lineWidth);
+                drawLines("upper-band", upperLineGenerator, bollinger.upperBandColor, isMultiSeries ? 0.35 : 1, bollinger.lineWidth);
+            }
 
-                if (bollinger.showMiddleBand) {
-                    panelGroup.append("path")
-                        .datum(groupPoints)
-                        .attr("class", "middle-band")
-                        .attr("d", smaLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", bollinger.middleBandColor)
-                        .attr("stroke-width", bollinger.lineWidth);
-                }
+            // 5. Middle band / SMA line
+            if (bollinger.showMiddleBand) {
+                drawLines("middle-band", smaLineGenerator, bollinger.middleBandColor, isMultiSeries ? 0.7 : 1, bollinger.lineWidth, isMultiSeries ? "3,2" : null);
+            }
 
-                if (bollinger.showPriceLine) {
-                    panelGroup.append("path")
-                        .datum(groupPoints)
-                        .attr("class", "price-line")
-                        .attr("d", priceLineGenerator)
-                        .attr("fill", "none")
-                        .attr("stroke", bollinger.priceLineColor)
-                        .attr("stroke-width", bollinger.lineWidth + 0.5);
-                }
+            // 6. Price line
+            if (bollinger.showPriceLine) {
+                drawLines("price-line", priceLineGenerator, bollinger.priceLineColor, 1, bollinger.lineWidth + 0.5);
             }
 
-            // 7. Tooltip overlay
+            // 7. Reference lines (statistics over the price values)
+            this.renderReferenceLines(
+                panelGroup,
+                this.getReferenceLines(bollingerData, groupPoints.map((p) => p.value)),
+                yScale,
+                { width: chartWidth, height: groupHeight },
+                "horizontal"
+            );
+
+            // 8. Tooltip overlay
             const overlay = panelGroup.append("rect")
                 .attr("class", "tooltip-overlay")
                 .attr("width", chartWidth)
@@ -412,10 +355,11 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 return { x, points };
             };
 
-            // Format number helper
+            // Format number helper; unformatted measures keep two decimals so bands stay comparable.
+            const formatTooltipNumber = this.getValueFormatter("tooltip", bollingerData.valueFormatString || "#,0.00");
             const formatNumber = (val: number | null): string => {
                 if (val === null) return "N/A";
-                return formatMeasureValue(val, bollingerData.valueFormatString, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+                return formatTooltipNumber(val);
             };
 
             if (settings.tooltip.style === "custom") {
@@ -455,16 +399,16 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                     }
 
                     const tooltipRows: { displayName: string; value: string; color?: string }[] = [
-                        { displayName: "Price", value: formatNumber(point.value), color: bollinger.priceLineColor }
+                        { displayName: localize("Visual_Price"), value: formatNumber(point.value), color: bollinger.priceLineColor }
                     ];
-                    if (point.sma !== null) tooltipRows.push({ displayName: "SMA", value: formatNumber(point.sma), color: bollinger.middleBandColor });
-                    if (point.upper !== null) tooltipRows.push({ displayName: "Upper Band", value: formatNumber(point.upper), color: bollinger.upperBandColor });
-                    if (point.lower !== null) tooltipRows.push({ displayName: "Lower Band", value: formatNumber(point.lower), color: bollinger.lowerBandColor });
+                    if (point.sma !== null) tooltipRows.push({ displayName: localize("Visual_SMA"), value: formatNumber(point.sma), color: bollinger.middleBandColor });
+                    if (point.upper !== null) tooltipRows.push({ displayName: localize("Visual_UpperBand"), value: formatNumber(point.upper), color: bollinger.upperBandColor });
+                    if (point.lower !== null) tooltipRows.push({ displayName: localize("Visual_LowerBand"), value: formatNumber(point.lower), color: bollinger.lowerBandColor });
 
                     return {
                         meta: {
                             title: dateLabel,
-                            subtitle: (groupName !== "All" && groupName !== "(Blank)") ? groupName : undefined,
+                            subtitle: (groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) ? groupName : undefined,
                             color: bollinger.priceLineColor
                         },
                         tooltipData: tooltipRows
@@ -498,7 +442,7 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                                 }));
 
                             this.context.tooltipService.show({
-                                dataItems: [{ displayName: "Date", value: dateLabel }, ...rows],
+                                dataItems: [{ displayName: localize("Visual_Date"), value: dateLabel }, ...rows],
                                 identities: [],
                                 coordinates: [event.clientX, event.clientY],
                                 isTouchEvent: false
@@ -510,12 +454,12 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                         if (!point) return;
 
                         const nativeRows: { displayName: string; value: string; color?: string }[] = [
-                            { displayName: "Date", value: dateLabel },
-                            { displayName: "Price", value: formatNumber(point.value), color: bollinger.priceLineColor }
+                            { displayName: localize("Visual_Date"), value: dateLabel },
+                            { displayName: localize("Visual_Price"), value: formatNumber(point.value), color: bollinger.priceLineColor }
                         ];
-                        if (point.sma !== null) nativeRows.push({ displayName: "SMA", value: formatNumber(point.sma), color: bollinger.middleBandColor });
-                        if (point.upper !== null) nativeRows.push({ displayName: "Upper Band", value: formatNumber(point.upper), color: bollinger.upperBandColor });
-                        if (point.lower !== null) nativeRows.push({ displayName: "Lower Band", value: formatNumber(point.lower), color: bollinger.lowerBandColor });
+                        if (point.sma !== null) nativeRows.push({ displayName: localize("Visual_SMA"), value: formatNumber(point.sma), color: bollinger.middleBandColor });
+                        if (point.upper !== null) nativeRows.push({ displayName: localize("Visual_UpperBand"), value: formatNumber(point.upper), color: bollinger.upperBandColor });
+                        if (point.lower !== null) nativeRows.push({ displayName: localize("Visual_LowerBand"), value: formatNumber(point.lower), color: bollinger.lowerBandColor });
 
                         this.context.tooltipService.show({
                             dataItems: nativeRows,
@@ -532,38 +476,60 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                     });
             }
 
-            // 8. Y-Axis
+            // Mirror the hovered date into the other panels.
+            crosshair?.addPanel(panelGroup, {
+                key: groupName,
+                width: chartWidth,
+                height: groupHeight,
+                pick: getClosestXValue,
+                locate: (xValue) => xValueOrder.has(xValue) ? xScale(xValueOrder.get(xValue)!) : null,
+                values: (xValue) => {
+                    if (!hasLegendRoleData) {
+                        const point = groupPoints.find(p => String(p.date) === xValue);
+                        return point
+                            ? [{ label: localize("Visual_Price"), value: formatNumber(point.value), y: yScale(point.value), color: bollinger.priceLineColor }]
+                            : [];
+                    }
+                    return seriesKeys.flatMap(seriesKey => {
+                        const point = pointBySeriesByX.get(seriesKey)?.get(xValue);
+                        return point
+                            ? [{ label: seriesKey, value: formatNumber(point.value), y: yScale(point.value), color: seriesColorScale?.(seriesKey) }]
+                            : [];
+                    });
+                },
+                label: formatXLabel,
+                ownsHover: true
+            });
+
+            // 9. Y-Axis
             if (settings.showYAxis) {
                 const yAxisFontSize = this.getEffectiveFontSize(
                     settings.textSizes.yAxisFontSize || settings.yAxisFontSize,
                     6, 40
                 );
 
-                const yAxisGroup = panelGroup.append("g")
-                    .attr("class", "y-axis");
-
-                yTicks.forEach(tick => {
-                    const y = Math.round(yScale(tick));
-                    yAxisGroup.append("text")
-                        .attr("x", -8)
-                        .attr("y", y)
-                        .attr("dy", "0.32em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", `${yAxisFontSize}px`)
-                        .attr("font-family", settings.yAxisFontFamily)
-                        .style("font-weight", settings.yAxisBold ? "700" : "400")
-                        .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                        .attr("fill", this.isHighContrastMode() ? this.getThemeForeground(settings.yAxisColor || "#111827") : settings.yAxisColor)
-                        .text(formatMeasureValue(tick, bollingerData.valueFormatString));
-                });
+                const yAxisGroup = this.getLayer(panelGroup, "y-axis");
+
+                const formatAxisValue = this.getValueFormatter("axis", bollingerData.valueFormatString, getDisplayUnitReference(yTicks));
+                // Keyed by label, so ticks kept across an update slide to their new position.
+                this.joinMarks<SVGTextElement, number>(yAxisGroup, "text.tick-label", yTicks, tick => formatAxisValue(tick), text => text
+                    .attr("y", tick => Math.round(yScale(tick)))
+                    .attr("fill", this.isHighContrastMode() ? this.getThemeForeground(settings.yAxisColor || "#111827") : settings.yAxisColor))
+                    .attr("x", -8)
+                    .attr("dy", "0.32em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${yAxisFontSize}px`)
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text(tick => formatAxisValue(tick));
             }
 
-            // 9. X-Axis (only on last group)
+            // 10. X-Axis (only on last group)
             if (settings.showXAxis && groupIndex === groups.length - 1) {
-                const xAxisGroup = panelGroup.append("g")
-                    .attr("class", "x-axis")
-                    .attr("transform", `translate(0, ${Math.round(groupHeight)})`);
+                const xAxisGroup = this.getLayer(panelGroup, "x-axis", axis => axis
+                    .attr("transform", `translate(0, ${Math.round(groupHeight)})`));
 
                 const xAxisFontSize = this.getEffectiveFontSize(
                     settings.textSizes.xAxisFontSize || settings.xAxisFontSize,
@@ -604,39 +570,26 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                         visibleXIndices.push(lastIdx);
                     }
                 }
-                const visibleSet = new Set(visibleXIndices);
-
-                xValues.forEach((_, i) => {
-                    if (!visibleSet.has(i)) return;
-
-                    const x = Math.round(xScale(i));
-
-                    const text = xAxisGroup.append("text")
-                        .attr("x", x)
-                        .attr("y", shouldRotate ? 5 : 15)
-                        .attr("font-size", `${xAxisFontSize}px`)
-                        .attr("font-family", settings.xAxisFontFamily)
-                        .style("font-weight", settings.xAxisBold ? "700" : "400")
-                        .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                        .attr("fill", this.isHighContrastMode() ? this.getThemeForeground(settings.xAxisColor || "#111827") : settings.xAxisColor)
-                        .text(xDisplayLabels[i]);
-
-                    if (shouldRotate) {
-                        text
-                            .attr("transform", `rotate(-45, ${x}, 5)`)
-                            .attr("text-anchor", "end");
-                    } else {
-                        text.attr("text-anchor", "middle");
-                    }
-                });
+
+                this.joinMarks<SVGTextElement, number>(xAxisGroup, "text.tick-label", visibleXIndices, i => xValues[i], text => text
+                    .attr("x", i => Math.round(xScale(i)))
+                    .attr("y", shouldRotate ? 5 : 15)
+                    .attr("transform", i => shouldRotate ? `rotate(-45, ${Math.round(xScale(i))}, 5)` : null)
+                    .attr("fill", this.isHighContrastMode() ? this.getThemeForeground(settings.xAxisColor || "#111827") : settings.xAxisColor))
+                    .attr("text-anchor", shouldRotate ? "end" : "middle")
+                    .attr("font-size", `${xAxisFontSize}px`)
+                    .attr("font-family", settings.xAxisFontFamily)
+                    .style("font-weight", settings.xAxisBold ? "700" : "400")
+                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                    .text(i => xDisplayLabels[i]);
             }
 
             currentY += groupHeight + interPanelGap;
         });
 
         if (hasLegendRoleData) {
-            const legendColorScale = this.getCategoryColors(seriesKeys, bollingerData.categoryColorMap);
+            const legendColorScale = this.getCategoryColors(seriesKeys, this.withRuleColors(bollingerData, bollingerData.categoryColorMap));
             this.renderLegend(legendColorScale, data.maxValue, true, seriesKeys, undefined, undefined, {
                 alignFrame: {
                     x: margin.left,
@@ -660,10 +613,10 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
         const hasLower = bollingerPoints.some(p => p.lower !== null);
 
         const items: Array<{ label: string; color: string }> = [];
-        if (bollinger.showPriceLine) items.push({ label: "Price", color: bollinger.priceLineColor });
-        if (bollinger.showMiddleBand && hasSma) items.push({ label: "SMA", color: bollinger.middleBandColor });
-        if (bollinger.showBands && hasUpper) items.push({ label: "Upper Band", color: bollinger.upperBandColor });
-        if (bollinger.showBands && hasLower) items.push({ label: "Lower Band", color: bollinger.lowerBandColor });
+        if (bollinger.showPriceLine) items.push({ label: localize("Visual_Price"), color: bollinger.priceLineColor });
+        if (bollinger.showMiddleBand && hasSma) items.push({ label: localize("Visual_SMA"), color: bollinger.middleBandColor });
+        if (bollinger.showBands && hasUpper) items.push({ label: localize("Visual_UpperBand"), color: bollinger.upperBandColor });
+        if (bollinger.showBands && hasLower) items.push({ label: localize("Visual_LowerBand"), color: bollinger.lowerBandColor });
         return items;
     }
 
@@ -701,4 +654,8 @@ export class BollingerRenderer extends BaseRenderer<IBollingerVisualSettings> {
                 .text(item.label);
         });
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_BollingerBandsChart");
+    }
 }
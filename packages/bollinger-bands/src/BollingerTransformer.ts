@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatDataValue, formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, ConditionalColorLookup, DataPoint, addRuleColorForKey, formatDataValue, formatGroupValue, ALL_GROUP, localize } from "@pbi-visuals/shared";
 
 export interface BollingerDataPoint {
     date: Date | string;
@@ -71,9 +71,11 @@ export class BollingerTransformer {
     public static transform(
         categorical: DataViewCategorical,
         period: number = 20,
-        stdDeviation: number = 2
+        stdDeviation: number = 2,
+        ruleColors?: ConditionalColorLookup
     ): BollingerChartData {
         const dataPoints: DataPoint[] = [];
+        const ruleColorsByKey = new Map<string, string>();
         const bollingerPoints: BollingerDataPoint[] = [];
         const xValuesSet = new Set<string>();
         const xValueSortKey = new Map<string, number>();
@@ -107,7 +109,7 @@ export class BollingerTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -146,7 +148,7 @@ export class BollingerTransformer {
                 const seriesKeyRaw = legendIndex >= 0
                     ? String(categorical.categories![legendIndex].values[i] ?? "")
                     : "Price";
-                const seriesKey = seriesKeyRaw.trim() ? seriesKeyRaw.trim() : "All";
+                const seriesKey = seriesKeyRaw.trim() ? seriesKeyRaw.trim() : localize("Visual_Blank");
                 const rawValue = Number(values[i]) || 0;
                 const hasHighlight = highlights && highlights[i] !== null && highlights[i] !== undefined;
                 const highlightValue = hasHighlight ? (Number(highlights![i]) || 0) : 0;
@@ -157,6 +159,9 @@ export class BollingerTransformer {
                     xValueSortKey.set(xValue, dateMs);
                 }
                 seriesKeysSet.add(seriesKey);
+                if (legendIndex >= 0) {
+                    addRuleColorForKey(ruleColorsByKey, seriesKey, ruleColors?.getRowColor(i));
+                }
 
                 rawData.push({
                     xValue,
@@ -236,13 +241,14 @@ export class BollingerTransformer {
             bollingerPoints,
             xValues,
             yValues: seriesKeys.length ? seriesKeys : ["Price"],
-            groups: groups.length ? groups : ["All"],
+            groups: groups.length ? groups : [ALL_GROUP],
             maxValue,
             minValue,
             minDate: xValues[0] || "",
             maxDate: xValues[xValues.length - 1] || "",
             hasLegendRoleData: legendIndex >= 0 && seriesKeys.length > 0,
-            valueFormatString
+            valueFormatString,
+            ruleColorsByKey
         };
     }
 }
@@ -5,11 +5,24 @@ import DataView = powerbi.DataView;
 import {
     IBaseVisualSettings,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IReferenceLinesSettings,
+    createDefaultReferenceLinesSettings,
+    parseReferenceLinesSettings,
+    ICrosshairSettings,
+    defaultCrosshairSettings,
+    parseCrosshairSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -40,6 +53,8 @@ export interface IBollingerTextSizeSettings {
 export interface IBollingerVisualSettings extends IBaseVisualSettings {
     bollinger: IBollingerSettings;
     textSizes: IBollingerTextSizeSettings;
+    referenceLines: IReferenceLinesSettings;
+    crosshair: ICrosshairSettings;
 }
 
 export const defaultBollingerSettings: IBollingerSettings = {
@@ -59,10 +74,11 @@ export const defaultBollingerSettings: IBollingerSettings = {
 };
 
 export const defaultSettings: IBollingerVisualSettings = {
-    colorScheme: "blues",
+    colorScheme: "theme",  // no scheme picker; follow the report theme
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: true,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -79,6 +95,11 @@ export const defaultSettings: IBollingerVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "auto",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    referenceLines: createDefaultReferenceLinesSettings(),
+    crosshair: { ...defaultCrosshairSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     bollinger: { ...defaultBollingerSettings },
@@ -105,6 +126,7 @@ export function parseSettings(dataView: DataView): IBollingerVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     // Tooltip settings
@@ -130,6 +152,12 @@ export function parseSettings(dataView: DataView): IBollingerVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.referenceLines = parseReferenceLinesSettings(objects);
+    settings.crosshair = parseCrosshairSettings(objects);
+
     // X-Axis settings
     const xAxisObj = objects["xAxisSettings"];
     if (xAxisObj) {
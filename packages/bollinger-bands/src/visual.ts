@@ -17,28 +17,50 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    createCrosshairCard,
+    readReferenceMeasure,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
+    getSchemeColors,
     createXAxisCard,
     createYAxisCard,
     findCategoryIndex,
+    createConditionalColorLookup,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    localize,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { IBollingerVisualSettings, parseSettings } from "./settings";
 import { BollingerTransformer } from "./BollingerTransformer";
 import { BollingerRenderer } from "./BollingerRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 function createBollingerSettingsCard(settings: IBollingerVisualSettings["bollinger"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Bollinger Bands",
+        displayName: localize("Visual_BollingerBands"),
         uid: "bollinger_card",
         groups: [
             {
-                displayName: "Calculation",
+                displayName: localize("Visual_Calculation"),
                 uid: "bollinger_calc_group",
                 slices: [
                     {
                         uid: "bollinger_period",
-                        displayName: "Period (N)",
+                        displayName: localize("Visual_PeriodN"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -49,7 +71,7 @@ function createBollingerSettingsCard(settings: IBollingerVisualSettings["bolling
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bollinger_stdDeviation",
-                        displayName: "Std Deviations (K)",
+                        displayName: localize("Visual_StdDeviationsK"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -61,12 +83,12 @@ function createBollingerSettingsCard(settings: IBollingerVisualSettings["bolling
                 ]
             },
             {
-                displayName: "Display",
+                displayName: localize("Visual_Display"),
                 uid: "bollinger_display_group",
                 slices: [
                     {
                         uid: "bollinger_showPriceLine",
-                        displayName: "Show Price Line",
+                        displayName: localize("Visual_ShowPriceLine"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -77,7 +99,7 @@ function createBollingerSettingsCard(settings: IBollingerVisualSettings["bolling
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bollinger_showMiddleBand",
-                        displayName: "Show Middle Band (SMA)",
+                        displayName: localize("Visual_ShowMiddleBandSMA"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -88,7 +110,7 @@ function createBollingerSettingsCard(settings: IBollingerVisualSettings["bolling
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bollinger_showBands",
-                        displayName: "Show Upper/Lower Bands",
+                        displayName: localize("Visual_ShowUpperLowerBands"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -99,7 +121,7 @@ function createBollingerSettingsCard(settings: IBollingerVisualSettings["bolling
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bollinger_showBandFill",
-                        displayName: "Show Band Fill",
+                        displayName: localize("Visual_ShowBandFill"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -135,6 +157,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-bollinger-${Visual.instanceCounter++}`;
@@ -145,6 +169,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -164,8 +196,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -180,12 +210,13 @@ export class Visual implements IVisual {
         });
 
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
         const dataView = options.dataViews[0];
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
         this.syncHtmlTooltip();
         this.legendFieldIndex = findCategoryIndex(dataView, "legend");
         this.buildSeriesSelectionIds(dataView);
@@ -207,14 +238,17 @@ export class Visual implements IVisual {
         const chartData = BollingerTransformer.transform(
             dataView.categorical,
             this.settings.bollinger.period,
-            this.settings.bollinger.stdDeviation
+            this.settings.bollinger.stdDeviation,
+            createConditionalColorLookup(dataView)
         );
 
         if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
+        chartData.referenceMeasure = readReferenceMeasure(dataView);
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -227,8 +261,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "values"], dataView),
+            illustration: "lines"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -260,11 +299,18 @@ export class Visual implements IVisual {
         cards.push(createBollingerSettingsCard(this.settings.bollinger));
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createCrosshairCard(this.settings.crosshair));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createLegendCard({
             position: this.settings.legendPosition,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createYAxisCard({
@@ -332,7 +378,7 @@ export class Visual implements IVisual {
         const seen = new Set<string>();
         for (let i = 0; i < categoryColumn.values.length; i++) {
             const rawCategoryValue = String(categoryColumn.values[i] ?? "");
-            const categoryValue = rawCategoryValue.trim() ? rawCategoryValue.trim() : "All";
+            const categoryValue = rawCategoryValue.trim() ? rawCategoryValue.trim() : localize("Visual_Blank");
             if (seen.has(categoryValue)) continue;
             seen.add(categoryValue);
 
@@ -345,6 +391,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".price-line[data-selection-key], .middle-band[data-selection-key], .upper-band[data-selection-key], .lower-band[data-selection-key], .band-fill[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
@@ -372,16 +423,5 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".price-line[data-selection-key], .middle-band[data-selection-key], .upper-band[data-selection-key], .lower-band[data-selection-key], .band-fill[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 }
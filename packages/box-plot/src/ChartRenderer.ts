@@ -1,15 +1,67 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, AccessibleSummary, summarizeChartData, localize, localizeFormat, getDisplayUnitReference, includeReferenceLines, ResolvedReferenceLines, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData, IBoxPoint } from "./ChartTransformer";
+import { IChartData, IBoxPoint, IBoxStats } from "./ChartTransformer";
 
 export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    private drawBox(
+        node: d3.Selection<SVGGElement, unknown, null, undefined>,
+        stats: IBoxStats,
+        y: d3.ScaleLinear<number, number>,
+        half: number,
+        color: string
+    ): void {
+        const yMin = Math.round(y(stats.min));
+        const yMax = Math.round(y(stats.max));
+        const yQ1 = Math.round(y(stats.q1));
+        const yQ3 = Math.round(y(stats.q3));
+        const yMedian = Math.round(y(stats.median));
+
+        this.joinMarks<SVGLineElement, IBoxStats>(node, "line.whisker", [stats], () => "whisker", (line) => line
+            .attr("x1", 0)
+            .attr("x2", 0)
+            .attr("y1", yMin)
+            .attr("y2", yMax)
+            .attr("stroke", "#4b5563")
+            .attr("stroke-width", 1.25));
+
+        const boxTop = Math.min(yQ3, yQ1);
+        const boxHeight = Math.max(4, Math.abs(yQ1 - yQ3));
+        this.joinMarks<SVGRectElement, IBoxStats>(node, "rect.box", [stats], () => "box", (rect) => rect
+            .attr("x", -half)
+            .attr("y", boxTop)
+            .attr("width", half * 2)
+            .attr("height", boxHeight)
+            .attr("fill", color)
+            .attr("fill-opacity", 0.55)
+            .attr("stroke", color)
+            .attr("stroke-width", 1.5)
+            .attr("rx", 3));
+
+        this.joinMarks<SVGLineElement, IBoxStats>(node, "line.median", [stats], () => "median", (line) => line
+            .attr("x1", -half)
+            .attr("x2", half)
+            .attr("y1", yMedian)
+            .attr("y2", yMedian)
+            .attr("stroke", "#111827")
+            .attr("stroke-width", 2));
+
+        // Caps at the lower and upper whisker ends.
+        this.joinMarks<SVGLineElement, number>(node, "line.whisker-cap", [yMin, yMax], (_, i) => String(i), (line) => line
+            .attr("x1", -half * 0.65)
+            .attr("x2", half * 0.65)
+            .attr("y1", (v) => v)
+            .attr("y2", (v) => v)
+            .attr("stroke", "#4b5563")
+            .attr("stroke-width", 1.25));
+    }
+
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
@@ -18,7 +70,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
         const legendFontSize = settings.textSizes?.legendFontSize || settings.legendFontSize || 11;
         const legendReservation = settings.showLegend
             ? this.getLegendReservation({
@@ -30,35 +82,36 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             })
             : { top: 0, right: 0, bottom: 0, left: 0 };
 
-        const baseMin = chartData.minValue;
-        const baseMax = chartData.maxValue;
-        let valueSpan = baseMax - baseMin;
-        if (!Number.isFinite(valueSpan) || valueSpan <= 0) {
-            valueSpan = Math.max(1, Math.abs(baseMax || baseMin || 1) * 0.1);
-        }
-        const domainPad = valueSpan * 0.06;
-        const yDomainMin = baseMin - domainPad;
-        const yDomainMax = baseMax + domainPad;
+        const [yDomainMin, yDomainMax] = this.getValueDomain(chartData.minValue, chartData.maxValue, this.getReferenceLines(chartData, []));
 
         const axisTickValues = [0, 0.5, 1].map((f) => yDomainMin + (yDomainMax - yDomainMin) * f);
-        const axisTickLabels = axisTickValues.map((v) => formatMeasureValue(v, chartData.valueFormatString));
+        const formatAxisValue = this.getValueFormatter("axis", chartData.valueFormatString, getDisplayUnitReference([yDomainMin, yDomainMax]));
+        const axisTickLabels = axisTickValues.map((v) => formatAxisValue(v));
         const maxAxisLabelChars = axisTickLabels.reduce((m, label) => Math.max(m, label.length), 0);
         const estimatedAxisLabelWidth = Math.max(44, Math.min(130, maxAxisLabelChars * 7 + 10));
 
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const margin = {
             top: 24 + legendReservation.top,
             right: 16 + legendReservation.right,
-            bottom: 40 + legendReservation.bottom,
-            left: 10 + estimatedAxisLabelWidth + legendReservation.left
+            bottom: 16 + legendReservation.bottom,
+            left: legendReservation.left
         };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
         const width = Math.max(120, this.context.width - margin.left - margin.right);
-        const height = Math.max(120, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
-
-        const y = d3.scaleLinear()
-            .domain([yDomainMin, yDomainMax])
-            .range([panelHeight, 0]);
+        // The grid reserves the axis margins itself, per panel or around the grid's outer edge.
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width,
+            height: Math.max(120, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.6,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0,
+            axisLeft: 10 + estimatedAxisLabelWidth,
+            axisBottom: 24
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelWidth = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
 
         const colorScale = this.getCategoryColors(chartData.xValues);
         const hasOnlySingletonBuckets = chartData.boxes.every((b) => b.count <= 1);
@@ -66,106 +119,82 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         if (hasOnlySingletonBuckets) {
             this.context.container.append("text")
                 .attr("class", "chart-hint")
-                .attr("x", margin.left)
+                .attr("x", margin.left + grid.cells[0].x)
                 .attr("y", Math.max(14, margin.top - 8))
                 .attr("font-size", "11px")
                 .attr("fill", "#6b7280")
-                .text("Values are aggregated (1 point per bucket). Set Values to Don't summarize for full box distributions.");
+                .text(localize("Visual_AggregatedValuesWarning"));
         }
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const boxes = chartData.boxes.filter((b) => b.group === groupName);
-            const xDomain = boxes.map((b) => b.category);
-            const x = d3.scalePoint<string>().domain(xDomain).range([0, width]).padding(0.5);
-            const step = xDomain.length > 1 ? Math.max(16, width / xDomain.length * 0.5) : Math.min(48, width * 0.5);
+            const panelValues = boxes.reduce<number[]>((all, b) => all.concat(b.values), []);
+            const referenceLines = this.getReferenceLines(chartData, panelValues);
+            // An independent Y scale spans only this panel's boxes and outliers.
+            const [panelMin, panelMax] = smallMultiples.sharedYScale || !boxes.length
+                ? [yDomainMin, yDomainMax]
+                : this.getValueDomain(
+                    Math.min(...boxes.map((b) => Math.min(b.min, ...b.outliers))),
+                    Math.max(...boxes.map((b) => Math.max(b.max, ...b.outliers))),
+                    referenceLines
+                );
+            const y = d3.scaleLinear()
+                .domain([panelMin, panelMax])
+                .range([panelHeight, 0]);
+            const formatPanelAxisValue = smallMultiples.sharedYScale
+                ? formatAxisValue
+                : this.getValueFormatter("axis", chartData.valueFormatString, getDisplayUnitReference([panelMin, panelMax]));
+
+            // A shared X scale keeps every category in place, leaving gaps where a panel has no box.
+            const xDomain = smallMultiples.sharedXScale ? chartData.xValues : boxes.map((b) => b.category);
+            const x = d3.scalePoint<string>().domain(xDomain).range([0, panelWidth]).padding(0.5);
+            const step = xDomain.length > 1 ? Math.max(16, panelWidth / xDomain.length * 0.5) : Math.min(48, panelWidth * 0.5);
             const half = step / 2;
 
             panel.selectAll("line.grid")
-                .data([0, 0.25, 0.5, 0.75, 1].map((f) => yDomainMin + (yDomainMax - yDomainMin) * f))
+                .data([0, 0.25, 0.5, 0.75, 1].map((f) => panelMin + (panelMax - panelMin) * f))
                 .join("line")
                 .attr("x1", 0)
-                .attr("x2", width)
+                .attr("x2", panelWidth)
                 .attr("y1", (d) => Math.round(y(d)))
                 .attr("y2", (d) => Math.round(y(d)))
                 .attr("stroke", this.getGridStroke("#e5e7eb"))
                 .attr("stroke-width", 1)
                 .attr("opacity", 0.65);
 
-            const marks = panel.selectAll("g.mark")
-                .data(boxes)
-                .join("g")
-                .attr("class", "mark")
-                .attr("transform", (d) => "translate(" + Math.round(x(d.category) ?? 0) + ",0)");
+            const marks = this.joinMarks<SVGGElement, IBoxPoint>(panel, "g.mark", boxes, (d) => d.selectionKey, (mark) => mark
+                .attr("transform", (d) => "translate(" + Math.round(x(d.category) ?? 0) + ",0)"))
+                .attr("data-selection-key", (d) => d.selectionKey)
+                .attr("data-legend-key", (d) => d.category);
 
             marks.each((d: IBoxPoint, i, nodes) => {
                 const node = d3.select(nodes[i]);
-                const color = colorScale(d.category);
+                const color = this.getRuleColor(chartData, d.selectionKey) ?? colorScale(d.category);
                 const yMin = Math.round(y(d.min));
                 const yMax = Math.round(y(d.max));
-                const yQ1 = Math.round(y(d.q1));
-                const yQ3 = Math.round(y(d.q3));
                 const yMedian = Math.round(y(d.median));
 
-                node.append("line")
-                    .attr("x1", 0)
-                    .attr("x2", 0)
-                    .attr("y1", yMin)
-                    .attr("y2", yMax)
-                    .attr("stroke", "#4b5563")
-                    .attr("stroke-width", 1.25);
-
-                const boxTop = Math.min(yQ3, yQ1);
-                const boxHeight = Math.max(4, Math.abs(yQ1 - yQ3));
-                node.append("rect")
-                    .attr("x", -half)
-                    .attr("y", boxTop)
-                    .attr("width", step)
-                    .attr("height", boxHeight)
-                    .attr("fill", color)
-                    .attr("fill-opacity", 0.55)
-                    .attr("stroke", color)
-                    .attr("stroke-width", 1.5)
-                    .attr("rx", 3);
-
-                node.append("line")
-                    .attr("x1", -half)
-                    .attr("x2", half)
-                    .attr("y1", yMedian)
-                    .attr("y2", yMedian)
-                    .attr("stroke", "#111827")
-                    .attr("stroke-width", 2);
-
-                node.append("line")
-                    .attr("x1", -half * 0.65)
-                    .attr("x2", half * 0.65)
-                    .attr("y1", yMin)
-                    .attr("y2", yMin)
-                    .attr("stroke", "#4b5563")
-                    .attr("stroke-width", 1.25);
-
-                node.append("line")
-                    .attr("x1", -half * 0.65)
-                    .attr("x2", half * 0.65)
-                    .attr("y1", yMax)
-                    .attr("y2", yMax)
-                    .attr("stroke", "#4b5563")
-                    .attr("stroke-width", 1.25);
-
-                node.selectAll("circle.outlier")
-                    .data(d.outliers)
-                    .join("circle")
-                    .attr("class", "outlier")
+                const fullBox = this.getLayer(node, "box-full", (layer) => layer
+                    .attr("opacity", chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1));
+                this.drawBox(fullBox, d, y, half, color);
+
+                this.joinMarks<SVGCircleElement, number>(fullBox, "circle.outlier", d.outliers, (_, j) => String(j), (circle) => circle
                     .attr("cx", 0)
                     .attr("cy", (v) => Math.round(y(v)))
                     .attr("r", 2.5)
                     .attr("fill", color)
                     .attr("stroke", "#111827")
-                    .attr("stroke-width", 0.8);
+                    .attr("stroke-width", 0.8));
+
+                // Highlighted rows get their own, narrower box over the dimmed full distribution
+                if (chartData.hasHighlights && d.highlight) {
+                    const highlightBox = this.getLayer(node, "box-highlight")
+                        .style("pointer-events", "none");
+                    this.drawBox(highlightBox, d.highlight, y, half * 0.6, color);
+                }
 
                 const hitHalf = Math.max(10, half);
                 const hitTop = Math.min(yMin, yMax, yMedian);
@@ -176,84 +205,98 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     ? hitTop
                     : Math.round((hitTop + hitBottom) / 2 - hitHeight / 2);
 
-                this.addTooltip(node.append("rect")
+                const hitArea = this.joinMarks<SVGRectElement, IBoxPoint>(node, "rect.hit-area", [d], () => "hit", (rect) => rect
                     .attr("x", -hitHalf)
                     .attr("y", hitY)
                     .attr("width", hitHalf * 2)
-                    .attr("height", hitHeight)
-                    .attr("fill", "transparent") as any,
+                    .attr("height", hitHeight))
+                    .attr("fill", "transparent");
+                this.addTooltip(hitArea as any,
                 [
-                    { displayName: chartData.valueDisplayName || "Value", value: formatMeasureValue(d.median, chartData.valueFormatString), color },
-                    { displayName: "Q1", value: formatMeasureValue(d.q1, chartData.valueFormatString) },
-                    { displayName: "Q3", value: formatMeasureValue(d.q3, chartData.valueFormatString) },
-                    { displayName: "Min", value: formatMeasureValue(d.min, chartData.valueFormatString) },
-                    { displayName: "Max", value: formatMeasureValue(d.max, chartData.valueFormatString) },
-                    { displayName: "Count", value: String(d.count) }
+                    { displayName: chartData.valueDisplayName || localize("Visual_Value"), value: this.formatTooltipValue(d.median, chartData.valueFormatString), color },
+                    { displayName: localize("Visual_Q1"), value: this.formatTooltipValue(d.q1, chartData.valueFormatString) },
+                    { displayName: localize("Visual_Q3"), value: this.formatTooltipValue(d.q3, chartData.valueFormatString) },
+                    { displayName: localize("Visual_Min"), value: this.formatTooltipValue(d.min, chartData.valueFormatString) },
+                    { displayName: localize("Visual_Max"), value: this.formatTooltipValue(d.max, chartData.valueFormatString) },
+                    { displayName: localize("Visual_Count"), value: String(d.count) },
+                    ...(chartData.hasHighlights ? [
+                        { displayName: localize("Visual_HighlightedCount"), value: String(d.highlight?.count ?? 0) },
+                        { displayName: localize("Visual_HighlightedMedian"), value: d.highlight ? this.formatTooltipValue(d.highlight.median, chartData.valueFormatString) : "-" }
+                    ] : [])
                 ], {
                     title: d.category,
-                    subtitle: groupName !== "All" ? groupName : undefined,
+                    subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                     color
                 });
             });
 
-            if (settings.showYAxis) {
-                panel.selectAll("text.y-label")
-                    .data([0, 0.5, 1])
-                    .join("text")
+            this.renderReferenceLines(panel, referenceLines, y, { width: panelWidth, height: panelHeight }, "horizontal");
+
+            if (settings.showYAxis && cell.showYAxis) {
+                const tickLabel = (f: number): string => formatPanelAxisValue(panelMin + (panelMax - panelMin) * f);
+                this.joinMarks<SVGTextElement, number>(panel, "text.y-label", [0, 0.5, 1], tickLabel, (text) => text
                     .attr("x", -8)
-                    .attr("y", (f) => Math.round(y(yDomainMin + (yDomainMax - yDomainMin) * f)) + 4)
+                    .attr("y", (f) => Math.round(y(panelMin + (panelMax - panelMin) * f)) + 4)
+                    .attr("fill", settings.yAxisColor))
                     .attr("text-anchor", "end")
                     .attr("font-size", (settings.textSizes.yAxisFontSize || settings.yAxisFontSize) + "px")
-                    .attr("fill", settings.yAxisColor)
-                    .text((f) => formatMeasureValue(yDomainMin + (yDomainMax - yDomainMin) * f, chartData.valueFormatString));
+                    .text(tickLabel);
             }
 
-            if (settings.showXAxis) {
-                panel.selectAll("text.x-label")
-                    .data(xDomain)
-                    .join("text")
+            if (settings.showXAxis && cell.showXAxis) {
+                this.joinMarks<SVGTextElement, string>(panel, "text.x-label", xDomain, (d) => d, (text) => text
                     .attr("x", (d) => Math.round(x(d) ?? 0))
                     .attr("y", Math.round(panelHeight + 14))
+                    .attr("fill", settings.xAxisColor))
                     .attr("text-anchor", "middle")
                     .attr("font-size", (settings.textSizes.xAxisFontSize || settings.xAxisFontSize) + "px")
-                    .attr("fill", settings.xAxisColor)
                     .text((d) => d);
             }
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
-                    .attr("y", 8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("y", -8)
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
-
-            if (groups.length > 1 && groupIndex < groups.length - 1 && panelGap > 0) {
-                const separatorY = Math.round(panelY + panelHeight + panelGap * 0.5);
-                this.context.container.append("line")
-                    .attr("class", "panel-separator")
-                    .attr("x1", margin.left)
-                    .attr("x2", margin.left + width)
-                    .attr("y1", separatorY)
-                    .attr("y2", separatorY)
-                    .attr("stroke", "#6b7280")
-                    .attr("stroke-width", 1.5)
-                    .attr("opacity", 0.9);
-            }
         });
 
         if (settings.showLegend) {
             this.renderLegend(colorScale, chartData.maxValue, true, chartData.xValues, undefined, undefined, {
                 alignFrame: {
-                    x: margin.left,
+                    x: margin.left + grid.cells[0].x,
                     y: 0,
-                    width,
+                    width: width - grid.cells[0].x,
                     height: Math.max(0, margin.top - 6)
                 },
-                availableWidth: width,
+                availableWidth: width - grid.cells[0].x,
                 availableHeight: Math.max(0, margin.top - 6)
             });
         }
     }
+
+    // Value-axis domain around [min, max] and the reference lines, padded by 6% of its span.
+    private getValueDomain(min: number, max: number, referenceLines: ResolvedReferenceLines | null): [number, number] {
+        const [baseMin, baseMax] = includeReferenceLines([min, max], referenceLines);
+        let valueSpan = baseMax - baseMin;
+        if (!Number.isFinite(valueSpan) || valueSpan <= 0) {
+            valueSpan = Math.max(1, Math.abs(baseMax || baseMin || 1) * 0.1);
+        }
+        const domainPad = valueSpan * 0.06;
+        return [baseMin - domainPad, baseMax + domainPad];
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_BoxPlot");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        // Data points carry each box's median, so the summary names it as such.
+        return summarizeChartData(data, this.getAccessibleChartType(), {
+            valueName: localizeFormat("Visual_A11y_Median", data.valueDisplayName ?? localize("Visual_Value")),
+            includeTable: this.settings.accessibility.dataTable
+        });
+    }
 }
@@ -2,11 +2,23 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
-
-export interface IBoxPoint {
-    category: string;
-    group: string;
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    createTableRowSelectionId,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    localize,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
+
+export interface IBoxStats {
     min: number;
     q1: number;
     median: number;
@@ -16,8 +28,19 @@ export interface IBoxPoint {
     count: number;
 }
 
+export interface IBoxPoint extends IBoxStats {
+    category: string;
+    group: string;
+    selectionKey: string;
+    // Raw values of the bucket, for reference-line statistics.
+    values: number[];
+    // Statistics of the highlighted rows only; null when none of the bucket's rows are highlighted.
+    highlight: IBoxStats | null;
+}
+
 export interface IChartData extends ChartData {
     boxes: IBoxPoint[];
+    hasHighlights: boolean;
     valueFormatString?: string;
     valueDisplayName?: string;
 }
@@ -32,7 +55,7 @@ function quantile(sorted: number[], p: number): number {
     return sorted[lo] * (1 - h) + sorted[hi] * h;
 }
 
-function buildBox(values: number[], category: string, group: string): IBoxPoint {
+function buildBoxStats(values: number[]): IBoxStats {
     const sorted = values.slice().sort((a, b) => a - b);
     const q1 = quantile(sorted, 0.25);
     const median = quantile(sorted, 0.5);
@@ -44,8 +67,6 @@ function buildBox(values: number[], category: string, group: string): IBoxPoint
     const outliers = sorted.filter((v) => v < lowFence || v > highFence);
 
     return {
-        category,
-        group,
         min: nonOutliers.length ? nonOutliers[0] : sorted[0] ?? 0,
         q1,
         median,
@@ -57,7 +78,7 @@ function buildBox(values: number[], category: string, group: string): IBoxPoint
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const empty: IChartData = {
             dataPoints: [],
             xValues: [],
@@ -65,22 +86,44 @@ export class ChartTransformer {
             groups: [],
             maxValue: 0,
             minValue: 0,
-            boxes: []
+            boxes: [],
+            hasHighlights: false
         };
 
         const buckets = new Map<string, number[]>();
+        const highlightedBuckets = new Map<string, number[]>();
+        let hasHighlights = false;
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
         let valueFormatString: string | undefined;
         let valueDisplayName: string | undefined;
-        const pushValue = (categoryRaw: unknown, groupRaw: unknown, valueRaw: unknown): void => {
+        const pushValue = (
+            categoryRaw: unknown,
+            groupRaw: unknown,
+            valueRaw: unknown,
+            ruleColor: string | undefined,
+            getSelectionId?: () => ISelectionId,
+            isHighlighted: boolean = true
+        ): void => {
             const value = Number(valueRaw);
             if (!Number.isFinite(value)) return;
-            const category = String(categoryRaw ?? "(Blank)");
-            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : "All";
+            const category = String(categoryRaw ?? localize("Visual_Blank"));
+            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : ALL_GROUP;
 
             const key = group + "\u001f" + category;
             const bucket = buckets.get(key) ?? [];
             bucket.push(value);
             buckets.set(key, bucket);
+            if (isHighlighted) {
+                const highlighted = highlightedBuckets.get(key) ?? [];
+                highlighted.push(value);
+                highlightedBuckets.set(key, highlighted);
+            }
+            if (getSelectionId) {
+                addSelectionIdForKey(selectionIdsByKey, key, getSelectionId());
+            }
+            addRuleColorForKey(ruleColorsByKey, key, ruleColor);
         };
 
         const table = dataView.table;
@@ -99,8 +142,14 @@ export class ChartTransformer {
             if (resolvedCategoryIdx >= 0 && valueIdx >= 0) {
                 valueFormatString = (columns[valueIdx] as any)?.format as string | undefined;
                 valueDisplayName = (columns[valueIdx] as any)?.displayName as string | undefined;
-                table.rows.forEach((row) => {
-                    pushValue(row[resolvedCategoryIdx], groupIdx >= 0 ? row[groupIdx] : undefined, row[valueIdx]);
+                table.rows.forEach((row, rowIndex) => {
+                    pushValue(
+                        row[resolvedCategoryIdx],
+                        groupIdx >= 0 ? row[groupIdx] : undefined,
+                        row[valueIdx],
+                        ruleColors.getRowColor(rowIndex),
+                        createSelectionIdBuilder ? () => createTableRowSelectionId(createSelectionIdBuilder, table, rowIndex) : undefined
+                    );
                 });
             }
         }
@@ -119,8 +168,17 @@ export class ChartTransformer {
             if (categoryCol && valueValues?.length) {
                 valueFormatString = (valueCol?.source as any)?.format as string | undefined;
                 valueDisplayName = (valueCol?.source as any)?.displayName as string | undefined;
+                const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
+                hasHighlights = highlightState.hasIncomingHighlights;
                 for (let i = 0; i < valueValues.length; i++) {
-                    pushValue(categoryCol.values[i], groupCol ? groupCol.values[i] : undefined, valueValues[i]);
+                    pushValue(
+                        categoryCol.values[i],
+                        groupCol ? groupCol.values[i] : undefined,
+                        valueValues[i],
+                        ruleColors.getRowColor(i),
+                        createSelectionIdBuilder ? () => createCategoryRowSelectionId(createSelectionIdBuilder, [categoryCol, groupCol], i) : undefined,
+                        !hasHighlights || highlightState.isHighlightedRow(i)
+                    );
                 }
             }
         }
@@ -138,7 +196,15 @@ export class ChartTransformer {
             const sep = key.indexOf("\u001f");
             const group = key.slice(0, sep);
             const category = key.slice(sep + 1);
-            const box = buildBox(values, category, group);
+            const highlightedValues = highlightedBuckets.get(key);
+            const box: IBoxPoint = {
+                ...buildBoxStats(values),
+                category,
+                group,
+                selectionKey: key,
+                values,
+                highlight: highlightedValues?.length ? buildBoxStats(highlightedValues) : null
+            };
             boxes.push(box);
 
             maxValue = Math.max(maxValue, box.max, box.q3, ...box.outliers);
@@ -167,8 +233,11 @@ export class ChartTransformer {
             maxValue,
             minValue,
             boxes,
+            hasHighlights,
             valueFormatString,
-            valueDisplayName
+            valueDisplayName,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
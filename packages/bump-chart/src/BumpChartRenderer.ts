@@ -7,18 +7,30 @@ import {
     ChartData,
     calculateLabelRotation,
     formatLabel,
+    getThemeTextColors,
     measureMaxLabelWidth,
-    formatMeasureValue
+    localize,
+    ALL_GROUP
 } from "@pbi-visuals/shared";
 import { IBumpChartVisualSettings } from "./settings";
 import { BumpChartData, BumpChartDataPoint } from "./BumpChartTransformer";
 
+interface BumpSeries {
+    yVal: string;
+    points: BumpChartDataPoint[];
+}
+
+interface BumpMarker {
+    yVal: string;
+    point: BumpChartDataPoint;
+}
+
 export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IBumpChartVisualSettings): void {
+    protected draw(data: ChartData, settings: IBumpChartVisualSettings): void {
         this.settings = settings;
         const bumpData = data as BumpChartData;
 
@@ -139,7 +151,7 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -168,7 +180,7 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
 
         const groupCount = groups.length || 1;
         const totalSpacing = (groupCount - 1) * interPanelGap;
-        const colorScale = this.getCategoryColors(yValues, bumpData.categoryColorMap);
+        const colorScale = this.getCategoryColors(yValues, this.withRuleColors(bumpData, bumpData.categoryColorMap));
 
         const availableHeight = this.context.height - margin.top - margin.bottom - totalSpacing;
 
@@ -184,12 +196,10 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
             const groupData = data.dataPoints.filter(d => d.groupValue === groupName);
             const groupYValues = [...new Set(groupData.map(d => d.yValue))].sort();
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "bump-chart-panel")
-                .attr("transform", `translate(${margin.left}, ${currentY})`);
+            const panelGroup = this.getPanel(groupName, margin.left, currentY, "bump-chart-panel");
 
             // Group title
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleBase = settings.smallMultiples.titleFontSize;
                 const titleRequested = settings.textSizes.panelTitleFontSize > 0 ? settings.textSizes.panelTitleFontSize : titleBase;
@@ -205,7 +215,7 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -241,66 +251,62 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
                 }
             }
 
+            const series = groupYValues
+                .map(yVal => ({
+                    yVal,
+                    points: (rankedData.get(yVal) ?? []).filter(d => d.groupValue === groupName)
+                }))
+                .filter(s => s.points.length > 0);
+
             // SECOND: Draw lines for each category
-            groupYValues.forEach(yVal => {
-                const seriesData = rankedData.get(yVal);
-                if (!seriesData || seriesData.length === 0) return;
-
-                const points = seriesData.filter(d => d.groupValue === groupName);
-                if (points.length === 0) return;
-
-                const color = colorScale(yVal);
-
-                panelGroup.append("path")
-                    .datum(points)
-                    .attr("class", "bump-line")
-                    .attr("data-selection-key", yVal)
-                    .attr("d", line)
-                    .attr("fill", "none")
-                    .attr("stroke", color)
-                    .attr("stroke-width", settings.bumpChart.lineThickness)
-                    .attr("stroke-linecap", "round")
-                    .attr("stroke-linejoin", "round");
-            });
+            this.joinMarks<SVGPathElement, BumpSeries>(panelGroup, "path.bump-line", series, s => s.yVal, path => path
+                .attr("d", s => line(s.points))
+                .attr("stroke", s => colorScale(s.yVal))
+                .attr("stroke-width", settings.bumpChart.lineThickness))
+                .attr("data-selection-key", s => s.yVal)
+                .attr("fill", "none")
+                .attr("stroke-linecap", "round")
+                .attr("stroke-linejoin", "round");
 
             // THIRD: Draw markers (on top of lines)
             if (settings.bumpChart.showMarkers) {
-                groupYValues.forEach(yVal => {
-                    const seriesData = rankedData.get(yVal);
-                    if (!seriesData || seriesData.length === 0) return;
-
-                    const points = seriesData.filter(d => d.groupValue === groupName);
-                    if (points.length === 0) return;
-
-                    const color = colorScale(yVal);
-
-                    points.forEach(point => {
-                        const cx = xScale(point.xValue) ?? 0;
-                        const cy = yScale(point.rank);
-                        const periodLabel = xLabelByValue.get(point.xValue) ?? point.xValue;
-                        const valueLabel = bumpData.valueDisplayName || "Value";
-
-                        const marker = panelGroup.append("circle")
-                            .attr("class", "bump-marker")
-                            .attr("data-selection-key", yVal)
-                            .attr("cx", cx)
-                            .attr("cy", cy)
-                            .attr("r", settings.bumpChart.markerSize / 2)
-                            .attr("fill", color)
-                            .attr("stroke", color)
-                            .attr("stroke-width", 1);
-
-                        this.addTooltip(marker as any, [
-                            { displayName: "Rank", value: `#${point.rank}`, color },
-                            { displayName: valueLabel, value: formatMeasureValue(point.value, bumpData.valueFormatString), color },
-                            ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
-                        ], { title: yVal, subtitle: periodLabel, color });
+                const markers = series.flatMap(s => s.points.map(point => ({ yVal: s.yVal, point })));
+                const valueLabel = bumpData.valueDisplayName || localize("Visual_Value");
+                this.joinMarks<SVGCircleElement, BumpMarker>(panelGroup, "circle.bump-marker", markers, m => m.yVal + "\u001f" + m.point.xValue, circle => circle
+                    .attr("cx", m => xScale(m.point.xValue) ?? 0)
+                    .attr("cy", m => yScale(m.point.rank))
+                    .attr("r", settings.bumpChart.markerSize / 2)
+                    .attr("fill", m => colorScale(m.yVal))
+                    .attr("stroke", m => colorScale(m.yVal)))
+                    .attr("data-selection-key", m => m.yVal)
+                    .attr("stroke-width", 1)
+                    .each((m, i, nodes) => {
+                        const color = colorScale(m.yVal);
+                        const periodLabel = xLabelByValue.get(m.point.xValue) ?? m.point.xValue;
+                        this.addTooltip(d3.select(nodes[i]) as any, [
+                            { displayName: localize("Visual_Rank"), value: `#${m.point.rank}`, color },
+                            { displayName: valueLabel, value: this.formatTooltipValue(m.point.value, bumpData.valueFormatString), color },
+                            ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : [])
+                        ], { title: m.yVal, subtitle: periodLabel, color });
                     });
-                });
             }
 
-            const defaultYAxisColor = "#333333";
-            const overrideYAxisColor = (settings.yAxisColor || "").toLowerCase() !== defaultYAxisColor;
+            // Reference lines sit on the rank axis: a constant of 3.5 separates the top three, and
+            // statistics run over the ranks plotted in the panel. Labels show plain rank numbers.
+            const panelRanks = groupYValues.flatMap((yVal) => (rankedData.get(yVal) ?? [])
+                .filter((p) => p.groupValue === groupName)
+                .map((p) => p.rank));
+            this.renderReferenceLines(
+                panelGroup,
+                this.getReferenceLines({ referenceMeasure: bumpData.referenceMeasure }, panelRanks),
+                yScale,
+                { width: chartWidth, height: groupHeight },
+                "horizontal"
+            );
+
+            // The theme's label color replaces the default, so it counts as "not overridden" too.
+            const defaultYAxisColors = ["#333333", (getThemeTextColors(this.context.colorPalette).label ?? "").toLowerCase()];
+            const overrideYAxisColor = !defaultYAxisColors.includes((settings.yAxisColor || "").toLowerCase());
 
             // Y-axis: Category labels on LEFT (colored to match lines)
             if (settings.showYAxis) {
@@ -358,66 +364,57 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
                     }
                 });
 
-                Array.from(rankLabelMap.values())
-                    .sort((a, b) => a.rank - b.rank)
-                    .forEach((candidate) => {
-                        const label = panelGroup.append("text")
-                            .attr("class", "y-axis-label")
-                            .attr("x", -8)
-                            .attr("y", Math.round(yScale(candidate.rank)))
-                            .attr("dy", "0.35em")
-                            .attr("text-anchor", "end")
-                            .attr("font-size", `${yAxisFontSize}px`)
-                            .attr("font-family", settings.yAxisFontFamily)
-                            .style("font-weight", settings.yAxisBold ? "700" : "400")
-                            .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                            .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                            .attr("fill", overrideYAxisColor ? yAxisColor : candidate.color)
-                            .text(candidate.displayLabel);
-
-                    if (candidate.displayLabel !== candidate.yVal) {
-                        this.addTooltip(label as any, [{ displayName: "Category", value: candidate.yVal }]);
-                    }
-                });
+                const candidates = Array.from(rankLabelMap.values()).sort((a, b) => a.rank - b.rank);
+                // Keyed by category, so a label follows its line when the ranks change.
+                this.joinMarks<SVGTextElement, RankLabelCandidate>(panelGroup, "text.y-axis-label", candidates, c => c.yVal, text => text
+                    .attr("y", c => Math.round(yScale(c.rank)))
+                    .attr("fill", c => overrideYAxisColor ? yAxisColor : c.color))
+                    .attr("x", -8)
+                    .attr("dy", "0.35em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${yAxisFontSize}px`)
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text(c => c.displayLabel)
+                    .each((c, i, nodes) => {
+                        const label = d3.select(nodes[i]) as any;
+                        if (c.displayLabel !== c.yVal) {
+                            this.addTooltip(label, [{ displayName: localize("Visual_Category"), value: c.yVal }]);
+                        } else {
+                            this.removeTooltip(label);
+                        }
+                    });
             } else {
                 // End labels (only when Y-axis labels are hidden)
-                groupYValues.forEach(yVal => {
-                    const seriesData = rankedData.get(yVal);
-                    if (!seriesData || seriesData.length === 0) return;
-
-                    const points = seriesData.filter(d => d.groupValue === groupName);
-                    if (points.length === 0) return;
-
-                    const lastPoint = points[points.length - 1];
-                    const color = colorScale(yVal);
-                    const maxLabelWidth = Math.max(40, Math.round(chartWidth * 0.35));
-                    const displayLabel = formatLabel(yVal, maxLabelWidth, endLabelFontSize);
-
-                    const label = panelGroup.append("text")
-                        .attr("class", "end-label")
-                        .attr("x", Math.round(chartWidth - 8))
-                        .attr("y", Math.round(yScale(lastPoint.rank)))
-                        .attr("dy", "0.35em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", `${endLabelFontSize}px`)
-                        .attr("font-family", settings.yAxisFontFamily)
-                        .style("font-weight", settings.yAxisBold ? "700" : "400")
-                        .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                        .attr("fill", overrideYAxisColor ? yAxisColor : color)
-                        .text(displayLabel);
-
-                    if (displayLabel !== yVal) {
-                        this.addTooltip(label as any, [{ displayName: "Category", value: yVal }], { title: yVal, color });
-                    }
-                });
+                const maxLabelWidth = Math.max(40, Math.round(chartWidth * 0.35));
+                this.joinMarks<SVGTextElement, BumpSeries>(panelGroup, "text.end-label", series, s => s.yVal, text => text
+                    .attr("x", Math.round(chartWidth - 8))
+                    .attr("y", s => Math.round(yScale(s.points[s.points.length - 1].rank)))
+                    .attr("fill", s => overrideYAxisColor ? yAxisColor : colorScale(s.yVal)))
+                    .attr("dy", "0.35em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${endLabelFontSize}px`)
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text(s => formatLabel(s.yVal, maxLabelWidth, endLabelFontSize))
+                    .each((s, i, nodes) => {
+                        const label = d3.select(nodes[i]) as any;
+                        if (formatLabel(s.yVal, maxLabelWidth, endLabelFontSize) !== s.yVal) {
+                            this.addTooltip(label, [{ displayName: localize("Visual_Category"), value: s.yVal }], { title: s.yVal, color: colorScale(s.yVal) });
+                        } else {
+                            this.removeTooltip(label);
+                        }
+                    });
             }
 
             // X-axis (only on last panel)
             if (settings.showXAxis && groupIndex === groups.length - 1) {
-                const xAxisGroup = panelGroup.append("g")
-                    .attr("class", "x-axis")
-                    .attr("transform", `translate(0, ${groupHeight + 5})`);
+                const xAxisGroup = this.getLayer(panelGroup, "x-axis", axis => axis
+                    .attr("transform", `translate(0, ${groupHeight + 5})`));
 
                 // Use smart rotation result
                 const shouldRotate = needsRotation;
@@ -446,32 +443,18 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
                         visibleXIndices.push(lastIdx);
                     }
                 }
-                const visibleSet = new Set(visibleXIndices);
-
-                xValues.forEach((xVal, i) => {
-                    if (!visibleSet.has(i)) return;
-
-                    const x = Math.round(xScale(xVal) ?? 0);
-
-                    const text = xAxisGroup.append("text")
-                        .attr("x", x)
-                        .attr("y", shouldRotate ? 5 : 12)
-                        .attr("font-size", `${xAxisFontSize}px`)
-                        .attr("font-family", settings.xAxisFontFamily)
-                        .style("font-weight", settings.xAxisBold ? "700" : "400")
-                        .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                        .attr("fill", xAxisColor)
-                        .text(xDisplayLabels[i]);
-
-                    if (shouldRotate) {
-                        text
-                            .attr("transform", `rotate(-45, ${x}, 5)`)
-                            .attr("text-anchor", "end");
-                    } else {
-                        text.attr("text-anchor", "middle");
-                    }
-                });
+                this.joinMarks<SVGTextElement, number>(xAxisGroup, "text.tick-label", visibleXIndices, i => xValues[i], text => text
+                    .attr("x", i => Math.round(xScale(xValues[i]) ?? 0))
+                    .attr("y", shouldRotate ? 5 : 12)
+                    .attr("transform", i => shouldRotate ? `rotate(-45, ${Math.round(xScale(xValues[i]) ?? 0)}, 5)` : null)
+                    .attr("fill", xAxisColor))
+                    .attr("text-anchor", shouldRotate ? "end" : "middle")
+                    .attr("font-size", `${xAxisFontSize}px`)
+                    .attr("font-family", settings.xAxisFontFamily)
+                    .style("font-weight", settings.xAxisBold ? "700" : "400")
+                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                    .text(i => xDisplayLabels[i]);
             }
 
             currentY += groupHeight + interPanelGap;
@@ -489,4 +472,8 @@ export class BumpChartRenderer extends BaseRenderer<IBumpChartVisualSettings> {
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_BumpChart");
+    }
 }
@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatDataValue, formatGroupValue, sortDateValues } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatDataValue, formatGroupValue, sortDateValues, ALL_GROUP } from "@pbi-visuals/shared";
 
 export interface BumpChartDataPoint extends DataPoint {
     rank: number;
@@ -52,7 +52,7 @@ export class BumpChartTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -119,7 +119,7 @@ export class BumpChartTransformer {
             rankedData.set(y, []);
         });
 
-        const groupsToRank = groups.length ? groups : ["All"];
+        const groupsToRank = groups.length ? groups : [ALL_GROUP];
         groupsToRank.forEach(groupValue => {
             const pointsByX = pointsByGroupByX.get(groupValue);
             if (!pointsByX) return;
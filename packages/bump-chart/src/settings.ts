@@ -6,11 +6,21 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IReferenceLinesSettings,
+    createDefaultReferenceLinesSettings,
+    parseReferenceLinesSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -32,6 +42,7 @@ export interface IBumpChartTextSizeSettings {
 export interface IBumpChartVisualSettings extends IBaseVisualSettings {
     bumpChart: IBumpChartSettings;
     textSizes: IBumpChartTextSizeSettings;
+    referenceLines: IReferenceLinesSettings;
 }
 
 export const defaultSettings: IBumpChartVisualSettings = {
@@ -39,6 +50,7 @@ export const defaultSettings: IBumpChartVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: true,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -55,6 +67,10 @@ export const defaultSettings: IBumpChartVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "auto",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    referenceLines: createDefaultReferenceLinesSettings(),
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     bumpChart: {
@@ -92,6 +108,7 @@ export function parseSettings(dataView: DataView): IBumpChartVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     // Tooltip settings
@@ -117,6 +134,11 @@ export function parseSettings(dataView: DataView): IBumpChartVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.referenceLines = parseReferenceLinesSettings(objects);
+
     // Custom colors settings
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
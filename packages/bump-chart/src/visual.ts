@@ -14,18 +14,38 @@ import {
     d3,
     RenderContext,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    readReferenceMeasure,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     createTextSizesCard,
     createSmallMultiplesCard,
     readCategoryColorsFromDataView,
+    readRuleColorsByCategory,
     findCategoryIndex,
     getSchemeColors,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    localize,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { IBumpChartVisualSettings, parseSettings } from "./settings";
 import { BumpChartTransformer } from "./BumpChartTransformer";
 import { BumpChartRenderer } from "./BumpChartRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -51,6 +71,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-bump-${Visual.instanceCounter++}`;
@@ -61,6 +83,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -80,9 +110,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        // Clear previous content
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -98,7 +125,7 @@ export class Visual implements IVisual {
 
         // Validate data
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
@@ -106,6 +133,7 @@ export class Visual implements IVisual {
 
         // Parse settings
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
         this.syncHtmlTooltip();
 
         // Find the yAxis category index (the categories to color)
@@ -139,14 +167,14 @@ export class Visual implements IVisual {
 
         // Check if data is empty
         if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
 
         // Seed initial series colors so the rendered palette matches the Data Colors defaults.
         const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
             ? this.settings.customColors
-            : getSchemeColors(this.settings.colorScheme);
+            : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
         const seededColors = new Map<string, string>(this.categoryColors);
         chartData.yValues.forEach((k, i) => {
             if (!seededColors.has(k)) {
@@ -154,9 +182,12 @@ export class Visual implements IVisual {
             }
         });
         chartData.categoryColorMap = seededColors;
+        chartData.ruleColorsByKey = readRuleColorsByCategory(dataView, this.categoryFieldIndex);
+        chartData.referenceMeasure = readReferenceMeasure(dataView);
 
         // Render the chart
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -200,8 +231,13 @@ export class Visual implements IVisual {
         this.categories.sort((a, b) => a.localeCompare(b));
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "yAxis", "values"], dataView),
+            illustration: "lines"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -241,6 +277,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".bump-line[data-selection-key], .bump-marker[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
@@ -268,17 +309,6 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".bump-line[data-selection-key], .bump-marker[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 
     public getFormattingModel(): powerbi.visuals.FormattingModel {
@@ -292,7 +322,7 @@ export class Visual implements IVisual {
         if (this.categories.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             const colorSlices: powerbi.visuals.FormattingSlice[] = this.categories.map((category, index) => {
                 const color = this.categoryColors.get(category) || defaultColors[index % defaultColors.length];
@@ -316,10 +346,10 @@ export class Visual implements IVisual {
             });
 
             cards.push({
-                displayName: "Data Colors",
+                displayName: localize("Visual_DataColors"),
                 uid: "dataColors_card",
                 groups: [{
-                    displayName: "Colors",
+                    displayName: localize("Visual_Colors"),
                     uid: "dataColors_group",
                     slices: colorSlices
                 }]
@@ -327,18 +357,23 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         // Y-Axis card
         cards.push({
-            displayName: "Y-Axis",
+            displayName: localize("Visual_YAxis"),
             uid: "yAxis_card",
             groups: [{
-                displayName: "Settings",
+                displayName: localize("Visual_Settings"),
                 uid: "yAxis_group",
                 slices: [
                     {
                         uid: "yAxis_show",
-                        displayName: "Show Y-Axis",
+                        displayName: localize("Visual_ShowYAxis"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -349,7 +384,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_fontSize",
-                        displayName: "Font Size",
+                        displayName: localize("Visual_FontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -360,7 +395,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_fontFamily",
-                        displayName: "Font Family",
+                        displayName: localize("Visual_FontFamily"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.FontPicker,
                             properties: {
@@ -371,7 +406,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_color",
-                        displayName: "Color",
+                        displayName: localize("Visual_Color"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ColorPicker,
                             properties: {
@@ -382,7 +417,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_bold",
-                        displayName: "Bold",
+                        displayName: localize("Visual_Bold"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -393,7 +428,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_italic",
-                        displayName: "Italic",
+                        displayName: localize("Visual_Italic"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -404,7 +439,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "yAxis_underline",
-                        displayName: "Underline",
+                        displayName: localize("Visual_Underline"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -419,15 +454,15 @@ export class Visual implements IVisual {
 
         // X-Axis card
         cards.push({
-            displayName: "X-Axis",
+            displayName: localize("Visual_XAxis"),
             uid: "xAxis_card",
             groups: [{
-                displayName: "Settings",
+                displayName: localize("Visual_Settings"),
                 uid: "xAxis_group",
                 slices: [
                     {
                         uid: "xAxis_show",
-                        displayName: "Show X-Axis",
+                        displayName: localize("Visual_ShowXAxis"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -438,7 +473,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_fontSize",
-                        displayName: "Font Size",
+                        displayName: localize("Visual_FontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -449,7 +484,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_fontFamily",
-                        displayName: "Font Family",
+                        displayName: localize("Visual_FontFamily"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.FontPicker,
                             properties: {
@@ -460,7 +495,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_color",
-                        displayName: "Color",
+                        displayName: localize("Visual_Color"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ColorPicker,
                             properties: {
@@ -471,7 +506,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_bold",
-                        displayName: "Bold",
+                        displayName: localize("Visual_Bold"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -482,7 +517,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_italic",
-                        displayName: "Italic",
+                        displayName: localize("Visual_Italic"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -493,7 +528,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "xAxis_underline",
-                        displayName: "Underline",
+                        displayName: localize("Visual_Underline"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -508,15 +543,15 @@ export class Visual implements IVisual {
 
         // Legend card
         cards.push({
-            displayName: "Legend",
+            displayName: localize("Visual_Legend"),
             uid: "legend_card",
             groups: [{
-                displayName: "Settings",
+                displayName: localize("Visual_Settings"),
                 uid: "legend_group",
                 slices: [
                     {
                         uid: "legend_position",
-                        displayName: "Position",
+                        displayName: localize("Visual_Position"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.Dropdown,
                             properties: {
@@ -527,7 +562,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "legend_fontSize",
-                        displayName: "Font Size",
+                        displayName: localize("Visual_FontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -542,7 +577,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "legend_maxItems",
-                        displayName: "Max Items",
+                        displayName: localize("Visual_MaxItems"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -554,6 +589,17 @@ export class Visual implements IVisual {
                                 }
                             }
                         }
+                    } as powerbi.visuals.FormattingSlice,
+                    {
+                        uid: "legend_overflow",
+                        displayName: localize("Visual_LegendOverflow"),
+                        control: {
+                            type: powerbi.visuals.FormattingComponent.Dropdown,
+                            properties: {
+                                descriptor: { objectName: "legend", propertyName: "overflow" },
+                                value: this.settings.legendOverflow
+                            }
+                        }
                     } as powerbi.visuals.FormattingSlice
                 ]
             }]
@@ -576,15 +622,15 @@ export class Visual implements IVisual {
 
         // Bump Chart card
         cards.push({
-            displayName: "Bump Chart",
+            displayName: localize("Visual_BumpChart"),
             uid: "bumpChart_card",
             groups: [{
-                displayName: "Settings",
+                displayName: localize("Visual_Settings"),
                 uid: "bumpChart_group",
                 slices: [
                     {
                         uid: "bumpChart_lineThickness",
-                        displayName: "Line Thickness",
+                        displayName: localize("Visual_LineThickness"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -595,7 +641,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bumpChart_showMarkers",
-                        displayName: "Show Markers",
+                        displayName: localize("Visual_ShowMarkers"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -606,7 +652,7 @@ export class Visual implements IVisual {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "bumpChart_markerSize",
-                        displayName: "Marker Size",
+                        displayName: localize("Visual_MarkerSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -1,15 +1,28 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatLabel, measureMaxLabelWidth, formatMeasureValue } from "@pbi-visuals/shared";
+import powerbi from "powerbi-visuals-api";
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import { d3, BaseRenderer, RenderContext, ChartData, AnnotationPoint, TooltipMeta, formatLabel, getPanelAnnotations, localize, matchesAnnotationKey, measureMaxLabelWidth, ALL_GROUP } from "@pbi-visuals/shared";
 import { ICalendarVisualSettings } from "./settings";
 import { CalendarData, CalendarDataPoint } from "./CalendarTransformer";
 
+interface CalendarCell {
+    key: string;
+    selectionKey: string;
+    legendKey: string | null;
+    x: number;
+    y: number;
+    fill: string;
+    tooltipItems: VisualTooltipDataItem[];
+    tooltipMeta: TooltipMeta;
+}
+
 export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: ICalendarVisualSettings): void {
+    protected draw(data: ChartData, settings: ICalendarVisualSettings): void {
         this.settings = settings;
         const calendarData = data as CalendarData;
 
@@ -64,17 +77,34 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
             : 0;
 
+        // Use custom colors from settings. Sequential days keep their 0-based domain;
+        // a diverging scale also reaches down to negative days.
+        const dayValues = calendarPoints.map((point) => point.value);
+        const colorDomainMin = settings.colorScale.scaleType === "diverging"
+            ? dayValues.reduce((min, value) => Math.min(min, value), 0)
+            : 0;
+        const colorScale = this.getValueColorScale(colorDomainMin, maxValue, {
+            values: dayValues,
+            gradient: { min: settings.calendar.minColor, max: settings.calendar.maxColor }
+        });
+
+        // Only classed scales get a (stepped) legend; continuous days rely on tooltips.
+        const classLabels = this.getClassLegendLabels(colorScale, calendarData.valueFormatString);
+        const legendReserve = classLabels.length
+            ? this.getLegendReservation({ isOrdinal: true, categories: classLabels })
+            : { top: 0, right: 0, bottom: 0, left: 0 };
+
         const margin = {
-            top: 12 + titleReserve,
-            right: 12,
-            bottom: 12,
-            left: leftGutter
+            top: 12 + titleReserve + legendReserve.top,
+            right: 12 + legendReserve.right,
+            bottom: 12 + legendReserve.bottom,
+            left: leftGutter + legendReserve.left
         };
         const chartWidth = this.context.width - margin.left - margin.right;
 
@@ -111,26 +141,19 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
         // Height needed per year
         const yearHeight = 7 * (cellSize + cellPadding) + yearExtraBlock;
 
-        // Use custom colors from settings
-        const colorScale = d3.scaleSequential()
-            .domain([0, maxValue])
-            .interpolator(this.isHighContrastMode()
-                ? d3.interpolate(this.getThemeBackground("#ffffff"), this.getThemeForeground("#111827"))
-                : d3.interpolate(settings.calendar.minColor, settings.calendar.maxColor));
-
         let currentY = margin.top;
+        // One cell per day of every year, in every panel.
+        const useCanvas = this.shouldUseCanvas(groups.length * yearCount * 366);
 
         groups.forEach((groupName, groupIndex) => {
             const groupPoints = calendarPoints.filter(d => d.groupValue === groupName);
             const contentHeight = yearCount * yearHeight;
             const offsetY = groupHeightTarget > 0 ? Math.max(0, (groupHeightTarget - contentHeight) / 2) : 0;
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "calendar-panel")
-                .attr("transform", `translate(${Math.round(margin.left)}, ${Math.round(currentY + offsetY)})`);
+            const panelGroup = this.getPanel(groupName, Math.round(margin.left), Math.round(currentY + offsetY), "calendar-panel");
 
             // Group title with configurable spacing
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleFontSize = this.getEffectiveFontSize(
                     settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize,
@@ -147,7 +170,7 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -158,6 +181,16 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
                 dataLookup.set(key, p);
             });
 
+            const canvasLayer = useCanvas
+                ? this.createCanvasLayer(panelGroup, {
+                    x: dayGutter,
+                    y: 0,
+                    width: Math.ceil(weeksPerYear * (cellSize + cellPadding)),
+                    height: Math.ceil(yearCount * yearHeight)
+                })
+                : null;
+            const cells: CalendarCell[] = [];
+
             let yearOffsetY = 0;
 
             years.forEach(year => {
@@ -228,7 +261,8 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
                     const dataPoint = dataLookup.get(key);
                     const value = dataPoint?.value ?? 0;
 
-                    const fill = value === 0 ? emptyCellColor : (colorScale(value) as string);
+                    const ruleColor = dataPoint ? this.getRuleColor(calendarData, dataPoint.xValue) : undefined;
+                    const fill = ruleColor ?? (value === 0 ? emptyCellColor : (colorScale(value) as string));
 
                     const dateStr = currentDate.toLocaleDateString("en-US", {
                         weekday: "short",
@@ -237,23 +271,42 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
                         day: "numeric"
                     });
 
-                    const cell = yearGroup.append("rect")
-                        .attr("class", "calendar-cell")
-                        .attr("data-selection-key", dataPoint?.xValue ?? "")
-                        .attr("x", x)
-                        .attr("y", y)
-                        .attr("width", cellSize)
-                        .attr("height", cellSize)
-                        .attr("rx", 2)
-                        .attr("fill", fill)
-                        .attr("stroke", cellStroke)
-                        .attr("stroke-width", 1);
-
-                    const valueLabel = calendarData.valueDisplayName || "Value";
-                    this.addTooltip(cell as any, [{ displayName: valueLabel, value: formatMeasureValue(value, calendarData.valueFormatString), color: fill }], {
+                    const valueLabel = calendarData.valueDisplayName || localize("Visual_Value");
+                    const tooltipItems = [{ displayName: valueLabel, value: this.formatTooltipValue(value, calendarData.valueFormatString), color: fill }];
+                    const tooltipMeta = {
                         title: dateStr,
-                        subtitle: (groupName !== "All" && groupName !== "(Blank)") ? groupName : undefined,
+                        subtitle: (groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) ? groupName : undefined,
                         color: fill
+                    };
+
+                    if (canvasLayer) {
+                        canvasLayer.add({
+                            type: "rect",
+                            key: dataPoint?.xValue ?? "",
+                            legendKey: dataPoint && value !== 0 ? this.getClassLegendKey(colorScale, classLabels, value) : null,
+                            x,
+                            y: y + Math.round(yearOffsetY),
+                            width: cellSize,
+                            height: cellSize,
+                            rx: 2,
+                            fill,
+                            stroke: cellStroke,
+                            strokeWidth: 1,
+                            tooltip: () => ({ dataItems: tooltipItems, meta: tooltipMeta })
+                        });
+                        currentDate.setDate(currentDate.getDate() + 1);
+                        continue;
+                    }
+
+                    cells.push({
+                        key,
+                        selectionKey: dataPoint?.xValue ?? "",
+                        legendKey: dataPoint && value !== 0 ? this.getClassLegendKey(colorScale, classLabels, value) : null,
+                        x,
+                        y: y + Math.round(yearOffsetY),
+                        fill,
+                        tooltipItems,
+                        tooltipMeta
                     });
 
                     // Move to next day
@@ -281,10 +334,47 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
                 yearOffsetY += yearHeight;
             });
 
+            // Days are keyed by date, so a day keeps its cell and recolors when the values change.
+            if (!canvasLayer) {
+                const cellLayer = this.getLayer(panelGroup, "calendar-cells");
+                this.joinMarks<SVGRectElement, CalendarCell>(cellLayer, "rect.calendar-cell", cells, c => c.key, rect => rect
+                    .attr("x", c => c.x)
+                    .attr("y", c => c.y)
+                    .attr("width", cellSize)
+                    .attr("height", cellSize)
+                    .attr("fill", c => c.fill)
+                    .attr("stroke", cellStroke))
+                    .attr("data-selection-key", c => c.selectionKey)
+                    .attr("data-legend-key", c => c.legendKey)
+                    .attr("rx", 2)
+                    .attr("stroke-width", 1)
+                    .each((c, i, nodes) => {
+                        this.addTooltip(d3.select(nodes[i]) as any, c.tooltipItems, c.tooltipMeta);
+                    });
+            }
+
+            // Notes sit on their day's cell; a key pins a note to one panel.
+            const annotationPoints: AnnotationPoint[] = [];
+            getPanelAnnotations(calendarData.annotations, groupName).forEach((annotation) => {
+                const date = annotation.anchor.date !== undefined ? new Date(annotation.anchor.date) : null;
+                if (!date || !matchesAnnotationKey(annotation.anchor, groupName)) return;
+                const yearIndex = years.indexOf(date.getFullYear());
+                if (yearIndex < 0) return;
+                const dayOfWeek = (date.getDay() - weekStartOffset + 7) % 7;
+                annotationPoints.push({
+                    annotation,
+                    x: dayGutter + this.getWeekNumber(date, weekStartOffset) * (cellSize + cellPadding) + cellSize / 2,
+                    y: yearIndex * yearHeight + dayOfWeek * (cellSize + cellPadding) + cellSize / 2
+                });
+            });
+            this.renderAnnotations(panelGroup, annotationPoints, { width: chartWidth, height: contentHeight });
+
             currentY += groupHeightTarget + interPanelGap;
         });
 
-        // Calendar heatmap has no legend by design (tooltips carry the details).
+        if (classLabels.length) {
+            this.renderLegend(colorScale, maxValue, true, classLabels);
+        }
     }
 
     private getWeekNumber(date: Date, weekStartOffset: number): number {
@@ -293,4 +383,8 @@ export class CalendarRenderer extends BaseRenderer<ICalendarVisualSettings> {
         const dayOfYear = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
         return Math.floor((dayOfYear + startDay) / 7);
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_CalendarHeatmap");
+    }
 }
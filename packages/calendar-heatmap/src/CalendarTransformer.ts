@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, ConditionalColorLookup, DataPoint, addRuleColorForKey, formatGroupValue, ALL_GROUP } from "@pbi-visuals/shared";
 
 export interface CalendarDataPoint extends DataPoint {
     date: Date;
@@ -19,8 +19,9 @@ export interface CalendarData extends ChartData {
 }
 
 export class CalendarTransformer {
-    public static transform(categorical: DataViewCategorical): CalendarData {
+    public static transform(categorical: DataViewCategorical, ruleColors?: ConditionalColorLookup): CalendarData {
         const dataPoints: DataPoint[] = [];
+        const ruleColorsByKey = new Map<string, string>();
         const calendarPoints: CalendarDataPoint[] = [];
         const xValuesSet = new Set<string>();
         const groupsSet = new Set<string>();
@@ -54,7 +55,7 @@ export class CalendarTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -94,6 +95,7 @@ export class CalendarTransformer {
 
                 xValuesSet.add(xValue);
                 groupsSet.add(groupValue);
+                addRuleColorForKey(ruleColorsByKey, xValue, ruleColors?.getRowColor(i));
                 yearsSet.add(date.getFullYear());
 
                 const calendarPoint: CalendarDataPoint = {
@@ -132,6 +134,7 @@ export class CalendarTransformer {
             years,
             valueFormatString,
             valueDisplayName,
+            ruleColorsByKey,
             dateRange: {
                 start: minDate || new Date(),
                 end: maxDate || new Date()
@@ -12,6 +12,24 @@ import {
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IRenderingSettings,
+    defaultRenderingSettings,
+    parseRenderingSettings,
+    IDataLoadingSettings,
+    defaultDataLoadingSettings,
+    parseDataLoadingSettings,
+    IColorScaleSettings,
+    defaultColorScaleSettings,
+    parseColorScaleSettings,
+    IAnnotationSettings,
+    defaultAnnotationSettings,
+    parseAnnotationSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -33,7 +51,11 @@ export interface ICalendarTextSizeSettings {
 
 export interface ICalendarVisualSettings extends IBaseVisualSettings {
     calendar: ICalendarSettings;
+    colorScale: IColorScaleSettings;
     textSizes: ICalendarTextSizeSettings;
+    rendering: IRenderingSettings;
+    dataLoading: IDataLoadingSettings;
+    annotations: IAnnotationSettings;
 }
 
 export const defaultSettings: ICalendarVisualSettings = {
@@ -41,6 +63,7 @@ export const defaultSettings: ICalendarVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: false,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -57,6 +80,13 @@ export const defaultSettings: ICalendarVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "never",  // Calendar doesn't use X-axis rotation but needs the property
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    rendering: { ...defaultRenderingSettings },
+    dataLoading: { ...defaultDataLoadingSettings },
+    colorScale: { ...defaultColorScaleSettings },
+    annotations: { ...defaultAnnotationSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     calendar: {
@@ -118,6 +148,14 @@ export function parseSettings(dataView: DataView): ICalendarVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.rendering = parseRenderingSettings(objects);
+    settings.dataLoading = parseDataLoadingSettings(objects);
+    settings.colorScale = parseColorScaleSettings(objects);
+    settings.annotations = parseAnnotationSettings(objects);
+
     // Custom colors settings
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
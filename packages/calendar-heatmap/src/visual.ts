@@ -19,15 +19,42 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createRenderingCard,
+    createDataLoadingCard,
+    createAnnotationsCard,
+    readAnnotations,
+    CanvasMarkLayer,
+    SegmentedDataLoader,
+    renderDataLoading,
+    renderTruncatedBadge,
+    applyThemeTextDefaults,
+    applyThemeGradient,
+    createConditionalColorsCard,
+    getSchemeColors,
     createYAxisCard,
     findCategoryIndex,
+    createConditionalColorLookup,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { ICalendarVisualSettings, parseSettings } from "./settings";
 import { CalendarTransformer } from "./CalendarTransformer";
 import { CalendarRenderer } from "./CalendarRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -45,20 +72,33 @@ export class Visual implements IVisual {
     private dateSelectionIds: Map<string, ISelectionId> = new Map();
     private xAxisFieldIndex: number = -1;
     private allowInteractions: boolean;
+    private canvasLayers: CanvasMarkLayer[] = [];
+    private dataLoader: SegmentedDataLoader;
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-calendar-${Visual.instanceCounter++}`;
         this.emptySelectionId = this.host.createSelectionIdBuilder().createSelectionId();
         this.allowInteractions = this.host.hostCapabilities?.allowInteractions !== false;
+        this.dataLoader = new SegmentedDataLoader(this.host);
 
         this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -78,9 +118,8 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        // Clear previous content
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
+        this.svg.select("g.data-truncated-layer").remove();
+        this.canvasLayers = [];
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -96,7 +135,7 @@ export class Visual implements IVisual {
 
         // Validate data
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
@@ -104,6 +143,19 @@ export class Visual implements IVisual {
 
         // Parse settings
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
+        if (this.settings.colorScheme === "theme") {
+            applyThemeGradient(this.settings.calendar, dataView.metadata?.objects?.["calendarSettings"], this.host.colorPalette);
+        }
+
+        // Fetch the remaining segments before transforming; the host merges them into one data view
+        const loadResult = this.dataLoader.load(options, this.settings.dataLoading);
+        if (loadResult.status === "loading") {
+            this.container.selectAll("*").remove();
+            renderAccessibleSummary(this.target, this.svg.node(), null);
+            renderDataLoading(this.container, width, height, loadResult.rowCount);
+            return;
+        }
         this.syncHtmlTooltip();
         this.xAxisFieldIndex = findCategoryIndex(dataView, "xAxis");
         this.buildDateSelectionIds(dataView);
@@ -119,24 +171,30 @@ export class Visual implements IVisual {
             height,
             htmlTooltip: this.htmlTooltip,
             colorPalette: this.host.colorPalette,
-            isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast)
+            isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast),
+            canvasLayers: this.canvasLayers
         };
 
         // Create renderer
         this.renderer = new CalendarRenderer(context);
 
         // Transform data
-        const chartData = CalendarTransformer.transform(dataView.categorical);
+        const chartData = CalendarTransformer.transform(dataView.categorical, createConditionalColorLookup(dataView));
 
         // Check if data is empty
         if (!chartData.calendarPoints || chartData.calendarPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
+        chartData.annotations = readAnnotations(dataView, this.settings.annotations, { x: "xAxis" });
 
         // Render the chart
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
+        if (loadResult.status === "truncated") {
+            renderTruncatedBadge(this.svg.append("g").classed("data-truncated-layer", true), width, loadResult.rowCount);
+        }
         } catch (error) {
             completed = false;
             eventService?.renderingFailed(options, error instanceof Error ? error.message : String(error));
@@ -148,8 +206,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "values"], dataView),
+            illustration: "grid"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -179,10 +242,17 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createRenderingCard(this.settings.rendering));
+        cards.push(createDataLoadingCard(this.settings.dataLoading));
+        cards.push(createAnnotationsCard(this.settings.annotations));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
-        cards.push(createGradientColorsCard(this.settings.calendar.minColor, this.settings.calendar.maxColor));
+        cards.push(createGradientColorsCard(this.settings.calendar.minColor, this.settings.calendar.maxColor, "calendarSettings", this.settings.colorScale));
 
         // Day labels live in yAxisSettings
         cards.push(createYAxisCard({
@@ -263,6 +333,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: '.calendar-cell[data-selection-key]:not([data-selection-key=""])'
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
@@ -275,7 +350,8 @@ export class Visual implements IVisual {
                 markSelector: '.calendar-cell[data-selection-key]:not([data-selection-key=""])',
                 selectionIdsByKey: this.dateSelectionIds,
                 dimOpacity: 0.25,
-                selectedOpacity: 1
+                selectedOpacity: 1,
+                canvasLayers: this.canvasLayers
             });
             this.applySelectionState = binding.applySelection;
             binding.applySelection(this.selectionManager.getSelectionIds());
@@ -290,17 +366,6 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest('.calendar-cell[data-selection-key]:not([data-selection-key=""])')) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 
 }
@@ -1,6 +1,6 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatMeasureValue, measureMaxLabelWidth } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, measureMaxLabelWidth, AccessibleSummary, summarizeChartData, localize, localizeFormat, getDisplayUnitReference, includeReferenceLines, AnnotationPoint, AnnotationTarget, findAnnotationTarget, getPanelAnnotations, matchesAnnotationKey, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
 import { IChartData, ICandle } from "./ChartTransformer";
 
@@ -8,7 +8,7 @@ const DEFAULT_BULL = "#26a69a";
 const DEFAULT_BEAR = "#ef5350";
 
 export class ChartRenderer extends BaseRenderer<IVisualSettings> {
-    private static windowStart: number = 0;
+    private windowStart: number = 0;
     private lastData: IChartData | null = null;
     private lastSettings: IVisualSettings | null = null;
 
@@ -18,14 +18,17 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
     private rerender(): void {
         if (!this.lastData || !this.lastSettings) return;
-        this.context.container.selectAll("*").remove();
         this.render(this.lastData, this.lastSettings);
+        this.context.onRerender?.();
     }
 
     private navigate(maxStart: number, delta: number): void {
-        const next = Math.max(0, Math.min(maxStart, ChartRenderer.windowStart + delta));
-        if (next === ChartRenderer.windowStart) return;
-        ChartRenderer.windowStart = next;
+        const next = Math.max(0, Math.min(maxStart, this.windowStart + delta));
+        if (next === this.windowStart) return;
+        this.windowStart = next;
+        // `render` starts from the view state, so keep it in step for the redraw below.
+        if (this.lastSettings) this.lastSettings.viewState.windowStart = next;
+        this.context.onViewStateChange?.({ windowStart: next });
         this.rerender();
     }
 
@@ -57,7 +60,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         return ticks;
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         this.lastData = chartData;
@@ -68,7 +71,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
 
         const xAxisFontSize = settings.textSizes.xAxisFontSize || settings.xAxisFontSize;
         const yAxisFontSize = settings.textSizes.yAxisFontSize || settings.yAxisFontSize;
@@ -97,10 +100,14 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         const visibleCount = Math.max(1, Math.min(xDomain.length, maxVisible));
         const maxStart = Math.max(0, xDomain.length - visibleCount);
         const hasOverflow = maxStart > 0;
-        ChartRenderer.windowStart = Math.max(0, Math.min(maxStart, ChartRenderer.windowStart));
+        this.windowStart = Math.max(0, Math.min(maxStart, settings.viewState.windowStart));
 
-        const visibleX = xDomain.slice(ChartRenderer.windowStart, ChartRenderer.windowStart + visibleCount);
+        const visibleX = xDomain.slice(this.windowStart, this.windowStart + visibleCount);
         const visibleSet = new Set(visibleX);
+        const annotationTargets: AnnotationTarget[] = visibleX.map((x) => {
+            const date = chartData.xIsDate ? new Date(x).getTime() : NaN;
+            return { key: x, date: isNaN(date) ? undefined : date };
+        });
         const scrollStep = Math.max(1, Math.ceil(visibleCount / 8));
 
         // Wheel scroll
@@ -116,53 +123,62 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         }
 
         const yTickSample = chartData.candles.filter((c) => visibleSet.has(c.x));
-        const globalMin = yTickSample.length ? Math.min(...yTickSample.map((c) => c.low)) : 0;
-        const globalMax = yTickSample.length ? Math.max(...yTickSample.map((c) => c.high)) : 1;
+        const [globalMin, globalMax] = includeReferenceLines([
+            yTickSample.length ? Math.min(...yTickSample.map((c) => c.low)) : 0,
+            yTickSample.length ? Math.max(...yTickSample.map((c) => c.high)) : 1
+        ], this.getReferenceLines(chartData, []));
         const yTicks = this.computeYTicks(globalMin, globalMax, 6);
-        const yTickLabels = yTicks.map((v) => formatMeasureValue(v, chartData.valueFormatString));
+        const formatAxisValue = this.getValueFormatter("axis", chartData.valueFormatString, getDisplayUnitReference(yTicks));
+        const yTickLabels = yTicks.map((v) => formatAxisValue(v));
         const maxYLabelWidth = measureMaxLabelWidth(yTickLabels, yAxisFontSize, settings.yAxisFontFamily);
         const yAxisReserve = settings.showYAxis ? Math.min(100, Math.max(40, Math.ceil(maxYLabelWidth + 12))) : 20;
 
         const navBtnWidth = hasOverflow ? 28 : 0;
-        const margin = { top: 20, right: 14 + navBtnWidth, bottom: 48, left: yAxisReserve };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const chartWidth = Math.max(80, this.context.width - margin.left - margin.right);
-        const chartHeight = Math.max(80, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = chartHeight / groups.length;
-
-        const xDisplayLabels = visibleX.map((v) => this.formatXLabel(v, visibleCount));
-        const rotationResult = calculateLabelRotation({
-            mode: settings.rotateXLabels,
-            labels: xDisplayLabels,
-            availableWidth: chartWidth,
-            fontSize: xAxisFontSize,
-            fontFamily: settings.xAxisFontFamily
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+        const margin = { top: groups.length > 1 ? 8 : 20, right: 14 + navBtnWidth, bottom: 48, left: yAxisReserve };
+        // The grid reserves the axis margins itself, per panel or around the grid's outer edge.
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(80 + margin.left, this.context.width - margin.right),
+            height: Math.max(80 + margin.bottom, this.context.height - margin.top),
+            aspectRatio: 2.4,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0,
+            axisLeft: margin.left,
+            axisBottom: margin.bottom
         });
-        const shouldRotate = rotationResult.shouldRotate;
-        const skipInterval = rotationResult.skipInterval;
+        this.setContentHeight(margin.top + grid.contentHeight);
+        const chartWidth = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
+        const crosshair = this.createCrosshairSync(groups.length);
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", `translate(${margin.left},${Math.round(panelY)})`);
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(cell.x), Math.round(margin.top + cell.y));
 
             const candles = chartData.candles.filter((c) => c.group === groupName && visibleSet.has(c.x));
             if (!candles.length) return;
 
-            const localMin = Math.min(...candles.map((c) => c.low));
-            const localMax = Math.max(...candles.map((c) => c.high));
+            // Statistics cover every close of the group, not only the scrolled-in window.
+            const referenceLines = this.getReferenceLines(chartData, chartData.candles.filter((c) => c.group === groupName).map((c) => c.close));
+            const [localMin, localMax] = includeReferenceLines(smallMultiples.sharedYScale ? [globalMin, globalMax] : [
+                Math.min(...candles.map((c) => c.low)),
+                Math.max(...candles.map((c) => c.high))
+            ], referenceLines);
             const yPad = (localMax - localMin) * 0.06 || 1;
             const yScale = d3.scaleLinear()
                 .domain([localMin - yPad, localMax + yPad])
                 .range([panelHeight, 0]);
 
+            // An independent X scale keeps only the periods this panel has candles for.
+            const panelXSet = new Set(candles.map((c) => c.x));
+            const panelX = smallMultiples.sharedXScale ? visibleX : visibleX.filter((x) => panelXSet.has(x));
             const xScale = d3.scalePoint<string>()
-                .domain(visibleX)
+                .domain(panelX)
                 .range([0, chartWidth])
                 .padding(0.5);
-            const step = visibleX.length > 1
-                ? Math.abs((xScale(visibleX[1]) ?? 0) - (xScale(visibleX[0]) ?? 0))
+            const step = panelX.length > 1
+                ? Math.abs((xScale(panelX[1]) ?? 0) - (xScale(panelX[0]) ?? 0))
                 : chartWidth;
             const bodyW = Math.max(3, Math.min(24, step * 0.62));
 
@@ -190,70 +206,96 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("stroke-width", 1)
                 .attr("shape-rendering", "crispEdges");
 
-            // Candles
-            const marks = panel.selectAll("g.mark")
-                .data(candles)
-                .join("g")
-                .attr("class", "mark")
-                .attr("transform", (d: ICandle) => `translate(${Math.round(xScale(d.x) ?? 0)},0)`);
-
-            marks.each((d: ICandle, i, nodes) => {
-                const node = d3.select(nodes[i]);
-                const isBull = d.close >= d.open;
-                const color = isBull ? bullColor : bearColor;
-
-                // Wick
-                node.append("line")
-                    .attr("x1", 0)
-                    .attr("x2", 0)
-                    .attr("y1", Math.round(yScale(d.high)))
-                    .attr("y2", Math.round(yScale(d.low)))
-                    .attr("stroke", color)
-                    .attr("stroke-width", 1)
-                    .attr("shape-rendering", "crispEdges");
-
-                // Body
-                const top = Math.round(yScale(Math.max(d.open, d.close)));
-                const bottom = Math.round(yScale(Math.min(d.open, d.close)));
-                const h = Math.max(1, bottom - top);
-
-                node.append("rect")
-                    .attr("x", -Math.round(bodyW / 2))
-                    .attr("y", top)
-                    .attr("width", Math.round(bodyW))
-                    .attr("height", h)
-                    .attr("fill", color)
-                    .attr("stroke", color)
-                    .attr("stroke-width", 1)
-                    .attr("shape-rendering", "crispEdges");
-
-                // Tooltip hitarea
-                this.addTooltip(node.append("rect")
-                    .attr("x", -Math.round(Math.max(bodyW, step * 0.4) / 2))
-                    .attr("y", Math.round(yScale(d.high)))
-                    .attr("width", Math.round(Math.max(bodyW, step * 0.4)))
-                    .attr("height", Math.max(1, Math.round(yScale(d.low) - yScale(d.high))))
-                    .attr("fill", "transparent")
-                    .attr("cursor", "crosshair") as any,
-                [
-                    { displayName: "Open", value: formatMeasureValue(d.open, chartData.valueFormatString), color },
-                    { displayName: "High", value: formatMeasureValue(d.high, chartData.valueFormatString), color },
-                    { displayName: "Low", value: formatMeasureValue(d.low, chartData.valueFormatString), color },
-                    { displayName: "Close", value: formatMeasureValue(d.close, chartData.valueFormatString), color }
-                ], {
-                    title: d.x,
-                    subtitle: groupName !== "All" ? groupName : undefined,
-                    color
+            // Candles, keyed by period so paging the window slides them along
+            const candleColor = (d: ICandle): string => this.getRuleColor(chartData, d.selectionKey) ?? (d.close >= d.open ? bullColor : bearColor);
+            const hitWidth = Math.round(Math.max(bodyW, step * 0.4));
+            const marks = this.joinMarks<SVGGElement, ICandle>(panel, "g.mark", candles, (d) => d.selectionKey, (mark) => mark
+                .attr("transform", (d) => `translate(${Math.round(xScale(d.x) ?? 0)},0)`))
+                .attr("data-selection-key", (d) => d.selectionKey);
+
+            // Wick
+            this.joinMarks<SVGLineElement, ICandle>(marks, "line.wick", (d: ICandle) => [d], (d) => d.selectionKey, (line) => line
+                .attr("y1", (d) => Math.round(yScale(d.high)))
+                .attr("y2", (d) => Math.round(yScale(d.low)))
+                .attr("stroke", (d) => candleColor(d)))
+                .attr("x1", 0)
+                .attr("x2", 0)
+                .attr("stroke-width", 1)
+                .attr("shape-rendering", "crispEdges");
+
+            // Body
+            this.joinMarks<SVGRectElement, ICandle>(marks, "rect.body", (d: ICandle) => [d], (d) => d.selectionKey, (rect) => rect
+                .attr("x", -Math.round(bodyW / 2))
+                .attr("y", (d) => Math.round(yScale(Math.max(d.open, d.close))))
+                .attr("width", Math.round(bodyW))
+                .attr("height", (d) => Math.max(1, Math.round(yScale(Math.min(d.open, d.close))) - Math.round(yScale(Math.max(d.open, d.close)))))
+                .attr("fill", (d) => candleColor(d))
+                .attr("stroke", (d) => candleColor(d)))
+                .attr("stroke-width", 1)
+                .attr("shape-rendering", "crispEdges");
+
+            // Tooltip hitarea
+            this.joinMarks<SVGRectElement, ICandle>(marks, "rect.hit-area", (d: ICandle) => [d], (d) => d.selectionKey, (rect) => rect
+                .attr("x", -Math.round(hitWidth / 2))
+                .attr("y", (d) => Math.round(yScale(d.high)))
+                .attr("width", hitWidth)
+                .attr("height", (d) => Math.max(1, Math.round(yScale(d.low) - yScale(d.high)))))
+                .attr("fill", "transparent")
+                .attr("cursor", "crosshair")
+                .each((d, i, nodes) => {
+                    const color = candleColor(d);
+                    this.addTooltip(d3.select(nodes[i]) as any, [
+                        { displayName: localize("Visual_Open"), value: this.formatTooltipValue(d.open, chartData.valueFormatString), color },
+                        { displayName: localize("Visual_High"), value: this.formatTooltipValue(d.high, chartData.valueFormatString), color },
+                        { displayName: localize("Visual_Low"), value: this.formatTooltipValue(d.low, chartData.valueFormatString), color },
+                        { displayName: localize("Visual_Close"), value: this.formatTooltipValue(d.close, chartData.valueFormatString), color }
+                    ], {
+                        title: d.x,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                        color
+                    });
                 });
+
+            this.renderReferenceLines(panel, referenceLines, yScale, { width: chartWidth, height: panelHeight }, "horizontal");
+
+            // Notes sit on the high of their candle; a key pins a note to one panel.
+            const annotationPoints: AnnotationPoint[] = [];
+            getPanelAnnotations(chartData.annotations, groupName).forEach((annotation) => {
+                if (!matchesAnnotationKey(annotation.anchor, groupName)) return;
+                const index = findAnnotationTarget(annotation.anchor, annotationTargets);
+                const candle = index >= 0 ? candles.find((c) => c.x === visibleX[index]) : undefined;
+                if (!candle) return;
+                annotationPoints.push({ annotation, x: xScale(candle.x) ?? 0, y: yScale(candle.high) });
+            });
+            this.renderAnnotations(panel, annotationPoints, { width: chartWidth, height: panelHeight });
+
+            // Hovering a period shows its close in every panel.
+            crosshair?.addPanel(panel, {
+                key: groupName,
+                width: chartWidth,
+                height: panelHeight,
+                pick: (px) => {
+                    const index = Math.round((px - (xScale(panelX[0]) ?? 0)) / (step || 1));
+                    return panelX[Math.max(0, Math.min(panelX.length - 1, index))] ?? null;
+                },
+                locate: (xValue) => xScale(xValue) ?? null,
+                values: (xValue) => candles.filter((c) => c.x === xValue).map((c) => ({
+                    label: localize("Visual_Close"),
+                    value: this.formatTooltipValue(c.close, chartData.valueFormatString),
+                    y: yScale(c.close),
+                    color: this.getRuleColor(chartData, c.selectionKey) ?? (c.close >= c.open ? bullColor : bearColor)
+                })),
+                label: (xValue) => this.formatXLabel(xValue, visibleCount)
             });
 
             // Y-axis
-            if (settings.showYAxis) {
-                const localYTicks = this.computeYTicks(localMin, localMax, 5);
+            if (settings.showYAxis && cell.showYAxis) {
+                const localYTicks = this.computeYTicks(localMin, localMax, 5).filter((tick) => {
+                    const py = Math.round(yScale(tick));
+                    return py >= -2 && py <= panelHeight + 2;
+                });
                 localYTicks.forEach((tick) => {
                     const py = Math.round(yScale(tick));
-                    if (py < -2 || py > panelHeight + 2) return;
-
                     panel.append("line")
                         .attr("x1", -6)
                         .attr("x2", 0)
@@ -262,32 +304,39 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         .attr("stroke", this.getGridStroke("#d1d5db"))
                         .attr("stroke-width", 1)
                         .attr("shape-rendering", "crispEdges");
-
-                    panel.append("text")
-                        .attr("class", "y-label")
-                        .attr("x", -10)
-                        .attr("y", py)
-                        .attr("dy", "0.35em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", yAxisFontSize + "px")
-                        .attr("font-family", settings.yAxisFontFamily)
-                        .style("font-weight", settings.yAxisBold ? "700" : "400")
-                        .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                        .attr("fill", yAxisColor)
-                        .text(formatMeasureValue(tick, chartData.valueFormatString));
                 });
+
+                this.joinMarks<SVGTextElement, number>(panel, "text.y-label", localYTicks, (tick) => formatAxisValue(tick), (text) => text
+                    .attr("y", (tick) => Math.round(yScale(tick)))
+                    .attr("fill", yAxisColor))
+                    .attr("x", -10)
+                    .attr("dy", "0.35em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", yAxisFontSize + "px")
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text((tick) => formatAxisValue(tick));
             }
 
-            // X-axis (last panel only)
-            if (settings.showXAxis && groupIndex === groups.length - 1) {
+            // X-axis (bottom panels only with outer axes)
+            if (settings.showXAxis && cell.showXAxis) {
+                const xDisplayLabels = panelX.map((v) => this.formatXLabel(v, visibleCount));
+                const { shouldRotate, skipInterval } = calculateLabelRotation({
+                    mode: settings.rotateXLabels,
+                    labels: xDisplayLabels,
+                    availableWidth: chartWidth,
+                    fontSize: xAxisFontSize,
+                    fontFamily: settings.xAxisFontFamily
+                });
                 const visibleLabelIndices: number[] = [];
-                for (let i = 0; i < visibleX.length; i++) {
+                for (let i = 0; i < panelX.length; i++) {
                     if (skipInterval <= 1 || i % skipInterval === 0) {
                         visibleLabelIndices.push(i);
                     }
                 }
-                const lastIdx = visibleX.length - 1;
+                const lastIdx = panelX.length - 1;
                 if (visibleLabelIndices.length > 0 && visibleLabelIndices[visibleLabelIndices.length - 1] !== lastIdx) {
                     const prevIdx = visibleLabelIndices[visibleLabelIndices.length - 1];
                     const gapPx = (lastIdx - prevIdx) * step;
@@ -298,49 +347,41 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     );
                     if (gapPx >= maxLW + 4) visibleLabelIndices.push(lastIdx);
                 }
-                const labelSet = new Set(visibleLabelIndices);
-
-                visibleX.forEach((xVal, i) => {
-                    if (!labelSet.has(i)) return;
-                    const cx = Math.round(xScale(xVal) ?? 0);
+                const labelY = Math.round(panelHeight + (shouldRotate ? 8 : 18));
+                const tickX = (i: number): number => Math.round(xScale(panelX[i]) ?? 0);
 
+                visibleLabelIndices.forEach((i) => {
                     panel.append("line")
-                        .attr("x1", cx)
-                        .attr("x2", cx)
+                        .attr("x1", tickX(i))
+                        .attr("x2", tickX(i))
                         .attr("y1", panelHeight)
                         .attr("y2", panelHeight + 4)
                         .attr("stroke", this.getGridStroke("#d1d5db"))
                         .attr("stroke-width", 1)
                         .attr("shape-rendering", "crispEdges");
-
-                    const text = panel.append("text")
-                        .attr("class", "x-label")
-                        .attr("x", cx)
-                        .attr("y", Math.round(panelHeight + (shouldRotate ? 8 : 18)))
-                        .attr("font-size", xAxisFontSize + "px")
-                        .attr("font-family", settings.xAxisFontFamily)
-                        .style("font-weight", settings.xAxisBold ? "700" : "400")
-                        .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                        .attr("fill", xAxisColor)
-                        .text(xDisplayLabels[i]);
-
-                    if (shouldRotate) {
-                        text.attr("transform", `rotate(-45,${cx},${Math.round(panelHeight + 8)})`)
-                            .attr("text-anchor", "end");
-                    } else {
-                        text.attr("text-anchor", "middle");
-                    }
                 });
+
+                this.joinMarks<SVGTextElement, number>(panel, "text.x-label", visibleLabelIndices, (i) => panelX[i], (text) => text
+                    .attr("x", (i) => tickX(i))
+                    .attr("y", labelY)
+                    .attr("transform", (i) => shouldRotate ? `rotate(-45,${tickX(i)},${Math.round(panelHeight + 8)})` : null)
+                    .attr("fill", xAxisColor))
+                    .attr("text-anchor", shouldRotate ? "end" : "middle")
+                    .attr("font-size", xAxisFontSize + "px")
+                    .attr("font-family", settings.xAxisFontFamily)
+                    .style("font-weight", settings.xAxisBold ? "700" : "400")
+                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                    .text((i) => xDisplayLabels[i]);
             }
 
             // Panel title
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
@@ -349,8 +390,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         if (hasOverflow) {
             const midY = Math.round(this.context.height / 2);
             const rightX = Math.round(this.context.width - 14);
-            const canGoLeft = ChartRenderer.windowStart > 0;
-            const canGoRight = ChartRenderer.windowStart < maxStart;
+            const canGoLeft = this.windowStart > 0;
+            const canGoRight = this.windowStart < maxStart;
 
             const arrowGroup = this.context.container.append("g").attr("class", "nav-arrows");
 
@@ -371,7 +412,10 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     .attr("stroke", "#6b7280")
                     .attr("stroke-width", 2)
                     .attr("fill", "none");
-                leftBtn.on("click", () => this.navigate(maxStart, -scrollStep));
+                leftBtn.on("click", (event: MouseEvent) => {
+                    event.stopPropagation();
+                    this.navigate(maxStart, -scrollStep);
+                });
             }
 
             // Right arrow
@@ -391,11 +435,14 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     .attr("stroke", "#6b7280")
                     .attr("stroke-width", 2)
                     .attr("fill", "none");
-                rightBtn.on("click", () => this.navigate(maxStart, scrollStep));
+                rightBtn.on("click", (event: MouseEvent) => {
+                    event.stopPropagation();
+                    this.navigate(maxStart, scrollStep);
+                });
             }
 
             // Page indicator
-            const page = Math.floor(ChartRenderer.windowStart / scrollStep) + 1;
+            const page = Math.floor(this.windowStart / scrollStep) + 1;
             const totalPages = Math.ceil(xDomain.length / scrollStep);
             this.context.container.append("text")
                 .attr("class", "page-indicator")
@@ -404,7 +451,18 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("text-anchor", "middle")
                 .attr("font-size", "9px")
                 .attr("fill", "#9ca3af")
-                .text(`${ChartRenderer.windowStart + 1}\u2013${Math.min(xDomain.length, ChartRenderer.windowStart + visibleCount)} of ${xDomain.length}`);
+                .text(localizeFormat("Visual_PageOf", `${this.windowStart + 1}\u2013${Math.min(xDomain.length, this.windowStart + visibleCount)}`, xDomain.length));
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_CandlestickChart");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        return summarizeChartData(data, this.getAccessibleChartType(), {
+            valueName: localize("Visual_A11y_ClosingPrice"),
+            includeTable: this.settings.accessibility.dataTable
+        });
+    }
 }
@@ -2,7 +2,19 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    createTableRowSelectionId,
+    formatGroupValue,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface ICandle {
     x: string;
@@ -12,6 +24,7 @@ export interface ICandle {
     low: number;
     close: number;
     index: number;
+    selectionKey: string;
 }
 
 export interface IChartData extends ChartData {
@@ -34,7 +47,7 @@ function formatDateLabel(raw: unknown): string {
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const empty: IChartData = {
             dataPoints: [],
             xValues: [],
@@ -58,6 +71,9 @@ export class ChartTransformer {
         }
 
         const byKey = new Map<string, CandleAccumulator>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
         let valueFormatString: string | undefined;
         let xIsDate = false;
 
@@ -68,7 +84,8 @@ export class ChartTransformer {
             highRaw: unknown,
             lowRaw: unknown,
             closeRaw: unknown,
-            rowIndex: number
+            rowIndex: number,
+            getSelectionId?: () => ISelectionId
         ): void => {
             const open = Number(openRaw);
             const high = Number(highRaw);
@@ -80,10 +97,14 @@ export class ChartTransformer {
             const x = xLabel || ("Point " + (rowIndex + 1));
             if (!xIsDate && xRaw instanceof Date) xIsDate = true;
             if (!xIsDate && typeof xRaw === "string" && /\d{4}/.test(xRaw) && !isNaN(new Date(xRaw).getTime())) xIsDate = true;
-            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : "All";
+            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : ALL_GROUP;
             const resolvedHigh = Math.max(high, open, close);
             const resolvedLow = Math.min(low, open, close);
             const key = group + "\u001f" + x;
+            if (getSelectionId) {
+                addSelectionIdForKey(selectionIdsByKey, key, getSelectionId());
+            }
+            addRuleColorForKey(ruleColorsByKey, key, ruleColors.getRowColor(rowIndex));
 
             const existing = byKey.get(key);
             if (!existing) {
@@ -139,7 +160,8 @@ export class ChartTransformer {
                         highCol.values[i],
                         lowCol.values[i],
                         closeCol.values[i],
-                        i
+                        i,
+                        createSelectionIdBuilder ? () => createCategoryRowSelectionId(createSelectionIdBuilder, [xCol, groupCol], i) : undefined
                     );
                 }
             }
@@ -165,7 +187,8 @@ export class ChartTransformer {
                         row[highIdx],
                         row[lowIdx],
                         row[closeIdx],
-                        rowIndex
+                        rowIndex,
+                        createSelectionIdBuilder ? () => createTableRowSelectionId(createSelectionIdBuilder, table, rowIndex) : undefined
                     );
                 });
             }
@@ -192,7 +215,8 @@ export class ChartTransformer {
                 high: item.high,
                 low: item.low,
                 close: item.close,
-                index
+                index,
+                selectionKey: item.group + "\u001f" + item.x
             };
 
             candles.push(candle);
@@ -226,7 +250,9 @@ export class ChartTransformer {
             minValue,
             candles,
             valueFormatString,
-            xIsDate
+            xIsDate,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
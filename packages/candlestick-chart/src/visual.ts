@@ -8,6 +8,7 @@ import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisual = powerbi.extensibility.visual.IVisual;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import ITooltipService = powerbi.extensibility.ITooltipService;
+import ISelectionId = powerbi.visuals.ISelectionId;
 
 import {
     d3,
@@ -17,15 +18,43 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    readReferenceMeasure,
+    createAnnotationsCard,
+    createCrosshairCard,
+    readAnnotations,
+    createDataLoadingCard,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
+    getSchemeColors,
     createXAxisCard,
     createYAxisCard,
-    HtmlTooltip
+    HtmlTooltip,
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale,
+    ViewStateStore,
+    SegmentedDataLoader,
+    renderDataLoading,
+    renderTruncatedBadge
 } from "@pbi-visuals/shared";
 
 import { IVisualSettings, parseSettings } from "./settings";
 import { ChartTransformer } from "./ChartTransformer";
 import { ChartRenderer } from "./ChartRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -33,16 +62,42 @@ export class Visual implements IVisual {
     private container: d3.Selection<SVGGElement, unknown, null, undefined>;
     private host: IVisualHost;
     private tooltipService: ITooltipService;
+    private selectionManager: powerbi.extensibility.ISelectionManager;
     private settings: IVisualSettings | null = null;
     private renderer: ChartRenderer | null = null;
     private htmlTooltip: HtmlTooltip | null = null;
     private tooltipOwnerId: string;
+    private emptySelectionId: ISelectionId;
+    private applySelectionState: ((ids: ISelectionId[]) => void) | null = null;
+    private allowInteractions: boolean;
+    private selectionIdsByKey: Map<string, ISelectionId[]> = new Map();
+    private viewState: ViewStateStore;
+    private dataLoader: SegmentedDataLoader;
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
+        this.viewState = new ViewStateStore(this.host);
+        this.dataLoader = new SegmentedDataLoader(this.host);
         this.tooltipService = this.host.tooltipService;
+        this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = "bta-candlestick-chart-" + Visual.instanceCounter++;
+        this.emptySelectionId = this.host.createSelectionIdBuilder().createSelectionId();
+        this.allowInteractions = this.host.hostCapabilities?.allowInteractions !== false;
+
+        this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => {
+            this.applySelectionState?.(ids);
+        });
+
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
 
         this.svg = d3.select(this.target)
             .append("svg")
@@ -61,8 +116,7 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-            this.svg.selectAll("*").remove();
-            this.container = this.svg.append("g").classed("chart-container", true);
+            this.svg.select("g.data-truncated-layer").remove();
             this.htmlTooltip?.hide();
 
             const width = options.viewport.width;
@@ -75,35 +129,59 @@ export class Visual implements IVisual {
             });
 
             if (!options.dataViews || !options.dataViews[0] || (!options.dataViews[0].categorical && !options.dataViews[0].table)) {
-                this.renderNoData();
+                this.renderNoData(width, height);
                 return;
             }
 
             const dataView = options.dataViews[0];
             this.settings = parseSettings(dataView);
+            this.settings.viewState = this.viewState.sync(this.settings.viewState);
+            applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
             this.syncHtmlTooltip();
 
+            // Fetch the remaining segments before transforming; the host merges them into one data view
+            const loadResult = this.dataLoader.load(options, this.settings.dataLoading);
+            if (loadResult.status === "loading") {
+                this.container.selectAll("*").remove();
+                renderAccessibleSummary(this.target, this.svg.node(), null);
+                renderDataLoading(this.container, width, height, loadResult.rowCount);
+                return;
+            }
+
             const context: RenderContext = {
                 svg: this.svg,
                 container: this.container,
                 tooltipService: this.tooltipService,
+                selectionManager: this.selectionManager,
                 root: this.target,
                 width,
                 height,
                 htmlTooltip: this.htmlTooltip,
                 colorPalette: this.host.colorPalette,
-                isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast)
+                isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast),
+                onRerender: () => this.bindInteractions(),
+                onViewStateChange: (patch) => this.viewState.update(patch)
             };
 
             this.renderer = new ChartRenderer(context);
-            const chartData = ChartTransformer.transform(dataView);
+            const chartData = ChartTransformer.transform(dataView, () => this.host.createSelectionIdBuilder());
+            this.selectionIdsByKey = chartData.selectionIdsByKey ?? new Map();
 
             if (!chartData.dataPoints.length) {
-                this.renderNoData();
+                this.renderNoData(width, height, dataView);
                 return;
             }
 
+            chartData.referenceMeasure = readReferenceMeasure(dataView);
+            chartData.annotations = readAnnotations(dataView, this.settings.annotations, { x: "xAxis", key: ["group"] });
             this.renderer.render(chartData, this.settings);
+
+            this.renderer.renderAccessibility(chartData);
+            this.bindInteractions();
+            // Outside the chart container, which each render pass sweeps, also when the user pans
+            if (loadResult.status === "truncated") {
+                renderTruncatedBadge(this.svg.append("g").classed("data-truncated-layer", true), width, loadResult.rowCount);
+            }
         } catch (error) {
             completed = false;
             eventService?.renderingFailed(options, error instanceof Error ? error.message : String(error));
@@ -115,8 +193,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "open", "high", "low", "close"], dataView),
+            illustration: "candles"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -146,6 +229,14 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createAnnotationsCard(this.settings.annotations));
+        cards.push(createCrosshairCard(this.settings.crosshair));
+        cards.push(createDataLoadingCard(this.settings.dataLoading));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
@@ -153,7 +244,8 @@ export class Visual implements IVisual {
             show: this.settings.showLegend,
             position: this.settings.legendPosition,
             fontSize: this.settings.textSizes.legendFontSize || this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createXAxisCard({
@@ -185,15 +277,24 @@ export class Visual implements IVisual {
         }));
 
         cards.push(createSmallMultiplesCard({
+            columns: this.settings.smallMultiples.columns,
+            autoColumns: this.settings.smallMultiples.autoColumns,
             spacing: this.settings.smallMultiples.spacing,
             showTitle: this.settings.smallMultiples.showTitle,
-            titleSpacing: this.settings.smallMultiples.titleSpacing
+            titleSpacing: this.settings.smallMultiples.titleSpacing,
+            overflow: this.settings.smallMultiples.overflow,
+            minPanelHeight: this.settings.smallMultiples.minPanelHeight,
+            sharedXScale: this.settings.smallMultiples.sharedXScale,
+            sharedYScale: this.settings.smallMultiples.sharedYScale,
+            outerAxesOnly: this.settings.smallMultiples.outerAxesOnly
         }));
 
         return { cards };
     }
 
     public destroy(): void {
+        this.viewState.flush();
+
         try {
             this.htmlTooltip?.destroy();
             this.htmlTooltip = null;
@@ -211,4 +312,39 @@ export class Visual implements IVisual {
         this.renderer = null;
         this.settings = null;
     }
+
+    private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: "[data-selection-key]"
+        });
+
+        this.applySelectionState = null;
+        if (!this.allowInteractions) {
+            return;
+        }
+
+        if (this.selectionIdsByKey.size > 0) {
+            const binding = bindSelectionByDataKey({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                markSelector: "[data-selection-key]",
+                selectionIdsByKey: this.selectionIdsByKey,
+                dimOpacity: 0.28,
+                selectedOpacity: 1
+            });
+            this.applySelectionState = binding.applySelection;
+            binding.applySelection(this.selectionManager.getSelectionIds());
+        }
+
+        this.svg.on("click", async (event: MouseEvent) => {
+            const target = event.target as Element | null;
+            if (target?.closest("[data-selection-key]")) {
+                return;
+            }
+
+            await this.selectionManager.clear();
+            this.applySelectionState?.([]);
+        });
+    }
 }
@@ -1,8 +1,8 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, formatMeasureValue, AccessibleSummary, summarizeChartData, localize, localizeFormat, computeSmallMultiplesGrid, getOthersLabel, ALL_GROUP, getGroupLabel } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData } from "./ChartTransformer";
+import { IChartData, getChordGroupKey, getChordRibbonKey } from "./ChartTransformer";
 
 declare const require: any;
 const chordLib = require("d3-chord");
@@ -12,7 +12,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         if (!chartData.groups.length) {
@@ -21,20 +21,36 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         }
 
         const groups = chartData.groups;
-        const margin = { top: 24, right: 10, bottom: 10, left: 10 };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(220, this.context.width - margin.left - margin.right);
-        const height = Math.max(180, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+        const margin = { top: groups.length > 1 ? 10 : 24, right: 10, bottom: 10, left: 10 };
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(220, this.context.width - margin.left - margin.right),
+            height: Math.max(180, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const width = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
+
+        // The Top-N "Others" entity takes the card's color in every panel.
+        const othersColors = chartData.othersByGroup
+            ? new Map([[getOthersLabel(settings.topN), settings.topN.othersColor]])
+            : undefined;
+
+        // A shared color scale keeps an entity's color the same in every panel.
+        const sharedColorScale = smallMultiples.sharedColorScale
+            ? this.getCategoryColors(Array.from(new Set(groups.flatMap((groupName) => chartData.matricesByGroup.get(groupName)?.names ?? []))), othersColors)
+            : null;
 
         groups.forEach((groupName, groupIndex) => {
             const def = chartData.matricesByGroup.get(groupName);
             if (!def || def.names.length < 2) return;
 
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const labelSpace = Math.max(40, Math.min(70, width * 0.08));
             const radius = Math.max(52, Math.min(width, panelHeight) / 2 - labelSpace);
@@ -45,56 +61,120 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             const chord = chordLib.chord().padAngle(0.04).sortSubgroups((a: number, b: number) => b - a);
             const chords = chord(def.matrix);
-            const colorScale = this.getCategoryColors(def.names);
+            const colorScale = sharedColorScale ?? this.getCategoryColors(def.names, othersColors);
 
-            const g = panel.append("g").attr("transform", "translate(" + Math.round(cx) + "," + Math.round(cy) + ")");
+            const g = this.getLayer(panel, "chord", (layer) => layer
+                .attr("transform", "translate(" + Math.round(cx) + "," + Math.round(cy) + ")"));
 
             const arc = d3.arc<any>().innerRadius(inner).outerRadius(radius);
             const ribbon = chordLib.ribbon().radius(inner);
+            const hasHighlights = chartData.hasHighlights;
+            const ribbonOpacity = hasHighlights ? 0.42 * DIMMED_HIGHLIGHT_OPACITY : 0.42;
+            const cellShare = (i: number, j: number): number => {
+                const full = def.matrix[i][j];
+                return full > 0 ? Math.min(1, def.highlightMatrix[i][j] / full) : 0;
+            };
+            const groupShare = (i: number): number => {
+                const full = def.matrix[i].reduce((sum, v) => sum + v, 0);
+                const highlighted = def.highlightMatrix[i].reduce((sum, v) => sum + v, 0);
+                return full > 0 ? Math.min(1, highlighted / full) : 0;
+            };
+            const shrinkAngles = <T extends { startAngle: number; endAngle: number }>(d: T, share: number): T => ({
+                ...d,
+                endAngle: d.startAngle + (d.endAngle - d.startAngle) * share
+            });
+
+            // fx rules color ribbons (one per flow row); arcs keep the palette.
+            const ribbonColor = (d: any): string =>
+                this.getRuleColor(chartData, getChordRibbonKey(groupName, def.names[d.source.index], def.names[d.target.index]))
+                ?? colorScale(def.names[d.source.index]);
 
             // Render ribbons first (behind arcs)
-            const ribbonPaths = g.selectAll("path.ribbon")
-                .data(chords)
-                .join("path")
-                .attr("class", "ribbon mark")
+            const ribbonKey = (d: any): string => getChordRibbonKey(groupName, def.names[d.source.index], def.names[d.target.index]);
+            const ribbonPaths = this.joinMarks<SVGPathElement, any>(g, "path.ribbon", chords, ribbonKey, (path) => path
                 .attr("d", ribbon as any)
-                .attr("fill", (d: any) => colorScale(def.names[d.source.index]))
-                .attr("fill-opacity", 0.42)
+                .attr("fill", (d: any) => ribbonColor(d))
+                .attr("fill-opacity", ribbonOpacity))
+                .classed("mark", true)
+                .attr("data-selection-key", ribbonKey)
                 .attr("stroke", "none")
                 .each((d: any, i: number, nodes: any[]) => {
                     const source = def.names[d.source.index];
                     const target = def.names[d.target.index];
-                    this.addTooltip(d3.select(nodes[i]) as any, [
-                        { displayName: "Source", value: source, color: colorScale(source) },
-                        { displayName: "Target", value: target, color: colorScale(target) },
-                        { displayName: "Value", value: formatMeasureValue(d.source.value, chartData.valueFormatString) }
-                    ], {
+                    const tooltipRows = [
+                        { displayName: localize("Visual_Source"), value: source, color: colorScale(source) },
+                        { displayName: localize("Visual_Target"), value: target, color: colorScale(target) },
+                        { displayName: localize("Visual_Value"), value: this.formatTooltipValue(d.source.value, chartData.valueFormatString) }
+                    ];
+                    if (hasHighlights) {
+                        tooltipRows.push({
+                            displayName: localize("Visual_Highlighted"),
+                            value: this.formatTooltipValue(def.highlightMatrix[d.source.index][d.target.index], chartData.valueFormatString)
+                        });
+                    }
+                    this.addTooltip(d3.select(nodes[i]) as any, tooltipRows, {
                         title: source + " \u2192 " + target,
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color: colorScale(source)
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                        color: ribbonColor(d)
                     });
                 });
 
+            // Highlighted share of each ribbon, narrowed at both ends over the dimmed full ribbon
+            if (hasHighlights) {
+                const highlightLayer = this.getLayer(g, "ribbon-highlight-layer").style("pointer-events", "none");
+                this.joinMarks<SVGPathElement, any>(
+                    highlightLayer,
+                    "path.highlight",
+                    chords.filter((d: any) => cellShare(d.source.index, d.target.index) > 0),
+                    ribbonKey,
+                    (path) => path
+                        .attr("d", (d: any) => {
+                            const share = cellShare(d.source.index, d.target.index);
+                            return ribbon({ source: shrinkAngles(d.source, share), target: shrinkAngles(d.target, share) });
+                        })
+                        .attr("fill", (d: any) => ribbonColor(d))
+                )
+                    .attr("data-selection-key", ribbonKey)
+                    .attr("fill-opacity", 0.42)
+                    .attr("stroke", "none");
+            }
+
             // Render arcs (on top of ribbons)
-            const arcPaths = g.selectAll("path.group")
-                .data(chords.groups)
-                .join("path")
-                .attr("class", "group mark")
+            const groupKey = (d: any): string => getChordGroupKey(groupName, def.names[d.index]);
+            const arcPaths = this.joinMarks<SVGPathElement, any>(g, "path.group", chords.groups, groupKey, (path) => path
                 .attr("d", arc as any)
                 .attr("fill", (d: any) => colorScale(def.names[d.index]))
+                .attr("fill-opacity", hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1))
+                .classed("mark", true)
+                .attr("data-selection-key", groupKey)
                 .attr("stroke", "#ffffff")
                 .attr("stroke-width", 0.8)
                 .each((d: any, i: number, nodes: any[]) => {
                     this.addTooltip(d3.select(nodes[i]) as any, [
-                        { displayName: "Category", value: def.names[d.index], color: colorScale(def.names[d.index]) },
-                        { displayName: "Total", value: formatMeasureValue(d.value, chartData.valueFormatString) }
+                        { displayName: localize("Visual_Category"), value: def.names[d.index], color: colorScale(def.names[d.index]) },
+                        { displayName: localize("Visual_Total"), value: this.formatTooltipValue(d.value, chartData.valueFormatString) },
+                        ...this.getOthersTooltipRows(chartData, groupName, getChordGroupKey(groupName, def.names[d.index]))
                     ], {
                         title: def.names[d.index],
-                        subtitle: groupName !== "All" ? groupName : undefined,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                         color: colorScale(def.names[d.index])
                     });
                 });
 
+            if (hasHighlights) {
+                const highlightLayer = this.getLayer(g, "arc-highlight-layer").style("pointer-events", "none");
+                this.joinMarks<SVGPathElement, any>(
+                    highlightLayer,
+                    "path.highlight",
+                    chords.groups.filter((d: any) => groupShare(d.index) > 0),
+                    groupKey,
+                    (path) => path
+                        .attr("d", (d: any) => arc(shrinkAngles(d, groupShare(d.index))))
+                        .attr("fill", (d: any) => colorScale(def.names[d.index]))
+                )
+                    .attr("data-selection-key", groupKey);
+            }
+
             // Hover interaction: highlight connected ribbons
             arcPaths
                 .on("mouseenter", (_event: any, d: any) => {
@@ -105,7 +185,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     arcPaths.attr("opacity", (a: any) => a.index === idx ? 1 : 0.4);
                 })
                 .on("mouseleave", () => {
-                    ribbonPaths.attr("fill-opacity", 0.42);
+                    ribbonPaths.attr("fill-opacity", ribbonOpacity);
                     arcPaths.attr("opacity", 1);
                 });
 
@@ -121,7 +201,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     );
                 })
                 .on("mouseleave", () => {
-                    ribbonPaths.attr("fill-opacity", 0.42);
+                    ribbonPaths.attr("fill-opacity", ribbonOpacity);
                     arcPaths.attr("opacity", 1);
                 });
 
@@ -155,29 +235,48 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 }
             }
 
-            g.selectAll("text.label")
-                .data(chords.groups)
-                .join("text")
-                .attr("class", "label")
+            this.joinMarks<SVGTextElement, any>(g, "text.label", chords.groups, (d: any) => def.names[d.index], (text) => text
                 .attr("transform", (_d: any, i: number) => {
                     const p = labelPositions[i];
                     return "translate(" + Math.round(p.x) + "," + Math.round(p.adjustedY) + ")";
                 })
+                .attr("fill", settings.xAxisColor || "#374151")
+                .attr("opacity", (_d: any, i: number) => labelPositions[i].arcAngle >= minArcAngle ? 1 : 0))
                 .attr("text-anchor", (_d: any, i: number) => labelPositions[i].isLeft ? "end" : "start")
                 .attr("dominant-baseline", "central")
                 .attr("font-size", fontSize + "px")
-                .attr("fill", settings.xAxisColor || "#374151")
-                .attr("opacity", (_d: any, i: number) => labelPositions[i].arcAngle >= minArcAngle ? 1 : 0)
                 .text((d: any) => def.names[d.index]);
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_ChordDiagram");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const summary = summarizeChartData(data, this.getAccessibleChartType(), {
+            describeLocation: (point) => `${point.xValue} \u2192 ${point.yValue}`,
+            includeTable: false
+        });
+        summary.table = this.buildAccessibleTable(() => ({
+            caption: localizeFormat("Visual_A11y_TableCaption", this.getAccessibleChartType()),
+            columns: [localize("Visual_Group"), localize("Visual_Source"), localize("Visual_Target"), data.valueDisplayName ?? localize("Visual_Value")],
+            rows: data.dataPoints.map((point) => [
+                getGroupLabel(point.groupValue),
+                point.xValue,
+                point.yValue,
+                formatMeasureValue(point.value, data.valueFormatString)
+            ])
+        }));
+        return summary;
+    }
 }
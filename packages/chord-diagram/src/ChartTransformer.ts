@@ -2,20 +2,54 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    getHighlightedRowValue,
+    localize,
+    ITopNSettings,
+    TopNOthers,
+    selectTopN,
+    collectOthers,
+    getOthersLabel,
+    setOthersForKey,
+    addOthersSelectionIds,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IChordGroup {
     names: string[];
     matrix: number[][];
+    // Highlighted share of each `matrix` cell; equal to `matrix` when no highlights are active.
+    highlightMatrix: number[][];
 }
 
 export interface IChartData extends ChartData {
     matricesByGroup: Map<string, IChordGroup>;
+    hasHighlights: boolean;
     valueFormatString?: string;
 }
 
+export function getChordGroupKey(group: string, name: string): string {
+    return group + "\u001fnode\u001f" + name;
+}
+
+// Ribbons are undirected, so both directions of a flow share one key.
+export function getChordRibbonKey(group: string, a: string, b: string): string {
+    const [first, second] = a <= b ? [a, b] : [b, a];
+    return group + "\u001flink\u001f" + first + "\u001f" + second;
+}
+
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -24,7 +58,8 @@ export class ChartTransformer {
             groups: [],
             maxValue: 0,
             minValue: 0,
-            matricesByGroup: new Map()
+            matricesByGroup: new Map(),
+            hasHighlights: false
         };
 
         if (!categorical?.categories?.length || !categorical.values?.length) return empty;
@@ -36,28 +71,48 @@ export class ChartTransformer {
 
         if (!sourceCol || !targetCol || !valueCol) return empty;
 
+        const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
         const flowsByGroup = new Map<string, Map<string, number>>();
+        const highlightedFlowsByGroup = new Map<string, Map<string, number>>();
         const nodesByGroup = new Map<string, Set<string>>();
         const dataPoints: DataPoint[] = [];
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
         let maxValue = 0;
 
         for (let i = 0; i < valueCol.values.length; i++) {
-            const source = String(sourceCol.values[i] ?? "(Blank)");
-            const target = String(targetCol.values[i] ?? "(Blank)");
+            const source = String(sourceCol.values[i] ?? localize("Visual_Blank"));
+            const target = String(targetCol.values[i] ?? localize("Visual_Blank"));
             const value = Number(valueCol.values[i]);
             if (!Number.isFinite(value)) continue;
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
 
             const key = source + "\u001f" + target;
             const map = flowsByGroup.get(group) ?? new Map<string, number>();
             map.set(key, (map.get(key) ?? 0) + value);
             flowsByGroup.set(group, map);
 
+            const highlightedMap = highlightedFlowsByGroup.get(group) ?? new Map<string, number>();
+            const highlightedValue = Math.max(0, getHighlightedRowValue(highlightState, valueCol, i, value));
+            highlightedMap.set(key, (highlightedMap.get(key) ?? 0) + highlightedValue);
+            highlightedFlowsByGroup.set(group, highlightedMap);
+
             const set = nodesByGroup.get(group) ?? new Set<string>();
             set.add(source);
             set.add(target);
             nodesByGroup.set(group, set);
 
+            if (createSelectionIdBuilder) {
+                const selectionId = createCategoryRowSelectionId(createSelectionIdBuilder, [sourceCol, targetCol, groupCol], i);
+                addSelectionIdForKey(selectionIdsByKey, getChordRibbonKey(group, source, target), selectionId);
+                addSelectionIdForKey(selectionIdsByKey, getChordGroupKey(group, source), selectionId);
+                if (target !== source) {
+                    addSelectionIdForKey(selectionIdsByKey, getChordGroupKey(group, target), selectionId);
+                }
+            addRuleColorForKey(ruleColorsByKey, getChordRibbonKey(group, source, target), ruleColors.getRowColor(i));
+            }
+
             dataPoints.push({ xValue: source, yValue: target, value, groupValue: group, index: i });
             maxValue = Math.max(maxValue, value);
         }
@@ -68,6 +123,8 @@ export class ChartTransformer {
             const indexByName = new Map<string, number>();
             names.forEach((n, idx) => indexByName.set(n, idx));
             const matrix = names.map(() => names.map(() => 0));
+            const highlightMatrix = names.map(() => names.map(() => 0));
+            const highlightedFlows = highlightedFlowsByGroup.get(group) ?? new Map<string, number>();
 
             for (const [key, value] of flowMap.entries()) {
                 const sep = key.indexOf("\u001f");
@@ -78,9 +135,12 @@ export class ChartTransformer {
                 if (i === undefined || j === undefined) continue;
                 matrix[i][j] += value;
                 matrix[j][i] += value;
+                const highlighted = highlightedFlows.get(key) ?? 0;
+                highlightMatrix[i][j] += highlighted;
+                highlightMatrix[j][i] += highlighted;
             }
 
-            matricesByGroup.set(group, { names, matrix });
+            matricesByGroup.set(group, { names, matrix, highlightMatrix });
         }
 
         return {
@@ -91,7 +151,73 @@ export class ChartTransformer {
             maxValue,
             minValue: 0,
             matricesByGroup,
-            valueFormatString: (valueCol.source as any)?.format as string | undefined
+            hasHighlights: highlightState.hasIncomingHighlights,
+            valueFormatString: (valueCol.source as any)?.format as string | undefined,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
+
+    /**
+     * Folds the entities the Top-N card leaves out into one "Others" entity per group, summing
+     * their rows and columns of the matrix; flows among them become Others' own chord. Entities
+     * are ranked by their total flow over all groups.
+     */
+    public static applyTopN(data: IChartData, settings: ITopNSettings): void {
+        const totals = new Map<string, number>();
+        data.matricesByGroup.forEach(({ names, matrix }) => {
+            names.forEach((name, i) => totals.set(name, (totals.get(name) ?? 0) + matrix[i].reduce((sum, v) => sum + v, 0)));
+        });
+        const kept = selectTopN(totals, settings);
+        if (!kept) {
+            return;
+        }
+
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        const selectionIdsByKey = data.selectionIdsByKey ?? new Map();
+        data.matricesByGroup.forEach((def, group) => {
+            const others = settings.showOthers
+                ? collectOthers(def.names.map((name, i) => [name, def.matrix[i].reduce((sum, v) => sum + v, 0)] as [string, number]), kept, settings)
+                : null;
+            const names = def.names.filter((name) => kept.has(name));
+            if (others) names.push(others.label);
+            const indexByName = new Map(names.map((name, idx) => [name, idx]));
+            const target = (name: string): number | undefined => indexByName.get(kept.has(name) ? name : others?.label ?? "");
+
+            const matrix = names.map(() => names.map(() => 0));
+            const highlightMatrix = names.map(() => names.map(() => 0));
+            const memberKeys = new Map<string, string[]>();
+            def.names.forEach((a, i) => def.names.forEach((b, j) => {
+                const ni = target(a);
+                const nj = target(b);
+                if (ni === undefined || nj === undefined) return;
+                matrix[ni][nj] += def.matrix[i][j];
+                highlightMatrix[ni][nj] += def.highlightMatrix[i][j];
+
+                const key = getChordRibbonKey(group, names[ni], names[nj]);
+                if (i <= j && def.matrix[i][j] && key !== getChordRibbonKey(group, a, b)) {
+                    memberKeys.set(key, [...(memberKeys.get(key) ?? []), getChordRibbonKey(group, a, b)]);
+                }
+            }));
+            memberKeys.forEach((keys, key) => addOthersSelectionIds(selectionIdsByKey, key, keys));
+
+            if (others) {
+                const groupKey = getChordGroupKey(group, others.label);
+                setOthersForKey(othersByGroup, group, groupKey, others);
+                addOthersSelectionIds(selectionIdsByKey, groupKey, others.members.map((m) => getChordGroupKey(group, m.name)));
+            }
+            data.matricesByGroup.set(group, { names, matrix, highlightMatrix });
+        });
+
+        const othersLabel = getOthersLabel(settings);
+        const relabel = (name: string): string | null => (kept.has(name) ? name : settings.showOthers ? othersLabel : null);
+        data.dataPoints = data.dataPoints.flatMap((point) => {
+            const xValue = relabel(point.xValue);
+            const yValue = relabel(point.yValue);
+            return xValue !== null && yValue !== null ? [{ ...point, xValue, yValue }] : [];
+        });
+        data.xValues = Array.from(new Set(data.dataPoints.map((d) => d.xValue)));
+        data.yValues = Array.from(new Set(data.dataPoints.map((d) => d.yValue)));
+        data.othersByGroup = othersByGroup;
+    }
 }
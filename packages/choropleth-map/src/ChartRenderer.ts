@@ -1,8 +1,8 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, ValueColorScale, localize, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData } from "./ChartTransformer";
+import { IChartData, getLocationSelectionKey } from "./ChartTransformer";
 
 declare const require: any;
 const topojson = require("topojson-client");
@@ -30,7 +30,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         if (!chartData.groups.length) {
@@ -39,73 +39,136 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         }
 
         const groups = chartData.groups;
-        const margin = { top: 24, right: 10, bottom: 10, left: 10 };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(260, this.context.width - margin.left - margin.right);
-        const height = Math.max(160, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+
+        // Classed scales share one set of classes across panels so a single stepped legend fits all;
+        // a continuous scale is shared only when the small-multiples setting asks for it.
+        const classedScale = settings.colorScale.classification !== "continuous"
+            ? this.getSharedColorScale(chartData)
+            : undefined;
+        const sharedColorScale = classedScale ?? (smallMultiples.sharedColorScale ? this.getSharedColorScale(chartData) : undefined);
+        const classLabels = classedScale && settings.showLegend
+            ? this.getClassLegendLabels(classedScale, chartData.valueFormatString)
+            : [];
+        const legendReserve = classLabels.length
+            ? this.getLegendReservation({ isOrdinal: true, categories: classLabels })
+            : { top: 0, right: 0, bottom: 0, left: 0 };
+
+        const margin = {
+            top: (groups.length > 1 ? 10 : 24) + legendReserve.top,
+            right: 10 + legendReserve.right,
+            bottom: 10 + legendReserve.bottom,
+            left: 10 + legendReserve.left
+        };
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(260, this.context.width - margin.left - margin.right),
+            height: Math.max(160, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.8,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const width = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
 
         const features = topojson.feature(worldAtlas, worldAtlas.objects.countries).features;
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const valueMap = chartData.valuesByGroup.get(groupName) ?? new Map<string, number>();
 
             const projectedValues = new Map<string, number>();
+            const projectedSelectionKeys = new Map<string, string>();
             valueMap.forEach((value, normLocation) => {
                 const id = normalizedNameToId.get(normLocation) ?? normLocation;
                 projectedValues.set(String(id), value);
+                projectedSelectionKeys.set(String(id), getLocationSelectionKey(groupName, normLocation));
             });
 
-            const values = Array.from(projectedValues.values());
+            // Top-N "Others" locations share one color, so they stay out of the color scale.
+            const othersByKey = chartData.othersByGroup?.get(groupName);
+            const isOthers = (id: string): boolean => !!othersByKey?.has(projectedSelectionKeys.get(id) ?? "");
+            const values = Array.from(projectedValues.entries()).filter(([id]) => !isOthers(id)).map(([, value]) => value);
             const min = values.length ? Math.min(...values) : 0;
             const max = values.length ? Math.max(...values) : 1;
-            const colorScale = this.getColorScale(min, max || min + 1);
+            const colorScale = sharedColorScale ?? this.getValueColorScale(min, max || min + 1, { values });
 
             const projection = d3Geo.geoNaturalEarth1();
             projection.fitSize([width, panelHeight], { type: "FeatureCollection", features });
             const path = d3Geo.geoPath(projection);
 
-            panel.selectAll("path.mark")
-                .data(features)
-                .join("path")
-                .attr("class", "mark")
-                .attr("d", path)
-                .attr("fill", (f: any) => {
-                    const id = String(f.id);
-                    const v = projectedValues.get(id);
-                    return Number.isFinite(v) ? colorScale(v) : "#e5e7eb";
+            // An fx rule result wins over the sequential scale; unmatched shapes stay neutral grey.
+            const featureFill = (id: string): string => {
+                const ruleColor = this.getRuleColor(chartData, projectedSelectionKeys.get(id));
+                if (ruleColor) return ruleColor;
+                if (isOthers(id)) return settings.topN.othersColor;
+                const v = projectedValues.get(id);
+                return Number.isFinite(v) ? colorScale(v as number) : "#e5e7eb";
+            };
+
+            // Shapes recolor in place; their outlines are set at once, as tweening them is costly.
+            this.joinMarks<SVGPathElement, any>(panel, "path.mark", features, (f: any, i) => f.id !== undefined ? String(f.id) : "#" + i, (shape) => shape
+                .attr("fill", (f: any) => featureFill(String(f.id))))
+                .attr("data-selection-key", (f: any) => projectedSelectionKeys.get(String(f.id)) ?? null)
+                .attr("data-legend-key", (f: any) => {
+                    const v = projectedValues.get(String(f.id));
+                    return classedScale && Number.isFinite(v) && !isOthers(String(f.id)) ? this.getClassLegendKey(classedScale, classLabels, v as number) : null;
                 })
+                .attr("d", path)
                 .attr("stroke", "#9ca3af")
                 .attr("stroke-width", 0.4)
                 .each((f: any, i: number, nodes: any[]) => {
                     const id = String(f.id);
                     const value = projectedValues.get(id);
                     const country = idToName.get(id) || "Unknown";
-                    const fill = Number.isFinite(value) ? colorScale(value as number) : "#e5e7eb";
+                    const fill = featureFill(id);
+                    const selectionKey = projectedSelectionKeys.get(id);
+                    const others = selectionKey ? othersByKey?.get(selectionKey) : undefined;
 
                     this.addTooltip(d3.select(nodes[i]) as any, [
-                        { displayName: "Location", value: country, color: fill },
-                        { displayName: "Value", value: Number.isFinite(value) ? formatMeasureValue(value as number, chartData.valueFormatString) : "(No Data)" }
+                        { displayName: localize("Visual_Location"), value: country, color: fill },
+                        { displayName: localize("Visual_Value"), value: Number.isFinite(value) ? this.formatTooltipValue(value as number, chartData.valueFormatString) : "(No Data)" },
+                        ...(others ? [{ displayName: others.label, value: this.formatTooltipValue(others.value, chartData.valueFormatString) }] : []),
+                        ...this.getOthersTooltipRows(chartData, groupName, selectionKey)
                     ], {
                         title: country,
-                        subtitle: groupName !== "All" ? groupName : undefined,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                         color: fill
                     });
                 });
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
+
+        if (classedScale && classLabels.length) {
+            this.renderLegend(classedScale, 0, true, classLabels);
+        }
+    }
+
+    private getSharedColorScale(chartData: IChartData): ValueColorScale {
+        const values: number[] = [];
+        chartData.valuesByGroup.forEach((valueMap, groupName) => {
+            const othersByKey = chartData.othersByGroup?.get(groupName);
+            valueMap.forEach((value, location) => {
+                if (Number.isFinite(value) && !othersByKey?.has(getLocationSelectionKey(groupName, location))) values.push(value);
+            });
+        });
+        const min = values.length ? Math.min(...values) : 0;
+        const max = values.length ? Math.max(...values) : 1;
+        return this.getValueColorScale(min, max || min + 1, { values });
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_ChoroplethMap");
     }
 }
@@ -2,7 +2,24 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    formatGroupValue,
+    localize,
+    ITopNSettings,
+    TopNOthers,
+    selectTopN,
+    collectOthers,
+    setOthersForKey,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IChartData extends ChartData {
     valuesByGroup: Map<string, Map<string, number>>;
@@ -17,8 +34,12 @@ function normalizeLocation(name: string): string {
         .trim();
 }
 
+export function getLocationSelectionKey(group: string, normalizedLocation: string): string {
+    return group + "\u001f" + normalizedLocation;
+}
+
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -41,6 +62,9 @@ export class ChartTransformer {
         const valuesByGroup = new Map<string, Map<string, number>>();
         const dataPoints: DataPoint[] = [];
         const groupsSet = new Set<string>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
         let maxValue = Number.NEGATIVE_INFINITY;
         let minValue = Number.POSITIVE_INFINITY;
 
@@ -48,14 +72,22 @@ export class ChartTransformer {
             const value = Number(valueCol.values[i]);
             if (!Number.isFinite(value)) continue;
 
-            const rawLocation = String(locationCol.values[i] ?? "(Blank)");
+            const rawLocation = String(locationCol.values[i] ?? localize("Visual_Blank"));
             const location = normalizeLocation(rawLocation);
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
             groupsSet.add(group);
 
             const bucket = valuesByGroup.get(group) ?? new Map<string, number>();
             bucket.set(location, (bucket.get(location) ?? 0) + value);
             valuesByGroup.set(group, bucket);
+            if (createSelectionIdBuilder) {
+                addSelectionIdForKey(
+                    selectionIdsByKey,
+                    getLocationSelectionKey(group, location),
+                    createCategoryRowSelectionId(createSelectionIdBuilder, [locationCol, groupCol], i)
+                );
+            }
+            addRuleColorForKey(ruleColorsByKey, getLocationSelectionKey(group, location), ruleColors.getRowColor(i));
 
             dataPoints.push({ xValue: rawLocation, yValue: group, value, groupValue: group, index: i });
             maxValue = Math.max(maxValue, value);
@@ -73,7 +105,47 @@ export class ChartTransformer {
             maxValue,
             minValue,
             valuesByGroup,
-            valueFormatString: (valueCol.source as any)?.format as string | undefined
+            valueFormatString: (valueCol.source as any)?.format as string | undefined,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
+
+    /**
+     * Applies the Top-N card to the locations, ranked by their total over all groups. Shapes
+     * cannot be merged, so with "Others" on the locations left out keep their values but are
+     * recorded as members of their group's Others item, which the renderer draws in one color
+     * outside the color scale; with it off they are dropped and draw as unmatched.
+     */
+    public static applyTopN(data: IChartData, settings: ITopNSettings): void {
+        const totals = new Map<string, number>();
+        data.valuesByGroup.forEach((valueMap) => {
+            valueMap.forEach((value, location) => totals.set(location, (totals.get(location) ?? 0) + value));
+        });
+        const kept = selectTopN(totals, settings);
+        if (!kept) {
+            return;
+        }
+
+        const displayNames = new Map(data.dataPoints.map((point) => [normalizeLocation(point.xValue), point.xValue]));
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        data.valuesByGroup.forEach((valueMap, group) => {
+            const others = settings.showOthers ? collectOthers(valueMap, kept, settings) : null;
+            Array.from(valueMap.keys()).filter((location) => !kept.has(location)).forEach((location) => {
+                if (others) {
+                    setOthersForKey(othersByGroup, group, getLocationSelectionKey(group, location), others);
+                } else {
+                    valueMap.delete(location);
+                }
+            });
+            if (others) {
+                others.members = others.members.map((member) => ({ ...member, name: displayNames.get(member.name) ?? member.name }));
+            }
+        });
+        if (!settings.showOthers) {
+            data.dataPoints = data.dataPoints.filter((point) => kept.has(normalizeLocation(point.xValue)));
+            data.xValues = Array.from(new Set(data.dataPoints.map((d) => d.xValue)));
+        }
+        data.othersByGroup = othersByGroup;
+    }
 }
@@ -6,20 +6,36 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    ITopNSettings,
+    defaultTopNSettings,
+    parseTopNSettings,
+    IColorScaleSettings,
+    defaultColorScaleSettings,
+    parseColorScaleSettings,
     defaultTextSizeSettings,
     ITextSizeSettings,
     TooltipStyle,
-    TooltipTheme
+    TooltipTheme,
+    parseSmallMultiplesGridSettings
 } from "@pbi-visuals/shared";
 
 export interface IVisualSettings extends IBaseVisualSettings {
     showLegend: boolean;
+    colorScale: IColorScaleSettings;
     textSizes: ITextSizeSettings;
+    topN: ITopNSettings;
 }
 
 export const defaultSettings: IVisualSettings = {
@@ -27,6 +43,7 @@ export const defaultSettings: IVisualSettings = {
     legendPosition: defaultLegendSettings.legendPosition as LegendPosition,
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showLegend: true,
     showXAxis: true,
     xAxisFontSize: 10,
@@ -44,6 +61,11 @@ export const defaultSettings: IVisualSettings = {
     yAxisColor: "#374151",
     rotateXLabels: "auto" as RotateLabelsMode,
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    topN: { ...defaultTopNSettings },
+    colorScale: { ...defaultColorScaleSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     smallMultiples: { ...defaultSmallMultiplesSettings },
@@ -110,12 +132,19 @@ export function parseSettings(dataView: DataView): IVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.topN = parseTopNSettings(objects);
+    settings.colorScale = parseColorScaleSettings(objects);
+
     const legendObj = objects["legend"];
     if (legendObj) {
         settings.showLegend = (legendObj["show"] as boolean) ?? defaultSettings.showLegend;
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     const textSizesObj = objects["textSizes"];
@@ -143,6 +172,7 @@ export function parseSettings(dataView: DataView): IVisualSettings {
         settings.smallMultiples.titleFontSize = Math.max(6, Math.min(40, Number(settings.smallMultiples.titleFontSize) || defaultSettings.smallMultiples.titleFontSize));
         settings.smallMultiples.titleSpacing = Math.max(10, Math.min(120, Number(settings.smallMultiples.titleSpacing) || defaultSettings.smallMultiples.titleSpacing));
     }
+    settings.smallMultiples = parseSmallMultiplesGridSettings(objects, settings.smallMultiples);
 
     return settings;
 }
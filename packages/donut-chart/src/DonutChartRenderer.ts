@@ -7,7 +7,8 @@ import {
     ChartData,
     formatLabel,
     measureTextWidth,
-    formatMeasureValue
+    localize,
+    ALL_GROUP
 } from "@pbi-visuals/shared";
 import { IDonutVisualSettings } from "./settings";
 import { DonutChartData } from "./DonutChartTransformer";
@@ -29,7 +30,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IDonutVisualSettings): void {
+    protected draw(data: ChartData, settings: IDonutVisualSettings): void {
         this.settings = settings;
         const donutData = data as DonutChartData;
         this.valueFormatString = donutData.valueFormatString;
@@ -40,7 +41,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
             return;
         }
 
-        const groups = donutData.groups.length ? donutData.groups : ["All"];
+        const groups = donutData.groups.length ? donutData.groups : [ALL_GROUP];
         const categories = donutData.xValues;
         const groupCount = groups.length;
 
@@ -55,7 +56,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -98,7 +99,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
             return;
         }
 
-        const colorScale = this.getCategoryColors(categories, donutData.categoryColorMap);
+        const colorScale = this.getCategoryColors(categories, this.withRuleColors(donutData, donutData.categoryColorMap));
         const sliceStrokeColor = this.isHighContrastMode() ? this.getThemeBackground("#ffffff") : "#ffffff";
         const labelTextColor = this.getThemeForeground("#111827");
         const connectorStrokeColor = this.isHighContrastMode() ? this.getThemeForeground("#111827") : "rgba(17,24,39,0.35)";
@@ -124,12 +125,10 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
             const panelX = margin.left + columnIndex * (panelWidth + horizontalPanelGap);
             const panelY = margin.top + rowIndex * (panelHeight + verticalPanelGap);
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "donut-panel")
-                .attr("transform", `translate(${Math.round(panelX)}, ${Math.round(panelY)})`);
+            const panelGroup = this.getPanel(groupName, Math.round(panelX), Math.round(panelY), "donut-panel");
 
             // Group title
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleBase = settings.smallMultiples.titleFontSize;
                 const titleRequested = settings.textSizes.panelTitleFontSize > 0 ? settings.textSizes.panelTitleFontSize : titleBase;
@@ -145,7 +144,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }], { title: groupName });
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }], { title: groupName });
                 }
             }
 
@@ -187,20 +186,17 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                 .innerRadius(settings.donutLabels.labelPosition === "inside" ? (innerRadius + (radius - innerRadius) * 0.55) : (radius + 14))
                 .outerRadius(settings.donutLabels.labelPosition === "inside" ? (innerRadius + (radius - innerRadius) * 0.55) : (radius + 14));
 
-            const g = panelGroup.append("g")
-                .attr("transform", `translate(${Math.round(centerX)}, ${Math.round(centerY)})`);
+            const g = this.getLayer(panelGroup, "donut", (layer) => layer
+                .attr("transform", `translate(${Math.round(centerX)}, ${Math.round(centerY)})`));
 
             const arcs = pie(segments);
 
             // SVG rendering
-            const paths = g.append("g")
-                .selectAll("path")
-                .data(arcs)
-                .join("path")
-                .attr("class", "donut-slice")
+            // Slices are keyed by category, so a changed share reshapes the same slice.
+            const paths = this.joinMarks<SVGPathElement, d3.PieArcDatum<Segment>>(this.getLayer(g, "donut-slices"), "path.donut-slice", arcs, d => d.data.category, path => path
+                .attr("d", d => arc(d))
+                .attr("fill", d => colorScale(d.data.category)))
                 .attr("data-selection-key", d => d.data.category)
-                .attr("fill", d => colorScale(d.data.category))
-                .attr("d", arc as any)
                 .attr("stroke", sliceStrokeColor)
                 .attr("stroke-width", 1);
 
@@ -208,9 +204,10 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                 const color = colorScale(d.data.category);
                 const percent = total > 0 ? (d.data.value / total) : 0;
                 const tooltipData = [
-                    { displayName: this.valueDisplayName || "Value", value: formatMeasureValue(d.data.value, this.valueFormatString), color },
-                    { displayName: "Percent", value: `${(percent * 100).toFixed(1)}%`, color },
-                    ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
+                    { displayName: this.valueDisplayName || localize("Visual_Value"), value: this.formatTooltipValue(d.data.value, this.valueFormatString), color },
+                    { displayName: localize("Visual_Percent"), value: `${(percent * 100).toFixed(1)}%`, color },
+                    ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : []),
+                    ...this.getOthersTooltipRows(donutData, groupName, d.data.category)
                 ];
                 const subtitle = `${(percent * 100).toFixed(1)}%`;
                 this.addTooltip(d3.select(nodes[i]) as any, tooltipData, { title: d.data.category, subtitle, color });
@@ -376,7 +373,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                         }
 
                         if (primaryText !== p.primary) {
-                            this.addTooltip(text as any, [{ displayName: "Category", value: p.arc.data.category }], { title: p.arc.data.category, color: p.color });
+                            this.addTooltip(text as any, [{ displayName: localize("Visual_Category"), value: p.arc.data.category }], { title: p.arc.data.category, color: p.color });
                         }
                     });
                 };
@@ -552,7 +549,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                         .attr("y", centerValueFontSize * 0.9)
                         .attr("font-size", `${centerValueFontSize}px`)
                         .attr("fill", this.getThemeForeground("#111827"))
-                        .text(formatMeasureValue(total, this.valueFormatString));
+                        .text(this.getValueFormatter("label", this.valueFormatString)(total));
                 }
             }
         });
@@ -576,7 +573,7 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
             case "category":
                 return d.data.category;
             case "value":
-                return formatMeasureValue(d.data.value, this.valueFormatString);
+                return this.getValueFormatter("label", this.valueFormatString)(d.data.value);
             case "percent":
                 return `${Math.round(percent * 100)}%`;
             case "categoryPercent":
@@ -594,4 +591,8 @@ export class DonutChartRenderer extends BaseRenderer<IDonutVisualSettings> {
                 return null;
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_DonutChart");
+    }
 }
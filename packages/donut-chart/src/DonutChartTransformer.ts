@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatGroupValue, ITopNSettings, TopNOthers, selectTopN, collectOthers, setOthersForKey, ALL_GROUP, localize } from "@pbi-visuals/shared";
 
 export interface DonutChartData extends ChartData {
     segmentsByGroup: Map<string, Array<{ category: string; value: number }>>;
@@ -46,7 +46,7 @@ export class DonutChartTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -69,7 +69,7 @@ export class DonutChartTransformer {
             for (let i = 0; i < values.length; i++) {
                 const category = legendIndex >= 0
                     ? String(categorical.categories![legendIndex].values[i] ?? "")
-                    : "All";
+                    : localize("Visual_All");
                 const rawValue = Number(values[i]) || 0;
                 const hasPointHighlight = highlights && highlights[i] !== null && highlights[i] !== undefined;
                 const highlightValue = hasPointHighlight ? (Number(highlights![i]) || 0) : 0;
@@ -138,4 +138,51 @@ export class DonutChartTransformer {
             valueDisplayName
         };
     }
+
+    /**
+     * Folds the categories the Top-N card leaves out into one "Others" slice per group, ranking
+     * categories by their total over all groups so every panel keeps the same slices.
+     */
+    public static applyTopN(data: DonutChartData, settings: ITopNSettings): void {
+        const totals = new Map<string, number>();
+        data.segmentsByGroup.forEach(segments => {
+            segments.forEach(s => totals.set(s.category, (totals.get(s.category) ?? 0) + s.value));
+        });
+        const kept = selectTopN(totals, settings);
+        if (!kept) {
+            return;
+        }
+
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        let othersLabel: string | null = null;
+        data.segmentsByGroup.forEach((segments, group) => {
+            const next = segments.filter(s => kept.has(s.category));
+            const others = settings.showOthers
+                ? collectOthers(segments.map(s => [s.category, s.value] as [string, number]), kept, settings)
+                : null;
+            if (others) {
+                next.push({ category: others.label, value: others.value });
+                setOthersForKey(othersByGroup, group, others.label, others);
+                othersLabel = others.label;
+            }
+            data.segmentsByGroup.set(group, next);
+            data.totalsByGroup.set(group, next.reduce((sum, s) => sum + s.value, 0));
+        });
+
+        const categories = data.xValues.filter(c => kept.has(c));
+        if (othersLabel !== null) {
+            categories.push(othersLabel);
+        }
+        const values: number[] = [];
+        data.xValues = categories;
+        data.yValues = categories;
+        data.dataPoints = data.groups.flatMap(group => (data.segmentsByGroup.get(group) ?? []).map(s => {
+            values.push(s.value);
+            return { xValue: s.category, yValue: s.category, value: s.value, groupValue: group, index: categories.indexOf(s.category) };
+        }));
+        data.maxValue = Math.max(0, ...values);
+        data.minValue = values.filter(v => v > 0).reduce((min, v) => Math.min(min, v), Infinity);
+        if (data.minValue === Infinity) data.minValue = 0;
+        data.othersByGroup = othersByGroup;
+    }
 }
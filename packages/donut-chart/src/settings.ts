@@ -6,10 +6,20 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    ITopNSettings,
+    defaultTopNSettings,
+    parseTopNSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -52,6 +62,7 @@ export interface IDonutVisualSettings extends IBaseVisualSettings {
     donut: IDonutSettings;
     donutLabels: IDonutLabelSettings;
     textSizes: IDonutTextSizeSettings;
+    topN: ITopNSettings;
 }
 
 export const defaultSettings: IDonutVisualSettings = {
@@ -59,6 +70,7 @@ export const defaultSettings: IDonutVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: false,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -75,6 +87,10 @@ export const defaultSettings: IDonutVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "never",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    topN: { ...defaultTopNSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     donut: {
@@ -125,6 +141,7 @@ export function parseSettings(dataView: DataView): IDonutVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     const tooltipObj = objects["tooltipSettings"];
@@ -149,6 +166,11 @@ export function parseSettings(dataView: DataView): IDonutVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.topN = parseTopNSettings(objects);
+
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
         settings.useCustomColors = (customColorsObj["useCustomColors"] as boolean) ?? defaultSettings.useCustomColors;
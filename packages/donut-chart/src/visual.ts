@@ -21,17 +21,38 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createTopNCard,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     findCategoryIndex,
     getSchemeColors,
     readCategoryColorsFromDataView,
+    readRuleColorsByCategory,
+    getOthersLabel,
+    addOthersSelectionIds,
+    SelectionIdsByKey,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 
 import { IDonutVisualSettings, parseSettings } from "./settings";
 import { DonutChartTransformer } from "./DonutChartTransformer";
 import { DonutChartRenderer } from "./DonutChartRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -49,6 +70,8 @@ export class Visual implements IVisual {
     private allowInteractions: boolean;
 
     private categorySelectionIds: Map<string, ISelectionId> = new Map();
+    // Category ids plus the ids of an "Others" slice, keyed like the slices.
+    private sliceSelectionIds: SelectionIdsByKey = new Map();
     private categories: string[] = [];
     private categoryColors: Map<string, string> = new Map();
     private categoryFieldIndex: number = -1;
@@ -56,6 +79,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-donut-${Visual.instanceCounter++}`;
@@ -66,6 +91,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -85,8 +118,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -101,12 +132,13 @@ export class Visual implements IVisual {
         });
 
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
         const dataView = options.dataViews[0];
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
         this.syncHtmlTooltip();
 
         this.categoryFieldIndex = findCategoryIndex(dataView, "legend");
@@ -128,24 +160,33 @@ export class Visual implements IVisual {
 
         this.renderer = new DonutChartRenderer(context);
         const chartData = DonutChartTransformer.transform(dataView.categorical);
+        DonutChartTransformer.applyTopN(chartData, this.settings.topN);
 
         if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
 
         // Seed initial category colors so the rendered palette matches the Data Colors defaults.
         const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
             ? this.settings.customColors
-            : getSchemeColors(this.settings.colorScheme);
+            : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
         const seededColors = new Map<string, string>(this.categoryColors);
         chartData.xValues.forEach((k, i) => {
             if (!seededColors.has(k)) {
                 seededColors.set(k, defaultColors[i % defaultColors.length]);
             }
         });
+        this.sliceSelectionIds = new Map(this.categorySelectionIds);
+        if (chartData.othersByGroup) {
+            const othersLabel = getOthersLabel(this.settings.topN);
+            seededColors.set(othersLabel, this.settings.topN.othersColor);
+            addOthersSelectionIds(this.sliceSelectionIds, othersLabel, this.categories.filter(c => !chartData.xValues.includes(c)));
+        }
         chartData.categoryColorMap = seededColors;
+        chartData.ruleColorsByKey = readRuleColorsByCategory(dataView, this.categoryFieldIndex);
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -184,8 +225,13 @@ export class Visual implements IVisual {
         this.categories.sort();
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["legend", "values"], dataView),
+            illustration: "radial"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -217,7 +263,7 @@ export class Visual implements IVisual {
         if (this.categories.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             cards.push(createDataColorsCard(
                 this.categories,
@@ -228,13 +274,19 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createTopNCard(this.settings.topN));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
         cards.push(createLegendCard({
             position: this.settings.legendPosition,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createTextSizesCard({
@@ -276,17 +328,22 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".donut-slice[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
         }
 
-        if (this.categorySelectionIds.size > 0) {
+        if (this.sliceSelectionIds.size > 0) {
             const binding = bindSelectionByDataKey({
                 root: this.target,
                 selectionManager: this.selectionManager,
                 markSelector: ".donut-slice[data-selection-key]",
-                selectionIdsByKey: this.categorySelectionIds,
+                selectionIdsByKey: this.sliceSelectionIds,
                 dimOpacity: 0.28,
                 selectedOpacity: 1
             });
@@ -303,16 +360,5 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".donut-slice[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 }
@@ -1,9 +1,21 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatLabel, measureMaxLabelWidth, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatLabel, measureMaxLabelWidth, localize, CanvasMarkTooltip, ALL_GROUP } from "@pbi-visuals/shared";
 import { IHeatmapVisualSettings } from "./settings";
 import { AxisHierarchy, HeatmapMatrixData } from "./HeatmapTransformer";
 
+interface HeatmapCell {
+    key: string;
+    focusKey: string;
+    legendKey: string | null;
+    x: number;
+    y: number;
+    fill: string;
+    isTotalCell: boolean;
+    label: string | null;
+    tooltip: () => CanvasMarkTooltip;
+}
+
 export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
@@ -24,7 +36,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
         return widths.reduce((a, b) => a + b, 0) + Math.max(0, widths.length - 1) * gap;
     }
 
-    public render(data: ChartData, settings: IHeatmapVisualSettings): void {
+    protected draw(data: ChartData, settings: IHeatmapVisualSettings): void {
         this.settings = settings;
 
         if (data.dataPoints.length === 0) {
@@ -68,14 +80,29 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
             )
             : 0;
 
-        const legendReserve = { top: 0, right: 0, bottom: 0, left: 0 };
+        // Use custom min/max colors from settings. Sequential cells keep their 0-based domain;
+        // a diverging scale also reaches down to negative cells.
+        const cellValues = heatmapData.dataPoints.map((point) => point.value);
+        const colorDomainMin = settings.colorScale.scaleType === "diverging"
+            ? cellValues.reduce((min, value) => Math.min(min, value), 0)
+            : 0;
+        const colorScale = this.getValueColorScale(colorDomainMin, maxValue, {
+            values: cellValues,
+            gradient: { min: settings.heatmap.minColor, max: settings.heatmap.maxColor }
+        });
+
+        // Only classed scales get a (stepped) legend; continuous cells rely on tooltips.
+        const classLabels = this.getClassLegendLabels(colorScale, heatmapData.valueFormatString);
+        const legendReserve = classLabels.length
+            ? this.getLegendReservation({ isOrdinal: true, categories: classLabels })
+            : { top: 0, right: 0, bottom: 0, left: 0 };
 
         const titleSpacing = settings.smallMultiples.titleSpacing || 25;
         const panelTitleFontSize = this.getEffectiveFontSize(
             settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize,
             6, 40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         // Reserve just enough room: font ascent (≈fontSize) + a small gap below the title
         const titleReserve = hasPanelTitles ? Math.round(panelTitleFontSize + 6) : 0;
         const interPanelGap = groups.length > 1
@@ -136,12 +163,12 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
             .attr("height", renderHeight)
             .attr("viewBox", `0 0 ${renderWidth} ${renderHeight}`);
 
-        // Use custom min/max colors from settings
-        const colorScale = d3.scaleSequential()
-            .domain([0, maxValue])
-            .interpolator(d3.interpolate(settings.heatmap.minColor, settings.heatmap.maxColor));
+        // Cell labels share one unit across the grid, chosen from the largest cell value.
+        const formatCellValue = this.getValueFormatter("label", heatmapData.valueFormatString, maxValue);
 
         let currentY = margin.top;
+        const cellCount = groups.reduce((sum, g) => sum + (heatmapData.yAxisByGroup.get(g)?.leafKeys.length ?? 0), 0) * xLeafKeys.length;
+        const useCanvas = this.shouldUseCanvas(Math.max(cellCount, dataPoints.length));
 
         groups.forEach((groupName, groupIndex) => {
             const groupData = dataPoints.filter(d => d.groupValue === groupName);
@@ -207,10 +234,10 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
             const panelBaseY = Math.round(currentY + offsetY);
             const pinnedLeftX = settings.heatmap.enableHorizontalScroll ? 0 : panelBaseX;
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "panel panel-scroll-layer")
-                .attr("transform", `translate(${panelBaseX}, ${panelBaseY})`);
+            const panelGroup = this.getPanel(groupName, panelBaseX, panelBaseY, "panel-scroll-layer")
+                .classed("panel", true);
 
+            // Scrolling moves the pinned layers, so they are drawn afresh rather than animated.
             const pinnedLayer = this.context.container.append("g")
                 .attr("class", "panel panel-fixed pinned-y-layer")
                 .attr("data-pin-left", `${pinnedLeftX}`)
@@ -218,7 +245,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                 .attr("transform", `translate(${pinnedLeftX}, ${panelBaseY})`);
 
             // Group title — placed just above the grid with a small gap
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleFontSize = this.getEffectiveFontSize(
                     settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize,
                     6, 40
@@ -235,7 +262,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -255,8 +282,18 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                     16
                 );
             const canRenderValueLabel = cellWidth >= 16 && cellHeight >= 12;
+            // Falls back to SVG cells when the grid is too large for a canvas.
+            const canvasLayer = useCanvas
+                ? this.createCanvasLayer(panelGroup, {
+                    x: Math.floor(yHeaderWidth),
+                    y: 0,
+                    width: Math.ceil(gridActualWidth + 1),
+                    height: Math.ceil(gridActualHeight + 1)
+                })
+                : null;
+            const cells: HeatmapCell[] = [];
 
-            // Render cells and value labels as SVG (crisp at any DPI, native rendering)
+            // Render cells and value labels as SVG (crisp at any DPI, native rendering), or on the canvas layer for large grids
             for (let yIndex = 0; yIndex < groupYLeafKeys.length; yIndex++) {
                 const yKey = groupYLeafKeys[yIndex];
                 const isTotalRow = hasTotalRow && yKey === totalRowKey;
@@ -294,43 +331,34 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                         : (
                             value === 0
                                 ? (this.isHighContrastMode() ? this.getThemeBackground("#f0f0f0") : "#f0f0f0")
-                                : (colorScale(value) as string)
+                                : (this.getRuleColor(heatmapData, `${xKey}\u001e${yKey}`) ?? (colorScale(value) as string))
                         );
 
-                    // Cell rectangle
-                    const cell = panelGroup.append("rect")
-                        .attr("class", isTotalCell ? "heatmap-cell heatmap-total-cell" : "heatmap-cell")
-                        .attr("data-selection-key", `${xKey}\u001e${yKey}`)
-                        .attr("x", x)
-                        .attr("y", y)
-                        .attr("width", this.snapToPixelInt(cellWidth))
-                        .attr("height", this.snapToPixelInt(cellHeight))
-                        .attr("rx", 3)
-                        .attr("fill", fill)
-                        .attr("stroke", this.getThemeBackground("#ffffff"))
-                        .attr("stroke-width", 1);
-
                     // Tooltip for cell
-                    const valueLabel = heatmapData.valueDisplayName || "Value";
-
-                    if (isTotalCell) {
-                        const totalKind = isGrandCorner
-                            ? "Grand total"
-                            : (isTotalRow ? "Total (all rows)" : "Total (all columns)");
-                        const xDisplay = (xAxis.keyToPath.get(xKey) ?? [xKey]).filter(Boolean).join(" • ") || "Total";
-                        const yDisplay = (yAxis?.keyToPath.get(yKey) ?? [yKey]).filter(Boolean).join(" • ") || "Total";
-
-                        this.addTooltip(cell as any, [
-                            { displayName: totalKind, value: formatMeasureValue(value, heatmapData.valueFormatString), color: fill },
-                            ...(isTotalRow ? [] : [{ displayName: "Row", value: yDisplay }]),
-                            ...(isTotalCol ? [] : [{ displayName: "Column", value: xDisplay }]),
-                            ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
-                        ], {
-                            title: totalKind,
-                            subtitle: `${isTotalRow ? xDisplay : yDisplay}`,
-                            color: fill
-                        });
-                    } else {
+                    const valueLabel = heatmapData.valueDisplayName || localize("Visual_Value");
+                    const cellTooltip = (): CanvasMarkTooltip => {
+                        if (isTotalCell) {
+                            const totalKind = isGrandCorner
+                                ? "Grand total"
+                                : (isTotalRow ? "Total (all rows)" : "Total (all columns)");
+                            const xDisplay = (xAxis.keyToPath.get(xKey) ?? [xKey]).filter(Boolean).join(" • ") || "Total";
+                            const yDisplay = (yAxis?.keyToPath.get(yKey) ?? [yKey]).filter(Boolean).join(" • ") || "Total";
+
+                            return {
+                                dataItems: [
+                                    { displayName: totalKind, value: this.formatTooltipValue(value, heatmapData.valueFormatString), color: fill },
+                                    ...(isTotalRow ? [] : [{ displayName: localize("Visual_Row"), value: yDisplay }]),
+                                    ...(isTotalCol ? [] : [{ displayName: localize("Visual_Column"), value: xDisplay }]),
+                                    ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : [])
+                                ],
+                                meta: {
+                                    title: totalKind,
+                                    subtitle: `${isTotalRow ? xDisplay : yDisplay}`,
+                                    color: fill
+                                }
+                            };
+                        }
+
                         const yPath = yAxis?.keyToPath.get(yKey) ?? [yKey];
                         const xPath = xAxis.keyToPath.get(xKey) ?? [xKey];
                         const yPathFiltered = yPath.filter(Boolean);
@@ -338,37 +366,97 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                         const yDisplay = yPathFiltered.join(" • ");
                         const xDisplay = xPathFiltered.join(" • ");
 
-                        this.addTooltip(cell as any, [
-                            { displayName: valueLabel, value: formatMeasureValue(value, heatmapData.valueFormatString), color: fill },
-                            { displayName: "Row", value: yDisplay },
-                            { displayName: "Column", value: xDisplay },
-                            ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
-                        ], {
-                            title: yPathFiltered[yPathFiltered.length - 1] ?? yKey,
-                            subtitle: xDisplay,
-                            color: fill
+                        return {
+                            dataItems: [
+                                { displayName: valueLabel, value: this.formatTooltipValue(value, heatmapData.valueFormatString), color: fill },
+                                { displayName: localize("Visual_Row"), value: yDisplay },
+                                { displayName: localize("Visual_Column"), value: xDisplay },
+                                ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : [])
+                            ],
+                            meta: {
+                                title: yPathFiltered[yPathFiltered.length - 1] ?? yKey,
+                                subtitle: xDisplay,
+                                color: fill
+                            }
+                        };
+                    };
+                    const legendKey = isTotalCell || value === 0 ? null : this.getClassLegendKey(colorScale, classLabels, value);
+
+                    if (canvasLayer) {
+                        canvasLayer.add({
+                            type: "rect",
+                            // Heatmap binds its legend by focus key, which tells the panels apart.
+                            key: `${groupIndex}\u001e${xKey}\u001e${yKey}`,
+                            legendKey,
+                            x,
+                            y,
+                            width: this.snapToPixelInt(cellWidth),
+                            height: this.snapToPixelInt(cellHeight),
+                            rx: 3,
+                            fill,
+                            stroke: this.getThemeBackground("#ffffff"),
+                            strokeWidth: 1,
+                            label: showValueLabel
+                                ? {
+                                    text: formatCellValue(value),
+                                    color: this.getContrastColor(fill),
+                                    font: `${isTotalCell ? 700 : 600} ${cellFontSize}px "Segoe UI", sans-serif`
+                                }
+                                : undefined,
+                            tooltip: cellTooltip
                         });
+                        continue;
                     }
 
-                    // Value label inside cell
-                    if (showValueLabel) {
-                        const textColor = this.getContrastColor(fill);
-
-                        panelGroup.append("text")
-                            .attr("class", isTotalCell ? "cell-value total-value" : "cell-value")
-                            .attr("x", this.snapToPixelInt(x + cellWidth / 2))
-                            .attr("y", this.snapToPixelInt(y + cellHeight / 2))
-                            .attr("dy", "0.35em")
-                            .attr("text-anchor", "middle")
-                            .attr("font-size", `${cellFontSize}px`)
-                            .attr("font-weight", isTotalCell ? "700" : "600")
-                            .attr("fill", textColor)
-                            .attr("pointer-events", "none")
-                            .text(formatMeasureValue(value, heatmapData.valueFormatString));
-                    }
+                    cells.push({
+                        key,
+                        focusKey: `${groupIndex}\u001e${xKey}\u001e${yKey}`,
+                        legendKey,
+                        x,
+                        y,
+                        fill,
+                        isTotalCell,
+                        label: showValueLabel ? formatCellValue(value) : null,
+                        tooltip: cellTooltip
+                    });
                 }
             }
 
+            // Cells are keyed by row and column, so a cell keeps its place and recolors.
+            if (!canvasLayer) {
+                this.joinMarks<SVGRectElement, HeatmapCell>(panelGroup, "rect.heatmap-cell", cells, c => c.key, rect => rect
+                    .attr("x", c => c.x)
+                    .attr("y", c => c.y)
+                    .attr("width", this.snapToPixelInt(cellWidth))
+                    .attr("height", this.snapToPixelInt(cellHeight))
+                    .attr("fill", c => c.fill))
+                    .classed("heatmap-total-cell", c => c.isTotalCell)
+                    .attr("data-selection-key", c => c.key)
+                    // Cell keys repeat across small multiples; the focus key tells the panels apart.
+                    .attr("data-focus-key", c => c.focusKey)
+                    .attr("data-legend-key", c => c.legendKey)
+                    .attr("rx", 3)
+                    .attr("stroke", this.getThemeBackground("#ffffff"))
+                    .attr("stroke-width", 1)
+                    .each((c, i, nodes) => {
+                        const { dataItems, meta } = c.tooltip();
+                        this.addTooltip(d3.select(nodes[i]) as any, dataItems, meta);
+                    });
+
+                // Value labels inside cells
+                this.joinMarks<SVGTextElement, HeatmapCell>(panelGroup, "text.cell-value", cells.filter(c => c.label !== null), c => c.key, text => text
+                    .attr("x", c => this.snapToPixelInt(c.x + cellWidth / 2))
+                    .attr("y", c => this.snapToPixelInt(c.y + cellHeight / 2))
+                    .attr("fill", c => this.getContrastColor(c.fill)))
+                    .classed("total-value", c => c.isTotalCell)
+                    .attr("dy", "0.35em")
+                    .attr("text-anchor", "middle")
+                    .attr("font-size", `${cellFontSize}px`)
+                    .attr("font-weight", c => c.isTotalCell ? "700" : "600")
+                    .attr("pointer-events", "none")
+                    .text(c => c.label ?? "");
+            }
+
             // Hierarchical Y-axis headers (span labels)
             if (settings.showYAxis && yAxis && yAxis.depth > 0) {
                 if (settings.heatmap.enableHorizontalScroll && yHeaderWidth > 0) {
@@ -415,7 +503,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                             .text(textValue);
 
                         if (textValue !== span.label) {
-                            this.addTooltip(t as any, [{ displayName: "Row", value: span.label }]);
+                            this.addTooltip(t as any, [{ displayName: localize("Visual_Row"), value: span.label }]);
                         }
                     });
                 }
@@ -477,7 +565,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                                 .text(displayText);
 
                             if (displayText !== span.label) {
-                                this.addTooltip(t as any, [{ displayName: "Column", value: span.label }]);
+                                this.addTooltip(t as any, [{ displayName: localize("Visual_Column"), value: span.label }]);
                             }
 
                             if (isLeafLevel && shouldRotate) {
@@ -555,7 +643,7 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                 .attr("fill", this.getThemeBackground("#ffffff"))
                 .attr("pointer-events", "none");
 
-            const overallLabel = `Overall total: ${formatMeasureValue(heatmapData.overallGrandTotal, heatmapData.valueFormatString)}`;
+            const overallLabel = `Overall total: ${this.getValueFormatter("label", heatmapData.valueFormatString)(heatmapData.overallGrandTotal)}`;
             pinnedUi.append("text")
                 .attr("class", "overall-total-label")
                 .attr("x", 12)
@@ -566,6 +654,12 @@ export class HeatmapRenderer extends BaseRenderer<IHeatmapVisualSettings> {
                 .text(overallLabel);
         }
 
-        // Heatmap has no legend by design (tooltips carry the details).
+        if (classLabels.length) {
+            this.renderLegend(colorScale, maxValue, true, classLabels);
+        }
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Heatmap");
     }
 }
@@ -7,7 +7,7 @@ import DataViewMatrixNode = powerbi.DataViewMatrixNode;
 import DataViewHierarchyLevel = powerbi.DataViewHierarchyLevel;
 import DataViewMatrixGroupValue = powerbi.DataViewMatrixGroupValue;
 
-import { ChartData, DataPoint, formatDataValue, formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, addRuleColorForKey, formatDataValue, formatGroupValue, readConditionalColor, ALL_GROUP } from "@pbi-visuals/shared";
 import { IHeatmapVisualSettings } from "./settings";
 
 export interface AxisSpan {
@@ -222,12 +222,18 @@ export class HeatmapTransformer {
 
     private static transformMatrix(matrix: DataViewMatrix, settings?: IHeatmapVisualSettings): HeatmapMatrixData {
         const dataPoints: DataPoint[] = [];
+        const ruleColorsByKey = new Map<string, string>();
         let maxValue = 0;
         let minValue = Infinity;
 
         const measureCount = Math.max(1, matrix.valueSources?.length ?? 1);
         const valueFormatString = (matrix.valueSources?.[0] as any)?.format as string | undefined;
         const valueDisplayName = (matrix.valueSources?.[0] as any)?.displayName as string | undefined;
+        const roleDisplayName = (levels: DataViewHierarchyLevel[], role: string): string | undefined => levels
+            .flatMap((level) => level.sources ?? [])
+            .filter((source) => source.roles?.[role])
+            .map((source) => source.displayName)
+            .join(", ") || undefined;
 
         // ---- Columns (X axis) ----
         const xLeafKeys: string[] = [];
@@ -355,7 +361,7 @@ export class HeatmapTransformer {
             });
 
             const yKey = yParts.join(KEY_SEP) || `row${rowLeafGlobalCounter}`;
-            const groupKey = (groupValue ?? "").trim() ? groupValue! : "All";
+            const groupKey = (groupValue ?? "").trim() ? groupValue! : ALL_GROUP;
             const bucket = rowsByGroup.get(groupKey) ?? { leafKeys: [], leafPaths: [], leafNodes: [] };
             bucket.leafKeys.push(yKey);
             bucket.leafPaths.push(yParts);
@@ -368,8 +374,8 @@ export class HeatmapTransformer {
 
         const groupNames = Array.from(groupNamesSet);
         if (groupNames.length === 0) {
-            groupNames.push("All");
-            rowsByGroup.set("All", { leafKeys: [], leafPaths: [], leafNodes: [] });
+            groupNames.push(ALL_GROUP);
+            rowsByGroup.set(ALL_GROUP, { leafKeys: [], leafPaths: [], leafNodes: [] });
         }
         groupNames.sort((a, b) => a.localeCompare(b));
 
@@ -403,6 +409,8 @@ export class HeatmapTransformer {
                     const value = Number(rawValue) || 0;
                     if (value > maxValue) maxValue = value;
                     if (value > 0 && value < minValue) minValue = value;
+                    // Matrix fx rules land on the intersection value, not on a category column.
+                    addRuleColorForKey(ruleColorsByKey, `${colKey}\u001e${rowKey}`, readConditionalColor(nodeValue?.objects));
 
                     dataPoints.push({
                         xValue: colKey,
@@ -422,7 +430,7 @@ export class HeatmapTransformer {
         let overallGrandTotal = 0;
         for (const dp of dataPoints) {
             overallGrandTotal += dp.value;
-            const groupKey = (dp.groupValue ?? "").trim() ? dp.groupValue : "All";
+            const groupKey = (dp.groupValue ?? "").trim() ? dp.groupValue : ALL_GROUP;
 
             let t = totalsByGroup.get(groupKey);
             if (!t) {
@@ -499,6 +507,9 @@ export class HeatmapTransformer {
             yAxisByGroup,
             valueFormatString,
             valueDisplayName,
+            ruleColorsByKey,
+            xAxisDisplayName: roleDisplayName(matrix.columns.levels, "xAxis"),
+            yAxisDisplayName: roleDisplayName(matrix.rows.levels, "yAxis"),
             totalsByGroup,
             overallGrandTotal,
             totalRowKey: TOTAL_ROW_KEY,
@@ -6,12 +6,25 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     colorSchemes,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IRenderingSettings,
+    defaultRenderingSettings,
+    parseRenderingSettings,
+    IColorScaleSettings,
+    defaultColorScaleSettings,
+    parseColorScaleSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -47,7 +60,9 @@ export interface IHeatmapTextSizeSettings {
 
 export interface IHeatmapVisualSettings extends IBaseVisualSettings {
     heatmap: IHeatmapSettings;
+    colorScale: IColorScaleSettings;
     textSizes: IHeatmapTextSizeSettings;
+    rendering: IRenderingSettings;
 }
 
 export const defaultSettings: IHeatmapVisualSettings = {
@@ -55,6 +70,7 @@ export const defaultSettings: IHeatmapVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: true,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -71,6 +87,11 @@ export const defaultSettings: IHeatmapVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "auto",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    rendering: { ...defaultRenderingSettings },
+    colorScale: { ...defaultColorScaleSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     heatmap: {
@@ -128,6 +149,7 @@ export function parseSettings(dataView: DataView): IHeatmapVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     // Tooltip settings
@@ -153,6 +175,12 @@ export function parseSettings(dataView: DataView): IHeatmapVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.rendering = parseRenderingSettings(objects);
+    settings.colorScale = parseColorScaleSettings(objects);
+
     // Custom colors settings
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
@@ -19,14 +19,35 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createRenderingCard,
+    CanvasMarkLayer,
+    applyThemeTextDefaults,
+    applyThemeGradient,
+    createConditionalColorsCard,
+    getSchemeColors,
     createXAxisCard,
     createYAxisCard,
-    HtmlTooltip
+    HtmlTooltip,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    bindLegendInteractions,
+    bindContextMenu,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { IHeatmapVisualSettings, parseSettings } from "./settings";
 import { HeatmapTransformer } from "./HeatmapTransformer";
 import { HeatmapRenderer } from "./HeatmapRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -41,16 +62,28 @@ export class Visual implements IVisual {
     private tooltipOwnerId: string;
     private emptySelectionId: ISelectionId;
     private allowInteractions: boolean;
+    private canvasLayers: CanvasMarkLayer[] = [];
     private readonly onTargetScroll: () => void;
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-heatmap-${Visual.instanceCounter++}`;
         this.emptySelectionId = this.host.createSelectionIdBuilder().createSelectionId();
         this.allowInteractions = this.host.hostCapabilities?.allowInteractions !== false;
+
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.onTargetScroll = () => {
             this.syncPinnedLayers();
             this.htmlTooltip?.hide();
@@ -81,9 +114,7 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        // Clear previous content
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
+        this.canvasLayers = [];
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -102,7 +133,7 @@ export class Visual implements IVisual {
 
         // Validate data
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].matrix) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
@@ -110,6 +141,10 @@ export class Visual implements IVisual {
 
         // Parse settings
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
+        if (this.settings.colorScheme === "theme") {
+            applyThemeGradient(this.settings.heatmap, dataView.metadata?.objects?.["heatmapSettings"], this.host.colorPalette);
+        }
         this.target.style.overflowX = this.settings.heatmap.enableHorizontalScroll ? "auto" : "hidden";
         this.target.style.overflowY = this.settings.heatmap.enableVerticalScroll ? "auto" : "hidden";
         if (!this.settings.heatmap.enableHorizontalScroll) {
@@ -131,7 +166,8 @@ export class Visual implements IVisual {
             height,
             htmlTooltip: this.htmlTooltip,
             colorPalette: this.host.colorPalette,
-            isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast)
+            isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast),
+            canvasLayers: this.canvasLayers
         };
 
         // Create renderer
@@ -142,12 +178,13 @@ export class Visual implements IVisual {
 
         // Check if data is empty
         if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
 
         // Render the chart
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.syncPinnedLayers();
         this.bindInteractions();
         } catch (error) {
@@ -161,8 +198,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "yAxis", "values"], dataView),
+            illustration: "grid"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -217,6 +259,11 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createRenderingCard(this.settings.rendering));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
@@ -224,7 +271,8 @@ export class Visual implements IVisual {
         cards.push(createGradientColorsCard(
             this.settings.heatmap.minColor,
             this.settings.heatmap.maxColor,
-            "heatmapSettings"
+            "heatmapSettings",
+            this.settings.colorScale
         ));
 
         cards.push(createYAxisCard({
@@ -285,18 +333,31 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".heatmap-cell[data-focus-key]",
+            dataKeyAttr: "data-focus-key"
+        });
+
         if (!this.allowInteractions) {
             return;
         }
 
-        this.svg.on("click", async () => {
-            await this.selectionManager.clear();
+        // Cells carry no selection ids, so the stepped legend only emphasizes its class on hover.
+        bindLegendInteractions({
+            root: this.target,
+            markSelector: ".heatmap-cell[data-focus-key]",
+            dataKeyAttr: "data-focus-key",
+            canvasLayers: this.canvasLayers,
+            onHoverEnd: () => {
+                this.target.querySelectorAll<SVGElement>(".heatmap-cell").forEach((cell) => {
+                    cell.style.opacity = "";
+                });
+            }
         });
 
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
+        this.svg.on("click", async () => {
+            await this.selectionManager.clear();
         });
     }
 
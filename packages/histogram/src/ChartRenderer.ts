@@ -1,6 +1,6 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, localize, getDisplayUnitReference, includeReferenceLines, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
 import { IChartData, IHistogramBin } from "./ChartTransformer";
 
@@ -9,7 +9,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
@@ -18,27 +18,47 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
-        const margin = { top: 24, right: 14, bottom: 42, left: 40 };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(120, this.context.width - margin.left - margin.right);
-        const height = Math.max(120, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+        const margin = { top: 24, right: 14, bottom: 18, left: 0 };
+        // The grid reserves the axis margins itself, per panel or around the grid's outer edge.
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(160, this.context.width - margin.left - margin.right),
+            height: Math.max(120, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.6,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0,
+            axisLeft: 40,
+            axisBottom: 24
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const width = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
 
         const colorScale = this.getCategoryColors(groups);
+        const fixedReferenceLines = this.getReferenceLines(chartData, []);
+        // Shared scales span every group's values and its tallest bin.
+        const domains = Array.from(chartData.groupDomains.values());
+        const sharedDomain = {
+            min: Math.min(...domains.map((d) => d.min)),
+            max: Math.max(...domains.map((d) => d.max)),
+            maxCount: Math.max(...domains.map((d) => d.maxCount))
+        };
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const bins = chartData.bins.filter((b) => b.group === groupName);
             if (!bins.length) return;
 
-            const domain = chartData.groupDomains.get(groupName)!;
-            const x = d3.scaleLinear().domain([domain.min, domain.max || domain.min + 1]).range([0, width]);
-            const y = d3.scaleLinear().domain([0, domain.maxCount || 1]).range([panelHeight, 0]);
+            const groupDomain = chartData.groupDomains.get(groupName)!;
+            const xDomain = smallMultiples.sharedXScale ? sharedDomain : groupDomain;
+            const maxCount = (smallMultiples.sharedYScale ? sharedDomain : groupDomain).maxCount || 1;
+            const [xMin, xMax] = includeReferenceLines([xDomain.min, xDomain.max || xDomain.min + 1], fixedReferenceLines);
+            const x = d3.scaleLinear().domain([xMin, xMax]).range([0, width]);
+            const y = d3.scaleLinear().domain([0, maxCount]).range([panelHeight, 0]);
             const barGapPx = width >= 240 ? 2 : (width >= 140 ? 1 : 0);
             const getBinStart = (d: IHistogramBin): number => {
                 const raw = Math.round(x(d.x0));
@@ -48,9 +68,15 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 const raw = Math.round(x(d.x1));
                 return Math.max(1, Math.min(width, raw));
             };
+            const getBinWidth = (d: IHistogramBin, i: number): number => {
+                const hasRightNeighbor = i < bins.length - 1;
+                const gap = hasRightNeighbor ? barGapPx : 0;
+                return Math.max(1, getBinEnd(d) - getBinStart(d) - gap);
+            };
+            const binColor = (d: IHistogramBin): string => this.getRuleColor(chartData, d.selectionKey) ?? colorScale(groupName);
 
             panel.selectAll("line.grid")
-                .data([0, 0.5, 1].map((f) => (domain.maxCount || 1) * f))
+                .data([0, 0.5, 1].map((f) => maxCount * f))
                 .join("line")
                 .attr("x1", 0)
                 .attr("x2", width)
@@ -60,66 +86,83 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("stroke-width", 1)
                 .attr("opacity", 0.5);
 
-            panel.selectAll("rect.mark")
-                .data(bins)
-                .join("rect")
-                .attr("class", "mark")
-                .attr("x", (d: IHistogramBin) => getBinStart(d))
-                .attr("y", (d: IHistogramBin) => Math.round(y(d.count)))
-                .attr("width", (d: IHistogramBin, i: number, nodes) => {
-                    const start = getBinStart(d);
-                    const end = getBinEnd(d);
-                    const hasRightNeighbor = i < nodes.length - 1;
-                    const gap = hasRightNeighbor ? barGapPx : 0;
-                    return Math.max(1, end - start - gap);
-                })
-                .attr("height", (d: IHistogramBin) => Math.max(1, Math.round(panelHeight - y(d.count))))
-                .attr("fill", colorScale(groupName))
-                .attr("fill-opacity", 1)
-                .each((d: IHistogramBin, i, nodes) => {
+            this.joinMarks<SVGRectElement, IHistogramBin>(panel, "rect.mark", bins, (d) => d.selectionKey, (rect) => rect
+                .attr("x", (d) => getBinStart(d))
+                .attr("y", (d) => Math.round(y(d.count)))
+                .attr("width", (d, i) => getBinWidth(d, i))
+                .attr("height", (d) => Math.max(1, Math.round(panelHeight - y(d.count))))
+                .attr("fill", (d) => binColor(d))
+                .attr("fill-opacity", chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1))
+                .attr("data-selection-key", (d) => d.selectionKey)
+                .attr("data-legend-key", groupName)
+                .each((d, i, nodes) => {
                     const tooltipData = [
-                        { displayName: chartData.valueDisplayName || "Value", value: formatMeasureValue(d.count, undefined), color: colorScale(groupName) },
-                        { displayName: "From", value: formatMeasureValue(d.x0, chartData.valueFormatString) },
-                        { displayName: "To", value: formatMeasureValue(d.x1, chartData.valueFormatString) }
+                        { displayName: chartData.valueDisplayName || localize("Visual_Value"), value: this.formatTooltipValue(d.count, undefined), color: binColor(d) },
+                        { displayName: localize("Visual_From"), value: this.formatTooltipValue(d.x0, chartData.valueFormatString) },
+                        { displayName: localize("Visual_To"), value: this.formatTooltipValue(d.x1, chartData.valueFormatString) }
                     ];
+                    if (chartData.hasHighlights) {
+                        tooltipData.push({ displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(d.highlightCount, undefined) });
+                    }
                     this.addTooltip(d3.select(nodes[i]) as any, tooltipData, {
-                        title: "Bin",
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color: colorScale(groupName)
+                        title: localize("Visual_Bin"),
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                        color: binColor(d)
                     });
                 });
 
-            if (settings.showXAxis) {
-                const ticks = [domain.min, domain.min + (domain.max - domain.min) * 0.5, domain.max];
-                panel.selectAll("text.x-label")
-                    .data(ticks)
-                    .join("text")
+            // Highlighted share of each bin, drawn over the dimmed full bar
+            if (chartData.hasHighlights) {
+                const highlightLayer = this.getLayer(panel, "highlight-layer")
+                    .style("pointer-events", "none");
+                this.joinMarks<SVGRectElement, { d: IHistogramBin; i: number }>(
+                    highlightLayer,
+                    "rect.highlight",
+                    bins.map((d, i) => ({ d, i })).filter((b) => b.d.highlightCount > 0),
+                    (b) => b.d.selectionKey,
+                    (rect) => rect
+                        .attr("x", (b) => getBinStart(b.d))
+                        .attr("y", (b) => Math.round(y(b.d.highlightCount)))
+                        .attr("width", (b) => getBinWidth(b.d, b.i))
+                        .attr("height", (b) => Math.max(1, Math.round(panelHeight - y(b.d.highlightCount))))
+                        .attr("fill", (b) => binColor(b.d))
+                )
+                    .attr("data-selection-key", (b) => b.d.selectionKey)
+                    .attr("data-legend-key", groupName);
+            }
+
+            const referenceLines = this.getReferenceLines(chartData, chartData.groupValues.get(groupName) ?? []);
+            this.renderReferenceLines(panel, referenceLines, x, { width, height: panelHeight }, "vertical");
+
+            if (settings.showXAxis && cell.showXAxis) {
+                const ticks = [xMin, xMin + (xMax - xMin) * 0.5, xMax];
+                const formatAxisValue = this.getValueFormatter("axis", chartData.valueFormatString, getDisplayUnitReference(ticks));
+                // Keyed by label, so a changed tick fades over to its new value.
+                this.joinMarks<SVGTextElement, number>(panel, "text.x-label", ticks, (d) => formatAxisValue(d), (text) => text
                     .attr("x", (d) => Math.round(x(d)))
                     .attr("y", Math.round(panelHeight + 14))
+                    .attr("fill", settings.xAxisColor))
                     .attr("text-anchor", "middle")
                     .attr("font-size", (settings.textSizes.xAxisFontSize || settings.xAxisFontSize) + "px")
-                    .attr("fill", settings.xAxisColor)
-                    .text((d) => formatMeasureValue(d, chartData.valueFormatString));
+                    .text((d) => formatAxisValue(d));
             }
 
-            if (settings.showYAxis) {
-                panel.selectAll("text.y-label")
-                    .data([0, 0.5, 1])
-                    .join("text")
+            if (settings.showYAxis && cell.showYAxis) {
+                this.joinMarks<SVGTextElement, number>(panel, "text.y-label", [0, 0.5, 1], (f) => String(Math.round(maxCount * f)), (text) => text
                     .attr("x", -8)
-                    .attr("y", (f) => Math.round(y((domain.maxCount || 1) * f)) + 4)
+                    .attr("y", (f) => Math.round(y(maxCount * f)) + 4)
+                    .attr("fill", settings.yAxisColor))
                     .attr("text-anchor", "end")
                     .attr("font-size", (settings.textSizes.yAxisFontSize || settings.yAxisFontSize) + "px")
-                    .attr("fill", settings.yAxisColor)
-                    .text((f) => String(Math.round((domain.maxCount || 1) * f)));
+                    .text((f) => String(Math.round(maxCount * f)));
             }
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
@@ -128,4 +171,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             this.renderLegend(colorScale, chartData.maxValue, true, groups);
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Histogram");
+    }
 }
@@ -2,24 +2,43 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    createTableRowSelectionId,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IHistogramBin {
     group: string;
     x0: number;
     x1: number;
     count: number;
+    // Rows in the bin that are part of the incoming highlight; equals `count` when nothing is highlighted.
+    highlightCount: number;
+    selectionKey: string;
 }
 
 export interface IChartData extends ChartData {
     bins: IHistogramBin[];
     groupDomains: Map<string, { min: number; max: number; maxCount: number }>;
+    // Sorted raw values per group, for reference-line statistics.
+    groupValues: Map<string, number[]>;
+    hasHighlights: boolean;
     valueFormatString?: string;
     valueDisplayName?: string;
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const empty: IChartData = {
             dataPoints: [],
             xValues: [],
@@ -28,23 +47,54 @@ export class ChartTransformer {
             maxValue: 0,
             minValue: 0,
             bins: [],
-            groupDomains: new Map()
+            groupDomains: new Map(),
+            groupValues: new Map(),
+            hasHighlights: false
         };
 
         const valuesByGroup = new Map<string, number[]>();
         const xValues: string[] = [];
         const dataPoints: DataPoint[] = [];
+        // Row identities per group, kept next to the raw value so they can follow it into its bin.
+        const rowIdsByGroup = new Map<string, Array<{ value: number; selectionId: ISelectionId }>>();
+        const highlightedValuesByGroup = new Map<string, number[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleRowsByGroup = new Map<string, Array<{ value: number; color: string }>>();
+        let hasHighlights = false;
         let valueFormatString: string | undefined;
         let valueDisplayName: string | undefined;
 
-        const pushValue = (index: number, categoryRaw: unknown, groupRaw: unknown, valueRaw: unknown): void => {
+        const pushValue = (
+            index: number,
+            categoryRaw: unknown,
+            groupRaw: unknown,
+            valueRaw: unknown,
+            getSelectionId?: () => ISelectionId,
+            isHighlighted: boolean = true
+        ): void => {
             const raw = Number(valueRaw);
             if (!Number.isFinite(raw)) return;
-            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : "All";
+            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : ALL_GROUP;
             const category = String(categoryRaw ?? ("Point " + (index + 1)));
             const bucket = valuesByGroup.get(group) ?? [];
             bucket.push(raw);
             valuesByGroup.set(group, bucket);
+            if (isHighlighted) {
+                const highlighted = highlightedValuesByGroup.get(group) ?? [];
+                highlighted.push(raw);
+                highlightedValuesByGroup.set(group, highlighted);
+            }
+            if (getSelectionId) {
+                const rowIds = rowIdsByGroup.get(group) ?? [];
+                rowIds.push({ value: raw, selectionId: getSelectionId() });
+                rowIdsByGroup.set(group, rowIds);
+            }
+            const ruleColor = ruleColors.getRowColor(index);
+            if (ruleColor) {
+                const ruleRows = ruleRowsByGroup.get(group) ?? [];
+                ruleRows.push({ value: raw, color: ruleColor });
+                ruleRowsByGroup.set(group, ruleRows);
+            }
             xValues.push(category);
             dataPoints.push({
                 xValue: category,
@@ -71,7 +121,13 @@ export class ChartTransformer {
                 valueFormatString = (columns[valueIdx] as any)?.format as string | undefined;
                 valueDisplayName = (columns[valueIdx] as any)?.displayName as string | undefined;
                 table.rows.forEach((row, i) => {
-                    pushValue(i, row[resolvedCategoryIdx], groupIdx >= 0 ? row[groupIdx] : undefined, row[valueIdx]);
+                    pushValue(
+                        i,
+                        row[resolvedCategoryIdx],
+                        groupIdx >= 0 ? row[groupIdx] : undefined,
+                        row[valueIdx],
+                        createSelectionIdBuilder ? () => createTableRowSelectionId(createSelectionIdBuilder, table, i) : undefined
+                    );
                 });
             }
         }
@@ -88,8 +144,17 @@ export class ChartTransformer {
             if (valueValues?.length) {
                 valueFormatString = (valueCol?.source as any)?.format as string | undefined;
                 valueDisplayName = (valueCol?.source as any)?.displayName as string | undefined;
+                const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
+                hasHighlights = highlightState.hasIncomingHighlights;
                 for (let i = 0; i < valueValues.length; i++) {
-                    pushValue(i, categoryCol ? categoryCol.values[i] : undefined, groupCol ? groupCol.values[i] : undefined, valueValues[i]);
+                    pushValue(
+                        i,
+                        categoryCol ? categoryCol.values[i] : undefined,
+                        groupCol ? groupCol.values[i] : undefined,
+                        valueValues[i],
+                        createSelectionIdBuilder ? () => createCategoryRowSelectionId(createSelectionIdBuilder, [categoryCol, groupCol], i) : undefined,
+                        !hasHighlights || highlightState.isHighlightedRow(i)
+                    );
                 }
             }
         }
@@ -101,6 +166,9 @@ export class ChartTransformer {
         const groups = Array.from(valuesByGroup.keys());
         const bins: IHistogramBin[] = [];
         const groupDomains = new Map<string, { min: number; max: number; maxCount: number }>();
+        const groupValues = new Map<string, number[]>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColorsByKey = new Map<string, string>();
 
         let globalMin = Number.POSITIVE_INFINITY;
         let globalMax = Number.NEGATIVE_INFINITY;
@@ -116,10 +184,20 @@ export class ChartTransformer {
             const binCount = Math.max(6, Math.min(24, Math.round(Math.sqrt(values.length) * 2)));
             const step = span / binCount;
             const counts = new Array(binCount).fill(0);
+            const highlightCounts = new Array(binCount).fill(0);
 
+            const binIndexOf = (v: number): number => Math.min(binCount - 1, Math.max(0, Math.floor((v - min) / step)));
             values.forEach((v) => {
-                const idx = Math.min(binCount - 1, Math.max(0, Math.floor((v - min) / step)));
-                counts[idx]++;
+                counts[binIndexOf(v)]++;
+            });
+            (highlightedValuesByGroup.get(group) ?? []).forEach((v) => {
+                highlightCounts[binIndexOf(v)]++;
+            });
+            (rowIdsByGroup.get(group) ?? []).forEach((row) => {
+                addSelectionIdForKey(selectionIdsByKey, group + "\u001f" + binIndexOf(row.value), row.selectionId);
+            });
+            (ruleRowsByGroup.get(group) ?? []).forEach((row) => {
+                addRuleColorForKey(ruleColorsByKey, group + "\u001f" + binIndexOf(row.value), row.color);
             });
 
             let localMax = 0;
@@ -127,11 +205,12 @@ export class ChartTransformer {
                 const count = counts[i];
                 const x0 = min + i * step;
                 const x1 = i === binCount - 1 ? max : min + (i + 1) * step;
-                bins.push({ group, x0, x1, count });
+                bins.push({ group, x0, x1, count, highlightCount: highlightCounts[i], selectionKey: group + "\u001f" + i });
                 if (count > localMax) localMax = count;
             }
 
             groupDomains.set(group, { min, max, maxCount: localMax });
+            groupValues.set(group, values);
             globalMin = Math.min(globalMin, min);
             globalMax = Math.max(globalMax, max);
             globalMaxCount = Math.max(globalMaxCount, localMax);
@@ -149,8 +228,12 @@ export class ChartTransformer {
             minValue: globalMin,
             bins,
             groupDomains,
+            groupValues,
+            hasHighlights,
             valueFormatString,
-            valueDisplayName
+            valueDisplayName,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
@@ -8,6 +8,7 @@ import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisual = powerbi.extensibility.visual.IVisual;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import ITooltipService = powerbi.extensibility.ITooltipService;
+import ISelectionId = powerbi.visuals.ISelectionId;
 
 import {
     d3,
@@ -17,15 +18,35 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    readReferenceMeasure,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
+    getSchemeColors,
     createXAxisCard,
     createYAxisCard,
-    HtmlTooltip
+    HtmlTooltip,
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 
 import { IVisualSettings, parseSettings } from "./settings";
 import { ChartTransformer } from "./ChartTransformer";
 import { ChartRenderer } from "./ChartRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -33,16 +54,38 @@ export class Visual implements IVisual {
     private container: d3.Selection<SVGGElement, unknown, null, undefined>;
     private host: IVisualHost;
     private tooltipService: ITooltipService;
+    private selectionManager: powerbi.extensibility.ISelectionManager;
     private settings: IVisualSettings | null = null;
     private renderer: ChartRenderer | null = null;
     private htmlTooltip: HtmlTooltip | null = null;
     private tooltipOwnerId: string;
+    private emptySelectionId: ISelectionId;
+    private applySelectionState: ((ids: ISelectionId[]) => void) | null = null;
+    private allowInteractions: boolean;
+    private selectionIdsByKey: Map<string, ISelectionId[]> = new Map();
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
+        this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = "bta-histogram-" + Visual.instanceCounter++;
+        this.emptySelectionId = this.host.createSelectionIdBuilder().createSelectionId();
+        this.allowInteractions = this.host.hostCapabilities?.allowInteractions !== false;
+
+        this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => {
+            this.applySelectionState?.(ids);
+        });
+
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
 
         this.svg = d3.select(this.target)
             .append("svg")
@@ -61,8 +104,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-            this.svg.selectAll("*").remove();
-            this.container = this.svg.append("g").classed("chart-container", true);
             this.htmlTooltip?.hide();
 
             const width = options.viewport.width;
@@ -75,35 +116,43 @@ export class Visual implements IVisual {
             });
 
             if (!options.dataViews || !options.dataViews[0] || (!options.dataViews[0].categorical && !options.dataViews[0].table)) {
-                this.renderNoData();
+                this.renderNoData(width, height);
                 return;
             }
 
             const dataView = options.dataViews[0];
             this.settings = parseSettings(dataView);
+            applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
             this.syncHtmlTooltip();
 
             const context: RenderContext = {
                 svg: this.svg,
                 container: this.container,
                 tooltipService: this.tooltipService,
+                selectionManager: this.selectionManager,
                 root: this.target,
                 width,
                 height,
                 htmlTooltip: this.htmlTooltip,
                 colorPalette: this.host.colorPalette,
-                isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast)
+                isHighContrast: Boolean((this.host.colorPalette as any)?.isHighContrast),
+                onRerender: () => this.bindInteractions()
             };
 
             this.renderer = new ChartRenderer(context);
-            const chartData = ChartTransformer.transform(dataView);
+            const chartData = ChartTransformer.transform(dataView, () => this.host.createSelectionIdBuilder());
+            this.selectionIdsByKey = chartData.selectionIdsByKey ?? new Map();
 
             if (!chartData.dataPoints.length) {
-                this.renderNoData();
+                this.renderNoData(width, height, dataView);
                 return;
             }
 
+            chartData.referenceMeasure = readReferenceMeasure(dataView);
             this.renderer.render(chartData, this.settings);
+
+            this.renderer.renderAccessibility(chartData);
+            this.bindInteractions();
         } catch (error) {
             completed = false;
             eventService?.renderingFailed(options, error instanceof Error ? error.message : String(error));
@@ -115,8 +164,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["values"], dataView),
+            illustration: "bars"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -146,6 +200,11 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
@@ -153,7 +212,8 @@ export class Visual implements IVisual {
             show: this.settings.showLegend,
             position: this.settings.legendPosition,
             fontSize: this.settings.textSizes.legendFontSize || this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createXAxisCard({
@@ -185,9 +245,16 @@ export class Visual implements IVisual {
         }));
 
         cards.push(createSmallMultiplesCard({
+            columns: this.settings.smallMultiples.columns,
+            autoColumns: this.settings.smallMultiples.autoColumns,
             spacing: this.settings.smallMultiples.spacing,
             showTitle: this.settings.smallMultiples.showTitle,
-            titleSpacing: this.settings.smallMultiples.titleSpacing
+            titleSpacing: this.settings.smallMultiples.titleSpacing,
+            overflow: this.settings.smallMultiples.overflow,
+            minPanelHeight: this.settings.smallMultiples.minPanelHeight,
+            sharedXScale: this.settings.smallMultiples.sharedXScale,
+            sharedYScale: this.settings.smallMultiples.sharedYScale,
+            outerAxesOnly: this.settings.smallMultiples.outerAxesOnly
         }));
 
         return { cards };
@@ -211,4 +278,39 @@ export class Visual implements IVisual {
         this.renderer = null;
         this.settings = null;
     }
+
+    private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: "[data-selection-key]"
+        });
+
+        this.applySelectionState = null;
+        if (!this.allowInteractions) {
+            return;
+        }
+
+        if (this.selectionIdsByKey.size > 0) {
+            const binding = bindSelectionByDataKey({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                markSelector: "[data-selection-key]",
+                selectionIdsByKey: this.selectionIdsByKey,
+                dimOpacity: 0.28,
+                selectedOpacity: 1
+            });
+            this.applySelectionState = binding.applySelection;
+            binding.applySelection(this.selectionManager.getSelectionIds());
+        }
+
+        this.svg.on("click", async (event: MouseEvent) => {
+            const target = event.target as Element | null;
+            if (target?.closest("[data-selection-key]")) {
+                return;
+            }
+
+            await this.selectionManager.clear();
+            this.applySelectionState?.([]);
+        });
+    }
 }
@@ -9,9 +9,17 @@ import {
     ChartData,
     calculateLabelRotation,
     formatLabel,
-    formatMeasureValue,
     measureMaxLabelWidth,
-    measureTextWidth
+    measureTextWidth,
+    localize,
+    getDisplayUnitReference,
+    includeReferenceLines,
+    AnnotationPoint,
+    AnnotationTarget,
+    findAnnotationTarget,
+    getPanelAnnotations,
+    matchesAnnotationKey,
+    ALL_GROUP
 } from "@pbi-visuals/shared";
 import { IInlineLabelsLineVisualSettings } from "./settings";
 import { InlineLabelsLineChartData } from "./InlineLabelsLineTransformer";
@@ -38,12 +46,32 @@ type LabelNode = {
     lastY: number;
 };
 
+// One area or line path of a series; with date logic a series splits into past and future parts.
+type SeriesPath = {
+    seriesKey: string;
+    part: "" | "past" | "future";
+    d: string | null;
+    color: string;
+    opacity: number;
+    dashed?: boolean;
+};
+
+type SeriesMarker = {
+    seriesKey: string;
+    cls: string;
+    cx: number;
+    cy: number;
+    r: number;
+    fill: string;
+    opacity: number;
+};
+
 export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IInlineLabelsLineVisualSettings): void {
+    protected draw(data: ChartData, settings: IInlineLabelsLineVisualSettings): void {
         this.settings = settings;
         const lineData = data as InlineLabelsLineChartData;
 
@@ -65,7 +93,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -110,6 +138,11 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
         const xValueOrder = new Map<string, number>(xValues.map((x, idx) => [x, idx]));
         const xLabelByValue = new Map<string, string>();
         xValues.forEach((x, i) => xLabelByValue.set(x, xDisplayLabels[i]));
+        const annotationTargets: AnnotationTarget[] = xValues.map((x, i) => ({
+            key: x,
+            label: xDisplayLabels[i],
+            date: lineData.xMsByValue?.get(x)
+        }));
 
         const dateLogic = settings.dateLogic;
         const dateLogicEnabled = Boolean(
@@ -157,6 +190,11 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
         const labelFontSize = this.getEffectiveFontSize(settings.inlineLabelSettings.labelFontSize, 6, 40);
         const valueFontSize = this.getEffectiveFontSize(settings.inlineLabelSettings.valueFontSize, 6, 40);
         const deltaFontSize = this.getEffectiveFontSize(settings.inlineLabelSettings.deltaFontSize, 6, 40);
+        const secondaryFormatString = lineData.secondaryValueFormatString || lineData.valueFormatString;
+        const secondaryReference = getDisplayUnitReference([lineData.minValue2, lineData.maxValue2]);
+        const formatLabelValue = this.getValueFormatter("label", lineData.valueFormatString, lineData.maxValue);
+        const formatLabelValue2 = this.getValueFormatter("label", secondaryFormatString, secondaryReference);
+        const formatAxis2Value = this.getValueFormatter("axis", secondaryFormatString, secondaryReference);
         const lineGap = 2;
 
         const computeLabelZoneWidth = (): number => {
@@ -164,7 +202,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
             if (yValues.length === 0) return 0;
 
             const nameW = measureMaxLabelWidth(yValues, labelFontSize, labelFontFamily);
-            const sampleValue = formatMeasureValue(lineData.maxValue, lineData.valueFormatString);
+            const sampleValue = formatLabelValue(lineData.maxValue);
             const valueW = measureTextWidth(sampleValue, valueFontSize, labelFontFamily);
             const deltaW = measureTextWidth("+100.0%", deltaFontSize, labelFontFamily);
             const contentW = Math.max(nameW, valueW, deltaW);
@@ -181,11 +219,10 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
             if (!showYAxis2) return 0;
             const min2 = lineData.minValue2 ?? 0;
             const max2 = lineData.maxValue2 ?? 1;
-            const fmt = lineData.secondaryValueFormatString || lineData.valueFormatString;
             const samples = [
-                formatMeasureValue(min2, fmt),
-                formatMeasureValue(max2, fmt),
-                formatMeasureValue(0, fmt)
+                formatAxis2Value(min2),
+                formatAxis2Value(max2),
+                formatAxis2Value(0)
             ];
             const maxW = Math.max(0, ...samples.map(s => measureTextWidth(String(s), yAxis2FontSize, settings.yAxis2FontFamily)));
             return Math.max(36, Math.min(120, Math.ceil(maxW + 14)));
@@ -235,8 +272,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
         const groupHeight = availableHeight / groupCount;
 
         // Use global y range (consistent across panels).
-        const yMin = lineData.minValue;
-        const yMax = lineData.maxValue;
+        const [yMin, yMax] = includeReferenceLines([lineData.minValue, lineData.maxValue], this.getReferenceLines(lineData, []));
         const safeYSpan = (yMax - yMin) || (Math.abs(yMax) || 1);
         const yPadding = safeYSpan * 0.05;
 
@@ -257,17 +293,17 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     overrides.set(k, base[i % base.length]);
                 }
             });
-            return this.getCategoryColors(yValues, overrides);
+            return this.getCategoryColors(yValues, this.withRuleColors(lineData, overrides));
         })();
 
+        const crosshair = this.createCrosshairSync(groups.length);
+        const xIndexByValue = new Map(xValues.map((x, i) => [x, i]));
         let currentY = margin.top;
 
         groups.forEach((groupName, groupIndex) => {
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "inline-labels-line-panel")
-                .attr("transform", `translate(${margin.left}, ${currentY})`);
+            const panelGroup = this.getPanel(groupName, margin.left, currentY, "inline-labels-line-panel");
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const displayTitle = formatLabel(groupName, plotWidth, panelTitleFontSize);
                 const title = panelGroup.append("text")
                     .attr("class", "panel-title")
@@ -279,7 +315,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -317,28 +353,26 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
             });
 
             if (settings.showYAxis) {
-                const yAxisGroup = panelGroup.append("g").attr("class", "y-axis");
+                const yAxisGroup = this.getLayer(panelGroup, "y-axis");
                 const yAxisColor = this.isHighContrastMode() ? this.getThemeForeground(settings.yAxisColor || "#374151") : settings.yAxisColor;
-                yTicks.forEach(t => {
-                    const y = Math.round(yScale(t));
-                    yAxisGroup.append("text")
-                        .attr("x", -8)
-                        .attr("y", y)
-                        .attr("dy", "0.32em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", `${yAxisFontSize}px`)
-                        .attr("font-family", settings.yAxisFontFamily)
-                        .style("font-weight", settings.yAxisBold ? "700" : "400")
-                        .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                        .attr("fill", yAxisColor)
-                        .text(formatMeasureValue(t, lineData.valueFormatString));
-                });
+                const formatAxisValue = this.getValueFormatter("axis", lineData.valueFormatString, getDisplayUnitReference(yTicks));
+                this.joinMarks<SVGTextElement, number>(yAxisGroup, "text.tick-label", yTicks, t => formatAxisValue(t), text => text
+                    .attr("y", t => Math.round(yScale(t)))
+                    .attr("fill", yAxisColor))
+                    .attr("x", -8)
+                    .attr("dy", "0.32em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${yAxisFontSize}px`)
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text(t => formatAxisValue(t));
             }
 
             if (showYAxis2 && yScale2) {
                 const y2Ticks = yScale2.ticks(5);
-                const yAxis2Group = panelGroup.append("g").attr("class", "y-axis-2");
+                const yAxis2Group = this.getLayer(panelGroup, "y-axis-2");
                 const yAxis2Color = this.isHighContrastMode() ? this.getThemeForeground(settings.yAxis2Color || "#6b7280") : settings.yAxis2Color;
                 const axisX = plotWidth + yAxis2Width - 2;
                 const x = plotWidth + yAxis2Width - 8;
@@ -363,19 +397,20 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                         .attr("stroke", yAxis2Color || this.getThemeForeground("#6b7280"))
                         .attr("stroke-width", 1)
                         .attr("opacity", 0.65);
-                    yAxis2Group.append("text")
-                        .attr("x", x)
-                        .attr("y", y)
-                        .attr("dy", "0.32em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", `${yAxis2FontSize}px`)
-                        .attr("font-family", settings.yAxis2FontFamily)
-                        .style("font-weight", settings.yAxis2Bold ? "700" : "400")
-                        .style("font-style", settings.yAxis2Italic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxis2Underline ? "underline" : "none")
-                        .attr("fill", yAxis2Color)
-                        .text(formatMeasureValue(t, lineData.secondaryValueFormatString || lineData.valueFormatString));
                 });
+
+                this.joinMarks<SVGTextElement, number>(yAxis2Group, "text.tick-label", y2Ticks, t => formatAxis2Value(t), text => text
+                    .attr("y", t => Math.round(yScale2(t)))
+                    .attr("fill", yAxis2Color))
+                    .attr("x", x)
+                    .attr("dy", "0.32em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${yAxis2FontSize}px`)
+                    .attr("font-family", settings.yAxis2FontFamily)
+                    .style("font-weight", settings.yAxis2Bold ? "700" : "400")
+                    .style("font-style", settings.yAxis2Italic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxis2Underline ? "underline" : "none")
+                    .text(t => formatAxis2Value(t));
             }
 
             // Build series -> dense points (all x values, with NaN for missing)
@@ -423,21 +458,15 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                 .y1(d => yScale(d.value))
                 .curve(curve);
 
-            // Areas (back)
+            // Areas (back), keyed by series and past/future part
+            const areaPaths: SeriesPath[] = [];
             if (settings.lineSettings.showAreaFill && !this.isHighContrastMode()) {
                 yValues.forEach(seriesKey => {
                     const pts = seriesDense.get(seriesKey);
                     if (!pts) return;
                     const color = colorScale(seriesKey);
                     if (!applyArea) {
-                        panelGroup.append("path")
-                            .datum(pts)
-                            .attr("class", "area-path")
-                            .attr("data-selection-key", seriesKey)
-                            .attr("d", areaGen)
-                            .attr("fill", color)
-                            .attr("opacity", settings.lineSettings.areaOpacity)
-                            .attr("stroke", "none");
+                        areaPaths.push({ seriesKey, part: "", d: areaGen(pts), color, opacity: settings.lineSettings.areaOpacity });
                         return;
                     }
 
@@ -467,40 +496,27 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                         .y1(d => yScale(d.value))
                         .curve(curve);
 
-                    panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "area-path past-area")
-                        .attr("data-selection-key", seriesKey)
-                        .attr("d", pastArea)
-                        .attr("fill", pastFill)
-                        .attr("opacity", pastOpacity)
-                        .attr("stroke", "none");
-
-                    panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "area-path future-area")
-                        .attr("data-selection-key", seriesKey)
-                        .attr("d", futureArea)
-                        .attr("fill", color)
-                        .attr("opacity", futureOpacity)
-                        .attr("stroke", "none");
+                    areaPaths.push({ seriesKey, part: "past", d: pastArea(pts), color: pastFill, opacity: pastOpacity });
+                    areaPaths.push({ seriesKey, part: "future", d: futureArea(pts), color, opacity: futureOpacity });
                 });
             }
-
-            // Lines
+            this.joinMarks<SVGPathElement, SeriesPath>(panelGroup, "path.area-path", areaPaths, p => `${p.seriesKey}\u001f${p.part}`, path => path
+                .attr("d", p => p.d)
+                .attr("fill", p => p.color)
+                .attr("opacity", p => p.opacity))
+                .classed("past-area", p => p.part === "past")
+                .classed("future-area", p => p.part === "future")
+                .attr("data-selection-key", p => p.seriesKey)
+                .attr("stroke", "none");
+
+            // Lines, keyed by series and past/future part
+            const linePaths: SeriesPath[] = [];
             yValues.forEach(seriesKey => {
                 const pts = seriesDense.get(seriesKey);
                 if (!pts) return;
                 const color = colorScale(seriesKey);
                 if (!applyLine) {
-                    panelGroup.append("path")
-                        .datum(pts)
-                        .attr("class", "line-path")
-                        .attr("data-selection-key", seriesKey)
-                        .attr("d", lineGen)
-                        .attr("stroke", color)
-                        .attr("stroke-width", settings.lineSettings.lineWidth)
-                        .attr("opacity", 1);
+                    linePaths.push({ seriesKey, part: "", d: lineGen(pts), color, opacity: 1 });
                     return;
                 }
 
@@ -541,34 +557,25 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     .y(d => yScale(d.value))
                     .curve(curve);
 
-                panelGroup.append("path")
-                    .datum(pts)
-                    .attr("class", "line-path past-line")
-                    .attr("data-selection-key", seriesKey)
-                    .attr("d", pastLine)
-                    .attr("stroke", pastStroke)
-                    .attr("stroke-width", settings.lineSettings.lineWidth)
-                    .attr("opacity", pastOpacity);
-
-                const futurePath = panelGroup.append("path")
-                    .datum(pts)
-                    .attr("class", "line-path future-line")
-                    .attr("data-selection-key", seriesKey)
-                    .attr("d", futureLine)
-                    .attr("stroke", color)
-                    .attr("stroke-width", settings.lineSettings.lineWidth)
-                    .attr("opacity", 1);
-
-                if (dateLogic.futureStyle === "dotted") {
-                    futurePath.attr("stroke-dasharray", "4,4");
-                }
+                linePaths.push({ seriesKey, part: "past", d: pastLine(pts), color: pastStroke, opacity: pastOpacity });
+                linePaths.push({ seriesKey, part: "future", d: futureLine(pts), color, opacity: 1, dashed: dateLogic.futureStyle === "dotted" });
             });
+            this.joinMarks<SVGPathElement, SeriesPath>(panelGroup, "path.line-path", linePaths, p => `${p.seriesKey}\u001f${p.part}`, path => path
+                .attr("d", p => p.d)
+                .attr("stroke", p => p.color)
+                .attr("stroke-width", settings.lineSettings.lineWidth)
+                .attr("opacity", p => p.opacity))
+                .classed("past-line", p => p.part === "past")
+                .classed("future-line", p => p.part === "future")
+                .attr("data-selection-key", p => p.seriesKey)
+                .attr("stroke-dasharray", p => p.dashed ? "4,4" : null);
 
             // Markers: last / last2
             const markerMode = settings.markerSettings.mode;
             const showLast = markerMode === "last" || markerMode === "last2";
             const showPrev = markerMode === "last2";
             const bgStroke = this.getThemeBackground("#ffffff");
+            const markers: SeriesMarker[] = [];
 
             yValues.forEach(seriesKey => {
                 const pts = seriesDense.get(seriesKey);
@@ -589,7 +596,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     return -1;
                 })();
 
-                const drawMarker = (idx: number, cls: string, size: number) => {
+                const addMarker = (idx: number, cls: string, size: number) => {
                     const p = pts[idx];
                     const cx = xScale(xValueOrder.get(p.xValue) ?? 0);
                     const cy = yScale(p.value);
@@ -600,25 +607,27 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                         : color;
                     const fill = applyMarks && !future ? pastFill : color;
                     const opacity = applyMarks && !future && dateLogic?.pastStyle !== "grey" ? dimOpacity : 1;
-                    panelGroup.append("circle")
-                        .attr("class", `line-marker ${cls}`)
-                        .attr("data-selection-key", seriesKey)
-                        .attr("cx", cx)
-                        .attr("cy", cy)
-                        .attr("r", Math.max(0, size / 2))
-                        .attr("fill", fill)
-                        .attr("stroke", bgStroke)
-                        .attr("stroke-width", 2)
-                        .attr("opacity", opacity);
+                    markers.push({ seriesKey, cls, cx, cy, r: Math.max(0, size / 2), fill, opacity });
                 };
 
                 if (showPrev && prevIdx >= 0 && settings.markerSettings.prevMarkerSize > 0) {
-                    drawMarker(prevIdx, "prev-marker", settings.markerSettings.prevMarkerSize);
+                    addMarker(prevIdx, "prev-marker", settings.markerSettings.prevMarkerSize);
                 }
                 if (showLast && settings.markerSettings.lastMarkerSize > 0) {
-                    drawMarker(lastIdx, "last-marker", settings.markerSettings.lastMarkerSize);
+                    addMarker(lastIdx, "last-marker", settings.markerSettings.lastMarkerSize);
                 }
             });
+            this.joinMarks<SVGCircleElement, SeriesMarker>(panelGroup, "circle.line-marker", markers, m => `${m.seriesKey}\u001f${m.cls}`, circle => circle
+                .attr("cx", m => m.cx)
+                .attr("cy", m => m.cy)
+                .attr("r", m => m.r)
+                .attr("fill", m => m.fill)
+                .attr("opacity", m => m.opacity))
+                .classed("prev-marker", m => m.cls === "prev-marker")
+                .classed("last-marker", m => m.cls === "last-marker")
+                .attr("data-selection-key", m => m.seriesKey)
+                .attr("stroke", bgStroke)
+                .attr("stroke-width", 2);
 
             // Point value labels (at each stop)
             const pointLabels = settings.pointValueLabels;
@@ -646,10 +655,10 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
 
                 // For auto density, compute a skip interval based on available x step and typical label width.
                 const step = plotWidth / Math.max(1, xValues.length - 1);
-                const sample = formatMeasureValue(lineData.maxValue, lineData.valueFormatString);
+                const sample = formatLabelValue(lineData.maxValue);
                 const sampleW = measureTextWidth(sample, fontSize, "Segoe UI");
                 const sample2 = lineData.secondaryValueFormatString
-                    ? formatMeasureValue(lineData.maxValue, lineData.secondaryValueFormatString)
+                    ? formatLabelValue2(lineData.maxValue)
                     : sample;
                 const sampleW2 = measureTextWidth(sample2, value2FontSize, "Segoe UI");
                 const needed = Math.max(sampleW, sampleW2) + padX * 2 + 6;
@@ -679,9 +688,9 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
 
                         const cx = xScale(xValueOrder.get(p.xValue) ?? 0);
                         const cy = yScale(p.value);
-                        const valueText = formatMeasureValue(p.value, lineData.valueFormatString);
+                        const valueText = formatLabelValue(p.value);
                         const value2Text = (showValue2 && Number.isFinite(p.value2))
-                            ? formatMeasureValue(p.value2, lineData.secondaryValueFormatString || lineData.valueFormatString)
+                            ? formatLabelValue2(p.value2)
                             : "";
                         const lines: Array<{ text: string; fontSize: number; kind: "primary" | "secondary" }> = (() => {
                             if (!value2Text) return [{ text: valueText, fontSize, kind: "primary" }];
@@ -828,7 +837,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                 const maxLabelWidth = Math.max(80, labelZoneWidth - 24);
                 const maxTextW = Math.max(20, maxLabelWidth - labelPadding * 2);
 
-                const valueLabel = lineData.valueDisplayName || "Value";
+                const valueLabel = lineData.valueDisplayName || localize("Visual_Value");
 
                 const computeDelta = (last: number, prev: number | null): { text: string; positive?: boolean } => {
                     const mode = settings.inlineLabelSettings.deltaMode;
@@ -839,7 +848,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     const pct = prev === 0 ? null : (deltaAbs / prev) * 100;
 
                     const fmtAbs = (): string => {
-                        const v = formatMeasureValue(deltaAbs, lineData.valueFormatString);
+                        const v = formatLabelValue(deltaAbs);
                         const sign = deltaAbs > 0 ? "+" : "";
                         return `${sign}${v}`;
                     };
@@ -882,7 +891,7 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     const valueText = (() => {
                         const content = settings.inlineLabelSettings.content;
                         if (content === "name_only") return "";
-                        const v = formatMeasureValue(last.value, lineData.valueFormatString);
+                        const v = formatLabelValue(last.value);
                         // When showing value-only, use measure label for tooltip meta; inline value stays numeric.
                         return v;
                     })();
@@ -935,14 +944,17 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     sim.tick(130);
                 }
 
-                // Draw label groups + leader lines
-                nodes.forEach(n => {
-                    const half = n.height / 2;
-                    const clampedY = Math.max(half, Math.min(groupHeight - half, n.y));
-                    const g = panelGroup.append("g")
-                        .attr("class", "end-label-group")
-                        .attr("data-selection-key", n.seriesKey)
-                        .attr("transform", `translate(${labelX}, ${Math.round(clampedY - half)})`);
+                // Label groups are keyed by series and slide to their new place; their content is redrawn.
+                const clampY = (n: LabelNode): number => Math.max(n.height / 2, Math.min(groupHeight - n.height / 2, n.y));
+                const labelGroups = this.joinMarks<SVGGElement, LabelNode>(panelGroup, "g.end-label-group", nodes, n => n.seriesKey, group => group
+                    .attr("transform", n => `translate(${labelX}, ${Math.round(clampY(n) - n.height / 2)})`))
+                    .attr("data-selection-key", n => n.seriesKey);
+
+                // Draw label content + leader lines
+                labelGroups.each((n, i, groupNodes) => {
+                    const clampedY = clampY(n);
+                    const g = d3.select(groupNodes[i]);
+                    g.selectAll("*").remove();
 
                     // Optional leader line from last point to label edge.
                     if (settings.inlineLabelSettings.showLeaderLines) {
@@ -989,15 +1001,38 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                         { displayName: valueLabel, value: n.valueText, color: n.color } as any
                     ];
                     if (n.deltaText) {
-                        tipRows.push({ displayName: "Change", value: n.deltaText } as any);
+                        tipRows.push({ displayName: localize("Visual_Change"), value: n.deltaText } as any);
                     }
-                    if (groupName !== "All" && groupName !== "(Blank)") {
-                        tipRows.push({ displayName: "Group", value: groupName } as any);
+                    if (groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
+                        tipRows.push({ displayName: localize("Visual_Group"), value: groupName } as any);
                     }
                     this.addTooltip(g as any, tipRows, { title: n.seriesKey, subtitle, color: n.color });
                 });
             }
 
+            // Reference lines on the primary axis (statistics over Value, not Value 2)
+            this.renderReferenceLines(
+                panelGroup,
+                this.getReferenceLines(lineData, groupPoints.map((p) => p.value)),
+                yScale,
+                { width: plotWidth, height: groupHeight },
+                "horizontal"
+            );
+
+            // Notes sit on their series' point, or on the highest point at that x.
+            const annotationPoints: AnnotationPoint[] = [];
+            getPanelAnnotations(lineData.annotations, groupName).forEach((annotation) => {
+                const index = findAnnotationTarget(annotation.anchor, annotationTargets);
+                if (index < 0) return;
+                const values = Array.from(seriesDense.entries())
+                    .filter(([seriesKey]) => matchesAnnotationKey(annotation.anchor, seriesKey))
+                    .map(([, pts]) => pts[index].value)
+                    .filter((value) => Number.isFinite(value));
+                if (!values.length) return;
+                annotationPoints.push({ annotation, x: xScale(index), y: yScale(Math.max(...values)) });
+            });
+            this.renderAnnotations(panelGroup, annotationPoints, { width: plotWidth, height: groupHeight });
+
             // Tooltip overlay + crosshair
             const overlay = panelGroup.append("rect")
                 .attr("class", "tooltip-overlay")
@@ -1035,14 +1070,14 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                 const rows: VisualTooltipDataItem[] = [];
                 yValues.forEach(seriesKey => {
                     const v = pointsBySeriesByX.get(seriesKey)?.get(xVal);
-                    const formatted = Number.isFinite(v) ? formatMeasureValue(v!, lineData.valueFormatString) : "(Blank)";
+                    const formatted = Number.isFinite(v) ? this.formatTooltipValue(v, lineData.valueFormatString) : localize("Visual_Blank");
                     rows.push({ displayName: seriesKey, value: formatted, color: colorScale(seriesKey) } as any);
 
                     const v2 = points2BySeriesByX.get(seriesKey)?.get(xVal);
                     if (lineData.secondaryValueFormatString || lineData.secondaryValueDisplayName) {
                         const formatted2 = Number.isFinite(v2)
-                            ? formatMeasureValue(v2!, lineData.secondaryValueFormatString || lineData.valueFormatString)
-                            : "(Blank)";
+                            ? this.formatTooltipValue(v2, secondaryFormatString)
+                            : localize("Visual_Blank");
                         rows.push({
                             displayName: `${seriesKey} (${lineData.secondaryValueDisplayName || "Value 2"})`,
                             value: formatted2,
@@ -1050,8 +1085,8 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                         } as any);
                     }
                 });
-                if (groupName !== "All" && groupName !== "(Blank)") {
-                    rows.push({ displayName: "Group", value: groupName } as any);
+                if (groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
+                    rows.push({ displayName: localize("Visual_Group"), value: groupName } as any);
                 }
 
                 if (!settings.tooltip?.enabled) return;
@@ -1100,11 +1135,27 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                     this.context.tooltipService.hide({ immediately: true, isTouchEvent: false });
                 });
 
+            // Mirror the hovered x value into the other panels.
+            crosshair?.addPanel(panelGroup, {
+                key: groupName,
+                width: plotWidth,
+                height: groupHeight,
+                pick: (px) => xValues[Math.max(0, Math.min(xValues.length - 1, Math.round(xScale.invert(px))))] ?? null,
+                locate: (xValue) => xIndexByValue.has(xValue) ? xScale(xIndexByValue.get(xValue)!) : null,
+                values: (xValue) => yValues.flatMap(seriesKey => {
+                    const v = pointsBySeriesByX.get(seriesKey)?.get(xValue);
+                    return Number.isFinite(v)
+                        ? [{ label: seriesKey, value: this.formatTooltipValue(v, lineData.valueFormatString), y: yScale(v!), color: colorScale(seriesKey) }]
+                        : [];
+                }),
+                label: (xValue) => xDisplayLabels[xIndexByValue.get(xValue) ?? -1] ?? xValue,
+                ownsHover: true
+            });
+
             // X axis (only last panel)
             if (settings.showXAxis && groupIndex === groups.length - 1) {
-                const xAxisGroup = panelGroup.append("g")
-                    .attr("class", "x-axis")
-                    .attr("transform", `translate(0, ${groupHeight + 5})`);
+                const xAxisGroup = this.getLayer(panelGroup, "x-axis", axis => axis
+                    .attr("transform", `translate(0, ${groupHeight + 5})`));
 
                 const shouldRotate = needsRotation;
                 const skip = labelSkipInterval;
@@ -1117,31 +1168,20 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
                 if (visibleIdx.length && visibleIdx[visibleIdx.length - 1] !== lastIdx) {
                     visibleIdx.push(lastIdx);
                 }
-                const visibleSet = new Set(visibleIdx);
-
                 const xAxisColor = this.isHighContrastMode() ? this.getThemeForeground(settings.xAxisColor || "#6b7280") : settings.xAxisColor;
 
-                xValues.forEach((xVal, i) => {
-                    if (!visibleSet.has(i)) return;
-                    const x = Math.round(xScale(i));
-
-                    const text = xAxisGroup.append("text")
-                        .attr("x", x)
-                        .attr("y", shouldRotate ? 5 : 12)
-                        .attr("font-size", `${xAxisFontSize}px`)
-                        .attr("font-family", settings.xAxisFontFamily)
-                        .style("font-weight", settings.xAxisBold ? "700" : "400")
-                        .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                        .attr("fill", xAxisColor)
-                        .text(xDisplayLabels[i]);
-
-                    if (shouldRotate) {
-                        text.attr("transform", `rotate(-45, ${x}, 5)`).attr("text-anchor", "end");
-                    } else {
-                        text.attr("text-anchor", "middle");
-                    }
-                });
+                this.joinMarks<SVGTextElement, number>(xAxisGroup, "text.tick-label", visibleIdx, i => xValues[i], text => text
+                    .attr("x", i => Math.round(xScale(i)))
+                    .attr("y", shouldRotate ? 5 : 12)
+                    .attr("transform", i => shouldRotate ? `rotate(-45, ${Math.round(xScale(i))}, 5)` : null)
+                    .attr("fill", xAxisColor))
+                    .attr("text-anchor", shouldRotate ? "end" : "middle")
+                    .attr("font-size", `${xAxisFontSize}px`)
+                    .attr("font-family", settings.xAxisFontFamily)
+                    .style("font-weight", settings.xAxisBold ? "700" : "400")
+                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                    .text(i => xDisplayLabels[i]);
             }
 
             currentY += groupHeight + interPanelGap;
@@ -1158,4 +1198,8 @@ export class InlineLabelsLineRenderer extends BaseRenderer<IInlineLabelsLineVisu
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_LineChart");
+    }
 }
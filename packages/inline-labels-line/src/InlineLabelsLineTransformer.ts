@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatDataValue, formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatDataValue, formatGroupValue, localize, ALL_GROUP } from "@pbi-visuals/shared";
 
 export interface InlineLabelsLineChartData extends ChartData {
     dataPoints: InlineLabelsLineDataPoint[];
@@ -160,7 +160,7 @@ export class InlineLabelsLineTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (primaryColFromUngrouped?.values as any[]) ?? [],
                 highlights: (primaryColFromUngrouped?.highlights as any[]) ?? undefined,
                 values2: (secondaryColFromUngrouped?.values as any[]) ?? undefined,
@@ -232,8 +232,8 @@ export class InlineLabelsLineTransformer {
 
                 const seriesKeyRaw = seriesIndex >= 0
                     ? String(categorical.categories![seriesIndex].values[i] ?? "")
-                    : String(valueDisplayName ?? "Value");
-                const seriesKey = seriesKeyRaw.trim() ? seriesKeyRaw.trim() : "All";
+                    : String(valueDisplayName ?? localize("Visual_Value"));
+                const seriesKey = seriesKeyRaw.trim() ? seriesKeyRaw.trim() : localize("Visual_Blank");
                 seriesKeysSet.add(seriesKey);
 
                 const rawValue = Number(values[i]);
@@ -322,8 +322,8 @@ export class InlineLabelsLineTransformer {
         return {
             dataPoints,
             xValues,
-            yValues: seriesKeys.length ? seriesKeys : [String(valueDisplayName ?? "Value")],
-            groups: groups.length ? groups : ["All"],
+            yValues: seriesKeys.length ? seriesKeys : [String(valueDisplayName ?? localize("Visual_Value"))],
+            groups: groups.length ? groups : [ALL_GROUP],
             maxValue,
             minValue,
             hasLegendRoleData: seriesIndex >= 0 && seriesKeys.length > 0,
@@ -9,11 +9,27 @@ import {
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IReferenceLinesSettings,
+    createDefaultReferenceLinesSettings,
+    parseReferenceLinesSettings,
+    IAnnotationSettings,
+    defaultAnnotationSettings,
+    parseAnnotationSettings,
+    ICrosshairSettings,
+    defaultCrosshairSettings,
+    parseCrosshairSettings,
     defaultTextSizeSettings,
     ITextSizeSettings,
     TooltipStyle,
     TooltipTheme,
     LegendPosition,
+    LegendOverflow,
     ColorScheme
 } from "@pbi-visuals/shared";
 
@@ -102,13 +118,17 @@ export interface IInlineLabelsLineVisualSettings extends IBaseVisualSettings {
     inlineLabelSettings: IInlineLabelSettings;
     pointValueLabels: IPointValueLabelSettings;
     dateLogic: IDateLogicSettings;
+    referenceLines: IReferenceLinesSettings;
+    annotations: IAnnotationSettings;
+    crosshair: ICrosshairSettings;
 }
 
 export const defaultSettings: IInlineLabelsLineVisualSettings = {
-    colorScheme: "vibrant" as ColorScheme,
+    colorScheme: "theme" as ColorScheme,  // no scheme picker; follow the report theme
     legendPosition: defaultLegendSettings.legendPosition as LegendPosition,
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showLegend: false,
 
     showXAxis: true,
@@ -139,6 +159,12 @@ export const defaultSettings: IInlineLabelsLineVisualSettings = {
     rotateXLabels: "auto" as RotateLabelsMode,
 
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    referenceLines: createDefaultReferenceLinesSettings(),
+    annotations: { ...defaultAnnotationSettings },
+    crosshair: { ...defaultCrosshairSettings },
 
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
@@ -228,6 +254,13 @@ export function parseSettings(dataView: DataView): IInlineLabelsLineVisualSettin
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.referenceLines = parseReferenceLinesSettings(objects);
+    settings.annotations = parseAnnotationSettings(objects);
+    settings.crosshair = parseCrosshairSettings(objects);
+
     // Legend
     const legendObj = objects["legend"];
     if (legendObj) {
@@ -235,6 +268,7 @@ export function parseSettings(dataView: DataView): IInlineLabelsLineVisualSettin
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
         settings.legendFontSize = Math.max(6, Math.min(40, Number(settings.legendFontSize) || defaultSettings.legendFontSize));
         settings.maxLegendItems = Math.max(1, Math.min(50, Number(settings.maxLegendItems) || defaultSettings.maxLegendItems));
     }
@@ -17,19 +17,42 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    readReferenceMeasure,
+    createAnnotationsCard,
+    createCrosshairCard,
+    readAnnotations,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     createXAxisCard,
     createYAxisCard,
     findCategoryIndex,
     getSchemeColors,
     readCategoryColorsFromDataView,
+    readRuleColorsByCategory,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    localize,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 
 import { IInlineLabelsLineVisualSettings, parseSettings } from "./settings";
 import { InlineLabelsLineTransformer } from "./InlineLabelsLineTransformer";
 import { InlineLabelsLineRenderer } from "./InlineLabelsLineRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 function findCategoryIndicesForRole(dataView: powerbi.DataView, roleName: string): number[] {
     const indices: number[] = [];
     const cats = dataView?.categorical?.categories;
@@ -43,15 +66,15 @@ function findCategoryIndicesForRole(dataView: powerbi.DataView, roleName: string
 
 function createLineSettingsCard(settings: IInlineLabelsLineVisualSettings["lineSettings"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Lines & Fill",
+        displayName: localize("Visual_LinesFill"),
         uid: "lineSettings_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "lineSettings_group",
             slices: [
                 {
                     uid: "line_curve",
-                    displayName: "Curve",
+                    displayName: localize("Visual_Curve"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -62,7 +85,7 @@ function createLineSettingsCard(settings: IInlineLabelsLineVisualSettings["lineS
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "line_width",
-                    displayName: "Line Width",
+                    displayName: localize("Visual_LineWidth"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -77,7 +100,7 @@ function createLineSettingsCard(settings: IInlineLabelsLineVisualSettings["lineS
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "line_showAreaFill",
-                    displayName: "Show Area Fill",
+                    displayName: localize("Visual_ShowAreaFill"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -88,7 +111,7 @@ function createLineSettingsCard(settings: IInlineLabelsLineVisualSettings["lineS
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "line_areaOpacity",
-                    displayName: "Area Opacity",
+                    displayName: localize("Visual_AreaOpacity"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -108,15 +131,15 @@ function createLineSettingsCard(settings: IInlineLabelsLineVisualSettings["lineS
 
 function createMarkerSettingsCard(settings: IInlineLabelsLineVisualSettings["markerSettings"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Markers",
+        displayName: localize("Visual_Markers"),
         uid: "markerSettings_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "markerSettings_group",
             slices: [
                 {
                     uid: "marker_mode",
-                    displayName: "Mode",
+                    displayName: localize("Visual_Mode"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -127,7 +150,7 @@ function createMarkerSettingsCard(settings: IInlineLabelsLineVisualSettings["mar
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "marker_lastSize",
-                    displayName: "Last Marker Size",
+                    displayName: localize("Visual_LastMarkerSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -142,7 +165,7 @@ function createMarkerSettingsCard(settings: IInlineLabelsLineVisualSettings["mar
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "marker_prevSize",
-                    displayName: "Previous Marker Size",
+                    displayName: localize("Visual_PreviousMarkerSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -162,15 +185,15 @@ function createMarkerSettingsCard(settings: IInlineLabelsLineVisualSettings["mar
 
 function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inlineLabelSettings"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Inline Labels",
+        displayName: localize("Visual_InlineLabels"),
         uid: "inlineLabelSettings_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "inlineLabelSettings_group",
             slices: [
                 {
                     uid: "inline_enabled",
-                    displayName: "Enabled",
+                    displayName: localize("Visual_Enabled"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -181,7 +204,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_content",
-                    displayName: "Content",
+                    displayName: localize("Visual_Content"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -192,7 +215,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_deltaMode",
-                    displayName: "Delta Mode",
+                    displayName: localize("Visual_DeltaMode"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -203,7 +226,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_leader",
-                    displayName: "Show Leader Lines",
+                    displayName: localize("Visual_ShowLeaderLines"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -214,7 +237,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_labelFont",
-                    displayName: "Name Font Size",
+                    displayName: localize("Visual_NameFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -229,7 +252,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_valueFont",
-                    displayName: "Value Font Size",
+                    displayName: localize("Visual_ValueFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -244,7 +267,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_deltaFont",
-                    displayName: "Delta Font Size",
+                    displayName: localize("Visual_DeltaFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -259,7 +282,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_padding",
-                    displayName: "Padding",
+                    displayName: localize("Visual_Padding"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -274,7 +297,7 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "inline_gap",
-                    displayName: "Gap",
+                    displayName: localize("Visual_Gap"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -294,15 +317,15 @@ function createInlineLabelCard(settings: IInlineLabelsLineVisualSettings["inline
 
 function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["pointValueLabels"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Point Values",
+        displayName: localize("Visual_PointValues"),
         uid: "pointValueLabels_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "pointValueLabels_group",
             slices: [
                 {
                     uid: "pointValues_enabled",
-                    displayName: "Show Values",
+                    displayName: localize("Visual_ShowValues"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -313,7 +336,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_placement",
-                    displayName: "Placement",
+                    displayName: localize("Visual_Placement"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -324,7 +347,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_showValue2",
-                    displayName: "Show Value 2",
+                    displayName: localize("Visual_ShowValue2"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -335,7 +358,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_value2Position",
-                    displayName: "Value 2 Position",
+                    displayName: localize("Visual_Value2Position"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -346,7 +369,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_density",
-                    displayName: "Density",
+                    displayName: localize("Visual_Density"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -357,7 +380,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_fontSize",
-                    displayName: "Font Size",
+                    displayName: localize("Visual_FontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -372,7 +395,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_color",
-                    displayName: "Color",
+                    displayName: localize("Visual_Color"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -383,7 +406,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_value2FontSize",
-                    displayName: "Value 2 Font Size",
+                    displayName: localize("Visual_Value2FontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -398,7 +421,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_value2Color",
-                    displayName: "Value 2 Color",
+                    displayName: localize("Visual_Value2Color"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -409,7 +432,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_valueLineGap",
-                    displayName: "Value Line Gap",
+                    displayName: localize("Visual_ValueLineGap"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -424,7 +447,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_bg",
-                    displayName: "Background",
+                    displayName: localize("Visual_Background"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -435,7 +458,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_bgColor",
-                    displayName: "Background Color",
+                    displayName: localize("Visual_BackgroundColor"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -446,7 +469,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_bgOpacity",
-                    displayName: "Background Opacity",
+                    displayName: localize("Visual_BackgroundOpacity"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -461,7 +484,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_offset",
-                    displayName: "Offset",
+                    displayName: localize("Visual_Offset"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -476,7 +499,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_insideOffset",
-                    displayName: "Inside Offset",
+                    displayName: localize("Visual_InsideOffset"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -491,7 +514,7 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "pointValues_haloWidth",
-                    displayName: "Halo Width",
+                    displayName: localize("Visual_HaloWidth"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -511,15 +534,15 @@ function createPointValueLabelsCard(settings: IInlineLabelsLineVisualSettings["p
 
 function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogic"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Date Logic",
+        displayName: localize("Visual_DateLogic"),
         uid: "dateLogicSettings_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "dateLogicSettings_group",
             slices: [
                 {
                     uid: "dateLogic_enabled",
-                    displayName: "Enabled",
+                    displayName: localize("Visual_Enabled"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -530,7 +553,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_cutoff",
-                    displayName: "Cutoff",
+                    displayName: localize("Visual_Cutoff"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -541,7 +564,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_customDate",
-                    displayName: "Custom Date",
+                    displayName: localize("Visual_CustomDate"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.TextInput,
                         properties: {
@@ -552,7 +575,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_futureStyle",
-                    displayName: "Future Style",
+                    displayName: localize("Visual_FutureStyle"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -563,7 +586,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_pastStyle",
-                    displayName: "Past Style",
+                    displayName: localize("Visual_PastStyle"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -574,7 +597,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_dimOpacity",
-                    displayName: "Dim Opacity",
+                    displayName: localize("Visual_DimOpacity"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -589,7 +612,7 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dateLogic_applyTo",
-                    displayName: "Apply To",
+                    displayName: localize("Visual_ApplyTo"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -605,15 +628,15 @@ function createDateLogicCard(settings: IInlineLabelsLineVisualSettings["dateLogi
 
 function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Y-Axis (Value 2)",
+        displayName: localize("Visual_YAxisValue2"),
         uid: "yAxis2Settings_card",
         groups: [{
-            displayName: "Settings",
+            displayName: localize("Visual_Settings"),
             uid: "yAxis2Settings_group",
             slices: [
                 {
                     uid: "yAxis2_show",
-                    displayName: "Show Y-Axis",
+                    displayName: localize("Visual_ShowYAxis"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -624,7 +647,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_fontSize",
-                    displayName: "Font Size",
+                    displayName: localize("Visual_FontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -639,7 +662,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_fontFamily",
-                    displayName: "Font Family",
+                    displayName: localize("Visual_FontFamily"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.FontPicker,
                         properties: {
@@ -650,7 +673,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_color",
-                    displayName: "Color",
+                    displayName: localize("Visual_Color"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -661,7 +684,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_bold",
-                    displayName: "Bold",
+                    displayName: localize("Visual_Bold"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -672,7 +695,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_italic",
-                    displayName: "Italic",
+                    displayName: localize("Visual_Italic"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -683,7 +706,7 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "yAxis2_underline",
-                    displayName: "Underline",
+                    displayName: localize("Visual_Underline"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -699,15 +722,15 @@ function createYAxis2Card(settings: IInlineLabelsLineVisualSettings): powerbi.vi
 
 function createLegendWithShowCard(settings: IInlineLabelsLineVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Legend",
+        displayName: localize("Visual_Legend"),
         uid: "legend_card",
         groups: [{
-            displayName: "Legend Settings",
+            displayName: localize("Visual_LegendSettings"),
             uid: "legend_group",
             slices: [
                 {
                     uid: "legend_show",
-                    displayName: "Show Legend",
+                    displayName: localize("Visual_ShowLegend"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -718,7 +741,7 @@ function createLegendWithShowCard(settings: IInlineLabelsLineVisualSettings): po
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "legend_position",
-                    displayName: "Position",
+                    displayName: localize("Visual_Position"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -729,7 +752,7 @@ function createLegendWithShowCard(settings: IInlineLabelsLineVisualSettings): po
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "legend_fontSize",
-                    displayName: "Font Size",
+                    displayName: localize("Visual_FontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -744,7 +767,7 @@ function createLegendWithShowCard(settings: IInlineLabelsLineVisualSettings): po
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "legend_maxItems",
-                    displayName: "Max Items",
+                    displayName: localize("Visual_MaxItems"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -756,6 +779,17 @@ function createLegendWithShowCard(settings: IInlineLabelsLineVisualSettings): po
                             }
                         }
                     }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "legend_overflow",
+                    displayName: localize("Visual_LegendOverflow"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.Dropdown,
+                        properties: {
+                            descriptor: { objectName: "legend", propertyName: "overflow" },
+                            value: settings.legendOverflow
+                        }
+                    }
                 } as powerbi.visuals.FormattingSlice
             ]
         }]
@@ -788,6 +822,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-inline-labels-line-${Visual.instanceCounter++}`;
@@ -798,6 +834,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -817,8 +861,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-            this.svg.selectAll("*").remove();
-            this.container = this.svg.append("g").classed("chart-container", true);
             this.htmlTooltip?.hide();
 
             const width = options.viewport.width;
@@ -832,12 +874,13 @@ export class Visual implements IVisual {
             });
 
             if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-                this.renderNoData();
+                this.renderNoData(width, height);
                 return;
             }
 
             const dataView = options.dataViews[0];
             this.settings = parseSettings(dataView);
+            applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
             this.syncHtmlTooltip();
 
             // Prefer Legend. If not provided, allow the 2nd X-Axis field to act as series split.
@@ -847,9 +890,9 @@ export class Visual implements IVisual {
             this.categoryFieldIndex = legendIdx >= 0 ? legendIdx : secondaryXAxisIdx;
             this.buildCategorySelectionIds(dataView);
             const rawColorMap = readCategoryColorsFromDataView(dataView, this.categoryFieldIndex);
-            // Normalize keys to match transformer (trim + blank->All)
+            // Normalize keys to match transformer (trim + blank->Visual_Blank)
             this.categoryColors = new Map(Array.from(rawColorMap.entries()).map(([k, v]) => {
-                const key = String(k ?? "").trim() ? String(k ?? "").trim() : "All";
+                const key = String(k ?? "").trim() ? String(k ?? "").trim() : localize("Visual_Blank");
                 return [key, v] as [string, string];
             }));
 
@@ -870,7 +913,7 @@ export class Visual implements IVisual {
 
             const chartData = InlineLabelsLineTransformer.transform(dataView.categorical);
             if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-                this.renderNoData();
+                this.renderNoData(width, height, dataView);
                 return;
             }
 
@@ -889,7 +932,14 @@ export class Visual implements IVisual {
             }
 
             chartData.categoryColorMap = this.categoryColors;
+            chartData.ruleColorsByKey = new Map(Array.from(readRuleColorsByCategory(dataView, this.categoryFieldIndex).entries()).map(([k, v]) => {
+                const key = String(k ?? "").trim() ? String(k ?? "").trim() : localize("Visual_Blank");
+                return [key, v] as [string, string];
+            }));
+            chartData.referenceMeasure = readReferenceMeasure(dataView);
+            chartData.annotations = readAnnotations(dataView, this.settings.annotations, { x: "xAxis", key: ["legend"] });
             this.renderer.render(chartData, this.settings);
+            this.renderer.renderAccessibility(chartData);
             this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -902,8 +952,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "values"], dataView),
+            illustration: "lines"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -938,7 +993,7 @@ export class Visual implements IVisual {
 
         for (let i = 0; i < categoryColumn.values.length; i++) {
             const raw = String(categoryColumn.values[i] ?? "");
-            const categoryValue = raw.trim() ? raw.trim() : "All";
+            const categoryValue = raw.trim() ? raw.trim() : localize("Visual_Blank");
             if (seen.has(categoryValue)) continue;
             seen.add(categoryValue);
 
@@ -955,6 +1010,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".line-path[data-selection-key], .area-path[data-selection-key], .line-marker[data-selection-key], .end-label-group[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) return;
         if (!this.settings) return;
@@ -978,17 +1038,6 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".line-path[data-selection-key], .area-path[data-selection-key], .line-marker[data-selection-key], .end-label-group[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 
     public getFormattingModel(): powerbi.visuals.FormattingModel {
@@ -1001,7 +1050,7 @@ export class Visual implements IVisual {
         if (this.categories.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
             cards.push(createDataColorsCard(
                 this.categories,
                 this.categorySelectionIds,
@@ -1019,6 +1068,13 @@ export class Visual implements IVisual {
         cards.push(createLegendWithShowCard(this.settings));
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createAnnotationsCard(this.settings.annotations));
+        cards.push(createCrosshairCard(this.settings.crosshair));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createYAxisCard({
             show: this.settings.showYAxis,
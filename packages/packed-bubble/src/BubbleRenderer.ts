@@ -1,6 +1,6 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, formatLabel, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, formatLabel, localize, ALL_GROUP } from "@pbi-visuals/shared";
 import { IBubbleVisualSettings } from "./settings";
 import { BubbleData, BubbleNode } from "./BubbleTransformer";
 
@@ -16,7 +16,7 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
         super(context);
     }
 
-    public render(data: any, settings: IBubbleVisualSettings): void {
+    protected draw(data: any, settings: IBubbleVisualSettings): void {
         this.settings = settings;
         const bubbleData = data as BubbleData;
 
@@ -36,7 +36,7 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -59,6 +59,14 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
             ? this.getCategoryColors(legendItems, bubbleData.categoryColorMap)
             : null;
         const fallbackColor = this.getCategoryColor(0);
+        // Bubbles are keyed by category, so fx rules color individual bubbles over the legend color.
+        // An "Others" bubble mixes legend values and takes the Top-N card's color instead.
+        const bubbleColorFor = (d: BubbleNode): string => {
+            if (bubbleData.othersByGroup?.get(d.groupValue)?.has(d.category)) {
+                return settings.topN.othersColor;
+            }
+            return this.getRuleColor(bubbleData, d.category) ?? (colorScale ? colorScale(d.legendKey) : fallbackColor);
+        };
         const bubbleStroke = this.isHighContrastMode() ? this.getThemeForeground("#111827") : "#ffffff";
 
         // Radius scale based on values
@@ -82,12 +90,10 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
             const centerX = chartWidth / 2;
             const centerY = groupHeight / 2;
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "bubble-panel")
-                .attr("transform", `translate(${Math.round(margin.left)}, ${Math.round(currentY)})`);
+            const panelGroup = this.getPanel(groupName, Math.round(margin.left), Math.round(currentY), "bubble-panel");
 
             // Group title with configurable spacing
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleFontSize = this.getEffectiveFontSize(
                     settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize,
@@ -104,7 +110,7 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -159,31 +165,29 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
                 simulation.tick();
             }
 
-            // SVG rendering
-            const bubbles = panelGroup.selectAll(".bubble")
-                .data(groupNodes)
-                .enter()
-                .append("circle")
-                .attr("class", "bubble")
-                .attr("data-selection-key", d => d.category)
+            // SVG rendering, keyed by category so a bubble moves and resizes to its new layout
+            const bubbles = this.joinMarks<SVGCircleElement, SimulationNode>(panelGroup, "circle.bubble", groupNodes, d => d.category, circle => circle
                 .attr("cx", d => this.snapToPixelInt(d.x))
                 .attr("cy", d => this.snapToPixelInt(d.y))
                 .attr("r", d => d.radius)
-                .attr("fill", d => (colorScale ? colorScale(d.legendKey) : fallbackColor))
+                .attr("fill", d => bubbleColorFor(d))
+                .attr("opacity", this.isHighContrastMode() ? 1 : 0.85))
+                .attr("data-selection-key", d => d.category)
+                .attr("data-legend-key", d => d.legendKey)
                 .attr("stroke", bubbleStroke)
-                .attr("stroke-width", 2)
-                .attr("opacity", this.isHighContrastMode() ? 1 : 0.85);
+                .attr("stroke-width", 2);
 
             // Add tooltips
             bubbles.each((d, i, nodes) => {
                 const bubble = d3.select(nodes[i]);
-                const bubbleColor = colorScale ? colorScale(d.legendKey) : fallbackColor;
-                const valueLabel = bubbleData.valueDisplayName || "Value";
+                const bubbleColor = bubbleColorFor(d);
+                const valueLabel = bubbleData.valueDisplayName || localize("Visual_Value");
                 this.addTooltip(bubble as any, [
-                    { displayName: valueLabel, value: formatMeasureValue(d.value, bubbleData.valueFormatString), color: bubbleColor }
+                    { displayName: valueLabel, value: this.formatTooltipValue(d.value, bubbleData.valueFormatString), color: bubbleColor },
+                    ...this.getOthersTooltipRows(bubbleData, groupName, d.category)
                 ], {
                     title: d.category,
-                    subtitle: (groupName !== "All" && groupName !== "(Blank)") ? groupName : undefined,
+                    subtitle: (groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) ? groupName : undefined,
                     color: bubbleColor
                 });
             });
@@ -203,18 +207,14 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
                     );
                 };
 
-                panelGroup.selectAll(".bubble-label")
-                    .data(groupNodes.filter(d => d.radius >= 20))
-                    .enter()
-                    .append("text")
-                    .attr("class", "bubble-label")
+                this.joinMarks<SVGTextElement, SimulationNode>(panelGroup, "text.bubble-label", groupNodes.filter(d => d.radius >= 20), d => d.category, text => text
                     .attr("x", d => Math.round(d.x))
                     .attr("y", d => Math.round(d.y))
+                    .attr("fill", d => this.getContrastColor(bubbleColorFor(d))))
                     .attr("dy", "0.35em")
                     .attr("text-anchor", "middle")
                     .attr("font-size", d => getFontSize(d.radius) + "px")
                     .attr("font-weight", "600")
-                    .attr("fill", d => this.getContrastColor(colorScale ? colorScale(d.legendKey) : fallbackColor))
                     .attr("pointer-events", "none")
                     .text(d => this.truncateLabel(d.category, d.radius, getFontSize(d.radius)));
             }
@@ -241,4 +241,8 @@ export class BubbleRenderer extends BaseRenderer<IBubbleVisualSettings> {
         const maxWidth = Math.max(0, radius * 1.8);
         return formatLabel(text, maxWidth, fontSize);
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_PackedBubbleChart");
+    }
 }
@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { formatGroupValue } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatGroupValue, ITopNSettings, TopNOthers, selectTopN, collectOthers, setOthersForKey, ALL_GROUP, localize } from "@pbi-visuals/shared";
 
 export interface BubbleNode {
     id: string;
@@ -16,17 +16,12 @@ export interface BubbleNode {
     y?: number;
 }
 
-export interface BubbleData {
+export interface BubbleData extends ChartData {
     nodes: BubbleNode[];
     categories: string[];
     legendItems: string[];
-    groups: string[];
-    maxValue: number;
-    minValue: number;
-    categoryColorMap?: Map<string, string>;
     hasLegendRoleData: boolean;
-    valueFormatString?: string;
-    valueDisplayName?: string;
+    othersByGroup?: Map<string, Map<string, TopNOthers>>;
 }
 
 export class BubbleTransformer {
@@ -64,7 +59,7 @@ export class BubbleTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -90,9 +85,9 @@ export class BubbleTransformer {
                 const categorySource = yAxisIndex >= 0 ? yAxisIndex : legendIndex;
                 const category = categorySource >= 0
                     ? String(categorical.categories![categorySource].values[i] ?? "")
-                    : "All";
+                    : localize("Visual_All");
                 const legendKeyRaw = legendIndex >= 0 ? categorical.categories![legendIndex].values[i] : null;
-                const legendKey = legendIndex >= 0 ? String(legendKeyRaw ?? "") : "All";
+                const legendKey = legendIndex >= 0 ? String(legendKeyRaw ?? "") : localize("Visual_All");
                 const rawValue = Number(values[i]) || 0;
                 const hasHighlight = highlights && highlights[i] !== null && highlights[i] !== undefined;
                 const highlightValue = hasHighlight ? (Number(highlights![i]) || 0) : 0;
@@ -113,7 +108,7 @@ export class BubbleTransformer {
                         value,
                         radius: 0, // Will be calculated based on scale
                         groupValue,
-                        legendKey: legendKey || "All",
+                        legendKey: legendKey || localize("Visual_All"),
                         index: i
                     });
                 }
@@ -127,6 +122,77 @@ export class BubbleTransformer {
         if (minValue === Infinity) minValue = 0;
 
         const hasLegendRoleData = legendIndex >= 0 && legendItems.length > 0;
-        return { nodes, categories, legendItems, groups, maxValue, minValue, hasLegendRoleData, valueFormatString, valueDisplayName };
+        return {
+            nodes,
+            dataPoints: BubbleTransformer.toDataPoints(nodes, hasLegendRoleData),
+            xValues: categories,
+            yValues: legendItems,
+            categories,
+            legendItems,
+            groups,
+            maxValue,
+            minValue,
+            hasLegendRoleData,
+            valueFormatString,
+            valueDisplayName
+        };
+    }
+
+    /**
+     * Folds the categories the Top-N card leaves out into one "Others" bubble per group, ranking
+     * categories by their total over all groups.
+     */
+    public static applyTopN(data: BubbleData, settings: ITopNSettings): void {
+        const totals = new Map<string, number>();
+        data.nodes.forEach(n => totals.set(n.category, (totals.get(n.category) ?? 0) + n.value));
+        const kept = selectTopN(totals, settings);
+        if (!kept) {
+            return;
+        }
+
+        const nodes = data.nodes.filter(n => kept.has(n.category));
+        const categories = data.categories.filter(c => kept.has(c));
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        if (settings.showOthers) {
+            data.groups.forEach(group => {
+                const groupTotals = new Map<string, number>();
+                data.nodes
+                    .filter(n => n.groupValue === group)
+                    .forEach(n => groupTotals.set(n.category, (groupTotals.get(n.category) ?? 0) + n.value));
+                const others = collectOthers(groupTotals, kept, settings);
+                if (!others) return;
+
+                nodes.push({
+                    id: `bubble-others-${group}`,
+                    category: others.label,
+                    value: others.value,
+                    radius: 0,
+                    groupValue: group,
+                    legendKey: others.label,
+                    index: nodes.length
+                });
+                setOthersForKey(othersByGroup, group, others.label, others);
+                if (!categories.includes(others.label)) categories.push(others.label);
+            });
+        }
+
+        data.nodes = nodes;
+        data.dataPoints = BubbleTransformer.toDataPoints(nodes, data.hasLegendRoleData);
+        data.categories = categories;
+        data.xValues = categories;
+        data.maxValue = nodes.reduce((max, n) => Math.max(max, n.value), 0);
+        data.minValue = nodes.length ? nodes.reduce((min, n) => Math.min(min, n.value), Infinity) : 0;
+        data.othersByGroup = othersByGroup;
+    }
+
+    // One data point per bubble, so the shared screen-reader summary and table describe the nodes.
+    private static toDataPoints(nodes: BubbleNode[], hasLegendRoleData: boolean): DataPoint[] {
+        return nodes.map(node => ({
+            xValue: node.category,
+            yValue: hasLegendRoleData ? node.legendKey : node.category,
+            value: node.value,
+            groupValue: node.groupValue,
+            index: node.index
+        }));
     }
 }
@@ -6,10 +6,20 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    ITopNSettings,
+    defaultTopNSettings,
+    parseTopNSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -33,6 +43,7 @@ export interface IBubbleTextSizeSettings {
 export interface IBubbleVisualSettings extends IBaseVisualSettings {
     bubble: IBubbleSettings;
     textSizes: IBubbleTextSizeSettings;
+    topN: ITopNSettings;
 }
 
 export const defaultSettings: IBubbleVisualSettings = {
@@ -40,6 +51,7 @@ export const defaultSettings: IBubbleVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: false,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -56,6 +68,10 @@ export const defaultSettings: IBubbleVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "never",  // Packed bubble doesn't use X-axis but needs the property
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    topN: { ...defaultTopNSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     bubble: {
@@ -95,6 +111,7 @@ export function parseSettings(dataView: DataView): IBubbleVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     // Tooltip settings
@@ -120,6 +137,11 @@ export function parseSettings(dataView: DataView): IBubbleVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.topN = parseTopNSettings(objects);
+
     // Custom colors settings
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
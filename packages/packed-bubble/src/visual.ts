@@ -20,16 +20,37 @@ import {
     createSmallMultiplesCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createTopNCard,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     findCategoryIndex,
     getSchemeColors,
     readCategoryColorsFromDataView,
+    readRuleColorsByCategory,
+    getOthersLabel,
+    addOthersSelectionIds,
+    SelectionIdsByKey,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { IBubbleVisualSettings, parseSettings } from "./settings";
 import { BubbleTransformer } from "./BubbleTransformer";
 import { BubbleRenderer } from "./BubbleRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -48,6 +69,8 @@ export class Visual implements IVisual {
 
     // Data-bound colors
     private categorySelectionIds: Map<string, ISelectionId> = new Map();
+    // Category ids plus the ids of an "Others" bubble, keyed like the bubbles.
+    private bubbleSelectionIds: SelectionIdsByKey = new Map();
     private categories: string[] = [];
     private categoryColors: Map<string, string> = new Map();
     private categoryFieldIndex: number = -1;
@@ -55,6 +78,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-bubble-${Visual.instanceCounter++}`;
@@ -65,6 +90,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -84,9 +117,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        // Clear previous content
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -102,7 +132,7 @@ export class Visual implements IVisual {
 
         // Validate data
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
@@ -110,6 +140,7 @@ export class Visual implements IVisual {
 
         // Parse settings
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
         this.syncHtmlTooltip();
 
         // Find the yAxis category index (bubble categories)
@@ -140,18 +171,26 @@ export class Visual implements IVisual {
 
         // Transform data
         const chartData = BubbleTransformer.transform(dataView.categorical);
+        BubbleTransformer.applyTopN(chartData, this.settings.topN);
 
         // Check if data is empty
         if (!chartData.nodes || chartData.nodes.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
 
+        this.bubbleSelectionIds = new Map(this.categorySelectionIds);
+        if (chartData.othersByGroup?.size) {
+            addOthersSelectionIds(this.bubbleSelectionIds, getOthersLabel(this.settings.topN), this.categories.filter(c => !chartData.categories.includes(c)));
+        }
+
         // Pass color overrides to chart data
         chartData.categoryColorMap = this.categoryColors;
+        chartData.ruleColorsByKey = readRuleColorsByCategory(dataView, this.categoryFieldIndex);
 
         // Render the chart
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -192,8 +231,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["yAxis", "values"], dataView),
+            illustration: "bubbles"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -223,7 +267,7 @@ export class Visual implements IVisual {
         if (objectName === "categoryColors" && this.categories.length > 0 && this.settings) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             this.categories.forEach((category, index) => {
                 const color = this.categoryColors.get(category) || defaultColors[index % defaultColors.length];
@@ -253,7 +297,7 @@ export class Visual implements IVisual {
         if (this.categories.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             cards.push(createDataColorsCard(
                 this.categories,
@@ -264,13 +308,19 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createTopNCard(this.settings.topN));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
         cards.push(createLegendCard({
             position: this.settings.legendPosition,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createTextSizesCard({
@@ -307,17 +357,22 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".bubble[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
         }
 
-        if (this.categorySelectionIds.size > 0) {
+        if (this.bubbleSelectionIds.size > 0) {
             const binding = bindSelectionByDataKey({
                 root: this.target,
                 selectionManager: this.selectionManager,
                 markSelector: ".bubble[data-selection-key]",
-                selectionIdsByKey: this.categorySelectionIds,
+                selectionIdsByKey: this.bubbleSelectionIds,
                 dimOpacity: 0.2,
                 selectedOpacity: 1
             });
@@ -334,16 +389,5 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".bubble[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 }
@@ -1,6 +1,6 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue, AccessibleSummary, localize, localizeFormat, getDisplayUnitReference, CanvasMarkTooltip, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
 import { IChartData, IParallelRow } from "./ChartTransformer";
 
@@ -9,7 +9,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
@@ -18,7 +18,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
         const categoryKeys = Array.from(new Set(chartData.rows.map((r) => r.category)));
         const legendKeys = groups.length > 1 ? groups : categoryKeys;
         const legendFontSize = settings.textSizes?.legendFontSize || settings.legendFontSize || 11;
@@ -31,86 +31,132 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 availableHeight: this.context.height
             })
             : { top: 0, right: 0, bottom: 0, left: 0 };
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const margin = {
             top: 24 + legendReservation.top,
             right: 20 + legendReservation.right,
-            bottom: 36 + legendReservation.bottom,
+            bottom: 12 + legendReservation.bottom,
             left: 20 + legendReservation.left
         };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
         const width = Math.max(180, this.context.width - margin.left - margin.right);
-        const height = Math.max(140, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        // Value labels sit inside the panel next to each axis, so only the dimension names need room below.
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width,
+            height: Math.max(140, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.8,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0,
+            axisBottom: 24
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelWidth = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
 
         const axisX = d3.scalePoint<string>()
             .domain(chartData.dimensions.map((d) => d.key))
-            .range([0, width])
+            .range([0, panelWidth])
             .padding(0.2);
 
-        const yByDim = new Map<string, ReturnType<typeof d3.scaleLinear>>();
-        chartData.dimensions.forEach((dim) => {
-            yByDim.set(dim.key, d3.scaleLinear().domain([dim.min, dim.max || dim.min + 1]).range([panelHeight, 0]));
-        });
+        // Each dimension's axis spans all rows with a shared Y scale, or only the panel's rows.
+        const getDimensionDomains = (rows: IParallelRow[]): Map<string, [number, number]> => {
+            const domains = new Map<string, [number, number]>();
+            chartData.dimensions.forEach((dim) => {
+                if (smallMultiples.sharedYScale) {
+                    domains.set(dim.key, [dim.min, dim.max]);
+                    return;
+                }
+                const values = rows.map((row) => row.values[dim.key]).filter((v) => Number.isFinite(v));
+                domains.set(dim.key, values.length ? [Math.min(...values), Math.max(...values)] : [dim.min, dim.max]);
+            });
+            return domains;
+        };
 
         const colorKeys = groups.length > 1 ? groups : categoryKeys;
         const colorScale = this.getCategoryColors(colorKeys.length ? colorKeys : groups);
-        const colorForRow = (row: IParallelRow): string => groups.length > 1 ? colorScale(row.group) : colorScale(row.category);
+        const legendKeyForRow = (row: IParallelRow): string => groups.length > 1 ? row.group : row.category;
+        const colorForRow = (row: IParallelRow): string =>
+            this.getRuleColor(chartData, row.id) ?? colorScale(legendKeyForRow(row));
         const lineStrokeWidth = groups.length > 1 ? 1.8 : 2.6;
         const lineStrokeOpacity = groups.length > 1 ? 0.55 : 0.78;
 
-        const pathForRow = (row: IParallelRow): string => {
-            const points: Array<[number, number]> = [];
-            chartData.dimensions.forEach((dim) => {
-                const x = axisX(dim.key);
-                const yScale = yByDim.get(dim.key);
-                const v = row.values[dim.key];
-                if (x === undefined || !yScale || !Number.isFinite(v)) return;
-                points.push([x, Number(yScale(v as number))]);
-            });
-            return d3.line<[number, number]>().curve(d3.curveMonotoneX)(points as any) || "";
-        };
+        const useCanvas = this.shouldUseCanvas(chartData.rows.length);
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const rows = chartData.rows.filter((r) => r.group === groupName);
             if (!rows.length) return;
 
-            if (chartData.dimensions.length > 1) {
-                panel.selectAll("path.mark-halo")
-                    .data(rows)
-                    .join("path")
-                    .attr("class", "mark-halo")
-                    .attr("d", (d: IParallelRow) => pathForRow(d))
+            const domainByDim = getDimensionDomains(rows);
+            const yByDim = new Map<string, ReturnType<typeof d3.scaleLinear>>();
+            domainByDim.forEach(([min, max], key) => {
+                yByDim.set(key, d3.scaleLinear().domain([min, max || min + 1]).range([panelHeight, 0]));
+            });
+            const pathForRow = (row: IParallelRow): string => {
+                const points: Array<[number, number]> = [];
+                chartData.dimensions.forEach((dim) => {
+                    const x = axisX(dim.key);
+                    const yScale = yByDim.get(dim.key);
+                    const v = row.values[dim.key];
+                    if (x === undefined || !yScale || !Number.isFinite(v)) return;
+                    points.push([x, Number(yScale(v as number))]);
+                });
+                return d3.line<[number, number]>().curve(d3.curveMonotoneX)(points as any) || "";
+            };
+
+            const lineTooltip = (d: IParallelRow, dimKey: string): CanvasMarkTooltip => ({
+                dataItems: [
+                    { displayName: localize("Visual_Category"), value: d.category, color: colorForRow(d) },
+                    { displayName: dimKey, value: this.formatTooltipValue(d.values[dimKey], chartData.formatByDimension.get(dimKey)) }
+                ],
+                meta: {
+                    title: d.category,
+                    subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                    color: colorForRow(d)
+                }
+            });
+
+            const canvasLayer = useCanvas
+                ? this.createCanvasLayer(panel, { x: -4, y: -4, width: Math.round(panelWidth) + 8, height: Math.round(panelHeight) + 8 })
+                : null;
+
+            if (chartData.dimensions.length > 1 && canvasLayer) {
+                // No halos or hover emphasis on canvas: with this many lines they only add noise.
+                const firstDim = chartData.dimensions[0];
+                rows.forEach((d) => {
+                    canvasLayer.add({
+                        type: "path",
+                        key: d.id,
+                        legendKey: legendKeyForRow(d),
+                        d: pathForRow(d),
+                        stroke: colorForRow(d),
+                        strokeWidth: lineStrokeWidth,
+                        strokeOpacity: lineStrokeOpacity,
+                        tooltip: () => lineTooltip(d, firstDim.key)
+                    });
+                });
+            } else if (chartData.dimensions.length > 1) {
+                this.joinMarks<SVGPathElement, IParallelRow>(panel, "path.mark-halo", rows, (d) => d.id, (path) => path
+                    .attr("d", (d) => pathForRow(d)))
                     .attr("fill", "none")
                     .attr("stroke", "#ffffff")
                     .attr("stroke-width", lineStrokeWidth + 1.8)
                     .attr("stroke-opacity", 0.55);
 
-                const marks = panel.selectAll("path.mark")
-                    .data(rows)
-                    .join("path")
-                    .attr("class", "mark")
-                    .attr("d", (d: IParallelRow) => pathForRow(d))
+                const marks = this.joinMarks<SVGPathElement, IParallelRow>(panel, "path.mark", rows, (d) => d.id, (path) => path
+                    .attr("d", (d) => pathForRow(d))
+                    .attr("stroke", (d) => colorForRow(d)))
+                    .attr("data-selection-key", (d) => d.id)
+                    .attr("data-legend-key", (d) => legendKeyForRow(d))
                     .attr("fill", "none")
-                    .attr("stroke", (d: IParallelRow) => colorForRow(d))
                     .attr("stroke-width", lineStrokeWidth)
                     .attr("stroke-opacity", lineStrokeOpacity)
                     .style("mix-blend-mode", "multiply")
-                    .each((d: IParallelRow, i, nodes) => {
-                        const firstDim = chartData.dimensions[0];
-                        const firstValue = d.values[firstDim.key];
-                        this.addTooltip(d3.select(nodes[i]) as any, [
-                            { displayName: "Category", value: d.category, color: colorForRow(d) },
-                            { displayName: firstDim.key, value: formatMeasureValue(firstValue, chartData.formatByDimension.get(firstDim.key)) }
-                        ], {
-                            title: d.category,
-                            subtitle: groupName !== "All" ? groupName : undefined,
-                            color: colorForRow(d)
-                        });
+                    .each((d, i, nodes) => {
+                        const tooltip = lineTooltip(d, chartData.dimensions[0].key);
+                        this.addTooltip(d3.select(nodes[i]) as any, tooltip.dataItems, tooltip.meta);
                     });
 
                 marks.on("mouseenter", function (_event, _d) {
@@ -133,17 +179,14 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         value: row.values[dim.key]
                     })));
 
-                    panel.selectAll("circle.axis-point")
-                        .data(pointRows)
-                        .join("circle")
-                        .attr("class", "axis-point")
-                        .attr("cx", (d: { dimKey: string }) => Math.round(axisX(d.dimKey) ?? 0))
-                        .attr("cy", (d: { dimKey: string; value: number }) => {
+                    this.joinMarks<SVGCircleElement, typeof pointRows[number]>(panel, "circle.axis-point", pointRows, (d) => d.row.id + "\u001f" + d.dimKey, (circle) => circle
+                        .attr("cx", (d) => Math.round(axisX(d.dimKey) ?? 0))
+                        .attr("cy", (d) => {
                             const y = yByDim.get(d.dimKey);
                             return y ? Math.round(Number(y(d.value))) : 0;
                         })
                         .attr("r", groups.length > 1 ? 2.4 : 2.9)
-                        .attr("fill", (d: { row: IParallelRow }) => colorForRow(d.row))
+                        .attr("fill", (d) => colorForRow(d.row)))
                         .attr("stroke", "#ffffff")
                         .attr("stroke-width", 1)
                         .attr("fill-opacity", 0.95);
@@ -152,32 +195,42 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 const dim = chartData.dimensions[0];
                 const x = axisX(dim.key);
                 const y = yByDim.get(dim.key);
-                if (x !== undefined && y) {
-                    panel.selectAll("circle.mark")
-                        .data(rows)
-                        .join("circle")
-                        .attr("class", "mark")
-                        .attr("cx", (_d: IParallelRow, i: number) => Math.round(x + (((i % 7) - 3) * 1.5)))
-                        .attr("cy", (d: IParallelRow) => Math.round(Number(y(d.values[dim.key]))))
+                if (x !== undefined && y && canvasLayer) {
+                    rows.forEach((d, i) => {
+                        canvasLayer.add({
+                            type: "circle",
+                            key: d.id,
+                            legendKey: legendKeyForRow(d),
+                            cx: Math.round(x + (((i % 7) - 3) * 1.5)),
+                            cy: Math.round(Number(y(d.values[dim.key]))),
+                            r: 3.8,
+                            fill: colorForRow(d),
+                            fillOpacity: 0.95,
+                            stroke: "#ffffff",
+                            strokeWidth: 1,
+                            tooltip: () => lineTooltip(d, dim.key)
+                        });
+                    });
+                } else if (x !== undefined && y) {
+                    this.joinMarks<SVGCircleElement, IParallelRow>(panel, "circle.mark", rows, (d) => d.id, (circle) => circle
+                        .attr("cx", (_d, i) => Math.round(x + (((i % 7) - 3) * 1.5)))
+                        .attr("cy", (d) => Math.round(Number(y(d.values[dim.key]))))
+                        .attr("fill", (d) => colorForRow(d)))
+                        .attr("data-selection-key", (d) => d.id)
+                        .attr("data-legend-key", (d) => legendKeyForRow(d))
                         .attr("r", 3.8)
-                        .attr("fill", (d: IParallelRow) => colorForRow(d))
                         .attr("fill-opacity", 0.95)
                         .attr("stroke", "#ffffff")
                         .attr("stroke-width", 1)
-                        .each((d: IParallelRow, i, nodes) => {
-                            const value = d.values[dim.key];
-                            this.addTooltip(d3.select(nodes[i]) as any, [
-                                { displayName: "Category", value: d.category, color: colorForRow(d) },
-                                { displayName: dim.key, value: formatMeasureValue(value, chartData.formatByDimension.get(dim.key)) }
-                            ], {
-                                title: d.category,
-                                subtitle: groupName !== "All" ? groupName : undefined,
-                                color: colorForRow(d)
-                            });
+                        .each((d, i, nodes) => {
+                            const tooltip = lineTooltip(d, dim.key);
+                            this.addTooltip(d3.select(nodes[i]) as any, tooltip.dataItems, tooltip.meta);
                         });
                 }
             }
 
+            const xLabels: string[] = [];
+            const yLabels: Array<{ dimKey: string; x: number; y: number; text: string }> = [];
             chartData.dimensions.forEach((dim) => {
                 const x = axisX(dim.key);
                 const y = yByDim.get(dim.key);
@@ -192,35 +245,45 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     .attr("stroke-width", 1.6)
                     .attr("opacity", 0.8);
 
-                if (settings.showXAxis) {
-                    panel.append("text")
-                        .attr("x", Math.round(x))
-                        .attr("y", Math.round(panelHeight + 14))
-                        .attr("text-anchor", "middle")
-                        .attr("font-size", (settings.textSizes.xAxisFontSize || settings.xAxisFontSize) + "px")
-                        .attr("fill", settings.xAxisColor)
-                        .text(dim.key);
+                if (settings.showXAxis && cell.showXAxis) {
+                    xLabels.push(dim.key);
                 }
 
-                if (settings.showYAxis) {
-                    panel.selectAll("text.y-label-" + dim.key.replace(/\s+/g, "-"))
-                        .data([0, 0.5, 1])
-                        .join("text")
-                        .attr("x", Math.round(x - 6))
-                        .attr("y", (f: number) => Math.round(Number(y(dim.min + (dim.max - dim.min) * f))) + 4)
-                        .attr("text-anchor", "end")
-                        .attr("font-size", (settings.textSizes.yAxisFontSize || settings.yAxisFontSize) + "px")
-                        .attr("fill", settings.yAxisColor)
-                        .text((f: number) => formatMeasureValue(dim.min + (dim.max - dim.min) * f, chartData.formatByDimension.get(dim.key)));
+                if (settings.showYAxis && cell.showYAxis) {
+                    const [dimMin, dimMax] = domainByDim.get(dim.key) ?? [dim.min, dim.max];
+                    const formatAxisValue = this.getValueFormatter("axis", chartData.formatByDimension.get(dim.key), getDisplayUnitReference([dimMin, dimMax]));
+                    [0, 0.5, 1].forEach((f) => yLabels.push({
+                        dimKey: dim.key,
+                        x: Math.round(x - 6),
+                        y: Math.round(Number(y(dimMin + (dimMax - dimMin) * f))) + 4,
+                        text: formatAxisValue(dimMin + (dimMax - dimMin) * f)
+                    }));
                 }
             });
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            // Axis labels are keyed by measure (and, on the Y axes, by label), so reordered axes slide.
+            this.joinMarks<SVGTextElement, string>(panel, "text.x-label", xLabels, (key) => key, (text) => text
+                .attr("x", (key) => Math.round(axisX(key) ?? 0))
+                .attr("y", Math.round(panelHeight + 14))
+                .attr("fill", settings.xAxisColor))
+                .attr("text-anchor", "middle")
+                .attr("font-size", (settings.textSizes.xAxisFontSize || settings.xAxisFontSize) + "px")
+                .text((key) => key);
+
+            this.joinMarks<SVGTextElement, typeof yLabels[number]>(panel, "text.y-label", yLabels, (l) => l.dimKey + "\u001f" + l.text, (text) => text
+                .attr("x", (l) => l.x)
+                .attr("y", (l) => l.y)
+                .attr("fill", settings.yAxisColor))
+                .attr("text-anchor", "end")
+                .attr("font-size", (settings.textSizes.yAxisFontSize || settings.yAxisFontSize) + "px")
+                .text((l) => l.text);
+
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
@@ -238,8 +301,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     availableHeight: Math.max(0, margin.top - 6)
                 });
             } else if (categoryKeys.length > 1) {
-                const maxItems = Math.max(1, settings.maxLegendItems || 8);
-                this.renderLegend(colorScale, 1, true, categoryKeys.slice(0, maxItems), undefined, undefined, {
+                this.renderLegend(colorScale, 1, true, categoryKeys, undefined, undefined, {
                     alignFrame: {
                         x: margin.left,
                         y: 0,
@@ -252,4 +314,26 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             }
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_ParallelCoordinatesChart");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const chartData = data as IChartData;
+        const measures = chartData.dimensions.map((dimension) => dimension.key);
+        const hasGroups = chartData.groups.length > 1;
+        return {
+            label: localizeFormat("Visual_A11y_RowsAcrossMeasures", this.getAccessibleChartType(), chartData.rows.length, measures.length, measures.join(", ")),
+            table: this.buildAccessibleTable(() => ({
+                caption: localizeFormat("Visual_A11y_TableCaption", this.getAccessibleChartType()),
+                columns: [...(hasGroups ? [localize("Visual_Group")] : []), localize("Visual_Category"), ...measures],
+                rows: chartData.rows.map((row) => [
+                    ...(hasGroups ? [row.group] : []),
+                    row.category,
+                    ...chartData.dimensions.map((dimension) => formatMeasureValue(row.values[dimension.key], chartData.formatByDimension.get(dimension.key)))
+                ])
+            }))
+        };
+    }
 }
@@ -2,7 +2,19 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    formatGroupValue,
+    localize,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IParallelRow {
     id: string;
@@ -24,7 +36,7 @@ export interface IChartData extends ChartData {
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -54,26 +66,29 @@ export class ChartTransformer {
         const rows: IParallelRow[] = [];
         const dataPoints: DataPoint[] = [];
         const groupsSet = new Set<string>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
 
         const dimensionExtents = new Map<string, { min: number; max: number }>();
         const formatByDimension = new Map<string, string | undefined>();
 
         measureCols.forEach((col) => {
-            const key = String(col.source.displayName || "Value");
+            const key = String(col.source.displayName || localize("Visual_Value"));
             formatByDimension.set(key, (col.source as any)?.format as string | undefined);
             dimensionExtents.set(key, { min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY });
         });
 
         for (let i = 0; i < rowCount; i++) {
             const category = categoryCol ? String(categoryCol.values[i] ?? ("Item " + (i + 1))) : ("Item " + (i + 1));
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
             groupsSet.add(group);
 
             const values: Record<string, number> = {};
             let validCount = 0;
 
             measureCols.forEach((col) => {
-                const key = String(col.source.displayName || "Value");
+                const key = String(col.source.displayName || localize("Visual_Value"));
                 const num = Number(col.values[i]);
                 if (!Number.isFinite(num)) return;
                 validCount++;
@@ -89,6 +104,10 @@ export class ChartTransformer {
             });
 
             rows.push({ id: String(i), category, group, values });
+            if (createSelectionIdBuilder) {
+                addSelectionIdForKey(selectionIdsByKey, String(i), createCategoryRowSelectionId(createSelectionIdBuilder, [categoryCol, groupCol], i));
+            }
+            addRuleColorForKey(ruleColorsByKey, String(i), ruleColors.getRowColor(i));
             dataPoints.push({ xValue: category, yValue: group, value: 0, groupValue: group, index: i });
         }
 
@@ -108,7 +127,9 @@ export class ChartTransformer {
             minValue: 0,
             rows,
             dimensions,
-            formatByDimension
+            formatByDimension,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
@@ -1,18 +1,20 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, formatMeasureValue, AccessibleSummary, summarizeChartData, localize, localizeFormat, computeSmallMultiplesGrid, ALL_GROUP, getGroupLabel } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
 import { IChartData } from "./ChartTransformer";
 
 declare const require: any;
 const sankeyLib = require("d3-sankey");
 
+const NODE_PADDING = 10;
+
 export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
@@ -22,91 +24,224 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         }
 
         const groups = chartData.groups;
-        const margin = { top: 24, right: 12, bottom: 18, left: 12 };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(220, this.context.width - margin.left - margin.right);
-        const height = Math.max(140, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
-
-        groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+        const margin = { top: groups.length > 1 ? 12 : 24, right: 12, bottom: 18, left: 12 };
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(220, this.context.width - margin.left - margin.right),
+            height: Math.max(140, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.6,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 12 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const width = grid.panelWidth;
 
+        const layoutGroup = (groupName: string, height: number): any => {
             const nodesRaw = chartData.nodesByGroup.get(groupName) ?? [];
             const linksRaw = chartData.linksByGroup.get(groupName) ?? [];
-            if (!nodesRaw.length || !linksRaw.length) return;
-
-            const graph = {
-                nodes: nodesRaw.map((n) => ({ ...n })),
-                links: linksRaw.map((l) => ({ ...l }))
-            };
-
-            const sankey = sankeyLib.sankey()
+            if (!nodesRaw.length || !linksRaw.length) return null;
+            return sankeyLib.sankey()
                 .nodeId((d: any) => d.id)
                 .nodeWidth(16)
-                .nodePadding(10)
-                .extent([[0, 0], [width, panelHeight]]);
-
-            const layout = sankey(graph);
-            const colorScale = this.getCategoryColors(layout.nodes.map((n: any) => String(n.id)));
-
-            panel.append("g")
-                .selectAll("path.mark")
-                .data(layout.links)
-                .join("path")
-                .attr("class", "mark")
-                .attr("d", sankeyLib.sankeyLinkHorizontal())
+                .nodePadding(NODE_PADDING)
+                .extent([[0, 0], [width, height]])({
+                    nodes: nodesRaw.map((n) => ({ ...n })),
+                    links: linksRaw.map((l) => ({ ...l }))
+                });
+        };
+        const layouts = new Map<string, any>(groups.map((groupName) => [groupName, layoutGroup(groupName, grid.panelHeight)]));
+
+        // A shared value scale gives every panel the pixels per unit of its tightest panel:
+        // the others are laid out again in the height that yields that scale.
+        if (smallMultiples.sharedYScale && groups.length > 1) {
+            const scales = Array.from(layouts.values())
+                .map((layout) => layout ? this.getNodeScale(layout.nodes) : NaN)
+                .filter((ky) => Number.isFinite(ky));
+            const sharedScale = scales.length ? Math.min(...scales) : NaN;
+            if (Number.isFinite(sharedScale)) {
+                layouts.forEach((layout, groupName) => {
+                    if (!layout) return;
+                    const height = Math.min(grid.panelHeight, this.getHeightForNodeScale(layout.nodes, sharedScale));
+                    layouts.set(groupName, layoutGroup(groupName, height));
+                });
+            }
+        }
+
+        // A shared color scale keeps a node's color the same in every panel.
+        const sharedColorScale = smallMultiples.sharedColorScale
+            ? this.getCategoryColors(Array.from(new Set(Array.from(layouts.values()).flatMap((layout) => layout ? layout.nodes.map((n: any) => String(n.id)) : []))))
+            : null;
+
+        groups.forEach((groupName, groupIndex) => {
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
+
+            const layout = layouts.get(groupName);
+            if (!layout) return;
+
+            const colorScale = sharedColorScale ?? this.getCategoryColors(layout.nodes.map((n: any) => String(n.id)));
+            const isOthers = (node: any): boolean => !!chartData.othersByGroup?.get(groupName)?.has(node.selectionKey);
+            const nodeColor = (node: any): string => (isOthers(node) ? settings.topN.othersColor : colorScale(String(node.id)));
+            const nodeLabel = (node: any): string => String(node.label ?? node.id);
+            const hasHighlights = chartData.hasHighlights;
+            const linkOpacity = 0.35;
+            // fx rules color links (one per flow row); nodes keep the palette.
+            const linkColor = (d: any): string => this.getRuleColor(chartData, d.selectionKey) ?? nodeColor(d.source);
+
+            // Links and nodes are keyed by their selection keys, so the flows reshape in place.
+            const linkPath = sankeyLib.sankeyLinkHorizontal();
+            this.joinMarks<SVGPathElement, any>(this.getLayer(panel, "links"), "path.mark", layout.links, (d: any) => d.selectionKey, (path) => path
+                .attr("d", linkPath)
+                .attr("stroke", (d: any) => linkColor(d))
+                .attr("stroke-opacity", hasHighlights ? linkOpacity * DIMMED_HIGHLIGHT_OPACITY : linkOpacity)
+                .attr("stroke-width", (d: any) => Math.max(1, d.width)))
+                .attr("data-selection-key", (d: any) => d.selectionKey)
                 .attr("fill", "none")
-                .attr("stroke", (d: any) => colorScale(String(d.source.id)))
-                .attr("stroke-opacity", 0.35)
-                .attr("stroke-width", (d: any) => Math.max(1, d.width))
                 .each((d: any, i: number, nodes: any[]) => {
-                    this.addTooltip(d3.select(nodes[i]) as any, [
-                        { displayName: "Source", value: String(d.source.id), color: colorScale(String(d.source.id)) },
-                        { displayName: "Target", value: String(d.target.id) },
-                        { displayName: "Value", value: formatMeasureValue(d.value, chartData.valueFormatString) }
-                    ], {
-                        title: String(d.source.id) + " -> " + String(d.target.id),
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color: colorScale(String(d.source.id))
+                    const tooltipRows = [
+                        { displayName: localize("Visual_Source"), value: nodeLabel(d.source), color: nodeColor(d.source) },
+                        { displayName: localize("Visual_Target"), value: nodeLabel(d.target) },
+                        { displayName: localize("Visual_Value"), value: this.formatTooltipValue(d.value, chartData.valueFormatString) }
+                    ];
+                    if (hasHighlights) {
+                        tooltipRows.push({ displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(d.highlightValue, chartData.valueFormatString) });
+                    }
+                    this.addTooltip(d3.select(nodes[i]) as any, tooltipRows, {
+                        title: nodeLabel(d.source) + " -> " + nodeLabel(d.target),
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                        color: linkColor(d)
                     });
                 });
 
-            const nodeG = panel.append("g")
-                .selectAll("g.mark")
-                .data(layout.nodes)
-                .join("g")
-                .attr("class", "mark");
+            // Highlighted share of each link, drawn as a narrower band over the dimmed full link.
+            if (hasHighlights) {
+                const highlightLayer = this.getLayer(panel, "highlight-layer").style("pointer-events", "none");
+                this.joinMarks<SVGPathElement, any>(
+                    highlightLayer,
+                    "path.highlight",
+                    layout.links.filter((d: any) => d.highlightValue > 0),
+                    (d: any) => d.selectionKey,
+                    (path) => path
+                        .attr("d", linkPath)
+                        .attr("stroke", (d: any) => linkColor(d))
+                        .attr("stroke-width", (d: any) => Math.max(1, d.width * Math.min(1, d.highlightValue / (d.value || 1))))
+                )
+                    .attr("data-selection-key", (d: any) => d.selectionKey)
+                    .attr("fill", "none")
+                    .attr("stroke-opacity", linkOpacity);
+            }
+
+            const nodeG = this.joinMarks<SVGGElement, any>(this.getLayer(panel, "nodes"), "g.mark", layout.nodes, (d: any) => d.selectionKey, () => undefined)
+                .attr("data-selection-key", (d: any) => d.selectionKey);
 
-            nodeG.append("rect")
+            this.joinMarks<SVGRectElement, any>(nodeG, "rect.node", (d: any) => [d], (d: any) => d.selectionKey, (rect) => rect
                 .attr("x", (d: any) => Math.round(d.x0))
                 .attr("y", (d: any) => Math.round(d.y0))
                 .attr("width", (d: any) => Math.max(1, Math.round(d.x1 - d.x0)))
                 .attr("height", (d: any) => Math.max(1, Math.round(d.y1 - d.y0)))
+                .attr("fill", (d: any) => nodeColor(d))
+                .attr("fill-opacity", hasHighlights ? 0.8 * DIMMED_HIGHLIGHT_OPACITY : 0.8))
                 .attr("rx", 2)
-                .attr("fill", (d: any) => colorScale(String(d.id)))
-                .attr("fill-opacity", 0.8)
                 .attr("stroke", "#111827")
                 .attr("stroke-width", 0.6);
 
-            nodeG.append("text")
+            // Only "Others" nodes have a tooltip: it lists the nodes folded into them.
+            nodeG.each((d: any, i: number, nodes: any[]) => {
+                const node = d3.select(nodes[i]) as any;
+                if (!isOthers(d)) {
+                    this.removeTooltip(node);
+                    return;
+                }
+                this.addTooltip(node, [
+                    { displayName: localize("Visual_Value"), value: this.formatTooltipValue(d.value, chartData.valueFormatString), color: nodeColor(d) },
+                    ...this.getOthersTooltipRows(chartData, groupName, d.selectionKey)
+                ], {
+                    title: nodeLabel(d),
+                    subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                    color: nodeColor(d)
+                });
+            });
+
+            if (hasHighlights) {
+                const highlightedShare = (d: any): number => {
+                    const sumOf = (links: any[]): number => links.reduce((sum, l) => sum + (l.highlightValue || 0), 0);
+                    const highlighted = Math.max(sumOf(d.sourceLinks ?? []), sumOf(d.targetLinks ?? []));
+                    return d.value > 0 ? Math.min(1, highlighted / d.value) : 0;
+                };
+
+                this.joinMarks<SVGRectElement, any>(nodeG, "rect.highlight", (d: any) => highlightedShare(d) > 0 ? [d] : [], (d: any) => d.selectionKey, (rect) => rect
+                    .attr("x", (d: any) => Math.round(d.x0))
+                    .attr("y", (d: any) => Math.round(d.y0))
+                    .attr("width", (d: any) => Math.max(1, Math.round(d.x1 - d.x0)))
+                    .attr("height", (d: any) => Math.max(1, Math.round((d.y1 - d.y0) * highlightedShare(d))))
+                    .attr("fill", (d: any) => nodeColor(d)))
+                    .attr("rx", 2)
+                    .attr("fill-opacity", 0.8)
+                    .style("pointer-events", "none");
+            }
+
+            this.joinMarks<SVGTextElement, any>(nodeG, "text.node-label", (d: any) => [d], (d: any) => d.selectionKey, (text) => text
                 .attr("x", (d: any) => (d.x0 < width / 2 ? Math.round(d.x1 + 6) : Math.round(d.x0 - 6)))
                 .attr("y", (d: any) => Math.round((d.y0 + d.y1) / 2) + 4)
+                .attr("fill", settings.xAxisColor))
                 .attr("text-anchor", (d: any) => (d.x0 < width / 2 ? "start" : "end"))
                 .attr("font-size", (settings.textSizes.xAxisFontSize || settings.xAxisFontSize) + "px")
-                .attr("fill", settings.xAxisColor)
-                .text((d: any) => String(d.id));
+                .text((d: any) => nodeLabel(d));
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -8)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
     }
+
+    // Pixels per unit of flow in a d3-sankey layout.
+    private getNodeScale(nodes: any[]): number {
+        const node = nodes.find((n) => n.value > 0);
+        return node ? (node.y1 - node.y0) / node.value : NaN;
+    }
+
+    // Extent height at which d3-sankey draws `ky` pixels per unit: it fits the fullest column,
+    // i.e. the one needing the most room for its nodes plus the padding between them.
+    private getHeightForNodeScale(nodes: any[], ky: number): number {
+        const columns = new Map<number, { total: number; count: number }>();
+        nodes.forEach((n) => {
+            const column = columns.get(n.layer) ?? { total: 0, count: 0 };
+            column.total += n.value;
+            column.count += 1;
+            columns.set(n.layer, column);
+        });
+        let height = 0;
+        columns.forEach((column) => {
+            height = Math.max(height, column.total * ky + (column.count - 1) * NODE_PADDING);
+        });
+        return height;
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_SankeyDiagram");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const summary = summarizeChartData(data, this.getAccessibleChartType(), {
+            describeLocation: (point) => `${point.xValue} \u2192 ${point.yValue}`,
+            includeTable: false
+        });
+        summary.table = this.buildAccessibleTable(() => ({
+            caption: localizeFormat("Visual_A11y_TableCaption", this.getAccessibleChartType()),
+            columns: [localize("Visual_Group"), localize("Visual_Source"), localize("Visual_Target"), data.valueDisplayName ?? localize("Visual_Value")],
+            rows: data.dataPoints.map((point) => [
+                getGroupLabel(point.groupValue),
+                point.xValue,
+                point.yValue,
+                formatMeasureValue(point.value, data.valueFormatString)
+            ])
+        }));
+        return summary;
+    }
 }
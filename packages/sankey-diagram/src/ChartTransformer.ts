@@ -2,27 +2,76 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    RowHighlightState,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    getHighlightedRowValue,
+    getRowHighlightState,
+    mergeHighlightStates,
+    localize,
+    ITopNSettings,
+    TopNOthers,
+    selectTopN,
+    collectOthers,
+    getOthersLabel,
+    setOthersForKey,
+    addOthersSelectionIds,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface ISankeyNode {
     id: string;
+    selectionKey: string;
+    // Display name when it differs from `id`, as for the Top-N "Others" nodes.
+    label?: string;
 }
 
 export interface ISankeyLink {
     source: string;
     target: string;
     value: number;
+    highlightValue: number;
+    highlightState: RowHighlightState;
     group: string;
+    selectionKey: string;
 }
 
 export interface IChartData extends ChartData {
     nodesByGroup: Map<string, ISankeyNode[]>;
     linksByGroup: Map<string, ISankeyLink[]>;
+    hasHighlights: boolean;
     valueFormatString?: string;
 }
 
+function getNodeSelectionKey(group: string, id: string): string {
+    return group + "\u001fnode\u001f" + id;
+}
+
+function getLinkSelectionKey(group: string, source: string, target: string): string {
+    return group + "\u001flink\u001f" + source + "\u001f" + target;
+}
+
+// Rolled-up sources and targets get separate "Others" nodes, so folding cannot close a cycle.
+const OTHERS_SOURCE_ID = "\u001fothers\u001fsource";
+const OTHERS_TARGET_ID = "\u001fothers\u001ftarget";
+
+function sumFlows(links: ISankeyLink[], end: "source" | "target"): Map<string, number> {
+    const sums = new Map<string, number>();
+    links.forEach((l) => sums.set(l[end], (sums.get(l[end]) ?? 0) + l.value));
+    return sums;
+}
+
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -32,7 +81,8 @@ export class ChartTransformer {
             maxValue: 0,
             minValue: 0,
             nodesByGroup: new Map(),
-            linksByGroup: new Map()
+            linksByGroup: new Map(),
+            hasHighlights: false
         };
 
         if (!categorical?.categories?.length || !categorical.values?.length) {
@@ -48,21 +98,32 @@ export class ChartTransformer {
             return empty;
         }
 
-        const linksByGroup = new Map<string, Map<string, number>>();
+        const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
+        const linksByGroup = new Map<string, Map<string, { value: number; highlightValue: number; highlightState: RowHighlightState }>>();
         const nodesByGroup = new Map<string, Set<string>>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
         let maxValue = 0;
 
         for (let i = 0; i < valueCol.values.length; i++) {
-            const source = String(sourceCol.values[i] ?? "(Blank)");
-            const target = String(targetCol.values[i] ?? "(Blank)");
+            const source = String(sourceCol.values[i] ?? localize("Visual_Blank"));
+            const target = String(targetCol.values[i] ?? localize("Visual_Blank"));
             const value = Number(valueCol.values[i]);
             // Sankey layout requires strictly positive link weights.
             if (!Number.isFinite(value) || value <= 0) continue;
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
 
             const key = source + "\u001f" + target;
-            const linkMap = linksByGroup.get(group) ?? new Map<string, number>();
-            linkMap.set(key, (linkMap.get(key) ?? 0) + value);
+            const linkMap = linksByGroup.get(group) ?? new Map<string, { value: number; highlightValue: number; highlightState: RowHighlightState }>();
+            const existing = linkMap.get(key);
+            const rowHighlightValue = Math.max(0, getHighlightedRowValue(highlightState, valueCol, i, value));
+            const rowHighlightState = getRowHighlightState(highlightState, i);
+            linkMap.set(key, {
+                value: (existing?.value ?? 0) + value,
+                highlightValue: (existing?.highlightValue ?? 0) + rowHighlightValue,
+                highlightState: mergeHighlightStates(existing?.highlightState, rowHighlightState)
+            });
             linksByGroup.set(group, linkMap);
 
             const nodeSet = nodesByGroup.get(group) ?? new Set<string>();
@@ -70,6 +131,16 @@ export class ChartTransformer {
             nodeSet.add(target);
             nodesByGroup.set(group, nodeSet);
 
+            if (createSelectionIdBuilder) {
+                const selectionId = createCategoryRowSelectionId(createSelectionIdBuilder, [sourceCol, targetCol, groupCol], i);
+                addSelectionIdForKey(selectionIdsByKey, getLinkSelectionKey(group, source, target), selectionId);
+                addSelectionIdForKey(selectionIdsByKey, getNodeSelectionKey(group, source), selectionId);
+                if (target !== source) {
+                    addSelectionIdForKey(selectionIdsByKey, getNodeSelectionKey(group, target), selectionId);
+                }
+            addRuleColorForKey(ruleColorsByKey, getLinkSelectionKey(group, source, target), ruleColors.getRowColor(i));
+            }
+
             maxValue = Math.max(maxValue, value);
         }
 
@@ -81,15 +152,24 @@ export class ChartTransformer {
         groups.forEach((group) => {
             const linkMap = linksByGroup.get(group)!;
             const links: ISankeyLink[] = [];
-            for (const [key, value] of linkMap.entries()) {
+            for (const [key, link] of linkMap.entries()) {
                 const sep = key.indexOf("\u001f");
                 const source = key.slice(0, sep);
                 const target = key.slice(sep + 1);
-                links.push({ source, target, value, group });
+                const value = link.value;
+                links.push({
+                    source,
+                    target,
+                    value,
+                    highlightValue: Math.min(value, link.highlightValue),
+                    highlightState: link.highlightState,
+                    group,
+                    selectionKey: getLinkSelectionKey(group, source, target)
+                });
                 dataPoints.push({ xValue: source, yValue: target, value, groupValue: group, index: dataPoints.length });
             }
             linkOut.set(group, links);
-            nodeOut.set(group, Array.from(nodesByGroup.get(group) ?? new Set<string>()).map((id) => ({ id })));
+            nodeOut.set(group, Array.from(nodesByGroup.get(group) ?? new Set<string>()).map((id) => ({ id, selectionKey: getNodeSelectionKey(group, id) })));
         });
 
         return {
@@ -101,7 +181,91 @@ export class ChartTransformer {
             minValue: 0,
             nodesByGroup: nodeOut,
             linksByGroup: linkOut,
-            valueFormatString: (valueCol.source as any)?.format as string | undefined
+            hasHighlights: highlightState.hasIncomingHighlights,
+            valueFormatString: (valueCol.source as any)?.format as string | undefined,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
+
+    /**
+     * Folds the nodes the Top-N card leaves out into an "Others" source and an "Others" target
+     * per group, merging the links that then join the same pair. Nodes are ranked by their
+     * throughput summed over all groups.
+     */
+    public static applyTopN(data: IChartData, settings: ITopNSettings): void {
+        const totals = new Map<string, number>();
+        data.linksByGroup.forEach((links) => {
+            const outflow = sumFlows(links, "source");
+            const inflow = sumFlows(links, "target");
+            new Set([...outflow.keys(), ...inflow.keys()]).forEach((id) => {
+                totals.set(id, (totals.get(id) ?? 0) + Math.max(outflow.get(id) ?? 0, inflow.get(id) ?? 0));
+            });
+        });
+        const kept = selectTopN(totals, settings);
+        if (!kept) {
+            return;
+        }
+
+        const othersLabel = getOthersLabel(settings);
+        const labelOf = (id: string): string => (id === OTHERS_SOURCE_ID || id === OTHERS_TARGET_ID ? othersLabel : id);
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        const selectionIdsByKey = data.selectionIdsByKey ?? new Map();
+        const dataPoints: DataPoint[] = [];
+        let maxValue = 0;
+
+        data.groups.forEach((group) => {
+            const links = data.linksByGroup.get(group) ?? [];
+            const sourceOthers = settings.showOthers ? collectOthers(sumFlows(links, "source"), kept, settings) : null;
+            const targetOthers = settings.showOthers ? collectOthers(sumFlows(links, "target"), kept, settings) : null;
+            const mapId = (id: string, others: TopNOthers | null, othersId: string): string | null =>
+                kept.has(id) ? id : (others ? othersId : null);
+
+            const merged = new Map<string, ISankeyLink>();
+            const memberKeys = new Map<string, string[]>();
+            links.forEach((l) => {
+                const source = mapId(l.source, sourceOthers, OTHERS_SOURCE_ID);
+                const target = mapId(l.target, targetOthers, OTHERS_TARGET_ID);
+                if (source === null || target === null) return;
+
+                const selectionKey = getLinkSelectionKey(group, source, target);
+                const existing = merged.get(selectionKey);
+                if (existing) {
+                    existing.value += l.value;
+                    existing.highlightValue += l.highlightValue;
+                    existing.highlightState = mergeHighlightStates(existing.highlightState, l.highlightState);
+                } else {
+                    merged.set(selectionKey, { ...l, source, target, selectionKey });
+                }
+                if (selectionKey !== l.selectionKey) {
+                    memberKeys.set(selectionKey, [...(memberKeys.get(selectionKey) ?? []), l.selectionKey]);
+                }
+            });
+            memberKeys.forEach((keys, key) => addOthersSelectionIds(selectionIdsByKey, key, keys));
+
+            const used = new Set(Array.from(merged.values()).flatMap((l) => [l.source, l.target]));
+            const nodes: ISankeyNode[] = (data.nodesByGroup.get(group) ?? []).filter((n) => used.has(n.id));
+            ([[sourceOthers, OTHERS_SOURCE_ID], [targetOthers, OTHERS_TARGET_ID]] as Array<[TopNOthers | null, string]>).forEach(([others, id]) => {
+                if (!others || !used.has(id)) return;
+                const selectionKey = getNodeSelectionKey(group, id);
+                nodes.push({ id, label: others.label, selectionKey });
+                setOthersForKey(othersByGroup, group, selectionKey, others);
+                addOthersSelectionIds(selectionIdsByKey, selectionKey, others.members.map((m) => getNodeSelectionKey(group, m.name)));
+            });
+
+            const groupLinks = Array.from(merged.values());
+            groupLinks.forEach((l) => {
+                dataPoints.push({ xValue: labelOf(l.source), yValue: labelOf(l.target), value: l.value, groupValue: group, index: dataPoints.length });
+                maxValue = Math.max(maxValue, l.value);
+            });
+            data.linksByGroup.set(group, groupLinks);
+            data.nodesByGroup.set(group, nodes);
+        });
+
+        data.dataPoints = dataPoints;
+        data.xValues = Array.from(new Set(dataPoints.map((d) => d.xValue)));
+        data.yValues = Array.from(new Set(dataPoints.map((d) => d.yValue)));
+        data.maxValue = maxValue;
+        data.othersByGroup = othersByGroup;
+    }
 }
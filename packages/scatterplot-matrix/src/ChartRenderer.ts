@@ -1,15 +1,25 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue, renderEmptyState } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue, renderEmptyState, AccessibleSummary, localize, localizeFormat, getDisplayUnitReference, CanvasMarkTooltip, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData, IMatrixRow } from "./ChartTransformer";
+import { IChartData, IMatrixRow, IMatrixDimension } from "./ChartTransformer";
+
+interface MatrixDot {
+    row: IMatrixRow;
+    key: string;
+    cx: number;
+    cy: number;
+    r: number;
+    color: string;
+    tooltip: () => CanvasMarkTooltip;
+}
 
 export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     constructor(context: RenderContext) {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
@@ -27,37 +37,49 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
-        const margin = { top: 28, right: 16, bottom: 16, left: 16 };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(220, this.context.width - margin.left - margin.right);
-        const height = Math.max(220, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
+        const margin = { top: groups.length > 1 ? 16 : 28, right: 16, bottom: 16, left: 16 };
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: Math.max(220, this.context.width - margin.left - margin.right),
+            height: Math.max(220, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 14 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
 
-        const cellSize = Math.max(32, Math.min(width, panelHeight) / n);
+        const cellSize = Math.max(32, Math.min(grid.panelWidth, grid.panelHeight) / n);
         const gridSize = cellSize * n;
         const pad = Math.max(4, Math.round(cellSize * 0.08));
 
         const colorScale = this.getCategoryColors(groups);
+        // Every row is a dot in each off-diagonal cell.
+        const useCanvas = this.shouldUseCanvas(chartData.rows.length * n * (n - 1));
+
+        // A measure's range over all rows with a shared scale, or over the panel's rows only.
+        const getRange = (dim: IMatrixDimension, rows: IMatrixRow[], shared: boolean): [number, number] => {
+            const values = shared ? [] : rows.map((r) => r.values[dim.key]).filter((v): v is number => v !== undefined);
+            return values.length ? [Math.min(...values), Math.max(...values)] : [dim.min, dim.max];
+        };
+        const createScale = ([min, max]: [number, number], range: [number, number]): d3.ScaleLinear<number, number> => {
+            const domainPad = max - min > 0 ? (max - min) * 0.05 : 0.5;
+            return d3.scaleLinear().domain([min - domainPad, max + domainPad]).range(range);
+        };
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panelX = margin.left + Math.max(0, (width - gridSize) / 2);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + Math.round(panelX) + "," + Math.round(panelY) + ")");
+            const gridCell = grid.cells[groupIndex];
+            const panelX = margin.left + gridCell.x + Math.max(0, (grid.panelWidth - gridSize) / 2);
+            const panel = this.getPanel(groupName, Math.round(panelX), Math.round(margin.top + gridCell.y));
 
             const rows = chartData.rows.filter((r) => r.group === groupName);
             if (!rows.length) return;
 
-            const xByDim = new Map<string, ReturnType<typeof d3.scaleLinear>>();
-            dims.forEach((d) => {
-                const range = d.max - d.min;
-                const domainPad = range > 0 ? range * 0.05 : 0.5;
-                xByDim.set(d.key, d3.scaleLinear()
-                    .domain([d.min - domainPad, d.max + domainPad])
-                    .range([pad, cellSize - pad]));
-            });
+            // Columns use the X scales and rows the Y scales, so each can be shared on its own.
+            const xRangeByDim = new Map(dims.map((d) => [d.key, getRange(d, rows, smallMultiples.sharedXScale)] as const));
+            const yRangeByDim = new Map(dims.map((d) => [d.key, getRange(d, rows, smallMultiples.sharedYScale)] as const));
+            const xByDim = new Map(dims.map((d) => [d.key, createScale(xRangeByDim.get(d.key)!, [pad, cellSize - pad])] as const));
 
             // Render grid background
             panel.append("rect")
@@ -68,6 +90,11 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("height", Math.round(gridSize))
                 .attr("rx", 2);
 
+            const canvasLayer = useCanvas
+                ? this.createCanvasLayer(panel, { x: 0, y: 0, width: Math.round(gridSize), height: Math.round(gridSize) })
+                : null;
+            const dots: MatrixDot[] = [];
+
             for (let yi = 0; yi < n; yi++) {
                 for (let xi = 0; xi < n; xi++) {
                     const dimX = dims[xi];
@@ -119,65 +146,107 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         // Min/max indicators on diagonal
                         if (cellSize >= 50) {
                             const tickFontSize = Math.max(7, Math.round(fontSize * 0.7));
+                            const [rangeMin, rangeMax] = xRangeByDim.get(dimX.key)!;
                             cell.append("text")
                                 .attr("class", "dim-range")
                                 .attr("x", pad + 1)
                                 .attr("y", Math.round(cellSize) - 4)
                                 .attr("font-size", tickFontSize + "px")
-                                .text(this.formatCompact(dimX.min, dimX.format));
+                                .text(this.formatCompact(rangeMin, dimX.format, getDisplayUnitReference([rangeMin, rangeMax])));
                             cell.append("text")
                                 .attr("class", "dim-range dim-range-end")
                                 .attr("x", Math.round(cellSize) - pad - 1)
                                 .attr("y", Math.round(cellSize) - 4)
                                 .attr("font-size", tickFontSize + "px")
-                                .text(this.formatCompact(dimX.max, dimX.format));
+                                .text(this.formatCompact(rangeMax, dimX.format, getDisplayUnitReference([rangeMin, rangeMax])));
                         }
                         continue;
                     }
 
                     // Off-diagonal: scatter dots
                     const xScale = xByDim.get(dimX.key)!;
-                    const yRange = dimY.max - dimY.min;
-                    const yDomainPad = yRange > 0 ? yRange * 0.05 : 0.5;
-                    const yScale = d3.scaleLinear()
-                        .domain([dimY.min - yDomainPad, dimY.max + yDomainPad])
-                        .range([cellSize - pad, pad]);
+                    const yScale = createScale(yRangeByDim.get(dimY.key)!, [cellSize - pad, pad]);
 
                     const dotRadius = Math.max(2.5, Math.min(4.5, cellSize * 0.025));
-                    const fillColor = colorScale(groupName);
-
-                    cell.selectAll("circle.mark")
-                        .data(rows)
-                        .join("circle")
-                        .attr("class", "mark")
-                        .attr("cx", (r: IMatrixRow) => {
-                            const v = r.values[dimX.key];
-                            return v !== undefined ? Number(xScale(v)) : -999;
-                        })
-                        .attr("cy", (r: IMatrixRow) => {
-                            const v = r.values[dimY.key];
-                            return v !== undefined ? Number(yScale(v)) : -999;
-                        })
-                        .attr("r", dotRadius)
-                        .attr("fill", fillColor)
-                        .attr("fill-opacity", 0.78)
-                        .attr("stroke", fillColor)
-                        .attr("stroke-opacity", 0.4)
-                        .attr("stroke-width", 0.6)
-                        .each((r: IMatrixRow, i, nodes) => {
-                            this.addTooltip(d3.select(nodes[i]) as any, [
-                                { displayName: "Category", value: r.category, color: fillColor },
-                                { displayName: dimX.key, value: formatMeasureValue(r.values[dimX.key], dimX.format) },
-                                { displayName: dimY.key, value: formatMeasureValue(r.values[dimY.key], dimY.format) }
-                            ], {
+                    const dotColor = (r: IMatrixRow): string => this.getRuleColor(chartData, r.id) ?? colorScale(groupName);
+                    const dotTooltip = (r: IMatrixRow): CanvasMarkTooltip => {
+                        const fillColor = dotColor(r);
+                        return {
+                            dataItems: [
+                                { displayName: localize("Visual_Category"), value: r.category, color: fillColor },
+                                { displayName: dimX.key, value: this.formatTooltipValue(r.values[dimX.key], dimX.format) },
+                                { displayName: dimY.key, value: this.formatTooltipValue(r.values[dimY.key], dimY.format) }
+                            ],
+                            meta: {
                                 title: r.category,
-                                subtitle: groupName !== "All" ? groupName : undefined,
+                                subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                                 color: fillColor
+                            }
+                        };
+                    };
+
+                    if (canvasLayer) {
+                        rows.forEach((r) => {
+                            const vx = r.values[dimX.key];
+                            const vy = r.values[dimY.key];
+                            if (vx === undefined || vy === undefined) return;
+                            const fillColor = dotColor(r);
+                            canvasLayer.add({
+                                type: "circle",
+                                key: r.id,
+                                legendKey: groupName,
+                                cx: cx + Number(xScale(vx)),
+                                cy: cy + Number(yScale(vy)),
+                                r: dotRadius,
+                                fill: fillColor,
+                                fillOpacity: 0.78,
+                                stroke: fillColor,
+                                strokeOpacity: 0.4,
+                                strokeWidth: 0.6,
+                                tooltip: () => dotTooltip(r)
                             });
                         });
+                        continue;
+                    }
+
+                    rows.forEach((r) => {
+                        const vx = r.values[dimX.key];
+                        const vy = r.values[dimY.key];
+                        dots.push({
+                            row: r,
+                            key: dimX.key + "\u001f" + dimY.key + "\u001f" + r.id,
+                            cx: cx + (vx !== undefined ? Number(xScale(vx)) : -999),
+                            cy: cy + (vy !== undefined ? Number(yScale(vy)) : -999),
+                            r: dotRadius,
+                            color: dotColor(r),
+                            tooltip: () => dotTooltip(r)
+                        });
+                    });
                 }
             }
 
+            // Dots of every cell share one layer above the cell backgrounds, keyed by measure pair and row.
+            if (!canvasLayer) {
+                this.joinMarks<SVGCircleElement, MatrixDot>(this.getLayer(panel, "dots"), "circle.mark", dots, (d) => d.key, (circle) => circle
+                    .attr("cx", (d) => d.cx)
+                    .attr("cy", (d) => d.cy)
+                    .attr("r", (d) => d.r)
+                    .attr("fill", (d) => d.color)
+                    .attr("stroke", (d) => d.color))
+                    .attr("data-selection-key", (d) => d.row.id)
+                    .attr("data-legend-key", groupName)
+                    .attr("fill-opacity", 0.78)
+                    .attr("stroke-opacity", 0.4)
+                    .attr("stroke-width", 0.6)
+                    .each((d, i, nodes) => {
+                        const tooltip = d.tooltip();
+                        this.addTooltip(d3.select(nodes[i]) as any, tooltip.dataItems, tooltip.meta);
+                    });
+            }
+
+            // Dots stay above the cell backgrounds drawn after the layer was created.
+            canvasLayer?.raise();
+
             // Outer grid frame
             panel.append("rect")
                 .attr("class", "grid-frame")
@@ -188,12 +257,12 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("rx", 2);
 
             // Panel title for small multiples
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -10)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
@@ -209,7 +278,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
      */
     private renderSingleMeasure(chartData: IChartData, _settings: IVisualSettings): void {
         const dim = chartData.dimensions[0];
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
         const colorScale = this.getCategoryColors(groups);
 
         const margin = { top: 48, right: 32, bottom: 48, left: 32 };
@@ -219,9 +288,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         const stripHeight = Math.min(height * 0.4, 80);
         const stripY = Math.round((height - stripHeight) / 2);
 
-        const g = this.context.container.append("g")
-            .attr("class", "single-measure")
-            .attr("transform", "translate(" + margin.left + "," + margin.top + ")");
+        const g = this.getLayer(this.context.container, "single-measure", (layer) => layer
+            .attr("transform", "translate(" + margin.left + "," + margin.top + ")"));
 
         // Title: dimension name
         g.append("text")
@@ -262,45 +330,78 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("y", stripY + stripHeight + 16)
                 .attr("text-anchor", "middle")
                 .attr("font-size", "9px")
-                .text(this.formatCompact(tick, dim.format));
+                .text(this.formatCompact(tick, dim.format, getDisplayUnitReference(ticks)));
         });
 
         // Jitter dots vertically within the strip
         const jitterScale = d3.scaleLinear().domain([0, 1]).range([stripY + 6, stripY + stripHeight - 6]);
         const dotRadius = Math.max(2, Math.min(4, width * 0.006));
+        const canvasLayer = this.shouldUseCanvas(chartData.rows.length)
+            ? this.createCanvasLayer(g, { x: 0, y: stripY, width: Math.round(width), height: Math.round(stripHeight) })
+            : null;
+        const dots: MatrixDot[] = [];
 
         chartData.rows.forEach((r, i) => {
             const v = r.values[dim.key];
             if (v === undefined) return;
             const jitter = jitterScale(this.seededRandom(i));
-            const fillColor = colorScale(r.group);
-
-            const dot = g.append("circle")
-                .attr("class", "mark")
-                .attr("cx", Number(xScale(v)))
-                .attr("cy", jitter)
-                .attr("r", dotRadius)
-                .attr("fill", fillColor)
-                .attr("fill-opacity", 0.6)
-                .attr("stroke", fillColor)
-                .attr("stroke-opacity", 0.3)
-                .attr("stroke-width", 0.5);
-
-            this.addTooltip(dot as any, [
-                { displayName: "Category", value: r.category, color: fillColor },
-                { displayName: dim.key, value: formatMeasureValue(v, dim.format) }
-            ], {
-                title: r.category,
-                subtitle: r.group !== "All" ? r.group : undefined,
-                color: fillColor
+            const fillColor = this.getRuleColor(chartData, r.id) ?? colorScale(r.group);
+            const tooltip = (): CanvasMarkTooltip => ({
+                dataItems: [
+                    { displayName: localize("Visual_Category"), value: r.category, color: fillColor },
+                    { displayName: dim.key, value: this.formatTooltipValue(v, dim.format) }
+                ],
+                meta: {
+                    title: r.category,
+                    subtitle: r.group !== ALL_GROUP ? r.group : undefined,
+                    color: fillColor
+                }
             });
+
+            if (canvasLayer) {
+                canvasLayer.add({
+                    type: "circle",
+                    key: r.id,
+                    legendKey: r.group,
+                    cx: Number(xScale(v)),
+                    cy: jitter,
+                    r: dotRadius,
+                    fill: fillColor,
+                    fillOpacity: 0.6,
+                    stroke: fillColor,
+                    strokeOpacity: 0.3,
+                    strokeWidth: 0.5,
+                    tooltip
+                });
+                return;
+            }
+
+            dots.push({ row: r, key: r.id, cx: Number(xScale(v)), cy: jitter, r: dotRadius, color: fillColor, tooltip });
         });
 
+        if (!canvasLayer) {
+            this.joinMarks<SVGCircleElement, MatrixDot>(g, "circle.mark", dots, (d) => d.key, (circle) => circle
+                .attr("cx", (d) => d.cx)
+                .attr("cy", (d) => d.cy)
+                .attr("r", (d) => d.r)
+                .attr("fill", (d) => d.color)
+                .attr("stroke", (d) => d.color))
+                .attr("data-selection-key", (d) => d.row.id)
+                .attr("data-legend-key", (d) => d.row.group)
+                .attr("fill-opacity", 0.6)
+                .attr("stroke-opacity", 0.3)
+                .attr("stroke-width", 0.5)
+                .each((d, i, nodes) => {
+                    const { dataItems, meta } = d.tooltip();
+                    this.addTooltip(d3.select(nodes[i]) as any, dataItems, meta);
+                });
+        }
+
         // Hint message
         renderEmptyState(this.context.container, this.context.width, this.context.height, {
             title: "",
             lines: [],
-            hint: "Add another value to see correlations"
+            hint: localize("Visual_AddAnotherValueHint")
         });
 
         // Position the hint below the strip
@@ -325,15 +426,32 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         return text.substring(0, maxChars - 1) + "…";
     }
 
-    /** Format a number compactly for axis ticks */
-    private formatCompact(value: number, _format?: string): string {
+    /** Format a number compactly for axis ticks, scaled by the axis display units */
+    private formatCompact(value: number, format?: string, reference?: number): string {
         if (!Number.isFinite(value)) return "";
-        const abs = Math.abs(value);
-        if (abs >= 1e9) return (value / 1e9).toFixed(1) + "B";
-        if (abs >= 1e6) return (value / 1e6).toFixed(1) + "M";
-        if (abs >= 1e4) return (value / 1e3).toFixed(1) + "K";
-        if (abs >= 100) return Math.round(value).toString();
-        if (abs >= 1) return value.toFixed(1);
-        return value.toFixed(2);
+        // Unformatted measures keep at most two decimals so small ranges stay readable.
+        return this.getValueFormatter("axis", format || "#,0.##", reference)(value);
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_ScatterplotMatrix");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const chartData = data as IChartData;
+        const measures = chartData.dimensions.map((dimension) => dimension.key);
+        const hasGroups = chartData.groups.length > 1;
+        return {
+            label: localizeFormat("Visual_A11y_RowsAcrossMeasures", this.getAccessibleChartType(), chartData.rows.length, measures.length, measures.join(", ")),
+            table: this.buildAccessibleTable(() => ({
+                caption: localizeFormat("Visual_A11y_TableCaption", this.getAccessibleChartType()),
+                columns: [...(hasGroups ? [localize("Visual_Group")] : []), localize("Visual_Category"), ...measures],
+                rows: chartData.rows.map((row) => [
+                    ...(hasGroups ? [row.group] : []),
+                    row.category,
+                    ...chartData.dimensions.map((dimension) => formatMeasureValue(row.values[dimension.key], dimension.format))
+                ])
+            }))
+        };
     }
 }
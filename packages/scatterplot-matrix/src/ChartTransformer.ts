@@ -2,7 +2,19 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createCategoryRowSelectionId,
+    createConditionalColorLookup,
+    formatGroupValue,
+    localize,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IMatrixRow {
     id: string;
@@ -24,7 +36,7 @@ export interface IChartData extends ChartData {
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -53,9 +65,12 @@ export class ChartTransformer {
         const rows: IMatrixRow[] = [];
         const dataPoints: DataPoint[] = [];
         const groupsSet = new Set<string>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
 
         const dims = measureCols.map((col) => ({
-            key: String(col.source.displayName || "Value"),
+            key: String(col.source.displayName || localize("Visual_Value")),
             min: Number.POSITIVE_INFINITY,
             max: Number.NEGATIVE_INFINITY,
             format: (col.source as any)?.format as string | undefined
@@ -63,7 +78,7 @@ export class ChartTransformer {
 
         for (let i = 0; i < rowCount; i++) {
             const category = categoryCol ? String(categoryCol.values[i] ?? ("Item " + (i + 1))) : ("Item " + (i + 1));
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
             groupsSet.add(group);
 
             const values: Record<string, number> = {};
@@ -81,6 +96,10 @@ export class ChartTransformer {
 
             if (valid < 1) continue;
             rows.push({ id: String(i), category, group, values });
+            if (createSelectionIdBuilder) {
+                addSelectionIdForKey(selectionIdsByKey, String(i), createCategoryRowSelectionId(createSelectionIdBuilder, [categoryCol, groupCol], i));
+            }
+            addRuleColorForKey(ruleColorsByKey, String(i), ruleColors.getRowColor(i));
             dataPoints.push({ xValue: category, yValue: group, value: 0, groupValue: group, index: i });
         }
 
@@ -98,7 +117,9 @@ export class ChartTransformer {
             maxValue: 1,
             minValue: 0,
             rows,
-            dimensions
+            dimensions,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
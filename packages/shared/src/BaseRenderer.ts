@@ -7,10 +7,24 @@ import ISelectionManager = powerbi.extensibility.ISelectionManager;
 import IColorPalette = powerbi.extensibility.IColorPalette;
 import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
 import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
-import { IBaseVisualSettings, colorSchemes } from "./settings";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import { IBaseVisualSettings, LegendOverflow, colorSchemeStops, colorSchemes } from "./settings";
 import { measureMaxLabelWidth } from "./textUtils";
 import { formatMeasureValue } from "./utils";
 import { HtmlTooltip, TooltipMeta, toTooltipRows } from "./tooltip";
+import { AccessibleSummary, AccessibleTable, renderAccessibleSummary, summarizeChartData } from "./accessibility";
+import { DisplayUnitTarget, createDisplayUnitFormatter } from "./displayUnits";
+import { getThemeDataColors, getThemeGradient, getThemeTextColors } from "./theme";
+import { getSchemeColors } from "./formattingUtils";
+import { ValueColorScale, createValueColorScale, getColorClassIndex } from "./colorScale";
+import { localize, localizeFormat } from "./localization";
+import { IViewState } from "./viewState";
+import { CanvasLayerFrame, CanvasMarkLayer, CanvasMarkTooltip, CanvasTooltipPresenter, shouldRenderOnCanvas } from "./canvasMarks";
+import { ReferenceMeasure, ResolvedReferenceLines, resolveReferenceLines } from "./referenceLines";
+import { Annotation, AnnotationPoint, layoutAnnotations } from "./annotations";
+import { CrosshairSync } from "./crosshair";
+import { TopNOthers, getOthersMemberRows } from "./topN";
+import { AnimatedAttributes, RenderPass, getTransitionDuration } from "./transitions";
 
 export interface RenderContext {
     svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
@@ -23,6 +37,17 @@ export interface RenderContext {
     htmlTooltip?: HtmlTooltip | null;
     colorPalette?: IColorPalette | ISandboxExtendedColorPalette;
     isHighContrast?: boolean;
+    // Called after a renderer redraws itself outside of `update()` (zoom, scroll)
+    // so the visual can re-bind selection to the freshly created marks.
+    onRerender?: () => void;
+    // Called when the user changes the view (drill path, scroll, sort) so the visual can persist it.
+    onViewStateChange?: (patch: Partial<IViewState>) => void;
+    // Set when the host can add the next level of the visual's hierarchy; renderers call it when
+    // a zoom reaches the deepest level loaded so far (native drill-down, see `hierarchyPath.ts`).
+    onDrillDown?: () => void;
+    // Set by visuals with a canvas backend; layers created during the render are collected here
+    // so the visual can hand them to selection and legend binding.
+    canvasLayers?: CanvasMarkLayer[];
 }
 
 export interface ChartData {
@@ -36,6 +61,19 @@ export interface ChartData {
     valueFormatString?: string;
     // Name of the bound measure in the Values bucket (e.g. "Sales"), used for tooltips.
     valueDisplayName?: string;
+    // Selection ids per rendered mark, keyed by the mark's `data-selection-key`.
+    selectionIdsByKey?: Map<string, ISelectionId[]>;
+    // Colors from fx rules on `conditionalColors.fill`, keyed like `selectionIdsByKey`.
+    ruleColorsByKey?: Map<string, string>;
+    // Names of the fields on the category axes (e.g. "Month", "Region"), used in screen-reader summaries.
+    xAxisDisplayName?: string;
+    yAxisDisplayName?: string;
+    // Measure in the Reference value role, for reference lines of type "measure".
+    referenceMeasure?: ReferenceMeasure;
+    // Notes from the Annotation role and the Annotations card, for visuals with an annotation layer.
+    annotations?: Annotation[];
+    // "Others" items of the Top-N card per small-multiples group, keyed by the mark's selection key.
+    othersByGroup?: Map<string, Map<string, TopNOthers>>;
 }
 
 export interface DataPoint {
@@ -54,16 +92,94 @@ export interface LegendAlignFrame {
     height: number;
 }
 
+interface OrdinalLegendMetrics {
+    dock: "top" | "bottom" | "left" | "right";
+    align: "start" | "middle" | "end";
+    vAlign: "top" | "middle";
+    isVertical: boolean;
+    width: number;
+    height: number;
+    itemsPerRow: number;
+    itemsPerCol: number;
+    colWidth: number;
+    rowHeight: number;
+    padX: number;
+    padY: number;
+    // Slots per page (the "+N more" indicator takes the last one) and pages of the pager.
+    pageSize: number;
+    pageCount: number;
+    // Set when the categories do not fit on one page.
+    overflow: LegendOverflow | null;
+}
+
+// Room for the ◀ 1/3 ▶ pager of a paged legend.
+const LEGEND_PAGER_WIDTH = 64;
+const LEGEND_OVERFLOW_MAX_HEIGHT = 200;
+
 export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBaseVisualSettings> {
     protected context: RenderContext;
     protected settings!: TSettings;
+    private pass!: RenderPass;
     private static gradientCounter: number = 0;
 
     constructor(context: RenderContext) {
         this.context = context;
     }
 
-    public abstract render(data: ChartData, settings: TSettings): void;
+    /**
+     * Draws `data` into the chart container, which persists between renders. Panels, layers and
+     * marks drawn through `getPanel`, `getLayer` and `joinMarks` are joined to the previous
+     * render by key and animate per the Animation card (`transitions.ts`); everything else is
+     * drawn afresh.
+     */
+    public render(data: ChartData, settings: TSettings): void {
+        this.settings = settings;
+        this.pass = new RenderPass(this.context.container.node()!, getTransitionDuration(settings.animation));
+        this.context.svg.selectAll("defs > .color-legend-gradient").remove();
+        this.draw(data, settings);
+        this.pass.finish();
+    }
+
+    protected abstract draw(data: ChartData, settings: TSettings): void;
+
+    /**
+     * Small-multiple panel of `key`, a `className` group at (`x`, `y`) in the chart container.
+     * A panel kept from the previous render slides to its new place; panels not asked for again
+     * fade out.
+     */
+    protected getPanel(
+        key: string,
+        x: number,
+        y: number,
+        className: string = "panel"
+    ): d3.Selection<SVGGElement, unknown, null, undefined> {
+        return this.pass
+            .layer(this.context.container, className, key, (panel) => panel.attr("transform", `translate(${x},${y})`))
+            .attr("data-panel-key", key);
+    }
+
+    // Group of `parent` kept across renders, so the marks joined into it can animate.
+    protected getLayer(
+        parent: d3.Selection<any, any, any, any>,
+        className: string,
+        place?: (layer: AnimatedAttributes<SVGGElement, unknown>) => void
+    ): d3.Selection<SVGGElement, unknown, null, undefined> {
+        return this.pass.layer(parent, className, undefined, place);
+    }
+
+    /**
+     * Keyed join of `selector` marks (`tag.class`) in `parent` (see `RenderPass.marks`). `place`
+     * sets the attributes that animate; set the rest on the returned marks.
+     */
+    protected joinMarks<E extends Element, D>(
+        parent: d3.Selection<any, any, any, any>,
+        selector: string,
+        data: D[] | ((parentDatum: any) => D[]),
+        key: (d: D, i: number) => string,
+        place: (marks: AnimatedAttributes<E, D>) => void
+    ): d3.Selection<E, D, Element, any> {
+        return this.pass.marks(parent, selector, data, key, place);
+    }
 
     // Snap to pixel grid for crisp 1px strokes (adds 0.5 offset)
     protected snapToPixel(value: number): number {
@@ -153,8 +269,11 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         return fallback;
     }
 
+    // Titles follow the theme's title text class; the fallback only applies outside a report host.
     protected getTitleTextColor(fallback: string = "#333333"): string {
-        return this.isHighContrastMode() ? this.getThemeForeground(fallback) : fallback;
+        return this.isHighContrastMode()
+            ? this.getThemeForeground(fallback)
+            : (getThemeTextColors(this.context.colorPalette).title ?? fallback);
     }
 
     protected getColorScale(minValue: number, maxValue: number): d3.ScaleSequential<string, never> {
@@ -164,12 +283,92 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
                 .interpolator(d3.interpolate(this.getThemeBackground("#ffffff"), this.getThemeForeground("#111827")));
         }
 
-        const scheme = colorSchemes[this.settings.colorScheme];
+        const scheme = this.getSchemeGradient();
         return d3.scaleSequential()
             .domain([minValue, maxValue])
             .interpolator(d3.interpolate(scheme.min, scheme.max));
     }
 
+    /**
+     * Measure-driven color scale honoring `settings.colorScale` (diverging midpoint) and multi-stop
+     * schemes. `gradient` replaces the scheme endpoints with gradient-card colors; the scheme's
+     * intermediate stops only apply while both endpoints are still the scheme's own.
+     */
+    protected getValueColorScale(
+        minValue: number,
+        maxValue: number,
+        options: { values?: number[]; gradient?: { min: string; max: string } } = {}
+    ): ValueColorScale {
+        if (this.isHighContrastMode()) {
+            return createValueColorScale({
+                domain: [minValue, maxValue],
+                minColor: this.getThemeBackground("#ffffff"),
+                maxColor: this.getThemeForeground("#111827")
+            });
+        }
+
+        const schemeGradient = this.getSchemeGradient();
+        const gradient = options.gradient ?? schemeGradient;
+        const stops = colorSchemeStops[this.settings.colorScheme];
+        const usesSchemeEndpoints = gradient.min.toLowerCase() === schemeGradient.min.toLowerCase()
+            && gradient.max.toLowerCase() === schemeGradient.max.toLowerCase();
+        return createValueColorScale({
+            domain: [minValue, maxValue],
+            minColor: gradient.min,
+            maxColor: gradient.max,
+            stops: usesSchemeEndpoints ? stops : undefined,
+            settings: this.settings.colorScale,
+            values: options.values
+        });
+    }
+
+    /**
+     * Range labels ("10–50") for the classes of a classed scale, low to high, in legend order.
+     * Empty for continuous scales, which keep the gradient legend.
+     */
+    protected getClassLegendLabels(scale: ValueColorScale, formatString?: string): string[] {
+        const classes = scale.classes ?? [];
+        if (!classes.length) {
+            return [];
+        }
+        const reference = Math.max(Math.abs(classes[0].from), Math.abs(classes[classes.length - 1].to));
+        const format = this.getValueFormatter("label", formatString, reference);
+        return classes.map((entry) => `${format(entry.from)}\u2013${format(entry.to)}`);
+    }
+
+    /**
+     * Legend key (`data-legend-key`) of the class a value falls into, so marks of a classed scale
+     * respond to their stepped-legend item. `labels` are the ones passed to `renderLegend`.
+     */
+    protected getClassLegendKey(scale: ValueColorScale, labels: string[], value: number): string | null {
+        if (!scale.classes?.length || !Number.isFinite(value)) {
+            return null;
+        }
+        return labels[getColorClassIndex(scale.classes, value)] ?? null;
+    }
+
+    /**
+     * Color an fx rule assigned to the mark with this key, if any. Callers fall back to
+     * `getCategoryColors`/`getColorScale` when it returns undefined. High contrast ignores rules.
+     */
+    protected getRuleColor(data: Pick<ChartData, "ruleColorsByKey">, key: string | null | undefined): string | undefined {
+        if (!key || this.isHighContrastMode()) {
+            return undefined;
+        }
+        return data.ruleColorsByKey?.get(key);
+    }
+
+    /**
+     * For marks keyed by category: Data Colors overrides with fx rule results layered on top,
+     * ready for `getCategoryColors` so marks and legend swatches agree.
+     */
+    protected withRuleColors(data: Pick<ChartData, "ruleColorsByKey">, overrides?: Map<string, string>): Map<string, string> | undefined {
+        if (!data.ruleColorsByKey?.size || this.isHighContrastMode()) {
+            return overrides;
+        }
+        return new Map([...(overrides ?? new Map<string, string>()), ...data.ruleColorsByKey]);
+    }
+
     protected getCategoryColors(
         categories: string[],
         colorOverrides?: Map<string, string>
@@ -236,8 +435,16 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         return schemeColors[categoryIndex % schemeColors.length];
     }
 
+    protected getSchemeGradient(): { min: string; max: string } {
+        return this.settings.colorScheme === "theme"
+            ? getThemeGradient(this.context.colorPalette)
+            : colorSchemes[this.settings.colorScheme];
+    }
+
     protected getSchemeColors(): string[] {
         switch (this.settings.colorScheme) {
+            case "theme":
+                return getThemeDataColors(this.context.colorPalette);
             case "blues":
                 return ["#08519c", "#3182bd", "#6baed6", "#9ecae1", "#c6dbef", "#deebf7"];
             case "greens":
@@ -260,6 +467,11 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
                 return ["#fcd34d", "#a3e635", "#34d399", "#22d3ee", "#a78bfa", "#f472b6"];
             case "vibrant":
                 return ["#f43f5e", "#f97316", "#facc15", "#4ade80", "#22d3ee", "#a855f7"];
+            case "viridis":
+            case "cividis":
+            case "okabeIto":
+            case "tolBright":
+                return getSchemeColors(this.settings.colorScheme);
             default:
                 return d3.schemeCategory10 as string[];
         }
@@ -270,57 +482,100 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         tooltipData: VisualTooltipDataItem[],
         meta?: TooltipMeta
     ): void {
-        if (!this.settings.tooltip?.enabled) {
+        const presenter = this.getTooltipPresenter();
+        if (!presenter) {
             return;
         }
 
         // Ensure SVG elements can receive mouse events even if the root SVG disables pointer events.
         element.style("pointer-events", "all");
 
+        const tooltip: CanvasMarkTooltip = { dataItems: tooltipData, meta };
+        element
+            .on("mouseover", function (event: MouseEvent) {
+                presenter.show(tooltip, event);
+            })
+            .on("mousemove", function (event: MouseEvent) {
+                presenter.move(tooltip, event);
+            })
+            .on("mouseout", function () {
+                presenter.hide();
+            });
+    }
+
+    // Unbinds `addTooltip` from a mark kept from the previous render that no longer shows a tooltip.
+    protected removeTooltip(element: d3.Selection<SVGElement, unknown, null, undefined>): void {
+        element
+            .style("pointer-events", null)
+            .on("mouseover", null)
+            .on("mousemove", null)
+            .on("mouseout", null);
+    }
+
+    // Shows tooltips through the custom HTML tooltip or the host service, per the Tooltip card.
+    private getTooltipPresenter(): CanvasTooltipPresenter | null {
+        if (!this.settings.tooltip?.enabled) {
+            return null;
+        }
+
         if (this.settings.tooltip.style === "custom" && typeof document !== "undefined") {
             const tooltip = this.context.htmlTooltip;
             if (!tooltip) {
-                return;
+                return null;
             }
-
-            element
-                .on("mouseover", function (event: MouseEvent) {
-                    tooltip.show({ meta, rows: toTooltipRows(tooltipData) }, event.clientX, event.clientY);
-                })
-                .on("mousemove", function (event: MouseEvent) {
-                    tooltip.move(event.clientX, event.clientY);
-                })
-                .on("mouseout", function () {
-                    tooltip.hide();
-                });
-            return;
+            return {
+                show: ({ dataItems, meta }, event) => tooltip.show({ meta, rows: toTooltipRows(dataItems) }, event.clientX, event.clientY),
+                move: (_content, event) => tooltip.move(event.clientX, event.clientY),
+                hide: () => tooltip.hide()
+            };
         }
 
         const tooltipService = this.context.tooltipService;
-
-        element
-            .on("mouseover", function (event: MouseEvent) {
-                tooltipService.show({
-                    dataItems: tooltipData,
-                    identities: [],
-                    coordinates: [event.clientX, event.clientY],
-                    isTouchEvent: false
-                });
-            })
-            .on("mousemove", function (event: MouseEvent) {
-                tooltipService.move({
-                    dataItems: tooltipData,
-                    identities: [],
-                    coordinates: [event.clientX, event.clientY],
-                    isTouchEvent: false
-                });
+        return {
+            show: ({ dataItems }, event) => tooltipService.show({
+                dataItems,
+                identities: [],
+                coordinates: [event.clientX, event.clientY],
+                isTouchEvent: false
+            }),
+            move: ({ dataItems }, event) => tooltipService.move({
+                dataItems,
+                identities: [],
+                coordinates: [event.clientX, event.clientY],
+                isTouchEvent: false
+            }),
+            hide: () => tooltipService.hide({
+                immediately: true,
+                isTouchEvent: false
             })
-            .on("mouseout", function () {
-                tooltipService.hide({
-                    immediately: true,
-                    isTouchEvent: false
-                });
-            });
+        };
+    }
+
+    /**
+     * Whether this render should draw its `markCount` marks on canvas: the visual supports it
+     * (`context.canvasLayers`) and the Rendering card asks for it.
+     */
+    protected shouldUseCanvas(markCount: number): boolean {
+        return Boolean(this.context.canvasLayers) && shouldRenderOnCanvas(this.settings.rendering, markCount);
+    }
+
+    /**
+     * Appends a canvas layer for marks to `parent`, covering `frame` in `parent` coordinates.
+     * Returns null when no canvas is available, in which case the renderer draws SVG marks.
+     */
+    protected createCanvasLayer(
+        parent: d3.Selection<SVGGElement, unknown, null, undefined>,
+        frame: CanvasLayerFrame
+    ): CanvasMarkLayer | null {
+        const node = parent.node();
+        if (!this.context.canvasLayers || !node) {
+            return null;
+        }
+        const layer = CanvasMarkLayer.create(node, frame, this.getTooltipPresenter());
+        if (layer) {
+            this.context.canvasLayers.push(layer);
+        }
+        return layer;
     }
 
     protected addTooltipDynamic(
@@ -358,6 +613,267 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
             });
     }
 
+    /**
+     * Formatter for one label type of the Display Units card. Build it once per axis or
+     * panel: `reference` (the domain or data maximum) decides which unit "Auto" resolves to.
+     */
+    protected getValueFormatter(
+        target: DisplayUnitTarget,
+        formatString?: string,
+        reference?: number
+    ): (value: number | null | undefined) => string {
+        return createDisplayUnitFormatter(this.settings?.displayUnits, target, formatString, reference);
+    }
+
+    protected formatTooltipValue(value: number | null | undefined, formatString?: string): string {
+        return this.getValueFormatter("tooltip", formatString)(value);
+    }
+
+    /**
+     * Resolves the Reference Lines card against `values`, the values plotted on one panel's
+     * value axis. Null when the visual has no reference lines or none is on.
+     */
+    protected getReferenceLines(
+        data: Pick<ChartData, "referenceMeasure" | "valueFormatString">,
+        values: number[]
+    ): ResolvedReferenceLines | null {
+        const settings = this.settings.referenceLines;
+        if (!settings) {
+            return null;
+        }
+        const reference = values.reduce((max, value) => Number.isFinite(value) ? Math.max(max, Math.abs(value)) : max, 0);
+        const format = this.getValueFormatter("label", data.valueFormatString, reference);
+        const resolved = resolveReferenceLines(settings, values, data.referenceMeasure, (value) => format(value));
+        return resolved.lines.length || resolved.band ? resolved : null;
+    }
+
+    /**
+     * Draws resolved reference lines into a panel. `scale` maps values to pixels along the value
+     * axis; "horizontal" lines span `frame.width` (value axis is y), "vertical" lines span
+     * `frame.height` (value axis is x). The band goes behind the panel's marks, the lines on top.
+     * Lines outside the frame are skipped and the band is clipped to it.
+     */
+    protected renderReferenceLines(
+        parent: d3.Selection<SVGGElement, unknown, null, undefined>,
+        resolved: ResolvedReferenceLines | null,
+        scale: (value: number) => number,
+        frame: { width: number; height: number },
+        orientation: "horizontal" | "vertical"
+    ): void {
+        if (!resolved) {
+            return;
+        }
+        const isHorizontal = orientation === "horizontal";
+        const extent = isHorizontal ? frame.height : frame.width;
+        const highContrast = this.isHighContrastMode();
+        const halo = this.getThemeBackground("#ffffff");
+        const fontSize = 10;
+
+        const appendLabel = (
+            group: d3.Selection<SVGGElement, unknown, null, undefined>,
+            text: string,
+            position: number,
+            atEnd: boolean,
+            color: string
+        ): void => {
+            const label = group.append("text")
+                .attr("class", "reference-label")
+                .attr("font-size", `${fontSize}px`)
+                .attr("font-family", "Segoe UI, sans-serif")
+                .attr("fill", color)
+                .style("paint-order", "stroke")
+                .attr("stroke", halo)
+                .attr("stroke-width", 3)
+                .attr("stroke-linejoin", "round")
+                .text(text);
+            if (isHorizontal) {
+                label
+                    .attr("x", atEnd ? frame.width - 4 : 4)
+                    .attr("y", Math.max(fontSize, position - 4))
+                    .attr("text-anchor", atEnd ? "end" : "start");
+            } else {
+                label
+                    .attr("x", Math.min(frame.width - 4, position + 4))
+                    .attr("y", atEnd ? fontSize + 2 : frame.height - 4)
+                    .attr("text-anchor", position + 4 > frame.width - 40 ? "end" : "start");
+            }
+        };
+
+        const band = resolved.band;
+        if (band) {
+            const a = Math.max(0, Math.min(extent, scale(band.from)));
+            const b = Math.max(0, Math.min(extent, scale(band.to)));
+            const size = Math.abs(b - a);
+            if (size > 0) {
+                const start = Math.min(a, b);
+                const color = highContrast ? this.getThemeForeground() : band.settings.color;
+                const bandGroup = parent.insert("g", ":first-child")
+                    .attr("class", "reference-band")
+                    .attr("aria-hidden", "true")
+                    .style("pointer-events", "none");
+                bandGroup.append("rect")
+                    .attr("x", isHorizontal ? 0 : start)
+                    .attr("y", isHorizontal ? start : 0)
+                    .attr("width", isHorizontal ? frame.width : size)
+                    .attr("height", isHorizontal ? size : frame.height)
+                    .attr("fill", color)
+                    .attr("fill-opacity", highContrast ? 0.15 : 1 - band.settings.transparency / 100);
+                if (band.label) {
+                    appendLabel(bandGroup, band.label, isHorizontal ? start + fontSize + 4 : start, !isHorizontal, color);
+                }
+            }
+        }
+
+        if (!resolved.lines.length) {
+            return;
+        }
+        const linesGroup = parent.append("g")
+            .attr("class", "reference-lines")
+            .attr("aria-hidden", "true")
+            .style("pointer-events", "none");
+        resolved.lines.forEach((line) => {
+            const position = scale(line.value);
+            if (!Number.isFinite(position) || position < -0.5 || position > extent + 0.5) {
+                return;
+            }
+            const px = this.snapToPixel(position);
+            const color = highContrast ? this.getThemeForeground() : line.settings.color;
+            const style = line.settings.style;
+            linesGroup.append("line")
+                .attr("x1", isHorizontal ? 0 : px)
+                .attr("x2", isHorizontal ? frame.width : px)
+                .attr("y1", isHorizontal ? px : 0)
+                .attr("y2", isHorizontal ? px : frame.height)
+                .attr("stroke", color)
+                .attr("stroke-width", line.settings.width)
+                .attr("stroke-dasharray", style === "dashed" ? "6 4" : style === "dotted" ? "1.5 3" : null)
+                .attr("stroke-linecap", style === "dotted" ? "round" : "butt");
+            if (line.label) {
+                appendLabel(linesGroup, line.label, px, line.settings.labelPosition === "end", color);
+            }
+        });
+    }
+
+    /**
+     * Draws annotation callouts into a panel. `points` carry each note's anchor in panel
+     * coordinates; callouts are placed around their anchors inside `frame` without covering
+     * each other, joined to the anchor by a connector when the card asks for one.
+     */
+    protected renderAnnotations(
+        parent: d3.Selection<SVGGElement, unknown, null, undefined>,
+        points: AnnotationPoint[],
+        frame: { width: number; height: number }
+    ): void {
+        const settings = this.settings.annotations;
+        if (!settings?.show || !points.length) {
+            return;
+        }
+        const highContrast = this.isHighContrastMode();
+        const color = highContrast ? this.getThemeForeground() : settings.color;
+        const background = this.getThemeBackground("#ffffff");
+        const fontSize = settings.fontSize;
+        const lineHeight = Math.round(fontSize * 1.25);
+        const padding = settings.style === "text" ? 1 : 4;
+
+        const layer = parent.append("g")
+            .attr("class", "annotations")
+            .style("pointer-events", "none");
+
+        layoutAnnotations(points, settings, frame).forEach((layout) => {
+            const note = layer.append("g")
+                .attr("class", "annotation")
+                .attr("role", "note")
+                .attr("aria-label", layout.annotation.text);
+
+            if (settings.showConnector) {
+                // Connect the anchor to the nearest point on the callout's edge.
+                const edgeX = Math.max(layout.x, Math.min(layout.x + layout.width, layout.anchorX));
+                const edgeY = Math.max(layout.y, Math.min(layout.y + layout.height, layout.anchorY));
+                if (Math.hypot(edgeX - layout.anchorX, edgeY - layout.anchorY) > 4) {
+                    note.append("line")
+                        .attr("x1", layout.anchorX)
+                        .attr("y1", layout.anchorY)
+                        .attr("x2", edgeX)
+                        .attr("y2", edgeY)
+                        .attr("stroke", color)
+                        .attr("stroke-width", 1);
+                }
+            }
+            note.append("circle")
+                .attr("cx", layout.anchorX)
+                .attr("cy", layout.anchorY)
+                .attr("r", 2.5)
+                .attr("fill", color)
+                .attr("stroke", background)
+                .attr("stroke-width", 1);
+
+            if (settings.style !== "text") {
+                note.append("rect")
+                    .attr("x", this.snapToPixel(layout.x))
+                    .attr("y", this.snapToPixel(layout.y))
+                    .attr("width", Math.round(layout.width))
+                    .attr("height", Math.round(layout.height))
+                    .attr("rx", 3)
+                    .attr("fill", settings.style === "box" && !highContrast ? color : background)
+                    .attr("fill-opacity", settings.style === "box" && !highContrast ? 0.12 : 0.9)
+                    .attr("stroke", color)
+                    .attr("stroke-width", 1);
+            }
+            const text = note.append("text")
+                .attr("font-size", `${fontSize}px`)
+                .attr("font-family", "Segoe UI, sans-serif")
+                .attr("fill", color);
+            if (settings.style === "text") {
+                text
+                    .style("paint-order", "stroke")
+                    .attr("stroke", background)
+                    .attr("stroke-width", 3)
+                    .attr("stroke-linejoin", "round");
+            }
+            layout.lines.forEach((line, i) => {
+                text.append("tspan")
+                    .attr("x", layout.x + padding)
+                    .attr("y", layout.y + padding + i * lineHeight + fontSize)
+                    .text(line);
+            });
+        });
+    }
+
+    /**
+     * Crosshair shared by the `panelCount` small-multiple panels of this render, or null with a
+     * single panel or when the Crosshair card turns syncing off. Panels join it with `addPanel`.
+     */
+    protected createCrosshairSync(panelCount: number): CrosshairSync | null {
+        const settings = this.settings.crosshair;
+        if (!settings?.sync || panelCount < 2) {
+            return null;
+        }
+        const highContrast = this.isHighContrastMode();
+        return new CrosshairSync(settings, {
+            color: highContrast ? this.getThemeForeground("#374151") : "#64748b",
+            background: this.getThemeBackground("#ffffff"),
+            textColor: this.getThemeForeground("#111827"),
+            fontSize: 10,
+            fontFamily: this.settings.xAxisFontFamily
+        }, settings.combinedTooltip ? this.getTooltipPresenter() : null);
+    }
+
+    /**
+     * Tooltip rows listing the members of the Top-N "Others" mark with this key in `group`,
+     * largest first; empty for any other mark.
+     */
+    protected getOthersTooltipRows(
+        data: Pick<ChartData, "othersByGroup" | "valueFormatString">,
+        group: string,
+        key: string | null | undefined
+    ): VisualTooltipDataItem[] {
+        const others = key ? data.othersByGroup?.get(group)?.get(key) : undefined;
+        if (!others) {
+            return [];
+        }
+        return getOthersMemberRows(others, (value) => this.formatTooltipValue(value, data.valueFormatString));
+    }
+
     /**
      * Deprecated: legacy legend placement helper.
      * Prefer `getLegendReservation()` + `renderLegend()` (which share the same sizing model)
@@ -480,24 +996,11 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
             availableWidth?: number;
             availableHeight?: number;
         }
-    ): {
-        dock: "top" | "bottom" | "left" | "right";
-        align: "start" | "middle" | "end";
-        vAlign: "top" | "middle";
-        isVertical: boolean;
-        width: number;
-        height: number;
-        itemsPerRow: number;
-        itemsPerCol: number;
-        colWidth: number;
-        rowHeight: number;
-        padX: number;
-        padY: number;
-    } | null {
-        const items = categories.slice(0, Math.max(0, maxLegendItems));
-        if (items.length === 0) return null;
+    ): OrdinalLegendMetrics | null {
+        if (categories.length === 0) return null;
 
         const { dock, align, isVertical, vAlign } = this.getLegendDock(position);
+        const overflowMode: LegendOverflow = this.settings.legendOverflow === "more" ? "more" : "paginate";
 
         const padX = 12;
         const padY = 12;
@@ -511,51 +1014,80 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         const reservedTextPad = 8;
 
         const rowHeight = Math.max(16, Math.round(legendFontSize) + 6);
-        const maxLabelWidth = Math.max(0, Math.ceil(measureMaxLabelWidth(items, legendFontSize, "Segoe UI")));
+        // Measured over every category so the column width does not jump between pages.
+        const maxLabelWidth = Math.max(0, Math.ceil(measureMaxLabelWidth(categories, legendFontSize, "Segoe UI")));
 
         const itemWidthMin = 88;
         const colWidth = Math.max(itemWidthMin, swatchWidth + gap + maxLabelWidth + reservedTextPad);
+        // `maxLegendItems` is the page size; the space available can make pages smaller still.
+        const pageCap = Math.max(1, Math.floor(maxLegendItems) || 1);
 
         if (dock === "left" || dock === "right" || isVertical) {
             // For stacked legends docked to top/bottom, cap legend height so it doesn't consume the full viewport.
             const heightCap = (dock === "top" || dock === "bottom")
                 ? Math.max(rowHeight, Math.floor(availableHeight * 0.35))
                 : availableHeight;
-            const itemsPerColMax = Math.max(1, Math.floor(heightCap / rowHeight));
-            const itemsPerCol = Math.max(1, Math.min(itemsPerColMax, items.length));
-            const cols = Math.max(1, Math.ceil(items.length / itemsPerCol));
+            const colsMax = (dock === "left" || dock === "right")
+                ? 1
+                : Math.max(1, Math.floor((availableWidth * 0.35) / colWidth));
+            let perColFit = Math.max(1, Math.floor(heightCap / rowHeight));
+            let pageSize = Math.min(pageCap, perColFit * colsMax);
+            const overflow = categories.length > pageSize ? overflowMode : null;
+            if (overflow === "paginate") {
+                // The pager takes the last row.
+                perColFit = Math.max(1, Math.floor((heightCap - rowHeight) / rowHeight));
+                pageSize = Math.min(pageCap, perColFit * colsMax);
+            }
+            const slots = overflow ? pageSize : categories.length;
+            const itemsPerCol = Math.max(1, Math.min(perColFit, slots));
+            const cols = Math.max(1, Math.ceil(slots / itemsPerCol));
             return {
                 dock,
                 align,
                 vAlign,
                 isVertical: true,
-                width: cols * colWidth,
-                height: Math.min(heightCap, itemsPerCol * rowHeight),
+                width: Math.max(cols * colWidth, overflow === "paginate" ? LEGEND_PAGER_WIDTH : 0),
+                height: itemsPerCol * rowHeight + (overflow === "paginate" ? rowHeight : 0),
                 itemsPerRow: 1,
                 itemsPerCol,
                 colWidth,
                 rowHeight,
                 padX,
-                padY
+                padY,
+                pageSize,
+                pageCount: overflow === "paginate" ? Math.ceil(categories.length / pageSize) : 1,
+                overflow
             };
         }
 
-        const itemsPerRowMax = Math.max(1, Math.floor(availableWidth / colWidth));
-        const itemsPerRow = Math.max(1, Math.min(itemsPerRowMax, items.length));
-        const rows = Math.max(1, Math.ceil(items.length / itemsPerRow));
+        const rowsMax = Math.max(1, Math.floor((availableHeight * 0.35) / rowHeight));
+        let perRowFit = Math.max(1, Math.floor(availableWidth / colWidth));
+        let pageSize = Math.min(pageCap, perRowFit * rowsMax);
+        const overflow = categories.length > pageSize ? overflowMode : null;
+        if (overflow === "paginate") {
+            // The pager sits at the end of the first row.
+            perRowFit = Math.max(1, Math.floor((availableWidth - LEGEND_PAGER_WIDTH) / colWidth));
+            pageSize = Math.min(pageCap, perRowFit * rowsMax);
+        }
+        const slots = overflow ? pageSize : categories.length;
+        const itemsPerRow = Math.max(1, Math.min(perRowFit, slots));
+        const rows = Math.max(1, Math.ceil(slots / itemsPerRow));
         return {
             dock,
             align,
             vAlign,
             isVertical: false,
-            width: itemsPerRow * colWidth,
+            width: itemsPerRow * colWidth + (overflow === "paginate" ? LEGEND_PAGER_WIDTH : 0),
             height: rows * rowHeight,
             itemsPerRow,
             itemsPerCol: 1,
             colWidth,
             rowHeight,
             padX,
-            padY
+            padY,
+            pageSize,
+            pageCount: overflow === "paginate" ? Math.ceil(categories.length / pageSize) : 1,
+            overflow
         };
     }
 
@@ -625,12 +1157,12 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
     }
 
     protected renderLegend(
-        colorScale: d3.ScaleSequential<string, never> | d3.ScaleOrdinal<string, string, never>,
+        colorScale: d3.ScaleSequential<string, never> | d3.ScaleOrdinal<string, string, never> | ValueColorScale,
         maxValue: number,
         isOrdinal: boolean = false,
         categories?: string[],
         customY?: number,
-        customGradientColors?: { min: string; max: string },
+        customGradientColors?: { min: string; max: string; stops?: string[] },
         layout?: {
             alignFrame?: LegendAlignFrame;
             availableWidth?: number;
@@ -646,6 +1178,19 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         const maxLegendItems = this.settings.maxLegendItems || 10;
         const position = this.settings.legendPosition || "topRight";
 
+        // Classed scales get a stepped legend: one swatch per class, labelled with its range.
+        const classes = (colorScale as ValueColorScale).classes;
+        if (classes?.length) {
+            const labels = categories?.length === classes.length
+                ? categories
+                : this.getClassLegendLabels(colorScale as ValueColorScale);
+            const stepped = d3.scaleOrdinal<string, string>()
+                .domain(labels)
+                .range(classes.map((entry) => entry.color));
+            this.renderLegend(stepped, maxValue, true, labels, customY, undefined, layout);
+            return;
+        }
+
         if (isOrdinal && categories) {
             // Categorical legend (color swatches with labels)
             const ordinalScale = colorScale as d3.ScaleOrdinal<string, string, never>;
@@ -659,42 +1204,60 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
             const x = baseOrigin.x;
             const y = customY !== undefined ? customY : baseOrigin.y;
 
-            const legendGroup = this.context.container.append("g")
-                .attr("class", "color-legend")
-                .attr("transform", `translate(${Math.round(x)}, ${Math.round(y)})`);
+            const legendGroup = this.getLayer(this.context.container, "color-legend", (group) => group
+                .attr("transform", `translate(${Math.round(x)}, ${Math.round(y)})`));
 
             const swatch = 12;
             const gap = 6;
             const textOffsetX = swatch + gap + 4;
+            const slotOffset = (slot: number): { x: number; y: number } => {
+                const row = metrics.isVertical ? (slot % metrics.itemsPerCol) : Math.floor(slot / metrics.itemsPerRow);
+                const col = metrics.isVertical ? Math.floor(slot / metrics.itemsPerCol) : (slot % metrics.itemsPerRow);
+                return { x: col * metrics.colWidth, y: row * metrics.rowHeight };
+            };
 
-            const items = categories.slice(0, maxLegendItems);
-
-            items.forEach((cat, i) => {
-                const row = metrics.isVertical ? (i % metrics.itemsPerCol) : Math.floor(i / metrics.itemsPerRow);
-                const col = metrics.isVertical ? Math.floor(i / metrics.itemsPerCol) : (i % metrics.itemsPerRow);
+            // Paged legends draw every item and show one page at a time, so hover and selection
+            // bindings survive page changes. "+N more" gives its last slot to the indicator.
+            const items = metrics.overflow === "more"
+                ? categories.slice(0, Math.max(0, metrics.pageSize - 1))
+                : categories;
 
-                const itemX = col * metrics.colWidth;
-                const itemY = row * metrics.rowHeight;
+            const itemGroups = this.joinMarks<SVGGElement, string>(legendGroup, "g.color-legend-item", items, (cat) => cat, (item) => item
+                .attr("transform", (_, i) => {
+                    const offset = slotOffset(metrics.overflow === "paginate" ? i % metrics.pageSize : i);
+                    return `translate(${Math.round(offset.x)}, ${Math.round(offset.y)})`;
+                }))
+                .attr("data-legend-key", (cat) => cat);
 
-                const itemGroup = legendGroup.append("g")
-                    .attr("class", "color-legend-item")
-                    .attr("transform", `translate(${Math.round(itemX)}, ${Math.round(itemY)})`);
+            this.joinMarks<SVGRectElement, string>(itemGroups, "rect.color-legend-swatch", (cat: string) => [cat], (cat) => cat, (rect) => rect
+                .attr("x", 0)
+                .attr("y", Math.round((metrics.rowHeight - swatch) / 2))
+                .attr("width", swatch)
+                .attr("height", swatch)
+                .attr("rx", 3)
+                .attr("fill", (cat) => ordinalScale(cat)));
 
-                itemGroup.append("rect")
-                    .attr("x", 0)
-                    .attr("y", Math.round((metrics.rowHeight - swatch) / 2))
-                    .attr("width", swatch)
-                    .attr("height", swatch)
-                    .attr("rx", 3)
-                    .attr("fill", ordinalScale(cat));
-
-                itemGroup.append("text")
-                    .attr("x", textOffsetX)
-                    .attr("y", Math.round(metrics.rowHeight / 2 + legendFontSize / 2 - 2))
-                    .attr("font-size", `${legendFontSize}px`)
-                    .attr("fill", this.getThemeForeground("#6b7280"))
-                    .text(cat);
-            });
+            this.joinMarks<SVGTextElement, string>(itemGroups, "text.color-legend-label", (cat: string) => [cat], (cat) => cat, (text) => text
+                .attr("x", textOffsetX)
+                .attr("y", Math.round(metrics.rowHeight / 2 + legendFontSize / 2 - 2))
+                .attr("font-size", `${legendFontSize}px`)
+                .attr("fill", this.getThemeForeground("#6b7280")))
+                .text((cat) => cat);
+
+            if (metrics.overflow === "paginate") {
+                this.renderLegendPager(legendGroup, itemGroups, metrics, legendFontSize);
+            } else if (metrics.overflow === "more") {
+                const indicatorOffset = slotOffset(items.length);
+                this.renderLegendOverflowList(
+                    legendGroup,
+                    { x: Math.round(x) + indicatorOffset.x, y: Math.round(y) + indicatorOffset.y },
+                    indicatorOffset,
+                    categories.slice(items.length),
+                    (cat) => ordinalScale(cat),
+                    metrics,
+                    legendFontSize
+                );
+            }
         } else {
             // Gradient legend (for heatmaps, etc.)
             const metrics = this.computeGradientLegendMetrics(position, legendFontSize, legendWidth, legendHeight);
@@ -702,9 +1265,10 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
             const x = origin.x;
             const y = customY !== undefined ? customY : origin.y;
 
-            const legendGroup = this.context.container.append("g")
-                .attr("class", "color-legend")
-                .attr("transform", `translate(${Math.round(x)}, ${Math.round(y)})`);
+            const legendGroup = this.getLayer(this.context.container, "color-legend", (group) => group
+                .attr("transform", `translate(${Math.round(x)}, ${Math.round(y)})`));
+            // Items of an ordinal legend drawn by the previous render.
+            legendGroup.selectAll(".color-legend-item").remove();
 
             const gradientId = `legend-gradient-${++BaseRenderer.gradientCounter}`;
             const defs = this.context.svg.select("defs").empty()
@@ -712,6 +1276,7 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
                 : this.context.svg.select("defs");
 
             const gradient = defs.append("linearGradient")
+                .attr("class", "color-legend-gradient")
                 .attr("id", gradientId)
                 .attr("x1", "0%")
                 .attr("x2", "100%");
@@ -721,9 +1286,16 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
                     min: this.getThemeBackground("#ffffff"),
                     max: this.getThemeForeground("#111827")
                 }
-                : (customGradientColors || colorSchemes[this.settings.colorScheme]);
-            gradient.append("stop").attr("offset", "0%").attr("stop-color", gradientColors.min);
-            gradient.append("stop").attr("offset", "100%").attr("stop-color", gradientColors.max);
+                : (customGradientColors || this.getSchemeGradient());
+            // Multi-stop and diverging scales pass their sampled colors as `stops`.
+            const stopColors = !this.isHighContrastMode() && customGradientColors?.stops?.length
+                ? customGradientColors.stops
+                : [gradientColors.min, gradientColors.max];
+            stopColors.forEach((color, i) => {
+                gradient.append("stop")
+                    .attr("offset", `${Math.round((i / Math.max(1, stopColors.length - 1)) * 100)}%`)
+                    .attr("stop-color", color);
+            });
 
             legendGroup.append("rect")
                 .attr("width", legendWidth)
@@ -754,6 +1326,196 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         }
     }
 
+    /**
+     * ◀ n/N ▶ controls of a paged legend: at the end of the first row for docked rows, below
+     * the items for docked columns. Items off the current page are hidden, not removed.
+     */
+    private renderLegendPager(
+        legendGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        itemGroups: d3.Selection<SVGGElement, string, Element, any>,
+        metrics: OrdinalLegendMetrics,
+        legendFontSize: number
+    ): void {
+        const { pageSize, pageCount, rowHeight } = metrics;
+        const pagerX = metrics.isVertical ? 0 : metrics.itemsPerRow * metrics.colWidth;
+        const pagerY = metrics.isVertical ? metrics.itemsPerCol * rowHeight : 0;
+        const textY = Math.round(rowHeight / 2 + legendFontSize / 2 - 2);
+        const foreground = this.getThemeForeground("#6b7280");
+
+        const pager = legendGroup.append("g")
+            .attr("class", "color-legend-pager")
+            .attr("transform", `translate(${Math.round(pagerX)}, ${Math.round(pagerY)})`);
+
+        let page = 0;
+        const label = pager.append("text")
+            .attr("x", LEGEND_PAGER_WIDTH / 2)
+            .attr("y", textY)
+            .attr("text-anchor", "middle")
+            .attr("font-size", `${legendFontSize}px`)
+            .attr("fill", foreground);
+
+        const addButton = (x: number, glyph: string, ariaLabel: string, step: number) => {
+            const button = pager.append("g")
+                .attr("class", "color-legend-page-button")
+                .attr("transform", `translate(${x}, 0)`)
+                .attr("role", "button")
+                .attr("tabindex", 0)
+                .attr("aria-label", ariaLabel)
+                .style("cursor", "pointer");
+            button.append("rect")
+                .attr("x", -8)
+                .attr("width", 16)
+                .attr("height", rowHeight)
+                .attr("fill", "transparent");
+            button.append("text")
+                .attr("y", textY)
+                .attr("text-anchor", "middle")
+                .attr("font-size", `${Math.max(8, legendFontSize - 2)}px`)
+                .attr("fill", foreground)
+                .text(glyph);
+            // Stop propagation so the visual's background click does not clear the selection.
+            button
+                .on("click", (event: MouseEvent) => {
+                    event.stopPropagation();
+                    showPage(page + step);
+                })
+                .on("keydown", (event: KeyboardEvent) => {
+                    if (event.key !== "Enter" && event.key !== " ") return;
+                    event.preventDefault();
+                    event.stopPropagation();
+                    showPage(page + step);
+                });
+            return button;
+        };
+
+        const previous = addButton(8, metrics.isVertical ? "\u25B2" : "\u25C0", localize("Visual_LegendPreviousPage"), -1);
+        const next = addButton(LEGEND_PAGER_WIDTH - 8, metrics.isVertical ? "\u25BC" : "\u25B6", localize("Visual_LegendNextPage"), 1);
+
+        const showPage = (target: number): void => {
+            page = Math.max(0, Math.min(pageCount - 1, target));
+            itemGroups.style("display", (_, i) => Math.floor(i / pageSize) === page ? "" : "none");
+            label
+                .text(`${page + 1}/${pageCount}`)
+                .attr("aria-label", localizeFormat("Visual_LegendPageOf", page + 1, pageCount));
+            previous.attr("opacity", page === 0 ? 0.3 : 1).attr("aria-disabled", String(page === 0));
+            next.attr("opacity", page === pageCount - 1 ? 0.3 : 1).attr("aria-disabled", String(page === pageCount - 1));
+        };
+        showPage(0);
+    }
+
+    /**
+     * "+N more" indicator in the last legend slot. Hovering it opens a scrollable list of the
+     * remaining categories; list rows are legend items too, so they take part in legend hover
+     * and selection.
+     */
+    private renderLegendOverflowList(
+        legendGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        indicatorOrigin: { x: number; y: number },
+        indicatorOffset: { x: number; y: number },
+        hiddenCategories: string[],
+        colorOf: (category: string) => string,
+        metrics: OrdinalLegendMetrics,
+        legendFontSize: number
+    ): void {
+        if (!hiddenCategories.length) return;
+
+        const { rowHeight } = metrics;
+        const foreground = this.getThemeForeground("#6b7280");
+        const indicator = legendGroup.append("g")
+            .attr("class", "color-legend-more")
+            .attr("transform", `translate(${Math.round(indicatorOffset.x)}, ${Math.round(indicatorOffset.y)})`)
+            .attr("tabindex", 0)
+            .attr("aria-haspopup", "true");
+        indicator.append("rect")
+            .attr("width", metrics.colWidth)
+            .attr("height", rowHeight)
+            .attr("fill", "transparent");
+        indicator.append("text")
+            .attr("y", Math.round(rowHeight / 2 + legendFontSize / 2 - 2))
+            .attr("font-size", `${legendFontSize}px`)
+            .attr("font-weight", 600)
+            .attr("fill", foreground)
+            .text(localizeFormat("Visual_LegendMore", hiddenCategories.length));
+
+        // Opens below the indicator (above it for bottom-docked legends), kept inside the viewport.
+        const w = this.context.width;
+        const h = this.context.height;
+        const popupWidth = Math.max(80, Math.min(w - 8, metrics.colWidth + 24));
+        const popupHeight = Math.max(rowHeight, Math.min(LEGEND_OVERFLOW_MAX_HEIGHT, hiddenCategories.length * rowHeight + 10, h - 8));
+        const preferredY = metrics.dock === "bottom"
+            ? indicatorOrigin.y - popupHeight
+            : indicatorOrigin.y + rowHeight;
+        const popupX = Math.max(4, Math.min(w - popupWidth - 4, indicatorOrigin.x));
+        const popupY = Math.max(4, Math.min(h - popupHeight - 4, preferredY));
+
+        const popup = this.context.container.append("foreignObject")
+            .attr("class", "color-legend-overflow")
+            .attr("x", Math.round(popupX))
+            .attr("y", Math.round(popupY))
+            .attr("width", Math.round(popupWidth))
+            .attr("height", Math.round(popupHeight))
+            .style("display", "none");
+
+        const list = popup.append("xhtml:div")
+            .attr("role", "list")
+            .style("box-sizing", "border-box")
+            .style("width", "100%")
+            .style("height", "100%")
+            .style("overflow-y", "auto")
+            .style("padding", "4px 6px")
+            .style("background", this.getThemeBackground("#ffffff"))
+            .style("border", `1px solid ${this.getGridStroke("#e0e0e0")}`)
+            .style("border-radius", "4px")
+            .style("box-shadow", "0 2px 8px rgba(0, 0, 0, 0.15)")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", `${legendFontSize}px`)
+            .style("color", foreground);
+
+        hiddenCategories.forEach((cat) => {
+            const row = list.append("xhtml:div")
+                .attr("class", "color-legend-item")
+                .attr("data-legend-key", cat)
+                .attr("role", "listitem")
+                .attr("title", cat)
+                .style("display", "flex")
+                .style("align-items", "center")
+                .style("gap", "6px")
+                .style("height", `${rowHeight}px`)
+                .style("white-space", "nowrap");
+            row.append("xhtml:span")
+                .style("flex", "none")
+                .style("width", "12px")
+                .style("height", "12px")
+                .style("border-radius", "3px")
+                .style("background", colorOf(cat));
+            row.append("xhtml:span")
+                .style("overflow", "hidden")
+                .style("text-overflow", "ellipsis")
+                .text(cat);
+        });
+
+        // A short grace period lets the pointer travel from the indicator into the list.
+        let hideTimer: ReturnType<typeof setTimeout> | null = null;
+        const show = (): void => {
+            if (hideTimer) clearTimeout(hideTimer);
+            hideTimer = null;
+            popup.style("display", null);
+            popup.raise();
+        };
+        const scheduleHide = (): void => {
+            if (hideTimer) clearTimeout(hideTimer);
+            hideTimer = setTimeout(() => popup.style("display", "none"), 200);
+        };
+        indicator
+            .on("mouseenter", show)
+            .on("mouseleave", scheduleHide)
+            .on("focus", show)
+            .on("blur", scheduleHide);
+        popup
+            .on("mouseenter", show)
+            .on("mouseleave", scheduleHide);
+    }
+
     protected getContrastColor(color: string): string {
         const rgb = BaseRenderer.parseCssColorToRgb(color);
         if (!rgb) {
@@ -764,6 +1526,26 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
         return luminance > 0.5 ? "#333333" : "#ffffff";
     }
 
+    /**
+     * Grows the SVG to `contentHeight` and lets the visual scroll vertically when the content
+     * is taller than the viewport (small multiples with the "scroll" overflow); otherwise
+     * restores the viewport-sized, non-scrolling layout.
+     */
+    protected setContentHeight(contentHeight: number): void {
+        const root = this.context.root;
+        const height = Math.ceil(contentHeight);
+        if (height <= this.context.height) {
+            root.style.overflowX = "";
+            root.style.overflowY = "";
+            return;
+        }
+        root.style.overflowX = "hidden";
+        root.style.overflowY = "auto";
+        this.context.svg
+            .attr("height", height)
+            .attr("viewBox", `0 0 ${this.context.width} ${height}`);
+    }
+
     /**
      * Get effective font size - clamps to min/max bounds
      * @param fontSize The font size setting
@@ -794,4 +1576,29 @@ export abstract class BaseRenderer<TSettings extends IBaseVisualSettings = IBase
     protected renderNoData(): void {
         this.context.container.selectAll("*").remove();
     }
+
+    /**
+     * Labels the rendered chart for screen readers (whole visual plus each `data-panel-key` panel)
+     * and refreshes the visually hidden data table. Visuals call this right after `render()`.
+     */
+    public renderAccessibility(data: ChartData): void {
+        renderAccessibleSummary(this.context.root, this.context.svg.node(), this.getAccessibleSummary(data));
+    }
+
+    /**
+     * Override when `dataPoints` don't describe the visual (flows, hierarchies, timelines). Overrides
+     * build their table through `buildAccessibleTable` so the Accessibility card can turn it off.
+     */
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        return summarizeChartData(data, this.getAccessibleChartType(), { includeTable: this.settings.accessibility.dataTable });
+    }
+
+    /** Builds the visually hidden data table, or returns null without building rows when it is turned off. */
+    protected buildAccessibleTable(build: () => AccessibleTable): AccessibleTable | null {
+        return this.settings.accessibility.dataTable ? build() : null;
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Chart");
+    }
 }
@@ -0,0 +1,207 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import { ChartData, DataPoint } from "./BaseRenderer";
+import { localize, localizeFormat } from "./localization";
+import { IAccessibilitySettings, defaultAccessibilitySettings } from "./settings";
+import { ALL_GROUP, getGroupLabel } from "./smallMultiples";
+import { formatMeasureValue } from "./utils";
+
+export interface AccessibleTable {
+    caption: string;
+    columns: string[];
+    rows: string[][];
+}
+
+export interface AccessibleSummary {
+    // aria-label for the whole visual, e.g. "Heatmap of Sales by Region and Month, max 12,400 in West/Mar".
+    label: string;
+    // aria-label per small-multiples panel, keyed by the panel's `data-panel-key`.
+    panelLabels?: Map<string, string>;
+    // Rendered as a visually hidden <table>; omit for visuals where a flat table adds nothing.
+    table?: AccessibleTable | null;
+}
+
+export interface ChartDataSummaryOptions {
+    valueName?: string;
+    // Where a point sits, e.g. "West/Mar" or "Germany → France". Defaults to yValue/xValue.
+    describeLocation?: (point: DataPoint) => string;
+    // False skips the data table (the Accessibility card turned it off, or the caller builds its own).
+    includeTable?: boolean;
+}
+
+const MAX_TABLE_ROWS = 500;
+const TABLE_CLASS = "bta-sr-table";
+const SUMMARY_DESC_CLASS = "bta-sr-summary";
+
+export function summarizeChartData(
+    data: ChartData,
+    chartType: string,
+    options: ChartDataSummaryOptions = {}
+): AccessibleSummary {
+    const valueName = options.valueName ?? data.valueDisplayName ?? localize("Visual_Value");
+    const describeLocation = options.describeLocation ?? ((point: DataPoint) => defaultLocation(point));
+    const format = (value: number): string => formatMeasureValue(value, data.valueFormatString);
+
+    const describePoints = (points: DataPoint[]): string => {
+        if (!points.length) {
+            return localize("Visual_A11y_NoData");
+        }
+        let max = points[0];
+        let min = points[0];
+        points.forEach((point) => {
+            if (point.value > max.value) max = point;
+            if (point.value < min.value) min = point;
+        });
+        const at = (point: DataPoint): string => {
+            const location = describeLocation(point);
+            return location ? localizeFormat("Visual_A11y_InLocation", location) : "";
+        };
+        const count = localizeFormat(points.length === 1 ? "Visual_A11y_DataPoint" : "Visual_A11y_DataPoints", points.length);
+        return points.length === 1
+            ? `${count}, ${format(max.value)}${at(max)}`
+            : localizeFormat("Visual_A11y_MaxMin", count, format(max.value), at(max), format(min.value), at(min));
+    };
+
+    const dimensions = [data.yAxisDisplayName, data.xAxisDisplayName].filter((name): name is string => Boolean(name));
+    const byDimensions = dimensions.length ? localizeFormat("Visual_A11y_By", dimensions.join(localize("Visual_A11y_And"))) : "";
+    const hasPanels = data.groups.length > 1 || (data.groups.length === 1 && data.groups[0] !== ALL_GROUP);
+
+    let label = localizeFormat("Visual_A11y_ChartOf", chartType, valueName, byDimensions, describePoints(data.dataPoints));
+    const panelLabels = new Map<string, string>();
+    if (hasPanels) {
+        label += localizeFormat(data.groups.length === 1 ? "Visual_A11y_Panel" : "Visual_A11y_Panels", data.groups.length);
+        data.groups.forEach((group) => {
+            const points = data.dataPoints.filter((point) => point.groupValue === group);
+            panelLabels.set(group, `${getGroupLabel(group)}: ${localizeFormat("Visual_A11y_ChartOf", chartType, valueName, "", describePoints(points))}`);
+        });
+    }
+
+    if (options.includeTable === false) {
+        return { label, panelLabels, table: null };
+    }
+
+    const hasSeries = data.dataPoints.some((point) => point.yValue && point.yValue !== point.xValue && point.yValue !== point.groupValue);
+    const columns = [
+        ...(hasPanels ? [localize("Visual_Group")] : []),
+        ...(hasSeries ? [data.yAxisDisplayName ?? localize("Visual_Series")] : []),
+        data.xAxisDisplayName ?? localize("Visual_Category"),
+        valueName
+    ];
+    const rows = data.dataPoints.map((point) => [
+        ...(hasPanels ? [getGroupLabel(point.groupValue)] : []),
+        ...(hasSeries ? [point.yValue] : []),
+        point.xValue,
+        format(point.value)
+    ]);
+
+    return {
+        label,
+        panelLabels,
+        table: { caption: localizeFormat("Visual_A11y_TableCaption", chartType), columns, rows }
+    };
+}
+
+export function parseAccessibilitySettings(objects: DataViewObjects | undefined): IAccessibilitySettings {
+    const settings: IAccessibilitySettings = { ...defaultAccessibilitySettings };
+    const obj = objects?.["accessibility"];
+    if (obj && typeof obj["dataTable"] === "boolean") {
+        settings.dataTable = obj["dataTable"];
+    }
+    return settings;
+}
+
+/**
+ * Writes the summary onto the visual: aria attributes on the root <svg> and on every
+ * `[data-panel-key]` group, plus an off-screen table appended to `root` when the summary has
+ * one. Passing `null` removes a previous summary (used by the landing page).
+ */
+export function renderAccessibleSummary(
+    root: HTMLElement,
+    svg: SVGSVGElement | null,
+    summary: AccessibleSummary | null
+): void {
+    root.querySelectorAll(`.${TABLE_CLASS}`).forEach((table) => table.remove());
+    if (!svg) {
+        return;
+    }
+    svg.querySelectorAll(`:scope > .${SUMMARY_DESC_CLASS}`).forEach((desc) => desc.remove());
+
+    if (!summary) {
+        svg.removeAttribute("role");
+        svg.removeAttribute("aria-roledescription");
+        svg.removeAttribute("aria-label");
+        return;
+    }
+
+    // role="img" would hide the focusable marks from assistive tech, so the chart is exposed as a labelled group.
+    svg.setAttribute("role", "group");
+    svg.setAttribute("aria-roledescription", localize("Visual_A11y_RoleChart"));
+    svg.setAttribute("aria-label", summary.label);
+
+    const desc = document.createElementNS("http://www.w3.org/2000/svg", "desc");
+    desc.setAttribute("class", SUMMARY_DESC_CLASS);
+    desc.textContent = summary.label;
+    svg.insertBefore(desc, svg.firstChild);
+
+    svg.querySelectorAll<SVGGElement>("[data-panel-key]").forEach((panel) => {
+        const label = summary.panelLabels?.get(panel.getAttribute("data-panel-key") ?? "");
+        if (!label) {
+            return;
+        }
+        panel.setAttribute("role", "group");
+        panel.setAttribute("aria-label", label);
+    });
+
+    if (summary.table && summary.table.rows.length) {
+        root.appendChild(createHiddenTable(summary.table));
+    }
+}
+
+function defaultLocation(point: DataPoint): string {
+    const parts = [point.yValue, point.xValue]
+        .filter((part) => part && part !== point.groupValue);
+    return Array.from(new Set(parts)).join("/");
+}
+
+function createHiddenTable(source: AccessibleTable): HTMLTableElement {
+    const table = document.createElement("table");
+    table.className = TABLE_CLASS;
+    Object.assign(table.style, {
+        position: "absolute",
+        width: "1px",
+        height: "1px",
+        margin: "-1px",
+        padding: "0",
+        border: "0",
+        overflow: "hidden",
+        clip: "rect(0 0 0 0)",
+        clipPath: "inset(50%)",
+        whiteSpace: "nowrap"
+    });
+
+    const rows = source.rows.slice(0, MAX_TABLE_ROWS);
+    const caption = table.createCaption();
+    caption.textContent = source.rows.length > rows.length
+        ? localizeFormat("Visual_A11y_TableTruncated", source.caption, rows.length, source.rows.length)
+        : source.caption;
+
+    const headRow = table.createTHead().insertRow();
+    source.columns.forEach((column) => {
+        const th = document.createElement("th");
+        th.scope = "col";
+        th.textContent = column;
+        headRow.appendChild(th);
+    });
+
+    const body = table.createTBody();
+    rows.forEach((row) => {
+        const tr = body.insertRow();
+        row.forEach((cell) => {
+            tr.insertCell().textContent = cell;
+        });
+    });
+
+    return table;
+}
@@ -0,0 +1,334 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataView = powerbi.DataView;
+import DataViewObjects = powerbi.DataViewObjects;
+import { AnnotationStyle, IAnnotationSettings, defaultAnnotationSettings } from "./settings";
+import { formatGroupValue } from "./utils";
+import { formatLabel, measureTextWidth } from "./textUtils";
+
+/**
+ * Author-defined notes on the chart.
+ *
+ * Annotations come from two places: a text measure in the optional Annotation role (one note
+ * per row that has text, anchored to that row's x value and series), and the `items` list in
+ * the Annotations card, one note per line written as
+ *
+ *     2024-03-01 | Price change
+ *     Q3 @ West | Launch in the West region
+ *
+ * The part before "|" is the anchor: an x value as shown on the axis or an ISO date, optionally
+ * followed by "@ key" to pin it to one series. Renderers match anchors to their marks with
+ * `findAnnotationTarget`, turn them into pixel positions and draw them with
+ * `BaseRenderer.renderAnnotations`, which places the callouts with `layoutAnnotations`.
+ */
+
+export const ANNOTATION_ROLE = "annotation";
+
+const STYLES: AnnotationStyle[] = ["box", "outline", "text"];
+const MAX_LINES = 3;
+
+export interface AnnotationAnchor {
+    // x value as text (a category label or the raw value).
+    x?: string;
+    // x value as a date, in ms.
+    date?: number;
+    // Series (or other data key) the note belongs to.
+    key?: string;
+}
+
+export interface Annotation {
+    anchor: AnnotationAnchor;
+    text: string;
+    // Small-multiples panel of a row from the Annotation role; list notes apply to every panel.
+    group?: string;
+}
+
+// One mark a note can attach to, in the renderer's x order.
+export interface AnnotationTarget {
+    // The renderer's x key for the mark.
+    key: string;
+    // Label shown on the axis, when it differs from the key.
+    label?: string;
+    date?: number;
+}
+
+export interface AnnotationPoint {
+    annotation: Annotation;
+    // Anchor position in panel coordinates.
+    x: number;
+    y: number;
+}
+
+export interface AnnotationLayout {
+    annotation: Annotation;
+    anchorX: number;
+    anchorY: number;
+    // Callout box, top-left corner.
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    lines: string[];
+}
+
+export function parseAnnotationSettings(objects: DataViewObjects | undefined): IAnnotationSettings {
+    const settings: IAnnotationSettings = { ...defaultAnnotationSettings };
+    const obj = objects?.["annotations"];
+    if (!obj) {
+        return settings;
+    }
+
+    if (typeof obj["show"] === "boolean") settings.show = obj["show"];
+    if (typeof obj["items"] === "string") settings.items = obj["items"];
+    const style = obj["style"] as AnnotationStyle | undefined;
+    if (style && STYLES.includes(style)) settings.style = style;
+    const color = (obj["color"] as { solid?: { color?: string } } | undefined)?.solid?.color;
+    if (color) settings.color = color;
+    const fontSize = Number(obj["fontSize"]);
+    if (obj["fontSize"] !== undefined && Number.isFinite(fontSize)) {
+        settings.fontSize = Math.max(6, Math.min(24, fontSize));
+    }
+    const maxWidth = Number(obj["maxWidth"]);
+    if (obj["maxWidth"] !== undefined && Number.isFinite(maxWidth)) {
+        settings.maxWidth = Math.max(40, Math.min(400, Math.round(maxWidth)));
+    }
+    if (typeof obj["showConnector"] === "boolean") settings.showConnector = obj["showConnector"];
+    return settings;
+}
+
+// "2024-03-01" or "2024-03-01 14:30" as a local date, the way the host sends date columns.
+function parseIsoDate(text: string): number | undefined {
+    const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+    if (!match) return undefined;
+    const date = new Date(
+        Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+        match[4] ? Number(match[4]) : 0, match[5] ? Number(match[5]) : 0
+    );
+    return isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+/**
+ * Parses the card's list, one "anchor | text" per line. Lines without "|" or text are skipped.
+ */
+export function parseAnnotationList(items: string): Annotation[] {
+    const annotations: Annotation[] = [];
+    items.split(/\r?\n/).forEach((line) => {
+        const separator = line.indexOf("|");
+        if (separator < 0) return;
+        const text = line.slice(separator + 1).trim();
+        const anchorText = line.slice(0, separator).trim();
+        if (!text || !anchorText) return;
+
+        const at = anchorText.lastIndexOf("@");
+        const xText = (at >= 0 ? anchorText.slice(0, at) : anchorText).trim();
+        const key = at >= 0 ? anchorText.slice(at + 1).trim() : "";
+        const anchor: AnnotationAnchor = {};
+        if (xText) {
+            anchor.x = xText;
+            anchor.date = parseIsoDate(xText);
+        }
+        if (key) anchor.key = key;
+        if (anchor.x || anchor.key) {
+            annotations.push({ anchor, text });
+        }
+    });
+    return annotations;
+}
+
+/**
+ * Collects the notes to draw: rows with text in the Annotation role, anchored to the row's
+ * value in the `x` category role and in the first bound `key` role, followed by the card's list.
+ */
+export function readAnnotations(
+    dataView: DataView | undefined,
+    settings: IAnnotationSettings | undefined,
+    roles: { x: string; key?: string[] }
+): Annotation[] {
+    if (!settings?.show) {
+        return [];
+    }
+    const annotations: Annotation[] = [];
+    const seen = new Set<string>();
+    const add = (annotation: Annotation): void => {
+        const id = JSON.stringify([annotation.anchor.x, annotation.anchor.date, annotation.anchor.key, annotation.group, annotation.text]);
+        if (seen.has(id)) return;
+        seen.add(id);
+        annotations.push(annotation);
+    };
+
+    const categorical = dataView?.categorical;
+    const categories = categorical?.categories ?? [];
+    const xColumn = categories.find((column) => column.source.roles?.[roles.x]);
+    const keyRole = roles.key?.find((role) => categories.some((column) => column.source.roles?.[role]));
+    const keyColumn = keyRole ? categories.find((column) => column.source.roles?.[keyRole]) : undefined;
+    const isGrouped = Boolean(categorical?.values?.source);
+    (categorical?.values ?? []).forEach((column) => {
+        if (!column.source.roles?.[ANNOTATION_ROLE] || !xColumn) return;
+        const group = isGrouped ? formatGroupValue(column.source.groupName) : undefined;
+        column.values.forEach((value, i) => {
+            const text = value === null || value === undefined ? "" : String(value).trim();
+            const raw = xColumn.values[i];
+            if (!text || raw === null || raw === undefined) return;
+            const anchor: AnnotationAnchor = raw instanceof Date
+                ? { date: raw.getTime() }
+                : { x: String(raw), date: typeof raw === "string" ? parseIsoDate(raw.trim()) : undefined };
+            const key = keyColumn?.values[i];
+            if (key !== null && key !== undefined && String(key).trim()) {
+                anchor.key = String(key).trim();
+            }
+            add({ anchor, text, group });
+        });
+    });
+
+    parseAnnotationList(settings.items).forEach(add);
+    return annotations;
+}
+
+function sameText(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Index of the target a note's x anchor points at: an exact key or axis label match, else the
+ * nearest date when the anchor's date lies within the targets' range. A note with only a key
+ * ("@ West | ...") goes on the last target. -1 when nothing matches.
+ */
+export function findAnnotationTarget(anchor: AnnotationAnchor, targets: AnnotationTarget[]): number {
+    if (anchor.x === undefined && anchor.date === undefined) {
+        return targets.length - 1;
+    }
+    if (anchor.x !== undefined) {
+        const x = anchor.x;
+        const index = targets.findIndex((target) => sameText(target.key, x) || (target.label !== undefined && sameText(target.label, x)));
+        if (index >= 0) return index;
+    }
+    if (anchor.date === undefined) {
+        return -1;
+    }
+    let best = -1;
+    let bestDistance = Infinity;
+    let min = Infinity;
+    let max = -Infinity;
+    targets.forEach((target, i) => {
+        if (target.date === undefined) return;
+        min = Math.min(min, target.date);
+        max = Math.max(max, target.date);
+        const distance = Math.abs(target.date - anchor.date!);
+        if (distance < bestDistance) {
+            best = i;
+            bestDistance = distance;
+        }
+    });
+    return anchor.date >= min && anchor.date <= max ? best : -1;
+}
+
+/**
+ * Notes for one small-multiples panel: list notes and the panel's rows from the Annotation role.
+ */
+export function getPanelAnnotations(annotations: Annotation[] | undefined, group: string): Annotation[] {
+    return (annotations ?? []).filter((annotation) => annotation.group === undefined || annotation.group === group);
+}
+
+/**
+ * True when the note belongs to `key` (a series) or is not pinned to one.
+ */
+export function matchesAnnotationKey(anchor: AnnotationAnchor, key: string): boolean {
+    return anchor.key === undefined || sameText(anchor.key, key);
+}
+
+function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = "";
+    words.forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (!current || measureTextWidth(candidate, fontSize) <= maxWidth) {
+            current = candidate;
+            return;
+        }
+        lines.push(current);
+        current = word;
+    });
+    if (current) lines.push(current);
+    if (lines.length > MAX_LINES) {
+        lines.splice(MAX_LINES - 1, lines.length, lines.slice(MAX_LINES - 1).join(" "));
+    }
+    return lines.map((line) => formatLabel(line, maxWidth, fontSize));
+}
+
+function overlapArea(
+    a: { x: number; y: number; width: number; height: number },
+    b: { x: number; y: number; width: number; height: number }
+): number {
+    const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+}
+
+/**
+ * Places a callout for each point. Candidate positions are tried around the anchor (above
+ * first, then beside and below, then stacked higher above); each is kept inside the frame and
+ * the one overlapping the fewest earlier callouts and anchors wins.
+ */
+export function layoutAnnotations(
+    points: AnnotationPoint[],
+    settings: IAnnotationSettings,
+    frame: { width: number; height: number }
+): AnnotationLayout[] {
+    const fontSize = settings.fontSize;
+    const lineHeight = Math.round(fontSize * 1.25);
+    const padding = settings.style === "text" ? 1 : 4;
+    const gap = settings.showConnector ? 14 : 6;
+    const maxWidth = Math.max(20, Math.min(settings.maxWidth, frame.width - padding * 2));
+
+    const anchors = points.map((point) => ({ x: point.x - 3, y: point.y - 3, width: 6, height: 6 }));
+    const placed: AnnotationLayout[] = [];
+
+    points.forEach((point) => {
+        const lines = wrapText(point.annotation.text, maxWidth, fontSize);
+        if (!lines.length) return;
+        const width = Math.ceil(Math.max(...lines.map((line) => measureTextWidth(line, fontSize)))) + padding * 2;
+        const height = lines.length * lineHeight + padding * 2;
+
+        const above = point.y - gap - height;
+        const below = point.y + gap;
+        const middle = point.y - height / 2;
+        const candidates: Array<[number, number]> = [
+            [point.x - width / 2, above],
+            [point.x + gap / 2, above],
+            [point.x - width - gap / 2, above],
+            [point.x - width / 2, below],
+            [point.x - width - gap / 2, below],
+            [point.x + gap / 2, below],
+            [point.x + gap, middle],
+            [point.x - width - gap, middle],
+            ...[1, 2, 3].map((level): [number, number] => [point.x - width / 2, above - level * (height + 4)])
+        ];
+
+        let best = { x: 0, y: 0, score: Infinity };
+        for (const [cx, cy] of candidates) {
+            const x = Math.max(0, Math.min(frame.width - width, cx));
+            const y = Math.max(0, Math.min(frame.height - height, cy));
+            const box = { x, y, width, height };
+            let score = Math.abs(x - cx) + Math.abs(y - cy);
+            placed.forEach((other) => { score += overlapArea(box, other) * 4; });
+            anchors.forEach((anchor) => { score += overlapArea(box, anchor) * 4; });
+            if (score < best.score) {
+                best = { x, y, score };
+            }
+        }
+
+        placed.push({
+            annotation: point.annotation,
+            anchorX: point.x,
+            anchorY: point.y,
+            x: best.x,
+            y: best.y,
+            width,
+            height,
+            lines
+        });
+    });
+    return placed;
+}
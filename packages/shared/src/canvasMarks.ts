@@ -0,0 +1,384 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import { IRenderingSettings, RenderingMode, defaultRenderingSettings } from "./settings";
+import { TooltipMeta } from "./tooltip";
+
+/**
+ * Canvas backend for marks of high-cardinality visuals.
+ *
+ * A `CanvasMarkLayer` is a `<canvas>` inside an SVG `<foreignObject>`, appended where the SVG
+ * marks would have gone. It therefore scrolls, stacks and gets cleared with the rest of the
+ * SVG, while axes, legends and titles stay SVG. Marks keep their data keys, so selection,
+ * legend emphasis and tooltips work as for SVG marks: `bindSelectionByDataKey` and
+ * `bindLegendInteractions` take the layers through `canvasLayers`.
+ *
+ * Hit-testing draws every mark once more in a unique color on a hidden canvas and reads the
+ * pixel under the pointer, then confirms the hit against the mark's geometry.
+ */
+
+export interface CanvasMarkTooltip {
+    dataItems: VisualTooltipDataItem[];
+    meta?: TooltipMeta;
+}
+
+export type CanvasMarkGeometry =
+    | { type: "circle"; cx: number; cy: number; r: number }
+    | { type: "rect"; x: number; y: number; width: number; height: number; rx?: number }
+    | { type: "path"; d: string };
+
+export type CanvasMark = CanvasMarkGeometry & {
+    // Same value the SVG mark would carry in `data-selection-key` (heatmap: `data-focus-key`).
+    key: string;
+    // Legend entry of the mark; falls back to `key` like `data-legend-key` does.
+    legendKey?: string | null;
+    fill?: string;
+    fillOpacity?: number;
+    stroke?: string;
+    strokeOpacity?: number;
+    strokeWidth?: number;
+    // Text centered in a rect mark (heatmap cell values).
+    label?: { text: string; color: string; font: string };
+    // Built on hover only, so tens of thousands of marks do not each hold their tooltip rows.
+    tooltip?: () => CanvasMarkTooltip;
+};
+
+export interface CanvasTooltipPresenter {
+    show(tooltip: CanvasMarkTooltip, event: MouseEvent): void;
+    move(tooltip: CanvasMarkTooltip, event: MouseEvent): void;
+    hide(): void;
+}
+
+export interface CanvasLayerFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Returns true when the event was handled, which keeps it from reaching the background handlers.
+export type CanvasMarkHandler = (mark: CanvasMark, event: MouseEvent) => boolean;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+const RENDERING_MODES: RenderingMode[] = ["auto", "svg", "canvas"];
+// Backing-store budget per layer; large scrolling heatmaps drop below device resolution first.
+const MAX_CANVAS_PIXELS = 16_777_216;
+const MAX_CANVAS_SIDE = 16_384;
+// Extra pick width around thin lines and small dots, in CSS pixels.
+const PICK_TOLERANCE = 2;
+
+export function parseRenderingSettings(objects: DataViewObjects | undefined): IRenderingSettings {
+    const settings: IRenderingSettings = { ...defaultRenderingSettings };
+    const obj = objects?.["rendering"];
+    if (!obj) {
+        return settings;
+    }
+
+    const mode = obj["mode"] as RenderingMode;
+    if (RENDERING_MODES.includes(mode)) {
+        settings.mode = mode;
+    }
+    const threshold = Number(obj["canvasThreshold"]);
+    if (obj["canvasThreshold"] !== undefined && Number.isFinite(threshold)) {
+        settings.canvasThreshold = Math.max(0, Math.round(threshold));
+    }
+    return settings;
+}
+
+/**
+ * Whether a render with `markCount` marks should draw them on canvas.
+ */
+export function shouldRenderOnCanvas(settings: IRenderingSettings | undefined, markCount: number): boolean {
+    switch (settings?.mode) {
+        case "canvas":
+            return true;
+        case "auto":
+            return markCount > settings.canvasThreshold;
+        default:
+            return false;
+    }
+}
+
+function traceRoundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, rx: number): void {
+    const r = Math.max(0, Math.min(rx, width / 2, height / 2));
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + width, y, x + width, y + height, r);
+    ctx.arcTo(x + width, y + height, x, y + height, r);
+    ctx.arcTo(x, y + height, x, y, r);
+    ctx.arcTo(x, y, x + width, y, r);
+    ctx.closePath();
+}
+
+export class CanvasMarkLayer {
+    private readonly marks: CanvasMark[] = [];
+    private readonly paths = new Map<CanvasMark, Path2D>();
+    private readonly handlers = new Map<"click" | "contextmenu", CanvasMarkHandler>();
+    private readonly ctx: CanvasRenderingContext2D;
+    private pickCtx: CanvasRenderingContext2D | null = null;
+    private pickDirty: boolean = true;
+    private opacityOf: ((mark: CanvasMark) => number) | null = null;
+    private hovered: CanvasMark | null = null;
+    private drawFrame: number | null = null;
+
+    private constructor(
+        private readonly canvas: HTMLCanvasElement,
+        private readonly frame: CanvasLayerFrame,
+        private readonly ratio: number,
+        private readonly tooltip: CanvasTooltipPresenter | null
+    ) {
+        this.ctx = canvas.getContext("2d")!;
+        canvas.addEventListener("mousemove", (event) => this.onPointerMove(event));
+        canvas.addEventListener("mouseleave", () => this.setHovered(null));
+        canvas.addEventListener("click", (event) => this.dispatch("click", event));
+        canvas.addEventListener("contextmenu", (event) => this.dispatch("contextmenu", event));
+    }
+
+    /**
+     * Appends a layer covering `frame` (in `parent` coordinates) to `parent`. Returns null when
+     * the browser cannot provide a 2D canvas of that size; the caller then draws SVG marks.
+     */
+    public static create(
+        parent: SVGGElement,
+        frame: CanvasLayerFrame,
+        tooltip: CanvasTooltipPresenter | null
+    ): CanvasMarkLayer | null {
+        if (typeof document === "undefined" || frame.width <= 0 || frame.height <= 0) return null;
+        if (frame.width > MAX_CANVAS_SIDE || frame.height > MAX_CANVAS_SIDE) return null;
+
+        const deviceRatio = typeof window !== "undefined" ? (window.devicePixelRatio || 1) : 1;
+        const ratio = Math.min(deviceRatio, Math.sqrt(MAX_CANVAS_PIXELS / (frame.width * frame.height)));
+        const canvas = document.createElementNS(XHTML_NS, "canvas") as HTMLCanvasElement;
+        canvas.width = Math.max(1, Math.round(frame.width * ratio));
+        canvas.height = Math.max(1, Math.round(frame.height * ratio));
+        canvas.style.display = "block";
+        canvas.style.width = `${frame.width}px`;
+        canvas.style.height = `${frame.height}px`;
+        canvas.style.pointerEvents = "all";
+        if (!canvas.getContext("2d")) return null;
+
+        const foreignObject = document.createElementNS(SVG_NS, "foreignObject");
+        foreignObject.setAttribute("class", "canvas-mark-layer");
+        foreignObject.setAttribute("x", String(frame.x));
+        foreignObject.setAttribute("y", String(frame.y));
+        foreignObject.setAttribute("width", String(frame.width));
+        foreignObject.setAttribute("height", String(frame.height));
+        foreignObject.appendChild(canvas);
+        parent.appendChild(foreignObject);
+        return new CanvasMarkLayer(canvas, frame, ratio, tooltip);
+    }
+
+    public add(mark: CanvasMark): void {
+        this.marks.push(mark);
+        if (mark.type === "path") {
+            this.paths.set(mark, new Path2D(mark.d));
+        }
+        this.invalidate();
+    }
+
+    // Moves the layer above siblings appended after it, like d3's `selection.raise()`.
+    public raise(): void {
+        const foreignObject = this.canvas.parentNode;
+        foreignObject?.parentNode?.appendChild(foreignObject);
+    }
+
+    public getMarks(): readonly CanvasMark[] {
+        return this.marks;
+    }
+
+    /**
+     * Per-mark opacity on top of the mark's own, like `style.opacity` on an SVG mark
+     * (selection dimming, legend emphasis). `null` clears it.
+     */
+    public setOpacity(opacityOf: ((mark: CanvasMark) => number) | null): void {
+        this.opacityOf = opacityOf;
+        this.scheduleDraw();
+    }
+
+    public on(type: "click" | "contextmenu", handler: CanvasMarkHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    // Mark under a client point, topmost first, or null.
+    public hitTest(clientX: number, clientY: number): CanvasMark | null {
+        const rect = this.canvas.getBoundingClientRect();
+        if (!rect.width || !rect.height) return null;
+        const x = this.frame.x + (clientX - rect.left) * (this.frame.width / rect.width);
+        const y = this.frame.y + (clientY - rect.top) * (this.frame.height / rect.height);
+
+        const pickCtx = this.getPickContext();
+        if (!pickCtx) return null;
+        const pixel = pickCtx.getImageData(Math.floor(x - this.frame.x), Math.floor(y - this.frame.y), 1, 1).data;
+        // Anti-aliased edges are partly transparent and carry a blended, meaningless id.
+        if (pixel[3] !== 255) return null;
+        const mark = this.marks[(pixel[0] | (pixel[1] << 8) | (pixel[2] << 16)) - 1];
+        return mark && this.contains(pickCtx, mark, x, y) ? mark : null;
+    }
+
+    private invalidate(): void {
+        this.pickDirty = true;
+        this.scheduleDraw();
+    }
+
+    private scheduleDraw(): void {
+        if (typeof requestAnimationFrame !== "function") {
+            this.draw();
+            return;
+        }
+        if (this.drawFrame !== null) return;
+        // Runs before the next paint, so marks appear together with the SVG drawn in the same update.
+        this.drawFrame = requestAnimationFrame(() => {
+            this.drawFrame = null;
+            this.draw();
+        });
+    }
+
+    private draw(): void {
+        const ctx = this.ctx;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        ctx.setTransform(this.ratio, 0, 0, this.ratio, -this.frame.x * this.ratio, -this.frame.y * this.ratio);
+
+        this.marks.forEach((mark) => {
+            const opacity = this.opacityOf ? this.opacityOf(mark) : 1;
+            if (opacity <= 0) return;
+
+            this.traceMark(ctx, mark);
+            if (mark.fill && mark.fill !== "none") {
+                ctx.globalAlpha = opacity * (mark.fillOpacity ?? 1);
+                ctx.fillStyle = mark.fill;
+                this.fillMark(ctx, mark);
+            }
+            if (mark.stroke && mark.stroke !== "none" && (mark.strokeWidth ?? 1) > 0) {
+                ctx.globalAlpha = opacity * (mark.strokeOpacity ?? 1);
+                ctx.strokeStyle = mark.stroke;
+                ctx.lineWidth = mark.strokeWidth ?? 1;
+                ctx.lineJoin = "round";
+                ctx.lineCap = "round";
+                this.strokeMark(ctx, mark);
+            }
+            if (mark.label && mark.type === "rect") {
+                ctx.globalAlpha = opacity;
+                ctx.fillStyle = mark.label.color;
+                ctx.font = mark.label.font;
+                ctx.textAlign = "center";
+                ctx.textBaseline = "middle";
+                ctx.fillText(mark.label.text, mark.x + mark.width / 2, mark.y + mark.height / 2);
+            }
+        });
+        ctx.globalAlpha = 1;
+    }
+
+    private traceMark(ctx: CanvasRenderingContext2D, mark: CanvasMark): void {
+        if (mark.type === "path") return;
+        ctx.beginPath();
+        if (mark.type === "circle") {
+            ctx.arc(mark.cx, mark.cy, Math.max(0, mark.r), 0, Math.PI * 2);
+        } else if (mark.rx) {
+            traceRoundedRect(ctx, mark.x, mark.y, mark.width, mark.height, mark.rx);
+        } else {
+            ctx.rect(mark.x, mark.y, mark.width, mark.height);
+        }
+    }
+
+    private fillMark(ctx: CanvasRenderingContext2D, mark: CanvasMark): void {
+        const path = this.paths.get(mark);
+        if (path) ctx.fill(path);
+        else ctx.fill();
+    }
+
+    private strokeMark(ctx: CanvasRenderingContext2D, mark: CanvasMark): void {
+        const path = this.paths.get(mark);
+        if (path) ctx.stroke(path);
+        else ctx.stroke();
+    }
+
+    // Hidden canvas at CSS resolution where mark i is drawn in color i + 1.
+    private getPickContext(): CanvasRenderingContext2D | null {
+        if (!this.pickDirty && this.pickCtx) return this.pickCtx;
+
+        if (!this.pickCtx) {
+            const pickCanvas = document.createElement("canvas");
+            pickCanvas.width = Math.max(1, Math.ceil(this.frame.width));
+            pickCanvas.height = Math.max(1, Math.ceil(this.frame.height));
+            this.pickCtx = pickCanvas.getContext("2d", { willReadFrequently: true });
+            if (!this.pickCtx) return null;
+        }
+
+        const ctx = this.pickCtx;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        ctx.setTransform(1, 0, 0, 1, -this.frame.x, -this.frame.y);
+        ctx.lineJoin = "round";
+        ctx.lineCap = "round";
+        this.marks.forEach((mark, index) => {
+            const id = index + 1;
+            const color = `rgb(${id & 255},${(id >> 8) & 255},${(id >> 16) & 255})`;
+            ctx.fillStyle = color;
+            ctx.strokeStyle = color;
+            if (mark.type === "circle") {
+                ctx.beginPath();
+                ctx.arc(mark.cx, mark.cy, Math.max(0, mark.r) + PICK_TOLERANCE, 0, Math.PI * 2);
+                ctx.fill();
+            } else if (mark.type === "rect") {
+                ctx.fillRect(mark.x, mark.y, mark.width, mark.height);
+            } else {
+                const path = this.paths.get(mark)!;
+                if (mark.fill && mark.fill !== "none") ctx.fill(path);
+                ctx.lineWidth = (mark.strokeWidth ?? 1) + PICK_TOLERANCE * 2;
+                ctx.stroke(path);
+            }
+        });
+        this.pickDirty = false;
+        return ctx;
+    }
+
+    private contains(pickCtx: CanvasRenderingContext2D, mark: CanvasMark, x: number, y: number): boolean {
+        switch (mark.type) {
+            case "circle":
+                return Math.hypot(x - mark.cx, y - mark.cy) <= Math.max(0, mark.r) + PICK_TOLERANCE;
+            case "rect":
+                return x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height;
+            default: {
+                const path = this.paths.get(mark)!;
+                pickCtx.lineWidth = (mark.strokeWidth ?? 1) + PICK_TOLERANCE * 2;
+                // The point is in canvas pixels; the path goes through the pick transform.
+                const px = x - this.frame.x;
+                const py = y - this.frame.y;
+                return pickCtx.isPointInStroke(path, px, py)
+                    || (Boolean(mark.fill && mark.fill !== "none") && pickCtx.isPointInPath(path, px, py));
+            }
+        }
+    }
+
+    private onPointerMove(event: MouseEvent): void {
+        const mark = this.hitTest(event.clientX, event.clientY);
+        if (mark !== this.hovered) {
+            this.setHovered(mark, event);
+        } else if (mark?.tooltip) {
+            this.tooltip?.move(mark.tooltip(), event);
+        }
+    }
+
+    private setHovered(mark: CanvasMark | null, event?: MouseEvent): void {
+        if (this.hovered?.tooltip) {
+            this.tooltip?.hide();
+        }
+        this.hovered = mark;
+        this.canvas.style.cursor = mark && this.handlers.has("click") ? "pointer" : "";
+        if (mark?.tooltip && event) {
+            this.tooltip?.show(mark.tooltip(), event);
+        }
+    }
+
+    private dispatch(type: "click" | "contextmenu", event: MouseEvent): void {
+        const handler = this.handlers.get(type);
+        const mark = handler ? this.hitTest(event.clientX, event.clientY) : null;
+        if (mark && handler!(mark, event)) {
+            event.preventDefault();
+            event.stopPropagation();
+        }
+    }
+}
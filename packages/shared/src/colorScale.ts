@@ -0,0 +1,293 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import * as d3 from "./d3";
+import {
+    ColorClassification,
+    ColorScaleMidpoint,
+    ColorScaleType,
+    IColorScaleSettings,
+    defaultColorScaleSettings
+} from "./settings";
+
+export const COLOR_SCALE_OBJECT = "colorScale";
+
+const SCALE_TYPES: ColorScaleType[] = ["sequential", "diverging"];
+const MIDPOINTS: ColorScaleMidpoint[] = ["zero", "average", "median", "fixed"];
+const CLASSIFICATIONS: ColorClassification[] = ["continuous", "equalInterval", "quantile", "jenks", "thresholds"];
+const LEGEND_STOP_COUNT = 9;
+// Jenks is O(k·n²); larger inputs are reduced to evenly spaced quantiles first.
+const JENKS_MAX_SAMPLE = 1000;
+
+export interface ColorClass {
+    from: number;
+    to: number;
+    color: string;
+}
+
+export interface ValueColorScale {
+    (value: number): string;
+    // Evenly spaced colors from the low to the high end, for gradient legends.
+    legendStops: string[];
+    // Resolved midpoint of a diverging scale; undefined for sequential scales.
+    midpoint?: number;
+    // Set for classed scales, low to high; each value takes the color of its class.
+    classes?: ColorClass[];
+}
+
+export interface ValueColorScaleOptions {
+    domain: [number, number];
+    // Gradient endpoints (scheme or gradient card colors).
+    minColor: string;
+    maxColor: string;
+    // Intermediate colors of a multi-stop scheme, low to high, endpoints included.
+    stops?: string[];
+    settings?: IColorScaleSettings;
+    // Every value being colored, for the "average" and "median" midpoints.
+    values?: number[];
+}
+
+/**
+ * Builds the color function for measure-colored marks. Sequential scales interpolate through
+ * `stops` (or min → max); diverging scales put `settings.midColor` at the resolved midpoint,
+ * which is clamped into the domain so one side never disappears off the scale. A classification
+ * other than "continuous" then bins values into classes with one color each.
+ */
+export function createValueColorScale(options: ValueColorScaleOptions): ValueColorScale {
+    const settings = options.settings ?? defaultColorScaleSettings;
+    const [low, high] = orderDomain(options.domain);
+
+    let continuous: (value: number) => string;
+    let interpolator: (t: number) => string;
+    let midpoint: number | undefined;
+    if (settings.scaleType === "diverging") {
+        midpoint = Math.max(low, Math.min(high, resolveColorScaleMidpoint(settings, options.values ?? [])));
+        interpolator = d3.piecewise(d3.interpolate, [options.minColor, settings.midColor, options.maxColor]);
+        const scale = d3.scaleDiverging<string>()
+            .domain([low, midpoint, high])
+            .interpolator(interpolator)
+            .clamp(true);
+        continuous = (value) => scale(value);
+    } else {
+        const colors = options.stops && options.stops.length > 2 ? options.stops : [options.minColor, options.maxColor];
+        interpolator = d3.piecewise(d3.interpolate, colors);
+        const scale = d3.scaleSequential<string>()
+            .domain([low, high])
+            .interpolator(interpolator)
+            .clamp(true);
+        continuous = (value) => scale(value);
+    }
+
+    if (settings.classification === "continuous") {
+        return withLegend(continuous, interpolator, midpoint);
+    }
+
+    const bounds = [low, ...computeClassBreaks(options.values ?? [], [low, high], settings), high];
+    const classCount = bounds.length - 1;
+    const classes: ColorClass[] = [];
+    for (let i = 0; i < classCount; i++) {
+        const from = bounds[i];
+        const to = bounds[i + 1];
+        // Sequential classes spread evenly over the ramp; diverging classes keep their side of the midpoint.
+        const color = settings.scaleType === "diverging"
+            ? continuous((from + to) / 2)
+            : interpolator(classCount === 1 ? 1 : i / (classCount - 1));
+        classes.push({ from, to, color });
+    }
+
+    const classed = ((value: number): string => classes[getColorClassIndex(classes, value)].color) as ValueColorScale;
+    classed.legendStops = classes.map((entry) => entry.color);
+    classed.midpoint = midpoint;
+    classed.classes = classes;
+    return classed;
+}
+
+/** Index of the class a value falls into; values outside the domain go to the first or last class. */
+export function getColorClassIndex(classes: ColorClass[], value: number): number {
+    for (let i = 0; i < classes.length - 1; i++) {
+        if (value < classes[i].to) return i;
+    }
+    return classes.length - 1;
+}
+
+/**
+ * Inner class breaks (ascending, strictly inside the domain) for a classification. Custom
+ * thresholds outside the domain are dropped; an empty list means a single class.
+ */
+export function computeClassBreaks(
+    values: number[],
+    domain: [number, number],
+    settings: IColorScaleSettings
+): number[] {
+    const [low, high] = domain;
+    const count = Math.max(2, Math.min(9, Math.round(settings.classCount) || 5));
+    const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+    let breaks: number[];
+
+    switch (settings.classification) {
+        case "equalInterval":
+            breaks = Array.from({ length: count - 1 }, (_, i) => low + ((high - low) * (i + 1)) / count);
+            break;
+        case "quantile":
+            breaks = sorted.length
+                ? Array.from({ length: count - 1 }, (_, i) => quantileSorted(sorted, (i + 1) / count))
+                : [];
+            break;
+        case "jenks":
+            breaks = jenksBreaks(sampleSorted(sorted, JENKS_MAX_SAMPLE), count);
+            break;
+        case "thresholds":
+            breaks = parseThresholds(settings.thresholds);
+            break;
+        default:
+            breaks = [];
+    }
+
+    return Array.from(new Set(breaks))
+        .filter((value) => value > low && value < high)
+        .sort((a, b) => a - b);
+}
+
+/** Parses the comma-separated class breaks typed into the "Thresholds" box. */
+export function parseThresholds(text: string): number[] {
+    return String(text ?? "")
+        .split(/[,;]/)
+        .map((part) => part.trim())
+        .filter((part) => part !== "")
+        .map((part) => Number(part))
+        .filter((value) => Number.isFinite(value));
+}
+
+export function resolveColorScaleMidpoint(settings: IColorScaleSettings, values: number[]): number {
+    const finite = values.filter((value) => Number.isFinite(value));
+    switch (settings.midpoint) {
+        case "average":
+            return finite.length ? finite.reduce((sum, value) => sum + value, 0) / finite.length : 0;
+        case "median": {
+            if (!finite.length) return 0;
+            const sorted = [...finite].sort((a, b) => a - b);
+            const middle = Math.floor(sorted.length / 2);
+            return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+        }
+        case "fixed":
+            return Number.isFinite(settings.midpointValue) ? settings.midpointValue : 0;
+        default:
+            return 0;
+    }
+}
+
+/** Reads the `colorScale` object written by the scale group of the color cards. */
+export function parseColorScaleSettings(objects: DataViewObjects | undefined): IColorScaleSettings {
+    const settings: IColorScaleSettings = { ...defaultColorScaleSettings };
+    const obj = objects?.[COLOR_SCALE_OBJECT];
+    if (!obj) {
+        return settings;
+    }
+
+    const scaleType = obj["scaleType"] as ColorScaleType | undefined;
+    if (scaleType && SCALE_TYPES.includes(scaleType)) settings.scaleType = scaleType;
+    const midpoint = obj["midpoint"] as ColorScaleMidpoint | undefined;
+    if (midpoint && MIDPOINTS.includes(midpoint)) settings.midpoint = midpoint;
+    const midpointValue = obj["midpointValue"] as number | undefined;
+    if (typeof midpointValue === "number" && Number.isFinite(midpointValue)) settings.midpointValue = midpointValue;
+    const midColor = (obj["midColor"] as { solid?: { color?: string } } | undefined)?.solid?.color;
+    if (midColor) settings.midColor = midColor;
+    const classification = obj["classification"] as ColorClassification | undefined;
+    if (classification && CLASSIFICATIONS.includes(classification)) settings.classification = classification;
+    const classCount = obj["classCount"] as number | undefined;
+    if (typeof classCount === "number" && Number.isFinite(classCount)) {
+        settings.classCount = Math.max(2, Math.min(9, Math.round(classCount)));
+    }
+    const thresholds = obj["thresholds"] as string | undefined;
+    if (typeof thresholds === "string") settings.thresholds = thresholds;
+    return settings;
+}
+
+function withLegend(
+    color: (value: number) => string,
+    interpolator: (t: number) => string,
+    midpoint?: number
+): ValueColorScale {
+    const scale = color as ValueColorScale;
+    scale.legendStops = Array.from({ length: LEGEND_STOP_COUNT }, (_, i) => interpolator(i / (LEGEND_STOP_COUNT - 1)));
+    scale.midpoint = midpoint;
+    return scale;
+}
+
+/** Linearly interpolated quantile `p` (0-1) of ascending `sorted`. */
+export function quantileSorted(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.min(sorted.length - 1, lower + 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function sampleSorted(sorted: number[], max: number): number[] {
+    if (sorted.length <= max) {
+        return sorted;
+    }
+    return Array.from({ length: max }, (_, i) => quantileSorted(sorted, i / (max - 1)));
+}
+
+/**
+ * Fisher-Jenks natural breaks over sorted values: the partition into `count` classes with the
+ * smallest within-class variance. Returns the lower bound of every class except the first.
+ */
+function jenksBreaks(sorted: number[], count: number): number[] {
+    const n = sorted.length;
+    const k = Math.min(count, n);
+    if (k < 2) {
+        return [];
+    }
+
+    // lowerClassLimits[i][j]: index (1-based) where the last class starts in the best split of the first i values into j classes.
+    const lowerClassLimits: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+    const variance: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(Infinity));
+    for (let j = 1; j <= k; j++) {
+        lowerClassLimits[1][j] = 1;
+        variance[1][j] = 0;
+    }
+
+    for (let i = 2; i <= n; i++) {
+        let sum = 0;
+        let sumSquares = 0;
+        let classVariance = 0;
+        for (let m = 1; m <= i; m++) {
+            const lower = i - m + 1;
+            const value = sorted[lower - 1];
+            sum += value;
+            sumSquares += value * value;
+            classVariance = sumSquares - (sum * sum) / m;
+            if (lower > 1) {
+                for (let j = 2; j <= k; j++) {
+                    const candidate = classVariance + variance[lower - 1][j - 1];
+                    if (candidate <= variance[i][j]) {
+                        lowerClassLimits[i][j] = lower;
+                        variance[i][j] = candidate;
+                    }
+                }
+            }
+        }
+        lowerClassLimits[i][1] = 1;
+        variance[i][1] = classVariance;
+    }
+
+    const breaks: number[] = [];
+    let end = n;
+    for (let j = k; j >= 2 && end > 1; j--) {
+        const start = lowerClassLimits[end][j];
+        breaks.unshift(sorted[start - 1]);
+        end = start - 1;
+    }
+    return breaks;
+}
+
+function orderDomain([a, b]: [number, number]): [number, number] {
+    const low = Number.isFinite(a) ? a : 0;
+    const high = Number.isFinite(b) ? b : low;
+    if (low === high) {
+        return [low, low + 1];
+    }
+    return low < high ? [low, high] : [high, low];
+}
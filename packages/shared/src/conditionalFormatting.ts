@@ -0,0 +1,100 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataView = powerbi.DataView;
+import DataViewObjects = powerbi.DataViewObjects;
+
+export const CONDITIONAL_COLORS_OBJECT = "conditionalColors";
+
+/**
+ * Colors produced by fx rules (gradient, rules, field value) on `conditionalColors.fill`.
+ * Power BI evaluates the rule once per data-repetition instance and writes the result into
+ * `objects[rowIndex]` of the category columns, the measure columns or the table rows.
+ */
+export interface ConditionalColorLookup {
+    hasRules: boolean;
+    getRowColor: (rowIndex: number, valueColumnIndex?: number) => string | undefined;
+}
+
+export function readConditionalColor(objects: DataViewObjects | undefined): string | undefined {
+    const fill = objects?.[CONDITIONAL_COLORS_OBJECT]?.["fill"] as { solid?: { color?: string } } | undefined;
+    const color = fill?.solid?.color;
+    return typeof color === "string" && color ? color : undefined;
+}
+
+export function createConditionalColorLookup(dataView: DataView | undefined): ConditionalColorLookup {
+    const categories = dataView?.categorical?.categories ?? [];
+    const values = dataView?.categorical?.values ?? [];
+    const tableRows = dataView?.table?.rows ?? [];
+
+    const fromObjects = (objects: DataViewObjects[] | undefined, rowIndex: number): string | undefined =>
+        objects ? readConditionalColor(objects[rowIndex]) : undefined;
+
+    const getRowColor = (rowIndex: number, valueColumnIndex?: number): string | undefined => {
+        // A measure-scoped rule (series) wins over the row's category-scoped result.
+        if (valueColumnIndex !== undefined) {
+            const measureColor = fromObjects(values[valueColumnIndex]?.objects, rowIndex);
+            if (measureColor) return measureColor;
+        }
+        for (let i = categories.length - 1; i >= 0; i--) {
+            const color = fromObjects(categories[i].objects, rowIndex);
+            if (color) return color;
+        }
+        for (let i = 0; i < values.length; i++) {
+            const color = fromObjects(values[i].objects, rowIndex);
+            if (color) return color;
+        }
+        const row = tableRows[rowIndex];
+        if (row?.objects) {
+            for (const objects of row.objects) {
+                const color = readConditionalColor(objects);
+                if (color) return color;
+            }
+        }
+        return undefined;
+    };
+
+    const hasRules = categories.some((column) => column.objects?.some((objects) => Boolean(readConditionalColor(objects))))
+        || values.some((column) => column.objects?.some((objects) => Boolean(readConditionalColor(objects))))
+        || tableRows.some((row) => row.objects?.some((objects) => Boolean(readConditionalColor(objects))));
+
+    return {
+        hasRules,
+        getRowColor: hasRules ? getRowColor : () => undefined
+    };
+}
+
+/**
+ * Records the rule color of a row for the mark it feeds. Aggregated marks (a histogram bin,
+ * a box, a candle) take the color of their first row that has one.
+ */
+export function addRuleColorForKey(
+    target: Map<string, string>,
+    key: string,
+    color: string | undefined
+): void {
+    if (color && !target.has(key)) {
+        target.set(key, color);
+    }
+}
+
+/**
+ * Rule colors per distinct value of a category column, for visuals whose marks are keyed by
+ * category (legend slices, series lines, bubbles). The first row of each category wins.
+ */
+export function readRuleColorsByCategory(dataView: DataView, categoryIndex: number): Map<string, string> {
+    const colors = new Map<string, string>();
+    const column = dataView?.categorical?.categories?.[categoryIndex];
+    if (!column) {
+        return colors;
+    }
+
+    const lookup = createConditionalColorLookup(dataView);
+    if (!lookup.hasRules) {
+        return colors;
+    }
+    for (let i = 0; i < column.values.length; i++) {
+        addRuleColorForKey(colors, String(column.values[i] ?? ""), lookup.getRowColor(i));
+    }
+    return colors;
+}
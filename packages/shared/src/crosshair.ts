@@ -0,0 +1,218 @@
+"use strict";
+
+import * as d3 from "./d3";
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import { ICrosshairSettings, defaultCrosshairSettings } from "./settings";
+import { CanvasMarkTooltip, CanvasTooltipPresenter } from "./canvasMarks";
+import { measureTextWidth } from "./textUtils";
+
+/**
+ * Hover crosshair shared by the small-multiple panels of one render.
+ *
+ * Each panel joins a `CrosshairSync` with `addPanel`, describing how to turn a pointer position
+ * into an x value, where an x value sits in the panel and which values the panel shows there.
+ * Hovering any panel broadcasts the x value under the pointer: every panel that has it draws a
+ * vertical rule with a callout per value, and with the combined tooltip on, the tooltip lists
+ * the values of all panels. X values are the renderer's x keys, so panels match on the same
+ * category or date even when their scales differ.
+ */
+
+export interface CrosshairValue {
+    // Series the value belongs to.
+    label: string;
+    // Formatted value.
+    value: string;
+    // Position of the value in panel coordinates.
+    y: number;
+    color?: string;
+}
+
+export interface CrosshairPanelOptions {
+    // Small-multiples group of the panel.
+    key: string;
+    width: number;
+    height: number;
+    // X value nearest to a pointer position in panel coordinates.
+    pick(px: number): string | null;
+    // Position of an x value in the panel, or null when the panel has no data there.
+    locate(xValue: string): number | null;
+    // Values at an x value, for the callouts and the combined tooltip.
+    values(xValue: string): CrosshairValue[];
+    // Axis label of an x value, the title of the combined tooltip.
+    label?(xValue: string): string;
+    // Set when the panel draws its own hover rule at the pointer; the crosshair then only
+    // mirrors the hover into the other panels.
+    ownsHover?: boolean;
+}
+
+export interface CrosshairStyle {
+    color: string;
+    background: string;
+    textColor: string;
+    fontSize: number;
+    fontFamily?: string;
+}
+
+interface CrosshairPanel {
+    options: CrosshairPanelOptions;
+    layer: d3.Selection<SVGGElement, unknown, null, undefined>;
+}
+
+export function parseCrosshairSettings(objects: DataViewObjects | undefined): ICrosshairSettings {
+    const settings: ICrosshairSettings = { ...defaultCrosshairSettings };
+    const obj = objects?.["crosshair"];
+    if (!obj) {
+        return settings;
+    }
+
+    if (typeof obj["sync"] === "boolean") settings.sync = obj["sync"];
+    if (typeof obj["showValues"] === "boolean") settings.showValues = obj["showValues"];
+    if (typeof obj["combinedTooltip"] === "boolean") settings.combinedTooltip = obj["combinedTooltip"];
+    return settings;
+}
+
+export class CrosshairSync {
+    private readonly panels: CrosshairPanel[] = [];
+
+    constructor(
+        private readonly settings: ICrosshairSettings,
+        private readonly style: CrosshairStyle,
+        // Set when the combined tooltip is on.
+        private readonly tooltip: CanvasTooltipPresenter | null
+    ) {}
+
+    public addPanel(panel: d3.Selection<SVGGElement, unknown, null, undefined>, options: CrosshairPanelOptions): void {
+        // Catches the pointer between marks; sits below them so mark tooltips keep working.
+        panel.insert("rect", ":first-child")
+            .attr("class", "crosshair-target")
+            .attr("width", Math.max(0, options.width))
+            .attr("height", Math.max(0, options.height))
+            .attr("fill", "transparent")
+            .style("pointer-events", "all");
+
+        const layer = panel.append("g")
+            .attr("class", "crosshair")
+            .style("pointer-events", "none")
+            .style("display", "none");
+        this.panels.push({ options, layer });
+
+        // Namespaced listeners, so handlers the renderer put on the panel stay in place.
+        panel
+            .on("mousemove.crosshair", (event: MouseEvent) => {
+                const [px, py] = d3.pointer(event, panel.node());
+                const inside = px >= 0 && px <= options.width && py >= 0 && py <= options.height;
+                const xValue = inside ? options.pick(px) : null;
+                if (xValue === null) {
+                    this.hide();
+                    return;
+                }
+                this.show(xValue, options.key);
+                if (this.tooltip) {
+                    const content = this.getTooltip(xValue, options);
+                    if (content.dataItems.length) this.tooltip.show(content, event);
+                }
+            })
+            .on("mouseleave.crosshair", () => {
+                this.hide();
+                this.tooltip?.hide();
+            });
+    }
+
+    // Draws the crosshair at `xValue` in every panel that has it; `source` is the hovered panel.
+    public show(xValue: string, source?: string): void {
+        this.panels.forEach(({ options, layer }) => {
+            const x = options.locate(xValue);
+            if (x === null || !Number.isFinite(x) || (options.ownsHover && options.key === source)) {
+                layer.style("display", "none");
+                return;
+            }
+
+            layer.selectAll("*").remove();
+            layer.style("display", null);
+            layer.append("line")
+                .attr("x1", Math.round(x) + 0.5)
+                .attr("x2", Math.round(x) + 0.5)
+                .attr("y1", 0)
+                .attr("y2", options.height)
+                .attr("stroke", this.style.color)
+                .attr("stroke-width", 1)
+                .attr("stroke-dasharray", "4,4");
+
+            if (this.settings.showValues) {
+                this.renderCallouts(layer, x, options.values(xValue), options);
+            }
+        });
+    }
+
+    public hide(): void {
+        this.panels.forEach(({ layer }) => layer.style("display", "none"));
+    }
+
+    private renderCallouts(
+        layer: d3.Selection<SVGGElement, unknown, null, undefined>,
+        x: number,
+        values: CrosshairValue[],
+        options: CrosshairPanelOptions
+    ): void {
+        const { fontSize, fontFamily } = this.style;
+        const boxHeight = fontSize + 6;
+        const sorted = values.filter((v) => Number.isFinite(v.y)).sort((a, b) => a.y - b.y);
+
+        // Stack the boxes top to bottom without overlap, then pull them back inside the panel.
+        const centers = sorted.map((v) => v.y);
+        for (let i = 1; i < centers.length; i++) {
+            centers[i] = Math.max(centers[i], centers[i - 1] + boxHeight);
+        }
+        for (let i = centers.length - 1; i >= 0; i--) {
+            const limit = i === centers.length - 1 ? options.height - boxHeight / 2 : centers[i + 1] - boxHeight;
+            centers[i] = Math.min(centers[i], limit);
+        }
+
+        sorted.forEach((v, i) => {
+            const color = v.color ?? this.style.color;
+            layer.append("circle")
+                .attr("cx", x)
+                .attr("cy", v.y)
+                .attr("r", 3.5)
+                .attr("fill", color)
+                .attr("stroke", this.style.background)
+                .attr("stroke-width", 1.5);
+
+            const boxWidth = Math.ceil(measureTextWidth(v.value, fontSize, fontFamily)) + 8;
+            const left = x + 8 + boxWidth > options.width ? x - 8 - boxWidth : x + 8;
+            const box = layer.append("g")
+                .attr("transform", `translate(${Math.round(left)},${Math.round(centers[i] - boxHeight / 2)})`);
+            box.append("rect")
+                .attr("width", boxWidth)
+                .attr("height", boxHeight)
+                .attr("rx", 3)
+                .attr("fill", this.style.background)
+                .attr("stroke", color)
+                .attr("stroke-width", 1);
+            box.append("text")
+                .attr("x", 4)
+                .attr("y", boxHeight / 2)
+                .attr("dy", "0.35em")
+                .attr("font-size", fontSize + "px")
+                .attr("font-family", fontFamily ?? null)
+                .attr("fill", this.style.textColor)
+                .text(v.value);
+        });
+    }
+
+    // One row per value of every panel, labelled with the panel (and series, when there are several).
+    private getTooltip(xValue: string, source: CrosshairPanelOptions): CanvasMarkTooltip {
+        const dataItems: VisualTooltipDataItem[] = [];
+        this.panels.forEach(({ options }) => {
+            const values = options.values(xValue);
+            values.forEach((v) => dataItems.push({
+                displayName: values.length > 1 ? `${options.key} · ${v.label}` : options.key,
+                value: v.value,
+                color: v.color
+            }));
+        });
+        return { dataItems, meta: { title: source.label?.(xValue) ?? xValue } };
+    }
+}
@@ -6,7 +6,8 @@
  * Instead of `import * as d3 from "d3"` (which bundles 30+ subpackages),
  * we re-export only the functions and types actually used across the visuals.
  * This cuts ~60-80 KB from each visual bundle by eliminating d3-geo,
- * d3-hierarchy, d3-dsv, d3-zoom, d3-brush, d3-transition, and many others.
+ * d3-hierarchy, d3-dsv, d3-zoom, d3-brush, and many others. d3-transition is
+ * not re-exported: `transitions.ts` imports it for `selection.transition()`.
  */
 
 // d3-selection
@@ -22,8 +23,10 @@ export {
     scaleLinear,
     scaleOrdinal,
     scalePoint,
+    scaleDiverging,
     scaleSequential,
     scaleSqrt,
+    type ScaleLinear,
     type ScaleOrdinal,
     type ScaleSequential,
 } from "d3-scale";
@@ -40,12 +43,13 @@ export {
     curveBasis,
     curveLinear,
     curveMonotoneX,
+    type Line,
     type PieArcDatum,
     type SeriesPoint,
 } from "d3-shape";
 
 // d3-interpolate
-export { interpolate } from "d3-interpolate";
+export { interpolate, piecewise } from "d3-interpolate";
 
 // d3-array
 export { sum } from "d3-array";
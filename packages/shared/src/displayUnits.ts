@@ -0,0 +1,140 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import { DisplayUnits, IDisplayUnitSettings, defaultDisplayUnitSettings } from "./settings";
+import { formatMeasureValue } from "./utils";
+import { isScaledFormatString, withDecimalPlaces } from "./formatString";
+import { localize } from "./localization";
+
+export type DisplayUnitTarget = "axis" | "label" | "tooltip";
+
+interface DisplayUnitStep {
+    units: DisplayUnits;
+    divisor: number;
+    suffixKey: string;
+}
+
+// Largest first so "auto" can pick the first step the reference value reaches.
+const UNIT_STEPS: DisplayUnitStep[] = [
+    { units: "trillions", divisor: 1e12, suffixKey: "Visual_Unit_Trillions" },
+    { units: "billions", divisor: 1e9, suffixKey: "Visual_Unit_Billions" },
+    { units: "millions", divisor: 1e6, suffixKey: "Visual_Unit_Millions" },
+    { units: "thousands", divisor: 1e3, suffixKey: "Visual_Unit_Thousands" }
+];
+
+const DISPLAY_UNIT_VALUES: DisplayUnits[] = ["auto", "none", "thousands", "millions", "billions", "trillions"];
+
+/**
+ * Picks the unit for a value. "auto" follows the reference value — normally the largest
+ * absolute value on the axis or in the data — so every tick or label in a chart shares one unit.
+ */
+export function resolveDisplayUnit(units: DisplayUnits, reference: number): { divisor: number; suffix: string } {
+    if (units === "none") {
+        return { divisor: 1, suffix: "" };
+    }
+    const step = units === "auto"
+        ? UNIT_STEPS.find((candidate) => Math.abs(reference) >= candidate.divisor)
+        : UNIT_STEPS.find((candidate) => candidate.units === units);
+    return step ? { divisor: step.divisor, suffix: localize(step.suffixKey) } : { divisor: 1, suffix: "" };
+}
+
+/**
+ * Formats a value with the model format string, scaled to a display unit and with an
+ * optional fixed number of decimals (`-1` keeps the format string's own). Formats that
+ * scale the value themselves (percent, `#,0,,"M"`, scientific) are never scaled again,
+ * matching native visuals.
+ */
+export function formatWithDisplayUnits(
+    value: number | null | undefined,
+    formatString: string | undefined,
+    units: DisplayUnits,
+    decimals: number,
+    reference?: number
+): string {
+    if (value === null || value === undefined || !Number.isFinite(value)) {
+        return formatMeasureValue(value, formatString);
+    }
+
+    const unit = isScaledFormatString(formatString)
+        ? { divisor: 1, suffix: "" }
+        : resolveDisplayUnit(units, reference ?? value);
+    const hasFixedDecimals = decimals >= 0;
+
+    if (unit.divisor === 1) {
+        return hasFixedDecimals
+            ? formatMeasureValue(value, withDecimalPlaces(formatString, decimals))
+            : formatMeasureValue(value, formatString);
+    }
+
+    // Scaled values keep up to two decimals by default so "1.25M" does not collapse to "1M".
+    const scaledFormat = hasFixedDecimals
+        ? withDecimalPlaces(formatString, decimals)
+        : withDecimalPlaces(formatString, 2, true);
+    const text = formatMeasureValue(value / unit.divisor, scaledFormat);
+    return insertUnitSuffix(text, unit.suffix);
+}
+
+/**
+ * Returns a formatter for one label type of the display-units card. Create it once per
+ * axis or panel with the domain maximum as `reference` so "auto" is stable across ticks.
+ */
+export function createDisplayUnitFormatter(
+    settings: IDisplayUnitSettings | undefined,
+    target: DisplayUnitTarget,
+    formatString?: string,
+    reference?: number
+): (value: number | null | undefined) => string {
+    const effective = settings ?? defaultDisplayUnitSettings;
+    const units = effective[`${target}Units` as const];
+    const decimals = effective[`${target}Decimals` as const];
+    return (value) => formatWithDisplayUnits(value, formatString, units, decimals, reference);
+}
+
+/** Largest absolute finite value, used as the "auto" reference for a domain. */
+export function getDisplayUnitReference(values: Iterable<number | null | undefined>): number {
+    let max = 0;
+    for (const value of values) {
+        if (value !== null && value !== undefined && Number.isFinite(value)) {
+            max = Math.max(max, Math.abs(value));
+        }
+    }
+    return max;
+}
+
+/** Reads the `displayUnits` object written by `createDisplayUnitsCard`. */
+export function parseDisplayUnitSettings(objects: DataViewObjects | undefined): IDisplayUnitSettings {
+    const settings: IDisplayUnitSettings = { ...defaultDisplayUnitSettings };
+    const obj = objects?.["displayUnits"];
+    if (!obj) {
+        return settings;
+    }
+
+    const readUnits = (key: string, fallback: DisplayUnits): DisplayUnits => {
+        const value = obj[key] as DisplayUnits | undefined;
+        return value && DISPLAY_UNIT_VALUES.includes(value) ? value : fallback;
+    };
+    const readDecimals = (key: string, fallback: number): number => {
+        const value = obj[key] as number | undefined;
+        return typeof value === "number" && Number.isFinite(value) ? Math.max(-1, Math.min(9, Math.round(value))) : fallback;
+    };
+
+    settings.axisUnits = readUnits("axisUnits", settings.axisUnits);
+    settings.axisDecimals = readDecimals("axisDecimals", settings.axisDecimals);
+    settings.labelUnits = readUnits("labelUnits", settings.labelUnits);
+    settings.labelDecimals = readDecimals("labelDecimals", settings.labelDecimals);
+    settings.tooltipUnits = readUnits("tooltipUnits", settings.tooltipUnits);
+    settings.tooltipDecimals = readDecimals("tooltipDecimals", settings.tooltipDecimals);
+    return settings;
+}
+
+function insertUnitSuffix(text: string, suffix: string): string {
+    if (!suffix) {
+        return text;
+    }
+    // Right after the last digit, so "$1.2M" and "(1.2M)" keep their currency and sign wrapping.
+    const lastDigit = text.search(/\d(?!.*\d)/);
+    return lastDigit === -1
+        ? text
+        : `${text.slice(0, lastDigit + 1)}${suffix}${text.slice(lastDigit + 1)}`;
+}
@@ -1,20 +1,66 @@
 "use strict";
 
+import powerbi from "powerbi-visuals-api";
 import * as d3 from "./d3";
+import { localize, localizeFormat } from "./localization";
+import DataView = powerbi.DataView;
 
 export interface EmptyStateOptions {
     title: string;
     lines: string[];
     hint?: string;
+    /** Small sketch of the visual drawn above the title when there is room for it. */
+    illustration?: LandingIllustration;
+    maxLines?: number;
 }
 
+export type LandingIllustration =
+    | "bars"
+    | "boxes"
+    | "candles"
+    | "lines"
+    | "area"
+    | "flow"
+    | "radial"
+    | "tiles"
+    | "grid"
+    | "points"
+    | "bubbles"
+    | "map"
+    | "timeline";
+
+/** Shape of a `dataRoles` entry in capabilities.json. */
+export interface LandingDataRole {
+    name: string;
+    displayName: string;
+    displayNameKey?: string;
+    kind?: string;
+}
+
+export interface LandingRoleStatus {
+    name: string;
+    displayName: string;
+    required: boolean;
+    bound: boolean;
+}
+
+export interface LandingPageOptions {
+    roles: LandingRoleStatus[];
+    illustration: LandingIllustration;
+}
+
+const ILLUSTRATION_WIDTH = 72;
+const ILLUSTRATION_HEIGHT = 44;
+const ILLUSTRATION_GAP = 14;
+const ILLUSTRATION_MIN_VIEWPORT_HEIGHT = 180;
+
 export function renderEmptyState(
     container: d3.Selection<SVGGElement, unknown, null, undefined>,
     width: number,
     height: number,
     options: EmptyStateOptions
 ): void {
-    const { title, lines, hint } = options;
+    const { title, lines, hint, illustration } = options;
 
     const group = container.append("g")
         .attr("class", "empty-state")
@@ -24,7 +70,7 @@ export function renderEmptyState(
     const lineFontSize = 11;
     const hintFontSize = 10;
 
-    const maxLines = 6;
+    const maxLines = options.maxLines ?? 6;
     const displayLines = lines.slice(0, maxLines);
     const showEllipsis = lines.length > maxLines;
 
@@ -38,9 +84,22 @@ export function renderEmptyState(
     const bodyLineCount = displayLines.length + (showEllipsis ? 1 : 0);
     const bodyHeight = bodyLineCount * lineHeight;
     const hintBlockHeight = hint ? (gapBeforeHint + hintHeight) : 0;
-    const totalHeight = titleHeight + gapAfterTitle + bodyHeight + hintBlockHeight;
+    const showIllustration = Boolean(illustration) && height >= ILLUSTRATION_MIN_VIEWPORT_HEIGHT && width >= ILLUSTRATION_WIDTH * 2;
+    const illustrationBlockHeight = showIllustration ? ILLUSTRATION_HEIGHT + ILLUSTRATION_GAP : 0;
+    const totalHeight = illustrationBlockHeight + titleHeight + gapAfterTitle + bodyHeight + hintBlockHeight;
 
-    let currentY = -Math.round(totalHeight / 2) + titleFontSize;
+    let currentY = -Math.round(totalHeight / 2);
+
+    if (showIllustration && illustration) {
+        const sketch = group.append("g")
+            .attr("class", "empty-state-illustration")
+            .attr("aria-hidden", "true")
+            .attr("transform", `translate(${-ILLUSTRATION_WIDTH / 2}, ${currentY})`);
+        drawIllustration(sketch, illustration);
+        currentY += illustrationBlockHeight;
+    }
+
+    currentY += titleFontSize;
 
     group.append("text")
         .attr("class", "empty-state-title")
@@ -87,3 +146,229 @@ export function renderEmptyState(
             .text(hint);
     }
 }
+
+/**
+ * Resolves which capabilities roles are required and which are currently bound.
+ * `dataView` is the (possibly empty) view Power BI sent; a column counts as bound to
+ * every role listed in its metadata, so fields used by several roles are reported once per role.
+ */
+export function getLandingRoleStatus(
+    dataRoles: LandingDataRole[],
+    requiredRoles: string[],
+    dataView?: DataView
+): LandingRoleStatus[] {
+    const boundRoles = new Set<string>();
+    for (const column of dataView?.metadata?.columns ?? []) {
+        for (const [role, isBound] of Object.entries(column.roles ?? {})) {
+            if (isBound) {
+                boundRoles.add(role);
+            }
+        }
+    }
+
+    return dataRoles.map((role) => ({
+        name: role.name,
+        displayName: role.displayNameKey ? localize(role.displayNameKey) : role.displayName,
+        required: requiredRoles.includes(role.name),
+        bound: boundRoles.has(role.name)
+    }));
+}
+
+/**
+ * Landing page shown instead of a blank canvas: a sketch of the visual plus one line per role.
+ * Required roles come first so the missing ones are what the report author reads first.
+ */
+export function renderLandingPage(
+    container: d3.Selection<SVGGElement, unknown, null, undefined>,
+    width: number,
+    height: number,
+    options: LandingPageOptions
+): void {
+    const { roles, illustration } = options;
+    const missing = roles.filter((role) => role.required && !role.bound);
+    const ordered = [
+        ...roles.filter((role) => role.required),
+        ...roles.filter((role) => !role.required)
+    ];
+
+    const lines = ordered.map((role) => {
+        const marker = role.bound ? "\u2713" : (role.required ? "\u25CB" : "\u00B7");
+        const status = localize(role.bound ? "Visual_Landing_Bound" : (role.required ? "Visual_Landing_Required" : "Visual_Landing_Optional"));
+        return `${marker} ${role.displayName} \u2014 ${status}`;
+    });
+
+    renderEmptyState(container, width, height, {
+        title: localize(missing.length ? "Visual_Landing_AddData" : "Visual_Landing_NoData"),
+        lines,
+        hint: missing.length
+            ? localizeFormat("Visual_Landing_Missing", missing.map((role) => role.displayName).join(", "))
+            : localize("Visual_Landing_CheckFilters"),
+        illustration,
+        maxLines: 10
+    });
+}
+
+function drawIllustration(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    kind: LandingIllustration
+): void {
+    const w = ILLUSTRATION_WIDTH;
+    const h = ILLUSTRATION_HEIGHT;
+    const fill = "#D1D5DB";
+    const accent = "#9CA3AF";
+
+    group.append("line")
+        .attr("x1", 0)
+        .attr("x2", w)
+        .attr("y1", h)
+        .attr("y2", h)
+        .attr("stroke", "#E5E7EB")
+        .attr("stroke-width", 1);
+
+    switch (kind) {
+        case "bars":
+            [0.45, 0.75, 0.6, 0.95, 0.35, 0.7].forEach((v, i) => {
+                group.append("rect")
+                    .attr("x", 2 + i * 12).attr("y", h * (1 - v))
+                    .attr("width", 9).attr("height", h * v)
+                    .attr("rx", 1.5).attr("fill", i === 3 ? accent : fill);
+            });
+            break;
+        case "boxes":
+            [[0.2, 0.45, 0.6, 0.8], [0.1, 0.3, 0.5, 0.65], [0.3, 0.5, 0.7, 0.9]].forEach(([lo, q1, q3, hi], i) => {
+                const cx = 12 + i * 24;
+                group.append("line")
+                    .attr("x1", cx).attr("x2", cx).attr("y1", h * (1 - hi)).attr("y2", h * (1 - lo))
+                    .attr("stroke", accent).attr("stroke-width", 1.5);
+                group.append("rect")
+                    .attr("x", cx - 7).attr("y", h * (1 - q3))
+                    .attr("width", 14).attr("height", h * (q3 - q1))
+                    .attr("fill", fill).attr("stroke", accent).attr("stroke-width", 1);
+            });
+            break;
+        case "candles":
+            [[0.3, 0.55, 0.2, 0.7], [0.55, 0.45, 0.35, 0.75], [0.45, 0.8, 0.4, 0.9], [0.8, 0.6, 0.5, 0.85]].forEach(([open, close, low, high], i) => {
+                const cx = 9 + i * 18;
+                group.append("line")
+                    .attr("x1", cx).attr("x2", cx).attr("y1", h * (1 - high)).attr("y2", h * (1 - low))
+                    .attr("stroke", accent).attr("stroke-width", 1.5);
+                group.append("rect")
+                    .attr("x", cx - 5).attr("y", h * (1 - Math.max(open, close)))
+                    .attr("width", 10).attr("height", h * Math.abs(close - open))
+                    .attr("fill", close >= open ? fill : accent);
+            });
+            break;
+        case "lines":
+            [[0.3, 0.5, 0.4, 0.75, 0.65, 0.9], [0.15, 0.25, 0.35, 0.3, 0.5, 0.45]].forEach((values, series) => {
+                const line = d3.line<number>()
+                    .x((_, i) => (i / (values.length - 1)) * w)
+                    .y((v) => h * (1 - v))
+                    .curve(d3.curveMonotoneX);
+                group.append("path")
+                    .attr("d", line(values))
+                    .attr("fill", "none")
+                    .attr("stroke", series === 0 ? accent : fill)
+                    .attr("stroke-width", 2.5)
+                    .attr("stroke-linecap", "round");
+            });
+            break;
+        case "area": {
+            const layers = [[0.2, 0.3, 0.25, 0.4, 0.3], [0.45, 0.6, 0.5, 0.7, 0.55], [0.6, 0.85, 0.75, 0.95, 0.7]];
+            layers.slice().reverse().forEach((values, i) => {
+                const area = d3.area<number>()
+                    .x((_, j) => (j / (values.length - 1)) * w)
+                    .y0(h)
+                    .y1((v) => h * (1 - v))
+                    .curve(d3.curveBasis);
+                group.append("path")
+                    .attr("d", area(values))
+                    .attr("fill", i === 1 ? accent : fill)
+                    .attr("fill-opacity", 0.5 + i * 0.2);
+            });
+            break;
+        }
+        case "flow":
+            [[8, 12, 8], [16, 34, 6], [26, 22, 10], [38, 38, 4]].forEach(([y0, y1, strokeWidth], i) => {
+                group.append("path")
+                    .attr("d", `M8,${y0} C36,${y0} 36,${y1} 64,${y1}`)
+                    .attr("fill", "none")
+                    .attr("stroke", i === 1 ? accent : fill)
+                    .attr("stroke-opacity", 0.8)
+                    .attr("stroke-width", strokeWidth);
+            });
+            group.append("rect").attr("x", 2).attr("y", 2).attr("width", 6).attr("height", 40).attr("fill", accent);
+            group.append("rect").attr("x", 64).attr("y", 4).attr("width", 6).attr("height", 38).attr("fill", accent);
+            break;
+        case "radial": {
+            const arc = d3.arc<{ startAngle: number; endAngle: number }>()
+                .innerRadius(h * 0.28)
+                .outerRadius(h / 2);
+            const slices = d3.pie<number>().sort(null).padAngle(0.04)([5, 3, 2, 4]);
+            const ring = group.append("g").attr("transform", `translate(${w / 2}, ${h / 2})`);
+            slices.forEach((slice, i) => {
+                ring.append("path")
+                    .attr("d", arc(slice) ?? "")
+                    .attr("fill", i === 0 ? accent : fill);
+            });
+            break;
+        }
+        case "tiles":
+            [[0, 0, 40, 26], [42, 0, 30, 16], [42, 18, 30, 26], [0, 28, 20, 16], [22, 28, 18, 16]].forEach(([x, y, tw, th], i) => {
+                group.append("rect")
+                    .attr("x", x).attr("y", y).attr("width", tw).attr("height", th)
+                    .attr("rx", 2).attr("fill", i === 0 ? accent : fill);
+            });
+            break;
+        case "grid":
+            for (let row = 0; row < 4; row++) {
+                for (let col = 0; col < 7; col++) {
+                    const shade = (row * 3 + col * 5) % 7;
+                    group.append("rect")
+                        .attr("x", 1 + col * 10.2).attr("y", 2 + row * 10)
+                        .attr("width", 8.5).attr("height", 8.5).attr("rx", 1.5)
+                        .attr("fill", shade > 4 ? accent : fill)
+                        .attr("fill-opacity", 0.4 + (shade / 7) * 0.6);
+                }
+            }
+            break;
+        case "points":
+            [[0.1, 0.2], [0.2, 0.35], [0.3, 0.3], [0.4, 0.55], [0.5, 0.5], [0.6, 0.7], [0.7, 0.65], [0.8, 0.85], [0.9, 0.8]].forEach(([x, y], i) => {
+                group.append("circle")
+                    .attr("cx", x * w).attr("cy", h * (1 - y)).attr("r", 3)
+                    .attr("fill", i % 3 === 0 ? accent : fill);
+            });
+            break;
+        case "bubbles":
+            [[22, 24, 14], [46, 18, 11], [52, 36, 7], [8, 36, 6], [64, 10, 6]].forEach(([cx, cy, r], i) => {
+                group.append("circle")
+                    .attr("cx", cx).attr("cy", cy).attr("r", r)
+                    .attr("fill", i === 0 ? accent : fill);
+            });
+            break;
+        case "map":
+            [
+                "M4,10 L18,4 L28,8 L26,20 L14,24 L6,18 Z",
+                "M30,6 L46,4 L50,14 L40,22 L30,18 Z",
+                "M20,26 L34,24 L38,36 L26,42 L18,36 Z",
+                "M44,24 L60,18 L70,26 L64,40 L48,38 Z"
+            ].forEach((d, i) => {
+                group.append("path")
+                    .attr("d", d)
+                    .attr("fill", i === 3 ? accent : fill)
+                    .attr("stroke", "#FFFFFF")
+                    .attr("stroke-width", 1);
+            });
+            break;
+        case "timeline":
+            [[0, 30], [14, 44], [6, 24], [28, 42]].forEach(([x0, x1], i) => {
+                group.append("rect")
+                    .attr("x", x0).attr("y", 2 + i * 10)
+                    .attr("width", x1 - x0).attr("height", 7).attr("rx", 3.5)
+                    .attr("fill", i === 1 ? accent : fill);
+            });
+            group.append("path")
+                .attr("d", "M62,6 L66,10 L62,14 L58,10 Z")
+                .attr("fill", accent);
+            break;
+    }
+}
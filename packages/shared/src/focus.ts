@@ -0,0 +1,191 @@
+"use strict";
+
+export interface KeyboardFocusOptions {
+    root: HTMLElement;
+    markSelector: string;
+    dataKeyAttr?: string;
+    focusColor?: string;
+}
+
+interface FocusMemory {
+    key: string | null;
+    active: boolean;
+}
+
+const FOCUS_RING_CLASS = "bta-focus-ring";
+
+// Survives re-binding so a redraw (resize, zoom, new data) keeps the roving tab stop where the user left it.
+const focusMemoryByRoot = new WeakMap<HTMLElement, FocusMemory>();
+
+/**
+ * Makes data marks reachable from the keyboard. Marks sharing a data key collapse into a
+ * single tab stop (the first one in document order), so a series drawn as line + markers is
+ * visited once. Only one stop is tabbable at a time (roving tabindex); arrow keys move between
+ * stops, Enter/Space replay a click so whatever selection handler the visual bound still applies,
+ * and focus replays mouseover so the renderer's tooltip opens without extra wiring.
+ */
+export function bindKeyboardFocus(options: KeyboardFocusOptions): {
+    focusKey: (key: string) => boolean;
+} {
+    const dataKeyAttr = options.dataKeyAttr ?? "data-selection-key";
+    const focusColor = options.focusColor ?? "#111827";
+    const memory = focusMemoryByRoot.get(options.root) ?? { key: null, active: false };
+    focusMemoryByRoot.set(options.root, memory);
+
+    const stops: SVGElement[] = [];
+    const stopIndexByKey = new Map<string, number>();
+    options.root.querySelectorAll<SVGElement>(options.markSelector).forEach((mark) => {
+        const key = mark.getAttribute(dataKeyAttr);
+        if (!key || stopIndexByKey.has(key)) {
+            return;
+        }
+        stopIndexByKey.set(key, stops.length);
+        stops.push(mark);
+    });
+
+    if (!stops.length) {
+        return { focusKey: () => false };
+    }
+
+    const rememberedIndex = memory.key !== null ? stopIndexByKey.get(memory.key) : undefined;
+    const initialIndex = rememberedIndex ?? 0;
+
+    const focusStop = (index: number): void => {
+        stops[Math.max(0, Math.min(stops.length - 1, index))].focus({ preventScroll: true });
+    };
+
+    stops.forEach((mark, index) => {
+        mark.setAttribute("tabindex", index === initialIndex ? "0" : "-1");
+        mark.setAttribute("focusable", "true");
+        mark.style.outline = "none";
+
+        mark.addEventListener("focus", () => {
+            memory.key = mark.getAttribute(dataKeyAttr);
+            memory.active = true;
+            stops.forEach((stop) => stop.setAttribute("tabindex", stop === mark ? "0" : "-1"));
+            // Clicking a mark also focuses it; only keyboard focus gets the ring and tooltip.
+            if (!isFocusVisible(mark)) {
+                return;
+            }
+            drawFocusRing(mark, focusColor);
+            dispatchMouseEvent(mark, "mouseover");
+        });
+
+        mark.addEventListener("blur", () => {
+            memory.active = false;
+            removeFocusRing(mark);
+            dispatchMouseEvent(mark, "mouseout");
+        });
+
+        mark.addEventListener("keydown", (event: KeyboardEvent) => {
+            switch (event.key) {
+                case "ArrowRight":
+                case "ArrowDown":
+                    focusStop(index + 1);
+                    break;
+                case "ArrowLeft":
+                case "ArrowUp":
+                    focusStop(index - 1);
+                    break;
+                case "Home":
+                    focusStop(0);
+                    break;
+                case "End":
+                    focusStop(stops.length - 1);
+                    break;
+                case "Enter":
+                case " ":
+                    dispatchMouseEvent(mark, "click", event.ctrlKey || event.metaKey || event.shiftKey);
+                    break;
+                case "ContextMenu":
+                    dispatchMouseEvent(mark, "contextmenu");
+                    break;
+                case "F10":
+                    if (!event.shiftKey) {
+                        return;
+                    }
+                    dispatchMouseEvent(mark, "contextmenu");
+                    break;
+                case "Escape":
+                    mark.blur();
+                    break;
+                default:
+                    return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+        });
+    });
+
+    // The previously focused mark was replaced by a redraw; move focus onto its successor.
+    if (memory.active && rememberedIndex !== undefined) {
+        focusStop(rememberedIndex);
+    }
+
+    return {
+        focusKey: (key: string): boolean => {
+            const index = stopIndexByKey.get(key);
+            if (index === undefined) {
+                return false;
+            }
+            focusStop(index);
+            return true;
+        }
+    };
+}
+
+function isFocusVisible(mark: SVGElement): boolean {
+    try {
+        return mark.matches(":focus-visible");
+    } catch {
+        return true;
+    }
+}
+
+function dispatchMouseEvent(mark: SVGElement, type: string, ctrlKey: boolean = false): void {
+    const rect = mark.getBoundingClientRect();
+    mark.dispatchEvent(new MouseEvent(type, {
+        bubbles: true,
+        cancelable: true,
+        clientX: rect.left + rect.width / 2,
+        clientY: rect.top + rect.height / 2,
+        ctrlKey
+    }));
+}
+
+function drawFocusRing(mark: SVGElement, color: string): void {
+    const svg = mark.ownerSVGElement;
+    if (!svg) {
+        return;
+    }
+    removeFocusRing(mark);
+
+    const markRect = mark.getBoundingClientRect();
+    const svgRect = svg.getBoundingClientRect();
+    const padding = 2;
+    const x = markRect.left - svgRect.left - padding;
+    const y = markRect.top - svgRect.top - padding;
+    const width = markRect.width + padding * 2;
+    const height = markRect.height + padding * 2;
+
+    // A light halo under a dark ring keeps the outline visible on both dark and light fills.
+    [{ stroke: "#ffffff", strokeWidth: 4 }, { stroke: color, strokeWidth: 2 }].forEach(({ stroke, strokeWidth }) => {
+        const ring = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+        ring.setAttribute("class", FOCUS_RING_CLASS);
+        ring.setAttribute("x", String(x));
+        ring.setAttribute("y", String(y));
+        ring.setAttribute("width", String(Math.max(0, width)));
+        ring.setAttribute("height", String(Math.max(0, height)));
+        ring.setAttribute("rx", "3");
+        ring.setAttribute("fill", "none");
+        ring.setAttribute("stroke", stroke);
+        ring.setAttribute("stroke-width", String(strokeWidth));
+        ring.setAttribute("pointer-events", "none");
+        ring.setAttribute("aria-hidden", "true");
+        svg.appendChild(ring);
+    });
+}
+
+function removeFocusRing(mark: SVGElement): void {
+    mark.ownerSVGElement?.querySelectorAll(`.${FOCUS_RING_CLASS}`).forEach((ring) => ring.remove());
+}
@@ -0,0 +1,792 @@
+"use strict";
+
+// ---------------------------------------------------------------------------
+// PBI / .NET format-string engine (replaces the Globalize-backed valueFormatter)
+// ---------------------------------------------------------------------------
+
+interface LocaleSymbols {
+    decimal: string;
+    group: string;
+    minus: string;
+    percent: string;
+    dateSeparator: string;
+    timeSeparator: string;
+    am: string;
+    pm: string;
+    monthNames: string[];
+    monthAbbreviations: string[];
+    dayNames: string[];
+    dayAbbreviations: string[];
+}
+
+type NumberToken =
+    | { kind: "digit"; zero: boolean }
+    | { kind: "decimal" }
+    | { kind: "group" }
+    | { kind: "percent"; factor: number; symbol: string }
+    | { kind: "exponent"; symbol: string; alwaysSign: boolean; minDigits: number }
+    | { kind: "literal"; text: string };
+
+interface NumberSection {
+    tokens: NumberToken[];
+    scale: number;
+    useGrouping: boolean;
+    minIntegerDigits: number;
+    minFractionDigits: number;
+    maxFractionDigits: number;
+    hasDigits: boolean;
+    exponent: Extract<NumberToken, { kind: "exponent" }> | null;
+}
+
+let formatLocale: string | undefined;
+const symbolsByLocale = new Map<string, LocaleSymbols>();
+const sectionsByFormat = new Map<string, NumberSection[]>();
+
+// Region → ISO currency for the standard "C" specifier; model currency formats carry their own symbol.
+const CURRENCY_BY_REGION: Record<string, string> = {
+    US: "USD", GB: "GBP", JP: "JPY", CN: "CNY", IN: "INR", CA: "CAD", AU: "AUD", NZ: "NZD",
+    CH: "CHF", SE: "SEK", NO: "NOK", DK: "DKK", PL: "PLN", CZ: "CZK", HU: "HUF", BR: "BRL",
+    MX: "MXN", KR: "KRW", RU: "RUB", TR: "TRY", ZA: "ZAR", SG: "SGD", HK: "HKD", IL: "ILS"
+};
+const EURO_REGIONS = new Set([
+    "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR", "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK"
+]);
+
+const NAMED_NUMBER_FORMATS: Record<string, string> = {
+    "general number": "G",
+    "currency": "C",
+    "fixed": "F",
+    "standard": "N",
+    "percent": "P",
+    "scientific": "0.00E+00"
+};
+
+const NAMED_DATE_FORMATS: Record<string, string> = {
+    "general date": "G",
+    "long date": "D",
+    "medium date": "dd-MMM-yy",
+    "short date": "d",
+    "long time": "T",
+    "medium time": "hh:mm tt",
+    "short time": "HH:mm"
+};
+
+/**
+ * Sets the culture used for separators, month/day names and the fallback number format.
+ * Visuals pass `host.locale` from their constructor; `undefined` means the browser default.
+ */
+export function setFormatLocale(locale: string | undefined): void {
+    formatLocale = locale || undefined;
+}
+
+export function getFormatLocale(): string | undefined {
+    return formatLocale;
+}
+
+/**
+ * Formats a number with a Power BI model format string: custom .NET patterns
+ * (`#,0.00`, `0.0 %`, `#,0,,"M"`, `\$#,0;(\$#,0);-`, `0.00E+00`), standard specifiers
+ * (`N2`, `C0`, `P1`, `F3`, `D5`, `E2`, `G`, `X`) and the named VB formats ("Currency",
+ * "Percent", "Yes/No", …). Separators follow the current format locale.
+ */
+export function formatNumberWithFormatString(value: number, formatString: string): string {
+    const symbols = getLocaleSymbols(formatLocale);
+    const format = formatString.trim();
+
+    const booleanFormat = formatBooleanNamed(value, format);
+    if (booleanFormat !== null) {
+        return booleanFormat;
+    }
+
+    const named = NAMED_NUMBER_FORMATS[format.toLowerCase()] ?? format;
+    const standard = named.match(/^([CcDdEeFfGgNnPpRrXx])(\d{0,2})$/);
+    if (standard) {
+        return formatStandardNumber(value, standard[1], standard[2] ? Number(standard[2]) : null, symbols);
+    }
+    return formatCustomNumber(value, named, symbols);
+}
+
+/**
+ * Formats a date with a .NET date format string: standard specifiers (`d`, `D`, `g`, `G`,
+ * `M`, `Y`, `t`, `T`, `s`, `u`, `o`), the named formats ("Short Date", "Long Time", …) or
+ * custom patterns such as `dd/MM/yyyy HH:mm` and `MMM "'"yy`.
+ */
+export function formatDateWithFormatString(value: Date, formatString: string): string {
+    const format = NAMED_DATE_FORMATS[formatString.trim().toLowerCase()] ?? formatString;
+    if (format.length === 1) {
+        const standard = formatStandardDate(value, format);
+        if (standard !== null) {
+            return standard;
+        }
+    }
+    return formatCustomDate(value, format, getLocaleSymbols(formatLocale));
+}
+
+/**
+ * Rewrites a number format string so it shows exactly `decimals` fraction digits
+ * (or up to `decimals` when `optional`), keeping currency symbols, literals and
+ * section layout intact. Used for the per-label "decimal places" overrides.
+ */
+export function withDecimalPlaces(formatString: string | undefined, decimals: number, optional: boolean = false): string {
+    const digits = Math.max(0, Math.min(15, Math.floor(decimals)));
+    const fraction = (optional ? "#" : "0").repeat(digits);
+    const format = (formatString ?? "").trim();
+    if (!format) {
+        return digits ? `#,0.${fraction}` : "#,0";
+    }
+
+    const named = NAMED_NUMBER_FORMATS[format.toLowerCase()] ?? format;
+    const standard = named.match(/^([CcEeFfGgNnPp])(\d{0,2})$/);
+    if (standard) {
+        // "G" has no fixed-decimals form; "N" is its grouped equivalent.
+        const specifier = standard[1].toUpperCase() === "G" ? "N" : standard[1];
+        return optional ? withDecimalPlaces(expandStandardFormat(specifier), digits, true) : `${specifier}${digits}`;
+    }
+    if (/^[DdXxRr]\d{0,2}$/.test(named)) {
+        return named;
+    }
+
+    return splitSections(named)
+        .map((section) => rewriteFractionDigits(section, fraction))
+        .join(";");
+}
+
+/**
+ * True when the (first section of the) format string scales the value itself: a percentage,
+ * commas that divide by 1,000 (`#,0,,"M"`) or scientific notation (`0.00E+00`).
+ */
+export function isScaledFormatString(formatString: string | undefined): boolean {
+    const format = (formatString ?? "").trim();
+    if (!format) {
+        return false;
+    }
+    const named = NAMED_NUMBER_FORMATS[format.toLowerCase()] ?? format;
+    if (/^[PpEe]\d{0,2}$/.test(named)) {
+        return true;
+    }
+    const section = parseNumberSection(splitSections(named)[0]);
+    return section.scale !== 1 || section.exponent !== null;
+}
+
+function expandStandardFormat(specifier: string): string {
+    switch (specifier.toUpperCase()) {
+        case "P": return "#,0 %";
+        case "F": return "0";
+        case "E": return "0E+000";
+        default: return "#,0";
+    }
+}
+
+function rewriteFractionDigits(section: string, fraction: string): string {
+    let quote: string | null = null;
+    let decimalAt = -1;
+    let lastDigitAt = -1;
+    for (let i = 0; i < section.length; i++) {
+        const ch = section[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === "\\") {
+            i++;
+            continue;
+        }
+        if (ch === "\"" || ch === "'") {
+            quote = ch;
+            continue;
+        }
+        if ((ch === "E" || ch === "e") && lastDigitAt !== -1) {
+            break;
+        }
+        if (ch === "." && decimalAt === -1) {
+            decimalAt = i;
+            lastDigitAt = i;
+            continue;
+        }
+        if (ch === "0" || ch === "#") {
+            lastDigitAt = i;
+        }
+    }
+    if (lastDigitAt === -1) {
+        // Literal-only sections such as "-" stay as they are.
+        return section;
+    }
+    const before = decimalAt === -1 ? section.slice(0, lastDigitAt + 1) : section.slice(0, decimalAt);
+    const after = section.slice(lastDigitAt + 1);
+    return fraction ? `${before}.${fraction}${after}` : `${before}${after}`;
+}
+
+// ---------------------------------------------------------------------------
+// Numbers
+// ---------------------------------------------------------------------------
+
+function formatBooleanNamed(value: number, format: string): string | null {
+    const pairs: Record<string, [string, string]> = {
+        "yes/no": ["Yes", "No"],
+        "true/false": ["True", "False"],
+        "on/off": ["On", "Off"]
+    };
+    const pair = pairs[format.toLowerCase()];
+    return pair ? (value !== 0 ? pair[0] : pair[1]) : null;
+}
+
+function formatStandardNumber(value: number, specifier: string, precision: number | null, symbols: LocaleSymbols): string {
+    const abs = Math.abs(value);
+    const sign = value < 0 ? symbols.minus : "";
+    const locale = formatLocale;
+    switch (specifier.toUpperCase()) {
+        case "C": {
+            const digits = precision ?? 2;
+            return new Intl.NumberFormat(locale, {
+                style: "currency",
+                currency: currencyForLocale(locale),
+                minimumFractionDigits: digits,
+                maximumFractionDigits: digits
+            }).format(value);
+        }
+        case "D": {
+            const digits = roundToFixed(abs, 0).split(".")[0];
+            return sign + digits.padStart(precision ?? 0, "0");
+        }
+        case "E": {
+            const [mantissa, exponent] = abs.toExponential(precision ?? 6).split("e");
+            const expValue = Number(exponent);
+            const expSign = expValue < 0 ? "-" : "+";
+            return `${sign}${mantissa.replace(".", symbols.decimal)}${specifier}${expSign}${String(Math.abs(expValue)).padStart(3, "0")}`;
+        }
+        case "F":
+        case "N": {
+            const digits = precision ?? 2;
+            const fixed = roundToFixed(abs, digits);
+            const [integer, fraction = ""] = fixed.split(".");
+            const grouped = specifier.toUpperCase() === "N" ? groupDigits(integer, symbols.group) : integer;
+            return withSign(sign, fraction ? `${grouped}${symbols.decimal}${fraction}` : grouped, fixed);
+        }
+        case "P": {
+            const digits = precision ?? 2;
+            const fixed = roundToFixed(abs * 100, digits);
+            const [integer, fraction = ""] = fixed.split(".");
+            const body = groupDigits(integer, symbols.group) + (fraction ? symbols.decimal + fraction : "");
+            return `${withSign(sign, body, fixed)}${symbols.percent}`;
+        }
+        case "X": {
+            const hex = Math.trunc(abs).toString(16).padStart(precision ?? 0, "0");
+            return sign + (specifier === "X" ? hex.toUpperCase() : hex);
+        }
+        case "R":
+        case "G":
+        default: {
+            const text = precision
+                ? Number(abs.toPrecision(precision)).toString()
+                : abs.toString();
+            return sign + text.replace(".", symbols.decimal).replace("e", "E");
+        }
+    }
+}
+
+function formatCustomNumber(value: number, format: string, symbols: LocaleSymbols): string {
+    let sections = sectionsByFormat.get(format);
+    if (!sections) {
+        sections = splitSections(format).map(parseNumberSection);
+        sectionsByFormat.set(format, sections);
+    }
+
+    // positive;negative;zero — a missing or empty negative section reuses the first one with a minus sign.
+    const positive = sections[0];
+    const negative = sections[1] && sections[1].tokens.length ? sections[1] : null;
+    const zero = sections[2] && sections[2].tokens.length ? sections[2] : null;
+
+    const section = value < 0 && negative ? negative : positive;
+    if (zero && roundsToZero(value, section)) {
+        return renderNumberSection(0, zero, symbols);
+    }
+
+    const rendered = renderNumberSection(Math.abs(value), section, symbols);
+    if (value < 0 && section === positive && !roundsToZero(value, section)) {
+        return symbols.minus + rendered;
+    }
+    return rendered;
+}
+
+function roundsToZero(value: number, section: NumberSection): boolean {
+    if (value === 0) {
+        return true;
+    }
+    if (section.exponent) {
+        return false;
+    }
+    const scaled = Math.abs(value) * section.scale;
+    return Number(roundToFixed(scaled, section.maxFractionDigits)) === 0;
+}
+
+function splitSections(format: string): string[] {
+    const sections: string[] = [];
+    let current = "";
+    let quote: string | null = null;
+    for (let i = 0; i < format.length; i++) {
+        const ch = format[i];
+        if (quote) {
+            current += ch;
+            if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === "\\" && i + 1 < format.length) {
+            current += ch + format[++i];
+            continue;
+        }
+        if (ch === "\"" || ch === "'") {
+            quote = ch;
+            current += ch;
+            continue;
+        }
+        if (ch === ";") {
+            sections.push(current);
+            current = "";
+            continue;
+        }
+        current += ch;
+    }
+    sections.push(current);
+    return sections.slice(0, 3);
+}
+
+function parseNumberSection(format: string): NumberSection {
+    const tokens: NumberToken[] = [];
+    const pushLiteral = (text: string): void => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.kind === "literal") {
+            last.text += text;
+        } else {
+            tokens.push({ kind: "literal", text });
+        }
+    };
+
+    for (let i = 0; i < format.length; i++) {
+        const ch = format[i];
+        if (ch === "\\") {
+            if (i + 1 < format.length) pushLiteral(format[++i]);
+            continue;
+        }
+        if (ch === "\"" || ch === "'") {
+            const end = format.indexOf(ch, i + 1);
+            const stop = end === -1 ? format.length : end;
+            pushLiteral(format.slice(i + 1, stop));
+            i = stop;
+            continue;
+        }
+        if (ch === "0" || ch === "#") {
+            tokens.push({ kind: "digit", zero: ch === "0" });
+            continue;
+        }
+        if (ch === ".") {
+            if (tokens.some((token) => token.kind === "decimal")) {
+                continue;
+            }
+            tokens.push({ kind: "decimal" });
+            continue;
+        }
+        if (ch === ",") {
+            tokens.push({ kind: "group" });
+            continue;
+        }
+        if (ch === "%" || ch === "‰") {
+            tokens.push({ kind: "percent", factor: ch === "%" ? 100 : 1000, symbol: ch });
+            continue;
+        }
+        if ((ch === "E" || ch === "e") && tokens.some((token) => token.kind === "digit")) {
+            const match = format.slice(i + 1).match(/^([+-]?)(0+)/);
+            if (match) {
+                tokens.push({ kind: "exponent", symbol: ch, alwaysSign: match[1] === "+", minDigits: match[2].length });
+                i += match[0].length;
+                continue;
+            }
+        }
+        pushLiteral(ch);
+    }
+
+    return analyzeSection(tokens);
+}
+
+function analyzeSection(rawTokens: NumberToken[]): NumberSection {
+    const exponentIndex = rawTokens.findIndex((token) => token.kind === "exponent");
+    const numberEnd = exponentIndex === -1 ? rawTokens.length : exponentIndex;
+    const decimalIndex = rawTokens.findIndex((token, index) => token.kind === "decimal" && index < numberEnd);
+    const integerEnd = decimalIndex === -1 ? numberEnd : decimalIndex;
+
+    let firstIntegerDigit = -1;
+    let lastIntegerDigit = -1;
+    let lastDigit = -1;
+    for (let i = 0; i < numberEnd; i++) {
+        if (rawTokens[i].kind !== "digit") continue;
+        if (i < integerEnd) {
+            if (firstIntegerDigit === -1) firstIntegerDigit = i;
+            lastIntegerDigit = i;
+        }
+        lastDigit = i;
+    }
+
+    // Commas between integer placeholders group thousands; commas right before the decimal
+    // point or after the last placeholder (`#,0,,"M"`, `#,0.0,,"M"`) divide by 1,000 each.
+    // Any other comma is dropped.
+    let scale = 1;
+    let useGrouping = false;
+    const tokens: NumberToken[] = [];
+    rawTokens.forEach((token, index) => {
+        if (token.kind !== "group") {
+            tokens.push(token);
+            return;
+        }
+        if (firstIntegerDigit !== -1 && index > firstIntegerDigit && index < lastIntegerDigit) {
+            useGrouping = true;
+            return;
+        }
+        const scalesBeforeDecimal = index < integerEnd && lastIntegerDigit !== -1 && index > lastIntegerDigit
+            && rawTokens.slice(index + 1, integerEnd).every((next) => next.kind !== "digit");
+        const scalesAfterDigits = lastDigit !== -1 && index > lastDigit && index < numberEnd;
+        if (scalesBeforeDecimal || scalesAfterDigits) {
+            scale /= 1000;
+        }
+    });
+
+    tokens.forEach((token) => {
+        if (token.kind === "percent") scale *= token.factor;
+    });
+
+    let minIntegerDigits = 0;
+    let seenZero = false;
+    let minFractionDigits = 0;
+    let maxFractionDigits = 0;
+    let afterDecimal = false;
+    let beforeExponent = true;
+    tokens.forEach((token) => {
+        if (token.kind === "exponent") beforeExponent = false;
+        if (!beforeExponent) return;
+        if (token.kind === "decimal") {
+            afterDecimal = true;
+            return;
+        }
+        if (token.kind !== "digit") return;
+        if (afterDecimal) {
+            maxFractionDigits++;
+            if (token.zero) minFractionDigits = maxFractionDigits;
+            return;
+        }
+        if (token.zero) seenZero = true;
+        if (seenZero) minIntegerDigits++;
+    });
+
+    return {
+        tokens,
+        scale,
+        useGrouping,
+        minIntegerDigits,
+        minFractionDigits,
+        maxFractionDigits,
+        hasDigits: tokens.some((token) => token.kind === "digit"),
+        exponent: (tokens.find((token) => token.kind === "exponent") as NumberSection["exponent"]) ?? null
+    };
+}
+
+function renderNumberSection(abs: number, section: NumberSection, symbols: LocaleSymbols): string {
+    if (!section.hasDigits) {
+        return section.tokens.map((token) => tokenLiteral(token, symbols)).join("");
+    }
+
+    let scaled = abs * section.scale;
+    let exponentValue = 0;
+    if (section.exponent && scaled !== 0) {
+        const integerPlaces = Math.max(1, countIntegerSlots(section.tokens));
+        exponentValue = Math.floor(Math.log10(scaled)) - (integerPlaces - 1);
+        scaled = scaled / Math.pow(10, exponentValue);
+        // Rounding can carry into an extra integer digit (9.99 → 10.0).
+        if (Number(roundToFixed(scaled, section.maxFractionDigits)) >= Math.pow(10, integerPlaces)) {
+            scaled /= 10;
+            exponentValue++;
+        }
+    }
+
+    const fixed = roundToFixed(scaled, section.maxFractionDigits);
+    const [rawInteger, rawFraction = ""] = fixed.split(".");
+    let integerDigits = rawInteger === "0" ? "" : rawInteger;
+    integerDigits = integerDigits.padStart(section.minIntegerDigits, "0");
+    let fractionDigits = rawFraction;
+    while (fractionDigits.length > section.minFractionDigits && fractionDigits.endsWith("0")) {
+        fractionDigits = fractionDigits.slice(0, -1);
+    }
+
+    const integerSlots = countIntegerSlots(section.tokens);
+    const integerText = section.useGrouping ? groupDigits(integerDigits, symbols.group) : integerDigits;
+    const output: string[] = [];
+    let integerSlot = 0;
+    let fractionIndex = 0;
+    let afterDecimal = false;
+    let remaining = integerDigits;
+
+    section.tokens.forEach((token) => {
+        switch (token.kind) {
+            case "digit": {
+                if (afterDecimal) {
+                    if (fractionIndex < fractionDigits.length) {
+                        output.push(fractionDigits[fractionIndex]);
+                    }
+                    fractionIndex++;
+                    return;
+                }
+                integerSlot++;
+                if (section.useGrouping) {
+                    // Grouped output goes out in one piece at the first placeholder.
+                    if (integerSlot === 1) output.push(integerText);
+                    return;
+                }
+                // Digits fill placeholders right to left; the leftmost placeholder takes any overflow.
+                const slotsToTheRight = integerSlots - integerSlot;
+                const take = integerSlot === 1
+                    ? remaining.length - slotsToTheRight
+                    : 1;
+                if (take > 0 && remaining.length > slotsToTheRight) {
+                    output.push(remaining.slice(0, take));
+                    remaining = remaining.slice(take);
+                }
+                return;
+            }
+            case "decimal":
+                afterDecimal = true;
+                if (fractionDigits.length) output.push(symbols.decimal);
+                return;
+            case "exponent": {
+                const expSign = exponentValue < 0 ? "-" : (token.alwaysSign ? "+" : "");
+                output.push(`${token.symbol}${expSign}${String(Math.abs(exponentValue)).padStart(token.minDigits, "0")}`);
+                return;
+            }
+            default:
+                output.push(tokenLiteral(token, symbols));
+        }
+    });
+
+    return output.join("");
+}
+
+function countIntegerSlots(tokens: NumberToken[]): number {
+    let count = 0;
+    for (const token of tokens) {
+        if (token.kind === "decimal" || token.kind === "exponent") break;
+        if (token.kind === "digit") count++;
+    }
+    return count;
+}
+
+function tokenLiteral(token: NumberToken, symbols: LocaleSymbols): string {
+    switch (token.kind) {
+        case "literal":
+            return token.text;
+        case "percent":
+            return token.symbol === "%" ? symbols.percent : token.symbol;
+        case "decimal":
+            return symbols.decimal;
+        default:
+            return "";
+    }
+}
+
+/** Decimal rounding (half away from zero) without binary artefacts such as 1.005 → "1.00". */
+function roundToFixed(abs: number, fractionDigits: number): string {
+    const digits = Math.min(20, Math.max(0, fractionDigits));
+    const shifted = Number(`${abs}e${digits}`);
+    if (Number.isFinite(shifted) && shifted < Number.MAX_SAFE_INTEGER) {
+        return Number(`${Math.round(shifted)}e-${digits}`).toFixed(digits);
+    }
+    return abs.toLocaleString("en-US", {
+        useGrouping: false,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+    });
+}
+
+function groupDigits(integer: string, separator: string): string {
+    return integer.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+function withSign(sign: string, body: string, fixed: string): string {
+    return sign && /[1-9]/.test(fixed) ? sign + body : body;
+}
+
+function currencyForLocale(locale: string | undefined): string {
+    const region = (locale ?? new Intl.NumberFormat().resolvedOptions().locale).split("-").pop()?.toUpperCase() ?? "";
+    if (EURO_REGIONS.has(region)) {
+        return "EUR";
+    }
+    return CURRENCY_BY_REGION[region] ?? "USD";
+}
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+function formatStandardDate(value: Date, specifier: string): string | null {
+    const locale = formatLocale;
+    const intl = (options: Intl.DateTimeFormatOptions): string => new Intl.DateTimeFormat(locale, options).format(value);
+    const shortDate: Intl.DateTimeFormatOptions = { year: "numeric", month: "numeric", day: "numeric" };
+    const longDate: Intl.DateTimeFormatOptions = { weekday: "long", year: "numeric", month: "long", day: "numeric" };
+    const shortTime: Intl.DateTimeFormatOptions = { hour: "numeric", minute: "2-digit" };
+    const longTime: Intl.DateTimeFormatOptions = { hour: "numeric", minute: "2-digit", second: "2-digit" };
+    switch (specifier) {
+        case "d": return intl(shortDate);
+        case "D": return intl(longDate);
+        case "t": return intl(shortTime);
+        case "T": return intl(longTime);
+        case "f": return intl({ ...longDate, ...shortTime });
+        case "F": return intl({ ...longDate, ...longTime });
+        case "g": return intl({ ...shortDate, ...shortTime });
+        case "G": return intl({ ...shortDate, ...longTime });
+        case "M":
+        case "m": return intl({ month: "long", day: "numeric" });
+        case "Y":
+        case "y": return intl({ year: "numeric", month: "long" });
+        case "s": return formatCustomDate(value, "yyyy'-'MM'-'dd'T'HH':'mm':'ss", getLocaleSymbols(locale));
+        case "u": return formatCustomDate(value, "yyyy'-'MM'-'dd HH':'mm':'ss'Z'", getLocaleSymbols(locale));
+        case "o":
+        case "O": return value.toISOString();
+        default: return null;
+    }
+}
+
+function formatCustomDate(value: Date, format: string, symbols: LocaleSymbols): string {
+    // "%d" forces a single-letter custom pattern instead of the standard specifier.
+    const pattern = format.length === 2 && format[0] === "%" ? format.slice(1) : format;
+    let output = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === "\\") {
+            if (i + 1 < pattern.length) output += pattern[++i];
+            continue;
+        }
+        if (ch === "\"" || ch === "'") {
+            const end = pattern.indexOf(ch, i + 1);
+            const stop = end === -1 ? pattern.length : end;
+            output += pattern.slice(i + 1, stop);
+            i = stop;
+            continue;
+        }
+        if (ch === "/") {
+            output += symbols.dateSeparator;
+            continue;
+        }
+        if (ch === ":") {
+            output += symbols.timeSeparator;
+            continue;
+        }
+        let run = 1;
+        while (pattern[i + run] === ch) run++;
+        const part = formatDatePart(value, ch, run, symbols);
+        if (part === null) {
+            output += ch;
+            continue;
+        }
+        output += part;
+        i += run - 1;
+    }
+    return output;
+}
+
+function formatDatePart(value: Date, ch: string, run: number, symbols: LocaleSymbols): string | null {
+    const pad = (n: number, width: number): string => String(n).padStart(width, "0");
+    switch (ch) {
+        case "d":
+            if (run === 1) return String(value.getDate());
+            if (run === 2) return pad(value.getDate(), 2);
+            return run === 3 ? symbols.dayAbbreviations[value.getDay()] : symbols.dayNames[value.getDay()];
+        case "M":
+            if (run === 1) return String(value.getMonth() + 1);
+            if (run === 2) return pad(value.getMonth() + 1, 2);
+            return run === 3 ? symbols.monthAbbreviations[value.getMonth()] : symbols.monthNames[value.getMonth()];
+        case "y": {
+            const year = value.getFullYear();
+            if (run === 1) return String(year % 100);
+            if (run === 2) return pad(year % 100, 2);
+            return pad(year, run);
+        }
+        case "H":
+            return run === 1 ? String(value.getHours()) : pad(value.getHours(), 2);
+        case "h": {
+            const hours = value.getHours() % 12 || 12;
+            return run === 1 ? String(hours) : pad(hours, 2);
+        }
+        case "m":
+            return run === 1 ? String(value.getMinutes()) : pad(value.getMinutes(), 2);
+        case "s":
+            return run === 1 ? String(value.getSeconds()) : pad(value.getSeconds(), 2);
+        case "f":
+        case "F": {
+            const fraction = pad(value.getMilliseconds(), 3).padEnd(run, "0").slice(0, run);
+            return ch === "F" ? fraction.replace(/0+$/, "") : fraction;
+        }
+        case "t": {
+            const designator = value.getHours() < 12 ? symbols.am : symbols.pm;
+            return run === 1 ? designator.charAt(0) : designator;
+        }
+        case "z": {
+            const offset = -value.getTimezoneOffset();
+            const sign = offset < 0 ? "-" : "+";
+            const hours = Math.floor(Math.abs(offset) / 60);
+            const minutes = Math.abs(offset) % 60;
+            if (run === 1) return `${sign}${hours}`;
+            if (run === 2) return `${sign}${pad(hours, 2)}`;
+            return `${sign}${pad(hours, 2)}${symbols.timeSeparator}${pad(minutes, 2)}`;
+        }
+        default:
+            return null;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Locale data
+// ---------------------------------------------------------------------------
+
+function getLocaleSymbols(locale: string | undefined): LocaleSymbols {
+    const cacheKey = locale ?? "";
+    const cached = symbolsByLocale.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const numberParts = new Intl.NumberFormat(locale).formatToParts(-1234567.5);
+    const partOf = (type: string, fallback: string): string =>
+        numberParts.find((part) => part.type === type)?.value ?? fallback;
+    const percentParts = new Intl.NumberFormat(locale, { style: "percent" }).formatToParts(0.5);
+
+    const utcDate = (year: number, month: number, day: number, hour: number = 12): Date => new Date(Date.UTC(year, month, day, hour));
+    const monthFormat = (month: "long" | "short"): string[] => {
+        const formatter = new Intl.DateTimeFormat(locale, { month, timeZone: "UTC" });
+        return Array.from({ length: 12 }, (_, index) => formatter.format(utcDate(2000, index, 1)));
+    };
+    // 2 Jan 2000 was a Sunday, matching .NET's DayOfWeek ordering.
+    const dayFormat = (weekday: "long" | "short"): string[] => {
+        const formatter = new Intl.DateTimeFormat(locale, { weekday, timeZone: "UTC" });
+        return Array.from({ length: 7 }, (_, index) => formatter.format(utcDate(2000, 0, 2 + index)));
+    };
+    const dayPeriod = (hour: number, fallback: string): string =>
+        new Intl.DateTimeFormat(locale, { hour: "numeric", hour12: true, timeZone: "UTC" })
+            .formatToParts(utcDate(2000, 0, 1, hour))
+            .find((part) => part.type === "dayPeriod")?.value ?? fallback;
+    const dateParts = new Intl.DateTimeFormat(locale, { year: "numeric", month: "2-digit", day: "2-digit", timeZone: "UTC" })
+        .formatToParts(utcDate(2000, 0, 2));
+    const timeParts = new Intl.DateTimeFormat(locale, { hour: "2-digit", minute: "2-digit", hour12: false, timeZone: "UTC" })
+        .formatToParts(utcDate(2000, 0, 2));
+
+    const symbols: LocaleSymbols = {
+        decimal: partOf("decimal", "."),
+        group: partOf("group", ","),
+        minus: partOf("minusSign", "-"),
+        percent: percentParts.find((part) => part.type === "percentSign")?.value ?? "%",
+        dateSeparator: dateParts.find((part) => part.type === "literal")?.value.trim() || "/",
+        timeSeparator: timeParts.find((part) => part.type === "literal")?.value.trim() || ":",
+        am: dayPeriod(9, "AM"),
+        pm: dayPeriod(21, "PM"),
+        monthNames: monthFormat("long"),
+        monthAbbreviations: monthFormat("short"),
+        dayNames: dayFormat("long"),
+        dayAbbreviations: dayFormat("short")
+    };
+    symbolsByLocale.set(cacheKey, symbols);
+    return symbols;
+}
@@ -4,13 +4,18 @@ import powerbi from "powerbi-visuals-api";
 import { dataViewWildcard } from "powerbi-visuals-utils-dataviewutils";
 import ISelectionId = powerbi.visuals.ISelectionId;
 import DataView = powerbi.DataView;
-import { ColorScheme, RotateLabelsMode, ITooltipSettings } from "./settings";
+import { ColorScheme, RotateLabelsMode, ITooltipSettings, IDisplayUnitSettings, IColorScaleSettings, IAnimationSettings, IAccessibilitySettings, IRenderingSettings, IDataLoadingSettings, IReferenceLineSettings, IReferenceLinesSettings, IAnnotationSettings, ICrosshairSettings, ITopNSettings, SmallMultiplesOverflow } from "./settings";
+import { localize } from "./localization";
+import { getThemeDataColors } from "./theme";
 
 /**
- * Gets the array of colors for a given color scheme.
+ * Gets the array of colors for a given color scheme. "theme" needs the host palette
+ * and falls back to the Power BI default theme without one.
  */
-export function getSchemeColors(colorScheme: ColorScheme): string[] {
+export function getSchemeColors(colorScheme: ColorScheme, palette?: powerbi.extensibility.IColorPalette): string[] {
     switch (colorScheme) {
+        case "theme":
+            return getThemeDataColors(palette);
         case "blues":
             return ["#08519c", "#3182bd", "#6baed6", "#9ecae1", "#c6dbef", "#deebf7"];
         case "greens":
@@ -33,6 +38,16 @@ export function getSchemeColors(colorScheme: ColorScheme): string[] {
             return ["#fcd34d", "#a3e635", "#34d399", "#22d3ee", "#a78bfa", "#f472b6"];
         case "vibrant":
             return ["#f43f5e", "#f97316", "#facc15", "#4ade80", "#22d3ee", "#a855f7"];
+        case "viridis":
+            return ["#440154", "#414487", "#2a788e", "#22a884", "#7ad151", "#fde725"];
+        case "cividis":
+            return ["#00224e", "#35456c", "#666970", "#948e77", "#c8b866", "#fee838"];
+        case "okabeIto":
+            // Okabe & Ito (2008), distinguishable under all common color-vision deficiencies.
+            return ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#0072b2", "#d55e00", "#cc79a7", "#000000"];
+        case "tolBright":
+            // Paul Tol's "bright" qualitative scheme.
+            return ["#4477aa", "#ee6677", "#228833", "#ccbb44", "#66ccee", "#aa3377", "#bbbbbb"];
         default:
             return ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf"];
     }
@@ -75,16 +90,52 @@ export function createDataColorsCard(
     });
 
     return {
-        displayName: "Data Colors",
+        displayName: localize("Visual_DataColors"),
         uid: "dataColors_card",
         groups: [{
-            displayName: "Colors",
+            displayName: localize("Visual_Colors"),
             uid: "dataColors_group",
             slices: slices
         }]
     };
 }
 
+/**
+ * Creates the Conditional Colors card: one fx-capable color stored in `conditionalColors.fill`.
+ * Rules (gradient, rules, field value) are evaluated per data point; read them back with
+ * `createConditionalColorLookup`.
+ */
+export function createConditionalColorsCard(defaultColor: string): powerbi.visuals.FormattingCard {
+    const wildcardSelector = dataViewWildcard.createDataViewWildcardSelector(
+        dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals
+    );
+
+    return {
+        displayName: localize("Visual_ConditionalColors"),
+        uid: "conditionalColors_card",
+        groups: [{
+            displayName: localize("Visual_Colors"),
+            uid: "conditionalColors_group",
+            slices: [{
+                uid: "conditionalColors_fill",
+                displayName: localize("Visual_ColorByRule"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.ColorPicker,
+                    properties: {
+                        descriptor: {
+                            objectName: "conditionalColors",
+                            propertyName: "fill",
+                            selector: wildcardSelector,
+                            instanceKind: powerbi.VisualEnumerationInstanceKinds.ConstantOrRule
+                        },
+                        value: { value: defaultColor }
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice]
+        }]
+    };
+}
+
 /**
  * Reads category colors from dataView objects.
  */
@@ -139,18 +190,19 @@ export function findCategoryIndex(dataView: DataView, roleName: string): number
 export function createGradientColorsCard(
     minColor: string,
     maxColor: string,
-    objectName: string = "calendarSettings"
+    objectName: string = "calendarSettings",
+    colorScale?: IColorScaleSettings
 ): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Data Colors",
+        displayName: localize("Visual_DataColors"),
         uid: "dataColors_card",
         groups: [{
-            displayName: "Gradient",
+            displayName: localize("Visual_Gradient"),
             uid: "dataColors_gradient_group",
             slices: [
                 {
                     uid: "dataColors_minColor",
-                    displayName: "Min Color",
+                    displayName: localize("Visual_MinColor"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -161,7 +213,7 @@ export function createGradientColorsCard(
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "dataColors_maxColor",
-                    displayName: "Max Color",
+                    displayName: localize("Visual_MaxColor"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -171,7 +223,116 @@ export function createGradientColorsCard(
                     }
                 } as powerbi.visuals.FormattingSlice
             ]
-        }]
+        }, ...(colorScale ? [createColorScaleGroup(colorScale)] : [])]
+    };
+}
+
+/**
+ * Scale type and diverging midpoint, written to the `colorScale` object. Shared by the gradient
+ * and color scheme cards; a visual passes its settings to only one of them.
+ */
+function createColorScaleGroup(settings: IColorScaleSettings): powerbi.visuals.FormattingGroup {
+    const slices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: "colorScale_scaleType",
+            displayName: localize("Visual_ScaleType"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName: "colorScale", propertyName: "scaleType" },
+                    value: settings.scaleType
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (settings.scaleType === "diverging") {
+        slices.push(
+            {
+                uid: "colorScale_midColor",
+                displayName: localize("Visual_MidColor"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.ColorPicker,
+                    properties: {
+                        descriptor: { objectName: "colorScale", propertyName: "midColor" },
+                        value: { value: settings.midColor }
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice,
+            {
+                uid: "colorScale_midpoint",
+                displayName: localize("Visual_Midpoint"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.Dropdown,
+                    properties: {
+                        descriptor: { objectName: "colorScale", propertyName: "midpoint" },
+                        value: settings.midpoint
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice
+        );
+        if (settings.midpoint === "fixed") {
+            slices.push({
+                uid: "colorScale_midpointValue",
+                displayName: localize("Visual_MidpointValue"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.NumUpDown,
+                    properties: {
+                        descriptor: { objectName: "colorScale", propertyName: "midpointValue" },
+                        value: settings.midpointValue
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice);
+        }
+    }
+
+    slices.push({
+        uid: "colorScale_classification",
+        displayName: localize("Visual_Classification"),
+        control: {
+            type: powerbi.visuals.FormattingComponent.Dropdown,
+            properties: {
+                descriptor: { objectName: "colorScale", propertyName: "classification" },
+                value: settings.classification
+            }
+        }
+    } as powerbi.visuals.FormattingSlice);
+
+    if (settings.classification === "thresholds") {
+        slices.push({
+            uid: "colorScale_thresholds",
+            displayName: localize("Visual_Thresholds"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.TextInput,
+                properties: {
+                    descriptor: { objectName: "colorScale", propertyName: "thresholds" },
+                    value: settings.thresholds,
+                    placeholder: "10, 50, 100"
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    } else if (settings.classification !== "continuous") {
+        slices.push({
+            uid: "colorScale_classCount",
+            displayName: localize("Visual_ClassCount"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "colorScale", propertyName: "classCount" },
+                    value: settings.classCount,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 2 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 9 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    return {
+        displayName: localize("Visual_ColorScale"),
+        uid: "colorScale_group",
+        slices
     };
 }
 
@@ -208,7 +369,7 @@ export function createTextSizesCard(settings: {
     if (settings.xAxisFontSize !== undefined) {
         slices.push({
             uid: "textSizes_xAxis",
-            displayName: "X-Axis Font Size",
+            displayName: localize("Visual_XAxisFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -223,7 +384,7 @@ export function createTextSizesCard(settings: {
     if (settings.yAxisFontSize !== undefined) {
         slices.push({
             uid: "textSizes_yAxis",
-            displayName: "Y-Axis Font Size",
+            displayName: localize("Visual_YAxisFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -238,7 +399,7 @@ export function createTextSizesCard(settings: {
     if (settings.legendFontSize !== undefined) {
         slices.push({
             uid: "textSizes_legend",
-            displayName: "Legend Font Size",
+            displayName: localize("Visual_LegendFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -253,7 +414,7 @@ export function createTextSizesCard(settings: {
     if (settings.panelTitleFontSize !== undefined) {
         slices.push({
             uid: "textSizes_panelTitle",
-            displayName: "Panel Title Font Size",
+            displayName: localize("Visual_PanelTitleFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -268,7 +429,7 @@ export function createTextSizesCard(settings: {
     if (settings.endLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_endLabel",
-            displayName: "End Label Font Size",
+            displayName: localize("Visual_EndLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -283,7 +444,7 @@ export function createTextSizesCard(settings: {
     if (settings.valueLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_valueLabel",
-            displayName: "Value Label Font Size",
+            displayName: localize("Visual_ValueLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -298,7 +459,7 @@ export function createTextSizesCard(settings: {
     if (settings.sliceLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_sliceLabel",
-            displayName: "Slice Label Font Size",
+            displayName: localize("Visual_SliceLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -313,7 +474,7 @@ export function createTextSizesCard(settings: {
     if (settings.centerLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_centerLabel",
-            displayName: "Center Label Font Size",
+            displayName: localize("Visual_CenterLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -328,7 +489,7 @@ export function createTextSizesCard(settings: {
     if (settings.centerValueFontSize !== undefined) {
         slices.push({
             uid: "textSizes_centerValue",
-            displayName: "Center Value Font Size",
+            displayName: localize("Visual_CenterValueFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -343,7 +504,7 @@ export function createTextSizesCard(settings: {
     if (settings.yearLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_yearLabel",
-            displayName: "Year Label Font Size",
+            displayName: localize("Visual_YearLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -358,7 +519,7 @@ export function createTextSizesCard(settings: {
     if (settings.monthLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_monthLabel",
-            displayName: "Month Label Font Size",
+            displayName: localize("Visual_MonthLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -373,7 +534,7 @@ export function createTextSizesCard(settings: {
     if (settings.dayLabelFontSize !== undefined) {
         slices.push({
             uid: "textSizes_dayLabel",
-            displayName: "Day Label Font Size",
+            displayName: localize("Visual_DayLabelFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -386,10 +547,10 @@ export function createTextSizesCard(settings: {
     }
 
     return {
-        displayName: "Text Sizes",
+        displayName: localize("Visual_TextSizes"),
         uid: "textSizes_card",
         groups: [{
-            displayName: "Font Sizes",
+            displayName: localize("Visual_FontSizes"),
             uid: "textSizes_group",
             slices
         }]
@@ -412,7 +573,7 @@ export function createXAxisCard(settings: {
     const slices: powerbi.visuals.FormattingSlice[] = [
         {
             uid: "xAxis_show",
-            displayName: "Show X-Axis",
+            displayName: localize("Visual_ShowXAxis"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -426,7 +587,7 @@ export function createXAxisCard(settings: {
     if (settings.fontSize !== undefined) {
         slices.push({
             uid: "xAxis_fontSize",
-            displayName: "Font Size",
+            displayName: localize("Visual_FontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -444,7 +605,7 @@ export function createXAxisCard(settings: {
     if (settings.fontFamily !== undefined) {
         slices.push({
             uid: "xAxis_fontFamily",
-            displayName: "Font Family",
+            displayName: localize("Visual_FontFamily"),
             control: {
                 type: powerbi.visuals.FormattingComponent.FontPicker,
                 properties: {
@@ -458,7 +619,7 @@ export function createXAxisCard(settings: {
     if (settings.color !== undefined) {
         slices.push({
             uid: "xAxis_color",
-            displayName: "Color",
+            displayName: localize("Visual_Color"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ColorPicker,
                 properties: {
@@ -472,7 +633,7 @@ export function createXAxisCard(settings: {
     if (settings.bold !== undefined) {
         slices.push({
             uid: "xAxis_bold",
-            displayName: "Bold",
+            displayName: localize("Visual_Bold"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -486,7 +647,7 @@ export function createXAxisCard(settings: {
     if (settings.italic !== undefined) {
         slices.push({
             uid: "xAxis_italic",
-            displayName: "Italic",
+            displayName: localize("Visual_Italic"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -500,7 +661,7 @@ export function createXAxisCard(settings: {
     if (settings.underline !== undefined) {
         slices.push({
             uid: "xAxis_underline",
-            displayName: "Underline",
+            displayName: localize("Visual_Underline"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -514,7 +675,7 @@ export function createXAxisCard(settings: {
     if (settings.rotateLabels !== undefined) {
         slices.push({
             uid: "xAxis_rotateLabels",
-            displayName: "Rotate Labels",
+            displayName: localize("Visual_RotateLabels"),
             control: {
                 type: powerbi.visuals.FormattingComponent.Dropdown,
                 properties: {
@@ -526,10 +687,10 @@ export function createXAxisCard(settings: {
     }
 
     return {
-        displayName: "X-Axis",
+        displayName: localize("Visual_XAxis"),
         uid: "xAxis_card",
         groups: [{
-            displayName: "X-Axis Settings",
+            displayName: localize("Visual_XAxisSettings"),
             uid: "xAxis_group",
             slices
         }]
@@ -551,7 +712,7 @@ export function createYAxisCard(settings: {
     const slices: powerbi.visuals.FormattingSlice[] = [
         {
             uid: "yAxis_show",
-            displayName: "Show Y-Axis",
+            displayName: localize("Visual_ShowYAxis"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -565,7 +726,7 @@ export function createYAxisCard(settings: {
     if (settings.fontSize !== undefined) {
         slices.push({
             uid: "yAxis_fontSize",
-            displayName: "Font Size",
+            displayName: localize("Visual_FontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -583,7 +744,7 @@ export function createYAxisCard(settings: {
     if (settings.fontFamily !== undefined) {
         slices.push({
             uid: "yAxis_fontFamily",
-            displayName: "Font Family",
+            displayName: localize("Visual_FontFamily"),
             control: {
                 type: powerbi.visuals.FormattingComponent.FontPicker,
                 properties: {
@@ -597,7 +758,7 @@ export function createYAxisCard(settings: {
     if (settings.color !== undefined) {
         slices.push({
             uid: "yAxis_color",
-            displayName: "Color",
+            displayName: localize("Visual_Color"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ColorPicker,
                 properties: {
@@ -611,7 +772,7 @@ export function createYAxisCard(settings: {
     if (settings.bold !== undefined) {
         slices.push({
             uid: "yAxis_bold",
-            displayName: "Bold",
+            displayName: localize("Visual_Bold"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -625,7 +786,7 @@ export function createYAxisCard(settings: {
     if (settings.italic !== undefined) {
         slices.push({
             uid: "yAxis_italic",
-            displayName: "Italic",
+            displayName: localize("Visual_Italic"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -639,7 +800,7 @@ export function createYAxisCard(settings: {
     if (settings.underline !== undefined) {
         slices.push({
             uid: "yAxis_underline",
-            displayName: "Underline",
+            displayName: localize("Visual_Underline"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -651,10 +812,10 @@ export function createYAxisCard(settings: {
     }
 
     return {
-        displayName: "Y-Axis",
+        displayName: localize("Visual_YAxis"),
         uid: "yAxis_card",
         groups: [{
-            displayName: "Y-Axis Settings",
+            displayName: localize("Visual_YAxisSettings"),
             uid: "yAxis_group",
             slices
         }]
@@ -669,13 +830,14 @@ export function createLegendCard(settings: {
     position?: string;
     fontSize?: number;
     maxItems?: number;
+    overflow?: string;
 }): powerbi.visuals.FormattingCard {
     const slices: powerbi.visuals.FormattingSlice[] = [];
 
     if (settings.show !== undefined) {
         slices.push({
             uid: "legend_show",
-            displayName: "Show",
+            displayName: localize("Visual_Show"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -689,7 +851,7 @@ export function createLegendCard(settings: {
     if (settings.position !== undefined) {
         slices.push({
             uid: "legend_position",
-            displayName: "Position",
+            displayName: localize("Visual_Position"),
             control: {
                 type: powerbi.visuals.FormattingComponent.Dropdown,
                 properties: {
@@ -703,7 +865,7 @@ export function createLegendCard(settings: {
     if (settings.fontSize !== undefined) {
         slices.push({
             uid: "legend_fontSize",
-            displayName: "Font Size",
+            displayName: localize("Visual_FontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -721,7 +883,7 @@ export function createLegendCard(settings: {
     if (settings.maxItems !== undefined) {
         slices.push({
             uid: "legend_maxItems",
-            displayName: "Max Items",
+            displayName: localize("Visual_MaxItems"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -736,11 +898,25 @@ export function createLegendCard(settings: {
         } as powerbi.visuals.FormattingSlice);
     }
 
+    if (settings.overflow !== undefined) {
+        slices.push({
+            uid: "legend_overflow",
+            displayName: localize("Visual_LegendOverflow"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName: "legend", propertyName: "overflow" },
+                    value: settings.overflow
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
     return {
-        displayName: "Legend",
+        displayName: localize("Visual_Legend"),
         uid: "legend_card",
         groups: [{
-            displayName: "Legend Settings",
+            displayName: localize("Visual_LegendSettings"),
             uid: "legend_group",
             slices
         }]
@@ -748,7 +924,8 @@ export function createLegendCard(settings: {
 }
 
 /**
- * Creates a Small Multiples formatting card
+ * Creates a Small Multiples formatting card. Grid settings (automatic columns, overflow and the
+ * Scales group) appear only when the visual passes them, i.e. for visuals on the shared grid.
  */
 export function createSmallMultiplesCard(settings: {
     columns?: number;
@@ -756,13 +933,34 @@ export function createSmallMultiplesCard(settings: {
     showTitle?: boolean;
     titleFontSize?: number;
     titleSpacing?: number;
+    autoColumns?: boolean;
+    overflow?: SmallMultiplesOverflow;
+    minPanelHeight?: number;
+    sharedXScale?: boolean;
+    sharedYScale?: boolean;
+    sharedColorScale?: boolean;
+    outerAxesOnly?: boolean;
 }): powerbi.visuals.FormattingCard {
     const slices: powerbi.visuals.FormattingSlice[] = [];
 
-    if (settings.columns !== undefined) {
+    if (settings.autoColumns !== undefined) {
+        slices.push({
+            uid: "smallMultiples_autoColumns",
+            displayName: localize("Visual_AutoColumns"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "smallMultiples", propertyName: "autoColumns" },
+                    value: settings.autoColumns
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    if (settings.columns !== undefined && !settings.autoColumns) {
         slices.push({
             uid: "smallMultiples_columns",
-            displayName: "Columns",
+            displayName: localize("Visual_Columns"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -776,7 +974,7 @@ export function createSmallMultiplesCard(settings: {
     if (settings.spacing !== undefined) {
         slices.push({
             uid: "smallMultiples_spacing",
-            displayName: "Spacing",
+            displayName: localize("Visual_Spacing"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -790,7 +988,7 @@ export function createSmallMultiplesCard(settings: {
     if (settings.showTitle !== undefined) {
         slices.push({
             uid: "smallMultiples_showTitle",
-            displayName: "Show Panel Titles",
+            displayName: localize("Visual_ShowPanelTitles"),
             control: {
                 type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                 properties: {
@@ -804,7 +1002,7 @@ export function createSmallMultiplesCard(settings: {
     if (settings.titleFontSize !== undefined) {
         slices.push({
             uid: "smallMultiples_titleFontSize",
-            displayName: "Title Font Size",
+            displayName: localize("Visual_TitleFontSize"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -818,7 +1016,7 @@ export function createSmallMultiplesCard(settings: {
     if (settings.titleSpacing !== undefined) {
         slices.push({
             uid: "smallMultiples_titleSpacing",
-            displayName: "Title Spacing",
+            displayName: localize("Visual_TitleSpacing"),
             control: {
                 type: powerbi.visuals.FormattingComponent.NumUpDown,
                 properties: {
@@ -829,30 +1027,94 @@ export function createSmallMultiplesCard(settings: {
         } as powerbi.visuals.FormattingSlice);
     }
 
+    if (settings.overflow !== undefined) {
+        slices.push({
+            uid: "smallMultiples_overflow",
+            displayName: localize("Visual_PanelOverflow"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName: "smallMultiples", propertyName: "overflow" },
+                    value: settings.overflow
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    if (settings.minPanelHeight !== undefined && settings.overflow === "scroll") {
+        slices.push({
+            uid: "smallMultiples_minPanelHeight",
+            displayName: localize("Visual_MinPanelHeight"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "smallMultiples", propertyName: "minPanelHeight" },
+                    value: settings.minPanelHeight,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 60 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 800 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    const scaleToggles: Array<[keyof typeof settings, string]> = [
+        ["sharedXScale", "Visual_SharedXScale"],
+        ["sharedYScale", "Visual_SharedYScale"],
+        ["sharedColorScale", "Visual_SharedColorScale"],
+        ["outerAxesOnly", "Visual_OuterAxesOnly"]
+    ];
+    const scaleSlices = scaleToggles
+        .filter(([propertyName]) => settings[propertyName] !== undefined)
+        .map(([propertyName, displayNameKey]) => ({
+            uid: `smallMultiples_${propertyName}`,
+            displayName: localize(displayNameKey),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "smallMultiples", propertyName },
+                    value: settings[propertyName]
+                }
+            }
+        } as powerbi.visuals.FormattingSlice));
+
+    const groups: powerbi.visuals.FormattingGroup[] = [{
+        displayName: localize("Visual_Layout"),
+        uid: "smallMultiples_group",
+        slices
+    }];
+    if (scaleSlices.length) {
+        groups.push({
+            displayName: localize("Visual_Scales"),
+            uid: "smallMultiples_scales_group",
+            slices: scaleSlices
+        });
+    }
+
     return {
-        displayName: "Small Multiples",
+        displayName: localize("Visual_SmallMultiples"),
         uid: "smallMultiples_card",
-        groups: [{
-            displayName: "Layout",
-            uid: "smallMultiples_group",
-            slices
-        }]
+        groups
     };
 }
 
 /**
  * Creates a Color Scheme formatting card
  */
-export function createColorSchemeCard(currentScheme: ColorScheme): powerbi.visuals.FormattingCard {
+export function createColorSchemeCard(
+    currentScheme: ColorScheme,
+    colorScale?: IColorScaleSettings
+): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Color Scheme",
+        displayName: localize("Visual_ColorScheme"),
         uid: "colorScheme_card",
         groups: [{
-            displayName: "Colors",
+            displayName: localize("Visual_Colors"),
             uid: "colorScheme_group",
             slices: [{
                 uid: "colorScheme_scheme",
-                displayName: "Color Scheme",
+                displayName: localize("Visual_ColorScheme"),
                 control: {
                     type: powerbi.visuals.FormattingComponent.Dropdown,
                     properties: {
@@ -861,22 +1123,22 @@ export function createColorSchemeCard(currentScheme: ColorScheme): powerbi.visua
                     }
                 }
             } as powerbi.visuals.FormattingSlice]
-        }]
+        }, ...(colorScale ? [createColorScaleGroup(colorScale)] : [])]
     };
 }
 
 
 export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Tooltips",
+        displayName: localize("Visual_Tooltips"),
         uid: "tooltip_card",
         groups: [{
-            displayName: "Style",
+            displayName: localize("Visual_Style"),
             uid: "tooltip_group",
             slices: [
                 {
                     uid: "tooltip_enabled",
-                    displayName: "Enabled",
+                    displayName: localize("Visual_Enabled"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -887,7 +1149,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_style",
-                    displayName: "Style",
+                    displayName: localize("Visual_Style"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -898,7 +1160,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_theme",
-                    displayName: "Theme",
+                    displayName: localize("Visual_Theme"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -909,7 +1171,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_backgroundColor",
-                    displayName: "Background",
+                    displayName: localize("Visual_Background"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -920,7 +1182,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_textColor",
-                    displayName: "Text Color",
+                    displayName: localize("Visual_TextColor"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -931,7 +1193,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_borderColor",
-                    displayName: "Border Color",
+                    displayName: localize("Visual_BorderColor"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ColorPicker,
                         properties: {
@@ -942,7 +1204,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_borderRadius",
-                    displayName: "Border Radius",
+                    displayName: localize("Visual_BorderRadius"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -953,7 +1215,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_shadow",
-                    displayName: "Shadow",
+                    displayName: localize("Visual_Shadow"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -964,7 +1226,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_maxWidth",
-                    displayName: "Max Width",
+                    displayName: localize("Visual_MaxWidth"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -975,7 +1237,7 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "tooltip_showColorSwatch",
-                    displayName: "Show Color Swatch",
+                    displayName: localize("Visual_ShowColorSwatch"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -989,6 +1251,739 @@ export function createTooltipCard(settings: ITooltipSettings): powerbi.visuals.F
     };
 }
 
+/**
+ * Creates the Display Units card: units and decimal places for axis ticks, data labels
+ * and tooltips, stored in the `displayUnits` object.
+ */
+export function createDisplayUnitsCard(settings: IDisplayUnitSettings): powerbi.visuals.FormattingCard {
+    const group = (
+        target: "axis" | "label" | "tooltip",
+        displayNameKey: string
+    ): powerbi.visuals.FormattingGroup => ({
+        displayName: localize(displayNameKey),
+        uid: `displayUnits_${target}_group`,
+        slices: [
+            {
+                uid: `displayUnits_${target}Units`,
+                displayName: localize("Visual_DisplayUnits"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.Dropdown,
+                    properties: {
+                        descriptor: { objectName: "displayUnits", propertyName: `${target}Units` },
+                        value: settings[`${target}Units` as const]
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice,
+            {
+                uid: `displayUnits_${target}Decimals`,
+                displayName: localize("Visual_DecimalPlacesAuto"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.NumUpDown,
+                    properties: {
+                        descriptor: { objectName: "displayUnits", propertyName: `${target}Decimals` },
+                        value: settings[`${target}Decimals` as const],
+                        options: {
+                            minValue: { type: powerbi.visuals.ValidatorType.Min, value: -1 },
+                            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 9 }
+                        }
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice
+        ]
+    });
+
+    return {
+        displayName: localize("Visual_DisplayUnits"),
+        uid: "displayUnits_card",
+        groups: [
+            group("axis", "Visual_Axis"),
+            group("label", "Visual_DataLabels"),
+            group("tooltip", "Visual_Tooltips")
+        ]
+    };
+}
+
+/**
+ * Creates the Animation card: transitions between data updates and their duration
+ */
+export function createAnimationCard(settings: IAnimationSettings): powerbi.visuals.FormattingCard {
+    return {
+        displayName: localize("Visual_Animation"),
+        uid: "animation_card",
+        groups: [{
+            displayName: localize("Visual_Animation"),
+            uid: "animation_group",
+            slices: [
+                {
+                    uid: "animation_enabled",
+                    displayName: localize("Visual_AnimateUpdates"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "animation", propertyName: "enabled" },
+                            value: settings.enabled
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "animation_duration",
+                    displayName: localize("Visual_AnimationDuration"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.NumUpDown,
+                        properties: {
+                            descriptor: { objectName: "animation", propertyName: "duration" },
+                            value: settings.durationMs,
+                            options: {
+                                minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+                                maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 1000 }
+                            }
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice
+            ]
+        }]
+    };
+}
+
+/**
+ * Creates the Accessibility card: whether screen readers also get the hidden data table
+ */
+export function createAccessibilityCard(settings: IAccessibilitySettings): powerbi.visuals.FormattingCard {
+    return {
+        displayName: localize("Visual_Accessibility"),
+        uid: "accessibility_card",
+        groups: [{
+            displayName: localize("Visual_Accessibility"),
+            uid: "accessibility_group",
+            slices: [
+                {
+                    uid: "accessibility_dataTable",
+                    displayName: localize("Visual_A11y_DataTable"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "accessibility", propertyName: "dataTable" },
+                            value: settings.dataTable
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice
+            ]
+        }]
+    };
+}
+
+/**
+ * Creates the Rendering card: SVG or canvas marks, and the mark count at which "Auto" switches
+ */
+export function createRenderingCard(settings: IRenderingSettings): powerbi.visuals.FormattingCard {
+    const slices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: "rendering_mode",
+            displayName: localize("Visual_RenderingMode"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName: "rendering", propertyName: "mode" },
+                    value: settings.mode
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (settings.mode === "auto") {
+        slices.push({
+            uid: "rendering_canvasThreshold",
+            displayName: localize("Visual_CanvasThreshold"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "rendering", propertyName: "canvasThreshold" },
+                    value: settings.canvasThreshold,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    return {
+        displayName: localize("Visual_Rendering"),
+        uid: "rendering_card",
+        groups: [{
+            displayName: localize("Visual_Rendering"),
+            uid: "rendering_group",
+            slices
+        }]
+    };
+}
+
+/**
+ * Creates the Data loading card: fetch rows past the first window, up to a row cap
+ */
+export function createDataLoadingCard(settings: IDataLoadingSettings): powerbi.visuals.FormattingCard {
+    const slices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: "dataLoading_loadAll",
+            displayName: localize("Visual_LoadAllData"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "dataLoading", propertyName: "loadAll" },
+                    value: settings.loadAll
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (settings.loadAll) {
+        slices.push({
+            uid: "dataLoading_maxRows",
+            displayName: localize("Visual_MaxRows"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "dataLoading", propertyName: "maxRows" },
+                    value: settings.maxRows,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    return {
+        displayName: localize("Visual_DataLoading"),
+        uid: "dataLoading_card",
+        groups: [{
+            displayName: localize("Visual_DataLoading"),
+            uid: "dataLoading_group",
+            slices
+        }]
+    };
+}
+
+function referenceLineSlices(objectName: string, line: IReferenceLineSettings): powerbi.visuals.FormattingSlice[] {
+    const slices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: `${objectName}_show`,
+            displayName: localize("Visual_Show"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName, propertyName: "show" },
+                    value: line.show
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: `${objectName}_type`,
+            displayName: localize("Visual_ReferenceLineType"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName, propertyName: "type" },
+                    value: line.type
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (line.type === "constant") {
+        slices.push({
+            uid: `${objectName}_value`,
+            displayName: localize("Visual_Value"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName, propertyName: "value" },
+                    value: line.value
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    } else if (line.type === "percentile") {
+        slices.push({
+            uid: `${objectName}_percentile`,
+            displayName: localize("Visual_Percentile"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName, propertyName: "percentile" },
+                    value: line.percentile,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    slices.push(
+        {
+            uid: `${objectName}_color`,
+            displayName: localize("Visual_Color"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ColorPicker,
+                properties: {
+                    descriptor: { objectName, propertyName: "color" },
+                    value: { value: line.color }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: `${objectName}_width`,
+            displayName: localize("Visual_LineWidth"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName, propertyName: "width" },
+                    value: line.width,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0.5 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 10 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: `${objectName}_style`,
+            displayName: localize("Visual_Style"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName, propertyName: "style" },
+                    value: line.style
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: `${objectName}_showLabel`,
+            displayName: localize("Visual_ShowLabel"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName, propertyName: "showLabel" },
+                    value: line.showLabel
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    );
+
+    if (line.showLabel) {
+        slices.push(
+            {
+                uid: `${objectName}_labelText`,
+                displayName: localize("Visual_LabelText"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.TextInput,
+                    properties: {
+                        descriptor: { objectName, propertyName: "labelText" },
+                        value: line.labelText,
+                        placeholder: localize("Visual_LabelTextPlaceholder")
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice,
+            {
+                uid: `${objectName}_labelPosition`,
+                displayName: localize("Visual_LabelPosition"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.Dropdown,
+                    properties: {
+                        descriptor: { objectName, propertyName: "labelPosition" },
+                        value: line.labelPosition
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice
+        );
+    }
+    return slices;
+}
+
+/**
+ * Creates the Reference Lines card: one group per line (`referenceLine1`, `referenceLine2`)
+ * and one for the shaded band (`referenceBand`).
+ */
+export function createReferenceLinesCard(settings: IReferenceLinesSettings): powerbi.visuals.FormattingCard {
+    const band = settings.band;
+    const bandSlices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: "referenceBand_show",
+            displayName: localize("Visual_Show"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "show" },
+                    value: band.show
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "referenceBand_from",
+            displayName: localize("Visual_From"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "from" },
+                    value: band.from
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "referenceBand_to",
+            displayName: localize("Visual_To"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "to" },
+                    value: band.to
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "referenceBand_color",
+            displayName: localize("Visual_Color"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ColorPicker,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "color" },
+                    value: { value: band.color }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "referenceBand_transparency",
+            displayName: localize("Visual_Transparency"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "transparency" },
+                    value: band.transparency,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "referenceBand_showLabel",
+            displayName: localize("Visual_ShowLabel"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "showLabel" },
+                    value: band.showLabel
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (band.showLabel) {
+        bandSlices.push({
+            uid: "referenceBand_labelText",
+            displayName: localize("Visual_LabelText"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.TextInput,
+                properties: {
+                    descriptor: { objectName: "referenceBand", propertyName: "labelText" },
+                    value: band.labelText,
+                    placeholder: localize("Visual_LabelTextPlaceholder")
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    return {
+        displayName: localize("Visual_ReferenceLines"),
+        uid: "referenceLines_card",
+        groups: [
+            {
+                displayName: localize("Visual_ReferenceLine1"),
+                uid: "referenceLine1_group",
+                slices: referenceLineSlices("referenceLine1", settings.lines[0])
+            },
+            {
+                displayName: localize("Visual_ReferenceLine2"),
+                uid: "referenceLine2_group",
+                slices: referenceLineSlices("referenceLine2", settings.lines[1])
+            },
+            {
+                displayName: localize("Visual_ReferenceBand"),
+                uid: "referenceBand_group",
+                slices: bandSlices
+            }
+        ]
+    };
+}
+
+/**
+ * Creates the Annotations card. Notes are entered one per line as "anchor | text".
+ */
+export function createAnnotationsCard(settings: IAnnotationSettings): powerbi.visuals.FormattingCard {
+    return {
+        displayName: localize("Visual_Annotations"),
+        uid: "annotations_card",
+        groups: [{
+            displayName: localize("Visual_Annotations"),
+            uid: "annotations_group",
+            slices: [
+                {
+                    uid: "annotations_show",
+                    displayName: localize("Visual_Show"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "show" },
+                            value: settings.show
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_items",
+                    displayName: localize("Visual_AnnotationItems"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.TextArea,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "items" },
+                            value: settings.items,
+                            placeholder: localize("Visual_AnnotationItemsPlaceholder")
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_style",
+                    displayName: localize("Visual_Style"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.Dropdown,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "style" },
+                            value: settings.style
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_color",
+                    displayName: localize("Visual_Color"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ColorPicker,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "color" },
+                            value: { value: settings.color }
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_fontSize",
+                    displayName: localize("Visual_FontSize"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.NumUpDown,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "fontSize" },
+                            value: settings.fontSize,
+                            options: {
+                                minValue: { type: powerbi.visuals.ValidatorType.Min, value: 6 },
+                                maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 24 }
+                            }
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_maxWidth",
+                    displayName: localize("Visual_MaxWidth"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.NumUpDown,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "maxWidth" },
+                            value: settings.maxWidth,
+                            options: {
+                                minValue: { type: powerbi.visuals.ValidatorType.Min, value: 40 },
+                                maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 400 }
+                            }
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "annotations_showConnector",
+                    displayName: localize("Visual_ShowConnector"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "annotations", propertyName: "showConnector" },
+                            value: settings.showConnector
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice
+            ]
+        }]
+    };
+}
+
+/**
+ * Creates the Crosshair card for visuals that mirror the hovered x value across small multiples.
+ */
+export function createCrosshairCard(settings: ICrosshairSettings): powerbi.visuals.FormattingCard {
+    return {
+        displayName: localize("Visual_Crosshair"),
+        uid: "crosshair_card",
+        groups: [{
+            displayName: localize("Visual_Crosshair"),
+            uid: "crosshair_group",
+            slices: [
+                {
+                    uid: "crosshair_sync",
+                    displayName: localize("Visual_SyncAcrossPanels"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "crosshair", propertyName: "sync" },
+                            value: settings.sync
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "crosshair_showValues",
+                    displayName: localize("Visual_ValueCallouts"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "crosshair", propertyName: "showValues" },
+                            value: settings.showValues
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice,
+                {
+                    uid: "crosshair_combinedTooltip",
+                    displayName: localize("Visual_CombinedTooltip"),
+                    control: {
+                        type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                        properties: {
+                            descriptor: { objectName: "crosshair", propertyName: "combinedTooltip" },
+                            value: settings.combinedTooltip
+                        }
+                    }
+                } as powerbi.visuals.FormattingSlice
+            ]
+        }]
+    };
+}
+
+/**
+ * Top-N card of the categorical visuals: how many categories to keep and how the rest are
+ * shown. Slices for the other mode and for a hidden "Others" item are left out.
+ */
+export function createTopNCard(settings: ITopNSettings): powerbi.visuals.FormattingCard {
+    const slices: powerbi.visuals.FormattingSlice[] = [
+        {
+            uid: "topN_show",
+            displayName: localize("Visual_Show"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+                properties: {
+                    descriptor: { objectName: "topN", propertyName: "show" },
+                    value: settings.show
+                }
+            }
+        } as powerbi.visuals.FormattingSlice,
+        {
+            uid: "topN_mode",
+            displayName: localize("Visual_TopNMode"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.Dropdown,
+                properties: {
+                    descriptor: { objectName: "topN", propertyName: "mode" },
+                    value: settings.mode
+                }
+            }
+        } as powerbi.visuals.FormattingSlice
+    ];
+
+    if (settings.mode === "percent") {
+        slices.push({
+            uid: "topN_minPercent",
+            displayName: localize("Visual_TopNMinPercent"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "topN", propertyName: "minPercent" },
+                    value: settings.minPercent,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    } else {
+        slices.push({
+            uid: "topN_count",
+            displayName: localize("Visual_TopNCount"),
+            control: {
+                type: powerbi.visuals.FormattingComponent.NumUpDown,
+                properties: {
+                    descriptor: { objectName: "topN", propertyName: "count" },
+                    value: settings.count,
+                    options: {
+                        minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+                        maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+                    }
+                }
+            }
+        } as powerbi.visuals.FormattingSlice);
+    }
+
+    slices.push({
+        uid: "topN_showOthers",
+        displayName: localize("Visual_ShowOthers"),
+        control: {
+            type: powerbi.visuals.FormattingComponent.ToggleSwitch,
+            properties: {
+                descriptor: { objectName: "topN", propertyName: "showOthers" },
+                value: settings.showOthers
+            }
+        }
+    } as powerbi.visuals.FormattingSlice);
+
+    if (settings.showOthers) {
+        slices.push(
+            {
+                uid: "topN_othersLabel",
+                displayName: localize("Visual_OthersLabel"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.TextInput,
+                    properties: {
+                        descriptor: { objectName: "topN", propertyName: "othersLabel" },
+                        value: settings.othersLabel,
+                        placeholder: localize("Visual_Others")
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice,
+            {
+                uid: "topN_othersColor",
+                displayName: localize("Visual_OthersColor"),
+                control: {
+                    type: powerbi.visuals.FormattingComponent.ColorPicker,
+                    properties: {
+                        descriptor: { objectName: "topN", propertyName: "othersColor" },
+                        value: { value: settings.othersColor }
+                    }
+                }
+            } as powerbi.visuals.FormattingSlice
+        );
+    }
+
+    return {
+        displayName: localize("Visual_TopN"),
+        uid: "topN_card",
+        groups: [{
+            displayName: localize("Visual_TopN"),
+            uid: "topN_group",
+            slices
+        }]
+    };
+}
+
 /**
  * Creates a Bump Chart Settings formatting card
  */
@@ -998,15 +1993,15 @@ export function createBumpChartSettingsCard(settings: {
     markerSize: number;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Bump Chart",
+        displayName: localize("Visual_BumpChart"),
         uid: "bumpChart_card",
         groups: [{
-            displayName: "Line Settings",
+            displayName: localize("Visual_LineSettings"),
             uid: "bumpChart_group",
             slices: [
                 {
                     uid: "bumpChart_lineThickness",
-                    displayName: "Line Thickness",
+                    displayName: localize("Visual_LineThickness"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1017,7 +2012,7 @@ export function createBumpChartSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bumpChart_showMarkers",
-                    displayName: "Show Markers",
+                    displayName: localize("Visual_ShowMarkers"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1028,7 +2023,7 @@ export function createBumpChartSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bumpChart_markerSize",
-                    displayName: "Marker Size",
+                    displayName: localize("Visual_MarkerSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1065,16 +2060,16 @@ export function createHeatmapSettingsCard(settings: {
     marginRight: number;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Heatmap",
+        displayName: localize("Visual_Heatmap"),
         uid: "heatmap_card",
         groups: [
             {
-                displayName: "Layout",
+                displayName: localize("Visual_Layout"),
                 uid: "heatmap_group",
                 slices: [
                     {
                     uid: "heatmap_cellPadding",
-                    displayName: "Cell Padding",
+                    displayName: localize("Visual_CellPadding"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1085,7 +2080,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_showValues",
-                    displayName: "Show Values",
+                    displayName: localize("Visual_ShowValues"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1096,7 +2091,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_enableHorizontalScroll",
-                    displayName: "Enable Horizontal Scroll",
+                    displayName: localize("Visual_EnableHorizontalScroll"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1107,7 +2102,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_enableVerticalScroll",
-                    displayName: "Enable Vertical Scroll",
+                    displayName: localize("Visual_EnableVerticalScroll"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1118,7 +2113,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_minCellWidth",
-                    displayName: "Minimum Cell Width (0 = Fit)",
+                    displayName: localize("Visual_MinimumCellWidth0Fit"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1129,7 +2124,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_horizontalAlignment",
-                    displayName: "Horizontal Alignment",
+                    displayName: localize("Visual_HorizontalAlignment"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1140,7 +2135,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_verticalAlignment",
-                    displayName: "Vertical Alignment",
+                    displayName: localize("Visual_VerticalAlignment"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1151,7 +2146,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_marginTop",
-                    displayName: "Top Margin",
+                    displayName: localize("Visual_TopMargin"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1162,7 +2157,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_marginBottom",
-                    displayName: "Bottom Margin",
+                    displayName: localize("Visual_BottomMargin"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1173,7 +2168,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_marginLeft",
-                    displayName: "Left Margin",
+                    displayName: localize("Visual_LeftMargin"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1184,7 +2179,7 @@ export function createHeatmapSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "heatmap_marginRight",
-                    displayName: "Right Margin",
+                    displayName: localize("Visual_RightMargin"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1196,12 +2191,12 @@ export function createHeatmapSettingsCard(settings: {
             ]
             },
             {
-                displayName: "Totals",
+                displayName: localize("Visual_Totals"),
                 uid: "heatmap_totals_group",
                 slices: [
                     {
                         uid: "heatmap_showRowTotals",
-                        displayName: "Show Totals Row",
+                        displayName: localize("Visual_ShowTotalsRow"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -1212,7 +2207,7 @@ export function createHeatmapSettingsCard(settings: {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "heatmap_rowTotalsPosition",
-                        displayName: "Totals Row Position",
+                        displayName: localize("Visual_TotalsRowPosition"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.Dropdown,
                             properties: {
@@ -1223,7 +2218,7 @@ export function createHeatmapSettingsCard(settings: {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "heatmap_showColumnTotals",
-                        displayName: "Show Totals Column",
+                        displayName: localize("Visual_ShowTotalsColumn"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -1234,7 +2229,7 @@ export function createHeatmapSettingsCard(settings: {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "heatmap_columnTotalsPosition",
-                        displayName: "Totals Column Position",
+                        displayName: localize("Visual_TotalsColumnPosition"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.Dropdown,
                             properties: {
@@ -1245,7 +2240,7 @@ export function createHeatmapSettingsCard(settings: {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "heatmap_showGrandTotalCell",
-                        displayName: "Show Grand Total Cell",
+                        displayName: localize("Visual_ShowGrandTotalCell"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -1256,7 +2251,7 @@ export function createHeatmapSettingsCard(settings: {
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "heatmap_showOverallTotalHeader",
-                        displayName: "Show Overall Total Header",
+                        displayName: localize("Visual_ShowOverallTotalHeader"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -1279,15 +2274,15 @@ export function createStreamgraphSettingsCard(settings: {
     opacity: number;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Streamgraph",
+        displayName: localize("Visual_Streamgraph"),
         uid: "streamgraph_card",
         groups: [{
-            displayName: "Appearance",
+            displayName: localize("Visual_Appearance"),
             uid: "streamgraph_group",
             slices: [
                 {
                     uid: "streamgraph_curveSmoothing",
-                    displayName: "Smooth Curves",
+                    displayName: localize("Visual_SmoothCurves"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1298,7 +2293,7 @@ export function createStreamgraphSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "streamgraph_opacity",
-                    displayName: "Opacity",
+                    displayName: localize("Visual_Opacity"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1326,15 +2321,15 @@ export function createBubbleSettingsCard(settings: {
     maxLabelFontSize: number;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Packed Bubble",
+        displayName: localize("Visual_PackedBubble"),
         uid: "bubble_card",
         groups: [{
-            displayName: "Bubbles",
+            displayName: localize("Visual_Bubbles"),
             uid: "bubble_group",
             slices: [
                 {
                     uid: "bubble_minBubbleSize",
-                    displayName: "Min Bubble Size",
+                    displayName: localize("Visual_MinBubbleSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1349,7 +2344,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_maxBubbleSize",
-                    displayName: "Max Bubble Size",
+                    displayName: localize("Visual_MaxBubbleSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1364,7 +2359,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_clusterByCategory",
-                    displayName: "Cluster by Category",
+                    displayName: localize("Visual_ClusterByCategory"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1375,7 +2370,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_showLabels",
-                    displayName: "Show Labels",
+                    displayName: localize("Visual_ShowLabels"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1386,7 +2381,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_labelSizeMode",
-                    displayName: "Label Size Mode",
+                    displayName: localize("Visual_LabelSizeMode"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1397,7 +2392,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_labelFontSize",
-                    displayName: "Label Font Size",
+                    displayName: localize("Visual_LabelFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1412,7 +2407,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_minLabelFontSize",
-                    displayName: "Min Label Font Size",
+                    displayName: localize("Visual_MinLabelFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1427,7 +2422,7 @@ export function createBubbleSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "bubble_maxLabelFontSize",
-                    displayName: "Max Label Font Size",
+                    displayName: localize("Visual_MaxLabelFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1454,15 +2449,15 @@ export function createCalendarSettingsCard(settings: {
     weekStartsOn: string;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Calendar Heatmap",
+        displayName: localize("Visual_CalendarHeatmap"),
         uid: "calendar_card",
         groups: [{
-            displayName: "Layout",
+            displayName: localize("Visual_Layout"),
             uid: "calendar_group",
             slices: [
                 {
                     uid: "calendar_cellSize",
-                    displayName: "Cell Size",
+                    displayName: localize("Visual_CellSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1473,7 +2468,7 @@ export function createCalendarSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "calendar_weekStartsOn",
-                    displayName: "Week Starts On",
+                    displayName: localize("Visual_WeekStartsOn"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1484,7 +2479,7 @@ export function createCalendarSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "calendar_showMonthLabels",
-                    displayName: "Show Month Labels",
+                    displayName: localize("Visual_ShowMonthLabels"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1510,15 +2505,15 @@ export function createDonutSettingsCard(settings: {
     showZeroSlices: boolean;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Donut Chart",
+        displayName: localize("Visual_DonutChart"),
         uid: "donut_card",
         groups: [{
-            displayName: "Appearance",
+            displayName: localize("Visual_Appearance"),
             uid: "donut_group",
             slices: [
                 {
                     uid: "donut_innerRadiusRatio",
-                    displayName: "Inner Radius",
+                    displayName: localize("Visual_InnerRadius"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1529,7 +2524,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_padAngle",
-                    displayName: "Slice Padding",
+                    displayName: localize("Visual_SlicePadding"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1540,7 +2535,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_cornerRadius",
-                    displayName: "Corner Radius",
+                    displayName: localize("Visual_CornerRadius"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1551,7 +2546,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 ...(settings.roundedCorners !== undefined ? [{
                     uid: "donut_roundedCorners",
-                    displayName: "Rounded Corners",
+                    displayName: localize("Visual_RoundedCorners"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1562,7 +2557,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice] : []),
                 {
                     uid: "donut_showCenter",
-                    displayName: "Show Center",
+                    displayName: localize("Visual_ShowCenter"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1573,7 +2568,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_centerLabel",
-                    displayName: "Center Label",
+                    displayName: localize("Visual_CenterLabel"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.TextInput,
                         properties: {
@@ -1584,7 +2579,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_centerValueMode",
-                    displayName: "Center Value",
+                    displayName: localize("Visual_CenterValue"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1595,7 +2590,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_enableHover",
-                    displayName: "Hover Highlight",
+                    displayName: localize("Visual_HoverHighlight"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1606,7 +2601,7 @@ export function createDonutSettingsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donut_showZeroSlices",
-                    displayName: "Show Zero Slices",
+                    displayName: localize("Visual_ShowZeroSlices"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1630,15 +2625,15 @@ export function createDonutLabelsCard(settings: {
     minLabelAngle: number;
 }): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Data Labels",
+        displayName: localize("Visual_DataLabels"),
         uid: "donutLabels_card",
         groups: [{
-            displayName: "Labels",
+            displayName: localize("Visual_Labels"),
             uid: "donutLabels_group",
             slices: [
                 {
                     uid: "donutLabels_showLabels",
-                    displayName: "Show Labels",
+                    displayName: localize("Visual_ShowLabels"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1649,7 +2644,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 ...(settings.autoFit !== undefined ? [{
                     uid: "donutLabels_autoFit",
-                    displayName: "Auto Fit",
+                    displayName: localize("Visual_AutoFit"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1660,7 +2655,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice] : []),
                 ...(settings.minFontSize !== undefined ? [{
                     uid: "donutLabels_minFontSize",
-                    displayName: "Min Font Size",
+                    displayName: localize("Visual_MinFontSize"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
@@ -1671,7 +2666,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice] : []),
                 ...(settings.overflowToOutside !== undefined ? [{
                     uid: "donutLabels_overflowToOutside",
-                    displayName: "Overflow To Outside",
+                    displayName: localize("Visual_OverflowToOutside"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                         properties: {
@@ -1682,7 +2677,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice] : []),
                 {
                     uid: "donutLabels_labelMode",
-                    displayName: "Label Content",
+                    displayName: localize("Visual_LabelContent"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1693,7 +2688,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donutLabels_labelPosition",
-                    displayName: "Label Position",
+                    displayName: localize("Visual_LabelPosition"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.Dropdown,
                         properties: {
@@ -1704,7 +2699,7 @@ export function createDonutLabelsCard(settings: {
                 } as powerbi.visuals.FormattingSlice,
                 {
                     uid: "donutLabels_minLabelAngle",
-                    displayName: "Min Slice Angle",
+                    displayName: localize("Visual_MinSliceAngle"),
                     control: {
                         type: powerbi.visuals.FormattingComponent.NumUpDown,
                         properties: {
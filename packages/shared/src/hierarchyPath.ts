@@ -0,0 +1,68 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataView = powerbi.DataView;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import { formatGroupValue } from "./utils";
+import { localize } from "./localization";
+
+/**
+ * Hierarchies for the treemap, sunburst and icicle.
+ *
+ * The hierarchy role takes either one column holding a delimited path ("Region > Country > City")
+ * or a model hierarchy / several fields. The role declares `drilldown`, so the host sends one
+ * category column per expanded level, top level first, and drives drill mode, "Expand all down
+ * one level" and drillthrough from selection ids built over every level column.
+ */
+export interface HierarchyLevels {
+    // Category columns of the role, top level first.
+    columns: DataViewCategoryColumn[];
+    // The host can drill the role: level values are taken as-is, never split on delimiters.
+    isDrillable: boolean;
+}
+
+export function splitHierarchyPath(raw: string): string[] {
+    return raw
+        .split(/>|\/|\|/g)
+        .map((p) => p.trim())
+        .filter(Boolean);
+}
+
+export function getHierarchyLevels(dataView: DataView, roleName: string): HierarchyLevels {
+    const categories = dataView.categorical?.categories ?? [];
+    const columns = categories.filter((c) => c.source.roles?.[roleName]);
+    const drillTypes = dataView.metadata?.dataRoles?.drillableRoles?.[roleName];
+    return {
+        columns: columns.length || !categories.length ? columns : [categories[0]],
+        isDrillable: (drillTypes?.length ?? 0) > 0
+    };
+}
+
+/**
+ * Node names from the root down for one row: one name per level column, or the split path
+ * string when the role holds a single plain column.
+ */
+export function getHierarchyRowPath(levels: HierarchyLevels, rowIndex: number): string[] {
+    if (levels.columns.length === 1 && !levels.isDrillable) {
+        return splitHierarchyPath(String(levels.columns[0].values[rowIndex] ?? localize("Visual_Blank")));
+    }
+    return levels.columns.map((column) => formatGroupValue(column.values[rowIndex]));
+}
+
+/**
+ * True when the host can add the next level of the role's hierarchy (`host.drill` with
+ * `DrillType.Down`), i.e. the data does not reach the bottom of the hierarchy yet.
+ */
+export function canDrillDown(dataView: DataView, roleName: string): boolean {
+    const dataRoles = dataView.metadata?.dataRoles;
+    if (!dataRoles || dataRoles.isDrillDisabled) return false;
+    return dataRoles.drillableRoles?.[roleName]?.includes(powerbi.DrillType.Down) ?? false;
+}
+
+/**
+ * True when every child of `node` is a leaf: zooming into it reaches the deepest level loaded.
+ */
+export function isDeepestLoadedLevel(node: { children?: Array<{ children?: unknown[] }> }): boolean {
+    const children = node.children ?? [];
+    return children.length > 0 && children.every((child) => !child.children?.length);
+}
@@ -124,3 +124,43 @@ export function getCategoricalHighlightState(
         highlightedRows
     };
 }
+
+// Opacity applied to the full-value mark that sits behind a highlighted portion.
+export const DIMMED_HIGHLIGHT_OPACITY = 0.3;
+
+export function getRowHighlightState(state: HighlightStateResult, rowIndex: number): RowHighlightState {
+    if (!state.hasIncomingHighlights) {
+        return "normal";
+    }
+    return state.isHighlightedRow(rowIndex) ? "highlighted" : "dimmed";
+}
+
+/**
+ * Returns the highlighted share of a row's value: the full value when nothing is highlighted,
+ * the host-provided highlight for highlighted rows and 0 for dimmed rows.
+ */
+export function getHighlightedRowValue(
+    state: HighlightStateResult,
+    column: DataViewValueColumn | undefined,
+    rowIndex: number,
+    fullValue: number
+): number {
+    const rowState = getRowHighlightState(state, rowIndex);
+    if (rowState === "normal") return fullValue;
+    if (rowState === "dimmed") return 0;
+
+    const raw = (column as any)?.highlights?.[rowIndex];
+    const highlightValue = raw === null || raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(highlightValue) ? highlightValue : fullValue;
+}
+
+/**
+ * Collapses the states of every row behind an aggregated mark: highlighted if any row is,
+ * dimmed if all rows are dimmed, normal when no highlights are active.
+ */
+export function mergeHighlightStates(current: RowHighlightState | undefined, next: RowHighlightState): RowHighlightState {
+    if (!current) return next;
+    if (current === "highlighted" || next === "highlighted") return "highlighted";
+    if (current === "dimmed" || next === "dimmed") return "dimmed";
+    return "normal";
+}
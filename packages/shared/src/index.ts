@@ -7,9 +7,27 @@ export * as d3 from './d3';
 export * from './BaseRenderer';
 export * from './settings';
 export * from './utils';
+export * from './formatString';
+export * from './displayUnits';
+export * from './transitions';
+export * from './canvasMarks';
+export * from './segmentedLoading';
+export * from './theme';
+export * from './colorScale';
 export * from './formattingUtils';
 export * from './textUtils';
 export * from './emptyState';
 export * from './tooltip';
 export * from './selection';
 export * from './highlight';
+export * from './conditionalFormatting';
+export * from './focus';
+export * from './accessibility';
+export * from './localization';
+export * from './viewState';
+export * from './hierarchyPath';
+export * from './referenceLines';
+export * from './annotations';
+export * from './smallMultiples';
+export * from './crosshair';
+export * from './topN';
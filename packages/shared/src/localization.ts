@@ -0,0 +1,38 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+type ILocalizationManager = powerbi.extensibility.ILocalizationManager;
+
+declare const require: any;
+// Bundled English strings double as the fallback when the host has no entry for a key.
+const defaultStrings: Record<string, string> = require("../stringResources/en-US.json").values;
+
+let localizationManager: ILocalizationManager | null = null;
+
+/**
+ * Registers the host's localization manager. Visuals call this once from their constructor,
+ * before anything is rendered, so strings resolved later follow the report's locale.
+ */
+export function setLocalizationManager(manager: ILocalizationManager | null): void {
+    localizationManager = manager;
+}
+
+export function localize(key: string): string {
+    const localized = localizationManager?.getDisplayName(key);
+    // The host echoes the key back when the current locale has no entry for it.
+    if (localized && localized !== key) {
+        return localized;
+    }
+    return defaultStrings[key] ?? key;
+}
+
+/**
+ * Resolves `key` and substitutes `{0}`, `{1}`, … with `args`, so translations can
+ * reorder the inserted values.
+ */
+export function localizeFormat(key: string, ...args: Array<string | number>): string {
+    return localize(key).replace(/\{(\d+)\}/g, (match, index: string) => {
+        const arg = args[Number(index)];
+        return arg === undefined ? match : String(arg);
+    });
+}
@@ -0,0 +1,254 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataView = powerbi.DataView;
+import DataViewObjects = powerbi.DataViewObjects;
+import DataViewObject = powerbi.DataViewObject;
+import {
+    IReferenceBandSettings,
+    IReferenceLineSettings,
+    IReferenceLinesSettings,
+    ReferenceLabelPosition,
+    ReferenceLineStyle,
+    ReferenceLineType,
+    defaultReferenceBandSettings,
+    defaultReferenceLineSettings
+} from "./settings";
+import { quantileSorted } from "./colorScale";
+import { localize, localizeFormat } from "./localization";
+
+/**
+ * Analytics-pane style reference lines for axis-based charts.
+ *
+ * Each visual offers two lines (objects `referenceLine1` / `referenceLine2`) and one shaded
+ * band (`referenceBand`) on its value axis. A line is a constant, the value of the measure in
+ * the Reference value role (e.g. a target), or a statistic of the plotted values: average,
+ * median, a percentile, min or max. Renderers resolve the settings against their panel's
+ * values with `BaseRenderer.getReferenceLines`, widen their value domain with
+ * `includeReferenceLines` so targets beyond the data stay visible, and draw the result with
+ * `BaseRenderer.renderReferenceLines`.
+ */
+
+export const REFERENCE_LINE_OBJECTS = ["referenceLine1", "referenceLine2"];
+export const REFERENCE_BAND_OBJECT = "referenceBand";
+export const REFERENCE_VALUE_ROLE = "referenceValue";
+
+const LINE_TYPES: ReferenceLineType[] = ["constant", "measure", "average", "median", "percentile", "min", "max"];
+const LINE_STYLES: ReferenceLineStyle[] = ["solid", "dashed", "dotted"];
+const LABEL_POSITIONS: ReferenceLabelPosition[] = ["start", "end"];
+
+// Value of the measure in the Reference value role.
+export interface ReferenceMeasure {
+    value: number;
+    displayName: string;
+}
+
+export interface ResolvedReferenceLine {
+    value: number;
+    // "" when the label is off.
+    label: string;
+    settings: IReferenceLineSettings;
+}
+
+export interface ResolvedReferenceBand {
+    from: number;
+    to: number;
+    label: string;
+    settings: IReferenceBandSettings;
+}
+
+export interface ResolvedReferenceLines {
+    lines: ResolvedReferenceLine[];
+    band: ResolvedReferenceBand | null;
+}
+
+export function createDefaultReferenceLinesSettings(): IReferenceLinesSettings {
+    return {
+        lines: REFERENCE_LINE_OBJECTS.map(() => ({ ...defaultReferenceLineSettings })),
+        band: { ...defaultReferenceBandSettings }
+    };
+}
+
+function readNumber(obj: DataViewObject, name: string): number | undefined {
+    const value = obj[name];
+    return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function readColor(obj: DataViewObject, name: string): string | undefined {
+    return (obj[name] as { solid?: { color?: string } } | undefined)?.solid?.color;
+}
+
+function parseLine(obj: DataViewObject | undefined): IReferenceLineSettings {
+    const line: IReferenceLineSettings = { ...defaultReferenceLineSettings };
+    if (!obj) {
+        return line;
+    }
+
+    if (typeof obj["show"] === "boolean") line.show = obj["show"];
+    const type = obj["type"] as ReferenceLineType | undefined;
+    if (type && LINE_TYPES.includes(type)) line.type = type;
+    line.value = readNumber(obj, "value") ?? line.value;
+    const percentile = readNumber(obj, "percentile");
+    if (percentile !== undefined) line.percentile = Math.max(0, Math.min(100, percentile));
+    line.color = readColor(obj, "color") ?? line.color;
+    const width = readNumber(obj, "width");
+    if (width !== undefined) line.width = Math.max(0.5, Math.min(10, width));
+    const style = obj["style"] as ReferenceLineStyle | undefined;
+    if (style && LINE_STYLES.includes(style)) line.style = style;
+    if (typeof obj["showLabel"] === "boolean") line.showLabel = obj["showLabel"];
+    if (typeof obj["labelText"] === "string") line.labelText = obj["labelText"];
+    const labelPosition = obj["labelPosition"] as ReferenceLabelPosition | undefined;
+    if (labelPosition && LABEL_POSITIONS.includes(labelPosition)) line.labelPosition = labelPosition;
+    return line;
+}
+
+export function parseReferenceLinesSettings(objects: DataViewObjects | undefined): IReferenceLinesSettings {
+    const settings: IReferenceLinesSettings = {
+        lines: REFERENCE_LINE_OBJECTS.map((objectName) => parseLine(objects?.[objectName])),
+        band: { ...defaultReferenceBandSettings }
+    };
+
+    const obj = objects?.[REFERENCE_BAND_OBJECT];
+    if (!obj) {
+        return settings;
+    }
+    const band = settings.band;
+    if (typeof obj["show"] === "boolean") band.show = obj["show"];
+    band.from = readNumber(obj, "from") ?? band.from;
+    band.to = readNumber(obj, "to") ?? band.to;
+    band.color = readColor(obj, "color") ?? band.color;
+    const transparency = readNumber(obj, "transparency");
+    if (transparency !== undefined) band.transparency = Math.max(0, Math.min(100, transparency));
+    if (typeof obj["showLabel"] === "boolean") band.showLabel = obj["showLabel"];
+    if (typeof obj["labelText"] === "string") band.labelText = obj["labelText"];
+    return settings;
+}
+
+/**
+ * Reads the Reference value measure from a categorical or table data view. A measure that
+ * varies by category (it is evaluated per row) resolves to the average of its values.
+ */
+export function readReferenceMeasure(dataView: DataView | undefined): ReferenceMeasure | undefined {
+    const found: number[] = [];
+    let displayName = "";
+
+    const valueColumns = dataView?.categorical?.values ?? [];
+    valueColumns.forEach((column) => {
+        if (!column.source.roles?.[REFERENCE_VALUE_ROLE]) return;
+        displayName = displayName || column.source.displayName;
+        column.values.forEach((value) => found.push(Number(value)));
+    });
+
+    const table = dataView?.table;
+    if (!valueColumns.length && table?.columns?.length) {
+        const index = table.columns.findIndex((column) => column.roles?.[REFERENCE_VALUE_ROLE]);
+        if (index >= 0) {
+            displayName = table.columns[index].displayName;
+            table.rows?.forEach((row) => found.push(Number(row[index])));
+        }
+    }
+
+    const finite = found.filter((value) => Number.isFinite(value));
+    if (!finite.length) {
+        return undefined;
+    }
+    return { value: finite.reduce((sum, value) => sum + value, 0) / finite.length, displayName };
+}
+
+function resolveLineValue(line: IReferenceLineSettings, sorted: number[], measure: ReferenceMeasure | undefined): number | null {
+    switch (line.type) {
+        case "constant":
+            return line.value;
+        case "measure":
+            return measure?.value ?? null;
+        default:
+            break;
+    }
+    if (!sorted.length) return null;
+    switch (line.type) {
+        case "average":
+            return sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+        case "median":
+            return quantileSorted(sorted, 0.5);
+        case "percentile":
+            return quantileSorted(sorted, line.percentile / 100);
+        case "min":
+            return sorted[0];
+        case "max":
+            return sorted[sorted.length - 1];
+        default:
+            return null;
+    }
+}
+
+function defaultLineName(line: IReferenceLineSettings, measure: ReferenceMeasure | undefined): string {
+    switch (line.type) {
+        case "measure":
+            return measure?.displayName ?? "";
+        case "average":
+            return localize("Visual_Midpoint_Average");
+        case "median":
+            return localize("Visual_Midpoint_Median");
+        case "percentile":
+            return localizeFormat("Visual_PercentileLabel", String(line.percentile));
+        case "min":
+            return localize("Visual_Min");
+        case "max":
+            return localize("Visual_Max");
+        default:
+            return "";
+    }
+}
+
+/**
+ * Turns the settings into values on the value axis. `values` are the values plotted on that
+ * axis in one panel; `format` renders a value for the labels (e.g. a display-unit formatter).
+ */
+export function resolveReferenceLines(
+    settings: IReferenceLinesSettings,
+    values: number[],
+    measure: ReferenceMeasure | undefined,
+    format: (value: number) => string
+): ResolvedReferenceLines {
+    const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+
+    const lines: ResolvedReferenceLine[] = [];
+    settings.lines.forEach((line) => {
+        if (!line.show) return;
+        const value = resolveLineValue(line, sorted, measure);
+        if (value === null || !Number.isFinite(value)) return;
+        const name = line.labelText.trim() || defaultLineName(line, measure);
+        lines.push({
+            value,
+            label: line.showLabel ? (name ? `${name}: ${format(value)}` : format(value)) : "",
+            settings: line
+        });
+    });
+
+    const band = settings.band;
+    const hasBand = band.show && band.from !== band.to;
+    return {
+        lines,
+        band: hasBand ? {
+            from: Math.min(band.from, band.to),
+            to: Math.max(band.from, band.to),
+            label: band.showLabel ? band.labelText.trim() || `${format(Math.min(band.from, band.to))} – ${format(Math.max(band.from, band.to))}` : "",
+            settings: band
+        } : null
+    };
+}
+
+/**
+ * Widens a value-axis domain so every reference line and the band are on the axis. Statistic
+ * lines always fall within the data, so lines resolved without values (constants, the measure
+ * and the band) are enough to size a domain shared by several panels.
+ */
+export function includeReferenceLines(domain: [number, number], resolved: ResolvedReferenceLines | null): [number, number] {
+    if (!resolved) return domain;
+    const values = [
+        ...resolved.lines.map((line) => line.value),
+        ...(resolved.band ? [resolved.band.from, resolved.band.to] : [])
+    ];
+    if (!values.length) return domain;
+    return [Math.min(domain[0], ...values), Math.max(domain[1], ...values)];
+}
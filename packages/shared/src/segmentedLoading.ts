@@ -0,0 +1,148 @@
+"use strict";
+
+import * as d3 from "./d3";
+import powerbi from "powerbi-visuals-api";
+import DataView = powerbi.DataView;
+import DataViewObjects = powerbi.DataViewObjects;
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
+import { IDataLoadingSettings, defaultDataLoadingSettings } from "./settings";
+import { formatMeasureValue } from "./utils";
+import { renderEmptyState } from "./emptyState";
+import { localize, localizeFormat } from "./localization";
+
+/**
+ * Incremental loading beyond the first data window.
+ *
+ * With a `window` data reduction the host sends the first window of rows and marks the data
+ * view with `metadata.segment` while more rows exist. `SegmentedDataLoader` asks for the next
+ * window with `host.fetchMoreData(true)`; the host appends it to the rows it already sent, so
+ * the next `update()` carries every segment so far. The visual renders (and runs its
+ * transformer) only once the data is complete or the row cap is reached.
+ */
+
+export type DataLoadStatus = "loading" | "complete" | "truncated";
+
+export interface DataLoadResult {
+    status: DataLoadStatus;
+    rowCount: number;
+}
+
+export function parseDataLoadingSettings(objects: DataViewObjects | undefined): IDataLoadingSettings {
+    const settings: IDataLoadingSettings = { ...defaultDataLoadingSettings };
+    const obj = objects?.["dataLoading"];
+    if (!obj) {
+        return settings;
+    }
+
+    if (typeof obj["loadAll"] === "boolean") {
+        settings.loadAll = obj["loadAll"];
+    }
+    const maxRows = Number(obj["maxRows"]);
+    if (obj["maxRows"] !== undefined && Number.isFinite(maxRows)) {
+        settings.maxRows = Math.max(0, Math.round(maxRows));
+    }
+    return settings;
+}
+
+export function getDataViewRowCount(dataView: DataView | undefined): number {
+    if (!dataView) return 0;
+    const categories = dataView.categorical?.categories;
+    if (categories?.length) {
+        return categories[0].values.length;
+    }
+    const values = dataView.categorical?.values;
+    if (values?.length) {
+        return values[0].values.length;
+    }
+    return dataView.table?.rows?.length ?? 0;
+}
+
+/**
+ * One per visual. Call `load` at the top of `update()`, after the settings are parsed:
+ * "loading" means another segment was requested and the update should only show progress.
+ */
+export class SegmentedDataLoader {
+    // Rows present when the pending segment was requested; null when no request is pending.
+    private requestedAtRowCount: number | null = null;
+
+    constructor(private readonly host: IVisualHost) { }
+
+    public load(options: VisualUpdateOptions, settings: IDataLoadingSettings): DataLoadResult {
+        const dataView = options.dataViews?.[0];
+        const rowCount = getDataViewRowCount(dataView);
+        if (!dataView?.metadata?.segment) {
+            this.requestedAtRowCount = null;
+            return { status: "complete", rowCount };
+        }
+
+        // Resizes and formatting changes arrive before the requested segment; keep waiting for it.
+        const isNewQuery = options.operationKind === powerbi.VisualDataChangeOperationKind.Create
+            && (options.type & powerbi.VisualUpdateType.Data) !== 0;
+        if (this.requestedAtRowCount !== null && rowCount <= this.requestedAtRowCount && !isNewQuery) {
+            return { status: "loading", rowCount };
+        }
+
+        if (settings.loadAll && rowCount < settings.maxRows && this.host.fetchMoreData(true)) {
+            this.requestedAtRowCount = rowCount;
+            return { status: "loading", rowCount };
+        }
+
+        // The cap is reached, loading is off, or the host declined (e.g. its memory limit).
+        this.requestedAtRowCount = null;
+        return { status: "truncated", rowCount };
+    }
+}
+
+/**
+ * Progress message shown while segments are on their way.
+ */
+export function renderDataLoading(
+    container: d3.Selection<SVGGElement, unknown, null, undefined>,
+    width: number,
+    height: number,
+    rowCount: number
+): void {
+    renderEmptyState(container, width, height, {
+        title: localize("Visual_LoadingData"),
+        lines: [localizeFormat("Visual_RowsLoaded", formatMeasureValue(rowCount, "#,0"))]
+    });
+}
+
+/**
+ * Badge in the top-right corner telling the user the chart shows only the first `rowCount` rows.
+ */
+export function renderTruncatedBadge(
+    container: d3.Selection<SVGGElement, unknown, null, undefined>,
+    width: number,
+    rowCount: number
+): void {
+    const fontSize = 10;
+    const padX = 6;
+    const label = `⚠ ${localizeFormat("Visual_DataTruncated", formatMeasureValue(rowCount, "#,0"))}`;
+
+    const badge = container.append("g")
+        .attr("class", "data-truncated-badge")
+        .attr("role", "status");
+    badge.append("title").text(localize("Visual_DataTruncatedHint"));
+
+    const text = badge.append("text")
+        .attr("x", Math.round(width - 8 - padX))
+        .attr("y", 8 + fontSize + 2)
+        .attr("text-anchor", "end")
+        .attr("font-size", `${fontSize}px`)
+        .attr("font-weight", "600")
+        .attr("fill", "#92400e")
+        .text(label);
+
+    const textWidth = (text.node() as SVGTextElement | null)?.getComputedTextLength?.() || label.length * fontSize * 0.55;
+    badge.insert("rect", "text")
+        .attr("x", Math.round(width - 8 - padX * 2 - textWidth))
+        .attr("y", 8)
+        .attr("width", Math.round(textWidth + padX * 2))
+        .attr("height", fontSize + 8)
+        .attr("rx", 4)
+        .attr("fill", "#fef3c7")
+        .attr("stroke", "#f59e0b")
+        .attr("stroke-width", 1);
+}
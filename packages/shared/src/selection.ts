@@ -2,20 +2,65 @@
 
 import powerbi from "powerbi-visuals-api";
 import ISelectionId = powerbi.extensibility.ISelectionId;
+import ISelectionIdBuilder = powerbi.extensibility.ISelectionIdBuilder;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import DataViewTable = powerbi.DataViewTable;
+import { CanvasMark, CanvasMarkLayer } from "./canvasMarks";
+
+/**
+ * Factory for fresh selection id builders (usually `() => host.createSelectionIdBuilder()`).
+ * Transformers receive this instead of the host so they stay free of visual state.
+ */
+export type SelectionIdBuilderFactory = () => ISelectionIdBuilder;
+
+/**
+ * A mark can stand for a single data row or for an aggregate of many rows
+ * (a histogram bin, a chord arc, a treemap parent), so keys map to one or more ids.
+ */
+export type SelectionIdsByKey = Map<string, ISelectionId | ISelectionId[]>;
 
 export interface SelectionBindingOptions {
     root: HTMLElement;
     selectionManager: ISelectionManager;
     markSelector: string;
-    selectionIdsByKey: Map<string, ISelectionId>;
+    selectionIdsByKey: SelectionIdsByKey;
     dataKeyAttr?: string;
     dimOpacity?: number;
     selectedOpacity?: number;
     matchByIncludes?: boolean;
     preserveOpacityWhenNoMatches?: boolean;
+    // Legend items (`renderLegend` swatches) to make interactive; see `bindLegendInteractions`.
+    legendItemSelector?: string;
+    // Marks drawn on canvas (`BaseRenderer.createCanvasLayer`); they select and dim like SVG marks.
+    canvasLayers?: CanvasMarkLayer[];
+}
+
+export interface LegendBindingOptions {
+    root: HTMLElement;
+    // Marks the legend controls. A mark belongs to the legend item whose `data-legend-key` it shares.
+    markSelector: string;
+    dataKeyAttr?: string;
+    legendItemSelector?: string;
+    dimOpacity?: number;
+    // Click on a legend item, with the data keys of every mark in that category.
+    onSelect?: (dataKeys: string[], isMultiSelect: boolean) => void;
+    // Puts marks back into their selection state when the pointer leaves a legend item.
+    onHoverEnd: () => void;
+    canvasLayers?: CanvasMarkLayer[];
+}
+
+export interface ContextMenuBindingOptions {
+    root: HTMLElement;
+    selectionManager: ISelectionManager;
+    // Identity for blank space (`host.createSelectionIdBuilder().createSelectionId()`).
+    emptySelectionId: ISelectionId;
+    // Mark identity for visuals whose marks are not bound through `bindSelectionByDataKey`.
+    resolveSelectionId?: (target: Element) => ISelectionId | null;
 }
 
+export const LEGEND_ITEM_SELECTOR = ".color-legend-item[data-legend-key]";
+
 export function getSelectionIdentityKey(selectionId: ISelectionId): string {
     const anySelectionId = selectionId as any;
     if (typeof anySelectionId?.getKey === "function") {
@@ -31,6 +76,49 @@ export function getSelectionIdentityKey(selectionId: ISelectionId): string {
     return String(anySelectionId);
 }
 
+/**
+ * Builds the identity of a categorical row from every grouping column that defines it.
+ */
+export function createCategoryRowSelectionId(
+    createBuilder: SelectionIdBuilderFactory,
+    columns: Array<DataViewCategoryColumn | undefined>,
+    rowIndex: number
+): ISelectionId {
+    let builder = createBuilder();
+    columns.forEach((column) => {
+        if (column) {
+            builder = builder.withCategory(column, rowIndex);
+        }
+    });
+    return builder.createSelectionId();
+}
+
+export function createTableRowSelectionId(
+    createBuilder: SelectionIdBuilderFactory,
+    table: DataViewTable,
+    rowIndex: number
+): ISelectionId {
+    return createBuilder().withTable(table, rowIndex).createSelectionId();
+}
+
+export function addSelectionIdForKey(
+    target: Map<string, ISelectionId[]>,
+    key: string,
+    selectionId: ISelectionId
+): void {
+    const ids = target.get(key);
+    if (ids) {
+        ids.push(selectionId);
+    } else {
+        target.set(key, [selectionId]);
+    }
+}
+
+function toSelectionIdList(value: ISelectionId | ISelectionId[] | undefined): ISelectionId[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
 function stableStringify(value: any): string {
     if (value === null || typeof value !== "object") {
         return JSON.stringify(value);
@@ -102,19 +190,25 @@ export function bindSelectionByDataKey(options: SelectionBindingOptions): {
     const getSelectedKeys = (ids: ISelectionId[]): Set<string> => {
         if (!ids || ids.length === 0) return new Set<string>();
         const selectedDataKeys = new Set<string>();
-        options.selectionIdsByKey.forEach((selectionId, dataKey) => {
-            if (ids.some((selectedId) => selectionIdsMatch(selectedId, selectionId))) {
+        options.selectionIdsByKey.forEach((value, dataKey) => {
+            const markIds = toSelectionIdList(value);
+            if (markIds.some((markId) => ids.some((selectedId) => selectionIdsMatch(selectedId, markId)))) {
                 selectedDataKeys.add(dataKey);
             }
         });
         return selectedDataKeys;
     };
 
+    let currentIds: ISelectionId[] = [];
+    let legend: { applySelection: (selectedDataKeys: Set<string>) => void } | null = null;
+
     const applySelection = (ids: ISelectionId[]): void => {
+        currentIds = ids ?? [];
         const selectedKeys = getSelectedKeys(ids);
         if (preserveOpacityWhenNoMatches && (ids?.length ?? 0) > 0 && selectedKeys.size === 0) {
             return;
         }
+        legend?.applySelection(selectedKeys);
         const marks = options.root.querySelectorAll<SVGElement>(options.markSelector);
         marks.forEach(mark => {
             const dataKey = mark.getAttribute(dataKeyAttr);
@@ -126,6 +220,23 @@ export function bindSelectionByDataKey(options: SelectionBindingOptions): {
                 ? ""
                 : (selectedKeys.has(dataKey) ? String(selectedOpacity) : String(dimOpacity));
         });
+        options.canvasLayers?.forEach((layer) => layer.setOpacity(selectedKeys.size === 0
+            ? null
+            : (mark) => !mark.key ? 1 : (selectedKeys.has(mark.key) ? selectedOpacity : dimOpacity)));
+    };
+
+    const selectMark = (markIds: ISelectionId[], event: MouseEvent): void => {
+        const isMultiSelect = event.ctrlKey || event.metaKey;
+        options.selectionManager
+            .select(markIds.length === 1 ? markIds[0] : markIds, isMultiSelect)
+            .then(ids => applySelection(ids))
+            .catch(() => undefined);
+    };
+
+    const showMarkContextMenu = (markIds: ISelectionId[], event: MouseEvent): void => {
+        options.selectionManager
+            .showContextMenu(markIds[0], { x: event.clientX, y: event.clientY })
+            .catch(() => undefined);
     };
 
     const marks = options.root.querySelectorAll<SVGElement>(options.markSelector);
@@ -133,28 +244,161 @@ export function bindSelectionByDataKey(options: SelectionBindingOptions): {
         const dataKey = mark.getAttribute(dataKeyAttr);
         if (!dataKey) return;
 
-        const selectionId = options.selectionIdsByKey.get(dataKey);
-        if (!selectionId) return;
+        const markIds = toSelectionIdList(options.selectionIdsByKey.get(dataKey));
+        if (!markIds.length) return;
 
         mark.style.cursor = "pointer";
 
         mark.addEventListener("click", (event: MouseEvent) => {
             event.stopPropagation();
-            const isMultiSelect = event.ctrlKey || event.metaKey;
-            options.selectionManager
-                .select(selectionId, isMultiSelect)
-                .then(ids => applySelection(ids))
-                .catch(() => undefined);
+            selectMark(markIds, event);
         });
 
         mark.addEventListener("contextmenu", (event: MouseEvent) => {
             event.preventDefault();
             event.stopPropagation();
+            showMarkContextMenu(markIds, event);
+        });
+    });
+
+    // Canvas marks without selection ids leave the event to the background handlers, like SVG marks.
+    const canvasMarkIds = (mark: CanvasMark): ISelectionId[] =>
+        mark.key ? toSelectionIdList(options.selectionIdsByKey.get(mark.key)) : [];
+    options.canvasLayers?.forEach((layer) => {
+        layer.on("click", (mark, event) => {
+            const markIds = canvasMarkIds(mark);
+            if (markIds.length) selectMark(markIds, event);
+            return markIds.length > 0;
+        });
+        layer.on("contextmenu", (mark, event) => {
+            const markIds = canvasMarkIds(mark);
+            if (markIds.length) showMarkContextMenu(markIds, event);
+            return markIds.length > 0;
+        });
+    });
+
+    legend = bindLegendInteractions({
+        root: options.root,
+        markSelector: options.markSelector,
+        dataKeyAttr,
+        legendItemSelector: options.legendItemSelector,
+        dimOpacity,
+        canvasLayers: options.canvasLayers,
+        onSelect: (dataKeys, isMultiSelect) => {
+            const ids = dataKeys.flatMap((dataKey) => toSelectionIdList(options.selectionIdsByKey.get(dataKey)));
+            if (!ids.length) return;
             options.selectionManager
-                .showContextMenu(selectionId, { x: event.clientX, y: event.clientY })
+                .select(ids, isMultiSelect)
+                .then(selected => applySelection(selected))
                 .catch(() => undefined);
-        });
+        },
+        onHoverEnd: () => applySelection(currentIds)
     });
 
     return { applySelection };
 }
+
+/**
+ * Opens the Power BI context menu (Show as table, Include/Exclude, drillthrough) anywhere in the
+ * visual. Bind once in the constructor: the listener sits on `root`, so it survives redraws and
+ * also covers the landing page. Marks bound by `bindSelectionByDataKey` (SVG or canvas) open
+ * the menu for their own selection id and stop the event; everything else reaching `root`
+ * (blank space, axes, legends, marks without ids) uses `resolveSelectionId` or the empty id.
+ */
+export function bindContextMenu(options: ContextMenuBindingOptions): void {
+    options.root.addEventListener("contextmenu", (event: MouseEvent) => {
+        if (event.defaultPrevented) return;
+        const target = event.target instanceof Element ? event.target : null;
+        const selectionId = (target && options.resolveSelectionId?.(target)) || options.emptySelectionId;
+
+        event.preventDefault();
+        options.selectionManager
+            .showContextMenu(selectionId, { x: event.clientX, y: event.clientY })
+            .catch(() => undefined);
+    });
+}
+
+/**
+ * Makes `renderLegend` items interactive. Hovering an item emphasizes its marks and dims the
+ * rest; clicking hands the category's mark keys to `onSelect` (Ctrl/Cmd adds to the selection).
+ * `applySelection` mirrors mark selection onto the legend: items with a selected mark stay
+ * opaque, the others dim. Marks without `data-legend-key` fall back to their data key, which
+ * covers visuals keyed by series or category; items without any marks stay inert.
+ */
+export function bindLegendInteractions(options: LegendBindingOptions): {
+    applySelection: (selectedDataKeys: Set<string>) => void;
+} {
+    const dataKeyAttr = options.dataKeyAttr ?? "data-selection-key";
+    const dimOpacity = options.dimOpacity ?? 0.25;
+    const items = Array.from(options.root.querySelectorAll<SVGElement>(options.legendItemSelector ?? LEGEND_ITEM_SELECTOR));
+    const marks = Array.from(options.root.querySelectorAll<SVGElement>(options.markSelector));
+    const canvasLayers = options.canvasLayers ?? [];
+    const legendKeyOf = (mark: SVGElement): string | null =>
+        mark.getAttribute("data-legend-key") ?? mark.getAttribute(dataKeyAttr);
+    const canvasLegendKeyOf = (mark: CanvasMark): string => mark.legendKey ?? mark.key;
+
+    const keysByLegend = new Map<string, string[]>();
+    const addLegendKey = (legendKey: string | null, dataKey: string | null): void => {
+        if (legendKey === null || !dataKey) return;
+        const keys = keysByLegend.get(legendKey);
+        if (keys) {
+            if (!keys.includes(dataKey)) keys.push(dataKey);
+        } else {
+            keysByLegend.set(legendKey, [dataKey]);
+        }
+    };
+    marks.forEach((mark) => addLegendKey(legendKeyOf(mark), mark.getAttribute(dataKeyAttr)));
+    canvasLayers.forEach((layer) => layer.getMarks().forEach((mark) => addLegendKey(canvasLegendKeyOf(mark), mark.key)));
+
+    let selectedKeys = new Set<string>();
+    const applyLegendState = (): void => {
+        items.forEach((item) => {
+            const dataKeys = keysByLegend.get(item.getAttribute("data-legend-key") ?? "") ?? [];
+            const isSelected = dataKeys.some((dataKey) => selectedKeys.has(dataKey));
+            item.style.opacity = selectedKeys.size === 0 || isSelected ? "" : String(Math.max(dimOpacity, 0.4));
+            if (options.onSelect) {
+                item.setAttribute("aria-pressed", String(selectedKeys.size > 0 && isSelected));
+            }
+        });
+    };
+
+    items.forEach((item) => {
+        const legendKey = item.getAttribute("data-legend-key") ?? "";
+        if (!marks.some((mark) => legendKeyOf(mark) === legendKey)
+            && !canvasLayers.some((layer) => layer.getMarks().some((mark) => canvasLegendKeyOf(mark) === legendKey))) return;
+
+        item.style.cursor = options.onSelect ? "pointer" : "default";
+
+        item.addEventListener("mouseenter", () => {
+            marks.forEach((mark) => {
+                mark.style.opacity = legendKeyOf(mark) === legendKey ? "1" : String(dimOpacity);
+            });
+            canvasLayers.forEach((layer) => layer.setOpacity((mark) => !mark.key || canvasLegendKeyOf(mark) === legendKey ? 1 : dimOpacity));
+            items.forEach((other) => {
+                other.style.opacity = other === item ? "1" : "0.5";
+            });
+        });
+
+        item.addEventListener("mouseleave", () => {
+            canvasLayers.forEach((layer) => layer.setOpacity(null));
+            options.onHoverEnd();
+            applyLegendState();
+        });
+
+        item.addEventListener("click", (event: MouseEvent) => {
+            // Keep the visual's background handler from clearing the selection.
+            event.stopPropagation();
+            const dataKeys = keysByLegend.get(legendKey);
+            if (options.onSelect && dataKeys?.length) {
+                options.onSelect(dataKeys, event.ctrlKey || event.metaKey);
+            }
+        });
+    });
+
+    return {
+        applySelection: (selectedDataKeys: Set<string>) => {
+            selectedKeys = selectedDataKeys;
+            applyLegendState();
+        }
+    };
+}
@@ -4,7 +4,10 @@
 export type ColorScheme =
     | "blues" | "greens" | "reds" | "purples" | "warm"
     | "oranges" | "teals" | "pinks"      // NEW single-hue
-    | "rainbow" | "pastel" | "vibrant";  // NEW multi-color
+    | "rainbow" | "pastel" | "vibrant"   // NEW multi-color
+    | "viridis" | "cividis"              // perceptually uniform, multi-stop
+    | "okabeIto" | "tolBright"           // colorblind-safe categorical
+    | "theme";                           // report theme dataColors (host.colorPalette)
 
 export type LegendPosition =
     | "topLeft" | "topCenter" | "topRight"
@@ -16,20 +19,42 @@ export type WeekStart = "sunday" | "monday";
 export type RotateLabelsMode = "auto" | "always" | "never";
 export type TooltipStyle = "powerbi" | "custom";
 export type TooltipTheme = "light" | "dark";
+export type DisplayUnits = "auto" | "none" | "thousands" | "millions" | "billions" | "trillions";
+export type ColorScaleType = "sequential" | "diverging";
+export type ColorScaleMidpoint = "zero" | "average" | "median" | "fixed";
+export type ColorClassification = "continuous" | "equalInterval" | "quantile" | "jenks" | "thresholds";
+export type LegendOverflow = "paginate" | "more";
+export type RenderingMode = "auto" | "svg" | "canvas";
+export type ReferenceLineType = "constant" | "measure" | "average" | "median" | "percentile" | "min" | "max";
+export type ReferenceLineStyle = "solid" | "dashed" | "dotted";
+export type ReferenceLabelPosition = "start" | "end";
+export type AnnotationStyle = "box" | "outline" | "text";
 
 // Shared settings interfaces
+export type SmallMultiplesOverflow = "fit" | "scroll";
+export type TopNMode = "count" | "percent";
+
 export interface ISmallMultiplesSettings {
     columns: number;
     spacing: number;
     showTitle: boolean;
     titleFontSize: number;
     titleSpacing: number;  // NEW - gap between title and content
+    // Grid layout (see `smallMultiples.ts`); read only by visuals on the shared grid.
+    autoColumns: boolean;           // pick the column count from the panels' aspect ratio
+    overflow: SmallMultiplesOverflow;
+    minPanelHeight: number;         // "scroll" keeps panels at least this tall (px)
+    sharedXScale: boolean;
+    sharedYScale: boolean;
+    sharedColorScale: boolean;
+    outerAxesOnly: boolean;         // axes only on the grid's left column and bottom row
 }
 
 export interface ILegendSettings {
     legendPosition: LegendPosition;
     legendFontSize: number;
-    maxLegendItems: number;
+    maxLegendItems: number;             // items per legend page
+    legendOverflow: LegendOverflow;     // how items beyond one page stay reachable
 }
 
 // Custom colors for data groups - allows per-category color control
@@ -69,6 +94,115 @@ export interface ITooltipSettings {
     showColorSwatch: boolean;
 }
 
+/**
+ * Display units and decimal places per label type (axis ticks, data labels, tooltips).
+ * Decimals of -1 mean "auto": keep the model format string's own decimals.
+ */
+export interface IDisplayUnitSettings {
+    axisUnits: DisplayUnits;
+    axisDecimals: number;       // -1 = auto, 0-9 = manual
+    labelUnits: DisplayUnits;
+    labelDecimals: number;      // -1 = auto, 0-9 = manual
+    tooltipUnits: DisplayUnits;
+    tooltipDecimals: number;    // -1 = auto, 0-9 = manual
+}
+
+// Animated transitions between data updates (see `transitions.ts`)
+export interface IAnimationSettings {
+    enabled: boolean;
+    durationMs: number;
+}
+
+// Screen-reader output (see `accessibility.ts`)
+export interface IAccessibilitySettings {
+    dataTable: boolean;         // off = aria summary only, no visually hidden data table
+}
+
+// Mark drawing backend for high-cardinality visuals (see `canvasMarks.ts`)
+export interface IRenderingSettings {
+    mode: RenderingMode;
+    canvasThreshold: number;    // "auto" draws on canvas above this many marks
+}
+
+// One analytics line on the value axis (see `referenceLines.ts`)
+export interface IReferenceLineSettings {
+    show: boolean;
+    type: ReferenceLineType;
+    value: number;              // used by "constant"
+    percentile: number;         // 0-100, used by "percentile"
+    color: string;
+    width: number;
+    style: ReferenceLineStyle;
+    showLabel: boolean;
+    labelText: string;          // "" = line type and value
+    labelPosition: ReferenceLabelPosition;
+}
+
+// Shaded range between two values on the value axis
+export interface IReferenceBandSettings {
+    show: boolean;
+    from: number;
+    to: number;
+    color: string;
+    transparency: number;       // 0-100
+    showLabel: boolean;
+    labelText: string;
+}
+
+export interface IReferenceLinesSettings {
+    lines: IReferenceLineSettings[];
+    band: IReferenceBandSettings;
+}
+
+// Author notes anchored to x values, dates or data keys (see `annotations.ts`)
+export interface IAnnotationSettings {
+    show: boolean;
+    items: string;              // one "anchor | text" per line
+    style: AnnotationStyle;
+    color: string;
+    fontSize: number;
+    maxWidth: number;           // callout text wraps at this width (px)
+    showConnector: boolean;
+}
+
+// Hover crosshair mirrored across small-multiple panels (see `crosshair.ts`)
+export interface ICrosshairSettings {
+    sync: boolean;              // show the hovered x value in every panel
+    showValues: boolean;        // value callouts where the rule crosses the marks
+    combinedTooltip: boolean;   // one tooltip listing the values of all panels
+}
+
+// Keep the largest categories and roll the rest into "Others" (see `topN.ts`)
+export interface ITopNSettings {
+    show: boolean;
+    mode: TopNMode;
+    count: number;              // categories kept in "count" mode
+    minPercent: number;         // smallest share of the total (%) kept in "percent" mode
+    showOthers: boolean;        // off = drop the rest instead of rolling it up
+    othersLabel: string;        // "" = localized "Others"
+    othersColor: string;
+}
+
+// Incremental loading past the first data window (see `segmentedLoading.ts`)
+export interface IDataLoadingSettings {
+    loadAll: boolean;
+    maxRows: number;            // stop fetching segments at this many rows
+}
+
+/**
+ * Value-to-color mapping for visuals colored by a measure (heatmap, calendar heatmap, choropleth).
+ * "diverging" runs min color → mid color at the midpoint → max color.
+ */
+export interface IColorScaleSettings {
+    scaleType: ColorScaleType;
+    midpoint: ColorScaleMidpoint;
+    midpointValue: number;      // used when midpoint is "fixed"
+    midColor: string;
+    classification: ColorClassification;
+    classCount: number;         // 2-9, for equal interval, quantile and Jenks
+    thresholds: string;         // comma-separated class breaks, e.g. "10, 50, 100"
+}
+
 /**
  * Text size settings for manual font size control
  * Value of 0 means "auto/responsive", positive values (6-40) are manual overrides
@@ -90,6 +224,83 @@ export const defaultTextSizeSettings: ITextSizeSettings = {
     panelTitleFontSize: 0
 };
 
+export const defaultDisplayUnitSettings: IDisplayUnitSettings = {
+    axisUnits: "auto",
+    axisDecimals: -1,
+    labelUnits: "auto",
+    labelDecimals: -1,
+    tooltipUnits: "none",
+    tooltipDecimals: -1
+};
+
+export const defaultAnimationSettings: IAnimationSettings = {
+    enabled: true,
+    durationMs: 200
+};
+
+export const defaultAccessibilitySettings: IAccessibilitySettings = {
+    dataTable: true
+};
+
+export const defaultRenderingSettings: IRenderingSettings = {
+    mode: "auto",
+    canvasThreshold: 5000
+};
+
+export const defaultReferenceLineSettings: IReferenceLineSettings = {
+    show: false,
+    type: "constant",
+    value: 0,
+    percentile: 50,
+    color: "#dc2626",
+    width: 1.5,
+    style: "dashed",
+    showLabel: true,
+    labelText: "",
+    labelPosition: "end"
+};
+
+export const defaultReferenceBandSettings: IReferenceBandSettings = {
+    show: false,
+    from: 0,
+    to: 0,
+    color: "#16a34a",
+    transparency: 85,
+    showLabel: false,
+    labelText: ""
+};
+
+export const defaultAnnotationSettings: IAnnotationSettings = {
+    show: true,
+    items: "",
+    style: "box",
+    color: "#374151",
+    fontSize: 11,
+    maxWidth: 160,
+    showConnector: true
+};
+
+export const defaultCrosshairSettings: ICrosshairSettings = {
+    sync: true,
+    showValues: true,
+    combinedTooltip: false
+};
+
+export const defaultTopNSettings: ITopNSettings = {
+    show: false,
+    mode: "count",
+    count: 10,
+    minPercent: 2,
+    showOthers: true,
+    othersLabel: "",
+    othersColor: "#9ca3af"
+};
+
+export const defaultDataLoadingSettings: IDataLoadingSettings = {
+    loadAll: true,
+    maxRows: 150000
+};
+
 export const defaultTooltipSettings: ITooltipSettings = {
     enabled: true,
     style: "custom",
@@ -108,6 +319,16 @@ export interface IBaseVisualSettings extends ILegendSettings, IAxisSettings, ICu
     colorScheme: ColorScheme;
     smallMultiples: ISmallMultiplesSettings;
     tooltip: ITooltipSettings;
+    displayUnits: IDisplayUnitSettings;
+    animation: IAnimationSettings;
+    accessibility: IAccessibilitySettings;
+    colorScale?: IColorScaleSettings;  // only visuals colored by a measure
+    rendering?: IRenderingSettings;    // only visuals with a canvas backend
+    dataLoading?: IDataLoadingSettings; // only visuals that fetch beyond the first window
+    referenceLines?: IReferenceLinesSettings; // only axis-based visuals
+    annotations?: IAnnotationSettings;  // only visuals with an annotation layer
+    crosshair?: ICrosshairSettings;     // only visuals with a synced hover crosshair
+    topN?: ITopNSettings;               // only categorical visuals with Top-N bucketing
 }
 
 // Color scheme constants - expanded
@@ -122,7 +343,28 @@ export const colorSchemes: Record<ColorScheme, { min: string; max: string }> = {
     pinks: { min: "#fdf2f8", max: "#be185d" },    // NEW
     rainbow: { min: "#ff0000", max: "#0000ff" },  // NEW (uses multi-stop in categorical)
     pastel: { min: "#fef3c7", max: "#a78bfa" },   // NEW
-    vibrant: { min: "#22d3ee", max: "#f43f5e" }   // NEW
+    vibrant: { min: "#22d3ee", max: "#f43f5e" },  // NEW
+    viridis: { min: "#440154", max: "#fde725" },
+    cividis: { min: "#00224e", max: "#fee838" },
+    okabeIto: { min: "#56b4e9", max: "#d55e00" },
+    tolBright: { min: "#4477aa", max: "#ee6677" },
+    theme: { min: "#e7f3ff", max: "#118dff" }     // static fallback; renderers use getThemeGradient
+};
+
+// Intermediate stops for multi-stop sequential schemes; endpoints match `colorSchemes`.
+export const colorSchemeStops: Partial<Record<ColorScheme, string[]>> = {
+    viridis: ["#440154", "#482878", "#3e4989", "#31688e", "#26828e", "#1f9e89", "#35b779", "#6ece58", "#b5de2b", "#fde725"],
+    cividis: ["#00224e", "#123570", "#3b496c", "#575d6d", "#707173", "#8a8779", "#a69d75", "#c4b56c", "#e4cf5b", "#fee838"]
+};
+
+export const defaultColorScaleSettings: IColorScaleSettings = {
+    scaleType: "sequential",
+    midpoint: "zero",
+    midpointValue: 0,
+    midColor: "#f7f7f7",
+    classification: "continuous",
+    classCount: 5,
+    thresholds: ""
 };
 
 // Default small multiples settings
@@ -131,14 +373,22 @@ export const defaultSmallMultiplesSettings: ISmallMultiplesSettings = {
     spacing: 36,
     showTitle: true,
     titleFontSize: 14,
-    titleSpacing: 25  // NEW
+    titleSpacing: 25,  // NEW
+    autoColumns: false,
+    overflow: "fit",
+    minPanelHeight: 140,
+    sharedXScale: true,
+    sharedYScale: false,
+    sharedColorScale: false,
+    outerAxesOnly: true
 };
 
 // Default legend settings
 export const defaultLegendSettings: Partial<ILegendSettings> = {
     legendPosition: "topRight" as LegendPosition,
     legendFontSize: 11,
-    maxLegendItems: 10
+    maxLegendItems: 10,
+    legendOverflow: "paginate"
 };
 
 // Default custom color settings
@@ -0,0 +1,171 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import { localize } from "./localization";
+import { ISmallMultiplesSettings, SmallMultiplesOverflow } from "./settings";
+
+/**
+ * Rows × columns layout for small multiples.
+ *
+ * `computeSmallMultiplesGrid` splits the plot area into equally sized panels, either with the
+ * Columns setting or, with automatic columns, with the column count whose panels come closest
+ * to the visual's preferred aspect ratio. Space for panel titles and axes is reserved around
+ * each panel, or only around the grid when axes are drawn on the outer panels alone. With the
+ * "scroll" overflow the panels keep a minimum height and the grid grows past the viewport;
+ * the renderer then makes the visual scrollable with `BaseRenderer.setContentHeight`.
+ *
+ * Whether panels share their X, Y and color scales is up to each renderer; the settings
+ * only carry the choice.
+ */
+
+const OVERFLOW_MODES: SmallMultiplesOverflow[] = ["fit", "scroll"];
+
+/**
+ * Group key of the single panel drawn when no small-multiples field is bound. It is a key, not a
+ * label: panels keyed by it get no title, and `getGroupLabel` localizes it where it is shown.
+ */
+export const ALL_GROUP = "__all__";
+
+export function getGroupLabel(group: string): string {
+    return group === ALL_GROUP ? localize("Visual_All") : group;
+}
+
+export interface SmallMultiplesGridOptions {
+    count: number;
+    // Area available to the grid, margins and legend already taken off.
+    width: number;
+    height: number;
+    // Preferred panel width / height, used by automatic columns.
+    aspectRatio?: number;
+    // Room above each panel for its title.
+    titleHeight?: number;
+    // Room left of / below a panel that draws its own axes.
+    axisLeft?: number;
+    axisBottom?: number;
+}
+
+export interface SmallMultiplesCell {
+    index: number;
+    row: number;
+    column: number;
+    // Top-left corner of the panel's plot area.
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    // The panel draws its Y axis (left column, or every panel without outer-only axes).
+    showYAxis: boolean;
+    // The panel draws its X axis (no panel below it, or every panel without outer-only axes).
+    showXAxis: boolean;
+}
+
+export interface SmallMultiplesGrid {
+    columns: number;
+    rows: number;
+    panelWidth: number;
+    panelHeight: number;
+    cells: SmallMultiplesCell[];
+    // Height of the whole grid; more than the available height when it scrolls.
+    contentHeight: number;
+}
+
+/**
+ * Reads the grid properties of the `smallMultiples` object on top of a visual's parsed
+ * small-multiples settings.
+ */
+export function parseSmallMultiplesGridSettings(
+    objects: DataViewObjects | undefined,
+    settings: ISmallMultiplesSettings
+): ISmallMultiplesSettings {
+    const parsed: ISmallMultiplesSettings = { ...settings };
+    const obj = objects?.["smallMultiples"];
+    if (!obj) {
+        return parsed;
+    }
+
+    const columns = Number(obj["columns"]);
+    if (obj["columns"] !== undefined && Number.isFinite(columns)) {
+        parsed.columns = Math.max(1, Math.min(12, Math.round(columns)));
+    }
+    const overflow = obj["overflow"] as SmallMultiplesOverflow | undefined;
+    if (overflow && OVERFLOW_MODES.includes(overflow)) parsed.overflow = overflow;
+    const minPanelHeight = Number(obj["minPanelHeight"]);
+    if (obj["minPanelHeight"] !== undefined && Number.isFinite(minPanelHeight)) {
+        parsed.minPanelHeight = Math.max(60, Math.min(800, Math.round(minPanelHeight)));
+    }
+    (["autoColumns", "sharedXScale", "sharedYScale", "sharedColorScale", "outerAxesOnly"] as const).forEach((name) => {
+        if (typeof obj[name] === "boolean") parsed[name] = obj[name] as boolean;
+    });
+    return parsed;
+}
+
+export function computeSmallMultiplesGrid(
+    settings: ISmallMultiplesSettings,
+    options: SmallMultiplesGridOptions
+): SmallMultiplesGrid {
+    const count = Math.max(1, options.count);
+    const gap = count > 1 ? Math.max(18, settings.spacing) : 0;
+    const titleHeight = count > 1 ? options.titleHeight ?? 0 : 0;
+    const axisLeft = options.axisLeft ?? 0;
+    const axisBottom = options.axisBottom ?? 0;
+    // Without outer-only axes every panel keeps room for its own axes.
+    const innerLeft = settings.outerAxesOnly ? 0 : axisLeft;
+    const innerBottom = settings.outerAxesOnly ? 0 : axisBottom;
+
+    const sizeFor = (columns: number): { rows: number; width: number; height: number } => {
+        const rows = Math.ceil(count / columns);
+        return {
+            rows,
+            width: (options.width - axisLeft - (columns - 1) * (gap + innerLeft)) / columns,
+            height: (options.height - axisBottom - (rows - 1) * (gap + innerBottom)) / rows - titleHeight
+        };
+    };
+
+    let columns = Math.max(1, Math.min(count, settings.columns || 1));
+    if (settings.autoColumns) {
+        const aspectRatio = options.aspectRatio ?? 1.6;
+        let bestScore = Infinity;
+        for (let candidate = 1; candidate <= count; candidate++) {
+            const size = sizeFor(candidate);
+            if (size.width <= 0 || size.height <= 0) continue;
+            const score = Math.abs(Math.log((size.width / size.height) / aspectRatio));
+            if (score < bestScore) {
+                bestScore = score;
+                columns = candidate;
+            }
+        }
+    }
+
+    const size = sizeFor(columns);
+    const panelWidth = Math.max(1, size.width);
+    const panelHeight = Math.max(1, settings.overflow === "scroll" ? Math.max(settings.minPanelHeight, size.height) : size.height);
+    const rowStride = titleHeight + panelHeight + gap + innerBottom;
+    const columnStride = panelWidth + gap + innerLeft;
+
+    const cells: SmallMultiplesCell[] = [];
+    for (let index = 0; index < count; index++) {
+        const row = Math.floor(index / columns);
+        const column = index % columns;
+        cells.push({
+            index,
+            row,
+            column,
+            x: axisLeft + column * columnStride,
+            y: titleHeight + row * rowStride,
+            width: panelWidth,
+            height: panelHeight,
+            showYAxis: !settings.outerAxesOnly || column === 0,
+            showXAxis: !settings.outerAxesOnly || index + columns >= count
+        });
+    }
+
+    return {
+        columns,
+        rows: size.rows,
+        panelWidth,
+        panelHeight,
+        cells,
+        contentHeight: size.rows * rowStride - gap - innerBottom + axisBottom
+    };
+}
@@ -0,0 +1,112 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObject = powerbi.DataViewObject;
+import DataViewObjects = powerbi.DataViewObjects;
+import IColorInfo = powerbi.IColorInfo;
+import IColorPalette = powerbi.extensibility.IColorPalette;
+import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
+import { IAxisSettings } from "./settings";
+
+// Data colors of the Power BI default theme, used when the host palette does not expose its list.
+export const DEFAULT_THEME_DATA_COLORS = [
+    "#118dff", "#12239e", "#e66c37", "#6b007b", "#e044a7", "#744ec2", "#d9b300", "#d64550"
+];
+
+/**
+ * The report theme's `dataColors`, in theme order. The sandbox palette keeps them in `colors`;
+ * `getColor(key)` is not used here because it permanently assigns a color to every key it sees,
+ * which would shift the colors handed out to real categories later.
+ */
+export function getThemeDataColors(palette?: IColorPalette): string[] {
+    const colors = (palette as { colors?: IColorInfo[] } | undefined)?.colors;
+    const values = Array.isArray(colors)
+        ? colors.map((color) => color?.value).filter((value): value is string => Boolean(value))
+        : [];
+    return values.length ? values : DEFAULT_THEME_DATA_COLORS;
+}
+
+/** Sequential range for the "Report theme" scheme: a light tint of the first theme color up to the color itself. */
+export function getThemeGradient(palette?: IColorPalette): { min: string; max: string } {
+    const max = getThemeDataColors(palette)[0];
+    const background = (palette as ISandboxExtendedColorPalette | undefined)?.background?.value || "#ffffff";
+    return { min: mixColors(background, max, 0.1), max };
+}
+
+/**
+ * Colors of the theme's text classes. Axis labels follow the "label" class, which the theme
+ * derives from `foregroundNeutralSecondary`; titles follow `foreground`. The host does not
+ * expose the text-class fonts, so font families keep their own defaults.
+ */
+export function getThemeTextColors(palette?: IColorPalette): { label?: string; title?: string } {
+    const extended = palette as ISandboxExtendedColorPalette | undefined;
+    return {
+        label: extended?.foregroundNeutralSecondary?.value || extended?.foreground?.value,
+        title: extended?.foreground?.value
+    };
+}
+
+/**
+ * Replaces the hard-coded axis text colors with the theme's label color, unless the report
+ * author picked a color in the X-Axis / Y-Axis cards.
+ */
+export function applyThemeTextDefaults(
+    settings: IAxisSettings,
+    objects: DataViewObjects | undefined,
+    palette?: IColorPalette
+): void {
+    const { label } = getThemeTextColors(palette);
+    if (!label) {
+        return;
+    }
+    if (!hasSolidColor(objects?.["xAxisSettings"]?.["color"])) {
+        settings.xAxisColor = label;
+    }
+    if (!hasSolidColor(objects?.["yAxisSettings"]?.["color"])) {
+        settings.yAxisColor = label;
+    }
+}
+
+/**
+ * Gradient settings (`minColor`/`maxColor`) of visuals with their own gradient card: under the
+ * "Report theme" scheme, colors the author did not pick come from the theme.
+ */
+export function applyThemeGradient(
+    target: { minColor: string; maxColor: string },
+    object: DataViewObject | undefined,
+    palette?: IColorPalette
+): void {
+    const gradient = getThemeGradient(palette);
+    if (!hasSolidColor(object?.["minColor"])) {
+        target.minColor = gradient.min;
+    }
+    if (!hasSolidColor(object?.["maxColor"])) {
+        target.maxColor = gradient.max;
+    }
+}
+
+function hasSolidColor(fill: unknown): boolean {
+    return Boolean((fill as { solid?: { color?: string } } | undefined)?.solid?.color);
+}
+
+function mixColors(from: string, to: string, amount: number): string {
+    const a = parseHex(from);
+    const b = parseHex(to);
+    if (!a || !b) {
+        return from;
+    }
+    const channel = (i: number): string =>
+        Math.round(a[i] + (b[i] - a[i]) * amount).toString(16).padStart(2, "0");
+    return `#${channel(0)}${channel(1)}${channel(2)}`;
+}
+
+function parseHex(color: string): [number, number, number] | null {
+    let hex = color.trim().replace(/^#/, "");
+    if (hex.length === 3) {
+        hex = hex.split("").map((c) => c + c).join("");
+    }
+    if (!/^[0-9a-f]{6}$/i.test(hex)) {
+        return null;
+    }
+    return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
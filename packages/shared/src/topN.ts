@@ -0,0 +1,137 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import { ITopNSettings, TopNMode, defaultTopNSettings } from "./settings";
+import { SelectionIdsByKey } from "./selection";
+import { localize, localizeFormat } from "./localization";
+
+/**
+ * Top-N with "Others" for categorical visuals.
+ *
+ * Runs on the transformer's output: the visual sums each category over all small-multiples
+ * groups, `selectTopN` keeps the largest N (or those above a share of the total), and the
+ * visual's own `applyTopN` step folds every other category into one "Others" item per group,
+ * built with `collectOthers`. Ranking over all groups keeps the same categories, colors and
+ * legend in every panel. The Others item keeps its members for its tooltip
+ * (`BaseRenderer.getOthersTooltipRows`) and, through `addOthersSelectionIds`, selects them.
+ */
+
+const MODES: TopNMode[] = ["count", "percent"];
+const TOOLTIP_MEMBER_LIMIT = 8;
+
+export interface TopNMember {
+    name: string;
+    value: number;
+}
+
+export interface TopNOthers {
+    // Display name of the item, also its category key in the visual's data.
+    label: string;
+    value: number;
+    // Rolled-up categories, largest first.
+    members: TopNMember[];
+}
+
+export function parseTopNSettings(objects: DataViewObjects | undefined): ITopNSettings {
+    const settings: ITopNSettings = { ...defaultTopNSettings };
+    const obj = objects?.["topN"];
+    if (!obj) {
+        return settings;
+    }
+
+    if (typeof obj["show"] === "boolean") settings.show = obj["show"];
+    const mode = obj["mode"] as TopNMode | undefined;
+    if (mode && MODES.includes(mode)) settings.mode = mode;
+    const count = Number(obj["count"]);
+    if (obj["count"] !== undefined && Number.isFinite(count)) {
+        settings.count = Math.max(1, Math.min(100, Math.round(count)));
+    }
+    const minPercent = Number(obj["minPercent"]);
+    if (obj["minPercent"] !== undefined && Number.isFinite(minPercent)) {
+        settings.minPercent = Math.max(0, Math.min(100, minPercent));
+    }
+    if (typeof obj["showOthers"] === "boolean") settings.showOthers = obj["showOthers"];
+    if (typeof obj["othersLabel"] === "string") settings.othersLabel = obj["othersLabel"].trim();
+    const othersColor = (obj["othersColor"] as { solid?: { color?: string } } | undefined)?.solid?.color;
+    if (othersColor) settings.othersColor = othersColor;
+    return settings;
+}
+
+export function getOthersLabel(settings: ITopNSettings): string {
+    return settings.othersLabel || localize("Visual_Others");
+}
+
+/**
+ * Categories to keep, from their totals. Returns null when Top-N is off or would keep
+ * everything; an "Others" of a single category would only rename it, so that counts as all.
+ */
+export function selectTopN(totals: Map<string, number>, settings: ITopNSettings): Set<string> | null {
+    if (!settings.show || !totals.size) {
+        return null;
+    }
+
+    const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+    let kept: string[];
+    if (settings.mode === "percent") {
+        const total = ranked.reduce((sum, [, value]) => sum + Math.max(0, value), 0);
+        kept = ranked
+            .filter(([, value]) => total > 0 && (value / total) * 100 >= settings.minPercent)
+            .map(([name]) => name);
+    } else {
+        kept = ranked.slice(0, settings.count).map(([name]) => name);
+    }
+
+    const rolledUp = ranked.length - kept.length;
+    if (rolledUp === 0 || (settings.showOthers && rolledUp === 1)) {
+        return null;
+    }
+    return new Set(kept);
+}
+
+// The Others item of one group: every category of `values` that is not kept. Null when none is left.
+export function collectOthers(values: Iterable<[string, number]>, kept: Set<string>, settings: ITopNSettings): TopNOthers | null {
+    const members: TopNMember[] = [];
+    for (const [name, value] of values) {
+        if (!kept.has(name)) members.push({ name, value });
+    }
+    if (!members.length) {
+        return null;
+    }
+    members.sort((a, b) => b.value - a.value);
+    return {
+        label: getOthersLabel(settings),
+        value: members.reduce((sum, member) => sum + member.value, 0),
+        members
+    };
+}
+
+// Records the Others item drawn by the mark with `key` in `group`, for `BaseRenderer.getOthersTooltipRows`.
+export function setOthersForKey(target: Map<string, Map<string, TopNOthers>>, group: string, key: string, others: TopNOthers): void {
+    const byKey = target.get(group) ?? new Map<string, TopNOthers>();
+    byKey.set(key, others);
+    target.set(group, byKey);
+}
+
+// Member rows for the tooltip of an Others item: the largest members, then "+N more".
+export function getOthersMemberRows(others: TopNOthers, format: (value: number) => string): VisualTooltipDataItem[] {
+    const rows: VisualTooltipDataItem[] = others.members
+        .slice(0, TOOLTIP_MEMBER_LIMIT)
+        .map((member) => ({ displayName: member.name, value: format(member.value) }));
+    if (others.members.length > TOOLTIP_MEMBER_LIMIT) {
+        rows.push({ displayName: localizeFormat("Visual_OthersMore", others.members.length - TOOLTIP_MEMBER_LIMIT), value: "" });
+    }
+    return rows;
+}
+
+// Registers the ids of every member key under `othersKey`, so selecting Others selects its members.
+export function addOthersSelectionIds(selectionIdsByKey: SelectionIdsByKey, othersKey: string, memberKeys: string[]): void {
+    const ids = memberKeys.flatMap((key) => {
+        const memberIds = selectionIdsByKey.get(key);
+        return memberIds ? (Array.isArray(memberIds) ? memberIds : [memberIds]) : [];
+    });
+    if (ids.length) {
+        selectionIdsByKey.set(othersKey, ids);
+    }
+}
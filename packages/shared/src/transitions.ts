@@ -0,0 +1,240 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import { BaseType, Selection, ValueFn, select } from "d3-selection";
+import "d3-transition";
+import { IAnimationSettings, defaultAnimationSettings } from "./settings";
+
+/**
+ * Animated updates through keyed d3 joins.
+ *
+ * The chart container persists between updates, and renderers draw into it through one
+ * `RenderPass` per render (`BaseRenderer.getPanel`, `getLayer` and `joinMarks`). Panels,
+ * layers and marks are joined to the new data by key:
+ * - enter: a new element is placed where it belongs and fades in;
+ * - update: a kept element tweens its geometry, transform and color to the new values;
+ * - exit: an element whose key is gone fades out and is removed.
+ * Everything else in the container (axis lines, titles, gridlines, reference lines) is cleared
+ * when the pass starts and drawn again. Layers and marks the pass does not join again leave
+ * as exits when it finishes.
+ *
+ * Animation follows the Animation card and is off when the user prefers reduced motion; the
+ * joins then apply their changes at once.
+ */
+
+type JoinedRole = "scope" | "mark" | "exiting";
+
+// Elements drawn through a join. Scopes (panels, layers) keep their joined children between
+// passes; marks keep their whole subtree. Every other element is redrawn by each pass.
+const joinedElements = new WeakMap<Element, JoinedRole>();
+const layerKeys = new WeakMap<Element, string>();
+
+// Above this many marks a join applies its changes without animation.
+const MAX_ANIMATED_MARKS = 2000;
+const KEY_ATTRIBUTES = ["data-selection-key", "data-focus-key", "data-legend-key", "data-panel-key"];
+
+/**
+ * What a join animates: the attributes and styles of a plain selection when nothing animates,
+ * of a d3 transition otherwise. Set text and event handlers on the selection `joinMarks` returns.
+ */
+export interface AnimatedAttributes<E extends BaseType, D> {
+    attr(name: string, value: string | number | null): this;
+    attr(name: string, value: ValueFn<E, D, string | number | null>): this;
+    style(name: string, value: string | number | null): this;
+    style(name: string, value: ValueFn<E, D, string | number | null>): this;
+}
+
+export function parseAnimationSettings(objects: DataViewObjects | undefined): IAnimationSettings {
+    const settings: IAnimationSettings = { ...defaultAnimationSettings };
+    const obj = objects?.["animation"];
+    if (!obj) {
+        return settings;
+    }
+
+    if (typeof obj["enabled"] === "boolean") {
+        settings.enabled = obj["enabled"];
+    }
+    const duration = Number(obj["duration"]);
+    if (obj["duration"] !== undefined && Number.isFinite(duration)) {
+        settings.durationMs = Math.max(0, Math.min(1000, Math.round(duration)));
+    }
+    return settings;
+}
+
+export function prefersReducedMotion(): boolean {
+    return typeof window !== "undefined"
+        && typeof window.matchMedia === "function"
+        && window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+// Transition length in ms for the Animation card, or 0 when updates should not animate.
+export function getTransitionDuration(settings: IAnimationSettings | undefined): number {
+    const animation = settings ?? defaultAnimationSettings;
+    return animation.enabled && animation.durationMs > 0 && !prefersReducedMotion() ? animation.durationMs : 0;
+}
+
+// Tag and classes of a simple `tag.class` selector, e.g. "rect.mark" or "g.panel".
+function parseSelector(selector: string): { tag: string; className: string } {
+    const [tag, ...classes] = selector.split(".");
+    return { tag, className: classes.join(" ") };
+}
+
+// Joined children of `parent` matching `selector`, leaving out those still fading out.
+function selectJoinedChildren(parent: Element, selector: string): Element[] {
+    return Array.from(parent.children).filter((child) => child.matches(selector) && joinedElements.get(child) !== "exiting");
+}
+
+// Opacity attribute as a number; a missing attribute is fully opaque.
+function getOpacity(node: Element): number {
+    const value = node.getAttribute("opacity");
+    return value === null ? 1 : Number(value) || 0;
+}
+
+// Fades to the opacity `place` set, so marks set their opacity there rather than after the join.
+function fadeIn(nodes: Element[], duration: number): void {
+    if (!duration) return;
+    nodes.forEach((node) => {
+        const hadOpacity = node.hasAttribute("opacity");
+        const target = getOpacity(node);
+        select(node)
+            .attr("opacity", 0)
+            .transition("enter")
+            .duration(duration)
+            .attr("opacity", target)
+            .on("end", () => {
+                if (!hadOpacity) node.removeAttribute("opacity");
+            });
+    });
+}
+
+function fadeOut(nodes: Element[], duration: number): void {
+    nodes.forEach((node) => {
+        // Leaving marks drop their keys so selection, focus and the next join pass them by.
+        joinedElements.set(node, "exiting");
+        [node, ...Array.from(node.querySelectorAll("[tabindex]"))].forEach((el) => el.removeAttribute("tabindex"));
+        KEY_ATTRIBUTES.forEach((name) => {
+            node.removeAttribute(name);
+            node.querySelectorAll(`[${name}]`).forEach((el) => el.removeAttribute(name));
+        });
+        node.setAttribute("aria-hidden", "true");
+        (node as SVGElement).style.pointerEvents = "none";
+        if (!duration) {
+            node.remove();
+            return;
+        }
+        select(node)
+            .transition("exit")
+            .duration(duration)
+            .attrTween("opacity", () => {
+                const start = getOpacity(node);
+                return (t) => String(start * (1 - t));
+            })
+            .remove();
+    });
+}
+
+export class RenderPass {
+    private readonly stale = new Set<Element>();
+
+    /**
+     * Starts a pass over `container`: clears everything that was not drawn through a join and
+     * remembers the joined elements, so those not joined again can leave in `finish`.
+     */
+    constructor(
+        container: Element,
+        private readonly duration: number
+    ) {
+        this.sweep(container, true);
+    }
+
+    /**
+     * Keyed join of `selector` children (`tag.class`, e.g. "rect.mark") of every element of
+     * `parent`. New marks are placed at once by `place` and fade in; kept marks run `place`
+     * through a transition; marks whose key is gone fade out. `place` sets everything that
+     * should animate, opacity included. `data` may read the parent's datum for nested joins. Returns the entered and kept marks in data order, drawn above whatever
+     * the pass added to their parent so far.
+     */
+    public marks<E extends Element, D>(
+        parent: Selection<any, any, any, any>,
+        selector: string,
+        data: D[] | ((parentDatum: any) => D[]),
+        key: (d: D, i: number) => string,
+        place: (marks: AnimatedAttributes<E, D>) => void
+    ): Selection<E, D, Element, any> {
+        const { tag, className } = parseSelector(selector);
+        const duration = Array.isArray(data) && data.length > MAX_ANIMATED_MARKS ? 0 : this.duration;
+        const joined = parent
+            .selectAll<E, D>(function () { return selectJoinedChildren(this as Element, selector) as E[]; })
+            .data<D>(data as any, key as any)
+            .join<E>(
+                (enter) => {
+                    const entered = enter.append(tag).attr("class", className) as unknown as Selection<E, D, Element, any>;
+                    entered.each(function () { joinedElements.set(this, "mark"); });
+                    place(entered);
+                    fadeIn(entered.nodes(), duration);
+                    return entered;
+                },
+                (update) => {
+                    update.each((_, i, nodes) => this.stale.delete(nodes[i]));
+                    place(duration ? update.transition("update").duration(duration) : update.interrupt("update"));
+                    return update;
+                },
+                (exit) => fadeOut(exit.nodes(), duration)
+            );
+        return joined.raise();
+    }
+
+    /**
+     * `className` group of `parent`, created on first use and kept across passes; its joined
+     * children animate between renders. `key` tells apart groups of one class, such as the
+     * small-multiple panels. `place` sets the animated attributes, tweened when the group is
+     * kept. Raised above whatever the pass added to `parent` so far.
+     */
+    public layer(
+        parent: Selection<any, any, any, any>,
+        className: string,
+        key?: string,
+        place?: (layer: AnimatedAttributes<SVGGElement, unknown>) => void
+    ): Selection<SVGGElement, unknown, null, undefined> {
+        const parentNode = parent.node()!;
+        const existing = selectJoinedChildren(parentNode, `g.${className}`)
+            .find((child) => layerKeys.get(child) === key) as SVGGElement | undefined;
+        if (existing) {
+            this.stale.delete(existing);
+            parentNode.appendChild(existing);
+            const layer = select(existing);
+            place?.(this.duration ? layer.transition("update").duration(this.duration) : layer.interrupt("update"));
+            return layer;
+        }
+
+        const node = parentNode.appendChild(document.createElementNS("http://www.w3.org/2000/svg", "g"));
+        node.setAttribute("class", className);
+        joinedElements.set(node, "scope");
+        if (key !== undefined) layerKeys.set(node, key);
+        const layer = select(node);
+        place?.(layer);
+        fadeIn([node], this.duration);
+        return layer;
+    }
+
+    // Removes the joined elements this pass did not join again.
+    public finish(): void {
+        fadeOut(Array.from(this.stale).filter((node) => node.isConnected), this.duration);
+        this.stale.clear();
+    }
+
+    // Removes what is not joined under `node` and collects what is as stale until joined again.
+    private sweep(node: Element, isScope: boolean): void {
+        Array.from(node.children).forEach((child) => {
+            const role = joinedElements.get(child);
+            if (role === "exiting") return;
+            if (role) {
+                this.stale.add(child);
+                this.sweep(child, role === "scope");
+            } else if (isScope) {
+                child.remove();
+            }
+        });
+    }
+}
@@ -1,5 +1,8 @@
 "use strict";
 
+import { localize } from "./localization";
+import { formatDateWithFormatString, formatNumberWithFormatString, getFormatLocale } from "./formatString";
+
 /**
  * Formats a data value for display, handling null/undefined values
  */
@@ -17,142 +20,47 @@ export function formatDataValue(value: any, index: number): string {
  */
 export function formatGroupValue(value: any): string {
     if (value === null || value === undefined) {
-        return "(Blank)";
+        return localize("Visual_Blank");
     }
     const str = String(value);
-    return str.trim() ? str : "(Blank)";
-}
-
-// ---------------------------------------------------------------------------
-// Lightweight PBI format-string parser (replaces heavy Globalize dependency)
-// ---------------------------------------------------------------------------
-
-/**
- * Parse the number of decimal places from a PBI / .NET-style format string.
- * Returns `null` when the string is not a recognisable numeric format.
- */
-function parseDecimals(fmt: string): number | null {
-    // Fixed-point patterns: "0.00", "#,##0.00", "#,0.0", etc.
-    const dotMatch = fmt.match(/\.([0#]+)/);
-    if (dotMatch) {
-        return dotMatch[1].replace(/#/g, "").length; // only count '0' positions
-    }
-
-    // Whole-number patterns without a decimal part
-    if (/^[#,0]+$/.test(fmt)) return 0;
-
-    return null;
+    return str.trim() ? str : localize("Visual_Blank");
 }
 
 /**
- * Detect whether the format string is a percentage format.
- * PBI uses patterns like "0.00 %;-0.00 %;0.00 %" or "0%".
+ * Formats a measure (or date) value with the model's format string so tooltips,
+ * data labels and axes show exactly what the report author configured. Without a
+ * format string, numbers fall back to `Intl.NumberFormat` in the report locale.
  */
-function isPercentFormat(fmt: string): boolean {
-    return fmt.includes("%");
-}
-
-/**
- * Detect currency symbol in the format string and return it (or null).
- */
-function detectCurrencySymbol(fmt: string): string | null {
-    // Common PBI patterns: "$#,##0.00", "€#,##0.00", "£#,##0", "¥#,0"
-    const m = fmt.match(/^([$€£¥₹₽₩₪₫₴₵₦])/);
-    if (m) return m[1];
-    // Symbol at end: "#,##0.00 $"
-    const mEnd = fmt.match(/([$€£¥₹₽₩₪₫₴₵₦])\s*$/);
-    if (mEnd) return mEnd[1];
-    return null;
-}
-
-/**
- * Detect whether the format string uses thousands grouping (commas).
- */
-function usesGrouping(fmt: string): boolean {
-    return fmt.includes(",");
-}
-
-/**
- * Lightweight replacement for `valueFormatter.format()` from
- * `powerbi-visuals-utils-formattingutils`.
- *
- * Handles the most common PBI numeric format strings:
- *   - Fixed-point:   "#,##0.00", "0.0", "0"
- *   - Percentage:    "0.00 %;-0.00 %;0.00 %", "0%"
- *   - Currency:      "$#,##0.00", "€#,0"
- *   - Whole number:  "#,##0"
- *
- * Falls back to `Intl.NumberFormat` / `toLocaleString` for anything exotic.
- */
-function lightFormat(n: number, fmt: string): string | null {
-    // PBI composite format strings can contain positive;negative;zero sections.
-    // Pick the section matching the sign of n.
-    const sections = fmt.split(";");
-    let activeFmt: string;
-    if (sections.length >= 3) {
-        activeFmt = n > 0 ? sections[0] : n < 0 ? sections[1] : sections[2];
-    } else if (sections.length === 2) {
-        activeFmt = n >= 0 ? sections[0] : sections[1];
-    } else {
-        activeFmt = sections[0];
-    }
-    activeFmt = activeFmt.trim();
-    if (!activeFmt) return null;
-
-    const pct = isPercentFormat(activeFmt);
-    const value = pct ? n * 100 : n;
-    const absValue = Math.abs(value);
-
-    const decimals = parseDecimals(activeFmt.replace(/[$€£¥₹₽₩₪₫₴₵₦%\s]/g, ""));
-    if (decimals === null) return null; // unrecognised
-
-    const grouping = usesGrouping(activeFmt);
-    const currency = detectCurrencySymbol(activeFmt);
-
-    const formatted = absValue.toLocaleString(undefined, {
-        minimumFractionDigits: decimals,
-        maximumFractionDigits: decimals,
-        useGrouping: grouping,
-    });
-
-    // Re-apply sign (negative section in PBI sometimes omits the minus)
-    const sign = value < 0 ? "-" : "";
-
-    if (pct) {
-        return `${sign}${formatted}%`;
-    }
-    if (currency) {
-        // Place symbol where format string has it
-        const symbolAtEnd = /[$€£¥₹₽₩₪₫₴₵₦]\s*$/.test(activeFmt);
-        return symbolAtEnd
-            ? `${sign}${formatted}${currency}`
-            : `${sign}${currency}${formatted}`;
-    }
-    return `${sign}${formatted}`;
-}
-
 export function formatMeasureValue(
-    value: number | null | undefined,
+    value: number | Date | null | undefined,
     formatString?: string,
     fallback?: Intl.NumberFormatOptions
 ): string {
     if (value === null || value === undefined) {
-        return "(Blank)";
+        return localize("Visual_Blank");
+    }
+    const format = typeof formatString === "string" && formatString.trim() ? formatString : null;
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            return localize("Visual_Blank");
+        }
+        return format
+            ? formatDateWithFormatString(value, format)
+            : value.toLocaleDateString(getFormatLocale());
     }
     const n = Number(value);
     if (!Number.isFinite(n)) {
         return "N/A";
     }
-    if (formatString && typeof formatString === "string" && formatString.trim()) {
+    if (format) {
         try {
-            const result = lightFormat(n, formatString);
-            if (result !== null) return result;
+            return formatNumberWithFormatString(n, format);
         } catch {
             // ignore and fall back
         }
     }
     const opts: Intl.NumberFormatOptions = fallback ?? {};
-    return n.toLocaleString(undefined, opts);
+    return n.toLocaleString(getFormatLocale(), opts);
 }
 
 /**
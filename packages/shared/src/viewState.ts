@@ -0,0 +1,148 @@
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+
+/**
+ * Interactive view state that survives report reloads and is captured by bookmarks. Visuals
+ * store it as JSON in the hidden `viewState` object (property `state`); no formatting card
+ * exposes it.
+ */
+export interface IViewState {
+    // Drill/zoom path per small-multiples panel, as node names from the root down.
+    drillPath: Record<string, string[]>;
+    // Scroll offsets of a scrollable canvas, in pixels.
+    scrollLeft: number;
+    scrollTop: number;
+    // Index of the first visible category of a windowed axis (candlestick navigation).
+    windowStart: number;
+    // Mode picked in an on-canvas sort control; "" falls back to the formatting pane setting.
+    sortBy: string;
+}
+
+export const VIEW_STATE_OBJECT = "viewState";
+const VIEW_STATE_PROPERTY = "state";
+// After this long without an echo a write is treated as lost and host state is adopted again.
+const UNCONFIRMED_WRITE_TIMEOUT_MS = 2000;
+
+export function createDefaultViewState(): IViewState {
+    return {
+        drillPath: {},
+        scrollLeft: 0,
+        scrollTop: 0,
+        windowStart: 0,
+        sortBy: ""
+    };
+}
+
+function toStringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
+
+function toOffset(value: unknown): number {
+    const n = Number(value);
+    return Number.isFinite(n) ? Math.max(0, Math.round(n)) : 0;
+}
+
+function normalizeViewState(raw: Partial<Record<keyof IViewState, unknown>>): IViewState {
+    const state = createDefaultViewState();
+    if (raw.drillPath && typeof raw.drillPath === "object" && !Array.isArray(raw.drillPath)) {
+        Object.entries(raw.drillPath as Record<string, unknown>).forEach(([panel, path]) => {
+            const segments = toStringList(path);
+            if (segments.length) state.drillPath[panel] = segments;
+        });
+    }
+    state.scrollLeft = toOffset(raw.scrollLeft);
+    state.scrollTop = toOffset(raw.scrollTop);
+    state.windowStart = toOffset(raw.windowStart);
+    state.sortBy = typeof raw.sortBy === "string" ? raw.sortBy : "";
+    return state;
+}
+
+/**
+ * Reads the persisted view state for `parseSettings`. Missing or malformed JSON yields the
+ * default (unzoomed, unscrolled) state rather than an error.
+ */
+export function parseViewState(objects: DataViewObjects | undefined): IViewState {
+    const json = objects?.[VIEW_STATE_OBJECT]?.[VIEW_STATE_PROPERTY];
+    if (typeof json !== "string" || !json) {
+        return createDefaultViewState();
+    }
+    try {
+        const raw = JSON.parse(json);
+        return raw && typeof raw === "object" ? normalizeViewState(raw) : createDefaultViewState();
+    } catch {
+        return createDefaultViewState();
+    }
+}
+
+/**
+ * Per-visual owner of the view state. Renderers report changes through `update`; the store
+ * batches them and writes the result back with `host.persistProperties`, which also makes the
+ * host send a fresh `update()` carrying the new state.
+ */
+export class ViewStateStore {
+    private state: IViewState = createDefaultViewState();
+    private persistedJson: string = JSON.stringify(this.state);
+    private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+    // Time of the last write the host has not echoed back yet.
+    private unconfirmedSince: number | null = null;
+
+    constructor(private readonly host: IVisualHost, private readonly persistDelayMs: number = 300) { }
+
+    /**
+     * Adopts the state read by `parseSettings` (after a reload or a bookmark) and returns the
+     * state to render with. A local change that is not persisted yet, or whose write the host
+     * has not echoed back yet, wins: updates in between still carry the older state.
+     */
+    public sync(persisted: IViewState): IViewState {
+        const incoming = normalizeViewState(persisted);
+        const incomingJson = JSON.stringify(incoming);
+        if (this.unconfirmedSince !== null) {
+            const confirmed = incomingJson === this.persistedJson;
+            if (confirmed || Date.now() - this.unconfirmedSince > UNCONFIRMED_WRITE_TIMEOUT_MS) {
+                this.unconfirmedSince = null;
+            }
+        }
+        if (!this.pendingTimer && this.unconfirmedSince === null) {
+            this.state = incoming;
+            this.persistedJson = incomingJson;
+        }
+        return this.get();
+    }
+
+    public get(): IViewState {
+        return normalizeViewState(this.state);
+    }
+
+    public update(patch: Partial<IViewState>): void {
+        this.state = normalizeViewState({ ...this.state, ...patch });
+        if (this.pendingTimer) {
+            clearTimeout(this.pendingTimer);
+        }
+        this.pendingTimer = setTimeout(() => this.flush(), this.persistDelayMs);
+    }
+
+    // Writes a pending change right away (e.g. from `destroy()`).
+    public flush(): void {
+        if (this.pendingTimer) {
+            clearTimeout(this.pendingTimer);
+            this.pendingTimer = null;
+        }
+        const json = JSON.stringify(this.state);
+        if (json === this.persistedJson) {
+            return;
+        }
+        this.persistedJson = json;
+        this.unconfirmedSince = Date.now();
+        this.host.persistProperties({
+            merge: [{
+                objectName: VIEW_STATE_OBJECT,
+                // Static object: no data selector.
+                selector: null as unknown as powerbi.data.Selector,
+                properties: { [VIEW_STATE_PROPERTY]: json }
+            }]
+        });
+    }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { formatWithDisplayUnits } from "../src/displayUnits";
+
+describe("formatWithDisplayUnits", () => {
+    test("scales a plain format to the auto unit", () => {
+        expect(formatWithDisplayUnits(1234567, "#,0", "auto", -1)).toBe("1.23M");
+    });
+
+    test("leaves formats with scaling commas unscaled", () => {
+        expect(formatWithDisplayUnits(1234567, "#,0,,\"M\"", "auto", -1)).toBe("1M");
+        expect(formatWithDisplayUnits(1234567, "#,0.0,,\"M\"", "millions", -1)).toBe("1.2M");
+    });
+
+    test("leaves scientific formats unscaled", () => {
+        expect(formatWithDisplayUnits(1234567, "0.00E+00", "auto", -1)).toBe("1.23E+06");
+        expect(formatWithDisplayUnits(1234567, "Scientific", "thousands", -1)).toBe("1.23E+06");
+    });
+
+    test("leaves percent formats unscaled", () => {
+        expect(formatWithDisplayUnits(1234.5, "0.0%", "auto", -1)).toBe("123450.0%");
+    });
+});
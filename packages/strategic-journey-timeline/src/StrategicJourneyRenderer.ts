@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
-import { d3, BaseRenderer, ChartData, RenderContext, formatLabel } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, ChartData, RenderContext, formatLabel, AccessibleSummary, localize, localizeFormat } from "@pbi-visuals/shared";
 import { IStrategicJourneyVisualSettings } from "./settings";
 import { JourneyChartData, JourneyItem, JourneyLane } from "./StrategicJourneyTransformer";
 
@@ -71,7 +71,7 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
         super(context);
     }
 
-    public render(data: ChartData, settings: IStrategicJourneyVisualSettings): void {
+    protected draw(data: ChartData, settings: IStrategicJourneyVisualSettings): void {
         this.settings = settings;
         const chartData = data as JourneyChartData;
 
@@ -80,7 +80,7 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
             return;
         }
 
-        const statuses = chartData.statuses.length > 0 ? chartData.statuses : ["(Blank)"];
+        const statuses = chartData.statuses.length > 0 ? chartData.statuses : [localize("Visual_Blank")];
         const legendReservation = settings.showLegend
             ? this.getLegendReservation({
                 isOrdinal: true,
@@ -155,9 +155,10 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
         });
 
         const statusColorScale = this.getCategoryColors(statuses, chartData.categoryColorMap);
+        const itemColor = (item: JourneyItem): string =>
+            this.getRuleColor(chartData, item.selectionKey) ?? statusColorScale(item.statusKey);
 
-        const panel = this.context.container.append("g")
-            .attr("class", "journey-panel");
+        const panel = this.getLayer(this.context.container, "journey-panel");
 
         panel.append("rect")
             .attr("x", margin.left)
@@ -179,8 +180,8 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
             this.renderTodayLine(panel, xScale, spineY, topBandY, margin.top + chartHeight);
         }
 
-        this.renderLaneItems(panel, topLayout, "top", xScale, spineY, statusColorScale, chartData.hasIncomingHighlights, viewport);
-        this.renderLaneItems(panel, bottomLayout, "bottom", xScale, spineY, statusColorScale, chartData.hasIncomingHighlights, viewport);
+        this.renderLaneItems(panel, topLayout, "top", xScale, spineY, itemColor, chartData.hasIncomingHighlights, viewport);
+        this.renderLaneItems(panel, bottomLayout, "bottom", xScale, spineY, itemColor, chartData.hasIncomingHighlights, viewport);
 
         if (settings.showLegend && statuses.length > 0) {
             this.renderLegend(statusColorScale, chartData.maxValue, true, statuses, undefined, undefined, {
@@ -231,32 +232,28 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
         const axisFontSize = Math.max(8, this.settings.xAxisFontSize);
         const textDecoration = this.settings.xAxisUnderline ? "underline" : null;
 
-        const tickGroup = panel.append("g").attr("class", "journey-axis");
+        const rotateLabels = chartHeight < 150;
+        const tickGroup = this.getLayer(panel, "journey-axis");
 
-        tickGroup.selectAll("line.journey-tick")
-            .data(ticks)
-            .join("line")
-            .attr("class", "journey-tick")
+        this.joinMarks<SVGLineElement, number>(tickGroup, "line.journey-tick", ticks, (tick) => String(tick), (line) => line
             .attr("x1", (tick) => this.snapToPixelInt(x(tick)))
             .attr("x2", (tick) => this.snapToPixelInt(x(tick)))
             .attr("y1", spineY - 6)
             .attr("y2", spineY + 6)
-            .attr("stroke", axisColor)
+            .attr("stroke", axisColor))
             .attr("stroke-width", 1);
 
-        tickGroup.selectAll("text.journey-axis-label")
-            .data(ticks)
-            .join("text")
-            .attr("class", "journey-axis-label")
+        this.joinMarks<SVGTextElement, number>(tickGroup, "text.journey-axis-label", ticks, (tick) => String(tick), (text) => text
             .attr("x", (tick) => this.snapToPixelInt(x(tick)))
             .attr("y", spineY - 10)
-            .attr("text-anchor", "middle")
+            .attr("transform", (tick) => rotateLabels ? `rotate(-24 ${this.snapToPixelInt(x(tick))} ${spineY - 10})` : null)
+            .attr("fill", axisTextColor))
+            .attr("text-anchor", rotateLabels ? "end" : "middle")
             .attr("font-size", `${axisFontSize}px`)
             .attr("font-family", this.settings.xAxisFontFamily)
             .attr("font-weight", this.settings.xAxisBold ? "700" : "500")
             .attr("font-style", this.settings.xAxisItalic ? "italic" : "normal")
             .attr("text-decoration", textDecoration)
-            .attr("fill", axisTextColor)
             .text((tick, index) => {
                 const value = Number(tick);
                 const date = new Date(value);
@@ -272,15 +269,6 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
                     ? dayMonthYearFormatter.format(date)
                     : dayMonthFormatter.format(date);
             });
-
-        if (chartHeight < 150) {
-            tickGroup.selectAll("text.journey-axis-label")
-                .attr("transform", (tick) => {
-                    const tickX = this.snapToPixelInt(x(Number(tick)));
-                    return `rotate(-24 ${tickX} ${spineY - 10})`;
-                })
-                .attr("text-anchor", "end");
-        }
     }
 
     private renderTodayLine(
@@ -316,7 +304,7 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
             .attr("font-size", "11px")
             .attr("font-weight", "700")
             .attr("fill", color)
-            .text("Today");
+            .text(localize("Visual_Today"));
     }
 
     private renderLaneItems(
@@ -325,160 +313,144 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
         lane: JourneyLane,
         xScale: NumericScale,
         spineY: number,
-        statusColorScale: d3.ScaleOrdinal<string, string, never>,
+        itemColor: (item: JourneyItem) => string,
         hasIncomingHighlights: boolean,
         viewport: ViewportWindow
     ): void {
         const cardStroke = this.isHighContrastMode() ? this.getThemeForeground("#1f2937") : "#dbe2ea";
         const cardFill = this.isHighContrastMode() ? this.getThemeBackground("#ffffff") : "#f8fafc";
         const visibleCardKeys = this.selectRenderableCardKeys(layout.placements, viewport);
+        const anchorX = (item: JourneyItem): number => this.snapToPixelInt(Number((xScale as any)(item.anchorDateMs)));
+        const hasCard = (placement: LanePlacement): boolean => visibleCardKeys.has(placement.item.selectionKey);
+        const hasSpan = (item: JourneyItem): boolean => item.kind === "span" && item.startDateMs !== null && item.endDateMs !== null;
+        const spanX = (item: JourneyItem): [number, number] => {
+            const x1 = this.snapToPixelInt(Number((xScale as any)(item.startDateMs)));
+            const x2 = this.snapToPixelInt(Number((xScale as any)(item.endDateMs)));
+            return [Math.min(x1, x2), Math.max(x1, x2)];
+        };
+        const tooltipData = (item: JourneyItem): VisualTooltipDataItem[] => item.tooltipItems.map((row) => ({
+            displayName: row.displayName,
+            value: row.value
+        }));
+
+        const laneLayer = this.getLayer(panel, `journey-lane-${lane}`);
+        const itemGroups = this.joinMarks<SVGGElement, LanePlacement>(laneLayer, "g.journey-item", layout.placements, (p) => p.item.selectionKey, (group) => group
+            .attr("opacity", (p) => hasIncomingHighlights ? (p.item.isHighlighted ? 1 : 0.32) : 1))
+            .attr("data-selection-key", (p) => p.item.selectionKey)
+            .attr("data-legend-key", (p) => p.item.statusKey);
+
+        this.joinMarks<SVGLineElement, LanePlacement>(itemGroups, "line.journey-connector", (p: LanePlacement) => hasCard(p) ? [p] : [], (p) => p.item.selectionKey, (line) => line
+            .attr("x1", (p) => anchorX(p.item))
+            .attr("x2", (p) => anchorX(p.item))
+            .attr("y1", spineY)
+            .attr("y2", (p) => lane === "top" ? p.y + p.height : p.y)
+            .attr("stroke", (p) => itemColor(p.item))
+            .attr("opacity", this.settings.marker.connectorOpacity))
+            .attr("stroke-width", 1.4)
+            .attr("data-selection-key", (p) => p.item.selectionKey);
+
+        this.joinMarks<SVGLineElement, LanePlacement>(itemGroups, "line.journey-span", (p: LanePlacement) => hasSpan(p.item) ? [p] : [], (p) => p.item.selectionKey, (line) => line
+            .attr("x1", (p) => spanX(p.item)[0])
+            .attr("x2", (p) => spanX(p.item)[1])
+            .attr("y1", spineY)
+            .attr("y2", spineY)
+            .attr("stroke", (p) => itemColor(p.item))
+            .attr("stroke-width", this.settings.marker.spanThickness)
+            .attr("opacity", 0.94))
+            .attr("stroke-linecap", "round")
+            .attr("data-selection-key", (p) => p.item.selectionKey);
+
+        this.joinMarks<SVGCircleElement, LanePlacement>(itemGroups, "circle.journey-marker", (p: LanePlacement) => [p], (p) => p.item.selectionKey, (circle) => circle
+            .attr("cx", (p) => anchorX(p.item))
+            .attr("cy", spineY)
+            .attr("r", this.settings.marker.milestoneRadius)
+            .attr("fill", (p) => p.item.kind === "milestone" ? "#ffffff" : itemColor(p.item))
+            .attr("stroke", (p) => itemColor(p.item))
+            .attr("stroke-width", (p) => p.item.kind === "milestone" ? 3 : 2))
+            .attr("data-selection-key", (p) => p.item.selectionKey)
+            .style("pointer-events", "all")
+            .each((p, i, nodes) => {
+                this.addTooltip(d3.select(nodes[i]) as any, tooltipData(p.item), {
+                    title: p.item.title,
+                    subtitle: p.item.statusKey,
+                    color: itemColor(p.item)
+                });
+            });
 
-        layout.placements.forEach((placement) => {
-            const item = placement.item;
-            const color = statusColorScale(item.statusKey);
-            const anchorX = this.snapToPixelInt(Number((xScale as any)(item.anchorDateMs)));
-            const shouldRenderCard = visibleCardKeys.has(item.selectionKey);
-            const connectorEndY = lane === "top" ? placement.y + placement.height : placement.y;
-
-            const itemGroup = panel.append("g")
-                .attr("class", "journey-item")
-                .attr("data-selection-key", item.selectionKey)
-                .attr("opacity", hasIncomingHighlights ? (item.isHighlighted ? 1 : 0.32) : 1);
-
-            if (shouldRenderCard) {
-                itemGroup.append("line")
-                    .attr("class", "journey-connector")
-                    .attr("x1", anchorX)
-                    .attr("x2", anchorX)
-                    .attr("y1", spineY)
-                    .attr("y2", connectorEndY)
-                    .attr("stroke", color)
-                    .attr("stroke-width", 1.4)
-                    .attr("opacity", this.settings.marker.connectorOpacity)
+        // The card moves with its placement; its contents are drawn again each render.
+        this.joinMarks<SVGGElement, LanePlacement>(itemGroups, "g.journey-card-group", (p: LanePlacement) => hasCard(p) ? [p] : [], (p) => p.item.selectionKey, (group) => group
+            .attr("transform", (p) => `translate(${Math.round(p.x)}, ${Math.round(p.y)})`))
+            .each((placement, i, nodes) => {
+                const item = placement.item;
+                const color = itemColor(item);
+                const cardGroup = d3.select(nodes[i]);
+                cardGroup.selectAll("*").remove();
+
+                const card = cardGroup.append("rect")
+                    .attr("class", "journey-card")
+                    .attr("width", placement.width)
+                    .attr("height", placement.height)
+                    .attr("rx", this.settings.card.cornerRadius)
+                    .attr("ry", this.settings.card.cornerRadius)
+                    .attr("fill", cardFill)
+                    .attr("stroke", cardStroke)
+                    .attr("stroke-width", this.settings.card.borderWidth)
+                    .style("filter", this.settings.card.shadow ? "drop-shadow(0 2px 5px rgba(15, 23, 42, 0.12))" : null)
                     .attr("data-selection-key", item.selectionKey);
-            }
 
-            if (item.kind === "span" && item.startDateMs !== null && item.endDateMs !== null) {
-                const x1 = this.snapToPixelInt(Number((xScale as any)(item.startDateMs)));
-                const x2 = this.snapToPixelInt(Number((xScale as any)(item.endDateMs)));
-                itemGroup.append("line")
-                    .attr("class", "journey-span")
-                    .attr("x1", Math.min(x1, x2))
-                    .attr("x2", Math.max(x1, x2))
-                    .attr("y1", spineY)
-                    .attr("y2", spineY)
-                    .attr("stroke", color)
-                    .attr("stroke-width", this.settings.marker.spanThickness)
-                    .attr("stroke-linecap", "round")
-                    .attr("opacity", 0.94)
+                cardGroup.append("rect")
+                    .attr("class", "journey-card-status")
+                    .attr("width", placement.width)
+                    .attr("height", 4)
+                    .attr("rx", this.settings.card.cornerRadius)
+                    .attr("ry", this.settings.card.cornerRadius)
+                    .attr("fill", color)
                     .attr("data-selection-key", item.selectionKey);
-            }
 
-            const marker = itemGroup.append("circle")
-                .attr("class", "journey-marker")
-                .attr("cx", anchorX)
-                .attr("cy", spineY)
-                .attr("r", this.settings.marker.milestoneRadius)
-                .attr("fill", item.kind === "milestone" ? "#ffffff" : color)
-                .attr("stroke", color)
-                .attr("stroke-width", item.kind === "milestone" ? 3 : 2)
-                .attr("data-selection-key", item.selectionKey)
-                .style("pointer-events", "all") as any;
-
-            if (!shouldRenderCard) {
-                const tooltipData: VisualTooltipDataItem[] = item.tooltipItems.map((row) => ({
-                    displayName: row.displayName,
-                    value: row.value
-                }));
-
-                this.addTooltip(marker, tooltipData, {
-                    title: item.title,
-                    subtitle: item.statusKey,
-                    color
-                });
-                return;
-            }
+                const titlePaddingX = 10;
+                const titleWidth = Math.max(20, placement.width - (titlePaddingX * 2));
+                const titleText = formatLabel(item.title, titleWidth, this.settings.text.titleFontSize);
+                const subtitlePrimary = item.subtitle || (item.group !== localize("Visual_Blank") ? item.group : "");
+                const subtitleSecondary = item.subtitle && item.group !== localize("Visual_Blank") ? item.group : "";
 
-            const cardGroup = itemGroup.append("g")
-                .attr("class", "journey-card-group")
-                .attr("transform", `translate(${Math.round(placement.x)}, ${Math.round(placement.y)})`);
-
-            cardGroup.append("rect")
-                .attr("class", "journey-card")
-                .attr("width", placement.width)
-                .attr("height", placement.height)
-                .attr("rx", this.settings.card.cornerRadius)
-                .attr("ry", this.settings.card.cornerRadius)
-                .attr("fill", cardFill)
-                .attr("stroke", cardStroke)
-                .attr("stroke-width", this.settings.card.borderWidth)
-                .style("filter", this.settings.card.shadow ? "drop-shadow(0 2px 5px rgba(15, 23, 42, 0.12))" : null)
-                .attr("data-selection-key", item.selectionKey);
-
-            cardGroup.append("rect")
-                .attr("class", "journey-card-status")
-                .attr("width", placement.width)
-                .attr("height", 4)
-                .attr("rx", this.settings.card.cornerRadius)
-                .attr("ry", this.settings.card.cornerRadius)
-                .attr("fill", color)
-                .attr("data-selection-key", item.selectionKey);
-
-            const titlePaddingX = 10;
-            const titleWidth = Math.max(20, placement.width - (titlePaddingX * 2));
-            const titleText = formatLabel(item.title, titleWidth, this.settings.text.titleFontSize);
-            const subtitlePrimary = item.subtitle || (item.group !== "(Blank)" ? item.group : "");
-            const subtitleSecondary = item.subtitle && item.group !== "(Blank)" ? item.group : "";
-
-            cardGroup.append("text")
-                .attr("class", "journey-card-title")
-                .attr("x", titlePaddingX)
-                .attr("y", 22)
-                .attr("font-size", `${this.settings.text.titleFontSize}px`)
-                .attr("font-weight", "700")
-                .attr("fill", this.settings.text.titleColor)
-                .text(titleText)
-                .attr("data-selection-key", item.selectionKey);
-
-            if (subtitlePrimary) {
                 cardGroup.append("text")
-                    .attr("class", "journey-card-subtitle")
+                    .attr("class", "journey-card-title")
                     .attr("x", titlePaddingX)
-                    .attr("y", 40)
-                    .attr("font-size", `${this.settings.text.subtitleFontSize}px`)
-                    .attr("fill", this.settings.text.subtitleColor)
-                    .text(formatLabel(subtitlePrimary, titleWidth, this.settings.text.subtitleFontSize))
+                    .attr("y", 22)
+                    .attr("font-size", `${this.settings.text.titleFontSize}px`)
+                    .attr("font-weight", "700")
+                    .attr("fill", this.settings.text.titleColor)
+                    .text(titleText)
                     .attr("data-selection-key", item.selectionKey);
-            }
 
-            if (subtitleSecondary) {
-                cardGroup.append("text")
-                    .attr("class", "journey-card-group")
-                    .attr("x", titlePaddingX)
-                    .attr("y", 56)
-                    .attr("font-size", `${Math.max(8, this.settings.text.subtitleFontSize - 1)}px`)
-                    .attr("fill", this.settings.text.subtitleColor)
-                    .text(formatLabel(subtitleSecondary, titleWidth, Math.max(8, this.settings.text.subtitleFontSize - 1)))
-                    .attr("data-selection-key", item.selectionKey);
-            }
-
-            const tooltipData: VisualTooltipDataItem[] = item.tooltipItems.map((row) => ({
-                displayName: row.displayName,
-                value: row.value
-            }));
+                if (subtitlePrimary) {
+                    cardGroup.append("text")
+                        .attr("class", "journey-card-subtitle")
+                        .attr("x", titlePaddingX)
+                        .attr("y", 40)
+                        .attr("font-size", `${this.settings.text.subtitleFontSize}px`)
+                        .attr("fill", this.settings.text.subtitleColor)
+                        .text(formatLabel(subtitlePrimary, titleWidth, this.settings.text.subtitleFontSize))
+                        .attr("data-selection-key", item.selectionKey);
+                }
 
-            this.addTooltip(marker, tooltipData, {
-                title: item.title,
-                subtitle: item.statusKey,
-                color
-            });
+                if (subtitleSecondary) {
+                    cardGroup.append("text")
+                        .attr("class", "journey-card-group")
+                        .attr("x", titlePaddingX)
+                        .attr("y", 56)
+                        .attr("font-size", `${Math.max(8, this.settings.text.subtitleFontSize - 1)}px`)
+                        .attr("fill", this.settings.text.subtitleColor)
+                        .text(formatLabel(subtitleSecondary, titleWidth, Math.max(8, this.settings.text.subtitleFontSize - 1)))
+                        .attr("data-selection-key", item.selectionKey);
+                }
 
-            this.addTooltip(cardGroup.select("rect.journey-card") as any, tooltipData, {
-                title: item.title,
-                subtitle: item.statusKey,
-                color
+                this.addTooltip(card as any, tooltipData(item), {
+                    title: item.title,
+                    subtitle: item.statusKey,
+                    color
+                });
             });
-        });
     }
 
     private layoutLane(
@@ -687,4 +659,34 @@ export class StrategicJourneyRenderer extends BaseRenderer<IStrategicJourneyVisu
 
         return selected;
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_StrategicJourneyTimeline");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const chartData = data as JourneyChartData;
+        const dateFormatter = new Intl.DateTimeFormat(undefined, { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+        const formatDate = (value: number | null): string => value === null ? "" : dateFormatter.format(new Date(value));
+        const milestoneCount = chartData.items.filter((item) => item.kind === "milestone").length;
+        const spanCount = chartData.items.length - milestoneCount;
+        const range = chartData.items.length
+            ? localizeFormat("Visual_A11y_DateRange", formatDate(chartData.minDateMs), formatDate(chartData.maxDateMs))
+            : "";
+        return {
+            label: localizeFormat("Visual_A11y_JourneySummary", this.getAccessibleChartType(), spanCount, milestoneCount, range),
+            table: this.buildAccessibleTable(() => ({
+                caption: localizeFormat("Visual_A11y_ItemsCaption", this.getAccessibleChartType()),
+                columns: ["Visual_Title", "Visual_Group", "Visual_Status", "Visual_Start", "Visual_End", "Visual_Milestone"].map((key) => localize(key)),
+                rows: chartData.items.map((item) => [
+                    item.title,
+                    item.group,
+                    item.statusKey,
+                    formatDate(item.startDateMs),
+                    formatDate(item.endDateMs),
+                    formatDate(item.milestoneDateMs)
+                ])
+            }))
+        };
+    }
 }
@@ -12,7 +12,11 @@ import {
     formatDataValue,
     formatGroupValue,
     formatMeasureValue,
-    getCategoricalHighlightState
+    getCategoricalHighlightState,
+    localize,
+    getFormatLocale,
+    createDisplayUnitFormatter,
+    IDisplayUnitSettings
 } from "@pbi-visuals/shared";
 
 export type JourneyItemKind = "milestone" | "span";
@@ -179,13 +183,16 @@ function getDeepestValue(columns: RoleColumn[], rowIndex: number): any {
     return columns.length > 0 ? columns[0].values[rowIndex] : null;
 }
 
-function formatTooltipValue(value: any, formatString?: string): string {
-    if (value === null || value === undefined || value === "") return "(Blank)";
+function formatTooltipValue(value: any, formatString: string | undefined, displayUnits: IDisplayUnitSettings | undefined): string {
+    if (value === null || value === undefined || value === "") return localize("Visual_Blank");
     if (typeof value === "number" && Number.isFinite(value)) {
-        return formatMeasureValue(value, formatString);
+        return createDisplayUnitFormatter(displayUnits, "tooltip", formatString)(value);
     }
     if (value instanceof Date) {
-        return new Intl.DateTimeFormat(undefined, {
+        if (formatString) {
+            return formatMeasureValue(value, formatString);
+        }
+        return new Intl.DateTimeFormat(getFormatLocale(), {
             year: "numeric",
             month: "short",
             day: "numeric",
@@ -195,7 +202,7 @@ function formatTooltipValue(value: any, formatString?: string): string {
     return String(value);
 }
 
-function buildCategoricalRows(dataView: DataView): {
+function buildCategoricalRows(dataView: DataView, displayUnits: IDisplayUnitSettings | undefined): {
     rows: RowDraft[];
     titleCategoryColumn: DataViewCategoryColumn | null;
     hasIncomingHighlights: boolean;
@@ -252,7 +259,7 @@ function buildCategoricalRows(dataView: DataView): {
     for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
         const tooltipRows: JourneyTooltipItem[] = tooltipColumns.map((column) => ({
             displayName: column.source.displayName || "Tooltip",
-            value: formatTooltipValue(column.values[rowIndex], (column.source as any)?.format as string | undefined)
+            value: formatTooltipValue(column.values[rowIndex], (column.source as any)?.format as string | undefined, displayUnits)
         }));
 
         rows.push({
@@ -278,7 +285,7 @@ function buildCategoricalRows(dataView: DataView): {
         };
 }
 
-function buildTableRows(dataView: DataView): RowDraft[] {
+function buildTableRows(dataView: DataView, displayUnits: IDisplayUnitSettings | undefined): RowDraft[] {
     const table = dataView.table;
     if (!table?.rows?.length || !table.columns?.length) {
         return [];
@@ -317,13 +324,13 @@ function buildTableRows(dataView: DataView): RowDraft[] {
         sortRaw: sortIdx >= 0 ? row[sortIdx] : null,
         tooltipRows: tooltipIndexes.map((idx) => ({
             displayName: table.columns[idx].displayName || "Tooltip",
-            value: formatTooltipValue(row[idx], (table.columns[idx] as any)?.format as string | undefined)
+            value: formatTooltipValue(row[idx], (table.columns[idx] as any)?.format as string | undefined, displayUnits)
         }))
     }));
 }
 
 export class StrategicJourneyTransformer {
-    public static transform(dataView: DataView): JourneyChartData {
+    public static transform(dataView: DataView, displayUnits?: IDisplayUnitSettings): JourneyChartData {
         const empty: JourneyChartData = {
             dataPoints: [],
             xValues: [],
@@ -343,8 +350,8 @@ export class StrategicJourneyTransformer {
             return empty;
         }
 
-        const categoricalResult = buildCategoricalRows(dataView);
-        const tableRows = buildTableRows(dataView);
+        const categoricalResult = buildCategoricalRows(dataView, displayUnits);
+        const tableRows = buildTableRows(dataView, displayUnits);
 
         const sourceRows = categoricalResult.rows.length > 0 ? categoricalResult.rows : tableRows;
         if (!sourceRows.length) {
@@ -417,7 +424,7 @@ export class StrategicJourneyTransformer {
 
             const tooltipItems: JourneyTooltipItem[] = [
                 {
-                    displayName: "Status",
+                    displayName: localize("Visual_Status"),
                     value: statusKey
                 },
                 {
@@ -435,7 +442,7 @@ export class StrategicJourneyTransformer {
 
             if (kind === "span" && endDateMs !== null) {
                 tooltipItems.push({
-                    displayName: "End",
+                    displayName: localize("Visual_End"),
                     value: new Intl.DateTimeFormat(undefined, {
                         year: "numeric",
                         month: "short",
@@ -446,7 +453,7 @@ export class StrategicJourneyTransformer {
 
                 if (milestoneDateMs !== null) {
                     tooltipItems.push({
-                        displayName: "Milestone",
+                        displayName: localize("Visual_Milestone"),
                         value: new Intl.DateTimeFormat(undefined, {
                             year: "numeric",
                             month: "short",
@@ -457,9 +464,9 @@ export class StrategicJourneyTransformer {
                 }
             }
 
-            if (group && group !== "(Blank)") {
+            if (group && group !== localize("Visual_Blank")) {
                 tooltipItems.push({
-                    displayName: "Group",
+                    displayName: localize("Visual_Group"),
                     value: group
                 });
             }
@@ -520,7 +527,7 @@ export class StrategicJourneyTransformer {
         });
 
         const statuses = Array.from(new Set(items.map((item) => item.statusKey))).sort((a, b) => a.localeCompare(b));
-        const groups = Array.from(new Set(items.map((item) => item.group))).filter((group) => group && group !== "(Blank)");
+        const groups = Array.from(new Set(items.map((item) => item.group))).filter((group) => group && group !== localize("Visual_Blank"));
 
         const allBoundaryValues = items.flatMap((item) => {
             if (item.kind === "span" && item.startDateMs !== null && item.endDateMs !== null) {
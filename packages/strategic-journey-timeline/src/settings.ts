@@ -6,11 +6,18 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultCustomColorSettings,
     defaultLegendSettings,
     defaultSmallMultiplesSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -56,6 +63,7 @@ export const defaultSettings: IStrategicJourneyVisualSettings = {
     legendPosition: defaultLegendSettings.legendPosition as LegendPosition,
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showLegend: true,
     showXAxis: true,
     xAxisFontSize: 10,
@@ -73,6 +81,9 @@ export const defaultSettings: IStrategicJourneyVisualSettings = {
     yAxisColor: "#64748b",
     rotateXLabels: "auto",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     smallMultiples: { ...defaultSmallMultiplesSettings },
@@ -121,6 +132,7 @@ export function parseSettings(dataView: DataView): IStrategicJourneyVisualSettin
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
         settings.legendFontSize = Math.max(6, Math.min(40, Number(settings.legendFontSize) || defaultSettings.legendFontSize));
         settings.maxLegendItems = Math.max(1, Math.min(200, Number(settings.maxLegendItems) || defaultSettings.maxLegendItems));
     }
@@ -147,6 +159,10 @@ export function parseSettings(dataView: DataView): IStrategicJourneyVisualSettin
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
         settings.useCustomColors = (customColorsObj["useCustomColors"] as boolean) ?? defaultSettings.useCustomColors;
@@ -16,31 +16,50 @@ import {
     RenderContext,
     HtmlTooltip,
     bindSelectionByDataKey,
+    bindContextMenu,
     createDataColorsCard,
     createColorSchemeCard,
     createLegendCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     createXAxisCard,
     getSchemeColors,
-    readCategoryColorsFromDataView
+    readCategoryColorsFromDataView,
+    createConditionalColorLookup,
+    addRuleColorForKey,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    localize,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 
 import { IStrategicJourneyVisualSettings, parseSettings } from "./settings";
 import { JourneyChartData, StrategicJourneyTransformer } from "./StrategicJourneyTransformer";
 import { StrategicJourneyRenderer } from "./StrategicJourneyRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 function createTimelineCard(settings: IStrategicJourneyVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Timeline",
+        displayName: localize("Visual_Timeline"),
         uid: "timeline_card",
         groups: [
             {
-                displayName: "Layout",
+                displayName: localize("Visual_Layout"),
                 uid: "timeline_layout_group",
                 slices: [
                     {
                         uid: "timeline_showTodayLine",
-                        displayName: "Show Today Line",
+                        displayName: localize("Visual_ShowTodayLine"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -51,7 +70,7 @@ function createTimelineCard(settings: IStrategicJourneyVisualSettings): powerbi.
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_spineThickness",
-                        displayName: "Spine Thickness",
+                        displayName: localize("Visual_SpineThickness"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -66,7 +85,7 @@ function createTimelineCard(settings: IStrategicJourneyVisualSettings): powerbi.
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_laneGap",
-                        displayName: "Lane Gap",
+                        displayName: localize("Visual_LaneGap"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -81,7 +100,7 @@ function createTimelineCard(settings: IStrategicJourneyVisualSettings): powerbi.
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_cardBandHeight",
-                        displayName: "Card Band Height",
+                        displayName: localize("Visual_CardBandHeight"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -102,16 +121,16 @@ function createTimelineCard(settings: IStrategicJourneyVisualSettings): powerbi.
 
 function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Cards",
+        displayName: localize("Visual_Cards"),
         uid: "cards_card",
         groups: [
             {
-                displayName: "Style",
+                displayName: localize("Visual_Style"),
                 uid: "cards_style_group",
                 slices: [
                     {
                         uid: "cards_minWidth",
-                        displayName: "Min Width",
+                        displayName: localize("Visual_MinWidth"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -126,7 +145,7 @@ function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "cards_maxWidth",
-                        displayName: "Max Width",
+                        displayName: localize("Visual_MaxWidth"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -141,7 +160,7 @@ function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "cards_cornerRadius",
-                        displayName: "Corner Radius",
+                        displayName: localize("Visual_CornerRadius"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -156,7 +175,7 @@ function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "cards_borderWidth",
-                        displayName: "Border Width",
+                        displayName: localize("Visual_BorderWidth"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -171,7 +190,7 @@ function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "cards_shadow",
-                        displayName: "Shadow",
+                        displayName: localize("Visual_Shadow"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -188,16 +207,16 @@ function createCardSettingsCard(settings: IStrategicJourneyVisualSettings): powe
 
 function createTextSettingsCard(settings: IStrategicJourneyVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Card Text",
+        displayName: localize("Visual_CardText"),
         uid: "card_text_card",
         groups: [
             {
-                displayName: "Typography",
+                displayName: localize("Visual_Typography"),
                 uid: "card_text_group",
                 slices: [
                     {
                         uid: "card_text_titleFontSize",
-                        displayName: "Title Font Size",
+                        displayName: localize("Visual_TitleFontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -212,7 +231,7 @@ function createTextSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "card_text_subtitleFontSize",
-                        displayName: "Subtitle Font Size",
+                        displayName: localize("Visual_SubtitleFontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -227,7 +246,7 @@ function createTextSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "card_text_titleColor",
-                        displayName: "Title Color",
+                        displayName: localize("Visual_TitleColor"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ColorPicker,
                             properties: {
@@ -238,7 +257,7 @@ function createTextSettingsCard(settings: IStrategicJourneyVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "card_text_subtitleColor",
-                        displayName: "Subtitle Color",
+                        displayName: localize("Visual_SubtitleColor"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ColorPicker,
                             properties: {
@@ -255,16 +274,16 @@ function createTextSettingsCard(settings: IStrategicJourneyVisualSettings): powe
 
 function createMarkerCard(settings: IStrategicJourneyVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Markers",
+        displayName: localize("Visual_Markers"),
         uid: "markers_card",
         groups: [
             {
-                displayName: "Style",
+                displayName: localize("Visual_Style"),
                 uid: "markers_group",
                 slices: [
                     {
                         uid: "markers_milestoneRadius",
-                        displayName: "Milestone Radius",
+                        displayName: localize("Visual_MilestoneRadius"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -279,7 +298,7 @@ function createMarkerCard(settings: IStrategicJourneyVisualSettings): powerbi.vi
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "markers_spanThickness",
-                        displayName: "Span Thickness",
+                        displayName: localize("Visual_SpanThickness"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -294,7 +313,7 @@ function createMarkerCard(settings: IStrategicJourneyVisualSettings): powerbi.vi
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "markers_connectorOpacity",
-                        displayName: "Connector Opacity",
+                        displayName: localize("Visual_ConnectorOpacity"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -322,11 +341,11 @@ function createStatusColorsCard(
     const card = createDataColorsCard(statuses, statusSelectionIds, statusColors, defaultColors);
     return {
         ...card,
-        displayName: "Status Colors",
+        displayName: localize("Visual_StatusColors"),
         uid: "status_colors_card",
         groups: card.groups.map((group, index) => ({
             ...group,
-            displayName: "Colors",
+            displayName: localize("Visual_Colors"),
             uid: `status_colors_group_${index}`
         }))
     };
@@ -359,6 +378,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-strategic-journey-${Visual.instanceCounter++}`;
@@ -369,6 +390,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -407,8 +436,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-            this.svg.selectAll("*").remove();
-            this.container = this.svg.append("g").classed("chart-container", true);
             this.htmlTooltip?.hide();
             this.itemSelectionIds.clear();
             this.statusSelectionIds.clear();
@@ -427,19 +454,20 @@ export class Visual implements IVisual {
             });
 
             if (!options.dataViews || !options.dataViews[0] || (!options.dataViews[0].categorical && !options.dataViews[0].table)) {
-                this.renderNoData();
+                this.renderNoData(width, height);
                 return;
             }
 
             const dataView = options.dataViews[0];
             this.settings = parseSettings(dataView);
+            applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
             this.syncHtmlTooltip();
 
-            this.chartData = StrategicJourneyTransformer.transform(dataView);
+            this.chartData = StrategicJourneyTransformer.transform(dataView, this.settings.displayUnits);
             if (!this.chartData.items.length) {
                 this.target.style.overflowX = "hidden";
                 this.target.style.overflowY = "hidden";
-                this.renderNoData();
+                this.renderNoData(width, height, dataView);
                 return;
             }
 
@@ -448,7 +476,7 @@ export class Visual implements IVisual {
 
             const fallbackColors = this.settings.useCustomColors && this.settings.customColors.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             const seededColors = new Map(this.statusColors);
             this.chartData.statuses.forEach((status, index) => {
@@ -458,6 +486,13 @@ export class Visual implements IVisual {
             });
             this.chartData.categoryColorMap = seededColors;
 
+            const ruleColors = createConditionalColorLookup(dataView);
+            const ruleColorsByKey = new Map<string, string>();
+            this.chartData.items.forEach((item) => {
+                addRuleColorForKey(ruleColorsByKey, item.selectionKey, ruleColors.getRowColor(item.sourceRowIndex));
+            });
+            this.chartData.ruleColorsByKey = ruleColorsByKey;
+
             this.drawChart(width, height);
         } catch (error) {
             completed = false;
@@ -539,7 +574,7 @@ export class Visual implements IVisual {
 
         const seen = new Set<string>();
         for (let rowIndex = 0; rowIndex < statusColumn.values.length; rowIndex++) {
-            const status = String(statusColumn.values[rowIndex] ?? "(Blank)");
+            const status = String(statusColumn.values[rowIndex] ?? localize("Visual_Blank"));
             if (!seen.has(status)) {
                 seen.add(status);
                 const selectionId = this.host.createSelectionIdBuilder()
@@ -550,8 +585,13 @@ export class Visual implements IVisual {
         }
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["title", "startDate"], dataView),
+            illustration: "timeline"
+        });
     }
 
     private drawChart(viewportWidth: number, viewportHeight: number): void {
@@ -559,9 +599,6 @@ export class Visual implements IVisual {
             return;
         }
 
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
-
         const contentWidth = this.computeScrollableWidth(viewportWidth, this.chartData);
         this.target.style.overflowX = contentWidth > viewportWidth ? "auto" : "hidden";
         this.target.style.overflowY = "hidden";
@@ -585,6 +622,7 @@ export class Visual implements IVisual {
 
         this.renderer = new StrategicJourneyRenderer(context);
         this.renderer.render(this.chartData, this.settings);
+        this.renderer.renderAccessibility(this.chartData);
         this.bindInteractions();
     }
 
@@ -620,6 +658,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".journey-item[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions || this.itemSelectionIds.size === 0) {
             return;
@@ -646,17 +689,6 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest("[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 
     public getFormattingModel(): powerbi.visuals.FormattingModel {
@@ -669,7 +701,7 @@ export class Visual implements IVisual {
         if (this.chartData && this.chartData.statuses.length > 0) {
             const fallbackColors = this.settings.useCustomColors && this.settings.customColors.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             cards.push(createStatusColorsCard(
                 this.chartData.statuses,
@@ -680,6 +712,10 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
@@ -687,7 +723,8 @@ export class Visual implements IVisual {
             show: this.settings.showLegend,
             position: this.settings.legendPosition,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createXAxisCard({
@@ -1,6 +1,6 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, calculateLabelRotation, formatLabel, measureMaxLabelWidth, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, AnnotationPoint, AnnotationTarget, calculateLabelRotation, findAnnotationTarget, formatLabel, getPanelAnnotations, measureMaxLabelWidth, localize, includeReferenceLines, matchesAnnotationKey, ALL_GROUP } from "@pbi-visuals/shared";
 import { IStreamgraphVisualSettings } from "./settings";
 import { StreamgraphData } from "./StreamgraphTransformer";
 
@@ -9,7 +9,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
         super(context);
     }
 
-    public render(data: ChartData, settings: IStreamgraphVisualSettings): void {
+    protected draw(data: ChartData, settings: IStreamgraphVisualSettings): void {
         this.settings = settings;
         const streamData = data as StreamgraphData;
 
@@ -29,7 +29,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             40
         );
 
-        const formatTick = (v: number): string => formatMeasureValue(v, streamData.valueFormatString);
+        const formatTick = this.getValueFormatter("axis", streamData.valueFormatString, Number.isFinite(maxStackSum) ? maxStackSum : 0);
 
         // Reserve space for Y-axis tick labels when enabled (native-like)
         let leftMargin = 20;
@@ -48,6 +48,10 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             return val;
         };
         const xDisplayLabels = xValues.map(formatXLabel);
+        const annotationTargets: AnnotationTarget[] = xValues.map((x, i) => {
+            const date = new Date(x).getTime();
+            return { key: x, label: xDisplayLabels[i], date: isNaN(date) ? undefined : date };
+        });
 
         const legendReserve = this.getLegendReservation({ isOrdinal: true, categories: legendCategories });
 
@@ -57,7 +61,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             6,
             40
         );
-        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== "All" && g !== "(Blank)"));
+        const hasPanelTitles = Boolean(settings.smallMultiples.showTitle && groups.length > 1 && groups.some(g => g !== ALL_GROUP && g !== localize("Visual_Blank")));
         const titleReserve = hasPanelTitles ? Math.round(titleSpacing + panelTitleFontSize + 8) : 0;
         const interPanelGap = groups.length > 1
             ? (hasPanelTitles ? Math.max(settings.smallMultiples.spacing, titleReserve) : settings.smallMultiples.spacing)
@@ -75,6 +79,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
         const availableHeight = this.context.height - margin.top - margin.bottom - totalSpacing;
         const chartWidth = this.context.width - margin.left - margin.right;
 
+        const crosshair = this.createCrosshairSync(groups.length);
         let currentY = margin.top;
 
         groups.forEach((groupName, groupIndex) => {
@@ -83,12 +88,10 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             const groupYValues = [...new Set(groupData.map(d => d.yValue))].sort();
             const groupStack = stackedDataByGroup.get(groupName) ?? new Map<string, Map<string, number>>();
 
-            const panelGroup = this.context.container.append("g")
-                .attr("class", "streamgraph-panel")
-                .attr("transform", `translate(${margin.left}, ${currentY})`);
+            const panelGroup = this.getPanel(groupName, margin.left, currentY, "streamgraph-panel");
 
             // Group title with configurable spacing
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All" && groupName !== "(Blank)") {
+            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP && groupName !== localize("Visual_Blank")) {
                 const titleSpacing = settings.smallMultiples.titleSpacing || 25;
                 const titleBase = settings.smallMultiples.titleFontSize;
                 const titleRequested = settings.textSizes.panelTitleFontSize > 0 ? settings.textSizes.panelTitleFontSize : titleBase;
@@ -104,7 +107,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
                     .text(displayTitle);
 
                 if (displayTitle !== groupName) {
-                    this.addTooltip(title as any, [{ displayName: "Group", value: groupName }]);
+                    this.addTooltip(title as any, [{ displayName: localize("Visual_Group"), value: groupName }]);
                 }
             }
 
@@ -142,36 +145,35 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
                 });
             });
 
+            // The axis shows stacked positions, so statistics run over the stream's upper edge.
+            const upperEdge = stackInput.map((_, index) => Math.max(...series.map((s) => s[index][1])));
+            const referenceLines = this.getReferenceLines(streamData, upperEdge);
+
             const yScale = d3.scaleLinear()
-                .domain([yMin, yMax])
+                .domain(includeReferenceLines([yMin, yMax], referenceLines))
                 .range([groupHeight, 0]);
 
             // Y-axis ticks
             if (settings.showYAxis) {
-                const yAxisGroup = panelGroup.append("g")
-                    .attr("class", "y-axis");
-
-                const ticks = yScale.ticks(5);
-                ticks.forEach(tick => {
-                    const y = Math.round(yScale(tick));
-                    yAxisGroup.append("text")
-                        .attr("x", -8)
-                        .attr("y", y)
-                        .attr("dy", "0.32em")
-                        .attr("text-anchor", "end")
-                        .attr("font-size", `${yAxisFontSize}px`)
-                        .attr("font-family", settings.yAxisFontFamily)
-                        .style("font-weight", settings.yAxisBold ? "700" : "400")
-                        .style("font-style", settings.yAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
-                        .attr("fill", yAxisColor)
-                        .text(formatTick(tick));
-                });
+                const yAxisGroup = this.getLayer(panelGroup, "y-axis");
+
+                this.joinMarks<SVGTextElement, number>(yAxisGroup, "text.tick-label", yScale.ticks(5), (tick) => formatTick(tick), (text) => text
+                    .attr("y", (tick) => Math.round(yScale(tick)))
+                    .attr("fill", yAxisColor))
+                    .attr("x", -8)
+                    .attr("dy", "0.32em")
+                    .attr("text-anchor", "end")
+                    .attr("font-size", `${yAxisFontSize}px`)
+                    .attr("font-family", settings.yAxisFontFamily)
+                    .style("font-weight", settings.yAxisBold ? "700" : "400")
+                    .style("font-style", settings.yAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.yAxisUnderline ? "underline" : "none")
+                    .text((tick) => formatTick(tick));
             }
 
             // Color scale (keep stable when a legend is bound)
             const colorDomain = streamData.hasLegendRoleData ? yValues : groupYValues;
-            const colorScale = this.getCategoryColors(colorDomain, streamData.categoryColorMap);
+            const colorScale = this.getCategoryColors(colorDomain, this.withRuleColors(streamData, streamData.categoryColorMap));
 
             // Area generator
             const area = d3.area<d3.SeriesPoint<Record<string, number>>>()
@@ -186,49 +188,87 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             }
 
             // SVG rendering
-            series.forEach((s, i) => {
-                const category = groupYValues[i];
-                const categoryColor = colorScale(category);
-
-                const path = panelGroup.append("path")
-                    .datum(s)
-                    .attr("class", "stream-layer")
-                    .attr("data-selection-key", category)
-                    .attr("d", area)
-                    .attr("fill", categoryColor)
-                    .attr("opacity", this.isHighContrastMode() ? 1 : settings.streamgraph.opacity)
-                    .attr("stroke", this.isHighContrastMode() ? this.getThemeBackground("#ffffff") : "none");
-
-                if (settings.tooltip.style === "custom") {
-                    this.addTooltipDynamic(path as any, (event: MouseEvent) => {
-                        const node = panelGroup.node() as any;
-                        const [px] = d3.pointer(event, node);
-                        const rawIndex = Math.round(xScale.invert(px));
-                        const index = Math.max(0, Math.min(xValues.length - 1, rawIndex));
-                        const rawValue = (stackInput[index]?.[category] ?? 0) as number;
-                        const valueLabel = streamData.valueDisplayName || "Value";
-
-                        return {
-                            meta: { title: category, subtitle: xDisplayLabels[index], color: categoryColor },
-                            tooltipData: [
-                                { displayName: valueLabel, value: formatMeasureValue(rawValue, streamData.valueFormatString), color: categoryColor },
-                                ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
-                            ]
-                        };
+            this.joinMarks<SVGPathElement, (typeof series)[number]>(panelGroup, "path.stream-layer", series, (s) => s.key, (path) => path
+                .attr("d", (s) => area(s))
+                .attr("fill", (s) => colorScale(s.key))
+                .attr("opacity", this.isHighContrastMode() ? 1 : settings.streamgraph.opacity))
+                .attr("data-selection-key", (s) => s.key)
+                .attr("stroke", this.isHighContrastMode() ? this.getThemeBackground("#ffffff") : "none")
+                .each((s, i, nodes) => {
+                    const category = s.key;
+                    const categoryColor = colorScale(category);
+                    const path = d3.select(nodes[i]);
+
+                    if (settings.tooltip.style === "custom") {
+                        this.addTooltipDynamic(path as any, (event: MouseEvent) => {
+                            const node = panelGroup.node() as any;
+                            const [px] = d3.pointer(event, node);
+                            const rawIndex = Math.round(xScale.invert(px));
+                            const index = Math.max(0, Math.min(xValues.length - 1, rawIndex));
+                            const rawValue = (stackInput[index]?.[category] ?? 0) as number;
+                            const valueLabel = streamData.valueDisplayName || localize("Visual_Value");
+
+                            return {
+                                meta: { title: category, subtitle: xDisplayLabels[index], color: categoryColor },
+                                tooltipData: [
+                                    { displayName: valueLabel, value: this.formatTooltipValue(rawValue, streamData.valueFormatString), color: categoryColor },
+                                    ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : [])
+                                ]
+                            };
+                        });
+                    } else {
+                        this.addTooltip(path as any, [
+                            { displayName: localize("Visual_Category"), value: category, color: categoryColor },
+                            ...(groupName !== ALL_GROUP && groupName !== localize("Visual_Blank") ? [{ displayName: localize("Visual_Group"), value: groupName }] : [])
+                        ]);
+                    }
+                });
+
+            this.renderReferenceLines(panelGroup, referenceLines, yScale, { width: chartWidth, height: groupHeight }, "horizontal");
+
+            // Notes sit on the top of their series' layer, or of the whole stream.
+            const annotationPoints: AnnotationPoint[] = [];
+            getPanelAnnotations(streamData.annotations, groupName).forEach((annotation) => {
+                const index = findAnnotationTarget(annotation.anchor, annotationTargets);
+                const layers = series.filter((s) => matchesAnnotationKey(annotation.anchor, s.key));
+                if (index < 0 || !layers.length) return;
+                annotationPoints.push({
+                    annotation,
+                    x: xScale(index),
+                    y: yScale(Math.max(...layers.map((s) => s[index][1])))
+                });
+            });
+            this.renderAnnotations(panelGroup, annotationPoints, { width: chartWidth, height: groupHeight });
+
+            // Hovering any panel shows the same x value in all of them; callouts sit mid-layer.
+            const xIndexByValue = new Map(xValues.map((x, index) => [x, index]));
+            crosshair?.addPanel(panelGroup, {
+                key: groupName,
+                width: chartWidth,
+                height: groupHeight,
+                pick: (px) => xValues[Math.max(0, Math.min(xValues.length - 1, Math.round(xScale.invert(px))))] ?? null,
+                locate: (xValue) => xIndexByValue.has(xValue) ? xScale(xIndexByValue.get(xValue)!) : null,
+                values: (xValue) => {
+                    const index = xIndexByValue.get(xValue);
+                    if (index === undefined) return [];
+                    return series.flatMap((s) => {
+                        const rawValue = (stackInput[index]?.[s.key] ?? 0) as number;
+                        if (!rawValue) return [];
+                        return [{
+                            label: s.key,
+                            value: this.formatTooltipValue(rawValue, streamData.valueFormatString),
+                            y: yScale((s[index][0] + s[index][1]) / 2),
+                            color: colorScale(s.key)
+                        }];
                     });
-                } else {
-                    this.addTooltip(path as any, [
-                        { displayName: "Category", value: category, color: categoryColor },
-                        ...(groupName !== "All" && groupName !== "(Blank)" ? [{ displayName: "Group", value: groupName }] : [])
-                    ]);
-                }
+                },
+                label: formatXLabel
             });
 
             // X-axis (only on last group) with smart rotation
             if (settings.showXAxis && groupIndex === groups.length - 1) {
-                const xAxisGroup = panelGroup.append("g")
-                    .attr("class", "x-axis")
-                    .attr("transform", `translate(0, ${Math.round(groupHeight)})`);
+                const xAxisGroup = this.getLayer(panelGroup, "x-axis", (layer) => layer
+                    .attr("transform", `translate(0, ${Math.round(groupHeight)})`));
 
                 const xAxisFontSize = this.getEffectiveFontSize(
                     settings.textSizes.xAxisFontSize > 0 ? settings.textSizes.xAxisFontSize : settings.xAxisFontSize,
@@ -269,32 +309,19 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
                         visibleXIndices.push(lastIdx);
                     }
                 }
-                const visibleSet = new Set(visibleXIndices);
-
-                xValues.forEach((_, i) => {
-                    if (!visibleSet.has(i)) return;
-
-                    const x = Math.round(xScale(i));
-
-                    const text = xAxisGroup.append("text")
-                        .attr("x", x)
-                        .attr("y", shouldRotate ? 5 : 15)
-                        .attr("font-size", `${xAxisFontSize}px`)
-                        .attr("font-family", settings.xAxisFontFamily)
-                        .style("font-weight", settings.xAxisBold ? "700" : "400")
-                        .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                        .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                        .attr("fill", xAxisColor)
-                        .text(xDisplayLabels[i]);
-
-                    if (shouldRotate) {
-                        text
-                            .attr("transform", `rotate(-45, ${x}, 5)`)
-                            .attr("text-anchor", "end");
-                    } else {
-                        text.attr("text-anchor", "middle");
-                    }
-                });
+
+                this.joinMarks<SVGTextElement, number>(xAxisGroup, "text.tick-label", visibleXIndices, (i) => xValues[i], (text) => text
+                    .attr("x", (i) => Math.round(xScale(i)))
+                    .attr("y", shouldRotate ? 5 : 15)
+                    .attr("transform", (i) => shouldRotate ? `rotate(-45, ${Math.round(xScale(i))}, 5)` : null)
+                    .attr("fill", xAxisColor))
+                    .attr("text-anchor", shouldRotate ? "end" : "middle")
+                    .attr("font-size", `${xAxisFontSize}px`)
+                    .attr("font-family", settings.xAxisFontFamily)
+                    .style("font-weight", settings.xAxisBold ? "700" : "400")
+                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                    .text((i) => xDisplayLabels[i]);
             }
 
             currentY += groupHeight + interPanelGap;
@@ -302,7 +329,7 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
 
         // Legend
         if (streamData.hasLegendRoleData) {
-            const categoryColors = this.getCategoryColors(yValues, streamData.categoryColorMap);
+            const categoryColors = this.getCategoryColors(yValues, this.withRuleColors(streamData, streamData.categoryColorMap));
             this.renderLegend(categoryColors, data.maxValue, true, yValues, undefined, undefined, {
                 alignFrame: {
                     x: margin.left,
@@ -313,4 +340,8 @@ export class StreamgraphRenderer extends BaseRenderer<IStreamgraphVisualSettings
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Streamgraph");
+    }
 }
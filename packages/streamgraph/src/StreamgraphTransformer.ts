@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatDataValue, formatGroupValue, sortDateValues } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatDataValue, formatGroupValue, sortDateValues, ALL_GROUP } from "@pbi-visuals/shared";
 
 export interface StreamgraphData extends ChartData {
     stackedDataByGroup: Map<string, Map<string, Map<string, number>>>;
@@ -48,7 +48,7 @@ export class StreamgraphTransformer {
             }
         } else {
             valueGroups.push({
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 values: (categorical.values?.[0]?.values as any[]) ?? [],
                 highlights: (categorical.values?.[0]?.highlights as any[]) ?? undefined
             });
@@ -6,11 +6,27 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultSmallMultiplesSettings,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IReferenceLinesSettings,
+    createDefaultReferenceLinesSettings,
+    parseReferenceLinesSettings,
+    IAnnotationSettings,
+    defaultAnnotationSettings,
+    parseAnnotationSettings,
+    ICrosshairSettings,
+    defaultCrosshairSettings,
+    parseCrosshairSettings,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -30,6 +46,9 @@ export interface IStreamgraphTextSizeSettings {
 export interface IStreamgraphVisualSettings extends IBaseVisualSettings {
     streamgraph: IStreamgraphSettings;
     textSizes: IStreamgraphTextSizeSettings;
+    referenceLines: IReferenceLinesSettings;
+    annotations: IAnnotationSettings;
+    crosshair: ICrosshairSettings;
 }
 
 export const defaultSettings: IStreamgraphVisualSettings = {
@@ -37,6 +56,7 @@ export const defaultSettings: IStreamgraphVisualSettings = {
     legendPosition: "topRight",
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showXAxis: true,
     xAxisFontSize: 10,
     xAxisFontFamily: "Segoe UI",
@@ -53,6 +73,12 @@ export const defaultSettings: IStreamgraphVisualSettings = {
     yAxisColor: "#333333",
     rotateXLabels: "auto",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    referenceLines: createDefaultReferenceLinesSettings(),
+    annotations: { ...defaultAnnotationSettings },
+    crosshair: { ...defaultCrosshairSettings },
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     streamgraph: {
@@ -88,6 +114,7 @@ export function parseSettings(dataView: DataView): IStreamgraphVisualSettings {
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     // Tooltip settings
@@ -113,6 +140,13 @@ export function parseSettings(dataView: DataView): IStreamgraphVisualSettings {
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.referenceLines = parseReferenceLinesSettings(objects);
+    settings.annotations = parseAnnotationSettings(objects);
+    settings.crosshair = parseCrosshairSettings(objects);
+
     // Custom colors settings
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
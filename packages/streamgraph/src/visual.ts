@@ -20,18 +20,40 @@ import {
     createStreamgraphSettingsCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    createReferenceLinesCard,
+    readReferenceMeasure,
+    createAnnotationsCard,
+    createCrosshairCard,
+    readAnnotations,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     createXAxisCard,
     createYAxisCard,
     findCategoryIndex,
     getSchemeColors,
     readCategoryColorsFromDataView,
+    readRuleColorsByCategory,
     HtmlTooltip,
-    bindSelectionByDataKey
+    bindSelectionByDataKey,
+    bindContextMenu,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    renderAccessibleSummary,
+    setLocalizationManager,
+    setFormatLocale
 } from "@pbi-visuals/shared";
 import { IStreamgraphVisualSettings, parseSettings } from "./settings";
 import { StreamgraphTransformer } from "./StreamgraphTransformer";
 import { StreamgraphRenderer } from "./StreamgraphRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 export class Visual implements IVisual {
     private static instanceCounter: number = 0;
     private target: HTMLElement;
@@ -57,6 +79,8 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-streamgraph-${Visual.instanceCounter++}`;
@@ -67,6 +91,14 @@ export class Visual implements IVisual {
             this.applySelectionState?.(ids);
         });
 
+        if (this.allowInteractions) {
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId
+            });
+        }
+
         this.svg = d3.select(this.target)
             .append("svg")
             .classed("pbi-visual", true)
@@ -86,9 +118,6 @@ export class Visual implements IVisual {
         let completed = true;
 
         try {
-        // Clear previous content
-        this.svg.selectAll("*").remove();
-        this.container = this.svg.append("g").classed("chart-container", true);
         this.htmlTooltip?.hide();
 
         const width = options.viewport.width;
@@ -104,7 +133,7 @@ export class Visual implements IVisual {
 
         // Validate data
         if (!options.dataViews || !options.dataViews[0] || !options.dataViews[0].categorical) {
-            this.renderNoData();
+            this.renderNoData(width, height);
             return;
         }
 
@@ -112,6 +141,7 @@ export class Visual implements IVisual {
 
         // Parse settings
         this.settings = parseSettings(dataView);
+        applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
         this.syncHtmlTooltip();
 
         // Prefer legend for series colors/selection IDs when bound; otherwise fall back to yAxis (legacy).
@@ -147,14 +177,14 @@ export class Visual implements IVisual {
 
         // Check if data is empty
         if (!chartData.dataPoints || chartData.dataPoints.length === 0) {
-            this.renderNoData();
+            this.renderNoData(width, height, dataView);
             return;
         }
 
         // Seed initial series colors so the rendered palette matches the Data Colors defaults.
         const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
             ? this.settings.customColors
-            : getSchemeColors(this.settings.colorScheme);
+            : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
         const seededColors = new Map<string, string>(this.categoryColors);
         chartData.yValues.forEach((k, i) => {
             if (!seededColors.has(k)) {
@@ -162,9 +192,13 @@ export class Visual implements IVisual {
             }
         });
         chartData.categoryColorMap = seededColors;
+        chartData.ruleColorsByKey = readRuleColorsByCategory(dataView, this.categoryFieldIndex);
+        chartData.referenceMeasure = readReferenceMeasure(dataView);
+        chartData.annotations = readAnnotations(dataView, this.settings.annotations, { x: "xAxis", key: ["legend", "yAxis"] });
 
         // Render the chart
         this.renderer.render(chartData, this.settings);
+        this.renderer.renderAccessibility(chartData);
         this.bindInteractions();
         } catch (error) {
             completed = false;
@@ -208,8 +242,13 @@ export class Visual implements IVisual {
         this.categories.sort((a, b) => a.localeCompare(b));
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["xAxis", "yAxis", "values"], dataView),
+            illustration: "area"
+        });
     }
 
     private syncHtmlTooltip(): void {
@@ -239,7 +278,7 @@ export class Visual implements IVisual {
         if (objectName === "categoryColors" && this.categories.length > 0 && this.settings) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             this.categories.forEach((category, index) => {
                 const color = this.categoryColors.get(category) || defaultColors[index % defaultColors.length];
@@ -269,7 +308,7 @@ export class Visual implements IVisual {
         if (this.categories.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             cards.push(createDataColorsCard(
                 this.categories,
@@ -280,13 +319,21 @@ export class Visual implements IVisual {
         }
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createReferenceLinesCard(this.settings.referenceLines));
+        cards.push(createAnnotationsCard(this.settings.annotations));
+        cards.push(createCrosshairCard(this.settings.crosshair));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
         cards.push(createLegendCard({
             position: this.settings.legendPosition,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createYAxisCard({
@@ -346,6 +393,11 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".stream-layer[data-selection-key]"
+        });
+
         this.applySelectionState = null;
         if (!this.allowInteractions) {
             return;
@@ -373,16 +425,5 @@ export class Visual implements IVisual {
             await this.selectionManager.clear();
             this.applySelectionState?.([]);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            if (target?.closest(".stream-layer[data-selection-key]")) {
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 }
@@ -1,8 +1,20 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, localize, getDisplayUnitReference, includeReferenceLines, ResolvedReferenceLines, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData, IWaterfallStep } from "./ChartTransformer";
+import { IChartData, IWaterfallSegmentValue, IWaterfallStep } from "./ChartTransformer";
+
+// One stacked segment of a step's bar, in panel coordinates.
+interface WaterfallSegmentMark {
+    step: IWaterfallStep;
+    segment: IWaterfallSegmentValue;
+    x: number;
+    y: number;
+    height: number;
+    color: string;
+    // Highlighted share, grown from the segment's base; null when nothing of it is highlighted.
+    highlight: { y: number; height: number } | null;
+}
 
 function formatPct(value: number): string {
     return (value >= 0 ? "+" : "") + value.toFixed(1) + "%";
@@ -20,17 +32,16 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         super(context);
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
 
         if (!chartData.steps.length) {
-            this.context.container.selectAll("*").remove();
             return;
         }
 
-        const groups = chartData.groups.length ? chartData.groups : ["All"];
-        const segmentKeys = chartData.segmentKeys.length ? chartData.segmentKeys : [chartData.valueDisplayName || "Value"];
+        const groups = chartData.groups.length ? chartData.groups : [ALL_GROUP];
+        const segmentKeys = chartData.segmentKeys.length ? chartData.segmentKeys : [chartData.valueDisplayName || localize("Visual_Value")];
         const xAxisLabelBlockHeight = settings.showXAxis ? 18 : 0;
 
         const legendFontSize = settings.textSizes?.legendFontSize || settings.legendFontSize || 11;
@@ -44,26 +55,31 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             })
             : { top: 0, right: 0, bottom: 0, left: 0 };
 
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const margin = {
-            top: 44 + legendReservation.top,
+            top: (groups.length > 1 ? 32 : 44) + legendReservation.top,
             right: 20 + legendReservation.right,
-            bottom: 28 + xAxisLabelBlockHeight + legendReservation.bottom,
-            left: 72 + legendReservation.left
+            bottom: 8 + legendReservation.bottom,
+            left: legendReservation.left
         };
 
-        const panelGap = groups.length > 1 ? Math.max(20, settings.smallMultiples.spacing) : 0;
-        const width = Math.max(220, this.context.width - margin.left - margin.right);
-        const height = Math.max(160, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = height / groups.length;
+        const width = Math.max(220 + 72, this.context.width - margin.left - margin.right);
+        // The grid reserves the axis margins itself, per panel or around the grid's outer edge.
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width,
+            height: Math.max(160, this.context.height - margin.top - margin.bottom),
+            aspectRatio: 1.8,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 16 : 0,
+            axisLeft: 72,
+            axisBottom: 20 + xAxisLabelBlockHeight
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelWidth = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
 
-        const domainMinRaw = chartData.minValue;
-        const domainMaxRaw = chartData.maxValue;
-        const spanRaw = Math.max(1, domainMaxRaw - domainMinRaw);
-        const pad = spanRaw * 0.1;
-        const lowerPad = domainMinRaw < 0 ? pad : 0;
-        const upperPad = domainMaxRaw > 0 ? pad : 0;
-        const yDomainMin = Math.min(0, domainMinRaw - lowerPad);
-        const yDomainMax = Math.max(yDomainMin + 1, Math.max(0, domainMaxRaw + upperPad));
+        const [yDomainMin, yDomainMax] = this.getValueDomain(chartData.minValue, chartData.maxValue, this.getReferenceLines(chartData, []));
 
         const colorScale = this.getCategoryColors(segmentKeys);
         const valueLabelSize = Math.max(10, (settings.textSizes?.yAxisFontSize || settings.yAxisFontSize) + 1);
@@ -71,10 +87,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         const axisLabelSize = settings.textSizes?.xAxisFontSize || settings.xAxisFontSize;
 
         groups.forEach((groupName, groupIndex) => {
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", "translate(" + margin.left + "," + Math.round(panelY) + ")");
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             const steps = chartData.steps.filter((s) => s.group === groupName);
             if (!steps.length) return;
@@ -82,23 +96,36 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             const stepNames = steps.map((s) => s.step);
             const x = d3.scalePoint<string>()
                 .domain(stepNames)
-                .range([0, width])
+                .range([0, panelWidth])
                 .padding(0.5);
 
-            const spacing = width / Math.max(1, stepNames.length);
+            const spacing = panelWidth / Math.max(1, stepNames.length);
             const barW = Math.max(26, Math.min(88, spacing * 0.64));
 
+            // Statistics run over the running totals the bars end at.
+            const referenceLines = this.getReferenceLines(chartData, steps.map((s) => s.end));
+            // An independent Y scale spans only this panel's running totals.
+            const [panelMin, panelMax] = smallMultiples.sharedYScale
+                ? [yDomainMin, yDomainMax]
+                : this.getValueDomain(
+                    Math.min(...steps.map((s) => Math.min(s.start, s.end))),
+                    Math.max(...steps.map((s) => Math.max(s.start, s.end))),
+                    referenceLines
+                );
             const y = d3.scaleLinear()
-                .domain([yDomainMin, yDomainMax])
+                .domain([panelMin, panelMax])
                 .range([panelHeight, 0]);
 
             const gridTicks = y.ticks(4).filter((d) => d !== 0);
+            const domainReference = getDisplayUnitReference([panelMin, panelMax]);
+            const formatAxisValue = this.getValueFormatter("axis", chartData.valueFormatString, domainReference);
+            const formatLabelValue = this.getValueFormatter("label", chartData.valueFormatString, domainReference);
             panel.selectAll("line.grid")
                 .data(gridTicks)
                 .join("line")
                 .attr("class", "grid")
                 .attr("x1", 0)
-                .attr("x2", width)
+                .attr("x2", panelWidth)
                 .attr("y1", (d) => Math.round(y(d)))
                 .attr("y2", (d) => Math.round(y(d)))
                 .attr("stroke", this.getGridStroke("#e5e7eb"))
@@ -106,24 +133,121 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .attr("opacity", 0.72);
 
 
-            if (groupIndex > 0) {
-                panel.append("line")
-                    .attr("x1", 0)
-                    .attr("x2", width)
-                    .attr("y1", -Math.round(panelGap / 2))
-                    .attr("y2", -Math.round(panelGap / 2))
-                    .attr("stroke", this.getGridStroke("#9ca3af"))
-                    .attr("stroke-width", 1.2)
-                    .attr("opacity", 0.9);
-            }
-
             const sortedSegments = (step: IWaterfallStep) => step.segments.slice().sort((a, b) => {
                 const ai = segmentKeys.indexOf(a.name);
                 const bi = segmentKeys.indexOf(b.name);
                 return ai - bi;
             });
 
-            const stepBottomPixels: number[] = new Array(steps.length);
+            const segmentMarks: WaterfallSegmentMark[] = [];
+
+            steps.forEach((step) => {
+                const xCenter = x(step.step);
+                if (xCenter === undefined) return;
+
+                let runningWithin = step.start;
+                sortedSegments(step).forEach((segment) => {
+                    const next = runningWithin + segment.value;
+                    const yTop = y(Math.max(runningWithin, next));
+                    const yBottom = y(Math.min(runningWithin, next));
+                    let highlight: WaterfallSegmentMark["highlight"] = null;
+                    if (chartData.hasHighlights && segment.highlightValue !== 0) {
+                        const highlightEnd = runningWithin + segment.highlightValue;
+                        const highlightTop = y(Math.max(runningWithin, highlightEnd));
+                        const highlightBottom = y(Math.min(runningWithin, highlightEnd));
+                        highlight = {
+                            y: Math.round(Math.min(highlightTop, highlightBottom)),
+                            height: Math.max(1, Math.round(Math.abs(highlightBottom - highlightTop)))
+                        };
+                    }
+                    segmentMarks.push({
+                        step,
+                        segment,
+                        x: Math.round(xCenter - barW / 2),
+                        y: Math.round(Math.min(yTop, yBottom)),
+                        height: Math.max(1, Math.round(Math.abs(yBottom - yTop))),
+                        color: this.getRuleColor(chartData, segment.selectionKey) ?? colorScale(segment.name),
+                        highlight
+                    });
+                    runningWithin = next;
+                });
+            });
+
+            this.joinMarks<SVGRectElement, WaterfallSegmentMark>(panel, "rect.segment", segmentMarks, (m) => m.segment.selectionKey, (rect) => rect
+                .attr("x", (m) => m.x)
+                .attr("y", (m) => m.y)
+                .attr("width", Math.max(1, Math.round(barW)))
+                .attr("height", (m) => m.height)
+                .attr("fill", (m) => m.color)
+                .attr("fill-opacity", (m) => (m.step.isTotal ? 0.94 : 0.84) * (chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1))
+                .attr("stroke", (m) => m.color)
+                .attr("stroke-width", (m) => m.step.isTotal ? 1.1 : 0.85))
+                .attr("data-selection-key", (m) => m.segment.selectionKey)
+                .attr("data-legend-key", (m) => m.segment.name)
+                .attr("rx", 2)
+                .each((m, i, nodes) => {
+                    const { step, segment, color } = m;
+                    this.addTooltip(d3.select(nodes[i]) as any, [
+                        { displayName: localize("Visual_Step"), value: step.step },
+                        { displayName: localize("Visual_Header"), value: step.header },
+                        { displayName: localize("Visual_Segment"), value: segment.name, color },
+                        { displayName: chartData.valueDisplayName || localize("Visual_Value"), value: this.formatTooltipValue(segment.value, chartData.valueFormatString) },
+                        ...(chartData.hasHighlights ? [
+                            { displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(segment.highlightValue, chartData.valueFormatString) }
+                        ] : []),
+                        { displayName: localize("Visual_ColumnTotal"), value: this.formatTooltipValue(step.total, chartData.valueFormatString) },
+                        {
+                            displayName: chartData.percentageDisplayName || "Percentage",
+                            value: formatPct(step.explicitPct ?? step.contributionPct)
+                        }
+                    ], {
+                        title: step.step,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                        color
+                    });
+                });
+
+            // Highlighted share of each segment, drawn over the dimmed full segment
+            if (chartData.hasHighlights) {
+                const highlightLayer = this.getLayer(panel, "highlight-layer")
+                    .style("pointer-events", "none");
+                this.joinMarks<SVGRectElement, WaterfallSegmentMark>(highlightLayer, "rect.segment-highlight", segmentMarks.filter((m) => m.highlight), (m) => m.segment.selectionKey, (rect) => rect
+                    .attr("x", (m) => m.x)
+                    .attr("y", (m) => m.highlight!.y)
+                    .attr("width", Math.max(1, Math.round(barW)))
+                    .attr("height", (m) => m.highlight!.height)
+                    .attr("fill", (m) => m.color)
+                    .attr("fill-opacity", (m) => m.step.isTotal ? 0.94 : 0.84))
+                    .attr("data-selection-key", (m) => m.segment.selectionKey)
+                    .attr("data-legend-key", (m) => m.segment.name)
+                    .attr("rx", 2);
+            }
+
+            // Outline around each step's whole bar
+            const outlineTop = (step: IWaterfallStep): number => Math.round(y(Math.max(step.start, step.end)));
+            const outlineBottom = (step: IWaterfallStep): number => Math.round(y(Math.min(step.start, step.end)));
+            this.joinMarks<SVGRectElement, IWaterfallStep>(panel, "rect.step-outline", steps, (step) => step.step, (rect) => rect
+                .attr("x", (step) => Math.round((x(step.step) ?? 0) - barW / 2))
+                .attr("y", (step) => outlineTop(step))
+                .attr("width", Math.max(1, Math.round(barW)))
+                .attr("height", (step) => Math.max(1, outlineBottom(step) - outlineTop(step)))
+                .attr("stroke", (step) => this.getGridStroke(step.isTotal ? "#374151" : "#6b7280"))
+                .attr("stroke-width", (step) => step.isTotal ? 1.6 : 1.05))
+                .attr("fill", "none");
+
+            // Segment labels fit inside tall enough segments of wide enough bars.
+            if (barW >= 40) {
+                segmentMarks.filter((m) => m.height >= 16).forEach((m) => {
+                    panel.append("text")
+                        .attr("x", Math.round(x(m.step.step) ?? 0))
+                        .attr("y", Math.round(m.y + m.height / 2 + 4))
+                        .attr("text-anchor", "middle")
+                        .attr("font-size", Math.max(9, valueLabelSize - 2) + "px")
+                        .attr("font-weight", "500")
+                        .attr("fill", this.getThemeForeground("#111827"))
+                        .text(formatLabelValue(m.segment.value));
+                });
+            }
 
             steps.forEach((step, i) => {
                 const xCenter = x(step.step);
@@ -146,78 +270,13 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     }
                 }
 
-                let runningWithin = step.start;
-                sortedSegments(step).forEach((segment) => {
-                    const next = runningWithin + segment.value;
-                    const low = Math.min(runningWithin, next);
-                    const high = Math.max(runningWithin, next);
-                    const yTop = y(high);
-                    const yBottom = y(low);
-                    const rectY = Math.round(Math.min(yTop, yBottom));
-                    const rectHeight = Math.max(1, Math.round(Math.abs(yBottom - yTop)));
-                    const color = colorScale(segment.name);
-
-                    const rect = panel.append("rect")
-                        .attr("class", "segment")
-                        .attr("x", Math.round(xPos))
-                        .attr("y", rectY)
-                        .attr("width", Math.max(1, Math.round(barW)))
-                        .attr("height", rectHeight)
-                        .attr("fill", color)
-                        .attr("fill-opacity", step.isTotal ? 0.94 : 0.84)
-                        .attr("stroke", color)
-                        .attr("stroke-width", step.isTotal ? 1.1 : 0.85)
-                        .attr("rx", 2);
-
-                    this.addTooltip(rect as any, [
-                        { displayName: "Step", value: step.step },
-                        { displayName: "Header", value: step.header },
-                        { displayName: "Segment", value: segment.name, color },
-                        { displayName: chartData.valueDisplayName || "Value", value: formatMeasureValue(segment.value, chartData.valueFormatString) },
-                        { displayName: "Column Total", value: formatMeasureValue(step.total, chartData.valueFormatString) },
-                        {
-                            displayName: chartData.percentageDisplayName || "Percentage",
-                            value: formatPct(step.explicitPct ?? step.contributionPct)
-                        }
-                    ], {
-                        title: step.step,
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color
-                    });
-
-                    if (rectHeight >= 16 && barW >= 40) {
-                        panel.append("text")
-                            .attr("x", Math.round(xPos + barW / 2))
-                            .attr("y", Math.round(rectY + rectHeight / 2 + 4))
-                            .attr("text-anchor", "middle")
-                            .attr("font-size", Math.max(9, valueLabelSize - 2) + "px")
-                            .attr("font-weight", "500")
-                            .attr("fill", this.getThemeForeground("#111827"))
-                            .text(formatMeasureValue(segment.value, chartData.valueFormatString));
-                    }
-
-                    runningWithin = next;
-                });
-
                 const low = Math.min(step.start, step.end);
                 const high = Math.max(step.start, step.end);
                 const barTop = y(high);
                 const barBottom = y(low);
-                const barTopRounded = Math.round(barTop);
-                const barBottomRounded = Math.round(barBottom);
-                stepBottomPixels[i] = Math.max(barTopRounded, barBottomRounded);
-
-                panel.append("rect")
-                    .attr("x", Math.round(xPos))
-                    .attr("y", barTopRounded)
-                    .attr("width", Math.max(1, Math.round(barW)))
-                    .attr("height", Math.max(1, barBottomRounded - barTopRounded))
-                    .attr("fill", "none")
-                    .attr("stroke", this.getGridStroke(step.isTotal ? "#374151" : "#6b7280"))
-                    .attr("stroke-width", step.isTotal ? 1.6 : 1.05);
 
                 const pctValue = step.explicitPct ?? step.contributionPct;
-                const valueLabel = formatMeasureValue(step.total, chartData.valueFormatString);
+                const valueLabel = formatLabelValue(step.total);
                 const pctLabel = formatPct(pctValue);
                 const isPositive = step.total >= 0;
 
@@ -252,54 +311,50 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             });
 
-            if (settings.showXAxis) {
+            this.renderReferenceLines(panel, referenceLines, y, { width: panelWidth, height: panelHeight }, "horizontal");
+
+            if (settings.showXAxis && cell.showXAxis) {
                 const fontFamily = settings.xAxisFontFamily || "Segoe UI";
                 const maxLabelW = Math.max(28, barW + 8);
 
+                const stepLabel = (step: IWaterfallStep): string => String(step.header ?? "").trim() || step.step;
+
                 // Each label sits directly under its own bar's bottom edge
-                steps.forEach((step, i) => {
-                    const xCenter = x(step.step);
-                    if (xCenter === undefined) return;
-                    const barBottomPx = stepBottomPixels[i] ?? Math.round(Math.max(y(step.start), y(step.end)));
-                    const labelY = barBottomPx + axisLabelSize + 2;
-
-                    const raw = String(step.header ?? "").trim();
-                    const label = raw || step.step;
-                    const truncated = truncateLabel(label, maxLabelW, axisLabelSize);
-
-                    const text = panel.append("text")
-                        .attr("x", Math.round(xCenter))
-                        .attr("y", labelY)
-                        .attr("text-anchor", "middle")
-                        .attr("font-size", axisLabelSize + "px")
-                        .attr("font-weight", step.isTotal ? "700" : (settings.xAxisBold ? "700" : "500"))
-                        .attr("font-family", fontFamily)
-                        .attr("fill", settings.xAxisColor);
-                    if (settings.xAxisItalic) text.attr("font-style", "italic");
-                    if (settings.xAxisUnderline) text.attr("text-decoration", "underline");
-                    text.text(truncated);
-                    if (truncated !== label) text.append("title").text(label);
-                });
+                this.joinMarks<SVGTextElement, IWaterfallStep>(panel, "text.x-label", steps, (step) => step.step, (text) => text
+                    .attr("x", (step) => Math.round(x(step.step) ?? 0))
+                    .attr("y", (step) => outlineBottom(step) + axisLabelSize + 2)
+                    .attr("fill", settings.xAxisColor))
+                    .attr("text-anchor", "middle")
+                    .attr("font-size", axisLabelSize + "px")
+                    .attr("font-weight", (step) => step.isTotal ? "700" : (settings.xAxisBold ? "700" : "500"))
+                    .attr("font-family", fontFamily)
+                    .attr("font-style", settings.xAxisItalic ? "italic" : null)
+                    .attr("text-decoration", settings.xAxisUnderline ? "underline" : null)
+                    .text((step) => truncateLabel(stepLabel(step), maxLabelW, axisLabelSize))
+                    .each((step, i, nodes) => {
+                        const label = stepLabel(step);
+                        if (truncateLabel(label, maxLabelW, axisLabelSize) !== label) {
+                            d3.select(nodes[i]).append("title").text(label);
+                        }
+                    });
             }
 
-            if (settings.showYAxis) {
-                panel.selectAll("text.y-label")
-                    .data(gridTicks)
-                    .join("text")
-                    .attr("x", -10)
+            if (settings.showYAxis && cell.showYAxis) {
+                this.joinMarks<SVGTextElement, number>(panel, "text.y-label", gridTicks, (d) => formatAxisValue(d), (text) => text
                     .attr("y", (d) => Math.round(y(d)) + 4)
+                    .attr("fill", settings.yAxisColor))
+                    .attr("x", -10)
                     .attr("text-anchor", "end")
                     .attr("font-size", (settings.textSizes.yAxisFontSize || settings.yAxisFontSize) + "px")
-                    .attr("fill", settings.yAxisColor)
-                    .text((d) => formatMeasureValue(d, chartData.valueFormatString));
+                    .text((d) => formatAxisValue(d));
             }
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0)
                     .attr("y", -12)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .attr("fill", this.getThemeForeground("#111827"))
                     .text(groupName);
             }
@@ -308,14 +363,29 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         if (settings.showLegend && segmentKeys.length > 1) {
             this.renderLegend(colorScale, chartData.maxValue, true, segmentKeys, undefined, undefined, {
                 alignFrame: {
-                    x: margin.left,
+                    x: margin.left + grid.cells[0].x,
                     y: 0,
-                    width,
+                    width: width - grid.cells[0].x,
                     height: Math.max(0, margin.top - 6)
                 },
-                availableWidth: width,
+                availableWidth: width - grid.cells[0].x,
                 availableHeight: Math.max(0, margin.top - 6)
             });
         }
     }
+
+    // Value-axis domain around [min, max] and the reference lines; it always includes zero.
+    private getValueDomain(min: number, max: number, referenceLines: ResolvedReferenceLines | null): [number, number] {
+        const [domainMinRaw, domainMaxRaw] = includeReferenceLines([min, max], referenceLines);
+        const spanRaw = Math.max(1, domainMaxRaw - domainMinRaw);
+        const pad = spanRaw * 0.1;
+        const lowerPad = domainMinRaw < 0 ? pad : 0;
+        const upperPad = domainMaxRaw > 0 ? pad : 0;
+        const domainMin = Math.min(0, domainMinRaw - lowerPad);
+        return [domainMin, Math.max(domainMin + 1, Math.max(0, domainMaxRaw + upperPad))];
+    }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_WaterfallChart");
+    }
 }
@@ -2,11 +2,29 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createConditionalColorLookup,
+    createCategoryRowSelectionId,
+    createTableRowSelectionId,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    getHighlightedRowValue,
+    localize,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface IWaterfallSegmentValue {
     name: string;
     value: number;
+    // Highlighted share of `value`; equals `value` when no highlights are active.
+    highlightValue: number;
+    selectionKey: string;
 }
 
 export interface IWaterfallStep {
@@ -31,6 +49,7 @@ export interface IChartData extends ChartData {
     valueDisplayName?: string;
     percentageFormatString?: string;
     percentageDisplayName?: string;
+    hasHighlights: boolean;
 }
 
 interface IInputRow {
@@ -41,7 +60,9 @@ interface IInputRow {
     type: string;
     group: string;
     value: number;
+    highlightValue: number;
     explicitPct: number | null;
+    selectionId?: ISelectionId;
 }
 
 interface IGroupedStep {
@@ -49,6 +70,9 @@ interface IGroupedStep {
     header: string;
     order: number;
     segments: Map<string, number>;
+    segmentHighlights: Map<string, number>;
+    segmentSelectionIds: Map<string, ISelectionId[]>;
+    segmentRuleColors: Map<string, string>;
     typeVotes: Map<string, number>;
     headerVotes: Map<string, number>;
     explicitPctSum: number;
@@ -79,7 +103,7 @@ function getDominantVote(votes: Map<string, number>, fallback: string): string {
 }
 
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const empty: IChartData = {
             dataPoints: [],
             xValues: [],
@@ -88,7 +112,8 @@ export class ChartTransformer {
             maxValue: 0,
             minValue: 0,
             steps: [],
-            segmentKeys: []
+            segmentKeys: [],
+            hasHighlights: false
         };
 
         const rows: IInputRow[] = [];
@@ -98,6 +123,7 @@ export class ChartTransformer {
         let valueDisplayName: string | undefined;
         let percentageFormatString: string | undefined;
         let percentageDisplayName: string | undefined;
+        let hasHighlights = false;
 
         const pushRow = (
             index: number,
@@ -107,16 +133,18 @@ export class ChartTransformer {
             headerRaw: unknown,
             groupRaw: unknown,
             valueRaw: unknown,
-            percentageRaw: unknown
+            percentageRaw: unknown,
+            getSelectionId?: () => ISelectionId,
+            getHighlightValue?: (value: number) => number
         ): void => {
             const value = Number(valueRaw);
             if (!Number.isFinite(value)) return;
 
             const step = String(stepRaw ?? ("Step " + (index + 1)));
             const headerText = String(headerRaw ?? "").trim();
-            const segment = String(segmentRaw ?? "Value");
+            const segment = String(segmentRaw ?? localize("Visual_Value"));
             const type = normalizeType(typeRaw);
-            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : "All";
+            const group = groupRaw !== undefined && groupRaw !== null ? formatGroupValue(groupRaw) : ALL_GROUP;
             const explicitPctRaw = Number(percentageRaw);
             const explicitPct = Number.isFinite(explicitPctRaw)
                 ? normalizeExplicitPercentage(explicitPctRaw, percentageFormatString)
@@ -135,7 +163,9 @@ export class ChartTransformer {
                 type,
                 group,
                 value,
-                explicitPct
+                highlightValue: getHighlightValue ? getHighlightValue(value) : value,
+                explicitPct,
+                selectionId: getSelectionId?.()
             });
         };
 
@@ -168,7 +198,8 @@ export class ChartTransformer {
                         headerIdx >= 0 ? row[headerIdx] : undefined,
                         groupIdx >= 0 ? row[groupIdx] : undefined,
                         row[valueIdx],
-                        percentageIdx >= 0 ? row[percentageIdx] : undefined
+                        percentageIdx >= 0 ? row[percentageIdx] : undefined,
+                        createSelectionIdBuilder ? () => createTableRowSelectionId(createSelectionIdBuilder, table, i) : undefined
                     );
                 });
             }
@@ -193,6 +224,8 @@ export class ChartTransformer {
                     percentageFormatString = (percentageCol?.source as any)?.format as string | undefined;
                     percentageDisplayName = (percentageCol?.source as any)?.displayName as string | undefined;
                 }
+                const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
+                hasHighlights = highlightState.hasIncomingHighlights;
 
                 for (let i = 0; i < valueValues.length; i++) {
                     pushRow(
@@ -203,7 +236,11 @@ export class ChartTransformer {
                         headerCol ? headerCol.values[i] : undefined,
                         groupCol ? groupCol.values[i] : undefined,
                         valueValues[i],
-                        percentageValues ? percentageValues[i] : undefined
+                        percentageValues ? percentageValues[i] : undefined,
+                        createSelectionIdBuilder
+                            ? () => createCategoryRowSelectionId(createSelectionIdBuilder, [stepCol, segmentCol, headerCol, groupCol], i)
+                            : undefined,
+                        (value) => getHighlightedRowValue(highlightState, valueCol, i, value)
                     );
                 }
             }
@@ -212,6 +249,7 @@ export class ChartTransformer {
         if (!rows.length) return empty;
 
         const grouped = new Map<string, Map<string, IGroupedStep>>();
+        const ruleColors = createConditionalColorLookup(dataView);
 
         rows.forEach((r) => {
             if (!grouped.has(r.group)) grouped.set(r.group, new Map());
@@ -223,6 +261,9 @@ export class ChartTransformer {
                     header: r.header,
                     order: r.index,
                     segments: new Map(),
+                    segmentHighlights: new Map(),
+                    segmentSelectionIds: new Map(),
+                    segmentRuleColors: new Map(),
                     typeVotes: new Map(),
                     headerVotes: new Map(),
                     explicitPctSum: 0,
@@ -233,6 +274,11 @@ export class ChartTransformer {
             const entry = steps.get(stepKey)!;
             entry.order = Math.min(entry.order, r.index);
             entry.segments.set(r.segment, (entry.segments.get(r.segment) ?? 0) + r.value);
+            entry.segmentHighlights.set(r.segment, (entry.segmentHighlights.get(r.segment) ?? 0) + r.highlightValue);
+            if (r.selectionId) {
+                addSelectionIdForKey(entry.segmentSelectionIds, r.segment, r.selectionId);
+            }
+            addRuleColorForKey(entry.segmentRuleColors, r.segment, ruleColors.getRowColor(r.index));
             entry.headerVotes.set(r.header, (entry.headerVotes.get(r.header) ?? 0) + 1);
             if (r.type) {
                 entry.typeVotes.set(r.type, (entry.typeVotes.get(r.type) ?? 0) + 1);
@@ -245,6 +291,8 @@ export class ChartTransformer {
 
         const chartSteps: IWaterfallStep[] = [];
         const chartDataPoints: DataPoint[] = [];
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColorsByKey = new Map<string, string>();
         const groups = Array.from(grouped.keys());
 
         let globalMin = 0;
@@ -257,10 +305,19 @@ export class ChartTransformer {
             let running = 0;
             const stepsForGroup: IWaterfallStep[] = [];
 
-            orderedSteps.forEach(([, entry]) => {
+            orderedSteps.forEach(([stepKey, entry]) => {
                 const segments = Array.from(entry.segments.entries())
-                    .map(([name, value]) => ({ name, value }))
+                    .map(([name, value]) => ({
+                        name,
+                        value,
+                        highlightValue: entry.segmentHighlights.get(name) ?? value,
+                        selectionKey: `${group}\u001f${stepKey}\u001f${name}`
+                    }))
                     .filter((s) => Number.isFinite(s.value));
+                segments.forEach((s) => {
+                    (entry.segmentSelectionIds.get(s.name) ?? []).forEach((id) => addSelectionIdForKey(selectionIdsByKey, s.selectionKey, id));
+                    addRuleColorForKey(ruleColorsByKey, s.selectionKey, entry.segmentRuleColors.get(s.name));
+                });
 
                 const total = segments.reduce((sum, s) => sum + s.value, 0);
                 const dominantType = getDominantVote(entry.typeVotes, "");
@@ -336,7 +393,10 @@ export class ChartTransformer {
             valueFormatString,
             valueDisplayName,
             percentageFormatString,
-            percentageDisplayName
+            percentageDisplayName,
+            hasHighlights,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
@@ -6,7 +6,10 @@ import {
     ChartData,
     RenderContext,
     formatLabel,
-    formatMeasureValue
+    formatMeasureValue,
+    AccessibleSummary,
+    localize,
+    localizeFormat
 } from "@pbi-visuals/shared";
 import { IWorldHistoryTimelineVisualSettings } from "./settings";
 import { TimelineTemporalLevel, WorldHistoryTimelineData, WorldHistoryTimelinePoint } from "./WorldHistoryTimelineTransformer";
@@ -16,6 +19,25 @@ interface TimelineRow {
     point: WorldHistoryTimelinePoint;
 }
 
+// A row's bar and data label, laid out in panel coordinates.
+interface TimelineRowMark {
+    row: TimelineRow;
+    barX: number;
+    barY: number;
+    barWidth: number;
+    fill: string;
+    regionKey: string;
+    tooltipRows: Array<{ displayName: string; value: string; color?: string }>;
+    tooltipMeasureValue: string;
+    label: {
+        x: number;
+        anchor: "start" | "middle" | "end";
+        color: string;
+        display: string;
+        fullText: string;
+    } | null;
+}
+
 type AxisLevel = "year" | "quarter" | "month" | "day";
 
 interface AxisLabelRun {
@@ -31,7 +53,7 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
         super(context);
     }
 
-    public render(data: ChartData, settings: IWorldHistoryTimelineVisualSettings): void {
+    protected draw(data: ChartData, settings: IWorldHistoryTimelineVisualSettings): void {
         this.settings = settings;
         const timelineData = data as WorldHistoryTimelineData;
 
@@ -241,9 +263,8 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
         const regionDomain = timelineData.regions.length ? timelineData.regions : ["World"];
         const colorScale = this.getCategoryColors(regionDomain, timelineData.categoryColorMap);
 
-        const panel = this.context.container.append("g")
-            .attr("class", "timeline-panel")
-            .attr("transform", `translate(${margin.left}, ${margin.top})`);
+        const panel = this.getLayer(this.context.container, "timeline-panel", (layer) => layer
+            .attr("transform", `translate(${margin.left}, ${margin.top})`));
 
         const formatYear = (value: number): string => {
             const year = Math.round(value);
@@ -653,7 +674,7 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
                     .attr("font-family", settings.xAxisFontFamily)
                     .style("font-weight", "600")
                     .attr("fill", axisTextColor)
-                    .text("All years view");
+                    .text(localize("Visual_AllYearsView"));
             }
 
             axisLevels.forEach((level, rowIdx) => {
@@ -799,9 +820,9 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
                 }
             })();
             const xTicksBottom = buildDecimatedTicks(xTicksToRender, bottomTickGapPx);
-            const bottomAxisGroup = panel.append("g")
-                .attr("class", "x-axis timeline-axis bottom")
-                .attr("transform", `translate(0, ${chartHeight})`);
+            const bottomAxisGroup = this.getLayer(panel, "timeline-axis-bottom", (layer) => layer
+                .attr("transform", `translate(0, ${chartHeight})`))
+                .classed("x-axis timeline-axis bottom", true);
 
             bottomAxisGroup.append("line")
                 .attr("x1", 0)
@@ -811,31 +832,28 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
                 .attr("stroke", axisStroke)
                 .attr("stroke-width", 1);
 
-            xTicksBottom.forEach((tick) => {
-                const x = this.snapToPixelInt(xScale(tick));
-                bottomAxisGroup.append("line")
-                    .attr("x1", x)
-                    .attr("x2", x)
-                    .attr("y1", 0)
-                    .attr("y2", 5)
-                    .attr("stroke", axisStroke)
-                    .attr("stroke-width", 1);
+            this.joinMarks<SVGLineElement, number>(bottomAxisGroup, "line.tick", xTicksBottom, (tick) => String(tick), (line) => line
+                .attr("x1", (tick) => this.snapToPixelInt(xScale(tick)))
+                .attr("x2", (tick) => this.snapToPixelInt(xScale(tick)))
+                .attr("stroke", axisStroke))
+                .attr("y1", 0)
+                .attr("y2", 5)
+                .attr("stroke-width", 1);
 
-                bottomAxisGroup.append("text")
-                    .attr("x", x)
-                    .attr("y", 14)
-                    .attr("text-anchor", "middle")
-                    .attr("font-size", `${axisFontSize}px`)
-                    .attr("font-family", settings.xAxisFontFamily)
-                    .style("font-weight", settings.xAxisBold ? "700" : "400")
-                    .style("font-style", settings.xAxisItalic ? "italic" : "normal")
-                    .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
-                    .attr("fill", axisTextColor)
-                    .text(formatTimelineValue(tick));
-            });
+            this.joinMarks<SVGTextElement, number>(bottomAxisGroup, "text.tick-label", xTicksBottom, (tick) => String(tick), (text) => text
+                .attr("x", (tick) => this.snapToPixelInt(xScale(tick)))
+                .attr("fill", axisTextColor))
+                .attr("y", 14)
+                .attr("text-anchor", "middle")
+                .attr("font-size", `${axisFontSize}px`)
+                .attr("font-family", settings.xAxisFontFamily)
+                .style("font-weight", settings.xAxisBold ? "700" : "400")
+                .style("font-style", settings.xAxisItalic ? "italic" : "normal")
+                .style("text-decoration", settings.xAxisUnderline ? "underline" : "none")
+                .text((tick) => formatTimelineValue(tick));
         }
 
-        const rowLayer = panel.append("g").attr("class", "timeline-rows");
+        const rowLayer = this.getLayer(panel, "timeline-rows");
 
         rowLayer.selectAll("line.lane-line")
             .data(rows)
@@ -856,14 +874,7 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
             .attr("stroke-width", 1)
             .attr("stroke-opacity", this.isHighContrastMode() ? 1 : 0.45);
 
-        const rowGroups = rowLayer.selectAll("g.timeline-row")
-            .data(rows)
-            .enter()
-            .append("g")
-            .attr("class", "timeline-row")
-            .attr("data-selection-key", (row) => String(row.point.index));
-
-        rowGroups.each((row, idx, nodes) => {
+        const rowMarks: TimelineRowMark[] = rows.map((row) => {
             const point = row.point;
             const yCenter = yScale(row.key) ?? 0;
             const barY = this.snapToPixelInt(yCenter - (barHeight / 2));
@@ -873,120 +884,129 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
             const barWidth = Math.max(settings.timeline.minBarWidth, rawWidth);
 
             const regionKey = timelineData.hasRegionRoleData ? point.region : "World";
-            const fill = colorScale(regionKey);
-
-            const rowGroup = d3.select(nodes[idx]);
-
-            const bar = rowGroup.append("rect")
-                .attr("class", "timeline-bar")
-                .attr("data-selection-key", String(point.index))
-                .attr("x", this.snapToPixelInt(startX))
-                .attr("y", barY)
-                .attr("width", this.snapToPixelInt(barWidth))
-                .attr("height", this.snapToPixelInt(barHeight))
-                .attr("rx", settings.timeline.barCornerRadius)
-                .attr("fill", fill)
-                .attr("stroke", this.isHighContrastMode() ? this.getThemeForeground("#111827") : "#ffffff")
-                .attr("stroke-width", this.isHighContrastMode() ? 1.5 : 1);
-
-            const rows: Array<{ displayName: string; value: string; color?: string }> = [
-                { displayName: "Region", value: point.region, color: fill },
-                { displayName: "Start", value: formatTooltipDateValue(point.startYear) },
-                { displayName: "End", value: formatTooltipDateValue(point.endYear) },
-                { displayName: "Duration", value: formatDuration(point.duration) }
+            const fill = this.getRuleColor(timelineData, String(point.index)) ?? colorScale(regionKey);
+
+            const tooltipRows: Array<{ displayName: string; value: string; color?: string }> = [
+                { displayName: localize("Visual_Region"), value: point.region, color: fill },
+                { displayName: localize("Visual_Start"), value: formatTooltipDateValue(point.startYear) },
+                { displayName: localize("Visual_End"), value: formatTooltipDateValue(point.endYear) },
+                { displayName: localize("Visual_Duration"), value: formatDuration(point.duration) }
             ];
             const tooltipMeasureValue = point.measureValue !== null
-                ? formatMeasureValue(point.measureValue, timelineData.measureFormatString)
+                ? this.formatTooltipValue(point.measureValue, timelineData.measureFormatString)
                 : (point.measureDisplayText ?? "");
             if (tooltipMeasureValue) {
-                rows.push({
-                    displayName: "Value",
+                tooltipRows.push({
+                    displayName: localize("Visual_Value"),
                     value: tooltipMeasureValue
                 });
             }
 
-            this.addTooltip(bar as any, rows, {
-                title: point.civilization,
-                subtitle: `${formatTooltipDateValue(point.startYear)} to ${formatTooltipDateValue(point.endYear)}`,
-                color: fill
-            });
+            const mark: TimelineRowMark = { row, barX: startX, barY, barWidth, fill, regionKey, tooltipRows, tooltipMeasureValue, label: null };
+            if (!settings.dataLabels.show) {
+                return mark;
+            }
 
-            if (settings.dataLabels.show) {
-                const leftSpace = Math.max(0, startX - 8);
-                const rightSpace = Math.max(0, chartWidth - (startX + barWidth) - 8);
-                const insideSpace = Math.max(0, barWidth - 8);
-                const outsideMax = Math.max(leftSpace, rightSpace);
-
-                let labelMode: "left" | "right" | "inside" | "skip" = "skip";
-                if (outsideMax >= 28) {
-                    labelMode = rightSpace >= leftSpace ? "right" : "left";
-                } else if (insideSpace >= 28) {
-                    labelMode = "inside";
-                }
+            const leftSpace = Math.max(0, startX - 8);
+            const rightSpace = Math.max(0, chartWidth - (startX + barWidth) - 8);
+            const insideSpace = Math.max(0, barWidth - 8);
+            const outsideMax = Math.max(leftSpace, rightSpace);
 
-                if (labelMode === "skip") {
-                    return;
-                }
+            let labelMode: "left" | "right" | "inside" | "skip" = "skip";
+            if (outsideMax >= 28) {
+                labelMode = rightSpace >= leftSpace ? "right" : "left";
+            } else if (insideSpace >= 28) {
+                labelMode = "inside";
+            }
 
-                const maxWidth = labelMode === "left"
-                    ? leftSpace
-                    : labelMode === "right"
-                        ? rightSpace
-                        : insideSpace;
-                const labelMeasureValue = point.measureValue !== null
-                    ? formatMeasureValue(
-                        point.measureValue,
-                        undefined,
-                        { notation: "compact", maximumFractionDigits: 1 }
-                    )
-                    : (point.measureDisplayText ?? "");
-                const fullLabelText = labelMeasureValue ? `${point.civilization} ${labelMeasureValue}` : point.civilization;
-                const display = formatLabel(fullLabelText, Math.max(24, maxWidth), labelFontSize);
-                const textX = labelMode === "left"
+            if (labelMode === "skip") {
+                return mark;
+            }
+
+            const maxWidth = labelMode === "left"
+                ? leftSpace
+                : labelMode === "right"
+                    ? rightSpace
+                    : insideSpace;
+            const labelMeasureValue = point.measureValue !== null
+                ? this.getValueFormatter("label", timelineData.measureFormatString)(point.measureValue)
+                : (point.measureDisplayText ?? "");
+            const fullText = labelMeasureValue ? `${point.civilization} ${labelMeasureValue}` : point.civilization;
+            mark.label = {
+                x: labelMode === "left"
                     ? (startX - 6)
                     : labelMode === "right"
                         ? (startX + barWidth + 6)
-                        : (startX + (barWidth / 2));
-                const textAnchor = labelMode === "left"
+                        : (startX + (barWidth / 2)),
+                anchor: labelMode === "left"
                     ? "end"
                     : labelMode === "right"
                         ? "start"
-                        : "middle";
-                const labelColor = labelMode === "inside"
+                        : "middle",
+                color: labelMode === "inside"
                     ? this.getContrastColor(fill)
-                    : (this.isHighContrastMode() ? this.getThemeForeground(settings.dataLabels.color) : settings.dataLabels.color);
-
-                const label = rowGroup.append("text")
-                    .attr("class", "timeline-label")
-                    .attr("x", this.snapToPixelInt(textX))
-                    .attr("y", this.snapToPixelInt(barY + (barHeight / 2)))
-                    .attr("dy", "0.35em")
-                    .attr("text-anchor", textAnchor)
-                    .attr("font-size", `${labelFontSize}px`)
-                    .attr("font-family", settings.dataLabels.fontFamily)
-                    .style("font-weight", settings.dataLabels.bold ? "700" : "400")
-                    .style("font-style", settings.dataLabels.italic ? "italic" : "normal")
-                    .style("text-decoration", settings.dataLabels.underline ? "underline" : "none")
-                    .attr("fill", labelColor)
-                    .text(display);
-
-                if (display !== fullLabelText) {
-                    const labelRows: Array<{ displayName: string; value: string }> = [
-                        { displayName: "Civilization", value: point.civilization }
-                    ];
-                    if (tooltipMeasureValue) {
-                        labelRows.push({
-                            displayName: "Value",
-                            value: tooltipMeasureValue
-                        });
-                    }
-                    this.addTooltip(label as any, labelRows, {
-                        title: point.civilization,
-                        color: fill
+                    : (this.isHighContrastMode() ? this.getThemeForeground(settings.dataLabels.color) : settings.dataLabels.color),
+                display: formatLabel(fullText, Math.max(24, maxWidth), labelFontSize),
+                fullText
+            };
+            return mark;
+        });
+
+        const rowGroups = this.joinMarks<SVGGElement, TimelineRowMark>(rowLayer, "g.timeline-row", rowMarks, (m) => String(m.row.point.index), () => undefined)
+            .attr("data-selection-key", (m) => String(m.row.point.index))
+            .attr("data-legend-key", (m) => m.regionKey);
+
+        this.joinMarks<SVGRectElement, TimelineRowMark>(rowGroups, "rect.timeline-bar", (m: TimelineRowMark) => [m], (m) => String(m.row.point.index), (rect) => rect
+            .attr("x", (m) => this.snapToPixelInt(m.barX))
+            .attr("y", (m) => m.barY)
+            .attr("width", (m) => this.snapToPixelInt(m.barWidth))
+            .attr("height", this.snapToPixelInt(barHeight))
+            .attr("fill", (m) => m.fill))
+            .attr("data-selection-key", (m) => String(m.row.point.index))
+            .attr("rx", settings.timeline.barCornerRadius)
+            .attr("stroke", this.isHighContrastMode() ? this.getThemeForeground("#111827") : "#ffffff")
+            .attr("stroke-width", this.isHighContrastMode() ? 1.5 : 1)
+            .each((m, i, nodes) => {
+                const point = m.row.point;
+                this.addTooltip(d3.select(nodes[i]) as any, m.tooltipRows, {
+                    title: point.civilization,
+                    subtitle: `${formatTooltipDateValue(point.startYear)} to ${formatTooltipDateValue(point.endYear)}`,
+                    color: m.fill
+                });
+            });
+
+        this.joinMarks<SVGTextElement, TimelineRowMark>(rowGroups, "text.timeline-label", (m: TimelineRowMark) => m.label ? [m] : [], (m) => String(m.row.point.index), (text) => text
+            .attr("x", (m) => this.snapToPixelInt(m.label!.x))
+            .attr("y", (m) => this.snapToPixelInt(m.barY + (barHeight / 2)))
+            .attr("fill", (m) => m.label!.color))
+            .attr("dy", "0.35em")
+            .attr("text-anchor", (m) => m.label!.anchor)
+            .attr("font-size", `${labelFontSize}px`)
+            .attr("font-family", settings.dataLabels.fontFamily)
+            .style("font-weight", settings.dataLabels.bold ? "700" : "400")
+            .style("font-style", settings.dataLabels.italic ? "italic" : "normal")
+            .style("text-decoration", settings.dataLabels.underline ? "underline" : "none")
+            .text((m) => m.label!.display)
+            .each((m, i, nodes) => {
+                const label = d3.select(nodes[i]) as any;
+                if (m.label!.display === m.label!.fullText) {
+                    this.removeTooltip(label);
+                    return;
+                }
+                const labelRows: Array<{ displayName: string; value: string }> = [
+                    { displayName: localize("Visual_Civilization"), value: m.row.point.civilization }
+                ];
+                if (m.tooltipMeasureValue) {
+                    labelRows.push({
+                        displayName: localize("Visual_Value"),
+                        value: m.tooltipMeasureValue
                     });
                 }
-            }
-        });
+                this.addTooltip(label, labelRows, {
+                    title: m.row.point.civilization,
+                    color: m.fill
+                });
+            });
 
         if (settings.timeline.showTodayLine) {
             const todayValue = isDateScale ? Date.now() : new Date().getFullYear();
@@ -1033,7 +1053,7 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
                     .attr("font-family", settings.xAxisFontFamily)
                     .style("font-weight", "600")
                     .attr("fill", todayColor)
-                    .text("Today")
+                    .text(localize("Visual_Today"))
                     .style("pointer-events", "none");
             }
         }
@@ -1063,6 +1083,8 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
             panel.on("mouseleave", () => {
                 crosshair.style("opacity", 0);
             });
+        } else {
+            panel.on("mousemove", null).on("mouseleave", null);
         }
 
         const stickyHeaderHeight = Math.max(0, Math.round(margin.top));
@@ -1144,4 +1166,37 @@ export class WorldHistoryTimelineRenderer extends BaseRenderer<IWorldHistoryTime
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Timeline");
+    }
+
+    protected getAccessibleSummary(data: ChartData): AccessibleSummary | null {
+        const timelineData = data as WorldHistoryTimelineData;
+        const dateFormatter = new Intl.DateTimeFormat(undefined, { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+        const formatTime = (value: number): string => {
+            if (timelineData.timeScaleMode === "date") {
+                return dateFormatter.format(new Date(value));
+            }
+            const year = Math.round(value);
+            return year < 0 ? `${Math.abs(year)} BC` : `${year}`;
+        };
+        const range = timelineData.items.length
+            ? localizeFormat("Visual_A11y_DateRange", formatTime(timelineData.minYear), formatTime(timelineData.maxYear))
+            : "";
+        const regions = timelineData.hasRegionRoleData ? localizeFormat("Visual_A11y_InRegions", timelineData.regions.length) : "";
+        return {
+            label: localizeFormat("Visual_A11y_TimelineSummary", this.getAccessibleChartType(), timelineData.items.length, regions, range),
+            table: this.buildAccessibleTable(() => ({
+                caption: localizeFormat("Visual_A11y_EntriesCaption", this.getAccessibleChartType()),
+                columns: [localize("Visual_Name"), ...(timelineData.hasRegionRoleData ? [localize("Visual_Region")] : []), localize("Visual_Start"), localize("Visual_End")],
+                rows: timelineData.items.map((item) => [
+                    item.civilization,
+                    ...(timelineData.hasRegionRoleData ? [item.region] : []),
+                    formatTime(item.startYear),
+                    formatTime(item.endYear)
+                ])
+            }))
+        };
+    }
 }
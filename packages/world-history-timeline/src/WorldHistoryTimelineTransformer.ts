@@ -2,7 +2,7 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataViewCategorical = powerbi.DataViewCategorical;
-import { ChartData, DataPoint, formatDataValue, formatGroupValue, getCategoricalHighlightState } from "@pbi-visuals/shared";
+import { ChartData, DataPoint, formatDataValue, formatGroupValue, getCategoricalHighlightState, localize, ALL_GROUP } from "@pbi-visuals/shared";
 
 type RoleColumn = {
     values: any[];
@@ -1198,7 +1198,7 @@ export class WorldHistoryTimelineTransformer {
             }
             if (measureRawValue !== null && measureRawValue !== undefined) {
                 const formattedMeasureValue = formatDataValue(measureRawValue, i).trim();
-                if (formattedMeasureValue.length > 0 && formattedMeasureValue !== "(Blank)") {
+                if (formattedMeasureValue.length > 0 && formattedMeasureValue !== localize("Visual_Blank")) {
                     measureDisplayText = formattedMeasureValue;
                 }
             }
@@ -1214,7 +1214,7 @@ export class WorldHistoryTimelineTransformer {
                 xValue: String(startYear),
                 yValue: civilization,
                 value: duration,
-                groupValue: "All",
+                groupValue: ALL_GROUP,
                 index: i,
                 civilization,
                 region,
@@ -1252,7 +1252,7 @@ export class WorldHistoryTimelineTransformer {
             items,
             xValues: [String(minYear), String(maxYear)],
             yValues: items.map((d) => d.civilization),
-            groups: ["All"],
+            groups: [ALL_GROUP],
             regions,
             minValue: minDuration,
             maxValue: maxDuration,
@@ -6,11 +6,21 @@ import {
     IBaseVisualSettings,
     ColorScheme,
     LegendPosition,
+    LegendOverflow,
     RotateLabelsMode,
     defaultLegendSettings,
     defaultCustomColorSettings,
     defaultSmallMultiplesSettings,
     defaultTooltipSettings,
+    defaultDisplayUnitSettings,
+    parseDisplayUnitSettings,
+    defaultAnimationSettings,
+    parseAnimationSettings,
+    defaultAccessibilitySettings,
+    parseAccessibilitySettings,
+    IViewState,
+    createDefaultViewState,
+    parseViewState,
     TooltipStyle,
     TooltipTheme
 } from "@pbi-visuals/shared";
@@ -63,6 +73,7 @@ export interface IWorldHistoryTimelineVisualSettings extends IBaseVisualSettings
     dataLabels: IWorldHistoryTimelineDataLabelSettings;
     textSizes: IWorldHistoryTimelineTextSizeSettings;
     interactionDiagnostics: IWorldHistoryTimelineInteractionDiagnosticsSettings;
+    viewState: IViewState;
 }
 
 export const defaultSettings: IWorldHistoryTimelineVisualSettings = {
@@ -70,6 +81,7 @@ export const defaultSettings: IWorldHistoryTimelineVisualSettings = {
     legendPosition: defaultLegendSettings.legendPosition!,
     legendFontSize: defaultLegendSettings.legendFontSize!,
     maxLegendItems: defaultLegendSettings.maxLegendItems!,
+    legendOverflow: defaultLegendSettings.legendOverflow!,
     showLegend: true,
     showXAxis: true,
     xAxisFontSize: 9,
@@ -87,6 +99,10 @@ export const defaultSettings: IWorldHistoryTimelineVisualSettings = {
     yAxisColor: "#111827",
     rotateXLabels: "never",
     tooltip: { ...defaultTooltipSettings },
+    displayUnits: { ...defaultDisplayUnitSettings },
+    animation: { ...defaultAnimationSettings },
+    accessibility: { ...defaultAccessibilitySettings },
+    viewState: createDefaultViewState(),
     useCustomColors: defaultCustomColorSettings.useCustomColors,
     customColors: [...defaultCustomColorSettings.customColors],
     smallMultiples: { ...defaultSmallMultiplesSettings },
@@ -141,6 +157,7 @@ export function parseSettings(dataView: DataView): IWorldHistoryTimelineVisualSe
         settings.legendPosition = (legendObj["position"] as LegendPosition) ?? defaultSettings.legendPosition;
         settings.legendFontSize = (legendObj["fontSize"] as number) ?? defaultSettings.legendFontSize;
         settings.maxLegendItems = (legendObj["maxItems"] as number) ?? defaultSettings.maxLegendItems;
+        settings.legendOverflow = (legendObj["overflow"] as LegendOverflow) ?? defaultSettings.legendOverflow;
     }
 
     const tooltipObj = objects["tooltipSettings"];
@@ -165,6 +182,11 @@ export function parseSettings(dataView: DataView): IWorldHistoryTimelineVisualSe
         settings.tooltip.maxWidth = Math.max(160, Math.min(560, settings.tooltip.maxWidth));
     }
 
+    settings.displayUnits = parseDisplayUnitSettings(objects);
+    settings.animation = parseAnimationSettings(objects);
+    settings.accessibility = parseAccessibilitySettings(objects);
+    settings.viewState = parseViewState(objects);
+
     const customColorsObj = objects["customColors"];
     if (customColorsObj) {
         settings.useCustomColors = (customColorsObj["useCustomColors"] as boolean) ?? defaultSettings.useCustomColors;
@@ -19,12 +19,30 @@ import {
     createLegendCard,
     createTextSizesCard,
     createTooltipCard,
+    createDisplayUnitsCard,
+    createAnimationCard,
+    createAccessibilityCard,
+    applyThemeTextDefaults,
+    createConditionalColorsCard,
     createXAxisCard,
     createYAxisCard,
     readCategoryColorsFromDataView,
+    createConditionalColorLookup,
+    addRuleColorForKey,
     findCategoryIndex,
     getSchemeColors,
-    HtmlTooltip
+    HtmlTooltip,
+    LandingDataRole,
+    getLandingRoleStatus,
+    renderLandingPage,
+    bindKeyboardFocus,
+    bindLegendInteractions,
+    bindContextMenu,
+    renderAccessibleSummary,
+    localize,
+    setLocalizationManager,
+    setFormatLocale,
+    ViewStateStore
 } from "@pbi-visuals/shared";
 import { IWorldHistoryTimelineVisualSettings, TimelineSortMode, parseSettings } from "./settings";
 import {
@@ -34,6 +52,9 @@ import {
 } from "./WorldHistoryTimelineTransformer";
 import { WorldHistoryTimelineRenderer } from "./WorldHistoryTimelineRenderer";
 
+declare const require: any;
+const capabilities = require("../capabilities.json") as { dataRoles: LandingDataRole[] };
+
 interface SortControlOption {
     mode: TimelineSortMode;
     label: string;
@@ -42,26 +63,26 @@ interface SortControlOption {
 
 type InteractionSource = "callback" | "localClick" | "postRenderSync" | "clear";
 
-const SUPPORTED_SORT_OPTIONS: Record<TimelineSortMode, { label: string; requiresRegion?: boolean }> = {
-    region: { label: "region", requiresRegion: true },
-    time: { label: "time" },
-    category: { label: "category" },
-    end: { label: "end" },
-    duration: { label: "duration" }
+const SUPPORTED_SORT_OPTIONS: Record<TimelineSortMode, { labelKey: string; requiresRegion?: boolean }> = {
+    region: { labelKey: "Visual_SortByRegion", requiresRegion: true },
+    time: { labelKey: "Visual_SortByTime" },
+    category: { labelKey: "Visual_SortByCategory" },
+    end: { labelKey: "Visual_SortByEnd" },
+    duration: { labelKey: "Visual_SortByDuration" }
 };
 
 function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Timeline",
+        displayName: localize("Visual_Timeline"),
         uid: "timeline_card",
         groups: [
             {
-                displayName: "Layout",
+                displayName: localize("Visual_Layout"),
                 uid: "timeline_layout_group",
                 slices: [
                     {
                         uid: "timeline_sortBy",
-                        displayName: "Sort By",
+                        displayName: localize("Visual_SortBy"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.Dropdown,
                             properties: {
@@ -72,7 +93,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_sortOptions",
-                        displayName: "Sort Options",
+                        displayName: localize("Visual_SortOptions"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.TextInput,
                             properties: {
@@ -83,7 +104,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_lanePadding",
-                        displayName: "Lane Padding",
+                        displayName: localize("Visual_LanePadding"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -98,7 +119,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_cornerRadius",
-                        displayName: "Bar Corner Radius",
+                        displayName: localize("Visual_BarCornerRadius"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -113,7 +134,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_minBarWidth",
-                        displayName: "Min Bar Width",
+                        displayName: localize("Visual_MinBarWidth"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -128,7 +149,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_showCrosshair",
-                        displayName: "Show Crosshair",
+                        displayName: localize("Visual_ShowCrosshair"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -139,7 +160,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_showTodayLine",
-                        displayName: "Show Today Line",
+                        displayName: localize("Visual_ShowTodayLine"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -150,7 +171,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_showTopAxis",
-                        displayName: "Show Top Axis",
+                        displayName: localize("Visual_ShowTopAxis"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -161,7 +182,7 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "timeline_showBottomAxis",
-                        displayName: "Show Bottom Axis",
+                        displayName: localize("Visual_ShowBottomAxis"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -178,16 +199,16 @@ function createTimelineCard(settings: IWorldHistoryTimelineVisualSettings): powe
 
 function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dataLabels"]): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Data Labels",
+        displayName: localize("Visual_DataLabels"),
         uid: "data_labels_card",
         groups: [
             {
-                displayName: "Labels",
+                displayName: localize("Visual_Labels"),
                 uid: "data_labels_group",
                 slices: [
                     {
                         uid: "data_labels_show",
-                        displayName: "Show",
+                        displayName: localize("Visual_Show"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -198,7 +219,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_fontSize",
-                        displayName: "Font Size",
+                        displayName: localize("Visual_FontSize"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.NumUpDown,
                             properties: {
@@ -213,7 +234,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_fontFamily",
-                        displayName: "Font Family",
+                        displayName: localize("Visual_FontFamily"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.TextInput,
                             properties: {
@@ -224,7 +245,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_color",
-                        displayName: "Color",
+                        displayName: localize("Visual_Color"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ColorPicker,
                             properties: {
@@ -235,7 +256,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_bold",
-                        displayName: "Bold",
+                        displayName: localize("Visual_Bold"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -246,7 +267,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_italic",
-                        displayName: "Italic",
+                        displayName: localize("Visual_Italic"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -257,7 +278,7 @@ function createDataLabelsCard(settings: IWorldHistoryTimelineVisualSettings["dat
                     } as powerbi.visuals.FormattingSlice,
                     {
                         uid: "data_labels_underline",
-                        displayName: "Underline",
+                        displayName: localize("Visual_Underline"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -276,16 +297,16 @@ function createInteractionDiagnosticsCard(
     settings: IWorldHistoryTimelineVisualSettings["interactionDiagnostics"]
 ): powerbi.visuals.FormattingCard {
     return {
-        displayName: "Interaction Diagnostics",
+        displayName: localize("Visual_InteractionDiagnostics"),
         uid: "interaction_diagnostics_card",
         groups: [
             {
-                displayName: "Diagnostics",
+                displayName: localize("Visual_Diagnostics"),
                 uid: "interaction_diagnostics_group",
                 slices: [
                     {
                         uid: "interaction_diagnostics_show",
-                        displayName: "Show Diagnostics",
+                        displayName: localize("Visual_ShowDiagnostics"),
                         control: {
                             type: powerbi.visuals.FormattingComponent.ToggleSwitch,
                             properties: {
@@ -319,6 +340,7 @@ export class Visual implements IVisual {
     private callbackFireCount: number = 0;
     private latestChartData: WorldHistoryTimelineData | null = null;
     private latestMatchedSelectionRowKeys: Set<string> = new Set();
+    private legendBinding: { applySelection: (selectedDataKeys: Set<string>) => void } | null = null;
     private diagnosticsOverlay: HTMLDivElement | null = null;
 
     private regionSelectionIds: Map<string, ISelectionId> = new Map();
@@ -336,6 +358,7 @@ export class Visual implements IVisual {
     private canSortByRegion: boolean = false;
     private lastUpdateOptions: VisualUpdateOptions | null = null;
     private sortControlReservePx: number = 0;
+    private viewState: ViewStateStore;
 
     private static readonly MIN_CONTENT_WIDTH: number = 900;
     private static readonly MAX_CONTENT_WIDTH: number = 300000;
@@ -361,15 +384,33 @@ export class Visual implements IVisual {
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
         this.target = options.element;
+        setLocalizationManager(this.host.createLocalizationManager());
+        setFormatLocale(this.host.locale);
+        this.viewState = new ViewStateStore(this.host);
         this.tooltipService = this.host.tooltipService;
         this.selectionManager = this.host.createSelectionManager();
         this.tooltipOwnerId = `bta-world-history-${Visual.instanceCounter++}`;
         this.emptySelectionId = this.host.createSelectionIdBuilder().createSelectionId();
         this.allowInteractions = this.host.hostCapabilities?.allowInteractions !== false;
+
+        if (this.allowInteractions) {
+            // Rows and bars are bound by the svg click handler in `bindInteractions`, not `bindSelectionByDataKey`.
+            bindContextMenu({
+                root: this.target,
+                selectionManager: this.selectionManager,
+                emptySelectionId: this.emptySelectionId,
+                resolveSelectionId: (target) => {
+                    const selectionKey = this.resolveSelectionKeyFromTarget(target);
+                    return selectionKey ? this.pointSelectionIds.get(selectionKey) ?? null : null;
+                }
+            });
+        }
+
         this.target.style.position = "relative";
         this.target.style.overflowX = "auto";
         this.target.style.overflowY = "auto";
         this.onTargetScroll = () => {
+            this.viewState.update({ scrollLeft: this.target.scrollLeft, scrollTop: this.target.scrollTop });
             this.syncPinnedLayers();
             this.setSortMenuOpen(false);
             this.htmlTooltip?.hide();
@@ -414,8 +455,6 @@ export class Visual implements IVisual {
         this.lastUpdateOptions = options;
 
         try {
-            this.svg.selectAll("*").remove();
-            this.container = this.svg.append("g").classed("chart-container", true);
             this.htmlTooltip?.hide();
 
             const width = options.viewport.width;
@@ -437,13 +476,16 @@ export class Visual implements IVisual {
                 this.lastViewportWidth = width;
                 this.lastViewportHeight = height;
                 this.svg.attr("width", width).attr("height", height).attr("viewBox", `0 0 ${width} ${height}`);
-                this.renderNoData();
+                this.renderNoData(width, height);
                 this.updateDiagnosticsOverlay();
                 return;
             }
 
             const dataView = options.dataViews[0];
             this.settings = parseSettings(dataView);
+            this.settings.viewState = this.viewState.sync(this.settings.viewState);
+            this.runtimeSortBy = (this.settings.viewState.sortBy || null) as TimelineSortMode | null;
+            applyThemeTextDefaults(this.settings, dataView.metadata?.objects, this.host.colorPalette);
             this.ensureDiagnosticsOverlay();
             this.syncHtmlTooltip();
 
@@ -475,7 +517,7 @@ export class Visual implements IVisual {
                 this.lastViewportWidth = width;
                 this.lastViewportHeight = height;
                 this.svg.attr("width", width).attr("height", height).attr("viewBox", `0 0 ${width} ${height}`);
-                this.renderNoData();
+                this.renderNoData(width, height, dataView);
                 this.updateDiagnosticsOverlay();
                 return;
             }
@@ -509,10 +551,20 @@ export class Visual implements IVisual {
                 .attr("viewBox", `0 0 ${virtualCanvas.width} ${virtualCanvas.height}`);
 
             const layoutKey = `${virtualCanvas.width}x${virtualCanvas.height}|${chartData.minYear}|${chartData.maxYear}|${chartData.items.length}`;
-            if (viewportChanged || this.lastLayoutKey !== layoutKey) {
+            const savedScroll = this.settings.viewState;
+            if (!this.lastLayoutKey) {
+                // First layout since load (or since the data came back): resume where the user left off.
+                this.target.scrollLeft = savedScroll.scrollLeft;
+                this.target.scrollTop = savedScroll.scrollTop;
+                this.lastLayoutKey = layoutKey;
+            } else if (viewportChanged || this.lastLayoutKey !== layoutKey) {
                 this.target.scrollLeft = 0;
                 this.target.scrollTop = 0;
                 this.lastLayoutKey = layoutKey;
+            } else if (savedScroll.scrollLeft !== this.target.scrollLeft || savedScroll.scrollTop !== this.target.scrollTop) {
+                // A bookmark brought a different scroll position.
+                this.target.scrollLeft = savedScroll.scrollLeft;
+                this.target.scrollTop = savedScroll.scrollTop;
             }
             this.lastViewportWidth = width;
             this.lastViewportHeight = height;
@@ -534,7 +586,7 @@ export class Visual implements IVisual {
 
             const defaultColors = effectiveSettings.useCustomColors && effectiveSettings.customColors?.length > 0
                 ? effectiveSettings.customColors
-                : getSchemeColors(effectiveSettings.colorScheme);
+                : getSchemeColors(effectiveSettings.colorScheme, this.host.colorPalette);
             const seededColors = new Map<string, string>(this.regionColors);
             chartData.regions.forEach((region, i) => {
                 if (!seededColors.has(region)) {
@@ -543,7 +595,16 @@ export class Visual implements IVisual {
             });
             chartData.categoryColorMap = seededColors;
 
+            const ruleColors = createConditionalColorLookup(dataView);
+            const ruleColorsByKey = new Map<string, string>();
+            chartData.dataPoints.forEach((point) => {
+                addRuleColorForKey(ruleColorsByKey, String(point.index), ruleColors.getRowColor(point.index));
+            });
+            chartData.ruleColorsByKey = ruleColorsByKey;
+
             this.renderer.render(chartData, effectiveSettings);
+
+            this.renderer.renderAccessibility(chartData);
             this.syncPinnedLayers();
             this.bindInteractions();
             this.syncSelectionStateFromManager("postRenderSync");
@@ -730,8 +791,13 @@ export class Visual implements IVisual {
         });
     }
 
-    private renderNoData(): void {
+    private renderNoData(width: number, height: number, dataView?: powerbi.DataView): void {
         this.container.selectAll("*").remove();
+        renderAccessibleSummary(this.target, this.svg.node(), null);
+        renderLandingPage(this.container, width, height, {
+            roles: getLandingRoleStatus(capabilities.dataRoles, ["civilization", "startYear"], dataView),
+            illustration: "timeline"
+        });
     }
 
     private resolveSortControlOptions(config: string, canSortByRegion: boolean): SortControlOption[] {
@@ -766,7 +832,7 @@ export class Visual implements IVisual {
 
         return orderedModes.map((mode) => ({
             mode,
-            label: SUPPORTED_SORT_OPTIONS[mode].label,
+            label: localize(SUPPORTED_SORT_OPTIONS[mode].labelKey),
             disabled: Boolean(SUPPORTED_SORT_OPTIONS[mode].requiresRegion && !canSortByRegion)
         }));
     }
@@ -782,7 +848,7 @@ export class Visual implements IVisual {
 
         const title = document.createElement("div");
         title.className = "timeline-sort-title";
-        title.textContent = "Sorted by";
+        title.textContent = localize("Visual_SortedBy");
         root.appendChild(title);
 
         const trigger = document.createElement("button");
@@ -861,6 +927,7 @@ export class Visual implements IVisual {
                 }
 
                 this.runtimeSortBy = optionData.mode;
+                this.viewState.update({ sortBy: optionData.mode });
                 this.setSortMenuOpen(false);
                 this.syncSortControl(true, optionData.mode, sortOptions);
 
@@ -1428,6 +1495,7 @@ export class Visual implements IVisual {
         });
 
         this.applyRowOpacityState();
+        this.legendBinding?.applySelection(matchedSelectionRowKeys);
         this.updateDiagnosticsOverlay();
     }
 
@@ -1477,7 +1545,7 @@ export class Visual implements IVisual {
         if (this.regions.length > 0) {
             const defaultColors = this.settings.useCustomColors && this.settings.customColors?.length > 0
                 ? this.settings.customColors
-                : getSchemeColors(this.settings.colorScheme);
+                : getSchemeColors(this.settings.colorScheme, this.host.colorPalette);
 
             cards.push(createDataColorsCard(this.regions, this.regionSelectionIds, this.regionColors, defaultColors));
         }
@@ -1485,11 +1553,16 @@ export class Visual implements IVisual {
         cards.push(createColorSchemeCard(this.settings.colorScheme));
 
         cards.push(createTooltipCard(this.settings.tooltip));
+        cards.push(createDisplayUnitsCard(this.settings.displayUnits));
+        cards.push(createAnimationCard(this.settings.animation));
+        cards.push(createAccessibilityCard(this.settings.accessibility));
+        cards.push(createConditionalColorsCard(getSchemeColors(this.settings.colorScheme, this.host.colorPalette)[0]));
 
         cards.push(createLegendCard({
             show: this.settings.showLegend,
             fontSize: this.settings.legendFontSize,
-            maxItems: this.settings.maxLegendItems
+            maxItems: this.settings.maxLegendItems,
+            overflow: this.settings.legendOverflow
         }));
 
         cards.push(createYAxisCard({
@@ -1529,6 +1602,7 @@ export class Visual implements IVisual {
     }
 
     public destroy(): void {
+        this.viewState.flush();
         this.target.removeEventListener("scroll", this.onTargetScroll);
         if (typeof document !== "undefined") {
             document.removeEventListener("mousedown", this.onDocumentPointerDown, true);
@@ -1560,10 +1634,34 @@ export class Visual implements IVisual {
     }
 
     private bindInteractions(): void {
+        bindKeyboardFocus({
+            root: this.target,
+            markSelector: ".timeline-bar[data-selection-key]"
+        });
+
+        this.legendBinding = null;
         if (!this.allowInteractions) {
             return;
         }
 
+        // Region legend: rows carry their region as `data-legend-key`.
+        this.legendBinding = bindLegendInteractions({
+            root: this.target,
+            markSelector: ".timeline-row[data-selection-key]",
+            dimOpacity: 0.2,
+            onSelect: (rowKeys, isMultiSelect) => {
+                const ids = rowKeys
+                    .map((rowKey) => this.pointSelectionIds.get(rowKey))
+                    .filter((id): id is ISelectionId => Boolean(id));
+                if (!ids.length) return;
+                this.selectionManager.select(ids, isMultiSelect)
+                    .then((selected) => this.setSelectionState(selected, "localClick"))
+                    .catch(() => undefined);
+            },
+            onHoverEnd: () => this.applyRowOpacityState()
+        });
+        this.legendBinding.applySelection(this.latestMatchedSelectionRowKeys);
+
         this.svg.on("click", (event: MouseEvent) => {
             const target = event.target as Element | null;
             const selectionKey = this.resolveSelectionKeyFromTarget(target);
@@ -1584,25 +1682,5 @@ export class Visual implements IVisual {
                 .then(() => this.setSelectionState([], "clear"))
                 .catch(() => undefined);
         });
-
-        this.svg.on("contextmenu", (event: MouseEvent) => {
-            const target = event.target as Element | null;
-            const selectionKey = this.resolveSelectionKeyFromTarget(target);
-            if (selectionKey) {
-                const selectionId = this.pointSelectionIds.get(selectionKey);
-                if (!selectionId) {
-                    return;
-                }
-
-                event.preventDefault();
-                this.selectionManager.showContextMenu(selectionId, { x: event.clientX, y: event.clientY })
-                    .catch(() => undefined);
-                return;
-            }
-
-            event.preventDefault();
-            this.selectionManager.showContextMenu(this.emptySelectionId, { x: event.clientX, y: event.clientY })
-                .catch(() => undefined);
-        });
     }
 }
@@ -1,8 +1,8 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, isDeepestLoadedLevel, localize, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData } from "./ChartTransformer";
+import { IChartData, getHighlightedTotal } from "./ChartTransformer";
 
 declare const require: any;
 const d3Hierarchy = require("d3-hierarchy");
@@ -15,8 +15,8 @@ function collectLegendKeys(node: { name?: string; children?: any[] }): string[]
     const keys: string[] = [];
     const visit = (cur: any, parent?: string): void => {
         const ch = cur.children ?? [];
-        if (!ch.length) { keys.push(String(parent ?? cur.name ?? "(Blank)")); return; }
-        ch.forEach((c: any) => visit(c, String(cur.name ?? parent ?? "(Blank)")));
+        if (!ch.length) { keys.push(String(parent ?? cur.name ?? localize("Visual_Blank"))); return; }
+        ch.forEach((c: any) => visit(c, String(cur.name ?? parent ?? localize("Visual_Blank"))));
     };
     visit(node);
     return keys;
@@ -32,14 +32,15 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     }
 
     private getStack(group: string): any[] {
-        if (!this.zoomStack.has(group)) this.zoomStack.set(group, []);
+        if (!this.zoomStack.has(group)) this.zoomStack.set(group, [...(this.settings.viewState.drillPath[group] ?? [])]);
         return this.zoomStack.get(group)!;
     }
 
     private rerenderAll(): void {
         if (!this.lastData || !this.lastSettings) return;
-        this.context.container.selectAll("*").remove();
+        this.context.onViewStateChange?.({ drillPath: Object.fromEntries(this.zoomStack) });
         this.render(this.lastData, this.lastSettings);
+        this.context.onRerender?.();
     }
 
     private truncateLabel(text: string, maxWidth: number, fontSize: number): string {
@@ -48,7 +49,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         return text.length <= max ? text : text.substring(0, max - 1) + "\u2026";
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         this.lastData = chartData;
@@ -66,7 +67,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         const colorScale = this.getCategoryColors(legendCategories.length ? legendCategories : groups);
 
         const legendReserve = settings.showLegend && legendCategories.length
-            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories.slice(0, settings.maxLegendItems) })
+            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories })
             : { top: 0, right: 0, bottom: 0, left: 0 };
 
         const margin = {
@@ -75,10 +76,20 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             bottom: 6 + legendReserve.bottom,
             left: 6 + legendReserve.left
         };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const totalW = Math.max(220, this.context.width - margin.left - margin.right);
-        const totalH = Math.max(160, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelH = totalH / groups.length;
+        const totalH = Math.max(160, this.context.height - margin.top - margin.bottom);
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: totalW,
+            height: totalH,
+            aspectRatio: 1.6,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 10 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelW = grid.panelWidth;
+        const panelH = grid.panelHeight;
         const breadcrumbH = 22;
         const labelFontSize = Math.max(8, Math.min(12, settings.textSizes.xAxisFontSize || settings.xAxisFontSize));
 
@@ -88,16 +99,19 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             const stack = this.getStack(groupName);
             const isZoomed = stack.length > 0;
-            const panelY = margin.top + groupIndex * (panelH + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", `translate(${margin.left},${Math.round(panelY)})`);
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             let zoomData: any = rootData;
-            for (const seg of stack) {
+            for (const [depth, seg] of stack.entries()) {
                 const child = (zoomData.children ?? []).find((c: any) => c.name === seg);
-                if (child) zoomData = child;
-                else break;
+                if (child) {
+                    zoomData = child;
+                } else {
+                    // A restored drill path can point into data that is no longer there.
+                    stack.length = depth;
+                    break;
+                }
             }
 
             const zoomRoot = d3Hierarchy.hierarchy(zoomData)
@@ -112,11 +126,11 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 const parts = ["root", ...stack];
                 let bx = 0;
                 const crumbG = panel.append("g").attr("class", "breadcrumb-bar");
-                crumbG.append("rect").attr("width", totalW).attr("height", breadcrumbH).attr("fill", "#f3f4f6").attr("rx", 3);
+                crumbG.append("rect").attr("width", panelW).attr("height", breadcrumbH).attr("fill", "#f3f4f6").attr("rx", 3);
 
                 parts.forEach((part, idx) => {
                     const isLast = idx === parts.length - 1;
-                    const label = idx === 0 ? "\u2190 All" : part;
+                    const label = idx === 0 ? `\u2190 ${localize("Visual_All")}` : part;
                     const crumb = crumbG.append("text")
                         .attr("x", bx + 8).attr("y", 15)
                         .attr("font-size", "11px").attr("font-family", settings.xAxisFontFamily)
@@ -124,7 +138,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         .style("font-weight", isLast ? "600" : "400")
                         .style("cursor", isLast ? "default" : "pointer")
                         .text(label);
-                    if (!isLast) crumb.on("click", () => { stack.length = idx; this.rerenderAll(); });
+                    if (!isLast) crumb.on("click", (event: MouseEvent) => { event.stopPropagation(); stack.length = idx; this.rerenderAll(); });
                     bx += label.length * 7 + 16;
                     if (!isLast) {
                         crumbG.append("text").attr("x", bx).attr("y", 15).attr("font-size", "11px").attr("fill", "#9ca3af").text(">");
@@ -134,73 +148,103 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             }
 
             // Partition layout (horizontal icicle: x = width, y = depth)
-            const partition = d3Hierarchy.partition().size([totalW, chartH]);
+            const partition = d3Hierarchy.partition().size([panelW, chartH]);
             partition(zoomRoot);
 
             const nodes = zoomRoot.descendants().filter((d: any) => d.depth > 0 && d.x1 > d.x0);
 
-            panel.selectAll("rect.mark")
-                .data(nodes)
-                .join("rect")
-                .attr("class", "mark")
+            // fx rules color leaves; parents and leaves without a rule result keep the top-level palette color.
+            const nodeColor = (d: any): string => {
+                const ruleColor = this.getRuleColor(chartData, d.children ? null : d.data.selectionKey);
+                if (ruleColor) return ruleColor;
+                const top = d.depth === 1 ? d.data.name : (d.ancestors()[d.ancestors().length - 2]?.data?.name || d.data.name);
+                return colorScale(String(top));
+            };
+            // Legend entries name each leaf's parent (see collectLegendKeys).
+            const legendKey = (d: any): string | null => d.children ? null : String(d.parent?.data?.name || d.data.name);
+            // Full path from the group's root, so a cell keeps its key when zooming in or out.
+            const nodeKey = (d: any): string => [...stack, ...d.ancestors().map((a: any) => a.data.name).reverse().slice(1)].join("\u001f");
+
+            this.joinMarks<SVGRectElement, any>(panel, "rect.mark", nodes, nodeKey, (rect) => rect
                 .attr("x", (d: any) => Math.round(d.x0))
                 .attr("y", (d: any) => Math.round(d.y0 + chartY))
                 .attr("width", (d: any) => Math.max(1, Math.round(d.x1 - d.x0)))
                 .attr("height", (d: any) => Math.max(1, Math.round(d.y1 - d.y0)))
-                .attr("fill", (d: any) => {
-                    const top = d.depth === 1 ? d.data.name : (d.ancestors()[d.ancestors().length - 2]?.data?.name || d.data.name);
-                    return colorScale(String(top));
-                })
+                .attr("fill", (d: any) => nodeColor(d))
+                .attr("fill-opacity", (d: any) => Math.max(0.5, 1.0 - d.depth * 0.12) * (chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1)))
+                .attr("data-selection-key", (d: any) => d.children ? null : (d.data.selectionKey ?? null))
+                .attr("data-legend-key", legendKey)
                 .attr("stroke", "#ffffff")
                 .attr("stroke-width", 1)
-                .attr("fill-opacity", (d: any) => Math.max(0.5, 1.0 - d.depth * 0.12))
                 .style("cursor", (d: any) => d.children ? "pointer" : "default")
                 .on("click", (event: any, d: any) => {
                     if (!d.children) return;
+                    event.stopPropagation();
                     const path = d.ancestors().map((a: any) => a.data.name).reverse().slice(1);
                     stack.length = 0;
                     path.forEach((seg: string) => stack.push(seg));
                     this.rerenderAll();
+                    // Zoomed to the deepest level loaded: ask the host for the next hierarchy level.
+                    if (isDeepestLoadedLevel(d.data)) this.context.onDrillDown?.();
                 })
                 .each((d: any, i: number, nodesSel: any[]) => {
-                    const top = d.depth === 1 ? d.data.name : (d.ancestors()[d.ancestors().length - 2]?.data?.name || d.data.name);
-                    const color = colorScale(String(top));
+                    const color = nodeColor(d);
                     this.addTooltip(d3.select(nodesSel[i]) as any, [
-                        { displayName: "Node", value: String(d.data.name), color },
-                        { displayName: "Value", value: formatMeasureValue(d.value, chartData.valueFormatString) },
-                        { displayName: "Depth", value: String(d.depth) }
+                        { displayName: localize("Visual_Node"), value: String(d.data.name), color },
+                        { displayName: localize("Visual_Value"), value: this.formatTooltipValue(d.value, chartData.valueFormatString) },
+                        { displayName: localize("Visual_Depth"), value: String(d.depth) },
+                        ...(chartData.hasHighlights ? [
+                            { displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(getHighlightedTotal(d.data), chartData.valueFormatString) }
+                        ] : [])
                     ], {
                         title: ancestorPath(d) || d.data.name,
-                        subtitle: groupName !== "All" ? groupName : undefined,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                         color
                     });
                 });
 
+            // Highlighted share of each cell, filled from its left edge over the dimmed full cell
+            if (chartData.hasHighlights) {
+                const highlightShare = (d: any): number => d.value > 0 ? Math.min(1, getHighlightedTotal(d.data) / d.value) : 0;
+                const highlightLayer = this.getLayer(panel, "highlight-layer")
+                    .style("pointer-events", "none");
+                this.joinMarks<SVGRectElement, any>(highlightLayer, "rect.highlight", nodes.filter((d: any) => highlightShare(d) > 0), nodeKey, (rect) => rect
+                    .attr("x", (d: any) => Math.round(d.x0))
+                    .attr("y", (d: any) => Math.round(d.y0 + chartY))
+                    .attr("width", (d: any) => Math.max(1, Math.round((d.x1 - d.x0) * highlightShare(d))))
+                    .attr("height", (d: any) => Math.max(1, Math.round(d.y1 - d.y0)))
+                    .attr("fill", (d: any) => nodeColor(d))
+                    .attr("fill-opacity", (d: any) => Math.max(0.5, 1.0 - d.depth * 0.12)))
+                    .attr("data-selection-key", (d: any) => d.children ? null : (d.data.selectionKey ?? null))
+                    .attr("data-legend-key", legendKey);
+            }
+
             // Labels
-            panel.selectAll("text.cell-label")
-                .data(nodes.filter((d: any) => (d.x1 - d.x0) > 36 && (d.y1 - d.y0) > 16))
-                .join("text")
-                .attr("class", "cell-label")
+            this.joinMarks<SVGTextElement, any>(panel, "text.cell-label", nodes.filter((d: any) => (d.x1 - d.x0) > 36 && (d.y1 - d.y0) > 16), nodeKey, (text) => text
                 .attr("x", (d: any) => Math.round(d.x0 + 4))
-                .attr("y", (d: any) => Math.round(d.y0 + chartY + 13))
+                .attr("y", (d: any) => Math.round(d.y0 + chartY + 13)))
                 .attr("font-size", labelFontSize + "px")
                 .attr("fill", "#fff")
                 .style("pointer-events", "none")
                 .style("text-shadow", "0 1px 2px rgba(0,0,0,0.35)")
                 .text((d: any) => this.truncateLabel(String(d.data.name), (d.x1 - d.x0) - 8, labelFontSize));
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text").attr("class", "panel-title")
                     .attr("x", 0).attr("y", -6)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
 
         if (settings.showLegend && legendCategories.length) {
-            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories.slice(0, settings.maxLegendItems), undefined, undefined, {
+            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories, undefined, undefined, {
                 alignFrame: { x: margin.left, y: margin.top, width: totalW, height: totalH }
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_IcicleChart");
+    }
 }
@@ -1,8 +1,8 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import { d3, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, isDeepestLoadedLevel, localize, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData } from "./ChartTransformer";
+import { IChartData, getHighlightedTotal } from "./ChartTransformer";
 
 declare const require: any;
 const d3Hierarchy = require("d3-hierarchy");
@@ -15,8 +15,8 @@ function collectLegendKeys(node: { name?: string; children?: any[] }): string[]
     const keys: string[] = [];
     const visit = (cur: any, parent?: string): void => {
         const ch = cur.children ?? [];
-        if (!ch.length) { keys.push(String(parent ?? cur.name ?? "(Blank)")); return; }
-        ch.forEach((c: any) => visit(c, String(cur.name ?? parent ?? "(Blank)")));
+        if (!ch.length) { keys.push(String(parent ?? cur.name ?? localize("Visual_Blank"))); return; }
+        ch.forEach((c: any) => visit(c, String(cur.name ?? parent ?? localize("Visual_Blank"))));
     };
     visit(node);
     return keys;
@@ -32,17 +32,18 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     }
 
     private getStack(group: string): any[] {
-        if (!this.zoomStack.has(group)) this.zoomStack.set(group, []);
+        if (!this.zoomStack.has(group)) this.zoomStack.set(group, [...(this.settings.viewState.drillPath[group] ?? [])]);
         return this.zoomStack.get(group)!;
     }
 
     private rerenderAll(): void {
         if (!this.lastData || !this.lastSettings) return;
-        this.context.container.selectAll("*").remove();
+        this.context.onViewStateChange?.({ drillPath: Object.fromEntries(this.zoomStack) });
         this.render(this.lastData, this.lastSettings);
+        this.context.onRerender?.();
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         this.lastData = chartData;
@@ -60,7 +61,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
         const colorScale = this.getCategoryColors(legendCategories.length ? legendCategories : groups);
 
         const legendReserve = settings.showLegend && legendCategories.length
-            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories.slice(0, settings.maxLegendItems) })
+            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories })
             : { top: 0, right: 0, bottom: 0, left: 0 };
 
         const margin = {
@@ -69,10 +70,20 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             bottom: 6 + legendReserve.bottom,
             left: 6 + legendReserve.left
         };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const totalW = Math.max(220, this.context.width - margin.left - margin.right);
-        const totalH = Math.max(180, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelH = totalH / groups.length;
+        const totalH = Math.max(180, this.context.height - margin.top - margin.bottom);
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: totalW,
+            height: totalH,
+            aspectRatio: 1,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 10 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelW = grid.panelWidth;
+        const panelH = grid.panelHeight;
         const breadcrumbH = 22;
         const labelFontSize = Math.max(8, Math.min(12, settings.textSizes.xAxisFontSize || settings.xAxisFontSize));
 
@@ -82,16 +93,19 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             const stack = this.getStack(groupName);
             const isZoomed = stack.length > 0;
-            const panelY = margin.top + groupIndex * (panelH + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", `translate(${margin.left},${Math.round(panelY)})`);
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             let zoomData: any = rootData;
-            for (const seg of stack) {
+            for (const [depth, seg] of stack.entries()) {
                 const child = (zoomData.children ?? []).find((c: any) => c.name === seg);
-                if (child) zoomData = child;
-                else break;
+                if (child) {
+                    zoomData = child;
+                } else {
+                    // A restored drill path can point into data that is no longer there.
+                    stack.length = depth;
+                    break;
+                }
             }
 
             const zoomRoot = d3Hierarchy.hierarchy(zoomData)
@@ -100,8 +114,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             const chartY = isZoomed ? breadcrumbH : 0;
             const chartH = Math.max(60, panelH - chartY);
-            const radius = Math.max(30, Math.min(totalW, chartH) / 2 - 8);
-            const cx = totalW / 2;
+            const radius = Math.max(30, Math.min(panelW, chartH) / 2 - 8);
+            const cx = panelW / 2;
             const cy = chartY + chartH / 2;
 
             // Breadcrumb
@@ -109,11 +123,11 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 const parts = ["root", ...stack];
                 let bx = 0;
                 const crumbG = panel.append("g").attr("class", "breadcrumb-bar");
-                crumbG.append("rect").attr("width", totalW).attr("height", breadcrumbH).attr("fill", "#f3f4f6").attr("rx", 3);
+                crumbG.append("rect").attr("width", panelW).attr("height", breadcrumbH).attr("fill", "#f3f4f6").attr("rx", 3);
 
                 parts.forEach((part, idx) => {
                     const isLast = idx === parts.length - 1;
-                    const label = idx === 0 ? "\u2190 All" : part;
+                    const label = idx === 0 ? `\u2190 ${localize("Visual_All")}` : part;
                     const crumb = crumbG.append("text")
                         .attr("x", bx + 8).attr("y", 15)
                         .attr("font-size", "11px").attr("font-family", settings.xAxisFontFamily)
@@ -121,7 +135,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         .style("font-weight", isLast ? "600" : "400")
                         .style("cursor", isLast ? "default" : "pointer")
                         .text(label);
-                    if (!isLast) crumb.on("click", () => { stack.length = idx; this.rerenderAll(); });
+                    if (!isLast) crumb.on("click", (event: MouseEvent) => { event.stopPropagation(); stack.length = idx; this.rerenderAll(); });
                     bx += label.length * 7 + 16;
                     if (!isLast) {
                         crumbG.append("text").attr("x", bx).attr("y", 15).attr("font-size", "11px").attr("fill", "#9ca3af").text(">");
@@ -142,7 +156,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .innerRadius((d: any) => d.y0)
                 .outerRadius((d: any) => Math.max(d.y0 + 1, d.y1 - 1));
 
-            const g = panel.append("g").attr("transform", `translate(${Math.round(cx)},${Math.round(cy)})`);
+            const g = this.getLayer(panel, "sunburst", (layer) => layer
+                .attr("transform", `translate(${Math.round(cx)},${Math.round(cy)})`));
 
             // Center circle (click to zoom out)
             if (isZoomed) {
@@ -152,48 +167,70 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     .attr("stroke", "#d1d5db")
                     .attr("stroke-width", 1)
                     .style("cursor", "pointer")
-                    .on("click", () => { stack.pop(); this.rerenderAll(); });
+                    .on("click", (event: MouseEvent) => { event.stopPropagation(); stack.pop(); this.rerenderAll(); });
                 g.append("text")
                     .attr("text-anchor", "middle").attr("dy", "0.35em")
                     .attr("font-size", "11px").attr("fill", "#6b7280")
                     .style("pointer-events", "none")
-                    .text("\u2190 Back");
+                    .text(`\u2190 ${localize("Visual_Back")}`);
             }
 
-            g.selectAll("path.mark")
-                .data(nodes)
-                .join("path")
-                .attr("class", "mark")
-                .attr("d", arc as any)
-                .attr("fill", (d: any) => colorScale(String(d.children ? d.data.name : (d.parent?.data?.name || d.data.name))))
+            // fx rules color leaves; parents and leaves without a rule result keep the palette color.
+            const paletteKey = (d: any): string => String(d.children ? d.data.name : (d.parent?.data?.name || d.data.name));
+            const nodeColor = (d: any): string => this.getRuleColor(chartData, d.children ? null : d.data.selectionKey)
+                ?? colorScale(paletteKey(d));
+            // Full path from the group's root, so an arc keeps its key when zooming in or out.
+            const nodeKey = (d: any): string => [...stack, ...d.ancestors().map((a: any) => a.data.name).reverse().slice(1)].join("\u001f");
+
+            this.joinMarks<SVGPathElement, any>(g, "path.mark", nodes, nodeKey, (path) => path
+                .attr("d", (d: any) => arc(d))
+                .attr("fill", (d: any) => nodeColor(d))
+                .attr("fill-opacity", chartData.hasHighlights ? 0.9 * DIMMED_HIGHLIGHT_OPACITY : 0.9))
+                .attr("data-selection-key", (d: any) => d.children ? null : (d.data.selectionKey ?? null))
+                .attr("data-legend-key", (d: any) => d.children ? null : paletteKey(d))
                 .attr("stroke", "#ffffff")
                 .attr("stroke-width", 1)
-                .attr("fill-opacity", 0.9)
                 .style("cursor", (d: any) => d.children ? "pointer" : "default")
                 .on("click", (event: any, d: any) => {
                     if (!d.children) return;
+                    event.stopPropagation();
                     const path = d.ancestors().map((a: any) => a.data.name).reverse().slice(1);
                     stack.length = 0;
                     path.forEach((seg: string) => stack.push(seg));
                     this.rerenderAll();
+                    // Zoomed to the deepest level loaded: ask the host for the next hierarchy level.
+                    if (isDeepestLoadedLevel(d.data)) this.context.onDrillDown?.();
                 })
                 .each((d: any, i: number, nodesSel: any[]) => {
-                    const color = colorScale(String(d.children ? d.data.name : (d.parent?.data?.name || d.data.name)));
+                    const color = nodeColor(d);
                     this.addTooltip(d3.select(nodesSel[i]) as any, [
-                        { displayName: "Node", value: String(d.data.name), color },
-                        { displayName: "Value", value: formatMeasureValue(d.value, chartData.valueFormatString) }
+                        { displayName: localize("Visual_Node"), value: String(d.data.name), color },
+                        { displayName: localize("Visual_Value"), value: this.formatTooltipValue(d.value, chartData.valueFormatString) },
+                        ...(chartData.hasHighlights ? [
+                            { displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(getHighlightedTotal(d.data), chartData.valueFormatString) }
+                        ] : [])
                     ], {
                         title: ancestorPath(d) || d.data.name,
-                        subtitle: groupName !== "All" ? groupName : undefined,
+                        subtitle: groupName !== ALL_GROUP ? groupName : undefined,
                         color
                     });
                 });
 
+            // Highlighted share of each arc, swept from its start angle over the dimmed full arc
+            if (chartData.hasHighlights) {
+                const highlightShare = (d: any): number => d.value > 0 ? Math.min(1, getHighlightedTotal(d.data) / d.value) : 0;
+                const highlightLayer = this.getLayer(g, "highlight-layer")
+                    .style("pointer-events", "none");
+                this.joinMarks<SVGPathElement, any>(highlightLayer, "path.highlight", nodes.filter((d: any) => highlightShare(d) > 0), nodeKey, (path) => path
+                    .attr("d", (d: any) => arc({ ...d, x1: d.x0 + (d.x1 - d.x0) * highlightShare(d) }))
+                    .attr("fill", (d: any) => nodeColor(d))
+                    .attr("fill-opacity", 0.9))
+                    .attr("data-selection-key", (d: any) => d.children ? null : (d.data.selectionKey ?? null))
+                    .attr("data-legend-key", (d: any) => d.children ? null : paletteKey(d));
+            }
+
             // Labels on arcs
-            g.selectAll("text.arc-label")
-                .data(nodes.filter((d: any) => (d.x1 - d.x0) > 0.16 && (d.y1 - d.y0) > 12))
-                .join("text")
-                .attr("class", "arc-label")
+            this.joinMarks<SVGTextElement, any>(g, "text.arc-label", nodes.filter((d: any) => (d.x1 - d.x0) > 0.16 && (d.y1 - d.y0) > 12), nodeKey, (text) => text
                 .attr("transform", (d: any) => {
                     const a = (d.x0 + d.x1) / 2;
                     const r = (d.y0 + d.y1) / 2;
@@ -201,7 +238,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                     const y = Math.sin(a - Math.PI / 2) * r;
                     const rotate = (a * 180 / Math.PI) - 90;
                     return `translate(${x},${y}) rotate(${rotate})`;
-                })
+                }))
                 .attr("dy", "0.35em")
                 .attr("text-anchor", "middle")
                 .attr("font-size", labelFontSize + "px")
@@ -210,18 +247,22 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 .style("text-shadow", "0 1px 2px rgba(0,0,0,0.4)")
                 .text((d: any) => String(d.data.name));
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text").attr("class", "panel-title")
                     .attr("x", 0).attr("y", -6)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
 
         if (settings.showLegend && legendCategories.length) {
-            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories.slice(0, settings.maxLegendItems), undefined, undefined, {
+            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories, undefined, undefined, {
                 alignFrame: { x: margin.left, y: margin.top, width: totalW, height: totalH }
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_SunburstChart");
+    }
 }
@@ -2,44 +2,65 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createConditionalColorLookup,
+    createCategoryRowSelectionId,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    getHierarchyLevels,
+    getHierarchyRowPath,
+    getHighlightedRowValue,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface ITreeNode {
     name: string;
     value?: number;
+    // Highlighted share of `value`; equals `value` when no highlights are active.
+    highlightValue?: number;
     children?: ITreeNode[];
+    selectionKey?: string;
 }
 
 export interface IChartData extends ChartData {
     treeByGroup: Map<string, ITreeNode>;
+    hasHighlights: boolean;
     valueFormatString?: string;
 }
 
-function splitPath(raw: string): string[] {
-    return raw
-        .split(/>|\/|\|/g)
-        .map((p) => p.trim())
-        .filter(Boolean);
+function getPathSelectionKey(group: string, path: string[]): string {
+    return [group, ...path].join("\u001f");
 }
 
-function addPath(root: ITreeNode, path: string[], value: number): void {
+function addPath(root: ITreeNode, path: string[], value: number, highlightValue: number, group: string): void {
     let node = root;
     path.forEach((segment, idx) => {
         node.children = node.children ?? [];
         let next = node.children.find((c) => c.name === segment);
         if (!next) {
-            next = { name: segment };
+            next = { name: segment, selectionKey: getPathSelectionKey(group, path.slice(0, idx + 1)) };
             node.children.push(next);
         }
         node = next;
         if (idx === path.length - 1) {
             node.value = (node.value ?? 0) + value;
+            node.highlightValue = (node.highlightValue ?? 0) + highlightValue;
         }
     });
 }
 
+export function getHighlightedTotal(node: ITreeNode): number {
+    return (node.highlightValue ?? 0) + (node.children ?? []).reduce((sum, child) => sum + getHighlightedTotal(child), 0);
+}
+
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -48,39 +69,53 @@ export class ChartTransformer {
             groups: [],
             maxValue: 0,
             minValue: 0,
-            treeByGroup: new Map()
+            treeByGroup: new Map(),
+            hasHighlights: false
         };
 
         if (!categorical?.categories?.length || !categorical.values?.length) return empty;
 
-        const pathCol = categorical.categories.find((c) => c.source.roles?.["category"]) ?? categorical.categories[0];
+        // One column per expanded hierarchy level, or a single delimited path column.
+        const levels = getHierarchyLevels(dataView, "category");
         const groupCol = categorical.categories.find((c) => c.source.roles?.["group"]);
         const valueCol = categorical.values.find((v) => v.source.roles?.["values"]) ?? categorical.values[0];
 
-        if (!pathCol || !valueCol) return empty;
+        if (!levels.columns.length || !valueCol) return empty;
 
+        const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
         const treeByGroup = new Map<string, ITreeNode>();
         const dataPoints: DataPoint[] = [];
         const groupsSet = new Set<string>();
         const leaves = new Set<string>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
 
         let maxValue = Number.NEGATIVE_INFINITY;
 
         for (let i = 0; i < valueCol.values.length; i++) {
             const value = Number(valueCol.values[i]);
             if (!Number.isFinite(value)) continue;
-            const pathRaw = String(pathCol.values[i] ?? "(Blank)");
-            const path = splitPath(pathRaw);
+            const path = getHierarchyRowPath(levels, i);
             if (!path.length) continue;
 
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
             groupsSet.add(group);
             leaves.add(path[path.length - 1]);
 
             const root = treeByGroup.get(group) ?? { name: "root", children: [] };
-            addPath(root, path, value);
+            addPath(root, path, value, getHighlightedRowValue(highlightState, valueCol, i, value), group);
             treeByGroup.set(group, root);
 
+            if (createSelectionIdBuilder) {
+                // A node stands for every row beneath it, so the row id is registered on each ancestor too.
+                // The id spans every level column, so drill mode and drillthrough see the full path.
+                const selectionId = createCategoryRowSelectionId(createSelectionIdBuilder, [...levels.columns, groupCol], i);
+                path.forEach((_, idx) => addSelectionIdForKey(selectionIdsByKey, getPathSelectionKey(group, path.slice(0, idx + 1)), selectionId));
+            }
+            // Rule results are per row, so only the leaf the row feeds takes its color.
+            addRuleColorForKey(ruleColorsByKey, getPathSelectionKey(group, path), ruleColors.getRowColor(i));
+
             dataPoints.push({
                 xValue: path[path.length - 1],
                 yValue: group,
@@ -101,7 +136,10 @@ export class ChartTransformer {
             maxValue,
             minValue: 0,
             treeByGroup,
-            valueFormatString: (valueCol.source as any)?.format as string | undefined
+            hasHighlights: highlightState.hasIncomingHighlights,
+            valueFormatString: (valueCol.source as any)?.format as string | undefined,
+            selectionIdsByKey,
+            ruleColorsByKey
         };
     }
 }
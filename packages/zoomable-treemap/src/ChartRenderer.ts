@@ -1,23 +1,58 @@
 "use strict";
 
-import { d3, BaseRenderer, RenderContext, ChartData, formatMeasureValue } from "@pbi-visuals/shared";
+import powerbi from "powerbi-visuals-api";
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import { d3, TooltipMeta, BaseRenderer, RenderContext, ChartData, DIMMED_HIGHLIGHT_OPACITY, isDeepestLoadedLevel, localize, getOthersLabel, computeSmallMultiplesGrid, ALL_GROUP } from "@pbi-visuals/shared";
 import { IVisualSettings } from "./settings";
-import { IChartData } from "./ChartTransformer";
+import { IChartData, ITreeNode, getHighlightedTotal } from "./ChartTransformer";
 
 declare const require: any;
 const d3Hierarchy = require("d3-hierarchy");
 
 type HNode = any;
 
+// A cell of the zoomed level or of a parent's sub-treemap, in panel coordinates.
+interface TreemapCell {
+    key: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill: string;
+    fillOpacity: number;
+    strokeWidth: number;
+    rx: number;
+    isLeaf: boolean;
+    selectionKey: string | null;
+    nodeKey: string | null;
+    legendKey: string | null;
+    // Node a click zooms into; null for leaves of the zoomed level.
+    zoom: { name: string; data: ITreeNode } | null;
+    // Highlighted share of the cell's value, 0 when none.
+    highlightShare: number;
+    tooltipItems: VisualTooltipDataItem[];
+    tooltipMeta: TooltipMeta;
+}
+
+interface TreemapLabel {
+    key: string;
+    className: "header-label" | "leaf-label";
+    x: number;
+    y: number;
+    fontSize: number;
+    bold: boolean;
+    text: string;
+}
+
 function collectLeafLegendKeys(node: { name?: string; children?: any[] }): string[] {
     const keys: string[] = [];
     const visit = (current: { name?: string; children?: any[] }, parentName?: string): void => {
         const children = current.children ?? [];
         if (!children.length) {
-            keys.push(String(parentName ?? current.name ?? "(Blank)"));
+            keys.push(String(parentName ?? current.name ?? localize("Visual_Blank")));
             return;
         }
-        children.forEach((child) => visit(child, String(current.name ?? parentName ?? "(Blank)")));
+        children.forEach((child) => visit(child, String(current.name ?? parentName ?? localize("Visual_Blank"))));
     };
     visit(node);
     return keys;
@@ -44,7 +79,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
     }
 
     private getZoomStack(groupName: string): any[] {
-        if (!this.zoomStack.has(groupName)) this.zoomStack.set(groupName, []);
+        if (!this.zoomStack.has(groupName)) this.zoomStack.set(groupName, [...(this.settings.viewState.drillPath[groupName] ?? [])]);
         return this.zoomStack.get(groupName)!;
     }
 
@@ -57,11 +92,19 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
     private rerenderAll(): void {
         if (!this.lastData || !this.lastSettings) return;
-        this.context.container.selectAll("*").remove();
+        this.context.onViewStateChange?.({ drillPath: Object.fromEntries(this.zoomStack) });
         this.render(this.lastData, this.lastSettings);
+        this.context.onRerender?.();
+    }
+
+    // Zooms one level into `target`; reaching the deepest level loaded asks the host for the next one.
+    private zoomInto(stack: any[], name: string, target: ITreeNode): void {
+        stack.push(name);
+        this.rerenderAll();
+        if (isDeepestLoadedLevel(target)) this.context.onDrillDown?.();
     }
 
-    public render(data: ChartData, settings: IVisualSettings): void {
+    protected draw(data: ChartData, settings: IVisualSettings): void {
         this.settings = settings;
         const chartData = data as IChartData;
         this.lastData = chartData;
@@ -85,10 +128,15 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                 return collectLeafLegendKeys(rootData);
             })
         ));
-        const colorScale = this.getCategoryColors(legendCategories.length ? legendCategories : groups);
+        // Cells inside a Top-N "Others" node take its color, like the node itself.
+        const othersColors = chartData.othersByGroup
+            ? new Map([[getOthersLabel(settings.topN), settings.topN.othersColor]])
+            : undefined;
+        const colorScale = this.getCategoryColors(legendCategories.length ? legendCategories : groups, othersColors);
+        const isOthers = (groupName: string, key: string | undefined): boolean => !!key && !!chartData.othersByGroup?.get(groupName)?.has(key);
 
         const legendReserve = settings.showLegend && legendCategories.length
-            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories.slice(0, settings.maxLegendItems) })
+            ? this.getLegendReservation({ isOrdinal: true, categories: legendCategories })
             : { top: 0, right: 0, bottom: 0, left: 0 };
 
         const margin = {
@@ -97,10 +145,20 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             bottom: 6 + legendReserve.bottom,
             left: 6 + legendReserve.left
         };
-        const panelGap = groups.length > 1 ? Math.max(18, settings.smallMultiples.spacing) : 0;
+        const smallMultiples = settings.smallMultiples;
+        const titleFontSize = settings.textSizes.panelTitleFontSize || smallMultiples.titleFontSize;
         const totalWidth = Math.max(220, this.context.width - margin.left - margin.right);
-        const totalHeight = Math.max(140, this.context.height - margin.top - margin.bottom - panelGap * (groups.length - 1));
-        const panelHeight = totalHeight / groups.length;
+        const totalHeight = Math.max(140, this.context.height - margin.top - margin.bottom);
+        const grid = computeSmallMultiplesGrid(smallMultiples, {
+            count: groups.length,
+            width: totalWidth,
+            height: totalHeight,
+            aspectRatio: 1.6,
+            titleHeight: smallMultiples.showTitle ? titleFontSize + 10 : 0
+        });
+        this.setContentHeight(margin.top + grid.contentHeight + margin.bottom);
+        const panelWidth = grid.panelWidth;
+        const panelHeight = grid.panelHeight;
         const breadcrumbH = 24;
         const labelFontSize = settings.textSizes.xAxisFontSize || settings.xAxisFontSize;
 
@@ -109,16 +167,19 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             if (!rootData) return;
 
             const stack = this.getZoomStack(groupName);
-            const panelY = margin.top + groupIndex * (panelHeight + panelGap);
-            const panel = this.context.container.append("g")
-                .attr("class", "panel")
-                .attr("transform", `translate(${margin.left},${Math.round(panelY)})`);
+            const cell = grid.cells[groupIndex];
+            const panel = this.getPanel(groupName, Math.round(margin.left + cell.x), Math.round(margin.top + cell.y));
 
             let zoomData: any = rootData;
-            for (const seg of stack) {
+            for (const [depth, seg] of stack.entries()) {
                 const child = (zoomData.children ?? []).find((c: any) => c.name === seg);
-                if (child) zoomData = child;
-                else break;
+                if (child) {
+                    zoomData = child;
+                } else {
+                    // A restored drill path can point into data that is no longer there.
+                    stack.length = depth;
+                    break;
+                }
             }
 
             const zoomRoot = d3Hierarchy.hierarchy(zoomData)
@@ -138,13 +199,13 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
                 crumbGroup.append("rect")
                     .attr("x", 0).attr("y", 0)
-                    .attr("width", totalWidth).attr("height", breadcrumbH)
+                    .attr("width", panelWidth).attr("height", breadcrumbH)
                     .attr("fill", "#f8f9fa").attr("rx", 4)
                     .attr("stroke", "#e5e7eb").attr("stroke-width", 1);
 
                 crumbParts.forEach((part, idx) => {
                     const isLast = idx === crumbParts.length - 1;
-                    const label = idx === 0 ? "\u2190 All" : part;
+                    const label = idx === 0 ? `\u2190 ${localize("Visual_All")}` : part;
                     const crumb = crumbGroup.append("text")
                         .attr("x", cx + 10).attr("y", 16)
                         .attr("font-size", "11px")
@@ -155,7 +216,8 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         .text(label);
 
                     if (!isLast) {
-                        crumb.on("click", () => {
+                        crumb.on("click", (event: MouseEvent) => {
+                            event.stopPropagation();
                             stack.length = idx;
                             this.rerenderAll();
                         });
@@ -174,7 +236,7 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
 
             // Treemap layout
             const treemap = d3Hierarchy.treemap()
-                .size([totalWidth, treemapH])
+                .size([panelWidth, treemapH])
                 .paddingInner(innerGap)
                 .paddingOuter(outerPad)
                 .round(true);
@@ -182,51 +244,67 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
             treemap(zoomRoot);
             const nodes: HNode[] = hasChildren ? zoomRoot.children : [zoomRoot];
 
+            // Full path from the group's root, so a cell keeps its key when zooming in or out.
+            const pathKey = (names: string[]): string => [...stack, ...names].join("\u001f");
+            const cells: TreemapCell[] = [];
+            const labels: TreemapLabel[] = [];
+            const highlightShare = (d: HNode): number => chartData.hasHighlights && d.value > 0 ? Math.min(1, getHighlightedTotal(d.data) / d.value) : 0;
+
             nodes.forEach((node: any) => {
                 const nx0 = node.x0;
                 const ny0 = node.y0 + treemapY;
                 const nw = Math.max(1, node.x1 - node.x0);
                 const nh = Math.max(1, node.y1 - node.y0);
                 const canZoom = !!(node.children && node.children.length);
-                const nodeName = String(node.data.name ?? "(Blank)");
-                const nodeColor = colorScale(String(node.parent?.data?.name || nodeName));
+                const nodeName = String(node.data.name ?? localize("Visual_Blank"));
+                const nodeKey = pathKey(hasChildren ? [nodeName] : []);
+                const nodeColor = isOthers(groupName, node.data.selectionKey)
+                    ? settings.topN.othersColor
+                    : this.getRuleColor(chartData, node.data.selectionKey) ?? colorScale(String(node.parent?.data?.name || nodeName));
 
                 if (canZoom) {
                     const headerH = Math.min(20, Math.max(14, nh * 0.18));
                     const subY = ny0 + headerH;
                     const subH = Math.max(1, nh - headerH);
+                    const zoom = { name: nodeName, data: node.data as ITreeNode };
 
                     // Parent background
-                    const bgRect = panel.append("rect")
-                        .attr("class", "treemap-cell")
-                        .attr("x", nx0).attr("y", ny0)
-                        .attr("width", nw).attr("height", nh)
-                        .attr("fill", darkenColor(nodeColor, 30))
-                        .attr("stroke", borderColor)
-                        .attr("stroke-width", borderWidth)
-                        .attr("rx", 2)
-                        .style("cursor", "pointer")
-                        .on("click", () => { stack.push(nodeName); this.rerenderAll(); });
-
-                    this.addTooltip(bgRect as any, [
-                        { displayName: "Category", value: nodeName, color: nodeColor },
-                        { displayName: "Value", value: formatMeasureValue(node.value, chartData.valueFormatString) }
-                    ], {
-                        title: ancestorPath(node) || nodeName,
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color: nodeColor
+                    cells.push({
+                        key: nodeKey,
+                        x: nx0, y: ny0, width: nw, height: nh,
+                        fill: darkenColor(nodeColor, 30),
+                        fillOpacity: 1,
+                        strokeWidth: borderWidth,
+                        rx: 2,
+                        isLeaf: false,
+                        selectionKey: null,
+                        nodeKey: null,
+                        legendKey: null,
+                        zoom,
+                        highlightShare: 0,
+                        tooltipItems: [
+                            { displayName: localize("Visual_Category"), value: nodeName, color: nodeColor },
+                            { displayName: localize("Visual_Value"), value: this.formatTooltipValue(node.value, chartData.valueFormatString) },
+                            ...this.getOthersTooltipRows(chartData, groupName, node.data.selectionKey)
+                        ],
+                        tooltipMeta: {
+                            title: ancestorPath(node) || nodeName,
+                            subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                            color: nodeColor
+                        }
                     });
 
                     // Header label
                     if (nw > 36 && nh > 18) {
-                        panel.append("text")
-                            .attr("class", "cell-label header-label")
-                            .attr("x", nx0 + 5).attr("y", ny0 + headerH - 5)
-                            .attr("font-size", Math.max(9, labelFontSize) + "px")
-                            .attr("font-weight", "700")
-                            .attr("fill", "#fff")
-                            .style("pointer-events", "none")
-                            .text(this.truncateLabel(nodeName, nw - 10, labelFontSize));
+                        labels.push({
+                            key: nodeKey,
+                            className: "header-label",
+                            x: nx0 + 5,
+                            y: ny0 + headerH - 5,
+                            fontSize: Math.max(9, labelFontSize),
+                            bold: true,
+                            text: this.truncateLabel(nodeName, nw - 10, labelFontSize)
+                        });
                     }
 
                     // Sub-treemap
@@ -247,83 +325,154 @@ export class ChartRenderer extends BaseRenderer<IVisualSettings> {
                         const ly = subY + leaf.y0;
                         const lw = Math.max(1, leaf.x1 - leaf.x0);
                         const lh = Math.max(1, leaf.y1 - leaf.y0);
-                        const leafColor = colorScale(String(leaf.parent?.data?.name || nodeName));
-
-                        const leafRect = panel.append("rect")
-                            .attr("class", "treemap-cell leaf-cell")
-                            .attr("x", lx).attr("y", ly)
-                            .attr("width", lw).attr("height", lh)
-                            .attr("fill", leafColor)
-                            .attr("stroke", borderColor)
-                            .attr("stroke-width", Math.max(0.5, borderWidth * 0.5))
-                            .attr("rx", 1)
-                            .style("cursor", "pointer")
-                            .on("click", () => { stack.push(nodeName); this.rerenderAll(); });
-
-                        this.addTooltip(leafRect as any, [
-                            { displayName: "Node", value: String(leaf.data.name), color: leafColor },
-                            { displayName: "Value", value: formatMeasureValue(leaf.value, chartData.valueFormatString) }
-                        ], {
-                            title: nodeName + " \u203A " + String(leaf.data.name),
-                            subtitle: groupName !== "All" ? groupName : undefined,
-                            color: leafColor
+                        const leafColor = this.getRuleColor(chartData, leaf.data.selectionKey) ?? colorScale(String(leaf.parent?.data?.name || nodeName));
+                        const leafKey = pathKey([nodeName, ...leaf.ancestors().map((a: any) => String(a.data.name)).reverse().slice(1)]);
+
+                        // Click zooms, so no selection key; the node key still gives the context menu its id.
+                        cells.push({
+                            key: leafKey,
+                            x: lx, y: ly, width: lw, height: lh,
+                            fill: leafColor,
+                            fillOpacity: chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1,
+                            strokeWidth: Math.max(0.5, borderWidth * 0.5),
+                            rx: 1,
+                            isLeaf: true,
+                            selectionKey: null,
+                            nodeKey: leaf.data.selectionKey ?? null,
+                            legendKey: null,
+                            zoom,
+                            highlightShare: highlightShare(leaf),
+                            tooltipItems: [
+                                { displayName: localize("Visual_Node"), value: String(leaf.data.name), color: leafColor },
+                                { displayName: localize("Visual_Value"), value: this.formatTooltipValue(leaf.value, chartData.valueFormatString) },
+                                ...(chartData.hasHighlights ? [
+                                    { displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(getHighlightedTotal(leaf.data), chartData.valueFormatString) }
+                                ] : [])
+                            ],
+                            tooltipMeta: {
+                                title: nodeName + " \u203A " + String(leaf.data.name),
+                                subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                                color: leafColor
+                            }
                         });
 
                         if (lw > 36 && lh > 16) {
-                            panel.append("text")
-                                .attr("class", "cell-label leaf-label")
-                                .attr("x", lx + 4).attr("y", ly + 13)
-                                .attr("font-size", Math.max(8, labelFontSize - 1) + "px")
-                                .attr("fill", "#fff")
-                                .style("pointer-events", "none")
-                                .text(this.truncateLabel(String(leaf.data.name), lw - 8, labelFontSize - 1));
+                            labels.push({
+                                key: leafKey,
+                                className: "leaf-label",
+                                x: lx + 4,
+                                y: ly + 13,
+                                fontSize: Math.max(8, labelFontSize - 1),
+                                bold: false,
+                                text: this.truncateLabel(String(leaf.data.name), lw - 8, labelFontSize - 1)
+                            });
                         }
                     });
                 } else {
                     // Leaf node
-                    const leafRect = panel.append("rect")
-                        .attr("class", "treemap-cell leaf-cell")
-                        .attr("x", nx0).attr("y", ny0)
-                        .attr("width", nw).attr("height", nh)
-                        .attr("fill", nodeColor)
-                        .attr("stroke", borderColor)
-                        .attr("stroke-width", borderWidth)
-                        .attr("rx", 2);
-
-                    this.addTooltip(leafRect as any, [
-                        { displayName: "Node", value: nodeName, color: nodeColor },
-                        { displayName: "Value", value: formatMeasureValue(node.value, chartData.valueFormatString) }
-                    ], {
-                        title: ancestorPath(node) || nodeName,
-                        subtitle: groupName !== "All" ? groupName : undefined,
-                        color: nodeColor
+                    cells.push({
+                        key: nodeKey,
+                        x: nx0, y: ny0, width: nw, height: nh,
+                        fill: nodeColor,
+                        fillOpacity: chartData.hasHighlights ? DIMMED_HIGHLIGHT_OPACITY : 1,
+                        strokeWidth: borderWidth,
+                        rx: 2,
+                        isLeaf: true,
+                        selectionKey: node.data.selectionKey ?? null,
+                        nodeKey: null,
+                        legendKey: String(node.parent?.data?.name || nodeName),
+                        zoom: null,
+                        highlightShare: highlightShare(node),
+                        tooltipItems: [
+                            { displayName: localize("Visual_Node"), value: nodeName, color: nodeColor },
+                            { displayName: localize("Visual_Value"), value: this.formatTooltipValue(node.value, chartData.valueFormatString) },
+                            ...(chartData.hasHighlights ? [
+                                { displayName: localize("Visual_Highlighted"), value: this.formatTooltipValue(getHighlightedTotal(node.data), chartData.valueFormatString) }
+                            ] : [])
+                        ],
+                        tooltipMeta: {
+                            title: ancestorPath(node) || nodeName,
+                            subtitle: groupName !== ALL_GROUP ? groupName : undefined,
+                            color: nodeColor
+                        }
                     });
 
                     if (nw > 36 && nh > 16) {
-                        panel.append("text")
-                            .attr("class", "cell-label leaf-label")
-                            .attr("x", nx0 + 5).attr("y", ny0 + 15)
-                            .attr("font-size", labelFontSize + "px")
-                            .attr("fill", "#fff")
-                            .style("pointer-events", "none")
-                            .text(this.truncateLabel(nodeName, nw - 10, labelFontSize));
+                        labels.push({
+                            key: nodeKey,
+                            className: "leaf-label",
+                            x: nx0 + 5,
+                            y: ny0 + 15,
+                            fontSize: labelFontSize,
+                            bold: false,
+                            text: this.truncateLabel(nodeName, nw - 10, labelFontSize)
+                        });
                     }
                 }
             });
 
-            if (settings.smallMultiples.showTitle && groups.length > 1 && groupName !== "All") {
+            this.joinMarks<SVGRectElement, TreemapCell>(panel, "rect.treemap-cell", cells, (c) => c.key, (rect) => rect
+                .attr("x", (c) => c.x).attr("y", (c) => c.y)
+                .attr("width", (c) => c.width).attr("height", (c) => c.height)
+                .attr("fill", (c) => c.fill)
+                .attr("fill-opacity", (c) => c.fillOpacity)
+                .attr("stroke-width", (c) => c.strokeWidth))
+                .classed("leaf-cell", (c) => c.isLeaf)
+                .attr("data-selection-key", (c) => c.selectionKey)
+                .attr("data-node-key", (c) => c.nodeKey)
+                .attr("data-legend-key", (c) => c.legendKey)
+                .attr("stroke", borderColor)
+                .attr("rx", (c) => c.rx)
+                .style("cursor", (c) => c.zoom ? "pointer" : null)
+                .on("click", (event: MouseEvent, c) => {
+                    if (!c.zoom) return;
+                    event.stopPropagation();
+                    this.zoomInto(stack, c.zoom.name, c.zoom.data);
+                })
+                .each((c, i, cellNodes) => {
+                    this.addTooltip(d3.select(cellNodes[i]) as any, c.tooltipItems, c.tooltipMeta);
+                });
+
+            // Highlighted share of each cell, filled from its bottom edge over the dimmed full cell
+            if (chartData.hasHighlights) {
+                const highlightLayer = this.getLayer(panel, "highlight-layer")
+                    .style("pointer-events", "none");
+                this.joinMarks<SVGRectElement, TreemapCell>(highlightLayer, "rect.treemap-highlight", cells.filter((c) => c.highlightShare > 0), (c) => c.key, (rect) => rect
+                    .attr("x", (c) => c.x).attr("y", (c) => c.y + c.height - Math.max(1, c.height * c.highlightShare))
+                    .attr("width", (c) => c.width).attr("height", (c) => Math.max(1, c.height * c.highlightShare))
+                    .attr("fill", (c) => c.fill))
+                    .attr("data-selection-key", (c) => c.selectionKey)
+                    .attr("data-legend-key", (c) => c.legendKey)
+                    .attr("rx", 1);
+            }
+
+            this.joinMarks<SVGTextElement, TreemapLabel>(panel, "text.cell-label", labels, (l) => l.key, (text) => text
+                .attr("x", (l) => l.x).attr("y", (l) => l.y))
+                .classed("header-label", (l) => l.className === "header-label")
+                .classed("leaf-label", (l) => l.className === "leaf-label")
+                .attr("font-size", (l) => l.fontSize + "px")
+                .attr("font-weight", (l) => l.bold ? "700" : null)
+                .attr("fill", "#fff")
+                .style("pointer-events", "none")
+                .text((l) => l.text);
+
+            if (smallMultiples.showTitle && groups.length > 1 && groupName !== ALL_GROUP) {
                 panel.append("text")
                     .attr("class", "panel-title")
                     .attr("x", 0).attr("y", -6)
-                    .attr("font-size", (settings.textSizes.panelTitleFontSize || settings.smallMultiples.titleFontSize) + "px")
+                    .attr("font-size", titleFontSize + "px")
                     .text(groupName);
             }
         });
 
         if (settings.showLegend && legendCategories.length) {
-            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories.slice(0, settings.maxLegendItems), undefined, undefined, {
+            this.renderLegend(colorScale, chartData.maxValue, true, legendCategories, undefined, undefined, {
                 alignFrame: { x: margin.left, y: margin.top, width: totalWidth, height: totalHeight }
             });
         }
     }
+
+    protected getAccessibleChartType(): string {
+        return localize("Visual_ChartType_Treemap");
+    }
 }
@@ -2,44 +2,75 @@
 
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
-import { ChartData, DataPoint, formatGroupValue } from "@pbi-visuals/shared";
+import ISelectionId = powerbi.extensibility.ISelectionId;
+import {
+    ChartData,
+    DataPoint,
+    SelectionIdBuilderFactory,
+    addRuleColorForKey,
+    addSelectionIdForKey,
+    createConditionalColorLookup,
+    createCategoryRowSelectionId,
+    formatGroupValue,
+    getCategoricalHighlightState,
+    getHierarchyLevels,
+    getHierarchyRowPath,
+    getHighlightedRowValue,
+    ITopNSettings,
+    TopNOthers,
+    selectTopN,
+    collectOthers,
+    setOthersForKey,
+    addOthersSelectionIds,
+    ALL_GROUP
+} from "@pbi-visuals/shared";
 
 export interface ITreeNode {
     name: string;
     value?: number;
+    // Highlighted share of `value`; equals `value` when no highlights are active.
+    highlightValue?: number;
     children?: ITreeNode[];
+    selectionKey?: string;
 }
 
 export interface IChartData extends ChartData {
     treeByGroup: Map<string, ITreeNode>;
+    hasHighlights: boolean;
     valueFormatString?: string;
 }
 
-function splitPath(raw: string): string[] {
-    return raw
-        .split(/>|\/|\|/g)
-        .map((p) => p.trim())
-        .filter(Boolean);
+function getPathSelectionKey(group: string, path: string[]): string {
+    return [group, ...path].join("\u001f");
 }
 
-function addPath(root: ITreeNode, path: string[], value: number): void {
+function addPath(root: ITreeNode, path: string[], value: number, highlightValue: number, group: string): void {
     let node = root;
     path.forEach((segment, idx) => {
         node.children = node.children ?? [];
         let next = node.children.find((c) => c.name === segment);
         if (!next) {
-            next = { name: segment };
+            next = { name: segment, selectionKey: getPathSelectionKey(group, path.slice(0, idx + 1)) };
             node.children.push(next);
         }
         node = next;
         if (idx === path.length - 1) {
             node.value = (node.value ?? 0) + value;
+            node.highlightValue = (node.highlightValue ?? 0) + highlightValue;
         }
     });
 }
 
+function getTotal(node: ITreeNode): number {
+    return (node.value ?? 0) + (node.children ?? []).reduce((sum, child) => sum + getTotal(child), 0);
+}
+
+export function getHighlightedTotal(node: ITreeNode): number {
+    return (node.highlightValue ?? 0) + (node.children ?? []).reduce((sum, child) => sum + getHighlightedTotal(child), 0);
+}
+
 export class ChartTransformer {
-    public static transform(dataView: DataView): IChartData {
+    public static transform(dataView: DataView, createSelectionIdBuilder?: SelectionIdBuilderFactory): IChartData {
         const categorical = dataView.categorical;
         const empty: IChartData = {
             dataPoints: [],
@@ -48,39 +79,53 @@ export class ChartTransformer {
             groups: [],
             maxValue: 0,
             minValue: 0,
-            treeByGroup: new Map()
+            treeByGroup: new Map(),
+            hasHighlights: false
         };
 
         if (!categorical?.categories?.length || !categorical.values?.length) return empty;
 
-        const pathCol = categorical.categories.find((c) => c.source.roles?.["category"]) ?? categorical.categories[0];
+        // One column per expanded hierarchy level, or a single delimited path column.
+        const levels = getHierarchyLevels(dataView, "category");
         const groupCol = categorical.categories.find((c) => c.source.roles?.["group"]);
         const valueCol = categorical.values.find((v) => v.source.roles?.["values"]) ?? categorical.values[0];
 
-        if (!pathCol || !valueCol) return empty;
+        if (!levels.columns.length || !valueCol) return empty;
 
+        const highlightState = getCategoricalHighlightState(categorical, { preferredRoles: ["values"] });
         const treeByGroup = new Map<string, ITreeNode>();
         const dataPoints: DataPoint[] = [];
         const groupsSet = new Set<string>();
         const leaves = new Set<string>();
+        const selectionIdsByKey = new Map<string, ISelectionId[]>();
+        const ruleColors = createConditionalColorLookup(dataView);
+        const ruleColorsByKey = new Map<string, string>();
 
         let maxValue = Number.NEGATIVE_INFINITY;
 
         for (let i = 0; i < valueCol.values.length; i++) {
             const value = Number(valueCol.values[i]);
             if (!Number.isFinite(value)) continue;
-            const pathRaw = String(pathCol.values[i] ?? "(Blank)");
-            const path = splitPath(pathRaw);
+            const path = getHierarchyRowPath(levels, i);
             if (!path.length) continue;
 
-            const group = groupCol ? formatGroupValue(groupCol.values[i]) : "All";
+            const group = groupCol ? formatGroupValue(groupCol.values[i]) : ALL_GROUP;
             groupsSet.add(group);
             leaves.add(path[path.length - 1]);
 
             const root = treeByGroup.get(group) ?? { name: "root", children: [] };
-            addPath(root, path, value);
+            addPath(root, path, value, getHighlightedRowValue(highlightState, valueCol, i, value), group);
             treeByGroup.set(group, root);
 
+            if (createSelectionIdBuilder) {
+                // A node stands for every row beneath it, so the row id is registered on each ancestor too.
+                // The id spans every level column, so drill mode and drillthrough see the full path.
+                const selectionId = createCategoryRowSelectionId(createSelectionIdBuilder, [...levels.columns, groupCol], i);
+                path.forEach((_, idx) => addSelectionIdForKey(selectionIdsByKey, getPathSelectionKey(group, path.slice(0, idx + 1)), selectionId));
+            }
+            // Rule results are per row, so only the leaf the row feeds takes its color.
+            addRuleColorForKey(ruleColorsByKey, getPathSelectionKey(group, path), ruleColors.getRowColor(i));
+
             dataPoints.push({
                 xValue: path[path.length - 1],
                 yValue: group,
@@ -101,7 +146,60 @@ export class ChartTransformer {
             maxValue,
             minValue: 0,
             treeByGroup,
-            valueFormatString: (valueCol.source as any)?.format as string | undefined
+            hasHighlights: highlightState.hasIncomingHighlights,
+            valueFormatString: (valueCol.source as any)?.format as string | undefined,
+            selectionIdsByKey,
+            ruleColorsByKey
+        };
+    }
+
+    /**
+     * Folds the children the Top-N card leaves out of each node into an "Others" node holding
+     * them, so zooming into Others still reaches them. Siblings are ranked by their total over
+     * all groups, level by level from the top.
+     */
+    public static applyTopN(data: IChartData, settings: ITopNSettings): void {
+        if (!settings.show) {
+            return;
+        }
+
+        const othersByGroup = new Map<string, Map<string, TopNOthers>>();
+        const visit = (parents: Array<{ group: string; node: ITreeNode }>, path: string[]): void => {
+            const totals = new Map<string, number>();
+            parents.forEach(({ node }) => {
+                (node.children ?? []).forEach((child) => totals.set(child.name, (totals.get(child.name) ?? 0) + getTotal(child)));
+            });
+            const kept = selectTopN(totals, settings);
+
+            Array.from(totals.keys())
+                .filter((name) => !kept || kept.has(name))
+                .forEach((name) => visit(parents.flatMap(({ group, node }) => {
+                    const child = node.children?.find((c) => c.name === name);
+                    return child ? [{ group, node: child }] : [];
+                }), [...path, name]));
+
+            if (!kept) return;
+            parents.forEach(({ group, node }) => {
+                const children = node.children ?? [];
+                const rolled = children.filter((c) => !kept.has(c.name));
+                node.children = children.filter((c) => kept.has(c.name));
+                const others = settings.showOthers
+                    ? collectOthers(rolled.map((c) => [c.name, getTotal(c)] as [string, number]), kept, settings)
+                    : null;
+                if (!others) return;
+
+                const selectionKey = getPathSelectionKey(group, [...path, others.label]);
+                node.children.push({ name: others.label, children: rolled, selectionKey });
+                setOthersForKey(othersByGroup, group, selectionKey, others);
+                if (data.selectionIdsByKey) {
+                    addOthersSelectionIds(data.selectionIdsByKey, selectionKey, rolled.flatMap((c) => c.selectionKey ? [c.selectionKey] : []));
+                }
+            });
         };
+        visit(Array.from(data.treeByGroup.entries()).map(([group, node]) => ({ group, node })), []);
+
+        if (othersByGroup.size) {
+            data.othersByGroup = othersByGroup;
+        }
     }
 }